@@ -1,11 +1,15 @@
 #!/usr/bin/env node
 
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createServer as createHttpServer, type ServerResponse } from "node:http";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
   Tool,
 } from "@modelcontextprotocol/sdk/types.js";
@@ -17,13 +21,22 @@ const API_BASE = process.env.SOURCE_LIBRARY_API || "https://sourcelibrary.org/ap
 const TOOLS: Tool[] = [
   {
     name: "search_library",
-    description: "Search the Source Library collection of translated historical texts. Returns books and pages matching the query.",
+    description: "Search the Source Library collection of translated historical texts. Returns books and pages ranked by relevance, with highlighted snippets (matches wrapped in <mark>). Matching ignores diacritics and early-modern spelling variants (u/v, i/j, long s, ae/æ). Use mode 'semantic' to find translated passages by meaning when the exact wording is unknown.",
     inputSchema: {
       type: "object" as const,
       properties: {
         query: {
           type: "string",
-          description: "Search query (searches titles, authors, translations)",
+          description: "Search query over titles, authors, summaries, original text and translations. Supports \"exact phrases\", AND / OR / NOT (upper case), -exclusions, parentheses and prefix* matching. Terms are combined with AND by default. In semantic mode, a natural-language description of the idea to find.",
+        },
+        mode: {
+          type: "string",
+          enum: ["keyword", "semantic"],
+          description: "'keyword' (default) for ranked full-text search; 'semantic' for translated passages ranked by similarity of meaning (supports book_id, language, limit and offset only)",
+        },
+        book_id: {
+          type: "string",
+          description: "Restrict the search to pages of a single book",
         },
         language: {
           type: "string",
@@ -49,6 +62,10 @@ const TOOLS: Tool[] = [
           type: "number",
           description: "Maximum results to return (default 10)",
         },
+        offset: {
+          type: "number",
+          description: "Number of ranked results to skip, for paging",
+        },
       },
       required: ["query"],
     },
@@ -179,25 +196,316 @@ const TOOLS: Tool[] = [
       required: ["book_id"],
     },
   },
+  {
+    name: "list_pages",
+    description: "List a book's pages with their page IDs and whether each has OCR and a translation. Use to find page numbers before reading text or starting a job.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        book_id: {
+          type: "string",
+          description: "The book ID",
+        },
+        from: {
+          type: "number",
+          description: "First page number to list",
+        },
+        to: {
+          type: "number",
+          description: "Last page number to list",
+        },
+      },
+      required: ["book_id"],
+    },
+  },
+  {
+    name: "get_page_text",
+    description: "Read the OCR (original language) and/or translation text of a range of pages, in page order. At most 50 pages are returned per call; 'truncated' says when to continue from the next page.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        book_id: {
+          type: "string",
+          description: "The book ID",
+        },
+        from: {
+          type: "number",
+          description: "First page number",
+        },
+        to: {
+          type: "number",
+          description: "Last page number (default: same as from)",
+        },
+        include: {
+          type: "array",
+          items: { type: "string", enum: ["ocr", "translation"] },
+          description: "Which texts to return (default both)",
+        },
+      },
+      required: ["book_id", "from"],
+    },
+  },
+  {
+    name: "get_concept_index",
+    description: "Get a book's generated index: vocabulary, keywords, people, places, concepts with page references, and page, section and book summaries. Returns only an index that has already been generated.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        book_id: {
+          type: "string",
+          description: "The book ID",
+        },
+      },
+      required: ["book_id"],
+    },
+  },
+  {
+    name: "get_entities",
+    description: "List people, places and concepts recognised across the library, with the books that mention them. Filter by type, name or a single book.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        type: {
+          type: "string",
+          enum: ["person", "place", "concept"],
+          description: "Entity type",
+        },
+        query: {
+          type: "string",
+          description: "Match entity names",
+        },
+        book_id: {
+          type: "string",
+          description: "Only entities mentioned in this book",
+        },
+        min_books: {
+          type: "number",
+          description: "Only entities mentioned in at least this many books",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum results to return (default 50)",
+        },
+        offset: {
+          type: "number",
+          description: "Number of results to skip, for paging",
+        },
+      },
+    },
+  },
+  {
+    name: "create_annotation",
+    description: "Add a public annotation to a passage of a page: a comment, context, reference, question or etymology. Requires SOURCE_LIBRARY_TOKEN to be credited to your account. To propose a change to the text itself, use propose_correction.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        book_id: {
+          type: "string",
+          description: "The book ID",
+        },
+        page: {
+          type: "number",
+          description: "Page number",
+        },
+        text: {
+          type: "string",
+          description: "The exact passage being annotated, as it appears in the translation",
+        },
+        content: {
+          type: "string",
+          description: "The annotation (Markdown)",
+        },
+        type: {
+          type: "string",
+          enum: ["comment", "context", "reference", "question", "etymology"],
+          description: "Kind of annotation (default 'comment')",
+        },
+      },
+      required: ["book_id", "page", "text", "content"],
+    },
+  },
+  {
+    name: "create_highlight",
+    description: "Save a highlighted passage from a page, with an optional note.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        book_id: {
+          type: "string",
+          description: "The book ID",
+        },
+        page: {
+          type: "number",
+          description: "Page number",
+        },
+        text: {
+          type: "string",
+          description: "The highlighted passage",
+        },
+        note: {
+          type: "string",
+          description: "A note on the passage",
+        },
+        color: {
+          type: "string",
+          enum: ["yellow", "green", "blue", "pink", "purple", "orange"],
+          description: "Highlight colour (default yellow)",
+        },
+      },
+      required: ["book_id", "page", "text"],
+    },
+  },
+  {
+    name: "propose_correction",
+    description: "Propose a correction to a page's OCR or translation. The proposal goes to the page's review thread for an editor to accept; the text is not changed directly. Requires a contributor account (SOURCE_LIBRARY_TOKEN).",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        book_id: {
+          type: "string",
+          description: "The book ID",
+        },
+        page: {
+          type: "number",
+          description: "Page number",
+        },
+        field: {
+          type: "string",
+          enum: ["ocr", "translation"],
+          description: "Which text to correct",
+        },
+        original: {
+          type: "string",
+          description: "The exact text to replace, copied from the page",
+        },
+        replacement: {
+          type: "string",
+          description: "The corrected text",
+        },
+        reason: {
+          type: "string",
+          description: "Why the change is needed, for the reviewer",
+        },
+      },
+      required: ["book_id", "page", "field", "original", "replacement", "reason"],
+    },
+  },
+  {
+    name: "start_job",
+    description: "Start an OCR or translation job for a book's pages. Runs on the server in the background; poll with get_job. Requires an editor account (SOURCE_LIBRARY_TOKEN). A run over the cost budget is refused until repeated with confirm_budget.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        book_id: {
+          type: "string",
+          description: "The book ID",
+        },
+        type: {
+          type: "string",
+          enum: ["ocr", "translate"],
+          description: "Job to run",
+        },
+        from: {
+          type: "number",
+          description: "First page number (default: first page)",
+        },
+        to: {
+          type: "number",
+          description: "Last page number (default: last page)",
+        },
+        only_missing: {
+          type: "boolean",
+          description: "Skip pages that already have OCR (or a translation) (default true)",
+        },
+        model: {
+          type: "string",
+          description: "Model to use (default: the library's default)",
+        },
+        language: {
+          type: "string",
+          description: "Source language (default: the book's language)",
+        },
+        use_batch_api: {
+          type: "boolean",
+          description: "Use the slower, cheaper batch API",
+        },
+        confirm_budget: {
+          type: "boolean",
+          description: "Confirm a run that exceeds the cost budget",
+        },
+      },
+      required: ["book_id", "type"],
+    },
+  },
+  {
+    name: "get_job",
+    description: "Get the status and progress of a job started with start_job.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        job_id: {
+          type: "string",
+          description: "The job ID",
+        },
+      },
+      required: ["job_id"],
+    },
+  },
+  {
+    name: "list_jobs",
+    description: "List recent jobs, newest first, optionally for one book or status.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        book_id: {
+          type: "string",
+          description: "Only jobs for this book",
+        },
+        status: {
+          type: "string",
+          enum: ["pending", "processing", "paused", "completed", "failed", "cancelled", "dead"],
+          description: "Only jobs with this status",
+        },
+        limit: {
+          type: "number",
+          description: "Maximum results to return (default 20)",
+        },
+      },
+    },
+  },
 ];
 
 // API helpers
 async function searchLibrary(args: {
   query: string;
+  mode?: "keyword" | "semantic";
   language?: string;
   date_from?: string;
   date_to?: string;
   has_doi?: boolean;
   has_translation?: boolean;
+  book_id?: string;
   limit?: number;
+  offset?: number;
 }) {
   const params = new URLSearchParams({ q: args.query });
+  if (args.book_id) params.set("book_id", args.book_id);
   if (args.language) params.set("language", args.language);
+  if (args.limit) params.set("limit", String(args.limit));
+  if (args.offset) params.set("offset", String(args.offset));
+
+  if (args.mode === "semantic") {
+    const response = await fetch(`${API_BASE}/search/semantic?${params}`);
+    if (!response.ok) {
+      throw new Error(`Semantic search failed: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
   if (args.date_from) params.set("date_from", args.date_from);
   if (args.date_to) params.set("date_to", args.date_to);
   if (args.has_doi) params.set("has_doi", "true");
   if (args.has_translation) params.set("has_translation", "true");
-  if (args.limit) params.set("limit", String(args.limit));
 
   const response = await fetch(`${API_BASE}/search?${params}`);
   if (!response.ok) {
@@ -294,276 +602,781 @@ async function getBookImages(args: {
   return response.json();
 }
 
-// Create server
-const server = new Server(
-  {
-    name: "source-library",
-    version: "1.1.0",
-  },
-  {
-    capabilities: {
-      tools: {},
-      resources: {},
+// Authenticated API access. Over stdio, SOURCE_LIBRARY_TOKEN (a personal API
+// key) is sent as a bearer token and SOURCE_LIBRARY_SESSION (the value of a
+// signed-in browser's session cookie) as that cookie. Over HTTP, each
+// caller's own key is forwarded instead, so writes are credited to them.
+// Read-only tools work without either.
+const API_TOKEN = process.env.SOURCE_LIBRARY_TOKEN;
+const SESSION_TOKEN = process.env.SOURCE_LIBRARY_SESSION;
+
+interface Credentials {
+  token?: string;
+}
+
+// Set per request by the HTTP transport; unset over stdio
+const callerCredentials = new AsyncLocalStorage<Credentials>();
+
+function authHeaders(): Record<string, string> {
+  const caller = callerCredentials.getStore();
+  const headers: Record<string, string> = {};
+  if (caller) {
+    if (caller.token) headers["Authorization"] = `Bearer ${caller.token}`;
+    return headers;
+  }
+  if (API_TOKEN) headers["Authorization"] = `Bearer ${API_TOKEN}`;
+  if (SESSION_TOKEN) {
+    const secure = API_BASE.startsWith("https:") ? "__Secure-" : "";
+    headers["Cookie"] = `${secure}authjs.session-token=${SESSION_TOKEN}`;
+  }
+  return headers;
+}
+
+async function apiFetch(path: string, init: { method?: string; body?: unknown } = {}) {
+  const response = await fetch(`${API_BASE}${path}`, {
+    method: init.method || "GET",
+    headers: {
+      ...authHeaders(),
+      ...(init.body !== undefined && { "Content-Type": "application/json" }),
     },
+    body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    const message = data?.error || response.statusText;
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(`${message} (use an API key whose owner has the required role and scope)`);
+    }
+    throw new Error(message);
   }
-);
+  return data;
+}
 
-// Handle list tools
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools: TOOLS };
-});
+interface PageListing {
+  book: { id: string; title: string; author?: string; language?: string };
+  total: number;
+  truncated: boolean;
+  pages: Array<{
+    id: string;
+    page_number: number;
+    has_ocr: boolean;
+    has_translation: boolean;
+    ocr?: string;
+    translation?: string;
+  }>;
+}
 
-// Handle tool calls
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    switch (name) {
-      case "search_library": {
-        const result = await searchLibrary(args as Parameters<typeof searchLibrary>[0]);
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
+async function listPages(args: {
+  book_id: string;
+  from?: number;
+  to?: number;
+  include?: Array<"ocr" | "translation">;
+}): Promise<PageListing> {
+  const params = new URLSearchParams();
+  if (args.from !== undefined) params.set("from", String(args.from));
+  if (args.to !== undefined) params.set("to", String(args.to));
+  if (args.include?.length) params.set("include", args.include.join(","));
+  return apiFetch(`/books/${args.book_id}/pages?${params}`);
+}
 
-      case "get_quote": {
-        const result = await getQuote(args as Parameters<typeof getQuote>[0]);
-        // Format for easy reading
-        const formatted = {
-          quote: result.quote.translation,
-          original: result.quote.original,
-          page: result.quote.page,
-          book: {
-            title: result.quote.display_title || result.quote.book_title,
-            author: result.quote.author,
-            published: result.quote.published,
-            language: result.quote.language,
-          },
-          citation: {
-            inline: result.citation.inline,
-            footnote: result.citation.footnote,
-            doi_url: result.citation.doi_url,
-          },
-        };
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: JSON.stringify(formatted, null, 2),
-            },
-          ],
-        };
-      }
+async function findPage(bookId: string, pageNumber: number) {
+  const listing = await listPages({ book_id: bookId, from: pageNumber, to: pageNumber });
+  const page = listing.pages[0];
+  if (!page) {
+    throw new Error(`Page ${pageNumber} not found in book ${bookId}`);
+  }
+  return { book: listing.book, page };
+}
 
-      case "get_book": {
-        const result = await getBook(args as Parameters<typeof getBook>[0]);
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: JSON.stringify(result, null, 2),
-            },
-          ],
-        };
-      }
+async function getPageText(args: {
+  book_id: string;
+  from: number;
+  to?: number;
+  include?: Array<"ocr" | "translation">;
+}) {
+  return listPages({
+    book_id: args.book_id,
+    from: args.from,
+    to: args.to ?? args.from,
+    include: args.include?.length ? args.include : ["ocr", "translation"],
+  });
+}
+
+async function getConceptIndex(args: { book_id: string }) {
+  return apiFetch(`/books/${args.book_id}/index?cached=true`);
+}
+
+async function getEntities(args: {
+  type?: string;
+  query?: string;
+  book_id?: string;
+  min_books?: number;
+  limit?: number;
+  offset?: number;
+}) {
+  const params = new URLSearchParams();
+  if (args.type) params.set("type", args.type);
+  if (args.query) params.set("q", args.query);
+  if (args.book_id) params.set("book_id", args.book_id);
+  if (args.min_books) params.set("min_books", String(args.min_books));
+  if (args.limit) params.set("limit", String(args.limit));
+  if (args.offset) params.set("offset", String(args.offset));
+  return apiFetch(`/entities?${params}`);
+}
+
+async function createAnnotation(args: {
+  book_id: string;
+  page: number;
+  text: string;
+  content: string;
+  type?: string;
+}) {
+  const { page } = await findPage(args.book_id, args.page);
+  return apiFetch("/annotations", {
+    method: "POST",
+    body: {
+      book_id: args.book_id,
+      page_id: page.id,
+      page_number: page.page_number,
+      anchor: { text: args.text },
+      content: args.content,
+      type: args.type || "comment",
+    },
+  });
+}
+
+async function createHighlight(args: {
+  book_id: string;
+  page: number;
+  text: string;
+  note?: string;
+  color?: string;
+}) {
+  const { book, page } = await findPage(args.book_id, args.page);
+  return apiFetch("/highlights", {
+    method: "POST",
+    body: {
+      book_id: args.book_id,
+      page_id: page.id,
+      page_number: page.page_number,
+      book_title: book.title,
+      book_author: book.author,
+      text: args.text,
+      note: args.note,
+      color: args.color,
+    },
+  });
+}
+
+async function proposeCorrection(args: {
+  book_id: string;
+  page: number;
+  field: "ocr" | "translation";
+  original: string;
+  replacement: string;
+  reason: string;
+}) {
+  const { page } = await findPage(args.book_id, args.page);
+  return apiFetch(`/pages/${page.id}/comments`, {
+    method: "POST",
+    body: {
+      content: args.reason,
+      field: args.field,
+      suggestion: { original: args.original, replacement: args.replacement },
+    },
+  });
+}
+
+// The queue's job type for each start_job type
+const JOB_TYPES = {
+  ocr: "batch_ocr",
+  translate: "batch_translate",
+} as const;
+
+async function startJob(args: {
+  book_id: string;
+  type: "ocr" | "translate";
+  from?: number;
+  to?: number;
+  only_missing?: boolean;
+  model?: string;
+  language?: string;
+  use_batch_api?: boolean;
+  confirm_budget?: boolean;
+}) {
+  const listing = await listPages({ book_id: args.book_id, from: args.from, to: args.to });
+  const onlyMissing = args.only_missing !== false;
+  const pages = listing.pages.filter(p => {
+    if (args.type === "translate" && !p.has_ocr) return false;
+    if (!onlyMissing) return true;
+    return args.type === "ocr" ? !p.has_ocr : !p.has_translation;
+  });
+  if (pages.length === 0) {
+    throw new Error(
+      args.type === "translate"
+        ? "No pages to translate in that range (pages need OCR first)"
+        : "No pages without OCR in that range"
+    );
+  }
+
+  return apiFetch("/jobs", {
+    method: "POST",
+    body: {
+      type: JOB_TYPES[args.type],
+      book_id: args.book_id,
+      book_title: listing.book.title,
+      page_ids: pages.map(p => p.id),
+      model: args.model,
+      language: args.language || listing.book.language,
+      use_batch_api: args.use_batch_api,
+      confirm_budget: args.confirm_budget,
+      initiated_by: "mcp",
+    },
+  });
+}
+
+async function getJob(args: { job_id: string }) {
+  return apiFetch(`/jobs/${args.job_id}`);
+}
 
-      case "search_images": {
-        const result = await searchImages(args as Parameters<typeof searchImages>[0]);
-        // Format for easy reading
-        const formatted = {
-          total: result.total,
-          showing: result.items.length,
-          images: result.items.map((item: {
-            pageId: string;
-            detectionIndex: number;
-            description: string;
-            type?: string;
-            galleryQuality?: number;
-            bookTitle: string;
-            author?: string;
-            year?: number;
-            pageNumber: number;
-            metadata?: {
-              subjects?: string[];
-              figures?: string[];
-              symbols?: string[];
-            };
-            imageUrl: string;
-          }) => ({
-            id: `${item.pageId}:${item.detectionIndex}`,
-            description: item.description,
-            type: item.type,
-            quality: item.galleryQuality,
+async function listJobs(args: { book_id?: string; status?: string; limit?: number }) {
+  const params = new URLSearchParams({ limit: String(args.limit || 20) });
+  if (args.book_id) params.set("book_id", args.book_id);
+  if (args.status) params.set("status", args.status);
+  return apiFetch(`/jobs?${params}`);
+}
+
+/**
+ * A server with every tool and resource handler. Stdio runs one for the
+ * process; stateless HTTP makes one per request.
+ */
+function createServer(): Server {
+  const server = new Server(
+    {
+      name: "source-library",
+      version: "1.3.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+      },
+    }
+  );
+
+  // Handle list tools
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools: TOOLS };
+  });
+
+  // Handle tool calls
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    try {
+      switch (name) {
+        case "search_library": {
+          const result = await searchLibrary(args as Parameters<typeof searchLibrary>[0]);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+
+        case "get_quote": {
+          const result = await getQuote(args as Parameters<typeof getQuote>[0]);
+          // Format for easy reading
+          const formatted = {
+            quote: result.quote.translation,
+            original: result.quote.original,
+            page: result.quote.page,
             book: {
-              title: item.bookTitle,
-              author: item.author,
-              year: item.year,
+              title: result.quote.display_title || result.quote.book_title,
+              author: result.quote.author,
+              published: result.quote.published,
+              language: result.quote.language,
             },
-            page: item.pageNumber,
-            subjects: item.metadata?.subjects,
-            figures: item.metadata?.figures,
-            symbols: item.metadata?.symbols,
-            url: `https://sourcelibrary.org/gallery/image/${item.pageId}:${item.detectionIndex}`,
-            image_url: item.imageUrl,
-          })),
-          available_filters: result.filters,
-        };
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: JSON.stringify(formatted, null, 2),
+            citation: {
+              inline: result.citation.inline,
+              footnote: result.citation.footnote,
+              doi_url: result.citation.doi_url,
             },
-          ],
-        };
-      }
+          };
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(formatted, null, 2),
+              },
+            ],
+          };
+        }
 
-      case "get_image": {
-        const result = await getImage(args as Parameters<typeof getImage>[0]);
-        const formatted = {
-          id: result.id,
-          description: result.description,
-          museum_description: result.museumDescription,
-          type: result.type,
-          quality: result.galleryQuality,
-          quality_rationale: result.galleryRationale,
-          metadata: result.metadata,
-          book: result.book,
-          page: result.pageNumber,
-          citation: result.citation,
-          urls: {
-            page: `https://sourcelibrary.org/gallery/image/${result.id}`,
-            read_in_context: `https://sourcelibrary.org${result.readUrl}`,
-            image: result.imageUrl,
-          },
-        };
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: JSON.stringify(formatted, null, 2),
-            },
-          ],
-        };
-      }
+        case "get_book": {
+          const result = await getBook(args as Parameters<typeof getBook>[0]);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
 
-      case "get_book_images": {
-        const result = await getBookImages(args as Parameters<typeof getBookImages>[0]);
-        const formatted = {
-          book: result.bookInfo,
-          total_images: result.total,
-          showing: result.items.length,
-          images: result.items.map((item: {
-            pageId: string;
-            detectionIndex: number;
-            description: string;
-            type?: string;
-            galleryQuality?: number;
-            pageNumber: number;
-            metadata?: {
-              subjects?: string[];
-              figures?: string[];
-              symbols?: string[];
-            };
-          }) => ({
-            id: `${item.pageId}:${item.detectionIndex}`,
-            description: item.description,
-            type: item.type,
-            quality: item.galleryQuality,
-            page: item.pageNumber,
-            subjects: item.metadata?.subjects,
-            figures: item.metadata?.figures,
-            symbols: item.metadata?.symbols,
-            url: `https://sourcelibrary.org/gallery/image/${item.pageId}:${item.detectionIndex}`,
-          })),
-        };
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: JSON.stringify(formatted, null, 2),
-            },
-          ],
-        };
-      }
+        case "search_images": {
+          const result = await searchImages(args as Parameters<typeof searchImages>[0]);
+          // Format for easy reading
+          const formatted = {
+            total: result.total,
+            showing: result.items.length,
+            images: result.items.map((item: {
+              pageId: string;
+              detectionIndex: number;
+              description: string;
+              type?: string;
+              galleryQuality?: number;
+              bookTitle: string;
+              author?: string;
+              year?: number;
+              pageNumber: number;
+              metadata?: {
+                subjects?: string[];
+                figures?: string[];
+                symbols?: string[];
+              };
+              imageUrl: string;
+            }) => ({
+              id: `${item.pageId}:${item.detectionIndex}`,
+              description: item.description,
+              type: item.type,
+              quality: item.galleryQuality,
+              book: {
+                title: item.bookTitle,
+                author: item.author,
+                year: item.year,
+              },
+              page: item.pageNumber,
+              subjects: item.metadata?.subjects,
+              figures: item.metadata?.figures,
+              symbols: item.metadata?.symbols,
+              url: `https://sourcelibrary.org/gallery/image/${item.pageId}:${item.detectionIndex}`,
+              image_url: item.imageUrl,
+            })),
+            available_filters: result.filters,
+          };
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(formatted, null, 2),
+              },
+            ],
+          };
+        }
 
-      default:
-        return {
-          content: [
-            {
-              type: "text" as const,
-              text: `Unknown tool: ${name}`,
+        case "get_image": {
+          const result = await getImage(args as Parameters<typeof getImage>[0]);
+          const formatted = {
+            id: result.id,
+            description: result.description,
+            museum_description: result.museumDescription,
+            type: result.type,
+            quality: result.galleryQuality,
+            quality_rationale: result.galleryRationale,
+            metadata: result.metadata,
+            book: result.book,
+            page: result.pageNumber,
+            citation: result.citation,
+            urls: {
+              page: `https://sourcelibrary.org/gallery/image/${result.id}`,
+              read_in_context: `https://sourcelibrary.org${result.readUrl}`,
+              image: result.imageUrl,
             },
-          ],
-          isError: true,
-        };
-    }
-  } catch (error) {
-    return {
-      content: [
-        {
-          type: "text" as const,
-          text: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
-        },
-      ],
-      isError: true,
-    };
-  }
-});
+          };
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(formatted, null, 2),
+              },
+            ],
+          };
+        }
 
-// Handle resources (book:// URIs)
-server.setRequestHandler(ListResourcesRequestSchema, async () => {
-  // For now, return empty - we could list all books here
-  return { resources: [] };
-});
+        case "get_book_images": {
+          const result = await getBookImages(args as Parameters<typeof getBookImages>[0]);
+          const formatted = {
+            book: result.bookInfo,
+            total_images: result.total,
+            showing: result.items.length,
+            images: result.items.map((item: {
+              pageId: string;
+              detectionIndex: number;
+              description: string;
+              type?: string;
+              galleryQuality?: number;
+              pageNumber: number;
+              metadata?: {
+                subjects?: string[];
+                figures?: string[];
+                symbols?: string[];
+              };
+            }) => ({
+              id: `${item.pageId}:${item.detectionIndex}`,
+              description: item.description,
+              type: item.type,
+              quality: item.galleryQuality,
+              page: item.pageNumber,
+              subjects: item.metadata?.subjects,
+              figures: item.metadata?.figures,
+              symbols: item.metadata?.symbols,
+              url: `https://sourcelibrary.org/gallery/image/${item.pageId}:${item.detectionIndex}`,
+            })),
+          };
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(formatted, null, 2),
+              },
+            ],
+          };
+        }
 
-server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
-  const { uri } = request.params;
+        case "list_pages": {
+          const result = await listPages(args as Parameters<typeof listPages>[0]);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
 
-  // Parse book:// URIs
-  const bookMatch = uri.match(/^book:\/\/([^/]+)(?:\/page\/(\d+))?$/);
-  if (!bookMatch) {
-    throw new Error(`Invalid resource URI: ${uri}`);
-  }
+        case "get_page_text": {
+          const result = await getPageText(args as Parameters<typeof getPageText>[0]);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+
+        case "get_concept_index": {
+          const result = await getConceptIndex(args as Parameters<typeof getConceptIndex>[0]);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+
+        case "get_entities": {
+          const result = await getEntities(args as Parameters<typeof getEntities>[0]);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+
+        case "create_annotation": {
+          const result = await createAnnotation(args as Parameters<typeof createAnnotation>[0]);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify({
+                  id: result.id,
+                  type: result.type,
+                  author: result.user_name,
+                  url: `https://sourcelibrary.org/book/${result.book_id}/page/${result.page_id}`,
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        case "create_highlight": {
+          const result = await createHighlight(args as Parameters<typeof createHighlight>[0]);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result, null, 2),
+              },
+            ],
+          };
+        }
+
+        case "propose_correction": {
+          const result = await proposeCorrection(args as Parameters<typeof proposeCorrection>[0]);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify({
+                  proposal_id: result.comment.id,
+                  status: "awaiting review",
+                  field: result.comment.field,
+                  suggestion: result.comment.suggestion,
+                  author: result.comment.author,
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        case "start_job": {
+          const result = await startJob(args as Parameters<typeof startJob>[0]);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify({
+                  job_id: result.id,
+                  status: result.status,
+                  type: result.type,
+                  pages: result.progress?.total,
+                  cost_estimate: result.cost_estimate,
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        case "get_job": {
+          const result = await getJob(args as Parameters<typeof getJob>[0]);
+          const job = result.job;
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify({
+                  job_id: job.id,
+                  type: job.type,
+                  status: job.status,
+                  book_id: job.book_id,
+                  progress: job.progress,
+                  error: job.error,
+                  created_at: job.created_at,
+                  updated_at: job.updated_at,
+                  completed_at: job.completed_at,
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        case "list_jobs": {
+          const result = await listJobs(args as Parameters<typeof listJobs>[0]);
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: JSON.stringify(result.jobs.map((job: {
+                  id: string;
+                  type: string;
+                  status: string;
+                  book_id?: string;
+                  book_title?: string;
+                  progress?: unknown;
+                  created_at: string;
+                }) => ({
+                  job_id: job.id,
+                  type: job.type,
+                  status: job.status,
+                  book: job.book_title || job.book_id,
+                  progress: job.progress,
+                  created_at: job.created_at,
+                })), null, 2),
+              },
+            ],
+          };
+        }
+
+        default:
+          return {
+            content: [
+              {
+                type: "text" as const,
+                text: `Unknown tool: ${name}`,
+              },
+            ],
+            isError: true,
+          };
+      }
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+  });
 
-  const [, bookId, pageNum] = bookMatch;
+  // Handle resources (sourcelibrary:// URIs; book:// is still accepted)
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    // Books are found by search; clients read them through the templates below
+    return { resources: [] };
+  });
 
-  if (pageNum) {
-    // Get specific page
-    const result = await getQuote({ book_id: bookId, page: parseInt(pageNum) });
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
     return {
-      contents: [
+      resourceTemplates: [
         {
-          uri,
-          mimeType: "text/plain",
-          text: result.quote.translation,
+          uriTemplate: "sourcelibrary://book/{id}",
+          name: "Book",
+          description: "A book's metadata, summary, edition and DOI",
+          mimeType: "application/json",
         },
-      ],
-    };
-  } else {
-    // Get book info
-    const result = await getBook({ book_id: bookId });
-    return {
-      contents: [
         {
-          uri,
-          mimeType: "application/json",
-          text: JSON.stringify(result, null, 2),
+          uriTemplate: "sourcelibrary://book/{id}/page/{n}",
+          name: "Book page",
+          description: "The original-language text (OCR) and translation of page n",
+          mimeType: "text/plain",
         },
       ],
     };
-  }
-});
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    const { uri } = request.params;
+
+    const bookMatch = uri.match(/^(?:sourcelibrary:\/\/book\/|book:\/\/)([^/]+)(?:\/page\/(\d+))?$/);
+    if (!bookMatch) {
+      throw new Error(`Invalid resource URI: ${uri}`);
+    }
+
+    const [, bookId, pageNum] = bookMatch;
 
-// Start server
+    if (pageNum) {
+      // Get specific page
+      const result = await getPageText({ book_id: bookId, from: parseInt(pageNum) });
+      const page = result.pages[0];
+      if (!page) {
+        throw new Error(`Page ${pageNum} not found in book ${bookId}`);
+      }
+      const sections = [
+        `# ${result.book.title}, page ${page.page_number}`,
+        page.ocr ? `## Original (${result.book.language || "unknown language"})\n\n${page.ocr}` : "",
+        page.translation ? `## Translation\n\n${page.translation}` : "",
+      ];
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: "text/plain",
+            text: sections.filter(Boolean).join("\n\n"),
+          },
+        ],
+      };
+    } else {
+      // Get book info
+      const result = await getBook({ book_id: bookId });
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: "application/json",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    }
+  });
+
+  return server;
+}
+
+// Streamable HTTP, for hosting next to the web app. Each request may carry
+// its caller's API key, which is forwarded to the API (see authHeaders).
+const MCP_PATH = "/mcp";
+
+function bearerToken(authorization: string | undefined): string | undefined {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1];
+}
+
+function jsonRpcError(res: ServerResponse, status: number, message: string) {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(
+    JSON.stringify({ jsonrpc: "2.0", error: { code: -32000, message }, id: null })
+  );
+}
+
+async function startHttp(port: number) {
+  const httpServer = createHttpServer(async (req, res) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    if (pathname === "/health") {
+      res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({ status: "ok" }));
+      return;
+    }
+    if (pathname !== MCP_PATH) {
+      jsonRpcError(res, 404, "Not found");
+      return;
+    }
+    // Stateless: there are no sessions to stream to, resume or end
+    if (req.method !== "POST") {
+      res.setHeader("Allow", "POST");
+      jsonRpcError(res, 405, "Method not allowed");
+      return;
+    }
+
+    const server = createServer();
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+    res.on("close", () => {
+      transport.close();
+      server.close();
+    });
+
+    try {
+      await server.connect(transport);
+      await callerCredentials.run(
+        { token: bearerToken(req.headers.authorization) },
+        () => transport.handleRequest(req, res)
+      );
+    } catch (error) {
+      console.error("Error handling MCP request:", error);
+      if (!res.headersSent) {
+        jsonRpcError(res, 500, "Internal server error");
+      }
+    }
+  });
+
+  httpServer.listen(port, () => {
+    console.error(`Source Library MCP server listening on http://localhost:${port}${MCP_PATH}`);
+  });
+}
+
+// Start server: stdio by default, Streamable HTTP with --http or MCP_TRANSPORT=http
 async function main() {
+  if (process.argv.includes("--http") || process.env.MCP_TRANSPORT === "http") {
+    await startHttp(parseInt(process.env.PORT || "3100", 10));
+    return;
+  }
+
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
   console.error("Source Library MCP server running");
 }
 
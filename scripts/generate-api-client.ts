@@ -0,0 +1,51 @@
+/**
+ * Generate the typed /api/v1 client from the OpenAPI document
+ *
+ * Writes src/lib/api-client/v1.ts and src/lib/api-client/types/v1.ts from
+ * the schemas and operations in src/lib/api-v1. Run it after changing
+ * either, and commit the result.
+ *
+ * Run: npm run generate:api-client [-- --check]
+ *
+ * --check writes nothing and exits non-zero when the files are out of date.
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { parseArgs } from 'util';
+import { generateApiClient, type OpenApiDocument } from '../src/lib/api-v1/codegen';
+import { buildOpenApiDocument } from '../src/lib/api-v1/openapi';
+
+const { values } = parseArgs({ options: { check: { type: 'boolean', default: false } } });
+
+const root = path.resolve(__dirname, '..');
+const generated = generateApiClient(buildOpenApiDocument() as unknown as OpenApiDocument);
+const files = {
+  'src/lib/api-client/types/v1.ts': generated.types,
+  'src/lib/api-client/v1.ts': generated.client,
+};
+
+let stale = 0;
+for (const [file, content] of Object.entries(files)) {
+  const target = path.join(root, file);
+  let current = '';
+  try {
+    current = readFileSync(target, 'utf8');
+  } catch {
+    // Not generated yet
+  }
+  if (current === content) continue;
+
+  if (values.check) {
+    console.error(`${file} is out of date`);
+    stale++;
+  } else {
+    writeFileSync(target, content);
+    console.log(`Wrote ${file}`);
+  }
+}
+
+if (stale > 0) {
+  console.error('Run npm run generate:api-client');
+  process.exit(1);
+}
@@ -103,7 +103,11 @@ async function importBook(book: typeof COSMOGONY_TEXTS[0]) {
   try {
     const response = await fetch(`${API_BASE}/api/import/ia`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
+      headers: {
+        'Content-Type': 'application/json',
+        // Imports require the curator role; the cron secret authorizes scripts
+        ...(process.env.CRON_SECRET && { Authorization: `Bearer ${process.env.CRON_SECRET}` }),
+      },
       body: JSON.stringify({
         ia_identifier: book.ia_identifier,
         title: book.title,
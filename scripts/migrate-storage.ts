@@ -0,0 +1,88 @@
+/**
+ * Move archived and cropped page images between storage backends
+ *
+ * Copies every archived_photo / cropped_photo (and optionally the uploaded
+ * photo, photo_original and thumbnail) stored on one backend to another and
+ * updates the page URLs. Both backends must be configured in .env.local
+ * (BLOB_READ_WRITE_TOKEN, S3_*, STORAGE_LOCAL_*; see src/lib/storage).
+ *
+ * Run: npx tsx scripts/migrate-storage.ts --to s3 [--from vercel-blob] [--book <id>]
+ *        [--fields archived_photo,cropped_photo,photo,photo_original,thumbnail]
+ *        [--limit 500] [--delete-source] [--dry-run]
+ */
+
+import { parseArgs } from 'util';
+import { MongoClient } from 'mongodb';
+import { config } from 'dotenv';
+import { migrateStorage, STORAGE_URL_FIELDS, type StorageUrlField } from '../src/lib/storage/migrate';
+
+config({ path: '.env.local' });
+
+const MONGODB_URI = process.env.MONGODB_URI!;
+const MONGODB_DB = process.env.MONGODB_DB || 'bookstore';
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      to: { type: 'string' },
+      from: { type: 'string' },
+      book: { type: 'string' },
+      fields: { type: 'string' },
+      limit: { type: 'string' },
+      'delete-source': { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+
+  if (!values.to) {
+    console.error('Usage: npx tsx scripts/migrate-storage.ts --to <vercel-blob|s3|local> [--from ...] [--dry-run]');
+    process.exit(1);
+  }
+
+  const fields = values.fields?.split(',').map(f => f.trim()) as StorageUrlField[] | undefined;
+  const unknown = fields?.filter(f => !STORAGE_URL_FIELDS.includes(f));
+  if (unknown?.length) {
+    console.error(`Unknown fields: ${unknown.join(', ')}. Allowed: ${STORAGE_URL_FIELDS.join(', ')}`);
+    process.exit(1);
+  }
+
+  const client = new MongoClient(MONGODB_URI);
+  await client.connect();
+
+  try {
+    const dryRun = values['dry-run'];
+    console.log(`${dryRun ? '[dry run] ' : ''}Moving images to ${values.to}${values.from ? ` from ${values.from}` : ''}...`);
+
+    const result = await migrateStorage(client.db(MONGODB_DB), {
+      to: values.to,
+      from: values.from,
+      fields,
+      bookId: values.book,
+      limit: values.limit ? parseInt(values.limit, 10) : undefined,
+      dryRun,
+      deleteSource: values['delete-source'],
+      onProgress: scanned => {
+        if (scanned % 500 === 0) console.log(`  ${scanned} pages scanned`);
+      },
+    });
+
+    console.log(`\nPages scanned: ${result.pagesScanned}`);
+    console.log(`Pages ${dryRun ? 'to update' : 'updated'}: ${result.pagesUpdated}`);
+    console.log(`Images ${dryRun ? 'to copy' : 'copied'}: ${result.copied}`);
+    if (values['delete-source']) console.log(`Source images deleted: ${result.deleted}`);
+    if (result.failed.length > 0) {
+      console.log(`\nFailed: ${result.failed.length}`);
+      for (const f of result.failed.slice(0, 20)) {
+        console.log(`  ${f.pageId} ${f.field}: ${f.error}`);
+      }
+      process.exitCode = 1;
+    }
+  } finally {
+    await client.close();
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -3,12 +3,16 @@
 # Usage: ./scripts/ocr-cosmogony-realtime.sh
 
 BASE_URL="https://sourcelibrary.org"
+# An API key with the edit scope (Account > API keys)
+AUTH_HEADER="Authorization: Bearer $SOURCE_LIBRARY_API_KEY"
 # IMPORTANT: Always use gemini-3-flash-preview for OCR (per user instructions)
 # DO NOT use gemini-2.5-flash
 MODEL="gemini-3-flash-preview"
-BATCH_SIZE=5
-SLEEP_TIME=1  # 1 second between batches for rate limiting
+POLL_INTERVAL=15  # Seconds between job status checks
 
+# Each book is OCR'd by a realtime job on the job queue, which the queue
+# worker (npm run worker) or the process-queue cron works through a few
+# pages at a time.
 ocr_book() {
   BOOK_ID=$1
   TITLE=$2
@@ -26,8 +30,8 @@ ocr_book() {
 
   # Get all pages (skip page 0 which is often a Google disclaimer)
   # Using overwrite=true to re-OCR with correct model (gemini-3-flash-preview)
-  PAGES=$(echo "$BOOK" | jq '[.pages[] | select(.page_number > 0) | {pageId: .id, imageUrl: .image_url, pageNumber: .page_number}]')
-  TOTAL=$(echo "$PAGES" | jq 'length')
+  PAGE_IDS=$(echo "$BOOK" | jq '[.pages[] | select(.page_number > 0) | .id]')
+  TOTAL=$(echo "$PAGE_IDS" | jq 'length')
 
   echo "Pages needing OCR: $TOTAL"
 
@@ -36,53 +40,48 @@ ocr_book() {
     return
   fi
 
-  PROCESSED=0
-  FAILED=0
-
-  # Process in batches
-  for ((i=0; i<TOTAL; i+=BATCH_SIZE)); do
-    BATCH=$(echo "$PAGES" | jq ".[$i:$((i+BATCH_SIZE))]")
-    BATCH_LEN=$(echo "$BATCH" | jq 'length')
-
-    echo -n "Batch $((i/BATCH_SIZE + 1)) (pages $((i+1))-$((i+BATCH_LEN)))... "
-
-    RESP=$(curl -s -X POST "$BASE_URL/api/process/batch-ocr" \
-      -H "Content-Type: application/json" \
-      -d "{
-        \"pages\": $BATCH,
-        \"model\": \"$MODEL\",
-        \"language\": \"$LANG\",
-        \"overwrite\": true
-      }" --max-time 180)
-
-    # Check for errors
-    if echo "$RESP" | grep -q '"error"'; then
-      ERROR=$(echo "$RESP" | jq -r '.error // "unknown"')
-      echo "ERROR: $ERROR"
-      FAILED=$((FAILED + BATCH_LEN))
-
-      # Check for rate limit
-      if echo "$ERROR" | grep -qi "rate\|429\|quota"; then
-        echo "Rate limited, waiting 30s..."
-        sleep 30
-        i=$((i-BATCH_SIZE))  # Retry
-        continue
-      fi
-    else
-      PROC=$(echo "$RESP" | jq -r '.processedCount // 0')
-      SKIP=$(echo "$RESP" | jq -r '.skippedCount // 0')
-      FAIL=$(echo "$RESP" | jq -r '.failedPageIds | length // 0')
-      echo "processed=$PROC, skipped=$SKIP, failed=$FAIL"
-      PROCESSED=$((PROCESSED + PROC))
-      FAILED=$((FAILED + FAIL))
-    fi
-
-    sleep $SLEEP_TIME
+  RESP=$(curl -s -X POST "$BASE_URL/api/jobs" \
+    -H "$AUTH_HEADER" \
+    -H "Content-Type: application/json" \
+    -d "{
+      \"type\": \"batch_ocr\",
+      \"book_id\": \"$BOOK_ID\",
+      \"book_title\": \"$TITLE\",
+      \"page_ids\": $PAGE_IDS,
+      \"model\": \"$MODEL\",
+      \"language\": \"$LANG\",
+      \"use_batch_api\": false,
+      \"overwrite\": true
+    }")
+
+  JOB_ID=$(echo "$RESP" | jq -r '.id // empty')
+  if [ -z "$JOB_ID" ]; then
+    echo "ERROR: $(echo "$RESP" | jq -r '.error // "unknown"')"
+    return
+  fi
+  echo "Queued job $JOB_ID"
+
+  # Wait for the queue to finish the job
+  while true; do
+    JOB=$(curl -s "$BASE_URL/api/jobs/$JOB_ID" | jq '.job')
+    STATUS=$(echo "$JOB" | jq -r '.status')
+    COMPLETED=$(echo "$JOB" | jq -r '.progress.completed')
+    FAILED=$(echo "$JOB" | jq -r '.progress.failed')
+    echo "  $STATUS: $COMPLETED done, $FAILED failed of $TOTAL"
+
+    case "$STATUS" in
+      completed|failed|dead|cancelled) break ;;
+      paused)
+        echo "  Paused: $(echo "$JOB" | jq -r '.error // "resume it from the Jobs page"')"
+        break
+        ;;
+    esac
+    sleep $POLL_INTERVAL
   done
 
   echo ""
-  echo "Completed: $TITLE"
-  echo "  Processed: $PROCESSED"
+  echo "Finished: $TITLE"
+  echo "  Processed: $COMPLETED"
   echo "  Failed: $FAILED"
   echo ""
 }
@@ -90,7 +89,6 @@ ocr_book() {
 # Process all 5 cosmogony books
 echo "Starting OCR for Cosmogony Collection"
 echo "Model: $MODEL"
-echo "Batch size: $BATCH_SIZE"
 echo ""
 
 # Philo De Opificio (Greek)
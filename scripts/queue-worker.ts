@@ -0,0 +1,87 @@
+/**
+ * Job queue worker
+ *
+ * Drains the MongoDB job queue (see src/lib/queue): claims jobs by priority,
+ * runs them slice by slice under a heartbeated lease, retries failed slices
+ * with backoff and dead-letters jobs that keep failing. Run one or more next
+ * to the app with QUEUE_MODE=worker set for the app, so routes and the
+ * process-queue cron leave the jobs to it.
+ *
+ * Run: npm run worker -- [--id <name>] [--types batch_ocr,batch_translate]
+ *        [--concurrency 2] [--poll 5] [--once]
+ *
+ * Stop with Ctrl-C (SIGINT) or SIGTERM: running slices finish their current
+ * page and release their jobs.
+ */
+
+import os from 'os';
+import { parseArgs } from 'util';
+import { MongoClient } from 'mongodb';
+import { config } from 'dotenv';
+import { setDatabase } from '../src/lib/mongodb';
+import { QUEUE_JOB_TYPES, getQueueStats } from '../src/lib/queue';
+import { runWorker } from '../src/lib/queue/worker';
+import type { JobType } from '../src/lib/types';
+
+config({ path: '.env.local' });
+
+const MONGODB_URI = process.env.MONGODB_URI!;
+const MONGODB_DB = process.env.MONGODB_DB || 'bookstore';
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      id: { type: 'string' },
+      types: { type: 'string' },
+      concurrency: { type: 'string' },
+      poll: { type: 'string' },
+      once: { type: 'boolean', default: false },
+    },
+  });
+
+  const types = values.types?.split(',').map(t => t.trim()) as JobType[] | undefined;
+  const unknown = types?.filter(t => !QUEUE_JOB_TYPES.includes(t));
+  if (unknown?.length) {
+    console.error(`Unknown job types: ${unknown.join(', ')}. Allowed: ${QUEUE_JOB_TYPES.join(', ')}`);
+    process.exit(1);
+  }
+
+  const client = new MongoClient(MONGODB_URI);
+  await client.connect();
+  const db = client.db(MONGODB_DB);
+  setDatabase(client, db);
+
+  const controller = new AbortController();
+  const stop = (signal: string) => {
+    if (controller.signal.aborted) process.exit(1);
+    console.log(`\n${signal} received, finishing current slices (again to quit now)...`);
+    controller.abort();
+  };
+  process.on('SIGINT', () => stop('SIGINT'));
+  process.on('SIGTERM', () => stop('SIGTERM'));
+
+  const workerId = values.id || `${os.hostname()}-${process.pid}`;
+
+  try {
+    const stats = await getQueueStats(db);
+    console.log(`Worker ${workerId} starting: ${stats.queued} queued, ${stats.running} running, ${stats.waiting} waiting, ${stats.dead} dead`);
+
+    const slices = await runWorker(db, {
+      workerId,
+      types,
+      concurrency: values.concurrency ? parseInt(values.concurrency, 10) : 1,
+      pollMs: values.poll ? parseFloat(values.poll) * 1000 : undefined,
+      exitWhenIdle: values.once,
+      signal: controller.signal,
+    });
+
+    console.log(`Worker ${workerId} stopped after ${slices} slice(s)`);
+  } finally {
+    await client.close();
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,248 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useSession } from 'next-auth/react';
+import { ArrowLeft, Check, Copy, KeyRound, Loader2, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { account } from '@/lib/api-client';
+import {
+  API_KEY_SCOPE_LABELS,
+  DEFAULT_API_KEY_DAILY_QUOTA,
+  DEFAULT_API_KEY_RATE_LIMIT,
+  MAX_API_KEY_DAILY_QUOTA,
+  MAX_API_KEY_RATE_LIMIT,
+} from '@/lib/api-keys';
+import type { ApiKeyScope, ApiKeySummary } from '@/lib/types';
+
+export default function ApiKeysPage() {
+  const { status } = useSession();
+  const [keys, setKeys] = useState<ApiKeySummary[]>([]);
+  const [grantable, setGrantable] = useState<ApiKeyScope[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(['read']);
+  const [rateLimit, setRateLimit] = useState(DEFAULT_API_KEY_RATE_LIMIT);
+  const [dailyQuota, setDailyQuota] = useState(DEFAULT_API_KEY_DAILY_QUOTA);
+  const [creating, setCreating] = useState(false);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const fetchKeys = async () => {
+    setLoading(true);
+    try {
+      const data = await account.apiKeys();
+      setKeys(data.keys);
+      setGrantable(data.grantable_scopes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load API keys');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (status === 'authenticated') fetchKeys();
+  }, [status]);
+
+  const toggleScope = (scope: ApiKeyScope) => {
+    setScopes(prev => prev.includes(scope) ? prev.filter(s => s !== scope) : [...prev, scope]);
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setError(null);
+    try {
+      const { key, secret } = await account.createApiKey({
+        name: name.trim(),
+        scopes,
+        rate_limit: rateLimit,
+        daily_quota: dailyQuota,
+      });
+      setKeys(prev => [key, ...prev]);
+      setNewSecret(secret);
+      setCopied(false);
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create API key');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    setRevokingId(id);
+    try {
+      const { key } = await account.revokeApiKey(id);
+      setKeys(prev => prev.map(k => k.id === id ? key : k));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke API key');
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newSecret) return;
+    await navigator.clipboard.writeText(newSecret);
+    setCopied(true);
+  };
+
+  return (
+    <div className="min-h-screen bg-stone-50">
+      <header className="bg-white border-b border-stone-200">
+        <div className="max-w-3xl mx-auto px-4 py-4">
+          <Link href="/" className="inline-flex items-center gap-2 text-stone-600 hover:text-stone-900">
+            <ArrowLeft className="w-4 h-4" />
+            Back to Library
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 py-8">
+        <div className="flex items-center gap-3 mb-2">
+          <KeyRound className="w-6 h-6 text-amber-600" />
+          <h1 className="text-2xl font-serif font-bold text-stone-900">API Keys</h1>
+        </div>
+        <p className="text-stone-600 mb-6">
+          Keys let the API and the <Link href="/developers" className="text-amber-700 hover:underline">MCP server</Link> act
+          as you: annotations, corrections and jobs are credited to your account. Send a key
+          as <code className="text-sm bg-stone-100 px-1 rounded">Authorization: Bearer &lt;key&gt;</code>, or
+          set it as <code className="text-sm bg-stone-100 px-1 rounded">SOURCE_LIBRARY_TOKEN</code> for the MCP server.
+        </p>
+
+        {status === 'unauthenticated' ? (
+          <div className="bg-white rounded-xl border border-stone-200 p-6 text-center">
+            <p className="text-stone-600 mb-3">Sign in to create API keys.</p>
+            <Link href="/auth/signin" className="text-amber-700 hover:text-amber-800 font-medium">Sign in</Link>
+          </div>
+        ) : loading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="w-8 h-8 animate-spin text-amber-600" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {error && (
+              <div className="px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm">{error}</div>
+            )}
+
+            {newSecret && (
+              <div className="bg-amber-50 border border-amber-200 rounded-xl p-4">
+                <p className="text-sm font-medium text-amber-900 mb-2">
+                  Copy your new key now. It won&apos;t be shown again.
+                </p>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 text-sm bg-white border border-amber-200 rounded px-3 py-2 break-all">{newSecret}</code>
+                  <button
+                    onClick={handleCopy}
+                    className="p-2 rounded-lg text-amber-700 hover:bg-amber-100"
+                    title="Copy key"
+                  >
+                    {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* New key */}
+            <div className="bg-white rounded-xl border border-stone-200 p-4 space-y-4">
+              <h2 className="font-semibold text-stone-900">New key</h2>
+              <input
+                type="text"
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="What is this key for? (e.g. Claude Desktop)"
+                maxLength={100}
+                className="w-full px-3 py-2 border border-stone-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+              />
+              <fieldset className="space-y-2">
+                <legend className="text-sm font-medium text-stone-700 mb-1">Scopes</legend>
+                {grantable.map(scope => (
+                  <label key={scope} className="flex items-start gap-2 text-sm text-stone-700">
+                    <input
+                      type="checkbox"
+                      checked={scopes.includes(scope)}
+                      onChange={() => toggleScope(scope)}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      <span className="font-medium">{scope}</span>
+                      <span className="text-stone-500"> - {API_KEY_SCOPE_LABELS[scope]}</span>
+                    </span>
+                  </label>
+                ))}
+              </fieldset>
+              <label className="flex items-center gap-2 text-sm text-stone-700">
+                Rate limit
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_API_KEY_RATE_LIMIT}
+                  value={rateLimit}
+                  onChange={e => setRateLimit(parseInt(e.target.value, 10) || DEFAULT_API_KEY_RATE_LIMIT)}
+                  className="w-24 px-2 py-1 border border-stone-300 rounded-lg"
+                />
+                requests per minute
+              </label>
+              <label className="flex items-center gap-2 text-sm text-stone-700">
+                Daily quota
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_API_KEY_DAILY_QUOTA}
+                  value={dailyQuota}
+                  onChange={e => setDailyQuota(parseInt(e.target.value, 10) || DEFAULT_API_KEY_DAILY_QUOTA)}
+                  className="w-28 px-2 py-1 border border-stone-300 rounded-lg"
+                />
+                requests per day
+              </label>
+              <button
+                onClick={handleCreate}
+                disabled={creating || !name.trim() || scopes.length === 0}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-amber-600 text-white rounded-lg text-sm hover:bg-amber-700 disabled:opacity-50"
+              >
+                {creating && <Loader2 className="w-4 h-4 animate-spin" />}
+                Create key
+              </button>
+            </div>
+
+            {/* Existing keys */}
+            {keys.length > 0 && (
+              <div className="bg-white rounded-xl border border-stone-200 divide-y divide-stone-100">
+                {keys.map(key => (
+                  <div key={key.id} className={`p-4 flex items-start justify-between gap-4 ${key.revoked_at ? 'opacity-50' : ''}`}>
+                    <div className="min-w-0">
+                      <p className="font-medium text-stone-900">{key.name}</p>
+                      <p className="text-sm text-stone-500">
+                        <code>{key.prefix}…</code> · {key.scopes.join(', ')} · {key.rate_limit}/min · {key.daily_quota.toLocaleString()}/day
+                      </p>
+                      <p className="text-xs text-stone-400 mt-1">
+                        Created {formatDistanceToNow(new Date(key.created_at), { addSuffix: true })}
+                        {key.last_used_at && <> · last used {formatDistanceToNow(new Date(key.last_used_at), { addSuffix: true })}</>}
+                        {key.expires_at && <> · expires {formatDistanceToNow(new Date(key.expires_at), { addSuffix: true })}</>}
+                        {key.revoked_at && <> · revoked</>}
+                      </p>
+                    </div>
+                    {!key.revoked_at && (
+                      <button
+                        onClick={() => handleRevoke(key.id)}
+                        disabled={revokingId === key.id}
+                        className="p-2 rounded-lg text-stone-400 hover:text-red-600 hover:bg-red-50"
+                        title="Revoke key"
+                      >
+                        {revokingId === key.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import Link from 'next/link';
+import { RoleGate } from '@/components/ui/RoleGate';
+
+export default function AdminLayout({ children }: { children: React.ReactNode }) {
+  return (
+    <RoleGate
+      role="curator"
+      fallback={
+        <div className="min-h-screen flex items-center justify-center bg-stone-50 px-4">
+          <div className="text-center">
+            <h1 className="text-xl font-medium text-stone-800 mb-2">Curators only</h1>
+            <p className="text-stone-500 mb-4">Sign in with a curator or admin account to use these tools.</p>
+            <Link href="/auth/signin" className="text-amber-700 hover:text-amber-800 font-medium">
+              Sign in
+            </Link>
+          </div>
+        </div>
+      }
+    >
+      {children}
+    </RoleGate>
+  );
+}
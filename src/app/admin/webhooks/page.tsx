@@ -0,0 +1,403 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import {
+  ArrowLeft,
+  Check,
+  Copy,
+  KeyRound,
+  Loader2,
+  Pause,
+  Play,
+  RefreshCw,
+  RotateCcw,
+  Trash2,
+  Webhook,
+} from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { RoleGate } from '@/components/ui/RoleGate';
+import { webhooks } from '@/lib/api-client';
+import type { WebhookWithStats } from '@/lib/api-client';
+import { WEBHOOK_EVENT_LABELS, WEBHOOK_EVENT_TYPES } from '@/lib/webhooks';
+import type { WebhookDelivery, WebhookDeliveryStatus, WebhookEventType } from '@/lib/types';
+
+const STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800',
+  delivered: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+function WebhooksAdmin() {
+  const [subscriptions, setSubscriptions] = useState<WebhookWithStats[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [events, setEvents] = useState<WebhookEventType[]>([...WEBHOOK_EVENT_TYPES]);
+  const [creating, setCreating] = useState(false);
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const [filterSubscription, setFilterSubscription] = useState('');
+  const [filterStatus, setFilterStatus] = useState<WebhookDeliveryStatus | ''>('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const fetchDeliveries = useCallback(async () => {
+    const data = await webhooks.deliveries({
+      ...(filterSubscription && { subscription_id: filterSubscription }),
+      ...(filterStatus && { status: filterStatus }),
+    });
+    setDeliveries(data.deliveries);
+  }, [filterSubscription, filterStatus]);
+
+  const fetchAll = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await webhooks.list();
+      setSubscriptions(data.webhooks);
+      await fetchDeliveries();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load webhooks');
+    } finally {
+      setLoading(false);
+    }
+  }, [fetchDeliveries]);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  const toggleEvent = (type: WebhookEventType) => {
+    setEvents(prev => prev.includes(type) ? prev.filter(e => e !== type) : [...prev, type]);
+  };
+
+  const showSecret = (secret: string) => {
+    setNewSecret(secret);
+    setCopied(false);
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setError(null);
+    try {
+      const { secret } = await webhooks.create({ url: url.trim(), description: description.trim(), events });
+      showSecret(secret);
+      setUrl('');
+      setDescription('');
+      await fetchAll();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create webhook');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  // Run an action on one subscription or delivery, then reload
+  const act = async (id: string, action: () => Promise<unknown>) => {
+    setBusyId(id);
+    setError(null);
+    try {
+      await action();
+      await fetchAll();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRotate = (id: string) => act(id, async () => {
+    if (!confirm('Rotate the signing secret? The endpoint must be updated to check the new one.')) return;
+    const { secret } = await webhooks.rotateSecret(id);
+    showSecret(secret);
+  });
+
+  const handleDelete = (id: string) => act(id, async () => {
+    if (!confirm('Delete this webhook and its delivery log?')) return;
+    await webhooks.delete(id);
+  });
+
+  const handleCopy = async () => {
+    if (!newSecret) return;
+    await navigator.clipboard.writeText(newSecret);
+    setCopied(true);
+  };
+
+  const urlFor = (subscriptionId: string) =>
+    subscriptions.find(s => s.id === subscriptionId)?.url ?? subscriptionId;
+
+  if (loading && subscriptions.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <Loader2 className="w-8 h-8 animate-spin text-amber-600" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="px-4 py-3 rounded-lg bg-red-50 text-red-700 text-sm">{error}</div>
+      )}
+
+      {newSecret && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4">
+          <p className="text-sm font-medium text-amber-900 mb-2">
+            Copy the signing secret now. It won&apos;t be shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-sm bg-white border border-amber-200 rounded px-3 py-2 break-all">{newSecret}</code>
+            <button
+              onClick={handleCopy}
+              className="p-2 rounded-lg text-amber-700 hover:bg-amber-100"
+              title="Copy secret"
+            >
+              {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* New subscription */}
+      <div className="bg-white rounded-xl border border-stone-200 p-4 space-y-4">
+        <h2 className="font-semibold text-stone-900">New webhook</h2>
+        <input
+          type="url"
+          value={url}
+          onChange={e => setUrl(e.target.value)}
+          placeholder="https://partner.example.org/hooks/source-library"
+          className="w-full px-3 py-2 border border-stone-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+        />
+        <input
+          type="text"
+          value={description}
+          onChange={e => setDescription(e.target.value)}
+          placeholder="Who receives this? (optional)"
+          maxLength={200}
+          className="w-full px-3 py-2 border border-stone-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-amber-500"
+        />
+        <fieldset className="grid sm:grid-cols-2 gap-2">
+          <legend className="text-sm font-medium text-stone-700 mb-1">Events</legend>
+          {WEBHOOK_EVENT_TYPES.map(type => (
+            <label key={type} className="flex items-start gap-2 text-sm text-stone-700">
+              <input
+                type="checkbox"
+                checked={events.includes(type)}
+                onChange={() => toggleEvent(type)}
+                className="mt-0.5"
+              />
+              <span>
+                {WEBHOOK_EVENT_LABELS[type]} <code className="text-xs text-stone-500">{type}</code>
+              </span>
+            </label>
+          ))}
+        </fieldset>
+        <button
+          onClick={handleCreate}
+          disabled={creating || !url.trim() || events.length === 0}
+          className="inline-flex items-center gap-2 px-4 py-2 bg-amber-600 text-white rounded-lg text-sm hover:bg-amber-700 disabled:opacity-50"
+        >
+          {creating && <Loader2 className="w-4 h-4 animate-spin" />}
+          Add webhook
+        </button>
+      </div>
+
+      {/* Subscriptions */}
+      {subscriptions.length > 0 && (
+        <div className="bg-white rounded-xl border border-stone-200 divide-y divide-stone-100">
+          {subscriptions.map(subscription => (
+            <div key={subscription.id} className={`p-4 flex items-start justify-between gap-4 ${subscription.active ? '' : 'opacity-60'}`}>
+              <div className="min-w-0">
+                <p className="font-medium text-stone-900 break-all">{subscription.url}</p>
+                {subscription.description && (
+                  <p className="text-sm text-stone-600">{subscription.description}</p>
+                )}
+                <p className="text-sm text-stone-500">
+                  {subscription.events.length === WEBHOOK_EVENT_TYPES.length
+                    ? 'All events'
+                    : subscription.events.join(', ')}
+                  {' · '}<code>{subscription.secret_hint}</code>
+                </p>
+                <p className="text-xs text-stone-400 mt-1">
+                  {subscription.deliveries.delivered} delivered · {subscription.deliveries.pending} pending · {subscription.deliveries.failed} failed
+                  {' · '}created {formatDistanceToNow(new Date(subscription.created_at), { addSuffix: true })}
+                  {!subscription.active && <> · paused</>}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {busyId === subscription.id ? (
+                  <Loader2 className="w-4 h-4 m-2 animate-spin text-stone-400" />
+                ) : (
+                  <>
+                    <button
+                      onClick={() => act(subscription.id, () => webhooks.update(subscription.id, { active: !subscription.active }))}
+                      className="p-2 rounded-lg text-stone-400 hover:text-stone-700 hover:bg-stone-50"
+                      title={subscription.active ? 'Pause' : 'Resume'}
+                    >
+                      {subscription.active ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => handleRotate(subscription.id)}
+                      className="p-2 rounded-lg text-stone-400 hover:text-stone-700 hover:bg-stone-50"
+                      title="Rotate signing secret"
+                    >
+                      <KeyRound className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(subscription.id)}
+                      className="p-2 rounded-lg text-stone-400 hover:text-red-600 hover:bg-red-50"
+                      title="Delete webhook"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Delivery log */}
+      <div className="bg-white rounded-xl border border-stone-200">
+        <div className="p-4 flex flex-wrap items-center gap-3 border-b border-stone-100">
+          <h2 className="font-semibold text-stone-900 mr-auto">Deliveries</h2>
+          <select
+            value={filterSubscription}
+            onChange={e => setFilterSubscription(e.target.value)}
+            className="px-2 py-1 border border-stone-300 rounded-lg text-sm max-w-[16rem]"
+          >
+            <option value="">All webhooks</option>
+            {subscriptions.map(s => <option key={s.id} value={s.id}>{s.url}</option>)}
+          </select>
+          <select
+            value={filterStatus}
+            onChange={e => setFilterStatus(e.target.value as WebhookDeliveryStatus | '')}
+            className="px-2 py-1 border border-stone-300 rounded-lg text-sm"
+          >
+            <option value="">Any status</option>
+            <option value="pending">Pending</option>
+            <option value="delivered">Delivered</option>
+            <option value="failed">Failed</option>
+          </select>
+          <button
+            onClick={fetchAll}
+            className="p-2 rounded-lg text-stone-400 hover:text-stone-700 hover:bg-stone-50"
+            title="Refresh"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+
+        {deliveries.length === 0 ? (
+          <p className="p-4 text-sm text-stone-500">No deliveries yet.</p>
+        ) : (
+          <div className="divide-y divide-stone-100">
+            {deliveries.map(delivery => (
+              <div key={delivery.id} className="p-4">
+                <div className="flex items-start justify-between gap-4">
+                  <button
+                    onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                    className="min-w-0 text-left"
+                  >
+                    <p className="text-sm">
+                      <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_STYLES[delivery.status]}`}>
+                        {delivery.status}
+                      </span>
+                      <code className="ml-2 text-stone-900">{delivery.event.type}</code>
+                      {delivery.replay_of && <span className="ml-2 text-xs text-stone-500">replay</span>}
+                    </p>
+                    <p className="text-xs text-stone-500 mt-1 break-all">{urlFor(delivery.subscription_id)}</p>
+                    <p className="text-xs text-stone-400 mt-1">
+                      {formatDistanceToNow(new Date(delivery.created_at), { addSuffix: true })}
+                      {' · '}{delivery.attempts} of {delivery.max_attempts} attempts
+                      {delivery.response_status !== undefined && <> · HTTP {delivery.response_status}</>}
+                      {delivery.duration_ms !== undefined && <> · {delivery.duration_ms} ms</>}
+                      {delivery.status === 'pending' && delivery.next_attempt_at && (
+                        <> · next attempt {formatDistanceToNow(new Date(delivery.next_attempt_at), { addSuffix: true })}</>
+                      )}
+                      {delivery.error && <span className="text-red-600"> · {delivery.error}</span>}
+                    </p>
+                  </button>
+                  <button
+                    onClick={() => act(delivery.id, () => webhooks.replay(delivery.id))}
+                    disabled={busyId === delivery.id}
+                    className="inline-flex items-center gap-1 px-3 py-1.5 rounded-lg text-sm text-stone-600 border border-stone-200 hover:bg-stone-50 disabled:opacity-50 shrink-0"
+                    title="Send this event again"
+                  >
+                    {busyId === delivery.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                    Replay
+                  </button>
+                </div>
+                {expandedId === delivery.id && (
+                  <div className="mt-3 space-y-2">
+                    <pre className="bg-stone-900 text-stone-300 text-xs rounded-lg p-3 overflow-x-auto">
+                      {JSON.stringify(delivery.event, null, 2)}
+                    </pre>
+                    {delivery.attempt_history && delivery.attempt_history.length > 0 && (
+                      <ol className="text-xs text-stone-500 space-y-0.5">
+                        {delivery.attempt_history.map(attempt => (
+                          <li key={attempt.attempt}>
+                            Attempt {attempt.attempt}, {formatDistanceToNow(new Date(attempt.attempted_at), { addSuffix: true })}
+                            {attempt.response_status !== undefined && <> · HTTP {attempt.response_status}</>}
+                            {' · '}{attempt.duration_ms} ms
+                            {attempt.error && <span className="text-red-600"> · {attempt.error}</span>}
+                          </li>
+                        ))}
+                      </ol>
+                    )}
+                    {delivery.response_body && (
+                      <pre className="bg-stone-100 text-stone-700 text-xs rounded-lg p-3 overflow-x-auto whitespace-pre-wrap">
+                        {delivery.response_body}
+                      </pre>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function WebhooksPage() {
+  return (
+    <div className="min-h-screen bg-stone-50">
+      <header className="bg-white border-b border-stone-200">
+        <div className="max-w-4xl mx-auto px-4 py-4">
+          <Link href="/" className="inline-flex items-center gap-2 text-stone-600 hover:text-stone-900">
+            <ArrowLeft className="w-4 h-4" />
+            Back to Library
+          </Link>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto px-4 py-8">
+        <div className="flex items-center gap-3 mb-2">
+          <Webhook className="w-6 h-6 text-amber-600" />
+          <h1 className="text-2xl font-serif font-bold text-stone-900">Webhooks</h1>
+        </div>
+        <p className="text-stone-600 mb-6">
+          Webhooks POST a JSON event to your endpoint when books are imported, pages are OCR&apos;d or
+          translated, jobs and pipeline steps finish, editions are published and annotations are made.
+          Each request is signed: <code className="text-sm bg-stone-100 px-1 rounded">X-SourceLibrary-Signature: t=…,v1=…</code> is
+          the hex HMAC-SHA256 of <code className="text-sm bg-stone-100 px-1 rounded">t.body</code> with the signing secret.
+          Deliveries that don&apos;t get a 2xx response are retried with backoff for about a day.
+        </p>
+
+        <RoleGate
+          role="admin"
+          fallback={<p className="text-stone-600">Only admins can manage webhooks.</p>}
+        >
+          <WebhooksAdmin />
+        </RoleGate>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDatabase } from '@/lib/mongodb';
+import { getApiKeyAuth, getAuthUser, requireRole } from '@/lib/auth-guard';
+import { API_KEYS_COLLECTION, API_KEY_SUMMARY_PROJECTION } from '@/lib/api-keys.server';
+
+/**
+ * DELETE /api/account/api-keys/[id]
+ *
+ * Revoke one of the signed-in user's API keys. The key stops working at
+ * once; it stays listed as revoked.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole('reader');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to manage API keys' }, { status: 401 });
+    }
+    // A key may revoke itself (e.g. when it leaks), but no other key
+    const keyAuth = await getApiKeyAuth();
+    if (keyAuth.status === 'ok' && keyAuth.key.id !== id) {
+      return NextResponse.json({ error: 'API keys cannot manage other API keys; sign in instead' }, { status: 403 });
+    }
+
+    const { db } = await connectToDatabase();
+    const key = await db.collection(API_KEYS_COLLECTION).findOneAndUpdate(
+      { id, user_id: user.id, revoked_at: { $exists: false } },
+      { $set: { revoked_at: new Date() } },
+      { returnDocument: 'after', projection: API_KEY_SUMMARY_PROJECTION }
+    );
+    if (!key) {
+      return NextResponse.json({ error: 'API key not found or already revoked' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, key });
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    return NextResponse.json({ error: 'Failed to revoke API key' }, { status: 500 });
+  }
+}
@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { nanoid } from 'nanoid';
+import { connectToDatabase } from '@/lib/mongodb';
+import { getApiKeyAuth, getAuthUser, requireRole } from '@/lib/auth-guard';
+import {
+  DEFAULT_API_KEY_DAILY_QUOTA,
+  DEFAULT_API_KEY_RATE_LIMIT,
+  MAX_API_KEY_DAILY_QUOTA,
+  MAX_API_KEY_RATE_LIMIT,
+  MAX_API_KEYS_PER_USER,
+  grantableScopes,
+  isApiKeyScope,
+} from '@/lib/api-keys';
+import {
+  API_KEYS_COLLECTION,
+  API_KEY_SUMMARY_PROJECTION,
+  generateApiKeySecret,
+  hashApiKey,
+  toApiKeySummary,
+} from '@/lib/api-keys.server';
+import type { ApiKey, ApiKeyScope } from '@/lib/types';
+
+/**
+ * Keys are managed from a browser session only, so a leaked key can't mint
+ * more keys.
+ */
+async function keyManagementDenied(): Promise<NextResponse | null> {
+  if ((await getApiKeyAuth()).status !== 'none') {
+    return NextResponse.json({ error: 'API keys cannot manage API keys; sign in instead' }, { status: 403 });
+  }
+  return null;
+}
+
+/**
+ * GET /api/account/api-keys
+ *
+ * The signed-in user's API keys, newest first, including revoked ones.
+ */
+export async function GET() {
+  const denied = await requireRole('reader');
+  if (denied) return denied;
+
+  try {
+    const sessionOnly = await keyManagementDenied();
+    if (sessionOnly) return sessionOnly;
+
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to manage API keys' }, { status: 401 });
+    }
+
+    const { db } = await connectToDatabase();
+    const keys = await db.collection<ApiKey>(API_KEYS_COLLECTION)
+      .find({ user_id: user.id }, { projection: API_KEY_SUMMARY_PROJECTION })
+      .sort({ created_at: -1 })
+      .toArray();
+
+    return NextResponse.json({ keys, grantable_scopes: grantableScopes(user.role) });
+  } catch (error) {
+    console.error('Error listing API keys:', error);
+    return NextResponse.json({ error: 'Failed to list API keys' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/account/api-keys
+ *
+ * Create an API key acting as the signed-in user. The secret is returned
+ * once and can't be retrieved again.
+ *
+ * Body: {
+ *   name: string,
+ *   scopes: ApiKeyScope[],          // each at or below the user's role
+ *   rate_limit?: number,            // requests per minute (default 60, max 600)
+ *   daily_quota?: number,           // requests per UTC day (default 10,000, max 100,000)
+ *   expires_in_days?: number
+ * }
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requireRole('reader');
+  if (denied) return denied;
+
+  try {
+    const sessionOnly = await keyManagementDenied();
+    if (sessionOnly) return sessionOnly;
+
+    const user = await getAuthUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Sign in to manage API keys' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const scopes: unknown[] = Array.isArray(body.scopes) ? body.scopes : [];
+    const rateLimit = body.rate_limit ?? DEFAULT_API_KEY_RATE_LIMIT;
+    const dailyQuota = body.daily_quota ?? DEFAULT_API_KEY_DAILY_QUOTA;
+    const expiresInDays = body.expires_in_days;
+
+    if (!name || name.length > 100) {
+      return NextResponse.json({ error: 'name is required (at most 100 characters)' }, { status: 400 });
+    }
+    if (scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+      return NextResponse.json({ error: 'scopes must be a non-empty list of API key scopes' }, { status: 400 });
+    }
+    const allowed = grantableScopes(user.role);
+    const beyondRole = (scopes as ApiKeyScope[]).filter(scope => !allowed.includes(scope));
+    if (beyondRole.length > 0) {
+      return NextResponse.json(
+        { error: `Your role can't grant: ${beyondRole.join(', ')}`, grantable_scopes: allowed },
+        { status: 403 }
+      );
+    }
+    if (!Number.isInteger(rateLimit) || rateLimit < 1 || rateLimit > MAX_API_KEY_RATE_LIMIT) {
+      return NextResponse.json(
+        { error: `rate_limit must be a whole number of requests per minute from 1 to ${MAX_API_KEY_RATE_LIMIT}` },
+        { status: 400 }
+      );
+    }
+    if (!Number.isInteger(dailyQuota) || dailyQuota < 1 || dailyQuota > MAX_API_KEY_DAILY_QUOTA) {
+      return NextResponse.json(
+        { error: `daily_quota must be a whole number of requests per day from 1 to ${MAX_API_KEY_DAILY_QUOTA}` },
+        { status: 400 }
+      );
+    }
+    if (expiresInDays !== undefined && (!Number.isInteger(expiresInDays) || expiresInDays < 1)) {
+      return NextResponse.json({ error: 'expires_in_days must be a positive whole number' }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const active = await db.collection(API_KEYS_COLLECTION).countDocuments({
+      user_id: user.id,
+      revoked_at: { $exists: false },
+    });
+    if (active >= MAX_API_KEYS_PER_USER) {
+      return NextResponse.json(
+        { error: `You already have ${MAX_API_KEYS_PER_USER} active keys; revoke one first` },
+        { status: 409 }
+      );
+    }
+
+    const secret = generateApiKeySecret();
+    const now = new Date();
+    const key: ApiKey = {
+      id: nanoid(12),
+      user_id: user.id,
+      name,
+      prefix: secret.slice(0, 10),
+      key_hash: hashApiKey(secret),
+      scopes: [...new Set(scopes as ApiKeyScope[])],
+      rate_limit: rateLimit,
+      daily_quota: dailyQuota,
+      created_at: now,
+      ...(expiresInDays && { expires_at: new Date(now.getTime() + expiresInDays * 24 * 60 * 60 * 1000) }),
+    };
+    await db.collection(API_KEYS_COLLECTION).insertOne({ ...key });
+
+    return NextResponse.json({ success: true, key: toApiKeySummary(key), secret }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating API key:', error);
+    return NextResponse.json({ error: 'Failed to create API key' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
-import { nanoid } from 'nanoid';
+import { requireRole } from '@/lib/auth-guard';
+import { enqueueJob, kickJob } from '@/lib/queue';
 
 /**
  * Find all pages with crop data but no cropped_photo and queue a job to generate them.
@@ -63,6 +64,9 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
   try {
     const body = await request.json().catch(() => ({}));
     const { bookId } = body;
@@ -105,21 +109,10 @@ export async function POST(request: NextRequest) {
       : `${bookIds.length} books`;
 
     // Create the job
-    const jobId = nanoid(12);
-    await db.collection('jobs').insertOne({
-      id: jobId,
+    const { id: jobId } = await enqueueJob(db, {
       type: 'generate_cropped_images',
-      status: 'pending',
-      progress: {
-        total: pageIds.length,
-        completed: 0,
-        failed: 0,
-      },
-      book_id: bookIds.length === 1 ? bookIds[0] : null,
+      book_id: bookIds.length === 1 ? bookIds[0] : undefined,
       book_title: bookTitle,
-      created_at: new Date(),
-      updated_at: new Date(),
-      results: [],
       config: {
         page_ids: pageIds,
         backfill: true,
@@ -127,15 +120,7 @@ export async function POST(request: NextRequest) {
     });
 
     // Kick off processing (non-blocking)
-    const baseUrl = process.env.NEXT_PUBLIC_URL || process.env.VERCEL_URL
-      ? `https://${process.env.VERCEL_URL}`
-      : 'http://localhost:3000';
-
-    fetch(`${baseUrl}/api/jobs/${jobId}/process`, {
-      method: 'POST',
-    }).catch(() => {
-      // Ignore - job will be picked up later
-    });
+    kickJob(jobId);
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
+import { recordRevisions, REVISIONS_COLLECTION } from '@/lib/revisions';
+
+/**
+ * POST /api/admin/backfill-revisions
+ *
+ * Records a baseline revision for page text saved before revision history
+ * existed, so blame has something to attribute it to. Baselines take the
+ * text's source, model and editor from the page. Pages whose text already
+ * matches their latest revision are left alone, so it can be run again.
+ *
+ * Body: { limit?: number (default 500), skip?: number, dryRun?: boolean (default true) }
+ */
+export const maxDuration = 60;
+
+export async function POST(request: NextRequest) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
+  try {
+    const { dryRun = true, limit = 500, skip = 0 } = await request.json().catch(() => ({}));
+
+    const db = await getDb();
+    const query = {
+      $or: [
+        { 'ocr.data': { $exists: true, $nin: [null, ''] } },
+        { 'translation.data': { $exists: true, $nin: [null, ''] } },
+      ],
+    };
+    const pages = await db.collection('pages')
+      .find(query)
+      .project({ id: 1 })
+      .sort({ _id: 1 })
+      .skip(skip)
+      .limit(limit)
+      .toArray();
+    const pageIds = pages.map(p => p.id as string);
+
+    const withHistory = await db.collection(REVISIONS_COLLECTION).distinct('page_id', { page_id: { $in: pageIds } });
+    const withoutHistory = pageIds.filter(id => !withHistory.includes(id));
+
+    if (!dryRun) {
+      await recordRevisions(withoutHistory, { via: 'baseline' });
+    }
+
+    return NextResponse.json({
+      dryRun,
+      scanned: pageIds.length,
+      baselined: withoutHistory.length,
+      total: await db.collection('pages').countDocuments(query),
+      nextSkip: skip + pageIds.length,
+    });
+  } catch (error) {
+    console.error('Error backfilling revisions:', error);
+    return NextResponse.json({ error: 'Failed to backfill revisions' }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * POST /api/admin/backfill-translation-dates
@@ -10,6 +11,9 @@ import { getDb } from '@/lib/mongodb';
 export const maxDuration = 60;
 
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
   try {
     const { dryRun = true, limit = 50, skip = 0 } = await request.json().catch(() => ({ dryRun: true, limit: 50, skip: 0 }));
 
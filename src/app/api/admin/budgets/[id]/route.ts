@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDatabase } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
+import { BUDGETS_COLLECTION, parseBudgetChanges } from '@/lib/budgets';
+import type { Budget } from '@/lib/types';
+
+/**
+ * PATCH /api/admin/budgets/[id]
+ *
+ * Update a budget's period, limits or note. A limit set to null is removed;
+ * the scope can't be changed.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const { db } = await connectToDatabase();
+    const budgets = db.collection<Budget>(BUDGETS_COLLECTION);
+    const current = await budgets.findOne({ id });
+    if (!current) {
+      return NextResponse.json({ error: 'Budget not found' }, { status: 404 });
+    }
+
+    const changes = parseBudgetChanges(body, current);
+    if ('error' in changes) {
+      return NextResponse.json({ error: changes.error }, { status: 400 });
+    }
+
+    const update: Record<string, unknown> = { $set: { ...changes.set, updated_at: new Date() } };
+    if (changes.unset.length > 0) {
+      update.$unset = Object.fromEntries(changes.unset.map(field => [field, '']));
+    }
+
+    const budget = await budgets.findOneAndUpdate(
+      { id },
+      update,
+      { returnDocument: 'after', projection: { _id: 0 } }
+    );
+
+    return NextResponse.json({ success: true, budget });
+  } catch (error) {
+    console.error('Error updating budget:', error);
+    return NextResponse.json({ error: 'Failed to update budget' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/budgets/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const { db } = await connectToDatabase();
+    const result = await db.collection(BUDGETS_COLLECTION).deleteOne({ id });
+
+    if (result.deletedCount === 0) {
+      return NextResponse.json({ error: 'Budget not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting budget:', error);
+    return NextResponse.json({ error: 'Failed to delete budget' }, { status: 500 });
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { nanoid } from 'nanoid';
+import { connectToDatabase } from '@/lib/mongodb';
+import { getAuthUser, requireRole } from '@/lib/auth-guard';
+import { isTenantId } from '@/lib/tenant';
+import {
+  BUDGETS_COLLECTION,
+  BUDGET_SCOPES,
+  budgetStanding,
+  parseBudgetChanges,
+} from '@/lib/budgets';
+import type { Budget, BudgetScope } from '@/lib/types';
+
+/**
+ * GET /api/admin/budgets
+ *
+ * List AI cost budgets with where each stands this period: spend so far,
+ * the estimated cost of unfinished jobs, and which limit is exceeded.
+ *
+ * Query params: scope, scope_id
+ */
+export async function GET(request: NextRequest) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const scope = searchParams.get('scope');
+    const scopeId = searchParams.get('scope_id');
+
+    const filter: Record<string, unknown> = {};
+    if (scope) filter.scope = scope;
+    if (scopeId) filter.scope_id = scopeId;
+
+    const { db } = await connectToDatabase();
+    const budgets = await db.collection<Budget>(BUDGETS_COLLECTION)
+      .find(filter, { projection: { _id: 0 } })
+      .sort({ scope: 1, scope_id: 1, period: 1 })
+      .toArray() as Budget[];
+
+    const now = new Date();
+    const withStandings = [];
+    for (const budget of budgets) {
+      withStandings.push({ ...budget, standing: await budgetStanding(db, budget, 0, now) });
+    }
+
+    return NextResponse.json({ budgets: withStandings });
+  } catch (error) {
+    console.error('Error listing budgets:', error);
+    return NextResponse.json({ error: 'Failed to list budgets' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/budgets
+ *
+ * Create a budget. Past the soft limit, jobs need the caller's confirmation;
+ * past the hard limit they are refused.
+ *
+ * Body: {
+ *   scope: 'global' | 'tenant' | 'book' | 'user',
+ *   scope_id?: string,           // tenant, book or user id (not for global)
+ *   period?: 'day' | 'month' | 'total',   // default month
+ *   soft_limit_usd?: number,
+ *   hard_limit_usd?: number,     // at least one limit is required
+ *   note?: string
+ * }
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const scope = body.scope as BudgetScope;
+    const scopeId = typeof body.scope_id === 'string' ? body.scope_id.trim() : '';
+
+    if (!BUDGET_SCOPES.includes(scope)) {
+      return NextResponse.json(
+        { error: `scope must be one of ${BUDGET_SCOPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (scope !== 'global' && !scopeId) {
+      return NextResponse.json({ error: `scope_id is required for a ${scope} budget` }, { status: 400 });
+    }
+    if (scope === 'tenant' && !isTenantId(scopeId)) {
+      return NextResponse.json({ error: 'scope_id is not a valid tenant id' }, { status: 400 });
+    }
+
+    const changes = parseBudgetChanges(body);
+    if ('error' in changes) {
+      return NextResponse.json({ error: changes.error }, { status: 400 });
+    }
+
+    const user = await getAuthUser();
+    const budget: Budget = {
+      id: nanoid(12),
+      scope,
+      ...(scope !== 'global' && { scope_id: scopeId }),
+      period: 'month',
+      ...changes.set,
+      ...(user && { created_by: user.email || user.id }),
+      created_at: new Date(),
+    };
+
+    const { db } = await connectToDatabase();
+    const existing = await db.collection(BUDGETS_COLLECTION).findOne({
+      scope,
+      scope_id: budget.scope_id ?? null,
+      period: budget.period,
+    });
+    if (existing) {
+      return NextResponse.json(
+        { error: `A ${budget.period} budget for this ${scope} already exists`, id: existing.id },
+        { status: 409 }
+      );
+    }
+
+    await db.collection(BUDGETS_COLLECTION).insertOne({ ...budget });
+    return NextResponse.json({ success: true, budget });
+  } catch (error) {
+    console.error('Error creating budget:', error);
+    return NextResponse.json({ error: 'Failed to create budget' }, { status: 500 });
+  }
+}
@@ -1,11 +1,24 @@
 import { NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
+import { ensureSearchIndexes } from '@/lib/search/indexer';
+import { ensureEmbeddingIndexes } from '@/lib/search/semantic';
+import { ensureGlossaryIndexes } from '@/lib/glossary/store';
+import { ensureRevisionIndexes } from '@/lib/revisions';
+import { ensureReviewIndexes } from '@/lib/review';
+import { ensurePresenceIndexes } from '@/lib/collaboration';
+import { ensureApiKeyIndexes } from '@/lib/api-keys.server';
+import { ensureWebhookIndexes } from '@/lib/webhooks.server';
+import { requireRole } from '@/lib/auth-guard';
+import { TENANTS_COLLECTION } from '@/lib/tenant-config';
 
 /**
  * Ensure MongoDB indexes exist for optimal query performance
  * POST /api/admin/ensure-indexes
  */
 export async function POST() {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
   try {
     const db = await getDb();
     const results: Record<string, string> = {};
@@ -125,6 +138,125 @@ export async function POST() {
         : `error: ${err.message}`;
     }
 
+    // Tenant scoping - every query on these collections filters by tenant_id
+    for (const col of ['books', 'pages', 'jobs', 'annotations']) {
+      const name = `${col}_tenant_idx`;
+      try {
+        await db.collection(col).createIndex(
+          { tenant_id: 1 },
+          { name, background: true }
+        );
+        results[`${col}.${name}`] = 'created';
+      } catch (e) {
+        const err = e as Error;
+        results[`${col}.${name}`] = err.message.includes('already exists')
+          ? 'exists'
+          : `error: ${err.message}`;
+      }
+    }
+
+    // Tenants - configuration lookup by id
+    try {
+      await db.collection(TENANTS_COLLECTION).createIndex(
+        { id: 1 },
+        { name: 'tenants_id_idx', background: true, unique: true }
+      );
+      results['tenants.tenants_id_idx'] = 'created';
+    } catch (e) {
+      const err = e as Error;
+      results['tenants.tenants_id_idx'] = err.message.includes('already exists')
+        ? 'exists'
+        : `error: ${err.message}`;
+    }
+
+    // Full-text search index - term lookup and per-book scoping
+    try {
+      await ensureSearchIndexes(db);
+      results['search_documents.search_indexes'] = 'created';
+    } catch (e) {
+      const err = e as Error;
+      results['search_documents.search_indexes'] = err.message.includes('already exists')
+        ? 'exists'
+        : `error: ${err.message}`;
+    }
+
+    // Semantic search - passage vectors by page and by backend/book
+    try {
+      await ensureEmbeddingIndexes(db);
+      results['page_embeddings.embedding_indexes'] = 'created';
+    } catch (e) {
+      const err = e as Error;
+      results['page_embeddings.embedding_indexes'] = err.message.includes('already exists')
+        ? 'exists'
+        : `error: ${err.message}`;
+    }
+
+    // Glossaries by book/collection, translation memory by book and page
+    try {
+      await ensureGlossaryIndexes(db);
+      results['glossary.glossary_indexes'] = 'created';
+    } catch (e) {
+      const err = e as Error;
+      results['glossary.glossary_indexes'] = err.message.includes('already exists')
+        ? 'exists'
+        : `error: ${err.message}`;
+    }
+
+    // Page revisions by page and field, and by book for the timeline
+    try {
+      await ensureRevisionIndexes(db);
+      results['page_revisions.revision_indexes'] = 'created';
+    } catch (e) {
+      const err = e as Error;
+      results['page_revisions.revision_indexes'] = err.message.includes('already exists')
+        ? 'exists'
+        : `error: ${err.message}`;
+    }
+
+    // Page review comment threads
+    try {
+      await ensureReviewIndexes(db);
+      results['review_comments.indexes'] = 'created';
+    } catch (e) {
+      const err = e as Error;
+      results['review_comments.indexes'] = err.message.includes('already exists')
+        ? 'exists'
+        : `error: ${err.message}`;
+    }
+
+    // Who has a page open in the editor; heartbeats expire on their own
+    try {
+      await ensurePresenceIndexes(db);
+      results['page_presence.indexes'] = 'created';
+    } catch (e) {
+      const err = e as Error;
+      results['page_presence.indexes'] = err.message.includes('already exists')
+        ? 'exists'
+        : `error: ${err.message}`;
+    }
+
+    // API keys by hash and owner; rate limit counters expire on their own
+    try {
+      await ensureApiKeyIndexes(db);
+      results['api_keys.indexes'] = 'created';
+    } catch (e) {
+      const err = e as Error;
+      results['api_keys.indexes'] = err.message.includes('already exists')
+        ? 'exists'
+        : `error: ${err.message}`;
+    }
+
+    // Webhooks - subscriptions, due deliveries and the delivery log
+    try {
+      await ensureWebhookIndexes(db);
+      results['webhooks.indexes'] = 'created';
+    } catch (e) {
+      const err = e as Error;
+      results['webhooks.indexes'] = err.message.includes('already exists')
+        ? 'exists'
+        : `error: ${err.message}`;
+    }
+
     return NextResponse.json({
       success: true,
       indexes: results
@@ -145,7 +277,7 @@ export async function POST() {
 export async function GET() {
   try {
     const db = await getDb();
-    const collections = ['books', 'pages', 'highlights', 'jobs', 'analytics_events', 'deleted_books'];
+    const collections = ['books', 'pages', 'highlights', 'jobs', 'annotations', 'analytics_events', 'deleted_books', 'search_documents', 'page_embeddings', TENANTS_COLLECTION];
     const indexes: Record<string, unknown[]> = {};
 
     for (const col of collections) {
@@ -1,11 +1,15 @@
 import { NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * Fix attribution and license data for IIIF imports
  * POST /api/admin/fix-attribution
  */
 export async function POST() {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
   try {
     const db = await getDb();
 
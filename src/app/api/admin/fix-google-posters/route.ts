@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * Find and fix books with Google Books poster images
@@ -40,6 +41,9 @@ export async function GET() {
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const { book_id, fix_all } = body as { book_id?: string; fix_all?: boolean };
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * Fix pages with null IDs by setting id = _id.toHexString()
@@ -27,6 +28,9 @@ export async function GET() {
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
   try {
     const { searchParams } = new URL(request.url);
     const deleteOrphans = searchParams.get('delete') === 'true';
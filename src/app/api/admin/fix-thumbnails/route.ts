@@ -1,9 +1,13 @@
 import { NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
 
 // POST /api/admin/fix-thumbnails
 // Converts raw archive.org thumbnail URLs to use the image proxy
 export async function POST() {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
   try {
     const db = await getDb();
 
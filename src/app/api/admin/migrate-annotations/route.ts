@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * Migrate annotation syntax from [[tag:content]] to <tag>content</tag>
@@ -52,6 +53,9 @@ function migrateText(text: string): { migrated: string; changesCount: number } {
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
   try {
     const body = await request.json().catch(() => ({}));
     const { bookId, dryRun = true } = body;
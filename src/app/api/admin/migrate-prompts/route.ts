@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { DEFAULT_PROMPTS, LATIN_PROMPTS, GERMAN_PROMPTS } from '@/lib/types';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * POST /api/admin/migrate-prompts
@@ -9,6 +10,9 @@ import { DEFAULT_PROMPTS, LATIN_PROMPTS, GERMAN_PROMPTS } from '@/lib/types';
  * Body: { dryRun?: boolean }
  */
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
   try {
     const body = await request.json().catch(() => ({}));
     const { dryRun = true } = body;
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDatabase } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
+import { DEFAULT_TENANT_ID, isTenantId } from '@/lib/tenant';
+import { TENANT_SCOPED_COLLECTIONS } from '@/lib/tenant-db';
+import { TENANTS_COLLECTION } from '@/lib/tenant-config';
+
+/**
+ * Backfill and reassign tenant_id on tenant-owned documents.
+ *
+ * GET /api/admin/migrate-tenants
+ * Counts documents per tenant (and without one) in each scoped collection.
+ *
+ * POST /api/admin/migrate-tenants
+ * Body: { dryRun?: boolean, tenant_id?: string, book_ids?: string[] }
+ *
+ * Without book_ids, stamps every document that has no tenant_id with the
+ * default tenant. With book_ids and tenant_id, moves those books - with
+ * their pages, jobs, annotations and search data - to that tenant, e.g.
+ * when onboarding a partner library whose books were imported earlier.
+ *
+ * Works across all tenants, so it uses the unscoped connection.
+ */
+
+// Collections whose documents reference a book through book_id (book
+// glossaries reference it through scope_id; webhooks belong to the tenant)
+const BOOK_OWNED_COLLECTIONS = TENANT_SCOPED_COLLECTIONS.filter(
+  col => !['books', 'deleted_books', 'glossary', 'webhooks', 'webhook_deliveries'].includes(col)
+);
+
+export async function GET() {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
+  try {
+    const { db } = await connectToDatabase();
+    const collections: Record<string, Record<string, number>> = {};
+
+    for (const col of TENANT_SCOPED_COLLECTIONS) {
+      const counts = await db.collection(col).aggregate<{ _id: string | null; count: number }>([
+        { $group: { _id: '$tenant_id', count: { $sum: 1 } } },
+      ]).toArray();
+      collections[col] = Object.fromEntries(counts.map(c => [c._id ?? 'missing', c.count]));
+    }
+
+    return NextResponse.json({ collections });
+  } catch (error) {
+    console.error('Error counting tenant documents:', error);
+    return NextResponse.json({ error: 'Failed to count tenant documents' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { dryRun = true, tenant_id, book_ids } = body as {
+      dryRun?: boolean;
+      tenant_id?: string;
+      book_ids?: string[];
+    };
+
+    const { db } = await connectToDatabase();
+    const results: Record<string, number> = {};
+
+    if (!book_ids) {
+      const filter = { tenant_id: { $in: [null, ''] } };
+      for (const col of TENANT_SCOPED_COLLECTIONS) {
+        results[col] = dryRun
+          ? await db.collection(col).countDocuments(filter)
+          : (await db.collection(col).updateMany(filter, { $set: { tenant_id: DEFAULT_TENANT_ID } })).modifiedCount;
+      }
+      return NextResponse.json({ success: true, dryRun, tenant_id: DEFAULT_TENANT_ID, updated: results });
+    }
+
+    if (!Array.isArray(book_ids) || book_ids.length === 0 || !isTenantId(tenant_id)) {
+      return NextResponse.json(
+        { error: 'book_ids must be a non-empty array and tenant_id a valid tenant id' },
+        { status: 400 }
+      );
+    }
+    if (tenant_id !== DEFAULT_TENANT_ID && !await db.collection(TENANTS_COLLECTION).findOne({ id: tenant_id })) {
+      return NextResponse.json({ error: `Tenant "${tenant_id}" is not configured` }, { status: 404 });
+    }
+
+    const bookFilter = { id: { $in: book_ids } };
+    const ownedFilter = { book_id: { $in: book_ids } };
+    const glossaryFilter = { scope: 'book', scope_id: { $in: book_ids } };
+    for (const col of ['books', 'deleted_books', 'glossary', ...BOOK_OWNED_COLLECTIONS]) {
+      const filter = col === 'books' || col === 'deleted_books'
+        ? bookFilter
+        : col === 'glossary' ? glossaryFilter : ownedFilter;
+      results[col] = dryRun
+        ? await db.collection(col).countDocuments(filter)
+        : (await db.collection(col).updateMany(filter, { $set: { tenant_id } })).modifiedCount;
+    }
+
+    return NextResponse.json({ success: true, dryRun, tenant_id, updated: results });
+  } catch (error) {
+    console.error('Error migrating tenants:', error);
+    return NextResponse.json({ error: 'Failed to migrate tenants' }, { status: 500 });
+  }
+}
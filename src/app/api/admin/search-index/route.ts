@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import {
+  SEARCH_DOCUMENTS_COLLECTION,
+  ensureSearchIndexes,
+  getSearchStats,
+  indexBook,
+  recountSearchStats,
+} from '@/lib/search/indexer';
+import {
+  PAGE_EMBEDDINGS_COLLECTION,
+  embedBook,
+  ensureEmbeddingIndexes,
+} from '@/lib/search/semantic';
+import { requireRole } from '@/lib/auth-guard';
+
+export const maxDuration = 300;
+
+/**
+ * POST /api/admin/search-index
+ *
+ * (Re)build the full-text search index and the semantic passage embeddings.
+ * Processes books in batches; call repeatedly with `nextSkip` until
+ * `hasMore` is false. Pages whose text is unchanged since they were last
+ * indexed or embedded are skipped, so re-running is cheap. The last batch
+ * of a full rebuild recounts the corpus totals used for ranking.
+ *
+ * Body: { book_id?: string, limit?: number, skip?: number }
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
+  try {
+    const { book_id, limit = 20, skip = 0 } = await request.json().catch(() => ({}));
+
+    const db = await getDb();
+    await ensureSearchIndexes(db);
+    await ensureEmbeddingIndexes(db);
+
+    const books = book_id
+      ? [{ id: book_id }]
+      : await db.collection('books')
+          .find({}, { projection: { id: 1 } })
+          .sort({ id: 1 })
+          .skip(skip)
+          .limit(limit)
+          .toArray();
+
+    const totalBooks = book_id ? 1 : await db.collection('books').countDocuments();
+    const totals = { indexed: 0, unchanged: 0, removed: 0 };
+    const embeddings = { embedded: 0, unchanged: 0, removed: 0 };
+
+    for (const book of books) {
+      const result = await indexBook(book.id as string, { includePages: true, db });
+      totals.indexed += result.indexed;
+      totals.unchanged += result.unchanged;
+      totals.removed += result.removed;
+
+      const embedded = await embedBook(book.id as string, db);
+      embeddings.embedded += embedded.embedded;
+      embeddings.unchanged += embedded.unchanged;
+      embeddings.removed += embedded.removed;
+    }
+
+    const hasMore = !book_id && skip + books.length < totalBooks;
+
+    return NextResponse.json({
+      success: true,
+      batch: { skip, limit, processed: books.length },
+      totalBooks,
+      documents: totals,
+      embeddings,
+      hasMore,
+      nextSkip: hasMore ? skip + limit : null,
+      stats: book_id || hasMore ? await getSearchStats(db) : await recountSearchStats(db),
+    });
+  } catch (error) {
+    console.error('Search index rebuild error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Search index rebuild failed' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/admin/search-index
+ *
+ * Index coverage: indexed documents compared to pages with text, and
+ * embedded pages compared to pages with a translation.
+ */
+export async function GET() {
+  try {
+    const db = await getDb();
+
+    const [stats, pagesWithText, indexedPages, translatedPages, embeddedPages] = await Promise.all([
+      getSearchStats(db),
+      db.collection('pages').countDocuments({
+        $or: [
+          { 'ocr.data': { $exists: true, $nin: [null, ''] } },
+          { 'translation.data': { $exists: true, $nin: [null, ''] } },
+        ],
+      }),
+      db.collection(SEARCH_DOCUMENTS_COLLECTION).countDocuments({ type: 'page' }),
+      db.collection('pages').countDocuments({ 'translation.data': { $exists: true, $nin: [null, ''] } }),
+      db.collection(PAGE_EMBEDDINGS_COLLECTION).countDocuments({ chunk_index: 0 }),
+    ]);
+
+    return NextResponse.json({
+      stats,
+      pagesWithText,
+      indexedPages,
+      coverage: pagesWithText > 0 ? Math.round((indexedPages / pagesWithText) * 100) : 100,
+      translatedPages,
+      embeddedPages,
+      embeddingCoverage: translatedPages > 0 ? Math.round((embeddedPages / translatedPages) * 100) : 100,
+    });
+  } catch (error) {
+    console.error('Search index stats error:', error);
+    return NextResponse.json({ error: 'Failed to get search index stats' }, { status: 500 });
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import type { ImageSource, ImageSourceProvider } from '@/lib/types';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * Bulk set image_source for books
@@ -77,6 +78,9 @@ export async function GET() {
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const { book_ids, filter, image_source } = body as {
@@ -162,6 +166,9 @@ export async function POST(request: NextRequest) {
  * Body: { action: 'auto_fill_ia' | 'auto_detect' }
  */
 export async function PATCH(request: NextRequest) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const { action } = body as { action: string };
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
+import { updateTranslationProgress } from '@/lib/translation-languages';
 
 export const maxDuration = 300;
 
@@ -7,9 +9,13 @@ export const maxDuration = 300;
  * POST /api/admin/sync-page-counts
  *
  * Sync pages_count, pages_ocr, and pages_translated fields on books
- * based on actual page data in the pages collection.
+ * based on actual page data in the pages collection, along with the
+ * progress of each language the book is being translated into.
  */
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
   try {
     const { searchParams } = new URL(request.url);
     const limit = searchParams.get('limit') ? parseInt(searchParams.get('limit')!) : 0;
@@ -82,6 +88,12 @@ export async function POST(request: NextRequest) {
           updatedCount++;
         }
       }
+
+      if (!dryRun) {
+        for (const language of Object.keys(book.translation_progress || {})) {
+          await updateTranslationProgress(db, bookId, language);
+        }
+      }
     }
 
     const totalStats = await pages.aggregate([
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDatabase } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
+import { isTenantId, type TenantConfig } from '@/lib/tenant';
+import { TENANTS_COLLECTION, invalidateTenantConfig } from '@/lib/tenant-config';
+
+/**
+ * GET /api/admin/tenants
+ *
+ * List configured tenants. Hosts are mapped to tenants with the
+ * TENANT_HOSTS environment variable.
+ */
+export async function GET() {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
+  try {
+    const { db } = await connectToDatabase();
+    const tenants = await db.collection(TENANTS_COLLECTION)
+      .find({}, { projection: { _id: 0 } })
+      .sort({ id: 1 })
+      .toArray();
+
+    return NextResponse.json({ tenants });
+  } catch (error) {
+    console.error('Error listing tenants:', error);
+    return NextResponse.json({ error: 'Failed to list tenants' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/tenants
+ *
+ * Create or update a tenant's configuration.
+ *
+ * Body: {
+ *   id: string,                  // lowercase letters, digits and dashes
+ *   name: string,
+ *   branding?: { site_name?, site_description? },
+ *   default_prompts?: { ocr?, translation?, summary? },  // prompt names
+ *   default_license?: string     // SPDX identifier
+ * }
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const { id, name, branding, default_prompts, default_license } = body as Partial<TenantConfig>;
+
+    if (!isTenantId(id)) {
+      return NextResponse.json(
+        { error: 'id must be lowercase letters, digits and dashes' },
+        { status: 400 }
+      );
+    }
+    if (!name) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+
+    const now = new Date();
+    const update: Partial<TenantConfig> = { name, updated_at: now };
+    if (branding) update.branding = { site_name: branding.site_name || name, site_description: branding.site_description || '' };
+    if (default_prompts) update.default_prompts = default_prompts;
+    if (default_license) update.default_license = default_license;
+
+    const { db } = await connectToDatabase();
+    await db.collection(TENANTS_COLLECTION).updateOne(
+      { id },
+      { $set: update, $setOnInsert: { id, created_at: now } },
+      { upsert: true }
+    );
+    invalidateTenantConfig(id);
+
+    const tenant = await db.collection(TENANTS_COLLECTION).findOne({ id }, { projection: { _id: 0 } });
+    return NextResponse.json({ success: true, tenant });
+  } catch (error) {
+    console.error('Error saving tenant:', error);
+    return NextResponse.json({ error: 'Failed to save tenant' }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getUsersCollection } from '@/lib/auth';
+import { requireRole } from '@/lib/auth-guard';
+import { ROLES, isRole } from '@/lib/roles';
+import { isTenantId } from '@/lib/tenant';
+
+/**
+ * PATCH /api/admin/users/[id]
+ *
+ * Change a user's role and/or tenant. Takes effect in the user's session
+ * within a few minutes, without signing out. A user with a tenant works in
+ * that library's books when signed in on the main domain; pass
+ * tenant_id: null to return them to the main library.
+ *
+ * Body: {
+ *   role?: 'reader' | 'contributor' | 'editor' | 'curator' | 'admin',
+ *   tenant_id?: string | null
+ * }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { role, tenant_id } = body as { role?: string; tenant_id?: string | null };
+
+    if (role === undefined && tenant_id === undefined) {
+      return NextResponse.json({ error: 'role or tenant_id is required' }, { status: 400 });
+    }
+    if (role !== undefined && !isRole(role)) {
+      return NextResponse.json(
+        { error: `role must be one of: ${ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    if (tenant_id != null && !isTenantId(tenant_id)) {
+      return NextResponse.json({ error: 'tenant_id must be a valid tenant id' }, { status: 400 });
+    }
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    const update: Record<string, unknown> = {};
+    if (role !== undefined) {
+      update.role = role;
+      update.role_updated_at = new Date();
+    }
+    if (tenant_id !== undefined) update.tenant_id = tenant_id;
+
+    const users = await getUsersCollection();
+    const result = await users.updateOne(
+      { _id: new ObjectId(id) },
+      { $set: update }
+    );
+
+    if (result.matchedCount === 0) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, id, ...update });
+  } catch (error) {
+    console.error('Error updating user role:', error);
+    return NextResponse.json({ error: 'Failed to update user role' }, { status: 500 });
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUsersCollection } from '@/lib/auth';
+import { requireRole } from '@/lib/auth-guard';
+import { DEFAULT_ROLE, isRole } from '@/lib/roles';
+
+/**
+ * GET /api/admin/users
+ *
+ * List signed-up users with their roles.
+ *
+ * Query params: role (filter), q (name/email substring), limit, skip
+ */
+export async function GET(request: NextRequest) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const role = searchParams.get('role');
+    const q = searchParams.get('q');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
+    const skip = parseInt(searchParams.get('skip') || '0');
+
+    const filter: Record<string, unknown> = {};
+    if (role && isRole(role)) {
+      // Users without a stored role have the default role
+      filter.role = role === DEFAULT_ROLE ? { $in: [role, null] } : role;
+    }
+    if (q) {
+      const pattern = new RegExp(q.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+      filter.$or = [{ name: pattern }, { email: pattern }];
+    }
+
+    const users = await getUsersCollection();
+    const [docs, total] = await Promise.all([
+      users.find(filter, { projection: { name: 1, email: 1, image: 1, role: 1, tenant_id: 1 } })
+        .sort({ email: 1 })
+        .skip(skip)
+        .limit(limit)
+        .toArray(),
+      users.countDocuments(filter),
+    ]);
+
+    return NextResponse.json({
+      users: docs.map(u => ({
+        id: u._id.toString(),
+        name: u.name,
+        email: u.email,
+        image: u.image,
+        role: isRole(u.role) ? u.role : DEFAULT_ROLE,
+        tenant_id: u.tenant_id || null,
+      })),
+      total,
+    });
+  } catch (error) {
+    console.error('Error listing users:', error);
+    return NextResponse.json({ error: 'Failed to list users' }, { status: 500 });
+  }
+}
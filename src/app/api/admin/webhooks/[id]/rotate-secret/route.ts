@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
+import { WEBHOOKS_COLLECTION, generateWebhookSecret, toWebhookSummary } from '@/lib/webhooks.server';
+import type { WebhookSubscription } from '@/lib/types';
+
+/**
+ * POST /api/admin/webhooks/[id]/rotate-secret
+ *
+ * Replace a subscription's signing secret. Deliveries from now on, including
+ * retries and replays, are signed with the new one, which is only returned
+ * here.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const db = await getDb();
+    const secret = generateWebhookSecret();
+    const subscription = await db.collection<WebhookSubscription>(WEBHOOKS_COLLECTION).findOneAndUpdate(
+      { id },
+      { $set: { secret, updated_at: new Date() } },
+      { returnDocument: 'after', projection: { _id: 0 } }
+    );
+    if (!subscription) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, webhook: toWebhookSummary(subscription), secret });
+  } catch (error) {
+    console.error('Error rotating webhook secret:', error);
+    return NextResponse.json({ error: 'Failed to rotate webhook secret' }, { status: 500 });
+  }
+}
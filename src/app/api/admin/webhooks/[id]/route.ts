@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
+import { parseWebhookChanges } from '@/lib/webhooks';
+import {
+  WEBHOOKS_COLLECTION,
+  WEBHOOK_DELIVERIES_COLLECTION,
+  toWebhookSummary,
+} from '@/lib/webhooks.server';
+import type { WebhookSubscription } from '@/lib/types';
+
+/**
+ * PATCH /api/admin/webhooks/[id]
+ *
+ * Update a subscription's url, events, description or active flag. Pending
+ * retries go to the new url; a disabled subscription's pending deliveries
+ * are marked failed at their next attempt.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const changes = parseWebhookChanges(body);
+    if ('error' in changes) {
+      return NextResponse.json({ error: changes.error }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const subscription = await db.collection<WebhookSubscription>(WEBHOOKS_COLLECTION).findOneAndUpdate(
+      { id },
+      { $set: { ...changes.set, updated_at: new Date() } },
+      { returnDocument: 'after', projection: { _id: 0 } }
+    );
+    if (!subscription) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, webhook: toWebhookSummary(subscription) });
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    return NextResponse.json({ error: 'Failed to update webhook' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/admin/webhooks/[id]
+ *
+ * Remove a subscription along with its delivery log.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const db = await getDb();
+    const result = await db.collection(WEBHOOKS_COLLECTION).deleteOne({ id });
+
+    if (result.deletedCount === 0) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+    await db.collection(WEBHOOK_DELIVERIES_COLLECTION).deleteMany({ subscription_id: id });
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    return NextResponse.json({ error: 'Failed to delete webhook' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
+import {
+  WEBHOOK_DELIVERIES_COLLECTION,
+  deliverWebhook,
+  replayDelivery,
+} from '@/lib/webhooks.server';
+import type { WebhookDelivery } from '@/lib/types';
+
+/**
+ * POST /api/admin/webhooks/deliveries/[id]/replay
+ *
+ * Send a delivery's event again, delivered or not, as a new delivery to the
+ * subscription's current url. The first attempt is made before responding;
+ * if it fails, the new delivery is retried like any other.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const db = await getDb();
+    const delivery = await db.collection<WebhookDelivery>(WEBHOOK_DELIVERIES_COLLECTION)
+      .findOne({ id }, { projection: { _id: 0 } });
+    if (!delivery) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 });
+    }
+
+    const replay = await replayDelivery(db, delivery);
+    if (!replay) {
+      return NextResponse.json({ error: 'The webhook for this delivery was deleted' }, { status: 404 });
+    }
+
+    const attempted = await deliverWebhook(db, replay.id);
+    return NextResponse.json({ success: true, delivery: attempted ?? replay });
+  } catch (error) {
+    console.error('Error replaying webhook delivery:', error);
+    return NextResponse.json({ error: 'Failed to replay webhook delivery' }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
+import { isWebhookEventType } from '@/lib/webhooks';
+import { WEBHOOK_DELIVERIES_COLLECTION } from '@/lib/webhooks.server';
+import type { WebhookDelivery, WebhookDeliveryStatus } from '@/lib/types';
+
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'delivered', 'failed'];
+const MAX_LIMIT = 200;
+
+/**
+ * GET /api/admin/webhooks/deliveries
+ *
+ * The delivery log, newest first: each event sent to each subscription,
+ * with its status and the outcome of its latest attempt.
+ *
+ * Query params: subscription_id, status, event, limit (default 50, max 200)
+ */
+export async function GET(request: NextRequest) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const subscriptionId = searchParams.get('subscription_id');
+    const status = searchParams.get('status');
+    const event = searchParams.get('event');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, MAX_LIMIT);
+
+    const filter: Record<string, unknown> = {};
+    if (subscriptionId) filter.subscription_id = subscriptionId;
+    if (status) {
+      if (!DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+        return NextResponse.json(
+          { error: `status must be one of ${DELIVERY_STATUSES.join(', ')}` },
+          { status: 400 }
+        );
+      }
+      filter.status = status;
+    }
+    if (event) {
+      if (!isWebhookEventType(event)) {
+        return NextResponse.json({ error: `Unknown event type: ${event}` }, { status: 400 });
+      }
+      filter['event.type'] = event;
+    }
+
+    const db = await getDb();
+    const deliveries = await db.collection<WebhookDelivery>(WEBHOOK_DELIVERIES_COLLECTION)
+      .find(filter, { projection: { _id: 0, tenant_id: 0 } })
+      .sort({ created_at: -1 })
+      .limit(limit)
+      .toArray();
+
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    console.error('Error listing webhook deliveries:', error);
+    return NextResponse.json({ error: 'Failed to list webhook deliveries' }, { status: 500 });
+  }
+}
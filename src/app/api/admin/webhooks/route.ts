@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { nanoid } from 'nanoid';
+import { getDb } from '@/lib/mongodb';
+import { getAuthUser, requireRole } from '@/lib/auth-guard';
+import { MAX_WEBHOOKS, parseWebhookChanges } from '@/lib/webhooks';
+import {
+  WEBHOOKS_COLLECTION,
+  WEBHOOK_DELIVERIES_COLLECTION,
+  WEBHOOK_SUMMARY_PROJECTION,
+  generateWebhookSecret,
+  toWebhookSummary,
+} from '@/lib/webhooks.server';
+import type { WebhookDeliveryStatus, WebhookSubscription } from '@/lib/types';
+
+/**
+ * GET /api/admin/webhooks
+ *
+ * List the tenant's webhook subscriptions, each with how many of its
+ * deliveries are pending, delivered and failed.
+ */
+export async function GET() {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
+  try {
+    const db = await getDb();
+    const subscriptions = await db.collection<WebhookSubscription>(WEBHOOKS_COLLECTION)
+      .find({}, { projection: WEBHOOK_SUMMARY_PROJECTION })
+      .sort({ created_at: -1 })
+      .toArray() as WebhookSubscription[];
+
+    const counts = await db.collection(WEBHOOK_DELIVERIES_COLLECTION).aggregate<{
+      _id: { subscription_id: string; status: WebhookDeliveryStatus };
+      count: number;
+    }>([
+      { $group: { _id: { subscription_id: '$subscription_id', status: '$status' }, count: { $sum: 1 } } },
+    ]).toArray();
+
+    const webhooks = subscriptions.map(subscription => {
+      const deliveries: Record<WebhookDeliveryStatus, number> = { pending: 0, delivered: 0, failed: 0 };
+      for (const { _id, count } of counts) {
+        if (_id.subscription_id === subscription.id) deliveries[_id.status] = count;
+      }
+      return { ...toWebhookSummary(subscription), deliveries };
+    });
+
+    return NextResponse.json({ webhooks });
+  } catch (error) {
+    console.error('Error listing webhooks:', error);
+    return NextResponse.json({ error: 'Failed to list webhooks' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/admin/webhooks
+ *
+ * Subscribe an endpoint to events. The response's secret signs every
+ * delivery and is only returned here (and when rotated).
+ *
+ * Body: {
+ *   url: string,                 // https
+ *   events: WebhookEventType[],
+ *   description?: string,
+ *   active?: boolean             // default true
+ * }
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const changes = parseWebhookChanges(body, true);
+    if ('error' in changes) {
+      return NextResponse.json({ error: changes.error }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const webhooks = db.collection<WebhookSubscription>(WEBHOOKS_COLLECTION);
+    if (await webhooks.countDocuments({}) >= MAX_WEBHOOKS) {
+      return NextResponse.json(
+        { error: `A library can have at most ${MAX_WEBHOOKS} webhooks; delete one first` },
+        { status: 400 }
+      );
+    }
+
+    const user = await getAuthUser();
+    const subscription: WebhookSubscription = {
+      id: nanoid(12),
+      url: changes.set.url!,
+      events: changes.set.events!,
+      ...(changes.set.description && { description: changes.set.description }),
+      secret: generateWebhookSecret(),
+      active: changes.set.active ?? true,
+      ...(user && { created_by: user.email || user.id }),
+      created_at: new Date(),
+    };
+    await webhooks.insertOne({ ...subscription });
+
+    return NextResponse.json({
+      success: true,
+      webhook: toWebhookSummary(subscription),
+      secret: subscription.secret,
+    });
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    return NextResponse.json({ error: 'Failed to create webhook' }, { status: 500 });
+  }
+}
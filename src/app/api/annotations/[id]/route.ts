@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { AnnotationType, AnnotationStatus } from '@/lib/types';
+import { requireRole } from '@/lib/auth-guard';
 
 // GET /api/annotations/[id] - Get a single annotation with replies
 export async function GET(
@@ -47,6 +48,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const body = await request.json();
@@ -129,6 +133,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const db = await getDb();
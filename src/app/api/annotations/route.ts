@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
+import { apiKeyError, getAuthUser } from '@/lib/auth-guard';
+import { emitWebhookEvent } from '@/lib/webhooks.server';
 import { ObjectId, Document } from 'mongodb';
 import { Annotation, AnnotationType, AnnotationStatus } from '@/lib/types';
 
@@ -51,6 +53,10 @@ export async function GET(request: NextRequest) {
 
 // POST /api/annotations - Create a new annotation
 export async function POST(request: NextRequest) {
+  // Open to anonymous callers, but a key that can't be used is refused
+  const keyDenied = await apiKeyError();
+  if (keyDenied) return keyDenied;
+
   try {
     const body = await request.json();
     const {
@@ -116,6 +122,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Signed-in callers (including API clients) are credited by their account
+    const user = await getAuthUser();
+
     const annotation: Annotation = {
       id: new ObjectId().toHexString(),
       book_id,
@@ -128,8 +137,8 @@ export async function POST(request: NextRequest) {
       },
       content: content.trim(),
       type,
-      user_id: user_id || undefined,
-      user_name: user_name?.trim() || 'Anonymous',
+      user_id: user?.id || user_id || undefined,
+      user_name: user?.name || user_name?.trim() || 'Anonymous',
       upvotes: 0,
       upvoted_by: [],
       status: 'approved', // Auto-approve for now; add moderation later
@@ -141,6 +150,19 @@ export async function POST(request: NextRequest) {
 
     await db.collection('annotations').insertOne(annotation as unknown as Document);
 
+    await emitWebhookEvent('annotation.created', {
+      annotation_id: annotation.id,
+      book_id: annotation.book_id,
+      page_id: annotation.page_id,
+      page_number: annotation.page_number,
+      type: annotation.type,
+      anchor_text: annotation.anchor.text,
+      content: annotation.content,
+      user_name: annotation.user_name,
+      parent_id: annotation.parent_id ?? null,
+      created_at: annotation.created_at,
+    });
+
     return NextResponse.json(annotation, { status: 201 });
   } catch (error) {
     console.error('Error creating annotation:', error);
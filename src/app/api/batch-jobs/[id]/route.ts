@@ -5,6 +5,9 @@ import {
   getBatchJobResults,
   cancelBatchJob,
 } from '@/lib/gemini-batch';
+import { refreshSearchIndex } from '@/lib/search/indexer';
+import { recordRevisions } from '@/lib/revisions';
+import { requireRole } from '@/lib/auth-guard';
 
 export const maxDuration = 300;
 
@@ -108,6 +111,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
  * - action: 'refresh' - Force refresh status from Gemini
  */
 export async function POST(request: NextRequest, { params }: RouteParams) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const { action } = await request.json();
@@ -214,6 +220,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       // Save results to pages
       let successCount = 0;
       let failCount = 0;
+      const savedPageIds: string[] = [];
       const now = new Date();
 
       for (const result of results) {
@@ -279,8 +286,12 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         }
 
         successCount++;
+        savedPageIds.push(pageId);
       }
 
+      await refreshSearchIndex({ pageIds: savedPageIds });
+      await recordRevisions(savedPageIds, { via: 'batch', job_id: job.id });
+
       // Update job status
       await db.collection('batch_jobs').updateOne(
         { id },
@@ -329,6 +340,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
  * Delete a batch job record (does not cancel Gemini job)
  */
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const db = await getDb();
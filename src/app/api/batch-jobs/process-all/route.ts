@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
-import { nanoid } from 'nanoid';
-import type { Job } from '@/lib/types';
+import { getAuthUser, requireRole } from '@/lib/auth-guard';
+import { budgetBlocked, preflightJob } from '@/lib/budgets';
+import { enqueueJob, isWorkerMode } from '@/lib/queue';
 
 export const maxDuration = 300;
 
@@ -15,8 +16,14 @@ export const maxDuration = 300;
  * - type: 'ocr' | 'translate' | 'both' (default: 'both')
  * - limit: max books to process (default: 10)
  * - book_id: specific book to process (optional)
+ * - confirm_budget: 'true' to queue jobs past a soft budget limit
+ *
+ * Jobs that would exceed a cost budget are skipped.
  */
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   const startTime = Date.now();
 
   try {
@@ -24,8 +31,10 @@ export async function POST(request: NextRequest) {
     const type = searchParams.get('type') || 'both';
     const limit = parseInt(searchParams.get('limit') || '10', 10);
     const specificBookId = searchParams.get('book_id');
+    const confirmBudget = searchParams.get('confirm_budget') === 'true';
 
     const db = await getDb();
+    const user = await getAuthUser();
     const results: {
       ocr_jobs: Array<{ book_id: string; book_title: string; job_id: string; pages: number }>;
       translate_jobs: Array<{ book_id: string; book_title: string; job_id: string; pages: number }>;
@@ -83,37 +92,40 @@ export async function POST(request: NextRequest) {
 
         if (pagesNeedingOcr.length > 0) {
           try {
-            const jobId = nanoid(12);
-            const job: Job = {
-              id: jobId,
+            const preflight = await preflightJob(db, {
               type: 'batch_ocr',
-              status: 'pending',
-              progress: {
-                total: pagesNeedingOcr.length,
-                completed: 0,
-                failed: 0,
-              },
-              book_id: bookId,
-              book_title: bookTitle,
-              created_at: new Date(),
-              updated_at: new Date(),
-              results: [],
-              config: {
-                model: 'gemini-2.5-flash',
-                language: book.language || 'Latin',
-                page_ids: pagesNeedingOcr.map(p => p.id),
-                use_batch_api: true,
-              },
-            };
-
-            await db.collection('jobs').insertOne(job as unknown as Record<string, unknown>);
-            results.ocr_jobs.push({
-              book_id: bookId,
-              book_title: bookTitle,
-              job_id: jobId,
               pages: pagesNeedingOcr.length,
+              model: 'gemini-2.5-flash',
+              language: book.language || 'Latin',
+              batchApi: true,
+              book_id: bookId,
+              user_id: user?.id,
             });
-            processedCount++;
+            const blocked = budgetBlocked(preflight, confirmBudget);
+            if (blocked) {
+              results.skipped.push(`${bookTitle} OCR: ${blocked}`);
+            } else {
+              const { id: jobId } = await enqueueJob(db, {
+                type: 'batch_ocr',
+                book_id: bookId,
+                book_title: bookTitle,
+                user_id: user?.id,
+                cost_estimate: preflight?.estimate,
+                config: {
+                  model: 'gemini-2.5-flash',
+                  language: book.language || 'Latin',
+                  page_ids: pagesNeedingOcr.map(p => p.id),
+                  use_batch_api: true,
+                },
+              });
+              results.ocr_jobs.push({
+                book_id: bookId,
+                book_title: bookTitle,
+                job_id: jobId,
+                pages: pagesNeedingOcr.length,
+              });
+              processedCount++;
+            }
           } catch (e) {
             results.errors.push(`${bookTitle} OCR: ${e instanceof Error ? e.message : 'Unknown error'}`);
           }
@@ -130,37 +142,40 @@ export async function POST(request: NextRequest) {
 
         if (pagesNeedingTranslation.length > 0) {
           try {
-            const jobId = nanoid(12);
-            const job: Job = {
-              id: jobId,
+            const preflight = await preflightJob(db, {
               type: 'batch_translate',
-              status: 'pending',
-              progress: {
-                total: pagesNeedingTranslation.length,
-                completed: 0,
-                failed: 0,
-              },
-              book_id: bookId,
-              book_title: bookTitle,
-              created_at: new Date(),
-              updated_at: new Date(),
-              results: [],
-              config: {
-                model: 'gemini-2.5-flash',
-                language: book.language || 'Latin',
-                page_ids: pagesNeedingTranslation.map(p => p.id),
-                use_batch_api: true,
-              },
-            };
-
-            await db.collection('jobs').insertOne(job as unknown as Record<string, unknown>);
-            results.translate_jobs.push({
-              book_id: bookId,
-              book_title: bookTitle,
-              job_id: jobId,
               pages: pagesNeedingTranslation.length,
+              model: 'gemini-2.5-flash',
+              language: book.language || 'Latin',
+              batchApi: true,
+              book_id: bookId,
+              user_id: user?.id,
             });
-            processedCount++;
+            const blocked = budgetBlocked(preflight, confirmBudget);
+            if (blocked) {
+              results.skipped.push(`${bookTitle} Translation: ${blocked}`);
+            } else {
+              const { id: jobId } = await enqueueJob(db, {
+                type: 'batch_translate',
+                book_id: bookId,
+                book_title: bookTitle,
+                user_id: user?.id,
+                cost_estimate: preflight?.estimate,
+                config: {
+                  model: 'gemini-2.5-flash',
+                  language: book.language || 'Latin',
+                  page_ids: pagesNeedingTranslation.map(p => p.id),
+                  use_batch_api: true,
+                },
+              });
+              results.translate_jobs.push({
+                book_id: bookId,
+                book_title: bookTitle,
+                job_id: jobId,
+                pages: pagesNeedingTranslation.length,
+              });
+              processedCount++;
+            }
           } catch (e) {
             results.errors.push(`${bookTitle} Translation: ${e instanceof Error ? e.message : 'Unknown error'}`);
           }
@@ -175,7 +190,9 @@ export async function POST(request: NextRequest) {
       message: `Created ${results.ocr_jobs.length} OCR jobs and ${results.translate_jobs.length} translation jobs`,
       duration_ms: duration,
       ...results,
-      next_step: 'Call POST /api/batch-jobs/process-pending to start processing these jobs',
+      next_step: isWorkerMode()
+        ? 'The queue worker will pick these jobs up'
+        : 'Call POST /api/batch-jobs/process-pending (or wait for /api/cron/process-queue) to start processing these jobs',
     });
 
   } catch (error) {
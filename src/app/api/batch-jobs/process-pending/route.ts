@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
+import type { Job } from '@/lib/types';
+import { claimJob, isWorkerMode, workerId } from '@/lib/queue';
+import { runLeasedSlice } from '@/lib/queue/worker';
 
 export const maxDuration = 300;
 
@@ -7,12 +11,17 @@ export const maxDuration = 300;
  * POST /api/batch-jobs/process-pending
  *
  * Processes all pending batch jobs (one chunk each).
- * Call repeatedly to make progress on all jobs.
+ * Call repeatedly to make progress on all jobs. Jobs leased by a worker, or
+ * waiting for their next Batch API poll, are skipped; with QUEUE_MODE=worker
+ * nothing is run here.
  *
  * Query params:
  * - limit: max jobs to process per call (default: 5)
  */
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   const startTime = Date.now();
 
   try {
@@ -22,19 +31,19 @@ export async function POST(request: NextRequest) {
     const db = await getDb();
 
     // Get pending/processing batch jobs
-    const jobs = await db.collection('jobs')
+    const jobs = isWorkerMode() ? [] : await db.collection<Job>('jobs')
       .find({
         status: { $in: ['pending', 'processing'] },
         'config.use_batch_api': true,
       })
-      .sort({ created_at: 1 }) // Oldest first
+      .sort({ priority: -1, created_at: 1 }) // Highest priority, then oldest
       .limit(limit)
       .toArray();
 
     if (jobs.length === 0) {
       return NextResponse.json({
         success: true,
-        message: 'No pending batch jobs',
+        message: isWorkerMode() ? 'Batch jobs are processed by the queue worker' : 'No pending batch jobs',
         processed: 0,
       });
     }
@@ -51,32 +60,31 @@ export async function POST(request: NextRequest) {
     }> = [];
 
     // Process each job
+    const owner = workerId('process-pending');
     for (const job of jobs) {
       const jobId = job.id;
 
       try {
-        // Call the process endpoint internally
-        const baseUrl = request.headers.get('host') || 'localhost:3000';
-        const protocol = request.headers.get('x-forwarded-proto') || 'http';
-
-        const processResponse = await fetch(
-          `${protocol}://${baseUrl}/api/jobs/${jobId}/process`,
-          {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-          }
-        );
-
-        const result = await processResponse.json();
+        const leased = await claimJob(db, jobId, owner);
+        if (!leased) {
+          results.push({
+            job_id: jobId,
+            book_title: job.book_title || 'Unknown',
+            phase: 'queued',
+          });
+          continue;
+        }
+
+        const { body: result } = await runLeasedSlice(db, leased, owner);
 
         results.push({
           job_id: jobId,
           book_title: job.book_title || 'Unknown',
-          phase: result.phase || result.gemini_state || 'unknown',
-          prepared: result.prepared,
-          remaining: result.remaining,
-          gemini_state: result.gemini_state,
-          done: result.done,
+          phase: String(result.phase || result.gemini_state || 'unknown'),
+          prepared: result.prepared as number | undefined,
+          remaining: result.remaining as number | undefined,
+          gemini_state: result.gemini_state as string | undefined,
+          done: result.done as boolean | undefined,
         });
 
       } catch (e) {
@@ -9,7 +9,10 @@ import {
   type BatchRequest,
 } from '@/lib/gemini-batch';
 import { images } from '@/lib/api-client';
+import { formatTranslationGuidance, selectTranslationGuidance, type TranslationResources } from '@/lib/glossary/match';
+import { loadTranslationResources } from '@/lib/glossary/store';
 import sharp from 'sharp';
+import { requireRole } from '@/lib/auth-guard';
 
 export const maxDuration = 300;
 
@@ -41,6 +44,9 @@ interface PageForBatch {
  * Jobs process asynchronously at 50% cost savings
  */
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const {
       type,  // 'ocr' or 'translate'
@@ -128,6 +134,7 @@ export async function POST(request: NextRequest) {
     // For translation, fetch ALL pages to get previous page context for continuity
     // This ensures continuity even when only some pages need translation
     const allPagesMap: Map<number, { ocr?: { data?: string }; translation?: { data?: string } }> = new Map();
+    let translationResources: TranslationResources | undefined;
     if (type === 'translate') {
       const allPages = await db
         .collection('pages')
@@ -136,6 +143,9 @@ export async function POST(request: NextRequest) {
         .sort({ page_number: 1 })
         .toArray();
       allPages.forEach(p => allPagesMap.set(p.page_number, p));
+
+      // Glossary terms and approved translations to hold each page to
+      translationResources = await loadTranslationResources(bookId, { sourceLanguage: language });
     }
 
     // Build batch requests
@@ -206,6 +216,10 @@ export async function POST(request: NextRequest) {
           previousContext = `\n\n**Previous page text for continuity:**\n${prevOcr.slice(-1500)}${prevOcr.length > 1500 ? '...' : ''}`;
         }
 
+        const guidance = translationResources
+          ? formatTranslationGuidance(selectTranslationGuidance(translationResources, ocrText))
+          : '';
+
         batchRequests.push({
           key: page.id,
           request: {
@@ -213,7 +227,7 @@ export async function POST(request: NextRequest) {
               {
                 parts: [
                   {
-                    text: `Translate the following ${language} text to English. Preserve formatting and paragraph breaks. Maintain continuity with the previous page if provided.\n\n${ocrText}${previousContext}`,
+                    text: `Translate the following ${language} text to English. Preserve formatting and paragraph breaks. Maintain continuity with the previous page if provided.${guidance}\n\n${ocrText}${previousContext}`,
                   },
                 ],
               },
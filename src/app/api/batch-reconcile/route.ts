@@ -1,6 +1,9 @@
 import { NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { listBatchJobs, getBatchJobResults } from '@/lib/gemini-batch';
+import { refreshSearchIndex } from '@/lib/search/indexer';
+import { recordRevisions } from '@/lib/revisions';
+import { requireRole } from '@/lib/auth-guard';
 
 export const maxDuration = 300;
 
@@ -70,6 +73,9 @@ export async function GET() {
  * - limit: max jobs to process (default: 20)
  */
 export async function POST(request: Request) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
   try {
     const { searchParams } = new URL(request.url);
     const dryRun = searchParams.get('dry_run') === 'true';
@@ -121,6 +127,7 @@ export async function POST(request: Request) {
         const batchResults = await getBatchJobResults(geminiJob.name);
 
         let pagesSaved = 0;
+        const savedPageIds: string[] = [];
         const now = new Date();
 
         // Parse displayName to get job type and book info
@@ -160,6 +167,7 @@ export async function POST(request: Request) {
               }
             );
             pagesSaved++;
+            savedPageIds.push(pageId);
           } else if (isTranslate) {
             await db.collection('pages').updateOne(
               { id: pageId },
@@ -179,9 +187,13 @@ export async function POST(request: Request) {
               }
             );
             pagesSaved++;
+            savedPageIds.push(pageId);
           }
         }
 
+        await refreshSearchIndex({ pageIds: savedPageIds });
+        await recordRevisions(savedPageIds, { via: 'batch' });
+
         results.jobs.push({
           name: geminiJob.name,
           displayName: geminiJob.displayName || '',
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { getBatchJobStatus, getBatchJobResults } from '@/lib/gemini-batch';
+import { refreshSearchIndex } from '@/lib/search/indexer';
+import { recordRevisions } from '@/lib/revisions';
+import { requireRole } from '@/lib/auth-guard';
 
 export const maxDuration = 300;
 
@@ -15,6 +18,9 @@ export const maxDuration = 300;
  * - type: only save jobs of this type ('ocr', 'translate', 'ocr_resubmit')
  */
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
   try {
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get('limit') || '50', 10);
@@ -84,6 +90,7 @@ export async function POST(request: NextRequest) {
 
         let saved = 0;
         let failed = 0;
+        const savedPageIds: string[] = [];
         const now = new Date();
 
         for (const result of batchResults) {
@@ -146,8 +153,12 @@ export async function POST(request: NextRequest) {
           }
 
           saved++;
+          savedPageIds.push(pageId);
         }
 
+        await refreshSearchIndex({ pageIds: savedPageIds });
+        await recordRevisions(savedPageIds, { via: 'batch', job_id: job.id });
+
         // Update job status
         await db.collection('batch_jobs').updateOne(
           { id: job.id },
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { getBatchJobStatus } from '@/lib/gemini-batch';
+import { requireRole } from '@/lib/auth-guard';
 
 export const maxDuration = 300;
 
@@ -11,6 +12,9 @@ export const maxDuration = 300;
  * Updates our database with latest status from Gemini.
  */
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
   try {
     const { searchParams } = new URL(request.url);
     const limit = parseInt(searchParams.get('limit') || '0') || 0;
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { put } from '@vercel/blob';
+import { putObject } from '@/lib/storage';
 import { getDb } from '@/lib/mongodb';
 import { images } from '@/lib/api-client/images';
+import { requireRole } from '@/lib/auth-guard';
 
 // Increase timeout for archiving many images
 export const maxDuration = 300;
@@ -12,7 +13,7 @@ const ARCHIVABLE_SOURCES_REGEX = /archive\.org|gallica\.bnf\.fr|digitale-sammlun
 /**
  * POST /api/books/[id]/archive-images
  *
- * Download images from external sources and upload to Vercel Blob.
+ * Download images from external sources and copy them to storage.
  * Supports: Internet Archive, Gallica (BnF), MDZ (Bavarian State Library)
  * This makes images available even when source sites are down.
  */
@@ -20,6 +21,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id: bookId } = await params;
     const body = await request.json().catch(() => ({}));
@@ -112,13 +116,9 @@ export async function POST(
             const { buffer, mimeType } = await images.fetchBufferWithMimeType(sourceUrl);
             const bytes = buffer.byteLength;
 
-            // Upload to Vercel Blob
+            // Upload to storage
             const filename = `archived/${bookId}/${page.page_number}.jpg`;
-            const blob = await put(filename, buffer, {
-              access: 'public',
-              contentType: mimeType,
-              addRandomSuffix: false,
-            });
+            const blob = await putObject(filename, buffer, { contentType: mimeType });
 
             // Update page record
             await db.collection('pages').updateOne(
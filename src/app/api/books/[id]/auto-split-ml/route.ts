@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { extractFeatures, predictWithModel, type SplitModel } from '@/lib/page-split/splitDetectionML';
 import { images } from '@/lib/api-client';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * POST /api/books/[id]/auto-split-ml
@@ -13,6 +14,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id: bookId } = await params;
     const { limit = 50, dryRun = false } = await request.json().catch(() => ({}));
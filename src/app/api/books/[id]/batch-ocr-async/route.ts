@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenAI } from '@google/genai';
 import { getDb } from '@/lib/mongodb';
 import { getOcrPrompt } from '@/lib/prompts';
 import { logGeminiCall } from '@/lib/gemini-logger';
 import { images } from '@/lib/api-client';
+import { requireRole } from '@/lib/auth-guard';
+import { buildLayoutPrompt, imageDimensions, parseLayoutResponse } from '@/lib/ocr-layout';
+import { resolveModel } from '@/lib/ai-providers';
+import { createBatchJobInline, getBatchJobResults, getBatchJobStatus, type BatchRequest } from '@/lib/gemini-batch';
 
 /**
  * Async Batch OCR using Gemini Batch API
@@ -15,11 +18,11 @@ import { images } from '@/lib/api-client';
  * - 24h turnaround (usually faster)
  *
  * POST /api/books/[id]/batch-ocr-async - Submit batch job
+ *   Body: { limit?, language?, model?, layout? } - layout: true adds a second
+ *   request per page that locates lines and words (stored as ocr.layout)
  * GET /api/books/[id]/batch-ocr-async?jobName=xxx - Check job status
  */
 
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || '' });
-
 // Build image URL for a page
 function getPageImageUrl(page: {
   cropped_photo?: string;
@@ -70,15 +73,27 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id: bookId } = await params;
     const body = await request.json().catch(() => ({}));
     const {
       limit = 10, // Default to 10 pages per batch (research shows >10 causes quality degradation)
       language = 'Latin',
-      model = 'gemini-3-flash-preview',
+      model: requestedModel = 'gemini-3-flash-preview',
+      layout = false,
     } = body;
 
+    // The Batch API is Gemini's; other providers run OCR through the job queue
+    const { provider, model } = resolveModel(requestedModel);
+    if (provider.id !== 'gemini') {
+      return NextResponse.json({
+        error: `The Batch API only runs Gemini models, not ${provider.id}. Queue an OCR job with POST /api/jobs instead.`,
+      }, { status: 400 });
+    }
+
     const db = await getDb();
 
     // Get book
@@ -119,7 +134,10 @@ export async function POST(
     }
 
     // Build batch requests - each page is a separate request
-    const batchRequests = [];
+    const batchRequests: BatchRequest[] = [];
+    // Layout requests follow the OCR requests in the same batch
+    const layoutRequests: BatchRequest[] = [];
+    const layoutPages: Array<{ page_id: string; width?: number; height?: number }> = [];
 
     // Get the main OCR prompt with language substituted
     const ocrPromptResult = await getOcrPrompt(language);
@@ -153,11 +171,26 @@ export async function POST(
                   data: image.data
                 }
               }
-            ],
-            role: 'user'
+            ]
           }]
         }
       });
+
+      if (layout) {
+        layoutRequests.push({
+          key: `${page.id}:layout`,
+          request: {
+            contents: [{
+              parts: [
+                { text: buildLayoutPrompt(language) },
+                { inlineData: { mimeType: image.mimeType, data: image.data } }
+              ]
+            }],
+            generationConfig: { responseMimeType: 'application/json' }
+          }
+        });
+        layoutPages.push({ page_id: page.id, ...imageDimensions(Buffer.from(image.data, 'base64')) });
+      }
     }
 
     if (batchRequests.length === 0) {
@@ -168,13 +201,11 @@ export async function POST(
     }
 
     // Submit batch job
-    const batchJob = await ai.batches.create({
+    const batchJob = await createBatchJobInline(
       model,
-      src: batchRequests.map(r => r.request),
-      config: {
-        displayName: `ocr-${bookId}-${Date.now()}`,
-      }
-    });
+      [...batchRequests, ...layoutRequests],
+      `ocr-${bookId}-${Date.now()}`
+    );
 
     // Store job info in database for tracking
     await db.collection('batch_jobs').insertOne({
@@ -185,6 +216,7 @@ export async function POST(
       language,
       page_ids: batchRequests.map(r => r.key),
       page_count: batchRequests.length,
+      ...(layout && { layout_pages: layoutPages }),
       status: batchJob.state,
       created_at: new Date(),
       updated_at: new Date(),
@@ -260,7 +292,7 @@ export async function GET(
     }
 
     // Get job status from Gemini
-    const batchJob = await ai.batches.get({ name: jobName });
+    const batchJob = await getBatchJobStatus(jobName);
 
     // Update status in database
     await db.collection('batch_jobs').updateOne(
@@ -272,9 +304,9 @@ export async function GET(
     if (batchJob.state === 'JOB_STATE_SUCCEEDED') {
       const jobDoc = await db.collection('batch_jobs').findOne({ job_name: jobName });
 
-      if (jobDoc && !jobDoc.results_collected && batchJob.dest?.inlinedResponses) {
+      if (jobDoc && !jobDoc.results_collected) {
         const pageIds = jobDoc.page_ids || [];
-        const responses = batchJob.dest.inlinedResponses;
+        const responses = await getBatchJobResults(jobName);
 
         let successCount = 0;
         let failCount = 0;
@@ -307,6 +339,34 @@ export async function GET(
           }
         }
 
+        // Layout responses, if requested, come after one OCR response per page
+        const layoutPages: Array<{ page_id: string; width?: number; height?: number }> = jobDoc.layout_pages || [];
+        let layoutCount = 0;
+        for (let i = 0; i < layoutPages.length; i++) {
+          const text = responses[pageIds.length + i]?.response?.candidates?.[0]?.content?.parts?.[0]?.text;
+          if (!text) continue;
+          try {
+            const { page_id, width, height } = layoutPages[i];
+            await db.collection('pages').updateOne(
+              { id: page_id },
+              {
+                $set: {
+                  'ocr.layout': {
+                    lines: parseLayoutResponse(text),
+                    model: jobDoc.model,
+                    width,
+                    height,
+                    created_at: new Date(),
+                  },
+                }
+              }
+            );
+            layoutCount++;
+          } catch (error) {
+            console.error(`[batch-ocr-async] Unusable layout for page ${layoutPages[i].page_id}:`, error);
+          }
+        }
+
         // Mark results as collected
         await db.collection('batch_jobs').updateOne(
           { job_name: jobName },
@@ -315,6 +375,7 @@ export async function GET(
               results_collected: true,
               success_count: successCount,
               fail_count: failCount,
+              ...(layoutPages.length > 0 && { layout_count: layoutCount }),
               completed_at: new Date()
             }
           }
@@ -354,6 +415,7 @@ export async function GET(
           resultsCollected: true,
           successCount,
           failCount,
+          ...(layoutPages.length > 0 && { layoutCount }),
           message: `Collected ${successCount} OCR results`
         });
       }
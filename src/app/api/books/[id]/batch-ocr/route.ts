@@ -1,23 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { getDb } from '@/lib/mongodb';
-import { MODEL_PRICING } from '@/lib/ai';
+import { detectOcrLayout, generateText } from '@/lib/ai';
 import { DEFAULT_MODEL } from '@/lib/types';
 import { logGeminiCall } from '@/lib/gemini-logger';
 import { images } from '@/lib/api-client';
+import { requireRole } from '@/lib/auth-guard';
 
 // Increase timeout for batch OCR
 export const maxDuration = 300;
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
-
-function calculateCost(inputTokens: number, outputTokens: number, model: string): number {
-  const pricing = MODEL_PRICING[model] || MODEL_PRICING['default'];
-  const inputCost = (inputTokens / 1_000_000) * pricing.input;
-  const outputCost = (outputTokens / 1_000_000) * pricing.output;
-  return inputCost + outputCost;
-}
-
 // Build cropped image URL
 function buildCroppedImageUrl(baseUrl: string, crop: { xStart: number; xEnd: number }): string {
   const baseApiUrl = process.env.VERCEL_URL
@@ -53,11 +44,15 @@ async function fetchImageAsBase64(url: string): Promise<{ data: string; mimeType
  *
  * Process OCR for pages in a book that need it.
  * Processes in batches of 5 pages at a time.
+ * With `layout: true`, each page also gets line and word boxes (one extra call per page).
  */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id: bookId } = await params;
     const {
@@ -65,6 +60,7 @@ export async function POST(
       dryRun = false,
       language = 'Latin',
       model: modelId = DEFAULT_MODEL,
+      layout = false,
     } = await request.json().catch(() => ({}));
 
     const db = await getDb();
@@ -186,8 +182,6 @@ export async function POST(
       if (validBatch.length === 0) continue;
 
       // Build OCR prompt for batch
-      const model = genAI.getGenerativeModel({ model: modelId });
-
       const prompt = `You are an expert OCR system specializing in historical ${language} manuscripts and printed books.
 
 Transcribe the text from each page image accurately:
@@ -210,22 +204,11 @@ Return each transcription clearly separated with the exact format:
 
 ... and so on for each page image provided.`;
 
-      const content: (string | { inlineData: { mimeType: string; data: string } })[] = [prompt];
-
-      validBatch.forEach(({ image }) => {
-        if (image) {
-          content.push({
-            inlineData: {
-              mimeType: image.mimeType,
-              data: image.data,
-            },
-          });
-        }
-      });
-
       try {
-        const result = await model.generateContent(content);
-        const responseText = result.response.text();
+        const result = await generateText(prompt, modelId, {
+          images: validBatch.map(({ image }) => image!),
+        });
+        const responseText = result.text;
 
         // Parse OCR results
         const ocrResults: Record<string, string> = {};
@@ -246,12 +229,9 @@ Return each transcription clearly separated with the exact format:
         }
 
         // Track tokens
-        const usageMetadata = result.response.usageMetadata;
-        const inputTokens = usageMetadata?.promptTokenCount || 0;
-        const outputTokens = usageMetadata?.candidatesTokenCount || 0;
-        totalInputTokens += inputTokens;
-        totalOutputTokens += outputTokens;
-        totalCost += calculateCost(inputTokens, outputTokens, modelId);
+        totalInputTokens += result.usage.inputTokens;
+        totalOutputTokens += result.usage.outputTokens;
+        totalCost += result.usage.costUsd;
 
         // Save to database with image URL for audit trail
         const now = new Date().toISOString();
@@ -274,6 +254,24 @@ Return each transcription clearly separated with the exact format:
         );
         await Promise.all(updatePromises);
 
+        // Layout needs each image on its own, so it runs per page after the batch
+        if (layout) {
+          await Promise.all(validBatch.filter(b => ocrResults[b.page.id] && b.image).map(async ({ page, image }) => {
+            try {
+              const detected = await detectOcrLayout(Buffer.from(image!.data, 'base64'), image!.mimeType, language, modelId);
+              totalInputTokens += detected.usage.inputTokens;
+              totalOutputTokens += detected.usage.outputTokens;
+              totalCost += detected.usage.costUsd;
+              if (detected.layout) {
+                await db.collection('pages').updateOne({ id: page.id }, { $set: { 'ocr.layout': detected.layout } });
+              }
+            } catch (layoutError) {
+              // Keep the transcription; layout can be re-run for this page
+              console.error(`[batch-ocr] Layout failed for page ${page.id}:`, layoutError);
+            }
+          }));
+        }
+
         // Record results
         validBatch.forEach(({ page }) => {
           results.push({
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenAI } from '@google/genai';
 import { getDb } from '@/lib/mongodb';
 import { logGeminiCall } from '@/lib/gemini-logger';
+import { formatTranslationGuidance, selectTranslationGuidance } from '@/lib/glossary/match';
+import { loadTranslationResources } from '@/lib/glossary/store';
+import { requireRole } from '@/lib/auth-guard';
+import { resolveModel } from '@/lib/ai-providers';
+import { createBatchJobInline, getBatchJobResults, getBatchJobStatus, type BatchRequest } from '@/lib/gemini-batch';
 
 /**
  * Async Batch Translation using Gemini Batch API
@@ -16,8 +20,6 @@ import { logGeminiCall } from '@/lib/gemini-logger';
  * GET /api/books/[id]/batch-translate-async?jobName=xxx - Check job status
  */
 
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || '' });
-
 /**
  * POST - Submit a batch translation job
  */
@@ -25,6 +27,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id: bookId } = await params;
     const body = await request.json().catch(() => ({}));
@@ -32,9 +37,17 @@ export async function POST(
       limit = 500,
       language = 'Latin',
       targetLanguage = 'English',
-      model = 'gemini-3-flash-preview',
+      model: requestedModel = 'gemini-3-flash-preview',
     } = body;
 
+    // The Batch API is Gemini's; other providers translate through the job queue
+    const { provider, model } = resolveModel(requestedModel);
+    if (provider.id !== 'gemini') {
+      return NextResponse.json({
+        error: `The Batch API only runs Gemini models, not ${provider.id}. Queue a translation job with POST /api/jobs instead.`,
+      }, { status: 400 });
+    }
+
     const db = await getDb();
 
     // Get book
@@ -66,7 +79,8 @@ export async function POST(
     }
 
     // Build batch requests - each page is a separate request
-    const batchRequests = [];
+    const batchRequests: BatchRequest[] = [];
+    const translationResources = await loadTranslationResources(bookId, { sourceLanguage: language, targetLanguage });
 
     for (const page of pagesToProcess) {
       const ocrText = page.ocr?.data;
@@ -75,6 +89,7 @@ export async function POST(
         continue;
       }
 
+      const guidance = formatTranslationGuidance(selectTranslationGuidance(translationResources, ocrText));
       const prompt = `You are an expert scholarly translator specializing in historical ${language} texts.
 
 Translate the following ${language} text to ${targetLanguage}:
@@ -82,7 +97,7 @@ Translate the following ${language} text to ${targetLanguage}:
 - Use clear, modern ${targetLanguage}
 - Keep technical terms with brief explanations if needed
 - Maintain paragraph structure
-- Note any unclear passages with [unclear]
+- Note any unclear passages with [unclear]${guidance}
 
 Text to translate:
 ${ocrText}
@@ -93,8 +108,7 @@ Output only the translation, no commentary.`;
         key: page.id,
         request: {
           contents: [{
-            parts: [{ text: prompt }],
-            role: 'user'
+            parts: [{ text: prompt }]
           }]
         }
       });
@@ -108,13 +122,11 @@ Output only the translation, no commentary.`;
     }
 
     // Submit batch job
-    const batchJob = await ai.batches.create({
+    const batchJob = await createBatchJobInline(
       model,
-      src: batchRequests.map(r => r.request),
-      config: {
-        displayName: `translate-${bookId}-${Date.now()}`,
-      }
-    });
+      batchRequests,
+      `translate-${bookId}-${Date.now()}`
+    );
 
     // Store job info in database for tracking
     await db.collection('batch_jobs').insertOne({
@@ -203,7 +215,7 @@ export async function GET(
     }
 
     // Get job status from Gemini
-    const batchJob = await ai.batches.get({ name: jobName });
+    const batchJob = await getBatchJobStatus(jobName);
 
     // Update status in database
     await db.collection('batch_jobs').updateOne(
@@ -215,9 +227,9 @@ export async function GET(
     if (batchJob.state === 'JOB_STATE_SUCCEEDED') {
       const jobDoc = await db.collection('batch_jobs').findOne({ job_name: jobName });
 
-      if (jobDoc && !jobDoc.results_collected && batchJob.dest?.inlinedResponses) {
+      if (jobDoc && !jobDoc.results_collected) {
         const pageIds = jobDoc.page_ids || [];
-        const responses = batchJob.dest.inlinedResponses;
+        const responses = await getBatchJobResults(jobName);
 
         let successCount = 0;
         let failCount = 0;
@@ -1,23 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { getDb } from '@/lib/mongodb';
-import { MODEL_PRICING } from '@/lib/ai';
+import { generateText } from '@/lib/ai';
 import { DEFAULT_MODEL } from '@/lib/types';
 import { logGeminiCall } from '@/lib/gemini-logger';
 import { notifyBatchTranslation } from '@/lib/indexnow';
+import { refreshSearchIndex } from '@/lib/search/indexer';
+import { recordRevisions } from '@/lib/revisions';
+import { formatTranslationGuidance, selectTranslationGuidance } from '@/lib/glossary/match';
+import { loadTranslationResources } from '@/lib/glossary/store';
+import { requireRole } from '@/lib/auth-guard';
 
 // Increase timeout for batch translation
 export const maxDuration = 300;
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
-
-function calculateCost(inputTokens: number, outputTokens: number, model: string): number {
-  const pricing = MODEL_PRICING[model] || MODEL_PRICING['default'];
-  const inputCost = (inputTokens / 1_000_000) * pricing.input;
-  const outputCost = (outputTokens / 1_000_000) * pricing.output;
-  return inputCost + outputCost;
-}
-
 /**
  * POST /api/books/[id]/batch-translate
  *
@@ -28,6 +23,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id: bookId } = await params;
     const {
@@ -109,16 +107,18 @@ export async function POST(
     let totalInputTokens = 0;
     let totalOutputTokens = 0;
     let totalCost = 0;
+    const translationResources = await loadTranslationResources(bookId, { sourceLanguage, targetLanguage });
 
     for (let i = 0; i < pagesToProcess.length; i += batchSize) {
       const batch = pagesToProcess.slice(i, i + batchSize);
 
       // Build translation prompt
-      const model = genAI.getGenerativeModel({ model: modelId });
-
       const pagesText = batch
         .map((p, idx) => `=== PAGE ${idx + 1} (ID: ${p.id}) ===\n${p.ocr.data}`)
         .join('\n\n');
+      const guidance = formatTranslationGuidance(
+        selectTranslationGuidance(translationResources, batch.map(p => p.ocr.data).join('\n\n'))
+      );
 
       const prompt = `You are a scholarly translator specializing in ${sourceLanguage} to ${targetLanguage} translation.
 
@@ -126,7 +126,7 @@ Translate the following text pages accurately while:
 - Preserving the author's meaning and style
 - Using clear, modern ${targetLanguage}
 - Maintaining continuity between pages
-- Keeping technical terms with brief explanations if needed
+- Keeping technical terms with brief explanations if needed${guidance}
 
 **Pages to translate:**
 
@@ -144,8 +144,8 @@ Return each translation clearly separated with the exact format:
 ... and so on for each page.`;
 
       try {
-        const result = await model.generateContent(prompt);
-        const responseText = result.response.text();
+        const result = await generateText(prompt, modelId);
+        const responseText = result.text;
 
         // Parse translations
         const translations: Record<string, string> = {};
@@ -166,12 +166,9 @@ Return each translation clearly separated with the exact format:
         }
 
         // Track tokens
-        const usageMetadata = result.response.usageMetadata;
-        const inputTokens = usageMetadata?.promptTokenCount || 0;
-        const outputTokens = usageMetadata?.candidatesTokenCount || 0;
-        totalInputTokens += inputTokens;
-        totalOutputTokens += outputTokens;
-        totalCost += calculateCost(inputTokens, outputTokens, modelId);
+        totalInputTokens += result.usage.inputTokens;
+        totalOutputTokens += result.usage.outputTokens;
+        totalCost += result.usage.costUsd;
 
         // Save to database
         const now = new Date().toISOString();
@@ -190,6 +187,8 @@ Return each translation clearly separated with the exact format:
           )
         );
         await Promise.all(updatePromises);
+        await refreshSearchIndex({ pageIds: Object.keys(translations) });
+        await recordRevisions(Object.keys(translations), { via: 'process' });
 
         // Record results
         batch.forEach((page) => {
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import {
+  BIBLIOGRAPHIC_FORMATS,
+  bookToCsl,
+  bookToMarc,
+  currentEdition,
+  editionToMarc,
+  formatCsl,
+  isBibliographicFormat,
+  toMarcXml,
+} from '@/lib/bibliographic';
+import type { Book, Page, TranslationEdition } from '@/lib/types';
+
+/**
+ * GET /api/books/[id]/bibliography - Bibliographic record of a book
+ *
+ * Query params:
+ *   format: 'csl-json' (default) | 'bibtex' | 'ris' | 'marcxml'
+ *   record: 'original' (default) - the printed work
+ *           'translation'        - Source Library's translation
+ *   edition: edition id (translation records; default current published edition)
+ *   page: page number, to cite a single page via its shortlink (not for marcxml)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: bookId } = await params;
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') || 'csl-json';
+    const record = searchParams.get('record') || 'original';
+    const editionId = searchParams.get('edition');
+    const pageParam = searchParams.get('page');
+
+    if (!isBibliographicFormat(format)) {
+      return NextResponse.json({ error: `Unknown format: ${format}` }, { status: 400 });
+    }
+    if (record !== 'original' && record !== 'translation') {
+      return NextResponse.json({ error: 'record must be original or translation' }, { status: 400 });
+    }
+    if (pageParam && format === 'marcxml') {
+      return NextResponse.json({ error: 'MARC records describe whole books; cite pages as csl-json, bibtex or ris' }, { status: 400 });
+    }
+    const pageNumber = pageParam ? parseInt(pageParam, 10) : undefined;
+    if (pageNumber !== undefined && (isNaN(pageNumber) || pageNumber < 1)) {
+      return NextResponse.json({ error: 'Invalid page number' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const book = await db.collection('books').findOne({ id: bookId }) as unknown as Book | null;
+    if (!book) {
+      return NextResponse.json({ error: 'Book not found' }, { status: 404 });
+    }
+
+    let edition: TranslationEdition | undefined;
+    if (record === 'translation') {
+      edition = editionId
+        ? book.editions?.find(e => e.id === editionId && e.status !== 'draft')
+        : currentEdition(book);
+      if (editionId && !edition) {
+        return NextResponse.json({ error: 'Edition not found' }, { status: 404 });
+      }
+      if (format === 'marcxml' && !edition) {
+        return NextResponse.json({ error: 'This translation has no published edition yet' }, { status: 404 });
+      }
+    }
+
+    let page: Pick<Page, 'id' | 'page_number'> | undefined;
+    if (pageNumber !== undefined) {
+      page = await db.collection('pages').findOne(
+        { book_id: bookId, page_number: pageNumber },
+        { projection: { id: 1, page_number: 1 } }
+      ) as unknown as Pick<Page, 'id' | 'page_number'> | undefined;
+      if (!page) {
+        return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+      }
+    }
+
+    const { contentType, extension } = BIBLIOGRAPHIC_FORMATS[format];
+    const safeTitle = (book.display_title || book.title)
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '')
+      .substring(0, 50);
+    const filename = `${safeTitle}-${record}${page ? `-p${page.page_number}` : ''}.${extension}`;
+
+    const body = format === 'marcxml'
+      ? toMarcXml([edition ? editionToMarc(book, edition) : bookToMarc(book)])
+      : formatCsl([bookToCsl(book, { record, edition, page })], format);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `inline; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting bibliographic record:', error);
+    return NextResponse.json({ error: 'Failed to export bibliographic record' }, { status: 500 });
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
-import { getGeminiClient } from '@/lib/gemini-client';
+import { generateChatReply } from '@/lib/ai';
+import { searchIndex } from '@/lib/search/engine';
+import { semanticSearch } from '@/lib/search/semantic';
 import { z } from 'zod';
 
 // Validation schema for chat messages
@@ -21,6 +23,7 @@ interface Message {
 }
 
 interface PageData {
+  id: string;
   page_number: number;
   translation?: { data: string };
 }
@@ -74,17 +77,30 @@ function extractKeywords(query: string): string[] {
     .filter(word => word.length > 2 && !stopWords.has(word));
 }
 
-// Search pages within a book for relevant content
+// Find the pages most relevant to the question, best first. Uses the same
+// passage retrieval as /api/search/semantic, falling back to the full-text
+// index for books that have not been embedded yet, then to the opening pages.
 async function searchBookPages(
   bookId: string,
   query: string,
   limit: number = 15
 ): Promise<PageData[]> {
   const db = await getDb();
+
+  const { hits } = await semanticSearch(query, { bookIds: [bookId], limit, db });
+  let pageIds = hits.map(hit => hit.page_id);
+
   const keywords = extractKeywords(query);
+  if (pageIds.length === 0 && keywords.length > 0) {
+    const lexical = await searchIndex(
+      { type: 'or', children: keywords.map(value => ({ type: 'term' as const, value, prefix: false })) },
+      { types: ['page'], bookIds: [bookId], fields: ['t'], limit, db }
+    );
+    pageIds = lexical.hits.map(hit => hit.page_id as string);
+  }
 
-  if (keywords.length === 0) {
-    // No meaningful keywords - return first few pages
+  if (pageIds.length === 0) {
+    // No meaningful matches - return first few pages
     return await db.collection('pages')
       .find({ book_id: bookId, 'translation.data': { $exists: true } })
       .sort({ page_number: 1 })
@@ -92,32 +108,12 @@ async function searchBookPages(
       .toArray() as unknown as PageData[];
   }
 
-  // Build regex patterns for each keyword
-  const regexPatterns = keywords.map(k => new RegExp(k, 'i'));
-
-  // Search for pages containing any of the keywords
+  // In the order the search ranked them
   const pages = await db.collection('pages')
-    .find({
-      book_id: bookId,
-      'translation.data': { $exists: true },
-      $or: regexPatterns.map(r => ({ 'translation.data': r }))
-    })
+    .find({ id: { $in: pageIds }, 'translation.data': { $exists: true } })
     .toArray() as unknown as PageData[];
-
-  // Score pages by keyword matches
-  const scoredPages = pages.map(page => {
-    const text = (page.translation?.data || '').toLowerCase();
-    let score = 0;
-    for (const keyword of keywords) {
-      const matches = (text.match(new RegExp(keyword, 'gi')) || []).length;
-      score += matches;
-    }
-    return { page, score };
-  });
-
-  // Sort by score and return top matches
-  scoredPages.sort((a, b) => b.score - a.score);
-  return scoredPages.slice(0, limit).map(sp => sp.page);
+  const rank = (page: PageData) => pageIds.indexOf(page.id);
+  return pages.sort((a, b) => rank(a) - rank(b));
 }
 
 // Build context from book data with RAG-based page retrieval
@@ -155,10 +151,7 @@ Total Pages: ${totalPages}
 
   if (relevantPages.length > 0) {
     context += `\n## Relevant Pages (based on your question)\n`;
-    context += `The following pages from the book are most relevant to your question:\n`;
-
-    // Sort by page number for readability
-    relevantPages.sort((a, b) => a.page_number - b.page_number);
+    context += `The following pages from the book are most relevant to your question, most relevant first:\n`;
 
     for (const page of relevantPages) {
       const cleaned = cleanText(page.translation?.data || '');
@@ -201,9 +194,6 @@ export async function POST(
     // Build book context with RAG-based page retrieval
     const { context: bookContext, pageCount } = await buildBookContext(id, userQuery);
 
-    // Create the model
-    const model = getGeminiClient().getGenerativeModel({ model: 'gemini-3-flash-preview' });
-
     // System prompt
     const systemPrompt = `You are a knowledgeable guide helping readers understand a historical text. You have access to the book's content below.
 
@@ -227,24 +217,8 @@ When the text says something relevant, quote it like:
 
 This helps readers verify and explore further.`;
 
-    // Build conversation history for Gemini
-    const chatHistory = messages.slice(0, -1).map(msg => ({
-      role: msg.role === 'user' ? 'user' : 'model',
-      parts: [{ text: msg.content }],
-    }));
-
-    // Start chat with history
-    const chat = model.startChat({
-      history: [
-        { role: 'user', parts: [{ text: systemPrompt }] },
-        { role: 'model', parts: [{ text: 'I understand. I\'m ready to help readers explore this text.' }] },
-        ...chatHistory,
-      ],
-    });
-
-    // Send the latest message
-    const result = await chat.sendMessage(userQuery);
-    const response = result.response.text();
+    // Send the conversation, ending with the latest message
+    const { text: response } = await generateChatReply(systemPrompt, messages, 'gemini-3-flash-preview');
 
     return NextResponse.json({
       message: {
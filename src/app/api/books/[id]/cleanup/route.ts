@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { cleanupEmptyTags } from '@/lib/validateTranslation';
+import { requireRole } from '@/lib/auth-guard';
 
 interface CleanupResult {
   pageId: string;
@@ -13,6 +14,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id: bookId } = await params;
     const db = await getDb();
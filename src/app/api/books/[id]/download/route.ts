@@ -5,6 +5,17 @@ import epub from 'epub-gen-memory';
 import archiver from 'archiver';
 import sharp from 'sharp';
 import { images } from '@/lib/api-client';
+import { generateTeiDocument } from '@/lib/tei';
+import { generateAltoDocument, ALTO_CONTENT_TYPE } from '@/lib/alto';
+import { generateHocrDocument, HOCR_CONTENT_TYPE } from '@/lib/hocr';
+import { EDITION_PAGES_COLLECTION, type EditionPage } from '@/lib/page-versions';
+import {
+  DEFAULT_TARGET_LANGUAGE,
+  editionLanguage,
+  resolveTargetLanguage,
+  targetLanguageName,
+  withTranslation,
+} from '@/lib/translation-languages';
 
 // Base URL for source links - update when we have a custom domain
 const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL || 'https://sourcelibrary.org';
@@ -328,7 +339,8 @@ p {
 async function generateEpubDownload(
   book: Book,
   pages: Page[],
-  format: 'epub-translation' | 'epub-ocr' | 'epub-both'
+  format: 'epub-translation' | 'epub-ocr' | 'epub-both',
+  targetLanguage: string = DEFAULT_TARGET_LANGUAGE
 ): Promise<Buffer> {
   const now = new Date().toISOString().split('T')[0];
   const bookTitle = book.display_title || book.title;
@@ -343,7 +355,7 @@ async function generateEpubDownload(
   }
 
   // Determine content type label
-  const contentLabel = format === 'epub-translation' ? 'English Translation' :
+  const contentLabel = format === 'epub-translation' ? `${targetLanguageName(targetLanguage)} Translation` :
                        format === 'epub-ocr' ? `Original Text (${book.language})` :
                        'Complete (Translation + Original)';
 
@@ -420,7 +432,7 @@ async function generateEpubDownload(
     author: book.author,
     publisher: 'Source Library',
     description: description,
-    lang: format === 'epub-ocr' ? book.language : 'en',
+    lang: format === 'epub-ocr' ? book.language : targetLanguage,
     tocTitle: 'Contents',
     css: EPUB_CSS,
     date: now,
@@ -436,7 +448,8 @@ const PAGE_HEIGHT = 900;
 // Generate fixed-layout EPUB with true facing pages (Loeb Classical Library style)
 async function generateLoebEpubDownload(
   book: Book,
-  pages: Page[]
+  pages: Page[],
+  targetLanguage: string = DEFAULT_TARGET_LANGUAGE
 ): Promise<Buffer> {
   const now = new Date().toISOString().split('T')[0];
   const bookTitle = book.display_title || book.title;
@@ -510,7 +523,7 @@ async function generateLoebEpubDownload(
     <dc:title>${escapeXml(bookTitle)} (Parallel Text)</dc:title>
     <dc:creator>${escapeXml(book.author)}</dc:creator>
     <dc:publisher>Source Library</dc:publisher>
-    <dc:language>en</dc:language>
+    <dc:language>${targetLanguage}</dc:language>
     <dc:date>${now}</dc:date>
     <dc:rights>CC BY 4.0</dc:rights>
     <meta property="dcterms:modified">${new Date().toISOString().replace(/\.\d{3}Z$/, 'Z')}</meta>
@@ -690,7 +703,7 @@ p:first-of-type {
         ${book.published ? `<p style="text-indent:0;text-align:center;">${escapeXml(book.published)}</p>` : ''}
         <div class="loeb-intro">
           <h2>Parallel Text Edition</h2>
-          <p style="text-indent:0;text-align:center;">Original ${escapeXml(book.language)} with English translation</p>
+          <p style="text-indent:0;text-align:center;">Original ${escapeXml(book.language)} with ${targetLanguageName(targetLanguage)} translation</p>
         </div>
         <div class="colophon">
           <p style="text-indent:0;text-align:center;">Source Library · ${now}</p>
@@ -723,9 +736,9 @@ p:first-of-type {
 
       // Translation (right page)
       const transPage = createFixedPage(`
-        <div class="page-header">English · ${page.page_number}</div>
+        <div class="page-header">${targetLanguageName(targetLanguage)} · ${page.page_number}</div>
         <div class="content ${transSizeClass}">${translationHtml}</div>
-      `, `Page ${page.page_number} - English`, 'page-right');
+      `, `Page ${page.page_number} - ${targetLanguageName(targetLanguage)}`, 'page-right');
       archive.append(transPage, { name: `OEBPS/page-${page.page_number}-trans.xhtml` });
     }
 
@@ -816,7 +829,8 @@ async function fetchAndCompressImage(url: string): Promise<Buffer | null> {
 // Generate facsimile EPUB: original page image on left, translation on right
 async function generateFacsimileEpubDownload(
   book: Book,
-  pages: Page[]
+  pages: Page[],
+  targetLanguage: string = DEFAULT_TARGET_LANGUAGE
 ): Promise<Buffer> {
   const now = new Date().toISOString().split('T')[0];
   const bookTitle = book.display_title || book.title;
@@ -888,7 +902,7 @@ async function generateFacsimileEpubDownload(
     <dc:title>${escapeXml(bookTitle)} (Facsimile Edition)</dc:title>
     <dc:creator>${escapeXml(book.author)}</dc:creator>
     <dc:publisher>Source Library</dc:publisher>
-    <dc:language>en</dc:language>
+    <dc:language>${targetLanguage}</dc:language>
     <dc:date>${now}</dc:date>
     <dc:rights>CC BY 4.0</dc:rights>
     <meta property="dcterms:modified">${new Date().toISOString().replace(/\.\d{3}Z$/, 'Z')}</meta>
@@ -986,7 +1000,7 @@ p:first-of-type { text-indent: 0; }
         ${book.published ? `<p style="text-indent:0;text-align:center;">${escapeXml(book.published)}</p>` : ''}
         <div class="loeb-intro">
           <h2>Facsimile Edition</h2>
-          <p style="text-indent:0;text-align:center;">Original page images with English translation</p>
+          <p style="text-indent:0;text-align:center;">Original page images with ${targetLanguageName(targetLanguage)} translation</p>
         </div>
         <div class="colophon">
           <p style="text-indent:0;text-align:center;">Source Library · ${now}</p>
@@ -1057,9 +1071,9 @@ p:first-of-type { text-indent: 0; }
 
       // Translation page (right)
       const transPage = createFixedPage(`
-        <div class="page-header">English · ${page.page_number}</div>
+        <div class="page-header">${targetLanguageName(targetLanguage)} · ${page.page_number}</div>
         <div class="content ${transSizeClass}">${translationHtml}</div>
-      `, `Page ${page.page_number} - English`, 'page-right');
+      `, `Page ${page.page_number} - ${targetLanguageName(targetLanguage)}`, 'page-right');
       archive.append(transPage, { name: `OEBPS/page-${page.page_number}-trans.xhtml` });
     }
 
@@ -1374,7 +1388,8 @@ async function generateScholarlyEpubDownload(
   pages: Page[],
   edition?: TranslationEdition | null,
   bookIndex?: BookIndex | null,
-  bookSummary?: BookSummaryData | null
+  bookSummary?: BookSummaryData | null,
+  targetLanguage: string = DEFAULT_TARGET_LANGUAGE
 ): Promise<Buffer> {
   const now = new Date().toISOString().split('T')[0];
   const bookTitle = book.display_title || book.title;
@@ -1502,7 +1517,7 @@ async function generateScholarlyEpubDownload(
     <dc:creator>${escapeXml(book.author)}</dc:creator>
     ${contributors.map(c => `<dc:contributor>${escapeXml(c.name)} (${c.role})</dc:contributor>`).join('\n    ')}
     <dc:publisher>Source Library</dc:publisher>
-    <dc:language>en</dc:language>
+    <dc:language>${targetLanguage}</dc:language>
     <dc:date>${edition?.published_at ? new Date(edition.published_at).toISOString().split('T')[0] : now}</dc:date>
     <dc:rights>${edition?.license || 'CC-BY-4.0'}</dc:rights>
     ${edition?.doi ? `<dc:source>https://doi.org/${edition.doi}</dc:source>` : ''}
@@ -1550,7 +1565,7 @@ async function generateScholarlyEpubDownload(
 <body>
   <div class="title-page">
     <h1>${escapeXml(bookTitle)}</h1>
-    <p class="subtitle">English Translation</p>
+    <p class="subtitle">${targetLanguageName(targetLanguage)} Translation</p>
     <p class="author">by ${escapeXml(book.author)}</p>
     ${book.published ? `<p>(${escapeXml(book.published)})</p>` : ''}
     ${edition?.doi ? `<p class="doi-badge">DOI: ${edition.doi}</p>` : ''}
@@ -1573,7 +1588,7 @@ async function generateScholarlyEpubDownload(
     <h2>Copyright and License</h2>
     <p><strong>${escapeXml(bookTitle)}</strong></p>
     <p>Original work by ${escapeXml(book.author)}${book.published ? ` (${book.published})` : ''}</p>
-    <p>English translation prepared by Source Library</p>
+    <p>${targetLanguageName(targetLanguage)} translation prepared by Source Library</p>
     <p>&nbsp;</p>
     <p><strong>License:</strong> ${edition?.license || 'CC-BY-4.0'} (Creative Commons Attribution 4.0 International)</p>
     <p>You are free to share and adapt this material for any purpose, provided you give appropriate credit.</p>
@@ -1631,8 +1646,8 @@ async function generateScholarlyEpubDownload(
 <body>
   <div class="page-content">
     <h1>${escapeXml(bookTitle)}</h1>
-    <h2>English Translation</h2>
-    <p style="text-align:center;font-style:italic;">The following pages present the original manuscript images alongside English translations.</p>
+    <h2>${targetLanguageName(targetLanguage)} Translation</h2>
+    <p style="text-align:center;font-style:italic;">The following pages present the original manuscript images alongside ${targetLanguageName(targetLanguage)} translations.</p>
   </div>
 </body>
 </html>`;
@@ -1788,8 +1803,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     const { searchParams } = new URL(request.url);
     const format = searchParams.get('format') || 'translation';
 
-    // Valid formats: TXT, EPUB, and ZIP
-    const validFormats = ['translation', 'ocr', 'both', 'epub-translation', 'epub-ocr', 'epub-both', 'epub-parallel', 'epub-facsimile', 'epub-images', 'epub-scholarly', 'images-zip'];
+    // Valid formats: TXT, EPUB, ZIP, TEI XML and word-level OCR (ALTO, hOCR)
+    const validFormats = ['translation', 'ocr', 'both', 'epub-translation', 'epub-ocr', 'epub-both', 'epub-parallel', 'epub-facsimile', 'epub-images', 'epub-scholarly', 'images-zip', 'tei', 'alto', 'hocr'];
     if (!validFormats.includes(format)) {
       return NextResponse.json(
         { error: 'Invalid format' },
@@ -1806,6 +1821,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     const isImagesOnly = format === 'epub-images';
     const isScholarly = format === 'epub-scholarly';
     const isImagesZip = format === 'images-zip';
+    const isTei = format === 'tei';
+    const isWordLevel = format === 'alto' || format === 'hocr';
 
     const db = await getDb();
 
@@ -1815,18 +1832,30 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       return NextResponse.json({ error: 'Book not found' }, { status: 404 });
     }
 
-    // Get all pages sorted by page number
-    const pages = await db.collection('pages')
+    // Which translation to export: as requested, else the edition's language
+    const requestedEdition = editionId
+      ? ((book as unknown as Book).editions || []).find(e => e.id === editionId)
+      : undefined;
+    const targetLanguageParam = searchParams.get('target_language') || (requestedEdition && editionLanguage(requestedEdition));
+    const targetLanguage = resolveTargetLanguage(targetLanguageParam);
+    if (!targetLanguage) {
+      return NextResponse.json({ error: `Unsupported target language: ${targetLanguageParam}` }, { status: 400 });
+    }
+
+    // Get all pages sorted by page number, with that translation in `translation`
+    const pages = (await db.collection('pages')
       .find({ book_id: id })
       .sort({ page_number: 1 })
-      .toArray();
+      .toArray() as unknown as Page[])
+      .map(page => withTranslation(page, targetLanguage));
 
-    // Create safe filename base
+    // Create safe filename base; translations other than English are marked with their code
     const safeTitle = (book.display_title || book.title)
       .toLowerCase()
       .replace(/[^a-z0-9]+/g, '-')
       .replace(/^-|-$/g, '')
-      .substring(0, 50);
+      .substring(0, 50)
+      + (targetLanguage === DEFAULT_TARGET_LANGUAGE ? '' : `-${targetLanguage}`);
 
     // Handle images ZIP download
     if (isImagesZip) {
@@ -1843,6 +1872,63 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       });
     }
 
+    // Handle TEI P5 XML download (whole book, or a published edition's frozen pages)
+    if (isTei) {
+      let edition: TranslationEdition | null = null;
+      if (editionId) {
+        const editions = (book as unknown as Book).editions || [];
+        edition = editions.find((e: TranslationEdition) => e.id === editionId) || null;
+        if (!edition) {
+          return NextResponse.json({ error: 'Edition not found' }, { status: 404 });
+        }
+      }
+      const frozenPages = edition
+        ? await db.collection<EditionPage>(EDITION_PAGES_COLLECTION).find({ edition_id: edition.id }).toArray()
+        : [];
+
+      const xml = generateTeiDocument(
+        book as unknown as Book,
+        pages as unknown as Page[],
+        edition,
+        targetLanguage,
+        frozenPages
+      );
+      const filename = edition
+        ? `${safeTitle}-v${edition.version}-tei.xml`
+        : `${safeTitle}-tei.xml`;
+
+      return new Response(xml, {
+        headers: {
+          'Content-Type': 'application/tei+xml; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+          'Cache-Control': 'no-cache',
+        },
+      });
+    }
+
+    // Handle ALTO / hOCR download (pages with OCR line and word boxes only)
+    if (isWordLevel) {
+      if (!pages.some(p => p.ocr?.layout)) {
+        return NextResponse.json(
+          { error: 'No pages have word-level OCR. Run OCR with the layout option first.' },
+          { status: 404 }
+        );
+      }
+
+      const isAlto = format === 'alto';
+      const content = isAlto
+        ? generateAltoDocument(book as unknown as Book, pages as unknown as Page[])
+        : generateHocrDocument(book as unknown as Book, pages as unknown as Page[]);
+
+      return new Response(content, {
+        headers: {
+          'Content-Type': isAlto ? ALTO_CONTENT_TYPE : HOCR_CONTENT_TYPE,
+          'Content-Disposition': `attachment; filename="${safeTitle}-${isAlto ? 'alto.xml' : 'hocr.html'}"`,
+          'Cache-Control': 'no-cache',
+        },
+      });
+    }
+
     if (isEpub) {
       let epubBuffer: Buffer;
       let filename: string;
@@ -1858,14 +1944,16 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         // Generate facsimile EPUB (page images + translation)
         epubBuffer = await generateFacsimileEpubDownload(
           book as unknown as Book,
-          pages as unknown as Page[]
+          pages as unknown as Page[],
+          targetLanguage
         );
         filename = `${safeTitle}-facsimile.epub`;
       } else if (isLoeb) {
         // Generate Loeb-style parallel text EPUB
         epubBuffer = await generateLoebEpubDownload(
           book as unknown as Book,
-          pages as unknown as Page[]
+          pages as unknown as Page[],
+          targetLanguage
         );
         filename = `${safeTitle}-parallel.epub`;
       } else if (isScholarly) {
@@ -1879,6 +1967,11 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         if (editionId) {
           const editions = (book as unknown as Book).editions || [];
           edition = editions.find((e: TranslationEdition) => e.id === editionId) || null;
+        } else if (targetLanguage !== DEFAULT_TARGET_LANGUAGE) {
+          // The latest published edition in that language
+          const editions = ((book as unknown as Book).editions || [])
+            .filter(e => e.status === 'published' && editionLanguage(e) === targetLanguage);
+          edition = editions[editions.length - 1] || null;
         } else if ((book as unknown as Book).current_edition_id) {
           const editions = (book as unknown as Book).editions || [];
           edition = editions.find((e: TranslationEdition) => e.id === (book as unknown as Book).current_edition_id) || null;
@@ -1933,7 +2026,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
           pages as unknown as Page[],
           edition,
           bookIndex,
-          bookSummary
+          bookSummary,
+          targetLanguage
         );
         filename = `${safeTitle}-scholarly.epub`;
       } else {
@@ -1941,7 +2035,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         epubBuffer = await generateEpubDownload(
           book as unknown as Book,
           pages as unknown as Page[],
-          format as 'epub-translation' | 'epub-ocr' | 'epub-both'
+          format as 'epub-translation' | 'epub-ocr' | 'epub-both',
+          targetLanguage
         );
         const formatSuffix = format.replace('epub-', '');
         filename = `${safeTitle}-${formatSuffix}.epub`;
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { TranslationEdition } from '@/lib/types';
+import { requireRole } from '@/lib/auth-guard';
 
 interface RouteContext {
   params: Promise<{ id: string; editionId: string }>;
@@ -34,6 +35,9 @@ export async function GET(request: NextRequest, context: RouteContext) {
 
 // PATCH /api/books/[id]/editions/[editionId] - Update an edition (e.g., front matter)
 export async function PATCH(request: NextRequest, context: RouteContext) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const { id: bookId, editionId } = await context.params;
     const body = await request.json();
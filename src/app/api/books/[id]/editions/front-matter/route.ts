@@ -1,16 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { Book, Page, TranslationEdition } from '@/lib/types';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { requireRole } from '@/lib/auth-guard';
+import { generateText } from '@/lib/ai';
 
 interface RouteContext {
   params: Promise<{ id: string }>;
 }
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+const FRONT_MATTER_MODEL = 'gemini-3-flash-preview';
 
 // POST /api/books/[id]/editions/front-matter - Generate front matter for an edition
 export async function POST(request: NextRequest, context: RouteContext) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const { id: bookId } = await context.params;
     const body = await request.json();
@@ -51,18 +55,16 @@ export async function POST(request: NextRequest, context: RouteContext) {
     const bookContext = buildBookContext(book, pages);
 
     // Generate introduction and methodology in parallel
-    const model = genAI.getGenerativeModel({ model: 'gemini-3-flash-preview' });
-
     const [introResult, methodResult] = await Promise.all([
-      generateIntroduction(model, book, bookContext),
-      generateMethodology(model, book, pages),
+      generateIntroduction(FRONT_MATTER_MODEL, book, bookContext),
+      generateMethodology(FRONT_MATTER_MODEL, book, pages),
     ]);
 
     const frontMatter = {
       introduction: introResult,
       methodology: methodResult,
       generated_at: new Date(),
-      generated_by: 'gemini-3-flash-preview',
+      generated_by: FRONT_MATTER_MODEL,
     };
 
     // Save to edition if one exists
@@ -139,7 +141,7 @@ function buildBookContext(book: Book, pages: Page[]): string {
 }
 
 async function generateIntroduction(
-  model: ReturnType<typeof genAI.getGenerativeModel>,
+  model: string,
   book: Book,
   context: string
 ): Promise<string> {
@@ -175,12 +177,12 @@ Write in clear, scholarly prose accessible to educated general readers. Use mark
 
 Do NOT include any preamble like "Here is an introduction..." - start directly with the first heading.`;
 
-  const result = await model.generateContent(prompt);
-  return result.response.text();
+  const result = await generateText(prompt, model);
+  return result.text;
 }
 
 async function generateMethodology(
-  model: ReturnType<typeof genAI.getGenerativeModel>,
+  model: string,
   book: Book,
   pages: Page[]
 ): Promise<string> {
@@ -243,6 +245,6 @@ Write in clear, professional prose. Use ## markdown headings. The conventions se
 
 Do NOT include any preamble - start directly with the first heading.`;
 
-  const result = await model.generateContent(prompt);
-  return result.response.text();
+  const result = await generateText(prompt, model);
+  return result.text;
 }
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { TranslationEdition, Book, Page } from '@/lib/types';
 import { mintDoi, isZenodoConfigured } from '@/lib/zenodo';
+import { requireRole } from '@/lib/auth-guard';
+import { emitWebhookEvent } from '@/lib/webhooks.server';
 
 interface RouteContext {
   params: Promise<{ id: string }>;
@@ -9,6 +11,9 @@ interface RouteContext {
 
 // POST /api/books/[id]/editions/mint-doi - Mint a DOI for an edition via Zenodo
 export async function POST(request: NextRequest, context: RouteContext) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     // Check Zenodo configuration
     if (!isZenodoConfigured()) {
@@ -107,6 +112,16 @@ export async function POST(request: NextRequest, context: RouteContext) {
       }
     );
 
+    await emitWebhookEvent('edition.doi_minted', {
+      book_id: bookId,
+      book_title: book.display_title || book.title,
+      edition_id: edition.id,
+      version: edition.version,
+      doi: result.doi,
+      doi_url: result.doi_url,
+      zenodo_url: result.zenodo_url,
+    });
+
     return NextResponse.json({
       success: true,
       doi: result.doi,
@@ -2,6 +2,18 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { TranslationEdition, Contributor, Page, Book } from '@/lib/types';
 import crypto from 'crypto';
+import { requireRole } from '@/lib/auth-guard';
+import { freezeEditionPages } from '@/lib/page-versions';
+import { humanContributors } from '@/lib/revisions';
+import { approvedPercent, getFieldReview, reviewPolicy } from '@/lib/review';
+import { emitWebhookEvent } from '@/lib/webhooks.server';
+import {
+  DEFAULT_TARGET_LANGUAGE,
+  editionLanguage,
+  resolveTargetLanguage,
+  targetLanguageName,
+  withTranslation,
+} from '@/lib/translation-languages';
 
 // SPDX license options
 export const LICENSES = [
@@ -41,6 +53,9 @@ export async function GET(request: NextRequest, context: RouteContext) {
 
 // POST /api/books/[id]/editions - Create a new edition
 export async function POST(request: NextRequest, context: RouteContext) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const { id: bookId } = await context.params;
     const body = await request.json();
@@ -50,6 +65,8 @@ export async function POST(request: NextRequest, context: RouteContext) {
       contributors = [],
       changelog,
       front_matter,
+      require_approved_percent,
+      target_language,
     } = body as {
       version_label?: string;
       license: string;
@@ -62,12 +79,20 @@ export async function POST(request: NextRequest, context: RouteContext) {
         generated_at?: Date;
         generated_by?: string;
       };
+      require_approved_percent?: number;  // Can raise, never lower, the book's review policy
+      target_language?: string;           // Which translation to publish, default English
     };
 
     if (!license) {
       return NextResponse.json({ error: 'License is required' }, { status: 400 });
     }
 
+    const targetLanguage = resolveTargetLanguage(target_language);
+    if (!targetLanguage) {
+      return NextResponse.json({ error: `Unsupported target language: ${target_language}` }, { status: 400 });
+    }
+    const isEnglish = targetLanguage === DEFAULT_TARGET_LANGUAGE;
+
     const db = await getDb();
 
     // Get book
@@ -76,13 +101,13 @@ export async function POST(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: 'Book not found' }, { status: 404 });
     }
 
-    // Get all pages with translations
+    // Get all pages with translations, the edition's language in `translation`
     const pages = await db.collection('pages')
       .find({ book_id: bookId })
       .sort({ page_number: 1 })
       .toArray() as unknown as Page[];
 
-    const translatedPages = pages.filter(p => p.translation?.data);
+    const translatedPages = pages.map(p => withTranslation(p, targetLanguage)).filter(p => p.translation?.data);
     if (translatedPages.length === 0) {
       return NextResponse.json(
         { error: 'No translated pages found. Complete some translations first.' },
@@ -90,21 +115,36 @@ export async function POST(request: NextRequest, context: RouteContext) {
       );
     }
 
+    // Proofreading gate: enough pages translated into this language must be approved
+    const requiredPercent = Math.max(reviewPolicy(book).publish_min_approved_percent, require_approved_percent ?? 0);
+    const approved = approvedPercent(translatedPages, targetLanguage);
+    if (approved < requiredPercent) {
+      return NextResponse.json(
+        {
+          error: `${approved}% of translated pages are approved; ${requiredPercent}% are required to publish`,
+          approved_percent: approved,
+          required_percent: requiredPercent,
+        },
+        { status: 409 }
+      );
+    }
+
     // Calculate content hash (SHA-256 of all translation text)
     const translationText = translatedPages
       .map(p => `--- Page ${p.page_number} ---\n${p.translation ? p.translation.data : ''}`)
       .join('\n\n');
     const contentHash = crypto.createHash('sha256').update(translationText).digest('hex');
 
-    // Determine version number
+    // Determine version number; each language has its own sequence
     const existingEditions = (book.editions || []) as TranslationEdition[];
+    const languageEditions = existingEditions.filter(e => editionLanguage(e) === targetLanguage);
     let version: string;
 
-    if (existingEditions.length === 0) {
+    if (languageEditions.length === 0) {
       version = '1.0.0';
     } else {
       // Find the latest version and increment
-      const latestVersion = existingEditions
+      const latestVersion = languageEditions
         .map(e => e.version)
         .sort((a, b) => {
           const [aMajor, aMinor, aPatch] = a.split('.').map(Number);
@@ -142,8 +182,26 @@ export async function POST(request: NextRequest, context: RouteContext) {
       }
     });
 
+    // Add the people who edited or reviewed the translation, from revision history
+    const editors = await humanContributors(db, translatedPages.map(p => p.id), targetLanguage);
+    editors.forEach(editor => {
+      if (!allContributors.some(c => c.type === 'human' && c.name === editor.name)) {
+        allContributors.push(editor);
+      }
+    });
+
+    // And the reviewers who signed off on it
+    const approvers = new Set(translatedPages.flatMap(p =>
+      getFieldReview(p, 'translation', targetLanguage)?.approvals?.map(a => a.name) || []
+    ));
+    [...approvers].sort().forEach(name => {
+      if (!allContributors.some(c => c.type === 'human' && c.name === name)) {
+        allContributors.push({ name, role: 'reviewer', type: 'human' });
+      }
+    });
+
     // Get previous edition info
-    const previousEdition = existingEditions.find(e => e.status === 'published');
+    const previousEdition = languageEditions.find(e => e.status === 'published');
 
     // Create the edition
     const edition: TranslationEdition = {
@@ -159,12 +217,12 @@ export async function POST(request: NextRequest, context: RouteContext) {
       content_hash: contentHash,
       contributors: allContributors,
       citation: {
-        title: `English Translation of ${book.display_title || book.title}`,
+        title: `${targetLanguageName(targetLanguage)} Translation of ${book.display_title || book.title}`,
         original_title: book.title,
         original_author: book.author,
         original_language: book.language,
         original_published: book.published,
-        target_language: 'en',
+        target_language: targetLanguage,
       },
       license,
       previous_version_id: previousEdition?.id,
@@ -173,24 +231,41 @@ export async function POST(request: NextRequest, context: RouteContext) {
       front_matter,
     };
 
-    // Mark previous published edition as superseded
+    // Mark previous published edition in this language as superseded
     const updatedEditions = existingEditions.map(e =>
-      e.status === 'published' ? { ...e, status: 'superseded' as const } : e
+      e.status === 'published' && editionLanguage(e) === targetLanguage ? { ...e, status: 'superseded' as const } : e
     );
     updatedEditions.push(edition);
 
-    // Update the book
+    // Update the book; its current edition is the English one
     await db.collection('books').updateOne(
       { id: bookId },
       {
         $set: {
           editions: updatedEditions,
-          current_edition_id: edition.id,
+          ...(isEnglish && { current_edition_id: edition.id }),
           updated_at: new Date(),
         }
       }
     );
 
+    // Keep the published text so later revisions can be diffed against it
+    await freezeEditionPages(db, edition, translatedPages);
+
+    await emitWebhookEvent('edition.published', {
+      book_id: bookId,
+      book_title: book.display_title || book.title,
+      edition_id: edition.id,
+      version: edition.version,
+      version_label: edition.version_label ?? null,
+      target_language: targetLanguage,
+      page_count: edition.page_count,
+      license: edition.license,
+      doi: null,
+      previous_version_id: edition.previous_version_id ?? null,
+      published_at: edition.published_at,
+    });
+
     return NextResponse.json({
       success: true,
       edition,
@@ -207,6 +282,9 @@ export async function POST(request: NextRequest, context: RouteContext) {
 
 // PATCH /api/books/[id]/editions - Update edition (add DOI after minting)
 export async function PATCH(request: NextRequest, context: RouteContext) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const { id: bookId } = await context.params;
     const body = await request.json();
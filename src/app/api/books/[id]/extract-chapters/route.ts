@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { Chapter } from '@/lib/types';
+import { requireRole } from '@/lib/auth-guard';
 
 // Extract markdown headings from OCR text
 function extractHeadingsFromOcr(ocrText: string): Array<{ title: string; level: number }> {
@@ -55,6 +56,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const db = await getDb();
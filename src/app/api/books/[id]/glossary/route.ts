@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { getBookGlossary, getCollectionIdsForBook } from '@/lib/glossary/store';
+
+/**
+ * GET /api/books/[id]/glossary[?target_language=English]
+ *
+ * The glossary this book's translations are held to: its own entries plus
+ * those of the curated collections it belongs to.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const targetLanguage = new URL(request.url).searchParams.get('target_language') || 'English';
+
+    const db = await getDb();
+    const book = await db.collection('books').findOne({ id }, { projection: { id: 1 } });
+    if (!book) {
+      return NextResponse.json({ error: 'Book not found' }, { status: 404 });
+    }
+
+    const [entries, collections] = await Promise.all([
+      getBookGlossary(id, targetLanguage, db),
+      getCollectionIdsForBook(id),
+    ]);
+
+    return NextResponse.json({ bookId: id, targetLanguage, collections, entries });
+  } catch (error) {
+    console.error('Error loading book glossary:', error);
+    return NextResponse.json({ error: 'Failed to load glossary' }, { status: 500 });
+  }
+}
@@ -1,8 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+import { generateText } from '@/lib/ai';
+import { requireRole } from '@/lib/auth-guard';
 
 const IDENTIFY_PROMPT = `Analyze these pages from a historical book and extract bibliographic information.
 
@@ -32,6 +31,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
   try {
     const { id: bookId } = await params;
     const db = await getDb();
@@ -79,11 +81,8 @@ export async function POST(
     const context = contextParts.join('\n\n');
 
     // Ask AI to identify
-    const model = genAI.getGenerativeModel({ model: 'gemini-3-flash-preview' });
     const prompt = `${IDENTIFY_PROMPT}\n\n**Pages:**\n\n${context}`;
-
-    const result = await model.generateContent(prompt);
-    const responseText = result.response.text();
+    const { text: responseText } = await generateText(prompt, 'gemini-3-flash-preview');
 
     // Parse JSON response
     let identified;
@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { logGeminiCall } from '@/lib/gemini-logger';
+import { refreshSearchIndex } from '@/lib/search/indexer';
+import { requireRole } from '@/lib/auth-guard';
+import { generateText } from '@/lib/ai';
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+const INDEX_MODEL = 'gemini-3-flash-preview';
 
 // Research a book/author using Wikipedia API and web search
 async function researchBook(title: string, author: string): Promise<string> {
@@ -76,14 +78,6 @@ async function processBatch(
   bookAuthor: string,
   bookLanguage?: string
 ): Promise<BatchExtraction> {
-  const model = genAI.getGenerativeModel({
-    model: 'gemini-3-flash-preview',
-    generationConfig: {
-      temperature: 0.2, // Low temperature for consistent extraction
-      maxOutputTokens: 2000,
-    }
-  });
-
   const pageRange = {
     start: pages[0].page_number,
     end: pages[pages.length - 1].page_number
@@ -145,18 +139,19 @@ CRITICAL for quotes:
 - 3-5 quotes per batch`;
 
   try {
-    const result = await model.generateContent(prompt);
-    const responseText = result.response.text();
+    const { text: responseText, usage } = await generateText(prompt, INDEX_MODEL, {
+      temperature: 0.2, // Low temperature for consistent extraction
+      maxOutputTokens: 2000,
+    });
 
     // Log the Gemini call
-    const usageMetadata = result.response.usageMetadata;
     logGeminiCall({
       type: 'index',
       mode: 'realtime',
-      model: 'gemini-3-flash-preview',
+      model: INDEX_MODEL,
       page_count: pages.length,
-      input_tokens: usageMetadata?.promptTokenCount || 0,
-      output_tokens: usageMetadata?.candidatesTokenCount || 0,
+      input_tokens: usage.inputTokens,
+      output_tokens: usage.outputTokens,
       status: 'success',
       endpoint: '/api/books/[id]/index (processBatch)',
     }).catch(console.error); // Non-blocking
@@ -581,8 +576,6 @@ async function generateBookSummary(
   researchContext?: string,
   chapters?: ChapterInfo[]
 ): Promise<GeneratedSummary> {
-  const model = genAI.getGenerativeModel({ model: 'gemini-3-flash-preview' });
-
   // If no batch extractions, fall back to research-only summary
   if (batchExtractions.length === 0) {
     return {
@@ -688,18 +681,16 @@ Output as JSON:
 
 IMPORTANT: Use the actual quotes provided above. Don't invent new ones.`;
 
-  const result = await model.generateContent(prompt);
-  const responseText = result.response.text();
+  const { text: responseText, usage } = await generateText(prompt, INDEX_MODEL);
 
   // Log the Gemini call
-  const usageMetadata = result.response.usageMetadata;
   logGeminiCall({
     type: 'summarize',
     mode: 'realtime',
-    model: 'gemini-3-flash-preview',
+    model: INDEX_MODEL,
     page_count: batchExtractions.length, // Number of batch sections processed
-    input_tokens: usageMetadata?.promptTokenCount || 0,
-    output_tokens: usageMetadata?.candidatesTokenCount || 0,
+    input_tokens: usage.inputTokens,
+    output_tokens: usage.outputTokens,
     status: 'success',
     endpoint: '/api/books/[id]/index (generateBookSummary)',
   }).catch(console.error); // Non-blocking
@@ -827,6 +818,14 @@ export async function GET(
       return NextResponse.json({ error: 'Book not found' }, { status: 404 });
     }
 
+    // ?cached=true returns only a stored index, never generating one
+    if (request.nextUrl.searchParams.get('cached') === 'true') {
+      if (!book.index) {
+        return NextResponse.json({ error: 'Index not generated yet' }, { status: 404 });
+      }
+      return NextResponse.json(book.index);
+    }
+
     // Check if we have a cached index
     if (book.index && book.index.generatedAt) {
       const indexAge = Date.now() - new Date(book.index.generatedAt).getTime();
@@ -943,7 +942,7 @@ export async function GET(
         data: bookSummary.brief,
         generated_at: new Date(),
         page_coverage: Math.round((pageSummaries.length / pages.length) * 100),
-        model: 'gemini-3-flash-preview'
+        model: INDEX_MODEL
       };
     }
 
@@ -951,6 +950,7 @@ export async function GET(
       { id },
       { $set: updateData }
     );
+    await refreshSearchIndex({ bookId: id });
 
     // Sync entities to cross-book entity collection (non-blocking)
     syncBookEntities(db, id, bookTitle, bookAuthor, conceptIndex).catch(err => {
@@ -972,6 +972,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const db = await getDb();
@@ -981,6 +984,7 @@ export async function POST(
       { id },
       { $unset: { index: '', summary: '' } }
     );
+    await refreshSearchIndex({ bookId: id });
 
     // Return success - client will call GET to generate fresh
     return NextResponse.json({ success: true, message: 'Cache cleared' });
@@ -1,8 +1,9 @@
 import { NextRequest } from 'next/server';
 import { getDb } from '@/lib/mongodb';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { refreshSearchIndex } from '@/lib/search/indexer';
+import { generateText } from '@/lib/ai';
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+const INDEX_MODEL = 'gemini-3-flash-preview';
 
 interface PageData {
   page_number: number;
@@ -38,11 +39,6 @@ async function processBatch(
   bookAuthor: string,
   bookLanguage?: string
 ): Promise<BatchExtraction> {
-  const model = genAI.getGenerativeModel({
-    model: 'gemini-3-flash-preview',
-    generationConfig: { temperature: 0.2, maxOutputTokens: 2000 }
-  });
-
   const pageRange = {
     start: pages[0].page_number,
     end: pages[pages.length - 1].page_number
@@ -82,8 +78,7 @@ Extract as JSON:
 For quotes: Copy EXACT text, find striking/memorable passages, 3-5 per batch.`;
 
   try {
-    const result = await model.generateContent(prompt);
-    const responseText = result.response.text();
+    const { text: responseText } = await generateText(prompt, INDEX_MODEL, { temperature: 0.2, maxOutputTokens: 2000 });
     const jsonMatch = responseText.match(/\{[\s\S]*\}/);
     if (!jsonMatch) return { pageRange, themes: [], quotes: [], people: [], places: [], concepts: [], summary: '' };
 
@@ -132,11 +127,6 @@ async function synthesizeSummary(
   bookAuthor: string,
   bookLanguage?: string
 ): Promise<{ brief: string; abstract: string; detailed: string }> {
-  const model = genAI.getGenerativeModel({
-    model: 'gemini-3-flash-preview',
-    generationConfig: { temperature: 0.3, maxOutputTokens: 3000 }
-  });
-
   const allThemes = [...new Set(batches.flatMap(b => b.themes))];
   const allQuotes = batches.flatMap(b => b.quotes).slice(0, 15);
   const batchSummaries = batches.map(b => `Pages ${b.pageRange.start}-${b.pageRange.end}: ${b.summary}`).join('\n');
@@ -161,8 +151,8 @@ Output JSON:
 
 Use the actual quotes provided. Be engaging but accurate.`;
 
-  const result = await model.generateContent(prompt);
-  const jsonMatch = result.response.text().match(/\{[\s\S]*\}/);
+  const result = await generateText(prompt, INDEX_MODEL, { temperature: 0.3, maxOutputTokens: 3000 });
+  const jsonMatch = result.text.match(/\{[\s\S]*\}/);
   if (!jsonMatch) throw new Error('Failed to parse summary');
 
   const parsed = JSON.parse(jsonMatch[0]);
@@ -277,6 +267,7 @@ export async function GET(
             }
           }
         );
+        await refreshSearchIndex({ bookId: id });
 
         streamProgress(controller, 'complete', {
           message: 'Summary generated!',
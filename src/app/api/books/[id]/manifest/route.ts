@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import type { Book, Page } from '@/lib/types';
+import { buildManifest, resolveOriginalDimensions, IIIF_CONTENT_TYPE } from '@/lib/iiif';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// IIIF viewers (Mirador, Universal Viewer) fetch manifests cross-origin
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS });
+}
+
+// GET /api/books/[id]/manifest - IIIF Presentation 3.0 manifest for a book
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const db = await getDb();
+
+    const book = await db.collection('books').findOne({ id }) as unknown as Book | null;
+    if (!book) {
+      return NextResponse.json({ error: 'Book not found' }, { status: 404, headers: CORS_HEADERS });
+    }
+
+    const pages = await db.collection('pages')
+      .find({ book_id: id })
+      .sort({ page_number: 1 })
+      .toArray() as unknown as Page[];
+
+    const dimensions = await resolveOriginalDimensions(pages);
+    const manifest = buildManifest(book, pages, dimensions);
+
+    return new NextResponse(JSON.stringify(manifest), {
+      headers: {
+        ...CORS_HEADERS,
+        'Content-Type': IIIF_CONTENT_TYPE,
+        'Cache-Control': 'public, max-age=300, stale-while-revalidate=3600',
+      },
+    });
+  } catch (error) {
+    console.error('Error generating IIIF manifest:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate manifest' },
+      { status: 500, headers: CORS_HEADERS }
+    );
+  }
+}
@@ -1,12 +1,89 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
+import { requireRole } from '@/lib/auth-guard';
+import { DEFAULT_TENANT_ID } from '@/lib/tenant';
+
+const MAX_TEXT_PAGES = 50;
+
+// GET /api/books/[id]/pages - List a book's pages, optionally with text
+// ?from=&to= limit the page-number range; ?include=ocr,translation adds text
+// (at most MAX_TEXT_PAGES pages per request when text is included)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: bookId } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const include = new Set((searchParams.get('include') || '').split(',').filter(Boolean));
+    const from = parseInt(searchParams.get('from') || '', 10);
+    const to = parseInt(searchParams.get('to') || '', 10);
+    const db = await getDb();
+
+    const book = await db.collection('books').findOne(
+      { id: bookId },
+      { projection: { id: 1, title: 1, display_title: 1, author: 1, language: 1 } }
+    );
+    if (!book) {
+      return NextResponse.json({ error: 'Book not found' }, { status: 404 });
+    }
+
+    const pageNumber: Record<string, number> = {};
+    if (!isNaN(from)) pageNumber.$gte = from;
+    if (!isNaN(to)) pageNumber.$lte = to;
+    const filter = {
+      book_id: bookId,
+      ...(Object.keys(pageNumber).length > 0 && { page_number: pageNumber }),
+    };
+
+    const withText = include.has('ocr') || include.has('translation');
+    const total = await db.collection('pages').countDocuments({ book_id: bookId });
+    let cursor = db.collection('pages')
+      .find(filter, {
+        projection: {
+          id: 1, page_number: 1, photo: 1, photo_original: 1,
+          'ocr.data': 1, 'translation.data': 1,
+        },
+      })
+      .sort({ page_number: 1 });
+    if (withText) cursor = cursor.limit(MAX_TEXT_PAGES);
+    const pages = await cursor.toArray();
+
+    return NextResponse.json({
+      book: {
+        id: book.id,
+        title: book.display_title || book.title,
+        author: book.author,
+        language: book.language,
+      },
+      total,
+      truncated: withText && pages.length === MAX_TEXT_PAGES,
+      pages: pages.map(p => ({
+        id: p.id,
+        page_number: p.page_number,
+        photo: p.photo,
+        photo_original: p.photo_original,
+        has_ocr: Boolean(p.ocr?.data),
+        has_translation: Boolean(p.translation?.data),
+        ...(include.has('ocr') && { ocr: p.ocr?.data || '' }),
+        ...(include.has('translation') && { translation: p.translation?.data || '' }),
+      })),
+    });
+  } catch (error) {
+    console.error('Error listing pages:', error);
+    return NextResponse.json({ error: 'Failed to list pages' }, { status: 500 });
+  }
+}
 
 // POST /api/books/[id]/pages - Add pages to a book
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id: bookId } = await params;
     const body = await request.json();
@@ -28,7 +105,7 @@ export async function POST(
       return {
         _id: pageId,
         id: pageId.toHexString(),
-        tenant_id: 'default',
+        tenant_id: book.tenant_id || DEFAULT_TENANT_ID,
         book_id: bookId,
         page_number: pageData.page_number,
         photo: pageData.photo,
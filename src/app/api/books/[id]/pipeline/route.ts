@@ -1,9 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { PipelineState, PipelineStep, PipelineStepState, PipelineConfig, DEFAULT_MODEL } from '@/lib/types';
+import { requireRole } from '@/lib/auth-guard';
+import { getTenantConfig } from '@/lib/tenant-config';
+import { emitPipelineStepFinished } from '@/lib/webhooks.server';
+import { DEFAULT_TARGET_LANGUAGE, resolveTargetLanguage } from '@/lib/translation-languages';
 
 // Helper to create initial pipeline state
-function createInitialPipelineState(config: Partial<PipelineConfig>): PipelineState {
+function createInitialPipelineState(
+  config: Partial<PipelineConfig>,
+  defaultLicense: string = 'CC0-1.0'
+): PipelineState {
   const defaultStep: PipelineStepState = { status: 'pending' };
 
   return {
@@ -19,7 +26,8 @@ function createInitialPipelineState(config: Partial<PipelineConfig>): PipelineSt
     config: {
       model: config.model || DEFAULT_MODEL,
       language: config.language || 'Latin',
-      license: config.license || 'CC0-1.0',
+      targetLanguage: resolveTargetLanguage(config.targetLanguage) || DEFAULT_TARGET_LANGUAGE,
+      license: config.license || defaultLicense,
     },
   };
 }
@@ -60,6 +68,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id: bookId } = await params;
     const db = await getDb();
@@ -70,13 +81,21 @@ export async function POST(
       config?: Partial<PipelineConfig>;
     };
 
+    if (config?.targetLanguage && !resolveTargetLanguage(config.targetLanguage)) {
+      return NextResponse.json({ error: `Unsupported target language: ${config.targetLanguage}` }, { status: 400 });
+    }
+
     // Find the book
     const book = await db.collection('books').findOne({ id: bookId });
     if (!book) {
       return NextResponse.json({ error: 'Book not found' }, { status: 404 });
     }
 
-    let pipeline: PipelineState = book.pipeline || createInitialPipelineState(config || {});
+    // Editions default to the book's license, then the library's
+    const tenant = await getTenantConfig();
+    const defaultLicense = book.license || tenant.default_license;
+
+    let pipeline: PipelineState = book.pipeline || createInitialPipelineState(config || {}, defaultLicense);
 
     switch (action) {
       case 'start':
@@ -84,7 +103,7 @@ export async function POST(
           return NextResponse.json({ error: 'Pipeline already running' }, { status: 400 });
         }
         // Initialize or restart pipeline
-        pipeline = createInitialPipelineState(config || pipeline.config);
+        pipeline = createInitialPipelineState(config || pipeline.config, defaultLicense);
         pipeline.status = 'running';
         pipeline.started_at = new Date();
         break;
@@ -104,7 +123,7 @@ export async function POST(
         break;
 
       case 'reset':
-        pipeline = createInitialPipelineState(config || {});
+        pipeline = createInitialPipelineState(config || {}, defaultLicense);
         break;
 
       default:
@@ -134,6 +153,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id: bookId } = await params;
     const db = await getDb();
@@ -195,6 +217,11 @@ export async function PATCH(
       return NextResponse.json({ error: 'Book not found' }, { status: 404 });
     }
 
+    // Steps run as jobs are finished here, once the browser sees the job end
+    if (step && (status === 'completed' || status === 'failed' || status === 'skipped')) {
+      await emitPipelineStepFinished(db, bookId, step);
+    }
+
     // Fetch and return updated pipeline
     const book = await db.collection('books').findOne(
       { id: bookId },
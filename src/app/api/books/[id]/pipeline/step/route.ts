@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
-import { PipelineStep, PipelineState, PipelineConfig, Job } from '@/lib/types';
-import { nanoid } from 'nanoid';
+import { PipelineStep, PipelineState, PipelineConfig } from '@/lib/types';
+import { getAuthUser, requireRole } from '@/lib/auth-guard';
+import { enqueueJob } from '@/lib/queue';
+import { preflightJob, type Preflight } from '@/lib/budgets';
+import { emitPipelineStepFinished } from '@/lib/webhooks.server';
+import { DEFAULT_TARGET_LANGUAGE, translatedFilter, translationPath } from '@/lib/translation-languages';
 
 // Increase timeout for long-running steps
 export const maxDuration = 60;
@@ -43,29 +47,15 @@ async function createCropJob(
 
   // Create a job to generate cropped images
   const book = await db.collection('books').findOne({ id: bookId });
-  const jobId = nanoid(12);
-
-  const job: Job = {
-    id: jobId,
+  const { id: jobId } = await enqueueJob(db, {
     type: 'generate_cropped_images',
-    status: 'pending',
-    progress: {
-      total: pages.length,
-      completed: 0,
-      failed: 0,
-    },
     book_id: bookId,
     book_title: book?.display_title || book?.title,
     initiated_by: 'pipeline',
-    created_at: new Date(),
-    updated_at: new Date(),
-    results: [],
     config: {
       page_ids: pages.map(p => p.id),
     },
-  };
-
-  await db.collection('jobs').insertOne(job as unknown as Record<string, unknown>);
+  });
 
   return {
     status: 'job_created',
@@ -78,12 +68,34 @@ async function createCropJob(
   };
 }
 
+// Who an OCR or translation job is charged to, and whether the user has
+// agreed to pass a soft budget limit
+interface StepCharge {
+  userId?: string;
+  confirmed: boolean;
+}
+
+type JobStepResult = { jobId: string; total: number } | { error: string } | { budget: Preflight };
+
+// Check a job against the budgets; returns the preflight when it may not start
+async function budgetBlock(
+  db: Awaited<ReturnType<typeof getDb>>,
+  input: Parameters<typeof preflightJob>[1],
+  charge: StepCharge
+): Promise<{ preflight: Preflight | null; blocked: boolean }> {
+  const preflight = await preflightJob(db, { ...input, user_id: charge.userId });
+  const blocked = !!preflight &&
+    (!preflight.budget.allowed || (preflight.budget.needs_confirmation && !charge.confirmed));
+  return { preflight, blocked };
+}
+
 // Create a job for OCR processing
 async function createOcrJob(
   bookId: string,
   config: PipelineConfig,
-  db: Awaited<ReturnType<typeof getDb>>
-): Promise<{ jobId: string; total: number } | { error: string }> {
+  db: Awaited<ReturnType<typeof getDb>>,
+  charge: StepCharge
+): Promise<JobStepResult> {
   // Get pages that need OCR
   const pages = await db.collection('pages')
     .find({
@@ -102,34 +114,33 @@ async function createOcrJob(
   }
 
   const book = await db.collection('books').findOne({ id: bookId });
-  const jobId = nanoid(12);
-
   const useBatch = config.useBatchApi !== false; // Default to batch
+  const type = useBatch ? 'batch_ocr' : 'ocr';
+
+  const { preflight, blocked } = await budgetBlock(db, {
+    type,
+    pages: pages.length,
+    model: config.model,
+    language: config.language,
+    batchApi: useBatch,
+    book_id: bookId,
+  }, charge);
+  if (blocked) return { budget: preflight! };
 
-  const job: Job = {
-    id: jobId,
-    type: useBatch ? 'batch_ocr' : 'ocr',
-    status: 'pending',
-    progress: {
-      total: pages.length,
-      completed: 0,
-      failed: 0,
-    },
+  const { id: jobId } = await enqueueJob(db, {
+    type,
     book_id: bookId,
     book_title: book?.display_title || book?.title,
     initiated_by: 'pipeline',
-    created_at: new Date(),
-    updated_at: new Date(),
-    results: [],
+    user_id: charge.userId,
+    cost_estimate: preflight?.estimate,
     config: {
       model: config.model,
       language: config.language,
       page_ids: pages.map(p => p.id),
       use_batch_api: useBatch,
     },
-  };
-
-  await db.collection('jobs').insertOne(job as unknown as Record<string, unknown>);
+  });
 
   return { jobId, total: pages.length };
 }
@@ -138,16 +149,19 @@ async function createOcrJob(
 async function createTranslateJob(
   bookId: string,
   config: PipelineConfig,
-  db: Awaited<ReturnType<typeof getDb>>
-): Promise<{ jobId: string; total: number } | { error: string }> {
-  // Get pages that have OCR but no translation
+  db: Awaited<ReturnType<typeof getDb>>,
+  charge: StepCharge
+): Promise<JobStepResult> {
+  // Get pages that have OCR but no translation into the target language
+  const targetLanguage = config.targetLanguage || DEFAULT_TARGET_LANGUAGE;
+  const translationData = `${translationPath(targetLanguage)}.data`;
   const pages = await db.collection('pages')
     .find({
       book_id: bookId,
       'ocr.data': { $exists: true, $ne: '' },
       $or: [
-        { 'translation.data': { $exists: false } },
-        { 'translation.data': '' }
+        { [translationData]: { $exists: false } },
+        { [translationData]: '' }
       ]
     })
     .sort({ page_number: 1 })
@@ -159,38 +173,52 @@ async function createTranslateJob(
   }
 
   const book = await db.collection('books').findOne({ id: bookId });
-  const jobId = nanoid(12);
-
   const useBatch = config.useBatchApi !== false; // Default to batch
+  const type = useBatch ? 'batch_translate' : 'translate';
+
+  const { preflight, blocked } = await budgetBlock(db, {
+    type,
+    pages: pages.length,
+    model: config.model,
+    language: config.language,
+    batchApi: useBatch,
+    book_id: bookId,
+  }, charge);
+  if (blocked) return { budget: preflight! };
 
-  const job: Job = {
-    id: jobId,
-    type: useBatch ? 'batch_translate' : 'translate',
-    status: 'pending',
-    progress: {
-      total: pages.length,
-      completed: 0,
-      failed: 0,
-    },
+  const { id: jobId } = await enqueueJob(db, {
+    type,
     book_id: bookId,
     book_title: book?.display_title || book?.title,
     initiated_by: 'pipeline',
-    created_at: new Date(),
-    updated_at: new Date(),
-    results: [],
+    user_id: charge.userId,
+    cost_estimate: preflight?.estimate,
     config: {
       model: config.model,
       language: config.language,
+      ...(targetLanguage !== DEFAULT_TARGET_LANGUAGE && { target_language: targetLanguage }),
       page_ids: pages.map(p => p.id),
       use_batch_api: useBatch,
     },
-  };
-
-  await db.collection('jobs').insertOne(job as unknown as Record<string, unknown>);
+  });
 
   return { jobId, total: pages.length };
 }
 
+// Step result for a job the budgets won't let start: failed past a hard
+// limit, waiting for confirmation past a soft one
+function budgetStepResult({ estimate, budget }: Preflight): {
+  status: 'failed' | 'needs_confirmation';
+  result: Record<string, unknown>;
+  error?: string;
+} {
+  return {
+    status: budget.allowed ? 'needs_confirmation' : 'failed',
+    result: { estimate, budget, message: budget.message },
+    ...(!budget.allowed && { error: budget.message }),
+  };
+}
+
 // Step: Summarize - generates the engagement-focused index summary
 // This uses the same approach as /api/books/[id]/index to create compelling copy
 async function executeSummarize(
@@ -273,10 +301,11 @@ async function executeEdition(
     return { status: 'failed', error: 'Book not found' };
   }
 
-  // Count translated pages
+  // Count pages translated into the pipeline's target language
+  const targetLanguage = config.targetLanguage || DEFAULT_TARGET_LANGUAGE;
   const translatedCount = await db.collection('pages').countDocuments({
     book_id: bookId,
-    'translation.data': { $exists: true, $ne: '' }
+    ...translatedFilter(targetLanguage),
   });
 
   if (translatedCount === 0) {
@@ -306,10 +335,13 @@ async function executeEdition(
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     { $push: { editions: edition } } as any
   );
-  await db.collection('books').updateOne(
-    { id: bookId },
-    { $set: { current_edition_id: editionId, updated_at: new Date() } }
-  );
+  // The book's current edition is its English one
+  if (targetLanguage === DEFAULT_TARGET_LANGUAGE) {
+    await db.collection('books').updateOne(
+      { id: bookId },
+      { $set: { current_edition_id: editionId, updated_at: new Date() } }
+    );
+  }
 
   return {
     status: 'completed',
@@ -327,12 +359,15 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id: bookId } = await params;
     const db = await getDb();
     const body = await request.json();
 
-    const { step } = body as { step: PipelineStep };
+    const { step, confirm_budget } = body as { step: PipelineStep; confirm_budget?: boolean };
 
     if (!step) {
       return NextResponse.json({ error: 'Step required' }, { status: 400 });
@@ -360,9 +395,13 @@ export async function POST(
       [`pipeline.steps.${step}.started_at`]: new Date(),
     });
 
+    // OCR and translation jobs are checked against the cost budgets
+    const user = await getAuthUser();
+    const charge: StepCharge = { userId: user?.id, confirmed: confirm_budget === true };
+
     // Execute the step
     let stepResult: {
-      status: 'completed' | 'skipped' | 'failed' | 'job_created';
+      status: 'completed' | 'skipped' | 'failed' | 'job_created' | 'needs_confirmation';
       result?: Record<string, unknown>;
       error?: string;
       jobId?: string;
@@ -384,8 +423,10 @@ export async function POST(
       }
 
       case 'ocr': {
-        const ocrResult = await createOcrJob(bookId, pipeline.config, db);
-        if ('error' in ocrResult) {
+        const ocrResult = await createOcrJob(bookId, pipeline.config, db, charge);
+        if ('budget' in ocrResult) {
+          stepResult = budgetStepResult(ocrResult.budget);
+        } else if ('error' in ocrResult) {
           if (ocrResult.error === 'no_pages') {
             stepResult = { status: 'completed', result: { message: 'All pages already have OCR' } };
           } else {
@@ -406,8 +447,10 @@ export async function POST(
       }
 
       case 'translate': {
-        const translateResult = await createTranslateJob(bookId, pipeline.config, db);
-        if ('error' in translateResult) {
+        const translateResult = await createTranslateJob(bookId, pipeline.config, db, charge);
+        if ('budget' in translateResult) {
+          stepResult = budgetStepResult(translateResult.budget);
+        } else if ('error' in translateResult) {
           if (translateResult.error === 'no_pages') {
             stepResult = { status: 'completed', result: { message: 'All pages already translated' } };
           } else {
@@ -446,6 +489,10 @@ export async function POST(
       // Job created - step stays running, frontend will poll job
       stepUpdates[`pipeline.steps.${step}.jobId`] = stepResult.jobId;
       stepUpdates[`pipeline.steps.${step}.result`] = stepResult.result;
+    } else if (stepResult.status === 'needs_confirmation') {
+      // Over a soft budget limit - step waits until the user confirms it
+      stepUpdates[`pipeline.steps.${step}.status`] = 'pending';
+      stepUpdates[`pipeline.steps.${step}.result`] = stepResult.result;
     } else {
       // Step completed inline
       stepUpdates[`pipeline.steps.${step}.status`] = stepResult.status;
@@ -474,12 +521,13 @@ export async function POST(
     }
 
     await updatePipeline(db, bookId, stepUpdates);
+    await emitPipelineStepFinished(db, bookId, step);
 
     // Determine next step
     const stepOrder: PipelineStep[] = ['crop', 'ocr', 'translate', 'summarize', 'edition'];
     let nextStep: PipelineStep | null = null;
 
-    if (stepResult.status !== 'failed' && stepResult.status !== 'job_created') {
+    if (stepResult.status === 'completed' || stepResult.status === 'skipped') {
       const isLastStep = step === 'edition';
       if (!isLastStep) {
         const currentIndex = stepOrder.indexOf(step);
@@ -511,6 +559,7 @@ export async function POST(
           'pipeline.status': 'failed',
           'pipeline.error': error instanceof Error ? error.message : 'Unknown error',
         });
+        await emitPipelineStepFinished(db, bookId, step);
       }
     } catch {
       // Ignore cleanup errors
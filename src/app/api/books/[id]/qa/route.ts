@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { validateTranslation, ValidationIssue } from '@/lib/validateTranslation';
+import { getBookGlossary } from '@/lib/glossary/store';
 
 interface PageIssue {
   pageId: string;
@@ -29,6 +30,9 @@ export async function GET(
       .sort({ page_number: 1 })
       .toArray();
 
+    // Translations are also checked against the book's glossary
+    const glossary = await getBookGlossary(id, 'English', db);
+
     const pageIssues: PageIssue[] = [];
     let totalWithTranslation = 0;
 
@@ -38,7 +42,11 @@ export async function GET(
       // Check translation
       if (page.translation?.data) {
         totalWithTranslation++;
-        const result = validateTranslation(page.translation.data);
+        const result = validateTranslation(page.translation.data, {
+          glossary,
+          sourceText: page.ocr?.data,
+          sourceLanguage: book.language,
+        });
         if (!result.valid) {
           pageProblems.push({
             pageId: page.id,
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
 import { ia } from '@/lib/api-client/images';
+import { requireRole } from '@/lib/auth-guard';
+import { DEFAULT_TENANT_ID } from '@/lib/tenant';
 
 /**
  * Re-import a book from its original source
@@ -17,6 +19,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id: bookId } = await params;
     const body = await request.json();
@@ -145,7 +150,7 @@ export async function POST(
         pageDocs.push({
           _id: pageId,
           id: pageId.toHexString(),
-          tenant_id: 'default',
+          tenant_id: book.tenant_id || DEFAULT_TENANT_ID,
           book_id: bookId,
           page_number: i + 1,
           photo: getPageImageUrl(i),
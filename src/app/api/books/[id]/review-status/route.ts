@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
+import { approvedPercent, emptyStateCounts, getFieldReview, REVIEW_COMMENTS_COLLECTION, reviewPolicy } from '@/lib/review';
+import { getTranslation, resolveTargetLanguage, translationPath } from '@/lib/translation-languages';
+import type { Book, BookReviewSummary, Page, ReviewPolicy } from '@/lib/types';
+
+/**
+ * GET /api/books/[id]/review-status - Proofreading progress of a book
+ *
+ * Counts of pages in each review state for OCR and translation, the share
+ * of translated pages that are approved, and each page's review state and
+ * open comment count.
+ *
+ * Query: target_language - whose translations to count (default 'en')
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: bookId } = await params;
+    const targetLanguageParam = request.nextUrl.searchParams.get('target_language');
+    const targetLanguage = resolveTargetLanguage(targetLanguageParam);
+    if (!targetLanguage) {
+      return NextResponse.json({ error: `Unsupported target language: ${targetLanguageParam}` }, { status: 400 });
+    }
+    const db = await getDb();
+
+    const book = await db.collection('books').findOne(
+      { id: bookId },
+      { projection: { id: 1, review_policy: 1 } }
+    ) as unknown as Pick<Book, 'id' | 'review_policy'> | null;
+    if (!book) {
+      return NextResponse.json({ error: 'Book not found' }, { status: 404 });
+    }
+
+    const pages = await db.collection('pages')
+      .find({ book_id: bookId })
+      .project({ id: 1, page_number: 1, review: 1, 'ocr.data': 1, [`${translationPath(targetLanguage)}.data`]: 1 })
+      .sort({ page_number: 1 })
+      .toArray() as unknown as Pick<Page, 'id' | 'page_number' | 'review' | 'ocr' | 'translation' | 'translations'>[];
+
+    const openComments = await db.collection(REVIEW_COMMENTS_COLLECTION).aggregate<{ _id: string; count: number }>([
+      { $match: { book_id: bookId, resolved: { $ne: true } } },
+      { $group: { _id: '$page_id', count: { $sum: 1 } } },
+    ]).toArray();
+    const openByPage = new Map(openComments.map(c => [c._id, c.count]));
+
+    const ocr = emptyStateCounts();
+    const translation = emptyStateCounts();
+    for (const page of pages) {
+      if (page.ocr?.data) ocr[page.review?.ocr?.state || 'unreviewed']++;
+      if (getTranslation(page, targetLanguage)?.data) {
+        translation[getFieldReview(page, 'translation', targetLanguage)?.state || 'unreviewed']++;
+      }
+    }
+
+    const summary: BookReviewSummary = {
+      book_id: bookId,
+      target_language: targetLanguage,
+      policy: reviewPolicy(book),
+      total_pages: pages.length,
+      translated_pages: pages.filter(p => getTranslation(p, targetLanguage)?.data).length,
+      ocr,
+      translation,
+      approved_percent: approvedPercent(pages, targetLanguage),
+      pages: pages.map(page => ({
+        id: page.id,
+        page_number: page.page_number,
+        ...(page.review && { review: page.review }),
+        open_comments: openByPage.get(page.id) || 0,
+      })),
+    };
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Error fetching book review status:', error);
+    return NextResponse.json({ error: 'Failed to fetch review status' }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/books/[id]/review-status - Set the book's proofreading rules
+ *
+ * Body: {
+ *   required_approvals?: number,            // 1-5 distinct reviewers (default 2)
+ *   publish_min_approved_percent?: number   // 0-100 (default 0)
+ * }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
+  try {
+    const { id: bookId } = await params;
+    const body = await request.json() as Partial<ReviewPolicy>;
+    const updates: Record<string, number> = {};
+
+    if (body.required_approvals !== undefined) {
+      if (!Number.isInteger(body.required_approvals) || body.required_approvals < 1 || body.required_approvals > 5) {
+        return NextResponse.json({ error: 'required_approvals must be a whole number from 1 to 5' }, { status: 400 });
+      }
+      updates['review_policy.required_approvals'] = body.required_approvals;
+    }
+    if (body.publish_min_approved_percent !== undefined) {
+      const percent = body.publish_min_approved_percent;
+      if (typeof percent !== 'number' || percent < 0 || percent > 100) {
+        return NextResponse.json({ error: 'publish_min_approved_percent must be from 0 to 100' }, { status: 400 });
+      }
+      updates['review_policy.publish_min_approved_percent'] = percent;
+    }
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const book = await db.collection('books').findOneAndUpdate(
+      { id: bookId },
+      { $set: { ...updates, updated_at: new Date() } },
+      { returnDocument: 'after', projection: { review_policy: 1 } }
+    ) as unknown as Pick<Book, 'review_policy'> | null;
+    if (!book) {
+      return NextResponse.json({ error: 'Book not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, policy: reviewPolicy(book) });
+  } catch (error) {
+    console.error('Error updating review policy:', error);
+    return NextResponse.json({ error: 'Failed to update review policy' }, { status: 500 });
+  }
+}
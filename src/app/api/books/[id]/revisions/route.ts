@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { REVISIONS_COLLECTION } from '@/lib/revisions';
+import type { PageRevision } from '@/lib/types';
+
+/**
+ * GET /api/books/[id]/revisions - Timeline of saves across a book's pages
+ *
+ * Query params:
+ *   limit:  max revisions (default 50, max 200)
+ *   before: ISO date; revisions saved before it, for paging
+ *   source: 'ai' | 'manual'
+ *
+ * Newest first, without the revision text; each has the page's number.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: bookId } = await params;
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 200);
+    const before = searchParams.get('before');
+    const source = searchParams.get('source');
+
+    const filter: Record<string, unknown> = { book_id: bookId };
+    if (before) {
+      const date = new Date(before);
+      if (isNaN(date.getTime())) {
+        return NextResponse.json({ error: 'before must be a date' }, { status: 400 });
+      }
+      filter.created_at = { $lt: date };
+    }
+    if (source === 'ai' || source === 'manual') filter.source = source;
+
+    const db = await getDb();
+    const revisions = await db.collection<PageRevision>(REVISIONS_COLLECTION)
+      .find(filter, { projection: { _id: 0, text: 0 } })
+      .sort({ created_at: -1 })
+      .limit(limit)
+      .toArray();
+
+    const pageIds = [...new Set(revisions.map(r => r.page_id))];
+    const pages = await db.collection('pages')
+      .find({ id: { $in: pageIds } })
+      .project({ id: 1, page_number: 1 })
+      .toArray();
+    const pageNumbers = new Map(pages.map(p => [p.id as string, p.page_number as number]));
+
+    return NextResponse.json({
+      revisions: revisions.map(r => ({ ...r, page_number: pageNumbers.get(r.page_id) })),
+      has_more: revisions.length === limit,
+    });
+  } catch (error) {
+    console.error('Error fetching book revisions:', error);
+    return NextResponse.json({ error: 'Failed to fetch revisions' }, { status: 500 });
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
+import { refreshSearchIndex } from '@/lib/search/indexer';
+import { requireRole } from '@/lib/auth-guard';
 
 export async function GET(
   request: NextRequest,
@@ -23,7 +25,7 @@ export async function GET(
     // Use ?full=true to include OCR/translation/summary data
     const projection = includeFull
       ? {}
-      : { 'ocr.data': 0, 'translation.data': 0, 'summary.data': 0 };
+      : { 'ocr.data': 0, 'ocr.layout': 0, 'translation.data': 0, translations: 0, 'summary.data': 0 };
 
     const pages = await db.collection('pages')
       .find({ book_id: id })
@@ -42,6 +44,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const { searchParams } = new URL(request.url);
@@ -76,6 +81,7 @@ export async function DELETE(
       // Remove from active collections
       await db.collection('pages').deleteMany({ book_id: bookId });
       await db.collection('books').deleteOne({ _id: book._id });
+      await refreshSearchIndex({ bookId });
 
       return NextResponse.json({
         success: true,
@@ -118,6 +124,7 @@ export async function DELETE(
     // Book is not archived - permanent delete from active (should be rare)
     const pagesResult = await db.collection('pages').deleteMany({ book_id: bookId });
     await db.collection('books').deleteOne({ _id: book._id });
+    await refreshSearchIndex({ bookId });
 
     return NextResponse.json({
       success: true,
@@ -136,6 +143,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const body = await request.json();
@@ -173,6 +183,11 @@ export async function PATCH(
       { $set: updates }
     );
 
+    if (['title', 'display_title', 'author', 'summary', 'language'].some(field => field in updates)) {
+      // A language change alters the normalization profile of every page
+      await refreshSearchIndex({ bookId: book.id, includePages: 'language' in updates });
+    }
+
     return NextResponse.json({ success: true, updated: Object.keys(updates) });
   } catch (error) {
     console.error('Error updating book:', error);
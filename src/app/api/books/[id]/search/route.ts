@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
+import { stripAnnotationTags, type Page } from '@/lib/types';
+import { parseQuery } from '@/lib/search/query';
+import { highlightText, searchIndex } from '@/lib/search/engine';
+import { getTranslation, resolveTargetLanguage, translationPath } from '@/lib/translation-languages';
 
 interface SearchMatch {
   field: 'ocr' | 'translation';
@@ -13,67 +17,6 @@ interface SearchResult {
   matches: SearchMatch[];
 }
 
-function escapeRegex(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
-
-function generateSnippet(text: string, query: string, contextChars: number = 80): SearchMatch[] {
-  const matches: SearchMatch[] = [];
-  const lowerText = text.toLowerCase();
-  const lowerQuery = query.toLowerCase();
-  const words = lowerQuery.split(/\s+/).filter(w => w.length > 0);
-
-  // Find all positions where query words appear
-  const positions: number[] = [];
-
-  for (const word of words) {
-    let pos = 0;
-    while ((pos = lowerText.indexOf(word, pos)) !== -1) {
-      positions.push(pos);
-      pos += 1;
-    }
-  }
-
-  // Dedupe and sort positions
-  const uniquePositions = [...new Set(positions)].sort((a, b) => a - b);
-
-  // Generate snippets for first few matches (limit to 3 per field)
-  const snippetPositions: number[] = [];
-  for (const pos of uniquePositions) {
-    // Skip if too close to an existing snippet
-    if (snippetPositions.some(p => Math.abs(p - pos) < contextChars * 2)) {
-      continue;
-    }
-    snippetPositions.push(pos);
-    if (snippetPositions.length >= 3) break;
-  }
-
-  for (const pos of snippetPositions) {
-    const start = Math.max(0, pos - contextChars);
-    const end = Math.min(text.length, pos + contextChars + query.length);
-
-    let snippet = text.slice(start, end);
-
-    // Add ellipsis
-    if (start > 0) snippet = '...' + snippet;
-    if (end < text.length) snippet = snippet + '...';
-
-    // Highlight all query words in the snippet
-    for (const word of words) {
-      const regex = new RegExp(`(${escapeRegex(word)})`, 'gi');
-      snippet = snippet.replace(regex, '<mark>$1</mark>');
-    }
-
-    matches.push({
-      field: 'ocr', // Will be set by caller
-      snippet,
-      position: pos
-    });
-  }
-
-  return matches;
-}
-
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -87,69 +30,52 @@ export async function GET(
       return NextResponse.json({ error: 'Query parameter "q" is required' }, { status: 400 });
     }
 
+    const targetLanguage = resolveTargetLanguage(searchParams.get('target_language'));
+    if (!targetLanguage) {
+      return NextResponse.json({ error: 'Unsupported target language' }, { status: 400 });
+    }
+
     const trimmedQuery = query.trim();
     const db = await getDb();
 
-    // Try text search first (requires index), fall back to regex
-    let pages;
-    try {
-      // Text search with MongoDB $text (if index exists)
-      pages = await db.collection('pages')
-        .find({
-          book_id: bookId,
-          $text: { $search: trimmedQuery }
-        }, {
-          projection: {
-            id: 1,
-            page_number: 1,
-            'ocr.data': 1,
-            'translation.data': 1,
-            score: { $meta: 'textScore' }
-          }
-        })
-        .sort({ score: { $meta: 'textScore' } })
-        .limit(50)
-        .toArray();
-    } catch {
-      // Fall back to regex search if no text index
-      const regexPattern = trimmedQuery.split(/\s+/).map(escapeRegex).join('|');
-      const regex = new RegExp(regexPattern, 'i');
-
-      pages = await db.collection('pages')
-        .find({
-          book_id: bookId,
-          $or: [
-            { 'ocr.data': { $regex: regex } },
-            { 'translation.data': { $regex: regex } }
-          ]
-        }, {
-          projection: {
-            id: 1,
-            page_number: 1,
-            'ocr.data': 1,
-            'translation.data': 1
-          }
-        })
-        .sort({ page_number: 1 })
-        .limit(50)
-        .toArray();
-    }
+    const parsedQuery = parseQuery(trimmedQuery);
+    const { hits } = await searchIndex(parsedQuery, {
+      types: ['page'],
+      bookIds: [bookId],
+      fields: ['o', 't'],
+      targetLanguage,
+      limit: 50,
+    });
 
-    // Generate results with snippets
+    const pageIds = hits.map(h => h.page_id).filter((id): id is string => !!id);
+    const pages = pageIds.length > 0
+      ? await db.collection('pages')
+          .find({ id: { $in: pageIds } }, {
+            projection: { id: 1, page_number: 1, 'ocr.data': 1, [`${translationPath(targetLanguage)}.data`]: 1 },
+          })
+          .toArray()
+      : [];
+    const pageMap = new Map(pages.map(p => [p.id as string, p]));
+
+    // Generate results with snippets, in relevance order
     const results: SearchResult[] = [];
 
-    for (const page of pages) {
+    for (const hit of hits) {
+      const page = hit.page_id ? pageMap.get(hit.page_id) : undefined;
+      if (!page) continue;
+
       const matches: SearchMatch[] = [];
 
       // Search in OCR text
-      if (page.ocr?.data) {
-        const ocrMatches = generateSnippet(page.ocr.data, trimmedQuery);
+      if (page.ocr?.data && hit.matched_fields.includes('o')) {
+        const ocrMatches = highlightText(stripAnnotationTags(page.ocr.data), parsedQuery);
         matches.push(...ocrMatches.map(m => ({ ...m, field: 'ocr' as const })));
       }
 
       // Search in translation
-      if (page.translation?.data) {
-        const translationMatches = generateSnippet(page.translation.data, trimmedQuery);
+      const translation = getTranslation(page as Pick<Page, 'translation' | 'translations'>, targetLanguage);
+      if (translation?.data && hit.matched_fields.includes('t')) {
+        const translationMatches = highlightText(stripAnnotationTags(translation.data), parsedQuery);
         matches.push(...translationMatches.map(m => ({ ...m, field: 'translation' as const })));
       }
 
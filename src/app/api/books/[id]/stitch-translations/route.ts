@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
-import { getGeminiClient } from '@/lib/gemini-client';
-import { MODEL_PRICING } from '@/lib/ai';
+import { calculateCost, generateText } from '@/lib/ai';
 import { DEFAULT_MODEL } from '@/lib/types';
+import { requireRole } from '@/lib/auth-guard';
 
 export const maxDuration = 300;
 
@@ -27,13 +27,6 @@ const STITCH_PROMPT = `You are reviewing a scholarly translation for continuity
 If change needed: Return ONLY the smoothed opening paragraph (first 1-3 sentences), followed by "..." to indicate the rest continues unchanged.
 If no change needed: Return exactly "NO_CHANGE_NEEDED"`;
 
-function calculateCost(inputTokens: number, outputTokens: number, model: string): number {
-  const pricing = MODEL_PRICING[model] || MODEL_PRICING['default'];
-  const inputCost = (inputTokens / 1_000_000) * pricing.input;
-  const outputCost = (outputTokens / 1_000_000) * pricing.output;
-  return inputCost + outputCost;
-}
-
 interface StitchResult {
   pageId: string;
   pageNumber: number;
@@ -47,6 +40,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id: bookId } = await params;
     const {
@@ -97,9 +93,6 @@ export async function POST(
 
     console.log(`[stitch] Processing ${pages.length} pages for book ${bookId}`);
 
-    const genAI = getGeminiClient();
-    const model = genAI.getGenerativeModel({ model: modelId });
-
     const results: StitchResult[] = [];
     let totalInputTokens = 0;
     let totalOutputTokens = 0;
@@ -132,14 +125,11 @@ export async function POST(
         .replace('{curr_translation}', currTranslation.slice(0, 3000));
 
       try {
-        const result = await model.generateContent(prompt);
-        const responseText = result.response.text().trim();
-
-        const usageMetadata = result.response.usageMetadata;
-        const inputTokens = usageMetadata?.promptTokenCount || 0;
-        const outputTokens = usageMetadata?.candidatesTokenCount || 0;
-        totalInputTokens += inputTokens;
-        totalOutputTokens += outputTokens;
+        const { text, usage } = await generateText(prompt, modelId);
+        const responseText = text.trim();
+
+        totalInputTokens += usage.inputTokens;
+        totalOutputTokens += usage.outputTokens;
 
         if (responseText === 'NO_CHANGE_NEEDED' || responseText.includes('NO_CHANGE_NEEDED')) {
           results.push({
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { getAuthUser, requireRole } from '@/lib/auth-guard';
+import { TRANSLATION_MEMORY_COLLECTION, approveTranslations } from '@/lib/glossary/store';
+
+/**
+ * GET /api/books/[id]/translation-memory[?pageId=xxx&limit=100]
+ *
+ * Approved segments of this book's translations.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const pageId = searchParams.get('pageId');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100', 10) || 100, 500);
+
+    const db = await getDb();
+    const filter = { book_id: id, ...(pageId && { page_id: pageId }) };
+    const memory = db.collection(TRANSLATION_MEMORY_COLLECTION);
+    const [total, segments] = await Promise.all([
+      memory.countDocuments(filter),
+      memory.find(filter, { projection: { _id: 0 } }).sort({ created_at: -1 }).limit(limit).toArray(),
+    ]);
+
+    return NextResponse.json({ bookId: id, total, segments });
+  } catch (error) {
+    console.error('Error listing translation memory:', error);
+    return NextResponse.json({ error: 'Failed to list translation memory' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/books/[id]/translation-memory
+ *
+ * Approve the current translations of pages for reuse: each page's OCR and
+ * translation are split into paragraph pairs that later translations of
+ * similar passages are shown. Approving a page again replaces its segments.
+ *
+ * Body: { pageIds: string[] }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const { pageIds } = await request.json().catch(() => ({}));
+
+    if (!Array.isArray(pageIds) || pageIds.length === 0) {
+      return NextResponse.json({ error: 'pageIds must be a non-empty array' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    // Only pages of this book
+    const pages = await db.collection('pages')
+      .find({ id: { $in: pageIds }, book_id: id }, { projection: { id: 1 } })
+      .toArray();
+    if (pages.length === 0) {
+      return NextResponse.json({ error: 'No pages of this book found' }, { status: 404 });
+    }
+
+    const user = await getAuthUser();
+    const result = await approveTranslations(pages.map(p => p.id as string), user?.id, db);
+
+    return NextResponse.json({
+      success: true,
+      approvedPages: result.pages,
+      segments: result.segments,
+      skipped: pageIds.length - result.pages,
+    });
+  } catch (error) {
+    console.error('Error approving translations:', error);
+    return NextResponse.json({ error: 'Failed to approve translations' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/books/[id]/translation-memory?pageId=xxx
+ *
+ * Withdraw a page's approved segments, or the whole book's without pageId.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const pageId = new URL(request.url).searchParams.get('pageId');
+
+    const db = await getDb();
+    const result = await db.collection(TRANSLATION_MEMORY_COLLECTION).deleteMany({
+      book_id: id,
+      ...(pageId && { page_id: pageId }),
+    });
+
+    return NextResponse.json({ success: true, deleted: result.deletedCount });
+  } catch (error) {
+    console.error('Error deleting translation memory:', error);
+    return NextResponse.json({ error: 'Failed to delete translation memory' }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * GET /api/books/audit-splits
@@ -99,6 +100,9 @@ export async function GET(request: NextRequest) {
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const body = await request.json().catch(() => ({}));
     const {
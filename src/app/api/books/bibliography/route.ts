@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LIBRARY_CATEGORIES } from '@/app/api/categories/route';
+import { getDb } from '@/lib/mongodb';
+import { BIBLIOGRAPHIC_FORMATS, exportRecords, isBibliographicFormat } from '@/lib/bibliographic';
+import { collectionBookFilter, loadCuratedCollections } from '@/lib/curated-collections';
+import type { Document } from 'mongodb';
+import type { Book } from '@/lib/types';
+
+export const dynamic = 'force-dynamic';
+
+// Fields the records never use; some are large
+const EXCLUDED_FIELDS = {
+  reading_sections: 0,
+  reading_summary: 0,
+  index: 0,
+  chapters: 0,
+  pipeline: 0,
+  split_check: 0,
+};
+
+/**
+ * GET /api/books/bibliography - Bulk bibliographic export
+ *
+ * Query params (one of category or collection is required):
+ *   category: library category id, e.g. 'alchemy'
+ *   collection: curated collection id, e.g. 'alchemy-hermetica'
+ *   format: 'csl-json' (default) | 'bibtex' | 'ris' | 'marcxml'
+ *   record: 'original' (default) | 'translation'
+ *
+ * Returns one file with a record per book, ordered by title.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') || 'csl-json';
+    const record = searchParams.get('record') || 'original';
+    const category = searchParams.get('category');
+    const collectionId = searchParams.get('collection');
+
+    if (!isBibliographicFormat(format)) {
+      return NextResponse.json({ error: `Unknown format: ${format}` }, { status: 400 });
+    }
+    if (record !== 'original' && record !== 'translation') {
+      return NextResponse.json({ error: 'record must be original or translation' }, { status: 400 });
+    }
+    if (!category === !collectionId) {
+      return NextResponse.json({ error: 'Specify either category or collection' }, { status: 400 });
+    }
+
+    let filter: Document;
+    let name: string;
+    if (category) {
+      if (!LIBRARY_CATEGORIES.some(c => c.id === category)) {
+        return NextResponse.json({ error: 'Category not found' }, { status: 404 });
+      }
+      filter = { categories: category };
+      name = category;
+    } else {
+      const collection = (await loadCuratedCollections()).find(c => c.id === collectionId);
+      if (!collection) {
+        return NextResponse.json({ error: 'Collection not found' }, { status: 404 });
+      }
+      filter = collectionBookFilter(collection.bookIds);
+      name = collection.id;
+    }
+
+    const db = await getDb();
+    const books = await db.collection('books')
+      .find(filter, { projection: EXCLUDED_FIELDS })
+      .sort({ title: 1 })
+      .toArray() as unknown as Book[];
+
+    const { contentType, extension } = BIBLIOGRAPHIC_FORMATS[format];
+    return new NextResponse(exportRecords(books, format, record), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `inline; filename="${name}-${record}.${extension}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting bibliography:', error);
+    return NextResponse.json({ error: 'Failed to export bibliography' }, { status: 500 });
+  }
+}
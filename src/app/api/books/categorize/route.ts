@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { LIBRARY_CATEGORIES } from '../../categories/route';
+import { requireRole } from '@/lib/auth-guard';
 
 // Mapping of keywords/terms to category IDs
 const CATEGORY_KEYWORDS: Record<string, string[]> = {
@@ -204,6 +205,9 @@ function categorizeBook(book: {
 
 // POST /api/books/categorize - Auto-categorize all books
 export async function POST() {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const db = await getDb();
 
@@ -1,5 +1,6 @@
 import { NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
 
 // Map old category IDs to new ones
 const CATEGORY_MIGRATIONS: Record<string, string[]> = {
@@ -92,6 +93,9 @@ export async function GET() {
 }
 
 export async function POST() {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
   try {
     const db = await getDb();
     const books = await db.collection('books').find({
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
+import { refreshSearchIndex } from '@/lib/search/indexer';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * Restore a deleted book from the deleted_books archive
@@ -11,6 +13,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const db = await getDb();
@@ -57,6 +62,7 @@ export async function POST(
 
     // Remove from deleted_books
     await db.collection('deleted_books').deleteOne({ _id: archivedBook._id });
+    await refreshSearchIndex({ bookId: bookData.id, includePages: true });
 
     return NextResponse.json({
       success: true,
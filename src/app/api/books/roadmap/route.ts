@@ -1,6 +1,8 @@
 import { NextResponse } from 'next/server';
 import { ObjectId } from 'mongodb';
 import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
+import { getTenantConfig, newBookTenantFields } from '@/lib/tenant-config';
 
 // Validation: Reject modern editions
 // Returns error message if invalid, null if OK
@@ -986,6 +988,9 @@ export async function GET() {
 
 // POST /api/books/roadmap - Add all roadmap books to database
 export async function POST() {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const db = await getDb();
 
@@ -997,6 +1002,7 @@ export async function POST() {
     const existingIdentifiers = new Set(existingBooks.map(b => b.ia_identifier));
 
     const results: Array<{ title: string; status: 'added' | 'exists' | 'error'; id?: string }> = [];
+    const tenant = await getTenantConfig();
 
     for (const book of ROADMAP_BOOKS) {
       if (existingIdentifiers.has(book.ia_identifier)) {
@@ -1020,7 +1026,7 @@ export async function POST() {
         const bookDoc = {
           _id: bookId,
           id: bookIdStr,
-          tenant_id: 'default',
+          ...newBookTenantFields(tenant),
           title: book.title,
           display_title: book.display_title,
           author: book.author,
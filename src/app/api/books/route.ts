@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
 import { Book } from '@/lib/types';
+import { refreshSearchIndex } from '@/lib/search/indexer';
+import { requireRole } from '@/lib/auth-guard';
+import { getTenantConfig, newBookTenantFields } from '@/lib/tenant-config';
 
 export async function GET() {
   try {
@@ -41,6 +44,9 @@ export async function GET() {
 
 // Create a new book
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const {
@@ -62,10 +68,11 @@ export async function POST(request: NextRequest) {
 
     const db = await getDb();
     const bookId = new ObjectId().toHexString();
+    const tenant = await getTenantConfig();
 
     const book: Book = {
       id: bookId,
-      tenant_id: 'default',
+      ...newBookTenantFields(tenant),
       title,
       display_title: display_title || null,
       author: author || 'Unknown',
@@ -82,6 +89,7 @@ export async function POST(request: NextRequest) {
     };
 
     await db.collection('books').insertOne(book);
+    await refreshSearchIndex({ bookId: book.id });
 
     return NextResponse.json(book, { status: 201 });
   } catch (error) {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import crypto from 'crypto';
+import { requireRole } from '@/lib/auth-guard';
 
 // GET /api/comparisons - Get comparisons, optionally filtered
 export async function GET(request: NextRequest) {
@@ -31,6 +32,9 @@ export async function GET(request: NextRequest) {
 
 // POST /api/comparisons - Record a comparison rating
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
   try {
     const {
       page_id,
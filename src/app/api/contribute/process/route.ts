@@ -1,9 +1,13 @@
 import { NextRequest } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { getDb } from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
 import { DEFAULT_PROMPTS, DEFAULT_MODEL } from '@/lib/types';
 import { images } from '@/lib/api-client';
+import { getAuthUser, requireRole } from '@/lib/auth-guard';
+import { calculateCost } from '@/lib/ai';
+import { createGeminiProvider, resolveModel } from '@/lib/ai-providers';
+import { preflightJob, recordSpend } from '@/lib/budgets';
+import { recordRevisions } from '@/lib/revisions';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 300; // 5 minutes max
@@ -13,15 +17,21 @@ function getImageUrl(page: { archived_photo?: string; cropped_photo?: string; ph
   return page.archived_photo || page.cropped_photo || page.photo || page.photo_original || '';
 }
 
+// The model to run on the contributor's API key. Their key pays for Gemini;
+// when the library runs another provider, that provider is used as is.
+function contributorModel(apiKey: string) {
+  const { provider, model } = resolveModel(DEFAULT_MODEL);
+  return { provider: provider.id === 'gemini' ? createGeminiProvider(apiKey) : provider, model };
+}
+
 // OCR with contributor's API key
 async function performOCRWithKey(
   apiKey: string,
   imageUrl: string,
   language: string,
   previousPageOcr?: string
-): Promise<{ text: string; tokens: number }> {
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({ model: DEFAULT_MODEL });
+): Promise<{ text: string; tokens: number; inputTokens: number; outputTokens: number }> {
+  const { provider, model } = contributorModel(apiKey);
 
   let prompt = DEFAULT_PROMPTS.ocr.replace('{language}', language);
   if (previousPageOcr) {
@@ -34,15 +44,13 @@ async function performOCRWithKey(
     ? { base64: imageData, mimeType: 'image/jpeg' }
     : imageData;
 
-  const result = await model.generateContent([
+  const { text, inputTokens, outputTokens } = await provider.generate({
+    model,
     prompt,
-    { inlineData: { mimeType, data: base64 } },
-  ]);
-
-  const usageMetadata = result.response.usageMetadata;
-  const tokens = (usageMetadata?.promptTokenCount || 0) + (usageMetadata?.candidatesTokenCount || 0);
+    images: [{ mimeType, data: base64 }],
+  });
 
-  return { text: result.response.text(), tokens };
+  return { text, tokens: inputTokens + outputTokens, inputTokens, outputTokens };
 }
 
 // Translation with contributor's API key
@@ -51,9 +59,8 @@ async function performTranslationWithKey(
   ocrText: string,
   sourceLanguage: string,
   previousPageTranslation?: string
-): Promise<{ text: string; tokens: number }> {
-  const genAI = new GoogleGenerativeAI(apiKey);
-  const model = genAI.getGenerativeModel({ model: DEFAULT_MODEL });
+): Promise<{ text: string; tokens: number; inputTokens: number; outputTokens: number }> {
+  const { provider, model } = contributorModel(apiKey);
 
   let prompt = DEFAULT_PROMPTS.translation
     .replace('{source_language}', sourceLanguage)
@@ -65,15 +72,15 @@ async function performTranslationWithKey(
     prompt += `\n\n**Previous page translation for continuity:**\n${previousPageTranslation.slice(0, 2000)}...`;
   }
 
-  const result = await model.generateContent(prompt);
-
-  const usageMetadata = result.response.usageMetadata;
-  const tokens = (usageMetadata?.promptTokenCount || 0) + (usageMetadata?.candidatesTokenCount || 0);
+  const { text, inputTokens, outputTokens } = await provider.generate({ model, prompt });
 
-  return { text: result.response.text(), tokens };
+  return { text, tokens: inputTokens + outputTokens, inputTokens, outputTokens };
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
   const encoder = new TextEncoder();
 
   const stream = new ReadableStream({
@@ -83,7 +90,7 @@ export async function POST(request: NextRequest) {
       };
 
       try {
-        const { apiKey, bookId, processType, contributorName, costLimit = 1.0 } = await request.json();
+        const { apiKey, bookId, processType, contributorName, costLimit = 1.0, confirmBudget = false } = await request.json();
 
         if (!apiKey || !bookId) {
           send({ error: 'Missing API key or book ID' });
@@ -143,6 +150,45 @@ export async function POST(request: NextRequest) {
           return;
         }
 
+        // Check the run against the cost budgets before starting
+        const user = await getAuthUser();
+        const preflight = await preflightJob(db, {
+          type: processType === 'ocr' ? 'ocr' : 'translate',
+          pages: pages.length,
+          model: DEFAULT_MODEL,
+          language: book.original_language || 'Latin',
+          book_id: book.id,
+          user_id: user?.id,
+        });
+        if (preflight && !preflight.budget.allowed) {
+          send({ error: preflight.budget.message, estimate: preflight.estimate, budget: preflight.budget });
+          controller.close();
+          return;
+        }
+        if (preflight?.budget.needs_confirmation && !confirmBudget) {
+          send({
+            needsConfirmation: true,
+            message: preflight.budget.message,
+            estimate: preflight.estimate,
+            budget: preflight.budget,
+          });
+          controller.close();
+          return;
+        }
+
+        // Charge a processed page to the book's and the contributor's budgets
+        const charge = (action: 'ocr' | 'translation', pageId: ObjectId, result: { inputTokens: number; outputTokens: number }) =>
+          recordSpend({
+            action,
+            model: DEFAULT_MODEL,
+            ...(book.id && { book_id: book.id }),
+            page_id: pageId.toString(),
+            ...(user && { user_id: user.id }),
+            input_tokens: result.inputTokens,
+            output_tokens: result.outputTokens,
+            cost_usd: calculateCost(result.inputTokens, result.outputTokens, DEFAULT_MODEL),
+          });
+
         send({ totalPages: pages.length, pagesCompleted: 0, currentPage: 1, costSpent: 0 });
 
         let pagesCompleted = 0;
@@ -150,7 +196,7 @@ export async function POST(request: NextRequest) {
         let previousText = '';
         let limitReached = false;
 
-        for (const page of pages as Array<{ _id: ObjectId; page_number: number; archived_photo?: string; cropped_photo?: string; photo?: string; photo_original?: string; ocr?: { data?: string }; translation?: { data?: string } }>) {
+        for (const page of pages as Array<{ _id: ObjectId; id?: string; page_number: number; archived_photo?: string; cropped_photo?: string; photo?: string; photo_original?: string; ocr?: { data?: string }; translation?: { data?: string } }>) {
           // Check cost limit before processing
           if (totalCostSpent >= costLimit) {
             limitReached = true;
@@ -185,6 +231,8 @@ export async function POST(request: NextRequest) {
                 }
               );
 
+              await charge('ocr', page._id, result);
+
               previousText = result.text;
               totalTokens += result.tokens;
               totalCostSpent += estimateCost(result.tokens);
@@ -215,11 +263,21 @@ export async function POST(request: NextRequest) {
                 }
               );
 
+              await charge('translation', page._id, result);
+
               previousText = result.text;
               totalTokens += result.tokens;
               totalCostSpent += estimateCost(result.tokens);
             }
 
+            if (page.id) {
+              await recordRevisions([page.id], {
+                via: 'contribute',
+                author: contributorName || 'Anonymous',
+                user_id: user?.id,
+              });
+            }
+
             pagesCompleted++;
             send({ currentPage: pagesCompleted, pagesCompleted, totalPages: pages.length, costSpent: totalCostSpent });
 
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { createGeminiProvider } from '@/lib/ai-providers';
 
 export const dynamic = 'force-dynamic';
 
@@ -12,12 +12,10 @@ export async function POST(request: NextRequest) {
     }
 
     // Test the key by making a simple request
-    const genAI = new GoogleGenerativeAI(apiKey);
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.0-flash' });
-
-    // Simple test prompt
-    const result = await model.generateContent('Say "ok" and nothing else.');
-    const response = result.response.text();
+    await createGeminiProvider(apiKey).generate({
+      model: 'gemini-2.0-flash',
+      prompt: 'Say "ok" and nothing else.',
+    });
 
     // If we got here, the key works
     return NextResponse.json({
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
-import { put } from '@vercel/blob';
+import { putObject } from '@/lib/storage';
 import { images } from '@/lib/api-client';
+import { requireRole } from '@/lib/auth-guard';
 
 export const maxDuration = 300; // 5 minute timeout
 
@@ -11,13 +12,16 @@ const DELAY_MS = 200; // Delay between batches
 /**
  * POST /api/cron/archive-ocr
  *
- * Archive OCR images to Vercel Blob storage.
+ * Archive OCR images to storage (Vercel Blob, S3 or local; see lib/storage).
  * Ensures all OCR'd pages have fast, reliable image access.
  *
  * Scheduled: Every 4 hours via Vercel cron
  * Can also be called manually via: curl https://your-domain.com/api/cron/archive-ocr
  */
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
   try {
     const db = await getDb();
 
@@ -72,13 +76,9 @@ export async function POST(request: NextRequest) {
             const { buffer, mimeType } = await images.fetchBufferWithMimeType(sourceUrl, { timeout: 30000 });
             const bytes = buffer.byteLength;
 
-            // Upload to Vercel Blob
+            // Upload to storage
             const filename = `archived/${page.book_id}/${page.page_number}.jpg`;
-            const blob = await put(filename, buffer, {
-              access: 'public',
-              contentType: mimeType,
-              addRandomSuffix: false,
-            });
+            const blob = await putObject(filename, buffer, { contentType: mimeType });
 
             // Update page record
             await db.collection('pages').updateOne(
@@ -134,7 +134,7 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      message: `Archived OCR images to Vercel Blob`,
+      message: `Archived OCR images to storage`,
       archived,
       failed,
       totalSize: `${mb}MB`,
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
+import { deliverDueWebhooks } from '@/lib/webhooks.server';
+
+export const maxDuration = 300; // 5 minute timeout
+
+// Leave time for the last attempt (10s timeout) before the function is stopped
+const DELIVERY_BUDGET_MS = 240_000;
+
+/**
+ * POST /api/cron/deliver-webhooks
+ *
+ * Send webhook deliveries that are due: retries of failed attempts, after
+ * their backoff, and new ones whose immediate attempt was cut off (or all
+ * new ones with WEBHOOK_DELIVERY=cron). Sweeps every tenant.
+ *
+ * Scheduled: Every minute via Vercel cron.
+ */
+export async function POST() {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
+  const startTime = Date.now();
+
+  try {
+    const db = await getDb();
+    const attempted = await deliverDueWebhooks(db, { deadline: startTime + DELIVERY_BUDGET_MS });
+
+    return NextResponse.json({
+      success: true,
+      attempted: attempted.length,
+      delivered: attempted.filter(d => d.status === 'delivered').length,
+      failed: attempted.filter(d => d.status === 'failed').length,
+      retrying: attempted.filter(d => d.status === 'pending').length,
+      duration_ms: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error('[deliver-webhooks] Error:', error);
+    return NextResponse.json({
+      error: 'Failed to deliver webhooks',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
+import { getQueueStats, isWorkerMode, workerId } from '@/lib/queue';
+import { drainQueue } from '@/lib/queue/worker';
+
+export const maxDuration = 300; // 5 minute timeout
+
+// Leave time to finish the last slice before the function is stopped
+const DRAIN_BUDGET_MS = 180_000;
+
+/**
+ * POST /api/cron/process-queue
+ *
+ * Run queued jobs (OCR, translation, crops, split detection, image
+ * extraction) for deployments without a queue worker. Claims jobs by
+ * priority and keeps running slices until the time budget is used up;
+ * jobs left half done are picked up by the next run.
+ *
+ * Scheduled: Every 5 minutes via Vercel cron. With QUEUE_MODE=worker
+ * (`npm run worker`) it only reports the queue's state.
+ *
+ * Query params:
+ * - max_slices: stop after this many slices
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
+  const startTime = Date.now();
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const maxSlices = parseInt(searchParams.get('max_slices') || '0', 10) || undefined;
+
+    const db = await getDb();
+
+    const slices = isWorkerMode() ? [] : await drainQueue(db, {
+      owner: workerId('cron'),
+      deadline: startTime + DRAIN_BUDGET_MS,
+      maxSlices,
+    });
+
+    return NextResponse.json({
+      success: true,
+      processed: slices.length,
+      duration_ms: Date.now() - startTime,
+      slices: slices.map(({ body, ...slice }) => ({
+        ...slice,
+        processed: body?.processed,
+        remaining: body?.remaining,
+        phase: body?.phase,
+      })),
+      queue: await getQueueStats(db),
+    });
+  } catch (error) {
+    console.error('[process-queue] Error:', error);
+    return NextResponse.json({
+      error: 'Failed to process job queue',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -11,10 +11,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { postTweetWithMedia, isTwitterConfigured } from '@/lib/twitter';
 import { buildFullTweetText } from '@/lib/tweet-generator';
+import { requireRole } from '@/lib/auth-guard';
 
 export const maxDuration = 60; // 1 minute timeout
 
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
+
   const stats = {
     posted: 0,
     failed: 0,
@@ -1,159 +1,34 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
-import { ObjectId } from 'mongodb';
-import sharp from 'sharp';
-
-export const maxDuration = 300; // 5 minute timeout
-
-const API_KEY = process.env.GEMINI_API_KEY;
-const API_BASE = 'https://generativelanguage.googleapis.com/v1beta';
-const MODEL = 'gemini-2.5-flash';
-const BATCH_SIZE = 25; // Pages per batch job
-const MAX_IMAGE_WIDTH = 800; // Resize images for OCR
-
-// OCR prompt for document transcription - UPDATED with metadata and annotation tags
-const OCR_PROMPT = `Transcribe this {language} manuscript page to Markdown.
-
-**Format:**
-- # ## ### for headings (bigger text = bigger heading) — NEVER combine with centering syntax
-- **bold**, *italic* for emphasis
-- ->centered text<- for centered lines (NOT for headings)
-- > blockquotes for quotes/prayers
-- --- for dividers
-
-**Tables:** Use markdown tables ONLY for actual tabular data with clear rows/columns:
-| Column 1 | Column 2 | Column 3 |
-|----------|----------|----------|
-| data | data | data |
-
-**DO NOT use tables for:**
-- Circular diagrams
-- Charts or graphs
-- Any visual layout that isn't truly tabular
-
-**Metadata tags (hidden from readers):**
-- <lang>detected</lang> — confirm the language
-- <page-num>N</page-num> — visible page/folio numbers (NOT in body text)
-- <header>X</header> — running headers (NOT in body text)
-- <sig>X</sig> — printer's marks like A2, B1 (NOT in body text)
-- <meta>X</meta> — hidden metadata (image quality, catchwords)
-- <warning>X</warning> — quality issues (faded, damaged, blurry)
-- <vocab>X</vocab> — key terms for indexing
-
-**Inline annotations (visible to readers):**
-- <margin>X</margin> — marginal notes, citations (place BEFORE the paragraph they annotate)
-- <gloss>X</gloss> — interlinear annotations
-- <insert>X</insert> — boxed text, later additions (inline only, not around tables)
-- <unclear>X</unclear> — illegible readings
-- <note>X</note> — interpretive notes for readers
-- <term>X</term> — technical vocabulary
-- <image-desc>description</image-desc> — describe illustrations, diagrams, circular charts, woodcuts
-
-**Critical rules:**
-1. Preserve original spelling, capitalization, punctuation
-2. Page numbers/headers/signatures go in metadata tags only, never in body
-3. IGNORE partial text at left/right edges (from facing page in spread)
-4. Capture ALL text including margins and annotations
-5. Describe any images/diagrams with <image-desc>...</image-desc> using prose, never tables
-6. End with <vocab>key terms, names, concepts on this page</vocab>
-
-**If image has quality issues**, start with <warning>describe issue</warning>`;
-
-async function resizeImage(buffer: Buffer): Promise<Buffer> {
-  return sharp(buffer)
-    .resize({ width: MAX_IMAGE_WIDTH, withoutEnlargement: true })
-    .jpeg({ quality: 85 })
-    .toBuffer();
-}
-
-async function uploadBatchFile(jsonlContent: string, displayName: string): Promise<string> {
-  const contentLength = Buffer.byteLength(jsonlContent);
-
-  const startRes = await fetch(
-    `https://generativelanguage.googleapis.com/upload/v1beta/files?key=${API_KEY}`,
-    {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Goog-Upload-Protocol': 'resumable',
-        'X-Goog-Upload-Command': 'start',
-        'X-Goog-Upload-Header-Content-Length': contentLength.toString(),
-        'X-Goog-Upload-Header-Content-Type': 'text/plain',
-      },
-      body: JSON.stringify({ file: { displayName } }),
-    }
-  );
-
-  if (!startRes.ok) {
-    throw new Error(`Upload start failed: ${await startRes.text()}`);
-  }
-
-  const uploadUrl = startRes.headers.get('X-Goog-Upload-URL');
-  if (!uploadUrl) throw new Error('No upload URL returned');
-
-  const uploadRes = await fetch(uploadUrl, {
-    method: 'PUT',
-    headers: {
-      'Content-Type': 'text/plain',
-      'X-Goog-Upload-Command': 'upload, finalize',
-      'X-Goog-Upload-Offset': '0',
-    },
-    body: jsonlContent,
-  });
-
-  if (!uploadRes.ok) throw new Error(`Upload failed: ${await uploadRes.text()}`);
-  const fileInfo = await uploadRes.json();
-  return fileInfo.file.name;
-}
-
-async function createBatchJob(fileName: string, displayName: string): Promise<any> {
-  const res = await fetch(
-    `${API_BASE}/models/${MODEL}:batchGenerateContent?key=${API_KEY}`,
-    {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        batch: {
-          display_name: displayName,
-          input_config: { file_name: fileName },
-        },
-      }),
-    }
-  );
-
-  if (!res.ok) throw new Error(`Batch creation failed: ${await res.text()}`);
-  return res.json();
-}
-
-async function deleteFile(fileName: string): Promise<void> {
-  try {
-    await fetch(`${API_BASE}/${fileName}?key=${API_KEY}`, { method: 'DELETE' });
-  } catch (e) {
-    // Ignore - file will expire anyway
-  }
+import { requireRole } from '@/lib/auth-guard';
+import { budgetBlocked, preflightJob } from '@/lib/budgets';
+import { enqueueJob, isWorkerMode } from '@/lib/queue';
+import { DEFAULT_BATCH_MODEL } from '@/lib/types';
+
+interface BookNeedingOcr {
+  id: string;
+  title: string;
+  language: string;
+  page_ids: string[];
 }
 
 /**
- * Diversify books by language and provider
+ * Diversify books by language
  * Interleaves books across different language traditions
  * Ensures variety in OCR processing (Latin, Greek, Sanskrit, etc.)
  */
-function diversifyBooks(books: any[]): any[] {
-  const byLanguage: { [key: string]: any[] } = {};
+function diversifyBooks(books: BookNeedingOcr[]): BookNeedingOcr[] {
+  const byLanguage: Record<string, BookNeedingOcr[]> = {};
 
   for (const book of books) {
-    const lang = book.language || 'Unknown';
-    if (!byLanguage[lang]) {
-      byLanguage[lang] = [];
-    }
-    byLanguage[lang].push(book);
+    (byLanguage[book.language] ||= []).push(book);
   }
 
   const languages = Object.keys(byLanguage).sort(
     (a, b) => byLanguage[b].length - byLanguage[a].length
   );
 
-  const result: any[] = [];
+  const result: BookNeedingOcr[] = [];
   const maxLen = Math.max(...Object.values(byLanguage).map(arr => arr.length));
 
   // Cycle through languages, picking one book from each in turn
@@ -171,26 +46,28 @@ function diversifyBooks(books: any[]): any[] {
 /**
  * POST /api/cron/submit-ocr
  *
- * Submit batch OCR jobs for all books that need OCR.
- * Uses Gemini Batch API for 50% cost savings.
+ * Queue a Batch API OCR job (50% cheaper) for every book with pages that
+ * need OCR, interleaving languages so no one tradition hogs the queue.
+ * Books that already have an OCR job under way are left alone, and so are
+ * books whose job would pass a soft or hard cost budget limit: nobody is
+ * there to confirm it. The jobs are run by the queue (see
+ * /api/cron/process-queue).
  *
- * Can be called via:
- * - curl https://your-domain.com/api/cron/submit-ocr
- * - Vercel cron: "0 0 * * *" (daily)
+ * Scheduled: Daily via Vercel cron.
  */
-export async function POST(request: NextRequest) {
-  try {
-    if (!API_KEY) {
-      return NextResponse.json({ error: 'GEMINI_API_KEY not set' }, { status: 500 });
-    }
+export async function POST() {
+  const denied = await requireRole('admin');
+  if (denied) return denied;
 
+  try {
     const db = await getDb();
 
     // Find all pages that need OCR
     const pagesNeedingOcr = await db
       .collection('pages')
       .find({ 'ocr.data': { $in: ['', null] } })
-      .project({ _id: 1, book_id: 1, page_number: 1, photo: 1 })
+      .sort({ page_number: 1 })
+      .project({ id: 1, book_id: 1 })
       .toArray();
 
     if (pagesNeedingOcr.length === 0) {
@@ -201,175 +78,76 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Get book info for language detection
-    const books = await db
-      .collection('books')
-      .find({})
-      .project({ _id: 1, id: 1, language: 1, title: 1 })
-      .toArray();
+    // Books whose OCR is already queued or running
+    const busyBookIds = new Set(await db.collection('jobs').distinct('book_id', {
+      type: 'batch_ocr',
+      status: { $in: ['pending', 'processing', 'paused'] },
+    }));
 
-    const bookMap = new Map(
-      books.map((b: any) => [
-        b._id ? b._id.toString() : b.id,
-        {
-          id: b.id,
-          title: b.title,
-          language: b.language || 'Latin',
-        },
-      ])
-    );
-
-    // Group pages by book
-    const pagesByBook = new Map<string, any[]>();
+    const pageIdsByBook = new Map<string, string[]>();
     for (const page of pagesNeedingOcr) {
-      const bookId = page.book_id ? page.book_id.toString() : String(page.book_id);
-      if (!pagesByBook.has(bookId)) {
-        pagesByBook.set(bookId, []);
-      }
-      pagesByBook.get(bookId)!.push(page);
+      if (!page.book_id || busyBookIds.has(page.book_id)) continue;
+      if (!pageIdsByBook.has(page.book_id)) pageIdsByBook.set(page.book_id, []);
+      pageIdsByBook.get(page.book_id)!.push(page.id);
     }
 
-    // Get books that need OCR in diverse order
-    const booksNeedingOcr = Array.from(pagesByBook.keys())
-      .map(bookId => ({ ...bookMap.get(bookId), _id: bookId }))
-      .filter(b => b.id); // Only include books with valid IDs
-
-    const diverseBooks = diversifyBooks(booksNeedingOcr);
+    const books = await db
+      .collection('books')
+      .find({ id: { $in: [...pageIdsByBook.keys()] } })
+      .project({ id: 1, title: 1, display_title: 1, language: 1 })
+      .toArray();
 
-    // Create batch jobs in diverse order
-    const batchJobs = [];
-    let batchCount = 0;
-    let currentBatchContent = '';
-    let currentBatchPages = 0;
+    const diverseBooks = diversifyBooks(books.map(book => ({
+      id: book.id,
+      title: book.display_title || book.title,
+      language: book.language || 'Latin',
+      page_ids: pageIdsByBook.get(book.id) || [],
+    })));
 
+    // Queue in diverse order; jobs of equal priority run oldest first
+    const jobs = [];
+    const overBudget = [];
     for (const book of diverseBooks) {
-      const bookId = book._id;
-      const pages = pagesByBook.get(bookId) || [];
-      const bookInfo = bookMap.get(bookId);
-      const language = bookInfo?.language || 'Latin';
-
-      for (const page of pages) {
-        try {
-          // Fetch and resize image
-          const imageRes = await fetch(page.photo);
-          if (!imageRes.ok) continue;
-
-          const imageBuffer = await imageRes.arrayBuffer();
-          const resizedBuffer = await resizeImage(Buffer.from(imageBuffer));
-          const base64Image = Buffer.from(resizedBuffer).toString('base64');
-
-          // Add to JSONL batch
-          const request = {
-            custom_id: page._id.toString(),
-            request: {
-              model: MODEL,
-              system_instruction: {
-                parts: [
-                  {
-                    text: 'You are a manuscript OCR expert. Transcribe the page accurately.',
-                  },
-                ],
-              },
-              contents: [
-                {
-                  role: 'user',
-                  parts: [
-                    {
-                      text: OCR_PROMPT.replace('{language}', language),
-                    },
-                    {
-                      inline_data: {
-                        mime_type: 'image/jpeg',
-                        data: base64Image,
-                      },
-                    },
-                  ],
-                },
-              ],
-            },
-          };
-
-          currentBatchContent += JSON.stringify(request) + '\n';
-          currentBatchPages++;
-
-          // Submit batch when it reaches BATCH_SIZE
-          if (currentBatchPages >= BATCH_SIZE) {
-            const fileName = await uploadBatchFile(
-              currentBatchContent,
-              `ocr-batch-${batchCount + 1}`
-            );
-            const batchJob = await createBatchJob(
-              fileName,
-              `OCR Batch ${batchCount + 1}`
-            );
-            await deleteFile(fileName);
-
-            // Save batch job record
-            await db.collection('batch_jobs').insertOne({
-              _id: new ObjectId(),
-              gemini_job_name: batchJob.name,
-              type: 'ocr',
-              status: 'processing',
-              gemini_state: batchJob.metadata?.state || 'PROCESSING',
-              total_pages: currentBatchPages,
-              completed_pages: 0,
-              failed_pages: 0,
-              created_at: new Date(),
-              updated_at: new Date(),
-            });
-
-            batchJobs.push({
-              batchNumber: batchCount + 1,
-              pages: currentBatchPages,
-              jobName: batchJob.name,
-            });
-
-            batchCount++;
-            currentBatchContent = '';
-            currentBatchPages = 0;
-          }
-        } catch (e) {
-          console.error(`Error processing page ${page._id}:`, e);
-        }
-      }
-    }
-
-    // Submit final batch if there are remaining pages
-    if (currentBatchPages > 0) {
-      const fileName = await uploadBatchFile(
-        currentBatchContent,
-        `ocr-batch-${batchCount + 1}`
-      );
-      const batchJob = await createBatchJob(fileName, `OCR Batch ${batchCount + 1}`);
-      await deleteFile(fileName);
-
-      await db.collection('batch_jobs').insertOne({
-        _id: new ObjectId(),
-        gemini_job_name: batchJob.name,
-        type: 'ocr',
-        status: 'processing',
-        gemini_state: batchJob.metadata?.state || 'PROCESSING',
-        total_pages: currentBatchPages,
-        completed_pages: 0,
-        failed_pages: 0,
-        created_at: new Date(),
-        updated_at: new Date(),
+      const preflight = await preflightJob(db, {
+        type: 'batch_ocr',
+        pages: book.page_ids.length,
+        model: DEFAULT_BATCH_MODEL,
+        language: book.language,
+        batchApi: true,
+        book_id: book.id,
       });
+      const blocked = budgetBlocked(preflight, false);
+      if (blocked) {
+        overBudget.push({ book_id: book.id, book_title: book.title, reason: blocked });
+        continue;
+      }
 
-      batchJobs.push({
-        batchNumber: batchCount + 1,
-        pages: currentBatchPages,
-        jobName: batchJob.name,
+      const job = await enqueueJob(db, {
+        type: 'batch_ocr',
+        book_id: book.id,
+        book_title: book.title,
+        initiated_by: 'cron',
+        cost_estimate: preflight?.estimate,
+        config: {
+          model: DEFAULT_BATCH_MODEL,
+          language: book.language,
+          page_ids: book.page_ids,
+          use_batch_api: true,
+        },
       });
+      jobs.push({ job_id: job.id, book_id: book.id, book_title: book.title, pages: book.page_ids.length });
     }
 
     return NextResponse.json({
       success: true,
-      message: `Submitted ${batchJobs.length} batch jobs`,
+      message: `Queued ${jobs.length} OCR jobs`,
       pagesNeedingOcr: pagesNeedingOcr.length,
-      batchJobs: batchJobs,
-      estimatedCost: `$${(pagesNeedingOcr.length * 2.5 / 1000).toFixed(2)}`,
-      nextStep: 'Set up cron job to monitor results every 6 hours',
+      booksAlreadyQueued: busyBookIds.size,
+      jobs,
+      overBudget,
+      nextStep: isWorkerMode()
+        ? 'The queue worker will pick these jobs up'
+        : 'The process-queue cron will run these jobs',
     });
   } catch (error) {
     console.error('Batch OCR submission error:', error);
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * DELETE /api/detections/[pageId]
@@ -13,6 +14,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ pageId: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { pageId } = await params;
     const { searchParams } = new URL(request.url);
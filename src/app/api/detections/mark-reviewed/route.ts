@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * POST /api/detections/mark-reviewed
@@ -10,6 +11,9 @@ import { getDb } from '@/lib/mongodb';
  *   - skipped: true = rejected (no good images)
  */
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const { pageId, skipped } = body;
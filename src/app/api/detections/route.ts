@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * GET /api/detections
@@ -205,6 +206,9 @@ export async function GET(request: NextRequest) {
  * Body: { pageId, bbox: { x, y, width, height }, description, type? }
  */
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const { pageId, bbox, description, type } = body;
@@ -255,6 +259,9 @@ export async function POST(request: NextRequest) {
  * Body: { pageId, detectionIndex }
  */
 export async function DELETE(request: NextRequest) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const { pageId, detectionIndex } = body;
@@ -298,6 +305,9 @@ export async function DELETE(request: NextRequest) {
  * Or bulk: { updates: [{ pageId, detectionIndex, status }] }
  */
 export async function PATCH(request: NextRequest) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const db = await getDb();
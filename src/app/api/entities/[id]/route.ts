@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * GET /api/entities/[id]
@@ -68,6 +69,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const updates = await request.json();
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
 
 export interface Entity {
   _id?: string;
@@ -101,6 +102,9 @@ export async function GET(request: NextRequest) {
  * This aggregates people/places/concepts from book indexes into the entities collection.
  */
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
   try {
     const db = await getDb();
 
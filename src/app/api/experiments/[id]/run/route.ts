@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { performOCR, performTranslation } from '@/lib/ai';
 import crypto from 'crypto';
+import { requireRole } from '@/lib/auth-guard';
 
 interface ExperimentVariant {
   method: string;
@@ -124,6 +125,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const { page_ids }: { page_ids?: string[] } = await request.json();
@@ -3,6 +3,7 @@ import { getDb } from '@/lib/mongodb';
 import Anthropic from '@anthropic-ai/sdk';
 import crypto from 'crypto';
 import { images } from '@/lib/api-client';
+import { requireRole } from '@/lib/auth-guard';
 
 export const maxDuration = 300; // 5 minutes
 
@@ -70,6 +71,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const db = await getDb();
@@ -1,27 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { LATIN_PROMPTS, DEFAULT_MODEL } from '@/lib/types';
-import { MODEL_PRICING } from '@/lib/ai';
+import { generateText } from '@/lib/ai';
 import crypto from 'crypto';
 import { images } from '@/lib/api-client';
+import { requireRole } from '@/lib/auth-guard';
 
 // Allow long-running OCR processing
 export const maxDuration = 300; // 5 minutes
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
 
 // Simple prompt for comparison
 const SIMPLE_OCR_PROMPT = `Transcribe the text from this historical manuscript page accurately.
 Preserve the original spelling and formatting. Output in plain text.`;
 
-function calculateCost(inputTokens: number, outputTokens: number, model: string): number {
-  const pricing = MODEL_PRICING[model] || MODEL_PRICING['default'];
-  const inputCost = (inputTokens / 1_000_000) * pricing.input;
-  const outputCost = (outputTokens / 1_000_000) * pricing.output;
-  return inputCost + outputCost;
-}
-
 async function fetchImageAsBase64(url: string): Promise<{ data: string; mimeType: string } | null> {
   try {
     const result = await images.fetchBase64(url, { includeMimeType: true });
@@ -40,6 +32,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const { condition_id }: { condition_id: string } = await request.json();
@@ -78,7 +73,6 @@ export async function POST(
       return NextResponse.json({ error: 'No pages found' }, { status: 404 });
     }
 
-    const model = genAI.getGenerativeModel({ model: DEFAULT_MODEL });
     const batchSize = condition.batchSize;
     const promptType = condition.promptType;
 
@@ -143,19 +137,12 @@ export async function POST(
             prompt += `\n\n**Previous page for context:**\n${previousOcr}...`;
           }
 
-          const result = await model.generateContent([
-            prompt,
-            { inlineData: { mimeType: image.mimeType, data: image.data } },
-          ]);
-
-          const text = result.response.text();
-          const usage = result.response.usageMetadata;
-          const inputTokens = usage?.promptTokenCount || 0;
-          const outputTokens = usage?.candidatesTokenCount || 0;
-          const cost = calculateCost(inputTokens, outputTokens, DEFAULT_MODEL);
+          const { text, usage } = await generateText(prompt, DEFAULT_MODEL, {
+            images: [{ mimeType: image.mimeType, data: image.data }],
+          });
 
-          totalCost += cost;
-          totalTokens += inputTokens + outputTokens;
+          totalCost += usage.costUsd;
+          totalTokens += usage.totalTokens;
 
           results.push({
             page_id: page.id,
@@ -210,21 +197,12 @@ Return each transcription clearly separated:
 
 ... and so on.`;
 
-          // Build content array
-          const content: (string | { inlineData: { mimeType: string; data: string } })[] = [prompt];
-          validBatch.forEach(({ image }) => {
-            content.push({ inlineData: { mimeType: image.mimeType, data: image.data } });
+          const { text: responseText, usage } = await generateText(prompt, DEFAULT_MODEL, {
+            images: validBatch.map(({ image }) => ({ mimeType: image.mimeType, data: image.data })),
           });
 
-          const result = await model.generateContent(content);
-          const responseText = result.response.text();
-          const usage = result.response.usageMetadata;
-          const inputTokens = usage?.promptTokenCount || 0;
-          const outputTokens = usage?.candidatesTokenCount || 0;
-          const cost = calculateCost(inputTokens, outputTokens, DEFAULT_MODEL);
-
-          totalCost += cost;
-          totalTokens += inputTokens + outputTokens;
+          totalCost += usage.costUsd;
+          totalTokens += usage.totalTokens;
 
           // Parse results
           const parts = responseText.split(/===\s*PAGE\s*(\d+)\s*===/i);
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import crypto from 'crypto';
+import { requireRole } from '@/lib/auth-guard';
 
 export interface OCRCondition {
   id: string;
@@ -17,6 +18,9 @@ export interface OCRComparison {
 
 // POST /api/experiments/ocr-quality - Create OCR quality experiment
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const {
       book_id,
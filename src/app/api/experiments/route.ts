@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import crypto from 'crypto';
+import { requireRole } from '@/lib/auth-guard';
 
 // GET /api/experiments - List all experiments
 export async function GET(request: NextRequest) {
@@ -27,6 +28,9 @@ export async function GET(request: NextRequest) {
 
 // POST /api/experiments - Create a new A/B experiment
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const {
       name,
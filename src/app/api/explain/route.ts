@@ -1,14 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getGeminiClient } from '@/lib/gemini-client';
 import { DEFAULT_MODEL } from '@/lib/types';
-import { MODEL_PRICING } from '@/lib/ai';
-
-function calculateCost(inputTokens: number, outputTokens: number, model: string): number {
-  const pricing = MODEL_PRICING[model] || MODEL_PRICING['default'];
-  const inputCost = (inputTokens / 1_000_000) * pricing.input;
-  const outputCost = (outputTokens / 1_000_000) * pricing.output;
-  return inputCost + outputCost;
-}
+import { calculateCost, generateText } from '@/lib/ai';
 
 // Prompt to analyze text and identify confusing elements
 const ANALYZE_PROMPT = `You are helping a modern reader understand a historical text.
@@ -158,8 +150,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const model = getGeminiClient().getGenerativeModel({ model: DEFAULT_MODEL });
-
     // Build context string
     const contextInfo = [
       book_title && `from "${book_title}"`,
@@ -194,14 +184,10 @@ export async function POST(request: NextRequest) {
         .replace('{text}', text);
     }
 
-    const result = await model.generateContent(prompt);
-    const response = result.response;
-    const responseText = response.text();
+    const { text: responseText, usage } = await generateText(prompt, DEFAULT_MODEL);
 
     // Track usage
-    const usageMetadata = response.usageMetadata;
-    const inputTokens = usageMetadata?.promptTokenCount || 0;
-    const outputTokens = usageMetadata?.candidatesTokenCount || 0;
+    const { inputTokens, outputTokens } = usage;
 
     // For analyze mode, parse the JSON response
     if (mode === 'analyze') {
@@ -4,6 +4,7 @@ import Replicate from 'replicate';
 import sharp from 'sharp';
 import { logGeminiCall } from '@/lib/gemini-logger';
 import { images } from '@/lib/api-client/images';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * POST /api/extract-images
@@ -343,6 +344,9 @@ function categorizeLabel(label: string): string {
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const limit = Math.min(body.limit || 5, 20); // Max 20 pages
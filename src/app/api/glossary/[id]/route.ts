@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
+import { normalizeTerm, termList } from '@/lib/glossary/match';
+import { GLOSSARY_COLLECTION } from '@/lib/glossary/store';
+import type { GlossaryEntry } from '@/lib/types';
+
+/**
+ * PATCH /api/glossary/[id]
+ *
+ * Update a glossary entry. Body: any of source_term, target_term,
+ * source_variants, allowed_renderings, note (an empty list or note clears
+ * the field).
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { source_term, target_term, note } = body;
+
+    const $set: Partial<GlossaryEntry> = { updated_at: new Date() };
+    const $unset: Record<string, ''> = {};
+
+    if (source_term !== undefined) {
+      if (typeof source_term !== 'string' || !normalizeTerm(source_term)) {
+        return NextResponse.json({ error: 'source_term cannot be empty' }, { status: 400 });
+      }
+      $set.source_term = source_term.trim();
+    }
+    if (target_term !== undefined) {
+      if (typeof target_term !== 'string' || !target_term.trim()) {
+        return NextResponse.json({ error: 'target_term cannot be empty' }, { status: 400 });
+      }
+      $set.target_term = target_term.trim();
+    }
+    for (const field of ['source_variants', 'allowed_renderings'] as const) {
+      if (body[field] === undefined) continue;
+      const list = termList(body[field]);
+      if (list) $set[field] = list;
+      else $unset[field] = '';
+    }
+    if (note !== undefined) {
+      if (typeof note === 'string' && note.trim()) $set.note = note.trim();
+      else $unset.note = '';
+    }
+
+    const db = await getDb();
+    const result = await db.collection<GlossaryEntry>(GLOSSARY_COLLECTION).findOneAndUpdate(
+      { id },
+      Object.keys($unset).length > 0 ? { $set, $unset } : { $set },
+      { returnDocument: 'after', projection: { _id: 0 } }
+    );
+
+    if (!result) {
+      return NextResponse.json({ error: 'Glossary entry not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, entry: result });
+  } catch (error) {
+    console.error('Error updating glossary entry:', error);
+    return NextResponse.json({ error: 'Failed to update glossary entry' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/glossary/[id]
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const db = await getDb();
+    const result = await db.collection(GLOSSARY_COLLECTION).deleteOne({ id });
+
+    if (result.deletedCount === 0) {
+      return NextResponse.json({ error: 'Glossary entry not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting glossary entry:', error);
+    return NextResponse.json({ error: 'Failed to delete glossary entry' }, { status: 500 });
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { nanoid } from 'nanoid';
+import { getDb } from '@/lib/mongodb';
+import { getAuthUser, requireRole } from '@/lib/auth-guard';
+import { normalizeTerm, termList } from '@/lib/glossary/match';
+import { GLOSSARY_COLLECTION, getCollectionBookIds } from '@/lib/glossary/store';
+import type { GlossaryEntry, GlossaryScope } from '@/lib/types';
+
+const SCOPES: GlossaryScope[] = ['book', 'collection'];
+
+/**
+ * GET /api/glossary?scope=book&scope_id=xxx[&target_language=English]
+ *
+ * List the entries of one book's or collection's glossary. For the
+ * glossary a book's translations actually use (including its collections'
+ * entries), see GET /api/books/[id]/glossary.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const scope = searchParams.get('scope') as GlossaryScope | null;
+    const scopeId = searchParams.get('scope_id');
+    const targetLanguage = searchParams.get('target_language');
+
+    if (!scope || !SCOPES.includes(scope) || !scopeId) {
+      return NextResponse.json({ error: 'scope (book or collection) and scope_id are required' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const entries = await db.collection<GlossaryEntry>(GLOSSARY_COLLECTION)
+      .find(
+        { scope, scope_id: scopeId, ...(targetLanguage && { target_language: targetLanguage }) },
+        { projection: { _id: 0 } }
+      )
+      .sort({ source_term: 1 })
+      .toArray();
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('Error listing glossary:', error);
+    return NextResponse.json({ error: 'Failed to list glossary' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/glossary
+ *
+ * Add a glossary entry.
+ *
+ * Body: {
+ *   scope: 'book' | 'collection',
+ *   scope_id: string,              // book id or curated collection id
+ *   source_term: string,
+ *   target_term: string,
+ *   target_language?: string,      // default English
+ *   source_variants?: string[],
+ *   allowed_renderings?: string[],
+ *   note?: string
+ * }
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const { scope, scope_id, source_term, target_term, target_language = 'English', note } = body;
+
+    if (!SCOPES.includes(scope) || !scope_id) {
+      return NextResponse.json({ error: 'scope (book or collection) and scope_id are required' }, { status: 400 });
+    }
+    if (typeof source_term !== 'string' || !normalizeTerm(source_term) ||
+        typeof target_term !== 'string' || !target_term.trim()) {
+      return NextResponse.json({ error: 'source_term and target_term are required' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    if (scope === 'book'
+      ? !await db.collection('books').findOne({ id: scope_id }, { projection: { _id: 1 } })
+      : !await getCollectionBookIds(scope_id)) {
+      return NextResponse.json({ error: `${scope === 'book' ? 'Book' : 'Collection'} not found` }, { status: 404 });
+    }
+
+    const glossary = db.collection<GlossaryEntry>(GLOSSARY_COLLECTION);
+    const siblings = await glossary
+      .find({ scope, scope_id, target_language }, { projection: { source_term: 1 } })
+      .toArray();
+    if (siblings.some(entry => normalizeTerm(entry.source_term) === normalizeTerm(source_term))) {
+      return NextResponse.json({ error: `"${source_term}" is already in this glossary` }, { status: 409 });
+    }
+
+    const user = await getAuthUser();
+    const entry: GlossaryEntry = {
+      id: nanoid(12),
+      scope,
+      scope_id,
+      source_term: source_term.trim(),
+      target_language,
+      target_term: target_term.trim(),
+      origin: 'manual',
+      created_at: new Date(),
+    };
+    const sourceVariants = termList(body.source_variants);
+    const allowedRenderings = termList(body.allowed_renderings);
+    if (sourceVariants) entry.source_variants = sourceVariants;
+    if (allowedRenderings) entry.allowed_renderings = allowedRenderings;
+    if (typeof note === 'string' && note.trim()) entry.note = note.trim();
+    if (user) entry.created_by = user.id;
+
+    await glossary.insertOne({ ...entry });
+
+    return NextResponse.json({ success: true, entry });
+  } catch (error) {
+    console.error('Error creating glossary entry:', error);
+    return NextResponse.json({ error: 'Failed to create glossary entry' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { getAuthUser, requireRole } from '@/lib/auth-guard';
+import { seedGlossary } from '@/lib/glossary/seed';
+import { getCollectionBookIds } from '@/lib/glossary/store';
+
+export const maxDuration = 120;
+
+/**
+ * POST /api/glossary/seed
+ *
+ * Fill a book's or collection's glossary from the `<vocab>` terms of its
+ * OCR, matching encyclopedia entries and the renderings given in
+ * translation glosses. Existing entries are kept; terms with no known
+ * rendering are listed in `unresolved`.
+ *
+ * Body: {
+ *   scope: 'book' | 'collection',
+ *   scope_id: string,
+ *   target_language?: string,   // default English
+ *   dryRun?: boolean            // default true
+ * }
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
+  try {
+    const { scope, scope_id, target_language = 'English', dryRun = true } = await request.json().catch(() => ({}));
+
+    if ((scope !== 'book' && scope !== 'collection') || !scope_id) {
+      return NextResponse.json({ error: 'scope (book or collection) and scope_id are required' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    let bookIds: string[] | null;
+    if (scope === 'book') {
+      bookIds = await db.collection('books').findOne({ id: scope_id }, { projection: { _id: 1 } }) ? [scope_id] : null;
+    } else {
+      bookIds = await getCollectionBookIds(scope_id);
+    }
+    if (!bookIds) {
+      return NextResponse.json({ error: `${scope === 'book' ? 'Book' : 'Collection'} not found` }, { status: 404 });
+    }
+
+    const user = await getAuthUser();
+    const result = await seedGlossary(
+      { scope, scopeId: scope_id, bookIds, targetLanguage: target_language, createdBy: user?.id, dryRun },
+      db
+    );
+
+    return NextResponse.json({
+      success: true,
+      dryRun,
+      created: result.created.length,
+      existing: result.existing,
+      entries: result.created,
+      unresolved: result.unresolved,
+    });
+  } catch (error) {
+    console.error('Error seeding glossary:', error);
+    return NextResponse.json({ error: 'Failed to seed glossary' }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
+import { apiKeyError, getAuthUser } from '@/lib/auth-guard';
 import { ObjectId } from 'mongodb';
 
 export interface Highlight {
@@ -51,6 +52,10 @@ export async function GET(request: NextRequest) {
 
 // POST /api/highlights - Create a new highlight
 export async function POST(request: NextRequest) {
+  // Open to anonymous callers, but a key that can't be used is refused
+  const keyDenied = await apiKeyError();
+  if (keyDenied) return keyDenied;
+
   try {
     const body = await request.json();
     const { book_id, page_id, page_number, book_title, book_author, text, context, note, color, user_name } = body;
@@ -96,6 +101,7 @@ export async function POST(request: NextRequest) {
     }
 
     const db = await getDb();
+    const user = await getAuthUser();
 
     const highlight: Highlight = {
       id: new ObjectId().toHexString(),
@@ -108,7 +114,7 @@ export async function POST(request: NextRequest) {
       context: context?.trim(),
       note: note?.trim(),
       color: color || 'yellow',
-      user_name: user_name?.trim() || undefined,
+      user_name: user?.name || user_name?.trim() || undefined,
       created_at: new Date(),
     };
 
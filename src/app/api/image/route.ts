@@ -3,6 +3,7 @@ import sharp from 'sharp';
 import fs from 'fs';
 import path from 'path';
 import axios from 'axios';
+import { getStorageHosts, readLocalObject } from '@/lib/storage';
 
 // Cache resized images for 1 week
 const CACHE_DURATION = 60 * 60 * 24 * 7;
@@ -27,9 +28,13 @@ export async function GET(request: NextRequest) {
     }
 
     let buffer: Buffer | undefined;
+    const storedObject = url.startsWith('/') ? null : await readLocalObject(url);
 
-    // Handle relative local paths (starting with /) - must be in public directory
-    if (url.startsWith('/')) {
+    if (storedObject) {
+      // Stored on this server's disk (STORAGE_BACKEND=local)
+      buffer = storedObject;
+    } else if (url.startsWith('/')) {
+      // Handle relative local paths (starting with /) - must be in public directory
       // Prevent path traversal attacks
       const normalizedUrl = path.normalize(url).replace(/^(\.\.(\/|\\|$))+/, '');
       if (normalizedUrl.includes('..')) {
@@ -61,6 +66,8 @@ export async function GET(request: NextRequest) {
         'digi.vatlib.it',              // Vatican
         'digital.bodleian.ox.ac.uk',   // Bodleian
         'iiif.bodleian.ox.ac.uk',
+        // Configured S3 / object store hosts
+        ...getStorageHosts(),
       ];
       const urlObj = new URL(url);
       if (!allowedHosts.some(host => urlObj.hostname.endsWith(host))) {
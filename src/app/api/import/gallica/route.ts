@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
 import { notifyBookImport } from '@/lib/indexnow';
+import { emitBookImported } from '@/lib/webhooks.server';
+import { refreshSearchIndex } from '@/lib/search/indexer';
+import { requireRole } from '@/lib/auth-guard';
+import { getTenantConfig, newBookTenantFields } from '@/lib/tenant-config';
 
 interface IIIFManifest {
   label?: string;
@@ -34,6 +38,9 @@ interface IIIFManifest {
  * }
  */
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const {
@@ -121,10 +128,11 @@ export async function POST(request: NextRequest) {
       attribution = englishAttr?.['@value'] || manifest.attribution[0]?.['@value'] || null;
     }
 
+    const tenant = await getTenantConfig();
     const bookDoc = {
       _id: bookId,
       id: bookIdStr,
-      tenant_id: 'default',
+      ...newBookTenantFields(tenant),
       title,
       display_title: display_title || null,
       author,
@@ -156,6 +164,7 @@ export async function POST(request: NextRequest) {
     };
 
     await db.collection('books').insertOne(bookDoc);
+    await refreshSearchIndex({ bookId: bookDoc.id });
 
     // Create pages
     const pageDocs = [];
@@ -164,7 +173,7 @@ export async function POST(request: NextRequest) {
       pageDocs.push({
         _id: pageId,
         id: pageId.toHexString(),
-        tenant_id: 'default',
+        tenant_id: tenant.id,
         book_id: bookIdStr,
         page_number: i + 1,
         photo: getPageImageUrl(i),
@@ -203,6 +212,9 @@ export async function POST(request: NextRequest) {
     // Notify search engines of new book via IndexNow (non-blocking)
     notifyBookImport(bookIdStr).catch(console.error);
 
+    // And webhook subscribers (partners mirroring the library)
+    await emitBookImported(bookDoc, pageDocs.length);
+
     return NextResponse.json({
       success: true,
       bookId: bookIdStr,
@@ -3,6 +3,10 @@ import { getDb } from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
 import fs from 'fs';
 import path from 'path';
+import { refreshSearchIndex } from '@/lib/search/indexer';
+import { requireRole } from '@/lib/auth-guard';
+import { getTenantConfig, newBookTenantFields } from '@/lib/tenant-config';
+import { emitBookImported } from '@/lib/webhooks.server';
 
 /**
  * Import a book from a local directory
@@ -20,6 +24,9 @@ import path from 'path';
  * }
  */
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const {
@@ -84,10 +91,11 @@ export async function POST(request: NextRequest) {
     const bookId = new ObjectId();
     const bookIdStr = bookId.toHexString();
 
+    const tenant = await getTenantConfig();
     const bookDoc = {
       _id: bookId,
       id: bookIdStr,
-      tenant_id: 'default',
+      ...newBookTenantFields(tenant),
       title,
       display_title: display_title || null,
       author,
@@ -105,6 +113,7 @@ export async function POST(request: NextRequest) {
     };
 
     await db.collection('books').insertOne(bookDoc);
+    await refreshSearchIndex({ bookId: bookDoc.id });
 
     // Create pages
     const pageDocs = pageFiles.map((filename, index) => {
@@ -114,7 +123,7 @@ export async function POST(request: NextRequest) {
       return {
         _id: pageId,
         id: pageId.toHexString(),
-        tenant_id: 'default',
+        tenant_id: tenant.id,
         book_id: bookIdStr,
         page_number: index + 1,
         photo: imagePath,
@@ -142,6 +151,8 @@ export async function POST(request: NextRequest) {
       { $set: { thumbnail: pageDocs[0].photo } }
     );
 
+    await emitBookImported(bookDoc, pageDocs.length);
+
     return NextResponse.json({
       success: true,
       bookId: bookIdStr,
@@ -1,10 +1,14 @@
 import { NextResponse } from 'next/server';
 import { getJobById, canTransitionTo, updateJobStatus } from '@/lib/job-helpers';
+import { requireRole } from '@/lib/auth-guard';
 
 export async function POST(
   _request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const { job, db } = await getJobById(id);
@@ -16,7 +20,10 @@ export async function POST(
     }
 
     // Update job status
-    await updateJobStatus(db, id, 'cancel');
+    if (!await updateJobStatus(db, id, 'cancel')) {
+      // Its status changed after it was read
+      return NextResponse.json({ error: 'The job changed status before it could be cancelled' }, { status: 409 });
+    }
 
     return NextResponse.json({ success: true });
   } catch (error: any) {
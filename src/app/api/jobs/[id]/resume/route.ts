@@ -1,10 +1,15 @@
 import { NextResponse } from 'next/server';
 import { getJobById, canTransitionTo, updateJobStatus } from '@/lib/job-helpers';
+import { requireRole } from '@/lib/auth-guard';
+import { kickJob } from '@/lib/queue';
 
 export async function POST(
   _request: Request,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const { job, db } = await getJobById(id);
@@ -16,7 +21,11 @@ export async function POST(
     }
 
     // Update job status
-    await updateJobStatus(db, id, 'resume');
+    if (!await updateJobStatus(db, id, 'resume')) {
+      // Its status changed after it was read
+      return NextResponse.json({ error: 'The job changed status before it could be resumed' }, { status: 409 });
+    }
+    kickJob(id);
 
     return NextResponse.json({ success: true });
   } catch (error: any) {
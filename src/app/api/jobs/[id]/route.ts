@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
-import type { JobStatus } from '@/lib/types';
+import type { Job, JobStatus } from '@/lib/types';
+import { requireRole } from '@/lib/auth-guard';
+import { emitJobFinished } from '@/lib/job-helpers';
 
 // GET - Get job status
 export async function GET(
@@ -32,6 +34,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const body = await request.json();
@@ -71,6 +76,9 @@ export async function PATCH(
 
       await db.collection('jobs').updateOne({ id }, { $set: updates });
       const updatedJob = await db.collection('jobs').findOne({ id });
+      if (updatedJob && body.status && body.status !== job.status) {
+        await emitJobFinished(updatedJob as unknown as Job);
+      }
       return NextResponse.json({ job: updatedJob });
     }
 
@@ -164,6 +172,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const db = await getDb();
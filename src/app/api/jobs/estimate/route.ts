@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import type { JobType } from '@/lib/types';
+import { DEFAULT_BATCH_MODEL } from '@/lib/types';
+import { getAuthUser, requireRole } from '@/lib/auth-guard';
+import { budgetedAction, preflightJob } from '@/lib/budgets';
+
+/**
+ * POST /api/jobs/estimate
+ *
+ * Estimate what an OCR or translation run would cost, and where it would
+ * leave the budgets it is charged to, without starting it.
+ *
+ * Body: {
+ *   type: JobType,               // ocr, translate, batch_ocr or batch_translate
+ *   page_ids?: string[],         // or
+ *   pages?: number,
+ *   book_id?: string,
+ *   model?: string,
+ *   language?: string,           // source language (default Latin)
+ *   use_batch_api?: boolean      // Batch API pricing (50% off)
+ * }
+ *
+ * Returns { estimate, budget }: budget.allowed is false when a hard limit
+ * would be exceeded, budget.needs_confirmation when a soft limit would be.
+ */
+export async function POST(request: NextRequest) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
+  try {
+    const body = await request.json();
+    const { type, page_ids, pages, book_id, model, language, use_batch_api } = body as {
+      type: JobType;
+      page_ids?: string[];
+      pages?: number;
+      book_id?: string;
+      model?: string;
+      language?: string;
+      use_batch_api?: boolean;
+    };
+
+    if (!type || !budgetedAction(type)) {
+      return NextResponse.json(
+        { error: 'type must be ocr, translate, batch_ocr or batch_translate' },
+        { status: 400 }
+      );
+    }
+
+    const pageCount = Array.isArray(page_ids) ? page_ids.length : Number(pages);
+    if (!Number.isInteger(pageCount) || pageCount <= 0) {
+      return NextResponse.json({ error: 'page_ids or pages is required' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const user = await getAuthUser();
+    const preflight = await preflightJob(db, {
+      type,
+      pages: pageCount,
+      model: model || DEFAULT_BATCH_MODEL,
+      language: language || 'Latin',
+      batchApi: use_batch_api === true || type === 'batch_ocr' || type === 'batch_translate',
+      book_id,
+      user_id: user?.id,
+    });
+
+    return NextResponse.json(preflight);
+  } catch (error) {
+    console.error('Error estimating job cost:', error);
+    return NextResponse.json({ error: 'Failed to estimate job cost' }, { status: 500 });
+  }
+}
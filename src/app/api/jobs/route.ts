@@ -1,8 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
-import { nanoid } from 'nanoid';
-import type { Job, JobType } from '@/lib/types';
+import type { JobType } from '@/lib/types';
 import { DEFAULT_BATCH_MODEL } from '@/lib/types';
+import { getAuthUser, requireRole } from '@/lib/auth-guard';
+import { enqueueJob, QUEUE_JOB_TYPES } from '@/lib/queue';
+import { budgetRefusal, preflightJob } from '@/lib/budgets';
+import { DEFAULT_TARGET_LANGUAGE, resolveTargetLanguage } from '@/lib/translation-languages';
 
 // GET - List all jobs (with optional filters)
 export async function GET(request: NextRequest) {
@@ -43,6 +46,9 @@ export async function GET(request: NextRequest) {
 
 // POST - Create a new job
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const {
@@ -52,9 +58,15 @@ export async function POST(request: NextRequest) {
       page_ids,
       model,
       prompt_name,
+      custom_prompt,
       language,
+      target_language,
       initiated_by,
       use_batch_api,
+      layout,
+      overwrite,
+      priority,
+      confirm_budget,
     } = body as {
       type: JobType;
       book_id?: string;
@@ -62,9 +74,15 @@ export async function POST(request: NextRequest) {
       page_ids: string[];
       model?: string;
       prompt_name?: string;
+      custom_prompt?: string;    // Prompt text edited for this run, instead of prompt_name's
       language?: string;
+      target_language?: string;  // Translation jobs: code or name, default English
       initiated_by?: string;
       use_batch_api?: boolean;
+      layout?: boolean;
+      overwrite?: boolean;       // false: leave pages that already have the output
+      priority?: number;
+      confirm_budget?: boolean;  // Go ahead past a soft budget limit
     };
 
     if (!type || !page_ids || !Array.isArray(page_ids) || page_ids.length === 0) {
@@ -74,37 +92,64 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Only store jobs something will run: the queue's types, or the record a
+    // browser-driven summary run keeps its progress in
+    const browserRun = type === 'batch_summary' && use_batch_api !== true;
+    if (!QUEUE_JOB_TYPES.includes(type) && !browserRun) {
+      return NextResponse.json(
+        { error: `Unknown job type: ${type}. Must be one of ${QUEUE_JOB_TYPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const targetLanguage = resolveTargetLanguage(target_language);
+    if (!targetLanguage) {
+      return NextResponse.json(
+        { error: `Unsupported target language: ${target_language}` },
+        { status: 400 }
+      );
+    }
+
     const db = await getDb();
-    const jobId = nanoid(12);
 
-    // Use Batch API if explicitly requested, or if it's a batch_* job type
-    const useBatchApi = use_batch_api === true || type === 'batch_ocr' || type === 'batch_translate';
+    // Use Batch API unless realtime processing is asked for, for batch_* job types.
+    // OCR layout (line and word boxes) is only detected when processing in realtime.
+    const useBatchApi = !layout && (use_batch_api ?? (type === 'batch_ocr' || type === 'batch_translate'));
 
-    const job: Job = {
-      id: jobId,
+    // Refuse, or ask to confirm, a run that would exceed a cost budget
+    const user = await getAuthUser();
+    const preflight = await preflightJob(db, {
+      type,
+      pages: page_ids.length,
+      model: model || DEFAULT_BATCH_MODEL,
+      language: language || 'Latin',
+      batchApi: useBatchApi,
+      book_id,
+      user_id: user?.id,
+    });
+    const refusal = budgetRefusal(preflight, confirm_budget === true);
+    if (refusal) return refusal;
+
+    const job = await enqueueJob(db, {
       type,
-      status: 'pending',
-      progress: {
-        total: page_ids.length,
-        completed: 0,
-        failed: 0,
-      },
       book_id,
       book_title,
       initiated_by,
-      created_at: new Date(),
-      updated_at: new Date(),
-      results: [],
+      user_id: user?.id,
+      cost_estimate: preflight?.estimate,
+      priority: typeof priority === 'number' && Number.isFinite(priority) ? priority : 0,
       config: {
         model: model || DEFAULT_BATCH_MODEL,
         prompt_name,
+        ...(custom_prompt && { custom_prompt }),
         language: language || 'Latin',
+        ...(targetLanguage !== DEFAULT_TARGET_LANGUAGE && { target_language: targetLanguage }),
         page_ids,
         use_batch_api: useBatchApi,
+        ...(layout && { layout: true }),
+        ...(typeof overwrite === 'boolean' && { overwrite }),
       },
-    };
-
-    await db.collection('jobs').insertOne(job as unknown as Record<string, unknown>);
+    });
 
     // Return the job directly (not wrapped) to match the API client type signature
     return NextResponse.json(job);
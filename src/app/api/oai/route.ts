@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleOaiRequest } from '@/lib/oai-pmh';
+
+export const dynamic = 'force-dynamic';
+
+function xmlResponse(xml: string) {
+  return new NextResponse(xml, {
+    headers: { 'Content-Type': 'text/xml; charset=utf-8' },
+  });
+}
+
+/**
+ * GET /api/oai - OAI-PMH 2.0 endpoint for metadata harvesters
+ *
+ * Query params: verb (Identify, ListMetadataFormats, ListSets,
+ * ListIdentifiers, ListRecords, GetRecord) and its arguments:
+ *   metadataPrefix: 'oai_dc' | 'mods'
+ *   from, until:    YYYY-MM-DD or YYYY-MM-DDThh:mm:ssZ
+ *   set:            'category:<id>' or 'collection:<id>'
+ *   identifier:     'oai:sourcelibrary.org:<book id>'
+ *   resumptionToken
+ */
+export async function GET(request: NextRequest) {
+  try {
+    return xmlResponse(await handleOaiRequest(new URL(request.url).searchParams));
+  } catch (error) {
+    console.error('OAI-PMH error:', error);
+    return NextResponse.json({ error: 'Failed to answer OAI-PMH request' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/oai - The same requests, form-encoded
+ * (application/x-www-form-urlencoded)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    return xmlResponse(await handleOaiRequest(new URLSearchParams(await request.text())));
+  } catch (error) {
+    console.error('OAI-PMH error:', error);
+    return NextResponse.json({ error: 'Failed to answer OAI-PMH request' }, { status: 500 });
+  }
+}
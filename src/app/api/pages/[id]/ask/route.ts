@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getGeminiClient } from '@/lib/gemini-client';
 import { DEFAULT_MODEL } from '@/lib/types';
-import { MODEL_PRICING } from '@/lib/ai';
+import { generateText } from '@/lib/ai';
 
 interface Message {
   role: 'user' | 'assistant';
@@ -17,13 +16,6 @@ interface SourceQuote {
   url: string;
 }
 
-function calculateCost(inputTokens: number, outputTokens: number, model: string): number {
-  const pricing = MODEL_PRICING[model] || MODEL_PRICING['default'];
-  const inputCost = (inputTokens / 1_000_000) * pricing.input;
-  const outputCost = (outputTokens / 1_000_000) * pricing.output;
-  return inputCost + outputCost;
-}
-
 // Extract key terms from a question for searching
 function extractSearchTerms(question: string): string[] {
   // Remove common words and extract meaningful terms
@@ -181,8 +173,6 @@ export async function POST(
       return NextResponse.json({ error: 'Page text is required' }, { status: 400 });
     }
 
-    const model = getGeminiClient().getGenerativeModel({ model: DEFAULT_MODEL });
-
     // Build context from book info
     const bookContext = [
       bookTitle && `"${bookTitle}"`,
@@ -220,23 +210,13 @@ export async function POST(
       .replace('{author_sources}', authorSources)
       .replace('{question}', question);
 
-    const result = await model.generateContent(prompt);
-    const response = result.response;
-    const answer = response.text();
-
-    // Track usage
-    const usageMetadata = response.usageMetadata;
-    const inputTokens = usageMetadata?.promptTokenCount || 0;
-    const outputTokens = usageMetadata?.candidatesTokenCount || 0;
+    const { text: answer, usage } = await generateText(prompt, DEFAULT_MODEL);
 
     return NextResponse.json({
       answer,
       pageId,
       usage: {
-        inputTokens,
-        outputTokens,
-        totalTokens: inputTokens + outputTokens,
-        costUsd: calculateCost(inputTokens, outputTokens, DEFAULT_MODEL),
+        ...usage,
         model: DEFAULT_MODEL,
       },
     });
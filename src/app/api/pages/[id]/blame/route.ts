@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { blame, revisionLanguageFilter, REVISIONS_COLLECTION } from '@/lib/revisions';
+import { DEFAULT_TARGET_LANGUAGE, getTranslation, resolveTargetLanguage, translationPath } from '@/lib/translation-languages';
+import type { Page, PageRevision } from '@/lib/types';
+
+/**
+ * GET /api/pages/[id]/blame - Who wrote each line of a page's text
+ *
+ * Query params:
+ *   field: 'ocr' | 'translation'   (default translation)
+ *   target_language: BCP 47 code   (translation only; default English)
+ *
+ * Each line of the current text is attributed to the revision that
+ * introduced it. Lines saved outside revision history have no revision.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const field = searchParams.get('field') || 'translation';
+    if (field !== 'ocr' && field !== 'translation') {
+      return NextResponse.json({ error: 'field must be ocr or translation' }, { status: 400 });
+    }
+    const targetLanguageParam = searchParams.get('target_language');
+    const targetLanguage = field === 'translation' ? resolveTargetLanguage(targetLanguageParam) : DEFAULT_TARGET_LANGUAGE;
+    if (!targetLanguage) {
+      return NextResponse.json({ error: `Unsupported target language: ${targetLanguageParam}` }, { status: 400 });
+    }
+    const path = field === 'translation' ? translationPath(targetLanguage) : field;
+
+    const db = await getDb();
+    const page = await db.collection('pages').findOne(
+      { id },
+      { projection: { id: 1, [`${path}.data`]: 1 } }
+    ) as unknown as Page | null;
+    if (!page) {
+      return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+    }
+
+    const revisions = await db.collection<PageRevision>(REVISIONS_COLLECTION)
+      .find({ page_id: id, field, ...revisionLanguageFilter(targetLanguage) }, { projection: { _id: 0 } })
+      .sort({ revision: 1 })
+      .toArray();
+
+    const current = field === 'translation' ? getTranslation(page, targetLanguage) : page.ocr;
+    return NextResponse.json({
+      page_id: id,
+      field,
+      ...(field === 'translation' && { target_language: targetLanguage }),
+      revisions: revisions.length,
+      lines: blame(revisions, current?.data || ''),
+    });
+  } catch (error) {
+    console.error('Error computing blame:', error);
+    return NextResponse.json({ error: 'Failed to compute blame' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { getAuthUser, requireRole } from '@/lib/auth-guard';
+import { REVIEW_COMMENTS_COLLECTION } from '@/lib/review';
+import type { ReviewComment } from '@/lib/types';
+
+/**
+ * PATCH /api/pages/[id]/comments/[commentId] - Resolve or reopen a thread
+ *
+ * Body: { resolved: boolean }
+ *
+ * Resolving a reply resolves the thread it belongs to.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; commentId: string }> }
+) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
+  try {
+    const { id, commentId } = await params;
+    const { resolved } = await request.json() as { resolved?: boolean };
+    if (typeof resolved !== 'boolean') {
+      return NextResponse.json({ error: 'resolved must be true or false' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const comments = db.collection<ReviewComment>(REVIEW_COMMENTS_COLLECTION);
+    const comment = await comments.findOne({ id: commentId, page_id: id });
+    if (!comment) {
+      return NextResponse.json({ error: 'Comment not found' }, { status: 404 });
+    }
+
+    const user = await getAuthUser();
+    const threadId = comment.parent_id || comment.id;
+    await comments.updateMany(
+      { page_id: id, $or: [{ id: threadId }, { parent_id: threadId }] },
+      resolved
+        ? { $set: { resolved: true, resolved_by: user?.name || 'Unknown', updated_at: new Date() } }
+        : { $set: { resolved: false, updated_at: new Date() }, $unset: { resolved_by: '' } }
+    );
+
+    return NextResponse.json({ success: true, thread_id: threadId, resolved });
+  } catch (error) {
+    console.error('Error updating review comment:', error);
+    return NextResponse.json({ error: 'Failed to update comment' }, { status: 500 });
+  }
+}
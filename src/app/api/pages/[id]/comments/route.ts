@@ -0,0 +1,133 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { nanoid } from 'nanoid';
+import { getDb } from '@/lib/mongodb';
+import { getAuthUser, requireRole } from '@/lib/auth-guard';
+import { DIFF_FIELDS } from '@/lib/page-versions';
+import { REVIEW_COMMENTS_COLLECTION } from '@/lib/review';
+import type { DiffField, ReviewComment, ReviewSuggestion } from '@/lib/types';
+
+/**
+ * GET /api/pages/[id]/comments - The page's review comment thread, oldest first
+ *
+ * Query params:
+ *   field: 'ocr' | 'translation'   (default: all)
+ *   open: 'true'                   (unresolved comments only)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const field = searchParams.get('field');
+    const openOnly = searchParams.get('open') === 'true';
+
+    const db = await getDb();
+    const comments = await db.collection<ReviewComment>(REVIEW_COMMENTS_COLLECTION)
+      .find(
+        {
+          page_id: id,
+          ...(field && { field: field as DiffField }),
+          ...(openOnly && { resolved: { $ne: true } }),
+        },
+        { projection: { _id: 0 } }
+      )
+      .sort({ created_at: 1 })
+      .toArray();
+
+    return NextResponse.json({ comments });
+  } catch (error) {
+    console.error('Error fetching review comments:', error);
+    return NextResponse.json({ error: 'Failed to fetch comments' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/pages/[id]/comments - Add a comment or reply to the review thread
+ *
+ * Body: { content: string, field?: 'ocr' | 'translation', parent_id?: string, author?: string,
+ *         suggestion?: { original: string, replacement: string } }
+ *
+ * A suggestion proposes a correction for a reviewer to apply; it needs a field,
+ * and `original` must occur in that field's current text.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { content, field, parent_id, author, suggestion } = body as {
+      content?: string;
+      field?: DiffField;
+      parent_id?: string;
+      author?: string;
+      suggestion?: Partial<ReviewSuggestion>;
+    };
+
+    if (!content?.trim()) {
+      return NextResponse.json({ error: 'content is required' }, { status: 400 });
+    }
+    if (content.length > 5000) {
+      return NextResponse.json({ error: 'Comments are limited to 5000 characters' }, { status: 400 });
+    }
+    if (field && !DIFF_FIELDS.includes(field)) {
+      return NextResponse.json({ error: 'field must be ocr or translation' }, { status: 400 });
+    }
+    if (suggestion) {
+      if (!field) {
+        return NextResponse.json({ error: 'A suggestion needs a field' }, { status: 400 });
+      }
+      if (!suggestion.original || typeof suggestion.replacement !== 'string' || suggestion.original === suggestion.replacement) {
+        return NextResponse.json({ error: 'suggestion needs original and a different replacement' }, { status: 400 });
+      }
+    }
+
+    const db = await getDb();
+    const page = await db.collection('pages').findOne(
+      { id },
+      { projection: { id: 1, book_id: 1, ...(suggestion && field && { [`${field}.data`]: 1 }) } }
+    );
+    if (!page) {
+      return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+    }
+    if (suggestion && field && !(page[field]?.data || '').includes(suggestion.original)) {
+      return NextResponse.json({ error: `The suggested original text is not in the page ${field}` }, { status: 400 });
+    }
+
+    let parent: ReviewComment | null = null;
+    if (parent_id) {
+      parent = await db.collection<ReviewComment>(REVIEW_COMMENTS_COLLECTION).findOne({ id: parent_id, page_id: id });
+      if (!parent) {
+        return NextResponse.json({ error: 'Parent comment not found' }, { status: 404 });
+      }
+    }
+
+    const user = await getAuthUser();
+    const fieldOfThread = parent ? parent.field : field;
+    const comment: ReviewComment = {
+      id: nanoid(12),
+      book_id: page.book_id,
+      page_id: id,
+      ...(fieldOfThread && { field: fieldOfThread }),
+      // Replies go on the thread's first comment
+      ...(parent && { parent_id: parent.parent_id || parent.id }),
+      content: content.trim(),
+      ...(suggestion && { suggestion: { original: suggestion.original!, replacement: suggestion.replacement! } }),
+      author: user?.name || author || 'Unknown',
+      ...(user && { user_id: user.id }),
+      created_at: new Date(),
+    };
+    await db.collection(REVIEW_COMMENTS_COLLECTION).insertOne(comment);
+
+    return NextResponse.json({ success: true, comment }, { status: 201 });
+  } catch (error) {
+    console.error('Error adding review comment:', error);
+    return NextResponse.json({ error: 'Failed to add comment' }, { status: 500 });
+  }
+}
@@ -1,14 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
-import { GoogleGenerativeAI, SchemaType } from '@google/generative-ai';
 import { images } from '@/lib/api-client';
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+import { requireRole } from '@/lib/auth-guard';
+import { generateText } from '@/lib/ai';
 
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const db = await getDb();
@@ -29,50 +31,8 @@ export async function POST(
     const imageData = await images.fetchBase64(imageUrl);
     const base64Image = typeof imageData === 'string' ? imageData : imageData.base64;
 
-    // Run Gemini detection (using fastest model)
-    const model = genAI.getGenerativeModel({
-      model: 'gemini-3-flash-preview',
-      generationConfig: {
-        responseMimeType: 'application/json',
-        responseSchema: {
-          type: SchemaType.OBJECT,
-          properties: {
-            isTwoPageSpread: { type: SchemaType.BOOLEAN },
-            confidence: { type: SchemaType.STRING },
-            reasoning: { type: SchemaType.STRING },
-            leftPage: {
-              type: SchemaType.OBJECT,
-              properties: {
-                xmin: { type: SchemaType.NUMBER },
-                xmax: { type: SchemaType.NUMBER },
-                ymin: { type: SchemaType.NUMBER },
-                ymax: { type: SchemaType.NUMBER },
-              },
-            },
-            rightPage: {
-              type: SchemaType.OBJECT,
-              properties: {
-                xmin: { type: SchemaType.NUMBER },
-                xmax: { type: SchemaType.NUMBER },
-                ymin: { type: SchemaType.NUMBER },
-                ymax: { type: SchemaType.NUMBER },
-              },
-            },
-          },
-          required: ['isTwoPageSpread', 'confidence', 'reasoning', 'leftPage', 'rightPage'],
-        },
-      },
-    });
-
-    const result = await model.generateContent([
-      {
-        inlineData: {
-          data: base64Image,
-          mimeType: 'image/jpeg',
-        },
-      },
-      {
-        text: `Analyze this book scan image.
+    // Run detection (using fastest model)
+    const prompt = `Analyze this book scan image.
 
 Is this a SINGLE PAGE or a TWO-PAGE SPREAD (open book with two facing pages)?
 
@@ -89,11 +49,23 @@ SINGLE PAGE indicators:
 If TWO PAGES: Return bounding boxes for left (0% to ~51%) and right (~49% to 100%)
 If ONE PAGE: Return full image as leftPage, set rightPage to zeros
 
-Coordinates as 0-1000 scale.`,
-      },
-    ]);
+Coordinates as 0-1000 scale.
+
+Return JSON in this exact shape:
+{
+  "isTwoPageSpread": true or false,
+  "confidence": "high" or "medium" or "low",
+  "reasoning": "<brief explanation>",
+  "leftPage": { "xmin": <number>, "xmax": <number>, "ymin": <number>, "ymax": <number> },
+  "rightPage": { "xmin": <number>, "xmax": <number>, "ymin": <number>, "ymax": <number> }
+}`;
+
+    const result = await generateText(prompt, 'gemini-3-flash-preview', {
+      images: [{ mimeType: 'image/jpeg', data: base64Image }],
+      json: true,
+    });
 
-    const detection = JSON.parse(result.response.text());
+    const detection = JSON.parse(result.text);
 
     // Save detection result to page
     await db.collection('pages').updateOne(
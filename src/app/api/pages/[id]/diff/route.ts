@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { getAuthUser, requireRole } from '@/lib/auth-guard';
+import { applyReview, diffTexts } from '@/lib/diff';
+import { DIFF_FIELDS, diffHash, latestSnapshotRef, resolveVersion } from '@/lib/page-versions';
+import { createSnapshotIfNeeded } from '@/lib/snapshots';
+import { refreshSearchIndex } from '@/lib/search/indexer';
+import { recordRevisions } from '@/lib/revisions';
+import type { Db } from 'mongodb';
+import type { DiffField, Page, PageDiff } from '@/lib/types';
+
+type DiffResult = { diff: PageDiff; from: string; to: string } | { error: string; status: number };
+
+async function buildDiff(db: Db, page: Page, field: DiffField, fromRef: string, toRef: string): Promise<DiffResult> {
+  const from = await resolveVersion(db, page, field, fromRef);
+  if ('error' in from) return from;
+  const to = await resolveVersion(db, page, field, toRef);
+  if ('error' in to) return to;
+
+  return {
+    diff: {
+      page_id: page.id,
+      field,
+      from: from.version,
+      to: to.version,
+      ...diffTexts(from.text, to.text),
+      hash: diffHash(from.text, to.text),
+    },
+    from: from.text,
+    to: to.text,
+  };
+}
+
+/**
+ * GET /api/pages/[id]/diff - Compare two versions of a page's text
+ *
+ * Query params:
+ *   field: 'ocr' | 'translation'     (default translation)
+ *   from:  current | snapshot:<id> | edition:<id>   (default: latest snapshot with the field)
+ *   to:    current | snapshot:<id> | edition:<id>   (default: current)
+ *
+ * Lines are compared with markup tags ignored; each hunk of changed lines
+ * carries a word-level diff.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const field = (searchParams.get('field') || 'translation') as DiffField;
+    if (!DIFF_FIELDS.includes(field)) {
+      return NextResponse.json({ error: 'field must be ocr or translation' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const page = await db.collection('pages').findOne({ id }) as unknown as Page | null;
+    if (!page) {
+      return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+    }
+
+    const fromRef = searchParams.get('from') || await latestSnapshotRef(db, id, field);
+    if (!fromRef) {
+      return NextResponse.json(
+        { error: 'No earlier version of this text to compare with; pass from' },
+        { status: 404 }
+      );
+    }
+
+    const result = await buildDiff(db, page, field, fromRef, searchParams.get('to') || 'current');
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    return NextResponse.json(result.diff);
+  } catch (error) {
+    console.error('Error diffing page:', error);
+    return NextResponse.json({ error: 'Failed to diff page' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/pages/[id]/diff - Apply a review of the changes to the current text
+ *
+ * Body: {
+ *   field: 'ocr' | 'translation',
+ *   from: string,              // The version the current text was compared with
+ *   hash: string,              // From the reviewed diff
+ *   rejected: number[],        // Hunks to revert to the "from" text; the rest are accepted
+ *   edited_by?: string
+ * }
+ *
+ * The current text is snapshotted first, and the result is saved as a
+ * manual edit. Returns 409 if either text changed since the diff was made.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { field, from, hash, rejected = [], edited_by } = body as {
+      field: DiffField;
+      from: string;
+      hash: string;
+      rejected?: number[];
+      edited_by?: string;
+    };
+
+    if (!DIFF_FIELDS.includes(field)) {
+      return NextResponse.json({ error: 'field must be ocr or translation' }, { status: 400 });
+    }
+    if (!from || !hash) {
+      return NextResponse.json({ error: 'from and hash are required' }, { status: 400 });
+    }
+    if (!Array.isArray(rejected) || !rejected.every(Number.isInteger)) {
+      return NextResponse.json({ error: 'rejected must be a list of hunk indexes' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const page = await db.collection('pages').findOne({ id }) as unknown as Page | null;
+    if (!page) {
+      return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+    }
+
+    const result = await buildDiff(db, page, field, from, 'current');
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+    if (result.diff.hash !== hash) {
+      return NextResponse.json(
+        { error: 'The text has changed since this diff was made. Reload it and review again.' },
+        { status: 409 }
+      );
+    }
+
+    const unknownHunk = rejected.find(index => !result.diff.hunks[index]);
+    if (unknownHunk !== undefined) {
+      return NextResponse.json({ error: `No hunk ${unknownHunk} in this diff` }, { status: 400 });
+    }
+
+    if (rejected.length === 0) {
+      return NextResponse.json({ success: true, changed: false, page });
+    }
+
+    await createSnapshotIfNeeded(id, 'pre_review', undefined, field);
+
+    const user = await getAuthUser();
+    const now = new Date();
+    const updatedPage = await db.collection('pages').findOneAndUpdate(
+      { id },
+      {
+        $set: {
+          [`${field}.data`]: applyReview(result.from, result.to, rejected),
+          [`${field}.updated_at`]: now,
+          [`${field}.source`]: 'manual',
+          [`${field}.edited_by`]: edited_by || user?.name || 'Unknown',
+          [`${field}.edited_at`]: now,
+          updated_at: now,
+        },
+        $inc: { edit_count: 1 },
+      },
+      { returnDocument: 'after' }
+    );
+
+    await refreshSearchIndex({ pageIds: [id] });
+    await recordRevisions([id], { via: 'review', user_id: user?.id });
+
+    return NextResponse.json({ success: true, changed: true, page: updatedPage });
+  } catch (error) {
+    console.error('Error applying review:', error);
+    return NextResponse.json({ error: 'Failed to apply review' }, { status: 500 });
+  }
+}
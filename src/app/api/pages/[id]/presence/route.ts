@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { getAuthUser, isSystemRequest, requireRole } from '@/lib/auth-guard';
+import { EDITABLE_FIELDS, PRESENCE_COLLECTION, PRESENCE_WINDOW_MS } from '@/lib/collaboration';
+import type { EditableField, PagePresence } from '@/lib/types';
+
+// The caller's presence key and display name
+async function presenceIdentity(name?: string): Promise<{ user_key: string; user_id?: string; name: string } | null> {
+  const user = await getAuthUser();
+  if (user) {
+    return { user_key: user.id, user_id: user.id, name: user.name || user.email || 'Unknown' };
+  }
+  if (name && await isSystemRequest()) {
+    return { user_key: `name:${name}`, name };
+  }
+  return null;
+}
+
+async function activeEditors(pageId: string, excludeKey?: string): Promise<PagePresence[]> {
+  const db = await getDb();
+  return db.collection<PagePresence>(PRESENCE_COLLECTION)
+    .find(
+      {
+        page_id: pageId,
+        seen_at: { $gte: new Date(Date.now() - PRESENCE_WINDOW_MS) },
+        ...(excludeKey && { user_key: { $ne: excludeKey } }),
+      },
+      { projection: { _id: 0, tenant_id: 0 } }
+    )
+    .sort({ seen_at: -1 })
+    .toArray();
+}
+
+/**
+ * GET /api/pages/[id]/presence - Who has the page open in the editor
+ *
+ * Editors whose last heartbeat is less than 45 seconds old.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    return NextResponse.json({ editors: await activeEditors(id) });
+  } catch (error) {
+    console.error('Error fetching page presence:', error);
+    return NextResponse.json({ error: 'Failed to fetch presence' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/pages/[id]/presence - Heartbeat from an open editor
+ *
+ * Body: { field?: 'ocr' | 'translation' | 'summary', name?: string }
+ * (name is for system requests only)
+ *
+ * Returns the other editors on the page.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const { field, name } = await request.json().catch(() => ({})) as { field?: EditableField; name?: string };
+    if (field && !EDITABLE_FIELDS.includes(field)) {
+      return NextResponse.json({ error: 'field must be ocr, translation or summary' }, { status: 400 });
+    }
+
+    const identity = await presenceIdentity(name);
+    if (!identity) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    await db.collection(PRESENCE_COLLECTION).updateOne(
+      { page_id: id, user_key: identity.user_key },
+      {
+        $set: { ...identity, seen_at: new Date(), ...(field && { field }) },
+        ...(!field && { $unset: { field: '' } }),
+      },
+      { upsert: true }
+    );
+
+    return NextResponse.json({ editors: await activeEditors(id, identity.user_key) });
+  } catch (error) {
+    console.error('Error recording page presence:', error);
+    return NextResponse.json({ error: 'Failed to record presence' }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/pages/[id]/presence - The editor was closed
+ *
+ * Query params: name (system requests only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const identity = await presenceIdentity(new URL(request.url).searchParams.get('name') || undefined);
+    if (!identity) {
+      return NextResponse.json({ error: 'name is required' }, { status: 400 });
+    }
+
+    const db = await getDb();
+    await db.collection(PRESENCE_COLLECTION).deleteOne({ page_id: id, user_key: identity.user_key });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error clearing page presence:', error);
+    return NextResponse.json({ error: 'Failed to clear presence' }, { status: 500 });
+  }
+}
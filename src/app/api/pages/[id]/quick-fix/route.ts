@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { z } from 'zod';
 import { applyFix, validateTranslation } from '@/lib/validateTranslation';
+import { getAuthUser, requireRole } from '@/lib/auth-guard';
+import { recordRevisions } from '@/lib/revisions';
 
 const quickFixSchema = z.object({
   field: z.enum(['translation', 'ocr']),
@@ -17,6 +19,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const db = await getDb();
@@ -68,6 +73,13 @@ export async function PATCH(
       return NextResponse.json({ error: 'Failed to update page' }, { status: 500 });
     }
 
+    const user = await getAuthUser();
+    await recordRevisions([id], {
+      via: 'editor',
+      source: 'manual',
+      ...(user && { author: user.name || user.email || undefined, user_id: user.id }),
+    });
+
     return NextResponse.json({
       success: true,
       field,
@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { nanoid } from 'nanoid';
+import { getDb } from '@/lib/mongodb';
+import { getAuthUser, isSystemRequest, requireRole } from '@/lib/auth-guard';
+import { DIFF_FIELDS } from '@/lib/page-versions';
+import { applyReviewAction, getFieldReview, REVIEW_ACTIONS, REVIEW_COMMENTS_COLLECTION, reviewPath, reviewPolicy } from '@/lib/review';
+import { getTranslation, resolveTargetLanguage, targetLanguageName } from '@/lib/translation-languages';
+import type { Book, DiffField, Page, ReviewAction, ReviewComment, Reviewer } from '@/lib/types';
+
+// Actions that judge someone else's work need an editor
+const EDITOR_ACTIONS: ReviewAction[] = ['approve', 'request_changes', 'reopen'];
+
+/**
+ * GET /api/pages/[id]/review-status - Review state of a page's OCR and translation
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const db = await getDb();
+    const page = await db.collection('pages').findOne(
+      { id },
+      { projection: { id: 1, book_id: 1, page_number: 1, review: 1 } }
+    ) as unknown as Pick<Page, 'id' | 'book_id' | 'page_number' | 'review'> | null;
+    if (!page) {
+      return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+    }
+
+    const book = await db.collection('books').findOne(
+      { id: page.book_id },
+      { projection: { review_policy: 1 } }
+    ) as unknown as Pick<Book, 'review_policy'> | null;
+
+    return NextResponse.json({
+      page_id: page.id,
+      page_number: page.page_number,
+      review: page.review || {},
+      policy: reviewPolicy(book),
+    });
+  } catch (error) {
+    console.error('Error fetching review status:', error);
+    return NextResponse.json({ error: 'Failed to fetch review status' }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/pages/[id]/review-status - Move a field through review
+ *
+ * Body: {
+ *   field: 'ocr' | 'translation',
+ *   target_language?: string,                         // Which translation, for field 'translation'; default 'en'
+ *   action: 'assign' | 'unassign' | 'start' | 'request_changes' | 'approve' | 'reopen',
+ *   assignee?: { user_id?: string, name: string },   // For assign; defaults to the caller
+ *   note?: string,                                    // Added to the page's comment thread
+ *   reviewer?: string                                 // Name to act as, for system requests only
+ * }
+ *
+ * Contributors can claim and start reviews; approving, requesting changes,
+ * reopening and assigning others need an editor. A field is approved once
+ * the book's required number of distinct reviewers have approved it. Each
+ * target language's translation is reviewed separately.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const body = await request.json();
+    const { field, action, assignee, note, reviewer, target_language } = body as {
+      field: DiffField;
+      target_language?: string;
+      action: ReviewAction;
+      assignee?: Reviewer;
+      note?: string;
+      reviewer?: string;
+    };
+
+    if (!DIFF_FIELDS.includes(field)) {
+      return NextResponse.json({ error: 'field must be ocr or translation' }, { status: 400 });
+    }
+    if (!REVIEW_ACTIONS.includes(action)) {
+      return NextResponse.json({ error: `action must be one of: ${REVIEW_ACTIONS.join(', ')}` }, { status: 400 });
+    }
+    if (action === 'assign' && assignee !== undefined && !assignee?.name) {
+      return NextResponse.json({ error: 'assignee must have a name' }, { status: 400 });
+    }
+    const targetLanguage = resolveTargetLanguage(target_language);
+    if (!targetLanguage) {
+      return NextResponse.json({ error: `Unsupported target language: ${target_language}` }, { status: 400 });
+    }
+
+    const user = await getAuthUser();
+    const system = !user && await isSystemRequest();
+    const actor: Reviewer = user
+      ? { user_id: user.id, name: user.name || user.email || 'Unknown' }
+      : { name: (system && reviewer) || 'System' };
+
+    // The editor check also holds an API key to the edit scope
+    const assigningOther = action === 'assign' && !!assignee &&
+      (assignee.user_id ? assignee.user_id !== actor.user_id : assignee.name !== actor.name);
+    if (EDITOR_ACTIONS.includes(action) || assigningOther) {
+      const editorDenied = await requireRole('editor');
+      if (editorDenied) return editorDenied;
+    }
+
+    const db = await getDb();
+    const page = await db.collection('pages').findOne({ id }) as unknown as Page | null;
+    if (!page) {
+      return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+    }
+    const text = field === 'ocr' ? page.ocr : getTranslation(page, targetLanguage);
+    if (!text?.data) {
+      const missing = field === 'ocr' ? 'OCR' : `${targetLanguageName(targetLanguage)} translation`;
+      return NextResponse.json({ error: `This page has no ${missing} to review` }, { status: 400 });
+    }
+
+    const book = await db.collection('books').findOne(
+      { id: page.book_id },
+      { projection: { review_policy: 1 } }
+    ) as unknown as Pick<Book, 'review_policy'> | null;
+
+    const result = applyReviewAction(getFieldReview(page, field, targetLanguage), action, {
+      actor,
+      assignee,
+      policy: reviewPolicy(book),
+    });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    await db.collection('pages').updateOne({ id }, { $set: { [`review.${reviewPath(field, targetLanguage)}`]: result.review } });
+
+    if (note?.trim()) {
+      const comment: ReviewComment = {
+        id: nanoid(12),
+        book_id: page.book_id,
+        page_id: id,
+        field,
+        content: note.trim(),
+        author: actor.name,
+        ...(actor.user_id && { user_id: actor.user_id }),
+        created_at: new Date(),
+      };
+      await db.collection(REVIEW_COMMENTS_COLLECTION).insertOne(comment);
+    }
+
+    return NextResponse.json({ success: true, page_id: id, field, review: result.review });
+  } catch (error) {
+    console.error('Error updating review status:', error);
+    return NextResponse.json({ error: 'Failed to update review status' }, { status: 500 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { REVISIONS_COLLECTION } from '@/lib/revisions';
+
+/**
+ * GET /api/pages/[id]/revisions/[revisionId] - One revision, with its text
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const { id, revisionId } = await params;
+    const db = await getDb();
+    const revision = await db.collection(REVISIONS_COLLECTION).findOne(
+      { id: revisionId, page_id: id },
+      { projection: { _id: 0 } }
+    );
+
+    if (!revision) {
+      return NextResponse.json({ error: 'Revision not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(revision);
+  } catch (error) {
+    console.error('Error fetching revision:', error);
+    return NextResponse.json({ error: 'Failed to fetch revision' }, { status: 500 });
+  }
+}
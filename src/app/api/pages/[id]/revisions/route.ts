@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { revisionLanguageFilter, REVISIONS_COLLECTION } from '@/lib/revisions';
+import { resolveTargetLanguage } from '@/lib/translation-languages';
+import type { PageRevision } from '@/lib/types';
+
+/**
+ * GET /api/pages/[id]/revisions - Revision history of a page's OCR and translation
+ *
+ * Query params:
+ *   field: 'ocr' | 'translation'   (default both)
+ *   target_language: BCP 47 code   (only that language's translation revisions)
+ *   include_text: 'true'           (default: metadata and diff size only)
+ *
+ * Newest first.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const field = searchParams.get('field');
+    const includeText = searchParams.get('include_text') === 'true';
+
+    if (field && field !== 'ocr' && field !== 'translation') {
+      return NextResponse.json({ error: 'field must be ocr or translation' }, { status: 400 });
+    }
+    const targetLanguageParam = searchParams.get('target_language');
+    const targetLanguage = targetLanguageParam ? resolveTargetLanguage(targetLanguageParam) : null;
+    if (targetLanguageParam && !targetLanguage) {
+      return NextResponse.json({ error: `Unsupported target language: ${targetLanguageParam}` }, { status: 400 });
+    }
+
+    const db = await getDb();
+    const revisions = await db.collection<PageRevision>(REVISIONS_COLLECTION)
+      .find(
+        {
+          page_id: id,
+          ...(field && { field: field as PageRevision['field'] }),
+          ...(targetLanguage && { field: 'translation' as const, ...revisionLanguageFilter(targetLanguage) }),
+        },
+        { projection: includeText ? { _id: 0 } : { _id: 0, text: 0 } }
+      )
+      .sort({ created_at: -1, revision: -1 })
+      .toArray();
+
+    return NextResponse.json({ revisions, count: revisions.length });
+  } catch (error) {
+    console.error('Error fetching revisions:', error);
+    return NextResponse.json({ error: 'Failed to fetch revisions' }, { status: 500 });
+  }
+}
@@ -1,6 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { z } from 'zod';
+import { refreshSearchIndex } from '@/lib/search/indexer';
+import { getAuthUser, requireRole } from '@/lib/auth-guard';
+import { recordRevisions } from '@/lib/revisions';
+import { EDITABLE_FIELDS, findConflicts, unchangedFilter } from '@/lib/collaboration';
+import type { Page } from '@/lib/types';
+import {
+  DEFAULT_TARGET_LANGUAGE,
+  resolveTargetLanguage,
+  translationPath,
+  updateTranslationProgress,
+  withTranslation,
+} from '@/lib/translation-languages';
 
 // Validation schema for page updates
 const pageUpdateSchema = z.object({
@@ -20,6 +32,13 @@ const pageUpdateSchema = z.object({
   }).optional(),
   // Source tracking for manual edits
   edited_by: z.string().max(100).optional(),
+  // Versions of the text the edit started from; fields saved by someone
+  // else since then are refused with 409
+  base_versions: z.object({
+    ocr: z.string().max(64).optional(),
+    translation: z.string().max(64).optional(),
+    summary: z.string().max(64).optional(),
+  }).optional(),
 }).refine(data => data.ocr || data.translation || data.summary, {
   message: 'At least one of ocr, translation, or summary must be provided',
 });
@@ -48,6 +67,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const db = await getDb();
@@ -63,6 +85,16 @@ export async function PATCH(
     }
     const body = parseResult.data;
 
+    // A translation's language says which of the page's translations it is
+    const targetLanguage = body.translation ? resolveTargetLanguage(body.translation.language) : DEFAULT_TARGET_LANGUAGE;
+    if (!targetLanguage) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: { translation: [`Unsupported target language: ${body.translation?.language}`] } },
+        { status: 400 }
+      );
+    }
+    const translationField = translationPath(targetLanguage);
+
     const updateData: Record<string, unknown> = {
       updated_at: new Date()
     };
@@ -84,14 +116,14 @@ export async function PATCH(
 
     // Update translation if provided - mark as manual edit
     if (body.translation) {
-      updateData['translation.data'] = body.translation.data;
-      updateData['translation.language'] = body.translation.language;
-      updateData['translation.model'] = body.translation.model || 'manual';
-      updateData['translation.updated_at'] = now;
+      updateData[`${translationField}.data`] = body.translation.data;
+      updateData[`${translationField}.language`] = body.translation.language;
+      updateData[`${translationField}.model`] = body.translation.model || 'manual';
+      updateData[`${translationField}.updated_at`] = now;
       // Source tracking
-      updateData['translation.source'] = 'manual';
-      updateData['translation.edited_by'] = editedBy;
-      updateData['translation.edited_at'] = now;
+      updateData[`${translationField}.source`] = 'manual';
+      updateData[`${translationField}.edited_by`] = editedBy;
+      updateData[`${translationField}.edited_at`] = now;
     }
 
     // Update summary if provided - mark as manual edit
@@ -105,13 +137,49 @@ export async function PATCH(
       updateData['summary.edited_at'] = now;
     }
 
+    // Fields sent with the version they were edited from are only written
+    // if nobody else has saved them since
+    const checkedFields = EDITABLE_FIELDS.filter(field => body[field] && body.base_versions?.[field]);
+    let filter: Record<string, unknown> = { id };
+    if (checkedFields.length > 0) {
+      const stored = await db.collection('pages').findOne(
+        { id },
+        { projection: { ocr: 1, translation: 1, translations: 1, summary: 1 } }
+      ) as unknown as Pick<Page, 'ocr' | 'translation' | 'translations' | 'summary'> | null;
+      if (!stored) {
+        return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+      }
+      const current = withTranslation(stored, targetLanguage);
+      const conflicts = await findConflicts(current, body, body.base_versions!);
+      if (conflicts.length > 0) {
+        return NextResponse.json(
+          { error: 'This page was changed by someone else while you were editing', conflicts },
+          { status: 409 }
+        );
+      }
+      filter = { id, ...unchangedFilter(current, checkedFields, targetLanguage) };
+    }
+
     // Use findOneAndUpdate to get updated document in a single query
     const updatedPage = await db.collection('pages').findOneAndUpdate(
-      { id },
+      filter,
       { $set: updateData, $inc: { edit_count: 1 } },
       { returnDocument: 'after' }
     );
 
+    if (!updatedPage && checkedFields.length > 0) {
+      // Another save landed between the check and the write
+      const current = await db.collection('pages').findOne({ id }) as unknown as Page | null;
+      if (current) {
+        return NextResponse.json(
+          {
+            error: 'This page was changed by someone else while you were editing',
+            conflicts: await findConflicts(withTranslation(current, targetLanguage), body, body.base_versions!),
+          },
+          { status: 409 }
+        );
+      }
+    }
     if (!updatedPage) {
       return NextResponse.json({ error: 'Page not found' }, { status: 404 });
     }
@@ -124,6 +192,17 @@ export async function PATCH(
       ).catch(() => {}); // Non-critical, don't fail the request
     }
 
+    // A first translation into another language starts that language's progress
+    if (body.translation && targetLanguage !== DEFAULT_TARGET_LANGUAGE && updatedPage.book_id) {
+      updateTranslationProgress(db, updatedPage.book_id, targetLanguage).catch(() => {});
+    }
+
+    if (body.ocr || body.translation) {
+      await refreshSearchIndex({ pageIds: [id] });
+      const user = await getAuthUser();
+      await recordRevisions([id], { via: 'editor', user_id: user?.id });
+    }
+
     return NextResponse.json(updatedPage);
   } catch (error) {
     console.error('Error updating page:', error);
@@ -135,6 +214,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const db = await getDb();
@@ -147,6 +229,7 @@ export async function DELETE(
 
     // Delete the page
     await db.collection('pages').deleteOne({ id });
+    await refreshSearchIndex({ pageIds: [id] });
 
     // Renumber remaining pages for this book - use bulkWrite for speed
     const remainingPages = await db.collection('pages')
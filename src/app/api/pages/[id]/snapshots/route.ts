@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getPageSnapshots, restoreSnapshot } from '@/lib/snapshots';
+import { requireRole } from '@/lib/auth-guard';
 
 // GET /api/pages/[id]/snapshots - List all snapshots for a page
 export async function GET(
@@ -25,6 +26,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id: pageId } = await params;
     const body = await request.json();
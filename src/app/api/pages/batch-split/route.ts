@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
-import { nanoid } from 'nanoid';
+import { requireRole } from '@/lib/auth-guard';
+import { enqueueJob, kickJob } from '@/lib/queue';
 
 interface SplitRequest {
   pageId: string;
@@ -11,6 +12,9 @@ interface SplitRequest {
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const { splits }: { splits: SplitRequest[] } = body;
@@ -134,31 +138,17 @@ export async function POST(request: NextRequest) {
 
     let cropJobId: string | null = null;
     if (splitPageIds.length > 0) {
-      cropJobId = nanoid(12);
-      await db.collection('jobs').insertOne({
-        id: cropJobId,
+      const cropJob = await enqueueJob(db, {
         type: 'generate_cropped_images',
-        status: 'pending',
-        progress: {
-          total: splitPageIds.length,
-          completed: 0,
-          failed: 0,
-        },
         book_id: bookId,
-        created_at: new Date(),
-        updated_at: new Date(),
-        results: [],
         config: {
           page_ids: splitPageIds,
         },
       });
+      cropJobId = cropJob.id;
 
-      // Fire off the first chunk processing (non-blocking)
-      fetch(`${process.env.NEXT_PUBLIC_URL || ''}/api/jobs/${cropJobId}/process`, {
-        method: 'POST',
-      }).catch(() => {
-        // Ignore errors - job will be picked up later
-      });
+      // Start on the first chunk (non-blocking)
+      kickJob(cropJobId);
     }
 
     // Log adjustments for algorithm learning (non-blocking)
@@ -1,20 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { MODEL_PRICING } from '@/lib/ai';
+import { generateText } from '@/lib/ai';
 import crypto from 'crypto';
 import { images } from '@/lib/api-client';
+import { requireRole } from '@/lib/auth-guard';
 
 export const maxDuration = 300;
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
-
-function calculateCost(inputTokens: number, outputTokens: number, model: string): number {
-  const pricing = MODEL_PRICING[model] || MODEL_PRICING['default'];
-  const inputCost = (inputTokens / 1_000_000) * pricing.input;
-  const outputCost = (outputTokens / 1_000_000) * pricing.output;
-  return inputCost + outputCost;
-}
 
 async function fetchImageAsBase64(url: string): Promise<{ data: string; mimeType: string } | null> {
   try {
@@ -59,6 +51,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const { condition_id }: { condition_id: string } = await request.json();
@@ -108,7 +103,6 @@ export async function POST(
       }
     );
 
-    const model = genAI.getGenerativeModel({ model: condition.ocrModel });
     const results: Array<{
       page_id: string;
       page_number: number;
@@ -140,17 +134,11 @@ export async function POST(
 
         if (condition.type === 'single_pass') {
           // Single pass: OCR + Translate in one call
-          const result = await model.generateContent([
-            SINGLE_PASS_PROMPT,
-            { inlineData: { mimeType: image.mimeType, data: image.data } },
-          ]);
-
-          const text = result.response.text();
-          const usage = result.response.usageMetadata;
-          const inputTokens = usage?.promptTokenCount || 0;
-          const outputTokens = usage?.candidatesTokenCount || 0;
-          totalCost += calculateCost(inputTokens, outputTokens, condition.ocrModel);
-          totalTokens += inputTokens + outputTokens;
+          const { text, usage } = await generateText(SINGLE_PASS_PROMPT, condition.ocrModel, {
+            images: [{ mimeType: image.mimeType, data: image.data }],
+          });
+          totalCost += usage.costUsd;
+          totalTokens += usage.totalTokens;
 
           // Parse response
           const ocrMatch = text.match(/===\s*LATIN OCR\s*===\s*([\s\S]*?)(?:===\s*ENGLISH|$)/i);
@@ -166,29 +154,18 @@ export async function POST(
         } else {
           // Two pass: OCR first, then translate
           // Step 1: OCR
-          const ocrResult = await model.generateContent([
-            TWO_PASS_OCR_PROMPT,
-            { inlineData: { mimeType: image.mimeType, data: image.data } },
-          ]);
-
-          const ocrText = ocrResult.response.text();
-          const ocrUsage = ocrResult.response.usageMetadata;
-          const ocrInputTokens = ocrUsage?.promptTokenCount || 0;
-          const ocrOutputTokens = ocrUsage?.candidatesTokenCount || 0;
-          totalCost += calculateCost(ocrInputTokens, ocrOutputTokens, condition.ocrModel);
-          totalTokens += ocrInputTokens + ocrOutputTokens;
+          const { text: ocrText, usage: ocrUsage } = await generateText(TWO_PASS_OCR_PROMPT, condition.ocrModel, {
+            images: [{ mimeType: image.mimeType, data: image.data }],
+          });
+          totalCost += ocrUsage.costUsd;
+          totalTokens += ocrUsage.totalTokens;
 
           // Step 2: Translate
-          const translateModel = genAI.getGenerativeModel({ model: condition.translateModel });
           const translatePrompt = TWO_PASS_TRANSLATE_PROMPT.replace('{ocr_text}', ocrText);
 
-          const translateResult = await translateModel.generateContent(translatePrompt);
-          const translation = translateResult.response.text();
-          const transUsage = translateResult.response.usageMetadata;
-          const transInputTokens = transUsage?.promptTokenCount || 0;
-          const transOutputTokens = transUsage?.candidatesTokenCount || 0;
-          totalCost += calculateCost(transInputTokens, transOutputTokens, condition.translateModel);
-          totalTokens += transInputTokens + transOutputTokens;
+          const { text: translation, usage: transUsage } = await generateText(translatePrompt, condition.translateModel);
+          totalCost += transUsage.costUsd;
+          totalTokens += transUsage.totalTokens;
 
           results.push({
             page_id: page.id,
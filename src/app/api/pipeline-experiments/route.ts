@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import crypto from 'crypto';
+import { requireRole } from '@/lib/auth-guard';
 
 export interface PipelineCondition {
   id: string;
@@ -12,6 +13,9 @@ export interface PipelineCondition {
 
 // POST /api/experiments/pipeline - Create pipeline experiment
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const {
       book_id,
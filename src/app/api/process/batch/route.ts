@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { performOCR } from '@/lib/ai';
+import { refreshSearchIndex } from '@/lib/search/indexer';
+import { recordRevisions } from '@/lib/revisions';
 import { DEFAULT_MODEL } from '@/lib/types';
+import { requireRole } from '@/lib/auth-guard';
 
 const CONCURRENCY_LIMIT = 10;
 
@@ -86,6 +89,8 @@ async function processChunk(
             },
           }
         );
+        await refreshSearchIndex({ pageIds: [page.pageId] });
+        await recordRevisions([page.pageId], { via: 'process' });
       }
 
       return {
@@ -109,6 +114,9 @@ async function processChunk(
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const body: BatchOCRRequest = await request.json();
     const { pages, autoSave = true, model = DEFAULT_MODEL } = body;
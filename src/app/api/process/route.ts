@@ -3,9 +3,22 @@ import { getDb } from '@/lib/mongodb';
 import { performOCR, performOCRWithBuffer, performTranslation, generateSummary, TokenUsage } from '@/lib/ai';
 import { getOcrPrompt, getTranslationPrompt, getSummaryPrompt, type PromptLookupResult } from '@/lib/prompts';
 import { createSnapshotIfNeeded } from '@/lib/snapshots';
-import { DEFAULT_MODEL } from '@/lib/types';
+import { refreshSearchIndex } from '@/lib/search/indexer';
+import { recordRevisions } from '@/lib/revisions';
+import { selectTranslationGuidance } from '@/lib/glossary/match';
+import { loadTranslationResources } from '@/lib/glossary/store';
+import { DEFAULT_MODEL, type OcrLayout, type Page, type SpendAction, type TranslationGuidance } from '@/lib/types';
 import sharp from 'sharp';
-import { put } from '@vercel/blob';
+import { putObject } from '@/lib/storage';
+import { getAuthUser, requireRole } from '@/lib/auth-guard';
+import { recordSpend } from '@/lib/budgets';
+import {
+  getTranslation,
+  resolveTargetLanguage,
+  targetLanguageName,
+  translationPath,
+  updateTranslationProgress,
+} from '@/lib/translation-languages';
 
 // Increase timeout for AI processing (max 60s for Pro, 10s for Hobby)
 export const maxDuration = 60;
@@ -31,6 +44,9 @@ async function recordProcessingMetric(
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const {
@@ -45,9 +61,17 @@ export async function POST(request: NextRequest) {
       customPrompts,
       autoSave = true,
       model = DEFAULT_MODEL,
+      layout = false, // also locate OCR lines and words on the image
       promptInfo // { ocr?: string, translation?: string, summary?: string } - prompt names
     } = body;
 
+    // Translations other than English are kept alongside it, by language code
+    const targetCode = resolveTargetLanguage(targetLanguage);
+    if (!targetCode) {
+      return NextResponse.json({ error: `Unsupported target language: ${targetLanguage}` }, { status: 400 });
+    }
+    const targetName = targetLanguageName(targetCode);
+
     const db = await getDb();
 
     // Get previous page context if provided
@@ -57,7 +81,7 @@ export async function POST(request: NextRequest) {
       if (prevPageDoc) {
         previousPage = {
           ocr: prevPageDoc.ocr?.data,
-          translation: prevPageDoc.translation?.data,
+          translation: getTranslation(prevPageDoc as unknown as Page, targetCode)?.data,
           summary: prevPageDoc.summary?.data
         };
       }
@@ -70,6 +94,7 @@ export async function POST(request: NextRequest) {
       summary?: { inputTokens: number; outputTokens: number; costUsd: number; durationMs: number };
     } = {};
     let totalUsage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0 };
+    let ocrLayout: OcrLayout | undefined;
 
     // Look up prompts from DB (with versioning)
     // customPrompts override DB lookups for backwards compatibility
@@ -86,7 +111,7 @@ export async function POST(request: NextRequest) {
       });
     }
     if (action === 'translation' || action === 'all') {
-      promptRefs.translation = await getTranslationPrompt(language || 'Latin', targetLanguage, {
+      promptRefs.translation = await getTranslationPrompt(language || 'Latin', targetName, {
         name: promptInfo?.translation,
         customText: customPrompts?.translation,
       });
@@ -104,7 +129,7 @@ export async function POST(request: NextRequest) {
         await createSnapshotIfNeeded(pageId, 'pre_ocr');
       }
       if (action === 'translation' || action === 'all') {
-        await createSnapshotIfNeeded(pageId, 'pre_translate');
+        await createSnapshotIfNeeded(pageId, 'pre_translate', undefined, undefined, targetCode);
       }
       if (action === 'summary' || action === 'all') {
         await createSnapshotIfNeeded(pageId, 'pre_summary');
@@ -136,7 +161,8 @@ export async function POST(request: NextRequest) {
             language || 'Latin',
             previousPage?.ocr,
             promptRefs.ocr?.text,
-            model
+            model,
+            { layout }
           );
         } else if (currentPage?.crop?.xStart !== undefined && currentPage?.crop?.xEnd !== undefined) {
           // SPLIT PAGE without cropped_photo - crop inline to avoid using full spread!
@@ -174,19 +200,25 @@ export async function POST(request: NextRequest) {
             language || 'Latin',
             previousPage?.ocr,
             promptRefs.ocr?.text,
-            model
+            model,
+            { layout }
           );
 
           // Upload cropped image in background for future use
           const filename = `cropped/${currentPage.book_id}/${pageId}.jpg`;
-          put(filename, croppedBuffer, {
-            access: 'public',
+          putObject(filename, croppedBuffer, {
             contentType: 'image/jpeg',
-            allowOverwrite: true,
+            overwrite: true,
           }).then(blob => {
             db.collection('pages').updateOne(
               { id: pageId },
-              { $set: { cropped_photo: blob.url, updated_at: new Date() } }
+              {
+                $set: {
+                  cropped_photo: blob.url,
+                  ...(imgMetadata.width && imgMetadata.height && { original_dimensions: { width: imgMetadata.width, height: imgMetadata.height } }),
+                  updated_at: new Date(),
+                },
+              }
             );
             console.log(`[process] Page ${pageId}: Saved cropped_photo for future use`);
           }).catch(err => {
@@ -203,7 +235,8 @@ export async function POST(request: NextRequest) {
             language || 'Latin',
             previousPage?.ocr,
             promptRefs.ocr?.text,
-            model
+            model,
+            { layout }
           );
         } else {
           // Fallback to provided imageUrl
@@ -213,7 +246,8 @@ export async function POST(request: NextRequest) {
             language || 'Latin',
             previousPage?.ocr,
             promptRefs.ocr?.text,
-            model
+            model,
+            { layout }
           );
         }
       } else {
@@ -223,7 +257,8 @@ export async function POST(request: NextRequest) {
           language || 'Latin',
           previousPage?.ocr,
           promptRefs.ocr?.text,
-          model
+          model,
+          { layout }
         );
       }
 
@@ -233,6 +268,8 @@ export async function POST(request: NextRequest) {
       totalUsage.totalTokens += ocrResult.usage.totalTokens;
       totalUsage.costUsd += ocrResult.usage.costUsd;
 
+      ocrLayout = ocrResult.layout;
+
       const ocrDuration = performance.now() - ocrStart;
       metadata.ocr = {
         inputTokens: ocrResult.usage.inputTokens,
@@ -256,14 +293,28 @@ export async function POST(request: NextRequest) {
       if (!textToTranslate) {
         return NextResponse.json({ error: 'ocrText required for translation' }, { status: 400 });
       }
+      // Hold the translation to the book's glossary and approved translations
+      let guidance: TranslationGuidance | undefined;
+      if (pageId) {
+        const page = await db.collection('pages').findOne({ id: pageId }, { projection: { book_id: 1 } });
+        if (page?.book_id) {
+          const resources = await loadTranslationResources(page.book_id, {
+            sourceLanguage: language || 'Latin',
+            targetLanguage: targetName,
+          });
+          guidance = selectTranslationGuidance(resources, textToTranslate);
+        }
+      }
+
       const translationStart = performance.now();
       const translationResult = await performTranslation(
         textToTranslate,
         language || 'Latin',
-        targetLanguage,
+        targetName,
         previousPage?.translation,
         promptRefs.translation?.text,
-        model
+        model,
+        { guidance }
       );
       results.translation = translationResult.text;
       totalUsage.inputTokens += translationResult.usage.inputTokens;
@@ -281,7 +332,7 @@ export async function POST(request: NextRequest) {
       await recordProcessingMetric(db, 'translation_processing', translationDuration, {
         pageId,
         sourceLanguage: language || 'Latin',
-        targetLanguage,
+        targetLanguage: targetName,
         inputLength: textToTranslate.length,
         outputLength: results.translation?.length || 0,
         inputTokens: translationResult.usage.inputTokens,
@@ -344,13 +395,15 @@ export async function POST(request: NextRequest) {
           processing_ms: metadata.ocr?.durationMs,
           // Track which image was used for debugging split page issues
           image_url: metadata.ocr?.imageUrl,
+          // Line and word boxes, when requested
+          ...(ocrLayout && { layout: ocrLayout }),
         };
       }
 
       if (results.translation && promptRefs.translation) {
-        updateData['translation'] = {
+        updateData[translationPath(targetCode)] = {
           data: results.translation,
-          language: targetLanguage,
+          language: targetName,
           model,
           prompt: promptRefs.translation.reference,
           updated_at: new Date(),
@@ -383,22 +436,18 @@ export async function POST(request: NextRequest) {
         { $set: updateData }
       );
 
+      if (results.ocr || results.translation) {
+        await refreshSearchIndex({ pageIds: [pageId] });
+        const user = await getAuthUser();
+        await recordRevisions([pageId], { via: 'process', user_id: user?.id });
+      }
+
       // Update book counts if translation was processed
       if (results.translation) {
         const page = await db.collection('pages').findOne({ id: pageId });
         if (page?.book_id) {
-          const bookId = page.book_id;
-          const now = new Date();
           // Fire and forget - count translations for this book
-          db.collection('pages').countDocuments({
-            book_id: bookId,
-            'translation.data': { $exists: true, $nin: [null, ''] }
-          }).then(translatedCount => {
-            db.collection('books').updateOne(
-              { id: bookId },
-              { $set: { pages_translated: translatedCount, last_translation_at: now, updated_at: now } }
-            );
-          }).catch(() => {});
+          updateTranslationProgress(db, page.book_id, targetCode).catch(() => {});
         }
       }
     }
@@ -406,9 +455,27 @@ export async function POST(request: NextRequest) {
     // Track total cost in a separate collection for analytics
     if (totalUsage.costUsd > 0) {
       try {
+        const bookId = pageId ? (await db.collection('pages').findOne({ id: pageId }))?.book_id : null;
+
+        // Charge each call to the budgets of the book and the signed-in user
+        const user = await getAuthUser();
+        for (const [spendAction, usage] of Object.entries(metadata) as Array<[SpendAction, typeof metadata.ocr]>) {
+          if (!usage) continue;
+          await recordSpend({
+            action: spendAction,
+            model,
+            ...(bookId && { book_id: bookId }),
+            ...(pageId && { page_id: pageId }),
+            ...(user && { user_id: user.id }),
+            input_tokens: usage.inputTokens,
+            output_tokens: usage.outputTokens,
+            cost_usd: usage.costUsd,
+          });
+        }
+
         await db.collection('cost_tracking').insertOne({
           pageId,
-          bookId: pageId ? (await db.collection('pages').findOne({ id: pageId }))?.book_id : null,
+          bookId,
           action,
           model,
           ...totalUsage,
@@ -420,7 +487,7 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    return NextResponse.json({ ...results, usage: totalUsage });
+    return NextResponse.json({ ...results, ...(ocrLayout && { layout: ocrLayout }), usage: totalUsage });
   } catch (error) {
     console.error('Error processing:', error);
     const errorMessage = error instanceof Error ? error.message : 'Processing failed';
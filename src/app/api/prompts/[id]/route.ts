@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { ObjectId } from 'mongodb';
 import type { Prompt } from '@/lib/types';
+import { requireRole } from '@/lib/auth-guard';
+import { DEFAULT_TARGET_LANGUAGE, promptLanguageFilter } from '@/lib/translation-languages';
 
 // Helper to extract variables from prompt text
 function extractVariables(text: string): string[] {
@@ -41,6 +43,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const body = await request.json();
@@ -66,10 +71,10 @@ export async function PATCH(
 
     const newVersion = (latestVersion?.version || 0) + 1;
 
-    // If setting as default, unset current default for this type
+    // If setting as default, unset current default for this type and language
     if (setAsDefault) {
       await collection.updateMany(
-        { type: existingPrompt.type, is_default: true },
+        { type: existingPrompt.type, is_default: true, ...promptLanguageFilter(existingPrompt.target_language || DEFAULT_TARGET_LANGUAGE) },
         { $set: { is_default: false } }
       );
     }
@@ -83,6 +88,7 @@ export async function PATCH(
       variables: promptText ? extractVariables(promptText) : existingPrompt.variables as string[],
       description: description || existingPrompt.description as string | undefined,
       is_default: setAsDefault ?? existingPrompt.is_default as boolean,
+      ...(existingPrompt.target_language && { target_language: existingPrompt.target_language as string }),
       created_at: new Date(),
     };
 
@@ -106,6 +112,9 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const db = await getDb();
@@ -116,9 +125,9 @@ export async function POST(
       return NextResponse.json({ error: 'Prompt not found' }, { status: 404 });
     }
 
-    // Unset current default for this type
+    // Unset current default for this type and language
     await collection.updateMany(
-      { type: prompt.type, is_default: true },
+      { type: prompt.type, is_default: true, ...promptLanguageFilter(prompt.target_language || DEFAULT_TARGET_LANGUAGE) },
       { $set: { is_default: false } }
     );
 
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { DEFAULT_PROMPTS, LATIN_PROMPTS, GERMAN_PROMPTS } from '@/lib/types';
 import type { Prompt, PromptType } from '@/lib/types';
+import { requireRole } from '@/lib/auth-guard';
+import { DEFAULT_TARGET_LANGUAGE, promptLanguageFilter, resolveTargetLanguage } from '@/lib/translation-languages';
 
 // Helper to extract variables from prompt text
 function extractVariables(text: string): string[] {
@@ -18,6 +20,7 @@ export async function GET(request: NextRequest) {
     const name = searchParams.get('name');
     const allVersions = searchParams.get('all_versions') === 'true';
     const defaultOnly = searchParams.get('default') === 'true';
+    const targetLanguage = searchParams.get('target_language');
 
     const db = await getDb();
     const collection = db.collection('prompts');
@@ -27,6 +30,13 @@ export async function GET(request: NextRequest) {
     if (type) query.type = type;
     if (name) query.name = name;
     if (defaultOnly) query.is_default = true;
+    if (targetLanguage) {
+      const code = resolveTargetLanguage(targetLanguage);
+      if (!code) {
+        return NextResponse.json({ error: `Unsupported target language: ${targetLanguage}` }, { status: 400 });
+      }
+      Object.assign(query, promptLanguageFilter(code));
+    }
 
     let prompts;
 
@@ -67,9 +77,12 @@ export async function GET(request: NextRequest) {
 // POST /api/prompts - Create a new prompt or new version
 // If a prompt with the same name exists, creates a new version
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
-    const { name, type, text, description, setAsDefault } = body;
+    const { name, type, text, description, setAsDefault, target_language } = body;
 
     // Support legacy 'content' field
     const promptText = text || body.content;
@@ -86,6 +99,12 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // Translation prompts can be written for a language other than English
+    const targetLanguage = type === 'translation' ? resolveTargetLanguage(target_language) : DEFAULT_TARGET_LANGUAGE;
+    if (!targetLanguage) {
+      return NextResponse.json({ error: `Unsupported target language: ${target_language}` }, { status: 400 });
+    }
+
     const db = await getDb();
     const collection = db.collection('prompts');
 
@@ -98,10 +117,10 @@ export async function POST(request: NextRequest) {
     const newVersion = latestVersion ? latestVersion.version + 1 : 1;
     const variables = extractVariables(promptText);
 
-    // If setting as default, unset current default for this type
+    // If setting as default, unset current default for this type and language
     if (setAsDefault) {
       await collection.updateMany(
-        { type, is_default: true },
+        { type, is_default: true, ...promptLanguageFilter(targetLanguage) },
         { $set: { is_default: false } }
       );
     }
@@ -114,6 +133,7 @@ export async function POST(request: NextRequest) {
       variables,
       description: description || (latestVersion?.description as string | undefined),
       is_default: setAsDefault || false,
+      ...(targetLanguage !== DEFAULT_TARGET_LANGUAGE && { target_language: targetLanguage }),
       created_at: new Date(),
     };
 
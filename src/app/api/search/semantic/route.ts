@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import type { Book } from '@/lib/types';
+import type { SemanticSearchResult } from '@/lib/api-client/types/search';
+import { parseQuery } from '@/lib/search/query';
+import { escapeHtml, highlightText } from '@/lib/search/engine';
+import { semanticSearch } from '@/lib/search/semantic';
+
+/**
+ * GET /api/search/semantic
+ *
+ * Find translated passages by meaning rather than exact wording. Each result
+ * is a page, with the passage that best matches the query as its snippet.
+ *
+ * Query params: q, book_id, language, category, limit, offset
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const query = (searchParams.get('q') || '').trim();
+    const bookId = searchParams.get('book_id');
+    const language = searchParams.get('language');
+    const category = searchParams.get('category');
+    const limit = Math.min(parseInt(searchParams.get('limit') || '20'), 100);
+    const offset = parseInt(searchParams.get('offset') || '0');
+
+    if (query.length < 2) {
+      return NextResponse.json({
+        error: 'Query must be at least 2 characters',
+        results: [],
+        total: 0
+      }, { status: 400 });
+    }
+
+    const db = await getDb();
+
+    let bookIds: string[] | undefined;
+    if (bookId) {
+      bookIds = [bookId];
+    } else if (language || category) {
+      const bookFilter: Record<string, unknown> = {};
+      if (language) bookFilter.language = language;
+      if (category) bookFilter.categories = category;
+      const filteredBooks = await db.collection('books')
+        .find(bookFilter)
+        .project({ id: 1 })
+        .toArray();
+      bookIds = filteredBooks.map(b => b.id as string);
+    }
+
+    const { backend, total, hits, truncated } = await semanticSearch(query, { bookIds, limit, offset, db });
+
+    const [books, pages] = hits.length > 0
+      ? await Promise.all([
+          db.collection('books').find({ id: { $in: [...new Set(hits.map(h => h.book_id))] } }).toArray(),
+          db.collection('pages')
+            .find({ id: { $in: hits.map(h => h.page_id) } }, { projection: { id: 1, page_number: 1 } })
+            .toArray(),
+        ])
+      : [[], []];
+    const bookMap = new Map(books.map(b => [b.id as string, b as unknown as Book]));
+    const pageNumbers = new Map(pages.map(p => [p.id as string, p.page_number as number]));
+
+    // Literal query words are marked where they occur in the passage
+    const parsedQuery = parseQuery(query);
+
+    const results: SemanticSearchResult[] = [];
+    for (const hit of hits) {
+      const book = bookMap.get(hit.book_id);
+      const pageNumber = pageNumbers.get(hit.page_id);
+      if (!book || pageNumber === undefined) continue;
+
+      const [highlight] = parsedQuery
+        ? highlightText(hit.text, parsedQuery, { context: hit.text.length, maxSnippets: 1 })
+        : [];
+
+      results.push({
+        id: `${book.id}-p${pageNumber}`,
+        type: 'page',
+        book_id: book.id,
+        title: book.title,
+        display_title: book.display_title,
+        author: book.author,
+        language: book.language,
+        published: book.published,
+        has_doi: !!book.doi,
+        doi: book.doi,
+        categories: book.categories,
+        page_id: hit.page_id,
+        page_number: pageNumber,
+        snippet: highlight?.snippet || escapeHtml(hit.text),
+        snippet_type: 'translation',
+        score: Math.round(hit.score * 1000) / 1000,
+      });
+    }
+
+    return NextResponse.json({
+      query,
+      mode: 'semantic',
+      backend,
+      total,
+      offset,
+      limit,
+      results,
+      ...(truncated && { truncated }),
+    });
+  } catch (error) {
+    console.error('Semantic search error:', error);
+    return NextResponse.json({ error: 'Semantic search failed' }, { status: 500 });
+  }
+}
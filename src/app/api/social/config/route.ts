@@ -9,6 +9,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { isTwitterConfigured, verifyCredentials } from '@/lib/twitter';
 import { SocialConfig } from '@/lib/types';
+import { requireRole } from '@/lib/auth-guard';
 
 const DEFAULT_CONFIG: Omit<SocialConfig, '_id' | 'updated_at'> = {
   platform: 'twitter',
@@ -110,6 +111,9 @@ export async function GET() {
  * Update settings
  */
 export async function PATCH(request: NextRequest) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const { settings } = body;
@@ -11,6 +11,7 @@ import { generateTweet, buildFullTweetText } from '@/lib/tweet-generator';
 import { selectImagesForPosts, buildCropUrl, SocialImageCandidate } from '@/lib/social-image-selector';
 import { nanoid } from 'nanoid';
 import { SocialPost } from '@/lib/types';
+import { requireRole } from '@/lib/auth-guard';
 
 interface GeneratedPost {
   tweet: string;
@@ -36,6 +37,9 @@ interface GeneratedPost {
  * Returns array of generated tweets
  */
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const {
@@ -21,6 +21,7 @@ import {
 import { getImageCandidate, buildCropUrl } from '@/lib/social-image-selector';
 import { nanoid } from 'nanoid';
 import { SocialPost } from '@/lib/types';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * GET /api/social/generate
@@ -53,6 +54,9 @@ export async function GET() {
  * Returns generated tweet variations
  */
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const {
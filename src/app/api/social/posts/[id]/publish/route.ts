@@ -9,6 +9,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { postTweetWithMedia, isTwitterConfigured } from '@/lib/twitter';
 import { buildFullTweetText } from '@/lib/tweet-generator';
+import { requireRole } from '@/lib/auth-guard';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -23,6 +24,9 @@ export async function POST(
   request: NextRequest,
   { params }: RouteParams
 ) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const db = await getDb();
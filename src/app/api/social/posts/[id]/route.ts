@@ -10,6 +10,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { SocialPostStatus } from '@/lib/types';
 import { buildFullTweetText } from '@/lib/tweet-generator';
+import { requireRole } from '@/lib/auth-guard';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -58,6 +59,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: RouteParams
 ) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const body = await request.json();
@@ -151,6 +155,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: RouteParams
 ) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const { id } = await params;
     const db = await getDb();
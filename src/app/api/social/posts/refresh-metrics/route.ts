@@ -6,8 +6,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { isTwitterConfigured, getTweetMetricsBatch } from '@/lib/twitter';
+import { requireRole } from '@/lib/auth-guard';
 
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     if (!isTwitterConfigured()) {
       return NextResponse.json(
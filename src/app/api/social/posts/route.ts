@@ -11,6 +11,7 @@ import { nanoid } from 'nanoid';
 import { SocialPost, SocialPostStatus } from '@/lib/types';
 import { buildFullTweetText } from '@/lib/tweet-generator';
 import { buildCropUrl, getImageCandidate } from '@/lib/social-image-selector';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * GET /api/social/posts
@@ -86,6 +87,9 @@ export async function GET(request: NextRequest) {
  *   - scheduled_for: Date string (optional)
  */
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const {
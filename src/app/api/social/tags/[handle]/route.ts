@@ -8,6 +8,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * GET /api/social/tags/[handle]
@@ -49,6 +50,9 @@ export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ handle: string }> }
 ) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const { handle } = await params;
     const body = await request.json();
@@ -98,6 +102,9 @@ export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ handle: string }> }
 ) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const { handle } = await params;
     const db = await getDb();
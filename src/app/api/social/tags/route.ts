@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { SocialTag } from '@/lib/types';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * GET /api/social/tags
@@ -90,6 +91,9 @@ export async function GET(request: NextRequest) {
  *   - priority: number (optional, default: 5)
  */
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const {
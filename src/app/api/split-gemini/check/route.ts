@@ -1,14 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { getDb } from '@/lib/mongodb';
 import { images } from '@/lib/api-client';
-
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+import { requireRole } from '@/lib/auth-guard';
+import { generateText } from '@/lib/ai';
 
 /**
  * Check if an image is a two-page spread using Gemini
  */
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
   try {
     const { pageId, imageUrl } = await request.json();
 
@@ -42,8 +44,6 @@ export async function POST(request: NextRequest) {
       ? { base64: imageData, mimeType: 'image/jpeg' }
       : { base64: imageData.base64, mimeType: imageData.mimeType };
 
-    const model = genAI.getGenerativeModel({ model: 'gemini-3-flash-preview' });
-
     const prompt = `Analyze this scanned book image and determine:
 
 1. Is this a TWO-PAGE SPREAD (showing two facing pages side by side, typically landscape orientation) or a SINGLE PAGE (showing just one page, typically portrait orientation)?
@@ -58,17 +58,9 @@ Return your answer in this EXACT JSON format:
   "reasoning": "<brief explanation>"
 }`;
 
-    const result = await model.generateContent([
-      prompt,
-      {
-        inlineData: {
-          mimeType,
-          data: base64,
-        },
-      },
-    ]);
-
-    const responseText = result.response.text();
+    const { text: responseText, usage } = await generateText(prompt, 'gemini-3-flash-preview', {
+      images: [{ mimeType, data: base64 }],
+    });
 
     // Parse JSON from response
     const jsonMatch = responseText.match(/\{[\s\S]*?\}/);
@@ -87,8 +79,8 @@ Return your answer in this EXACT JSON format:
       confidence: parsed.confidence,
       reasoning: parsed.reasoning,
       usage: {
-        inputTokens: result.response.usageMetadata?.promptTokenCount || 0,
-        outputTokens: result.response.usageMetadata?.candidatesTokenCount || 0,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
       },
     });
 
@@ -1,12 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { getDb } from '@/lib/mongodb';
 import { images } from '@/lib/api-client';
+import { requireRole } from '@/lib/auth-guard';
+import { generateText } from '@/lib/ai';
 
-const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
 const geminiModel = process.env.GEMINI_MODEL || 'gemini-3-flash-preview';
 
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const { pageId, imageUrl } = await request.json();
 
@@ -36,9 +39,6 @@ export async function POST(request: NextRequest) {
       ? { base64: imageData, mimeType: 'image/jpeg' }
       : { base64: imageData.base64, mimeType: imageData.mimeType };
 
-    // Use Gemini 3 Flash for vision
-    const model = genAI.getGenerativeModel({ model: geminiModel });
-
     const prompt = `You are an expert at analyzing scanned book spreads to find the optimal vertical split line.
 
 TASK: Find the exact vertical position to split this two-page book scan into left and right pages.
@@ -66,17 +66,10 @@ OUTPUT: Return ONLY a single integer from 0-1000:
 
 Example output: 487`;
 
-    const result = await model.generateContent([
-      prompt,
-      {
-        inlineData: {
-          mimeType,
-          data: base64,
-        },
-      },
-    ]);
-
-    const responseText = result.response.text().trim();
+    const { text, usage } = await generateText(prompt, geminiModel, {
+      images: [{ mimeType, data: base64 }],
+    });
+    const responseText = text.trim();
 
     // Parse the position from the response
     const positionMatch = responseText.match(/\d+/);
@@ -88,18 +81,13 @@ Example output: 487`;
       position = Math.max(100, Math.min(900, position));
     }
 
-    // Get token usage for cost tracking
-    const usageMetadata = result.response.usageMetadata;
-    const inputTokens = usageMetadata?.promptTokenCount || 0;
-    const outputTokens = usageMetadata?.candidatesTokenCount || 0;
-
     return NextResponse.json({
       position,
       rawResponse: responseText,
       usage: {
-        inputTokens,
-        outputTokens,
-        totalTokens: inputTokens + outputTokens,
+        inputTokens: usage.inputTokens,
+        outputTokens: usage.outputTokens,
+        totalTokens: usage.totalTokens,
       },
     });
   } catch (error) {
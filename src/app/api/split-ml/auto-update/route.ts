@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { extractFeatures, trainModel, type TrainingExample, type SplitModel } from '@/lib/page-split/splitDetectionML';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * POST - Auto-update the ML model after user splits
@@ -34,6 +35,9 @@ async function getBookPageCount(db: Awaited<ReturnType<typeof getDb>>, bookId: s
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { pageIds, bookId, autoRetrain = true, minExamplesForRetrain = 20 } = await request.json();
     const db = await getDb();
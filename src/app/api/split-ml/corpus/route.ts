@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { detectSplitWithGemini, extractFeatures } from '@/lib/page-split/splitDetectionML';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * Corpus collection for ML training - samples pages across all books
@@ -120,6 +121,9 @@ export async function GET() {
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const {
       samplesPerBook = 3,
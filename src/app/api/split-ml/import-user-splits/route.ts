@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { extractFeatures } from '@/lib/page-split/splitDetectionML';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * Import existing user splits as training data
@@ -83,6 +84,9 @@ export async function GET() {
 }
 
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('editor');
+  if (denied) return denied;
+
   try {
     const { limit = 100, bookIds, clearAndReimport = false } = await request.json().catch(() => ({}));
     const db = await getDb();
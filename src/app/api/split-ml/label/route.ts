@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { detectSplitWithGemini, extractFeatures } from '@/lib/page-split/splitDetectionML';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * POST - Generate ground truth labels for pages using Gemini
@@ -13,6 +14,9 @@ import { detectSplitWithGemini, extractFeatures } from '@/lib/page-split/splitDe
  * }
  */
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
   try {
     const { pageIds, bookId, limit = 50 } = await request.json();
     const db = await getDb();
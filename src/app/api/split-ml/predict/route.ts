@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { extractFeatures, predictWithModel, type SplitModel } from '@/lib/page-split/splitDetectionML';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * POST - Predict split position using the trained ML model
@@ -13,6 +14,9 @@ import { extractFeatures, predictWithModel, type SplitModel } from '@/lib/page-s
  * }
  */
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
   try {
     const { imageUrl, pageId } = await request.json();
     const db = await getDb();
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { contentTypeForKey, getStorageDriver } from '@/lib/storage';
+
+/**
+ * GET /api/storage/[...key]
+ *
+ * Serve a file written by the local storage driver (STORAGE_BACKEND=local).
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  try {
+    const { key } = await params;
+    const objectKey = key.join('/');
+
+    let buffer: Buffer;
+    try {
+      buffer = await getStorageDriver('local').get(objectKey);
+    } catch {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 });
+    }
+
+    return new Response(new Uint8Array(buffer), {
+      headers: {
+        'Content-Type': contentTypeForKey(objectKey),
+        'Cache-Control': 'public, max-age=86400',
+      },
+    });
+  } catch (error) {
+    console.error('Error serving stored file:', error);
+    return NextResponse.json({ error: 'Failed to read file' }, { status: 500 });
+  }
+}
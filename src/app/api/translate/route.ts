@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { performTranslation } from '@/lib/ai';
+import { requireRole } from '@/lib/auth-guard';
 
 export const dynamic = 'force-dynamic';
 
 // Simple text translation endpoint for short texts like titles
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('contributor');
+  if (denied) return denied;
+
   try {
     const { text, sourceLanguage = 'Latin', targetLanguage = 'English' } = await request.json();
 
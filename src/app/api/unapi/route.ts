@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { BIBLIOGRAPHIC_FORMATS, isBibliographicFormat, parseUnapiId } from '@/lib/bibliographic';
+import { escapeXml } from '@/lib/tei';
+import type { BibliographicFormat } from '@/lib/types';
+
+const FORMAT_DOCS: Record<BibliographicFormat, string> = {
+  marcxml: 'http://www.loc.gov/standards/marcxml/',
+  bibtex: 'http://www.bibtex.org/Format/',
+  ris: 'https://en.wikipedia.org/wiki/RIS_(file_format)',
+  'csl-json': 'https://citeproc-js.readthedocs.io/en/latest/csl-json/markup.html',
+};
+
+function formatsXml(formats: BibliographicFormat[], id?: string): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<formats${id ? ` id="${escapeXml(id)}"` : ''}>`,
+    ...formats.map(format =>
+      `  <format name="${format}" type="${BIBLIOGRAPHIC_FORMATS[format].contentType.split(';')[0]}" docs="${FORMAT_DOCS[format]}"/>`
+    ),
+    '</formats>',
+  ].join('\n') + '\n';
+}
+
+/**
+ * GET /api/unapi - unAPI server for the identifiers embedded in reader pages
+ *
+ * Query params:
+ *   id: "<book id>", "<book id>:translation", optionally ":p<page number>"
+ *   format: 'marcxml' | 'bibtex' | 'ris' | 'csl-json'
+ *
+ * Without id, lists the formats offered; with id alone, the formats for
+ * that object (300 Multiple Choices); with both, redirects to the record.
+ * Spec: http://unapi.info/specs/
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const id = searchParams.get('id');
+    const format = searchParams.get('format');
+    const xml = { 'Content-Type': 'application/xml; charset=utf-8' };
+    const allFormats = Object.keys(BIBLIOGRAPHIC_FORMATS) as BibliographicFormat[];
+
+    if (!id) {
+      return new NextResponse(formatsXml(allFormats), { headers: xml });
+    }
+
+    const target = parseUnapiId(id);
+    const db = await getDb();
+    const book = target && await db.collection('books').findOne({ id: target.bookId }, { projection: { id: 1 } });
+    if (!target || !book) {
+      return NextResponse.json({ error: 'Unknown identifier' }, { status: 404 });
+    }
+    // MARC describes whole books only
+    const formats = target.pageNumber ? allFormats.filter(f => f !== 'marcxml') : allFormats;
+
+    if (!format) {
+      return new NextResponse(formatsXml(formats, id), { status: 300, headers: xml });
+    }
+    if (!isBibliographicFormat(format) || !formats.includes(format)) {
+      return NextResponse.json({ error: `Format not available: ${format}` }, { status: 406 });
+    }
+
+    const record = new URL(`/api/books/${target.bookId}/bibliography`, request.url);
+    record.searchParams.set('format', format);
+    record.searchParams.set('record', target.record);
+    if (target.pageNumber) record.searchParams.set('page', String(target.pageNumber));
+    return NextResponse.redirect(record, { status: 302 });
+  } catch (error) {
+    console.error('unAPI error:', error);
+    return NextResponse.json({ error: 'unAPI request failed' }, { status: 500 });
+  }
+}
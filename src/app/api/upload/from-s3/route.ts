@@ -14,6 +14,7 @@ import {
   validateBookAndGetPageNumber,
   getExtensionFromMimeType
 } from '@/lib/uploads/utils';
+import { requireRole } from '@/lib/auth-guard';
 
 // Maximum file size: 20MB (same as formData upload)
 const MAX_FILE_SIZE_MEGABYTES = 20 * 1024 * 1024;
@@ -50,6 +51,9 @@ const MAX_FILE_SIZE_MEGABYTES = 20 * 1024 * 1024;
  * ```
  */
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   // No-cache headers to prevent Edge Cache from caching this route
   const noCacheHeaders = {
     'Cache-Control': 'no-store, no-cache, must-revalidate, private',
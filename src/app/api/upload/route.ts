@@ -10,11 +10,15 @@ import {
   updateBookAfterUpload,
   getMimeTypeFromExtension
 } from '@/lib/uploads/utils';
+import { requireRole } from '@/lib/auth-guard';
 
 // Maximum file size: 20MB
 const MAX_FILE_SIZE_MEGABYTES = 20 * 1024 * 1024;
 
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const formData = await request.formData();
     const bookId = formData.get('bookId') as string;
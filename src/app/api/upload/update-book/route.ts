@@ -3,6 +3,7 @@ export const dynamic = 'force-dynamic';
 import { NextRequest, NextResponse } from 'next/server';
 import { getDb } from '@/lib/mongodb';
 import { updateBookAfterUpload } from '@/lib/uploads/utils';
+import { requireRole } from '@/lib/auth-guard';
 
 /**
  * Update book metadata (thumbnail and page count)
@@ -25,6 +26,9 @@ import { updateBookAfterUpload } from '@/lib/uploads/utils';
  * ```
  */
 export async function POST(request: NextRequest) {
+  const denied = await requireRole('curator');
+  if (denied) return denied;
+
   try {
     const body = await request.json();
     const { bookId } = body;
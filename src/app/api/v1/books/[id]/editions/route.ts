@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import type { TranslationEdition } from '@/lib/types';
+import { listBookEditions } from '@/lib/api-v1/operations';
+import { v1Route } from '@/lib/api-v1/route.server';
+import { toV1Edition } from '@/lib/api-v1/serializers';
+
+// GET /api/v1/books/[id]/editions - Published and superseded editions, newest
+// first. A book has few editions, so they come in one page.
+export const GET = v1Route(listBookEditions, async ({ params }) => {
+  const db = await getDb();
+  const book = await db.collection('books').findOne({ id: params.id }, { projection: { editions: 1 } });
+  if (!book) {
+    return NextResponse.json({ error: 'Book not found' }, { status: 404 });
+  }
+
+  const editions = ((book.editions || []) as TranslationEdition[])
+    .filter(edition => edition.status !== 'draft')
+    .reverse();
+  return { data: editions.map(toV1Edition), next_cursor: null };
+});
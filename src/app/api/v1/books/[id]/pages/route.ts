@@ -0,0 +1,38 @@
+import { z } from 'zod';
+import { NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import type { Page } from '@/lib/types';
+import { decodeCursor, nextCursor } from '@/lib/api-v1/cursor';
+import { listBookPages } from '@/lib/api-v1/operations';
+import { v1Route } from '@/lib/api-v1/route.server';
+import { V1_PAGE_PROJECTION, toV1Page } from '@/lib/api-v1/serializers';
+
+const PageCursor = z.object({ n: z.number(), id: z.string() });
+
+// GET /api/v1/books/[id]/pages - Pages in reading order
+export const GET = v1Route(listBookPages, async ({ params, query }) => {
+  const db = await getDb();
+  const book = await db.collection('books').findOne({ id: params.id }, { projection: { id: 1 } });
+  if (!book) {
+    return NextResponse.json({ error: 'Book not found' }, { status: 404 });
+  }
+
+  const filter: Record<string, unknown> = { book_id: params.id };
+  if (query.cursor) {
+    const after = decodeCursor(query.cursor, PageCursor);
+    if (!after) return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    filter.$or = [
+      { page_number: { $gt: after.n } },
+      { page_number: after.n, id: { $gt: after.id } },
+    ];
+  }
+
+  const pages = await db.collection('pages')
+    .find(filter, { projection: V1_PAGE_PROJECTION })
+    .sort({ page_number: 1, id: 1 })
+    .limit(query.limit + 1)
+    .toArray() as unknown as Page[];
+
+  const next_cursor = nextCursor(pages, query.limit, last => ({ n: last.page_number, id: last.id }));
+  return { data: pages.map(page => toV1Page(page, Boolean(query.include_text))), next_cursor };
+});
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import type { Book } from '@/lib/types';
+import { getBook } from '@/lib/api-v1/operations';
+import { v1Route } from '@/lib/api-v1/route.server';
+import { V1_BOOK_PROJECTION, toV1BookDetail } from '@/lib/api-v1/serializers';
+
+// GET /api/v1/books/[id]
+export const GET = v1Route(getBook, async ({ params }) => {
+  const db = await getDb();
+  const book = await db.collection('books').findOne(
+    { id: params.id },
+    { projection: V1_BOOK_PROJECTION }
+  ) as unknown as Book | null;
+  if (!book) {
+    return NextResponse.json({ error: 'Book not found' }, { status: 404 });
+  }
+  return toV1BookDetail(book);
+});
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+import { NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import type { Book } from '@/lib/types';
+import { decodeCursor, nextCursor } from '@/lib/api-v1/cursor';
+import { listBooks } from '@/lib/api-v1/operations';
+import { v1Route } from '@/lib/api-v1/route.server';
+import { V1_BOOK_PROJECTION, toV1Book } from '@/lib/api-v1/serializers';
+
+const BookCursor = z.object({ id: z.string() });
+
+// GET /api/v1/books - Books in id (creation) order
+export const GET = v1Route(listBooks, async ({ query }) => {
+  const filter: Record<string, unknown> = {};
+  if (query.language) filter.language = query.language;
+  if (query.category) filter.categories = query.category;
+  if (query.has_translation !== undefined) {
+    filter.pages_translated = query.has_translation ? { $gt: 0 } : { $not: { $gt: 0 } };
+  }
+  if (query.cursor) {
+    const after = decodeCursor(query.cursor, BookCursor);
+    if (!after) return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    filter.id = { $gt: after.id };
+  }
+
+  const db = await getDb();
+  const books = await db.collection('books')
+    .find(filter, { projection: V1_BOOK_PROJECTION })
+    .sort({ id: 1 })
+    .limit(query.limit + 1)
+    .toArray() as unknown as Book[];
+
+  const next_cursor = nextCursor(books, query.limit, last => ({ id: last.id }));
+  return { data: books.map(toV1Book), next_cursor };
+});
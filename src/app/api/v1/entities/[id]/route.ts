@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { getEntity } from '@/lib/api-v1/operations';
+import { v1Route } from '@/lib/api-v1/route.server';
+import { toV1Entity, type EntityDocument } from '@/lib/api-v1/serializers';
+
+// GET /api/v1/entities/[id]
+export const GET = v1Route(getEntity, async ({ params }) => {
+  const db = await getDb();
+  const entity = ObjectId.isValid(params.id)
+    ? await db.collection('entities').findOne({ _id: new ObjectId(params.id) }) as EntityDocument | null
+    : null;
+  if (!entity) {
+    return NextResponse.json({ error: 'Entity not found' }, { status: 404 });
+  }
+  return toV1Entity(entity);
+});
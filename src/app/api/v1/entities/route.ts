@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { decodeCursor, nextCursor } from '@/lib/api-v1/cursor';
+import { listEntities } from '@/lib/api-v1/operations';
+import { v1Route } from '@/lib/api-v1/route.server';
+import { toV1Entity, type EntityDocument } from '@/lib/api-v1/serializers';
+
+const EntityCursor = z.object({
+  book_count: z.number(),
+  id: z.string().refine(id => ObjectId.isValid(id)),
+});
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// GET /api/v1/entities - Entities in the most books first
+export const GET = v1Route(listEntities, async ({ query }) => {
+  const conditions: Record<string, unknown>[] = [];
+  if (query.type) conditions.push({ type: query.type });
+  if (query.book_id) conditions.push({ 'books.book_id': query.book_id });
+  if (query.q) {
+    const pattern = { $regex: escapeRegex(query.q), $options: 'i' };
+    conditions.push({ $or: [{ name: pattern }, { aliases: pattern }] });
+  }
+  if (query.cursor) {
+    const after = decodeCursor(query.cursor, EntityCursor);
+    if (!after) return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    conditions.push({
+      $or: [
+        { book_count: { $lt: after.book_count } },
+        { book_count: after.book_count, _id: { $gt: new ObjectId(after.id) } },
+      ],
+    });
+  }
+
+  const db = await getDb();
+  const entities = await db.collection('entities')
+    .find(conditions.length > 0 ? { $and: conditions } : {})
+    .sort({ book_count: -1, _id: 1 })
+    .limit(query.limit + 1)
+    .toArray() as unknown as EntityDocument[];
+
+  const next_cursor = nextCursor(entities, query.limit, last => ({
+    book_count: last.book_count ?? 0,
+    id: last._id.toHexString(),
+  }));
+  return { data: entities.map(toV1Entity), next_cursor };
+});
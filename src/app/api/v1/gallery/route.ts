@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { decodeCursor, nextCursor } from '@/lib/api-v1/cursor';
+import { listGalleryImages } from '@/lib/api-v1/operations';
+import { v1Route } from '@/lib/api-v1/route.server';
+import { toV1GalleryImage, type GalleryRow } from '@/lib/api-v1/serializers';
+
+const GalleryCursor = z.object({ book_id: z.string(), n: z.number(), index: z.number().int() });
+
+/**
+ * GET /api/v1/gallery
+ *
+ * Illustrations detected on pages, ordered by book, page and position on
+ * the page. Only vision-model and manual detections with a bounding box
+ * are listed, as in /api/gallery.
+ */
+export const GET = v1Route(listGalleryImages, async ({ query }) => {
+  const pageMatch: Record<string, unknown> = { 'detected_images.0': { $exists: true } };
+  if (query.book_id) pageMatch.book_id = query.book_id;
+
+  const imageMatch: Record<string, unknown> = {
+    'detected_images.bbox': { $exists: true },
+    'detected_images.detection_source': { $in: ['vision_model', 'manual'] },
+    'detected_images.gallery_quality': { $gte: query.min_quality },
+  };
+  if (query.type) imageMatch['detected_images.type'] = query.type;
+  if (query.subject) imageMatch['detected_images.metadata.subjects'] = query.subject;
+
+  if (query.cursor) {
+    const after = decodeCursor(query.cursor, GalleryCursor);
+    if (!after) return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    // Skip whole pages before the cursor before unwinding their images
+    pageMatch.$or = [
+      { book_id: { $gt: after.book_id } },
+      { book_id: after.book_id, page_number: { $gte: after.n } },
+    ];
+    imageMatch.$or = [
+      { book_id: { $gt: after.book_id } },
+      { book_id: after.book_id, page_number: { $gt: after.n } },
+      { book_id: after.book_id, page_number: after.n, index: { $gt: after.index } },
+    ];
+  }
+
+  const db = await getDb();
+  const rows = await db.collection('pages').aggregate([
+    { $match: pageMatch },
+    { $project: { id: 1, book_id: 1, page_number: 1, photo: 1, photo_original: 1, cropped_photo: 1, detected_images: 1 } },
+    { $unwind: { path: '$detected_images', includeArrayIndex: 'index' } },
+    { $match: imageMatch },
+    { $sort: { book_id: 1, page_number: 1, index: 1 } },
+    { $limit: query.limit + 1 },
+    { $addFields: { image: '$detected_images' } },
+  ]).toArray() as unknown as GalleryRow[];
+
+  const next_cursor = nextCursor(rows, query.limit, last => ({
+    book_id: last.book_id,
+    n: last.page_number,
+    index: last.index,
+  }));
+
+  const books = await db.collection('books')
+    .find(
+      { id: { $in: [...new Set(rows.map(row => row.book_id))] } },
+      { projection: { id: 1, title: 1, display_title: 1, author: 1 } }
+    )
+    .toArray();
+  const bookMap = new Map(books.map(b => [b.id as string, b as unknown as GalleryRow['book']]));
+
+  return { data: rows.map(row => toV1GalleryImage({ ...row, book: bookMap.get(row.book_id) })), next_cursor };
+});
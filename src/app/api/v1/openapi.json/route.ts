@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/api-v1/openapi';
+
+// GET /api/v1/openapi.json - The OpenAPI 3.1 document of /api/v1 (no key needed)
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument(), {
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Cache-Control': 'public, max-age=3600',
+    },
+  });
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import type { Page } from '@/lib/types';
+import { getPage } from '@/lib/api-v1/operations';
+import { v1Route } from '@/lib/api-v1/route.server';
+import { V1_PAGE_PROJECTION, toV1Page } from '@/lib/api-v1/serializers';
+
+// GET /api/v1/pages/[id] - A page with its OCR and translation
+export const GET = v1Route(getPage, async ({ params }) => {
+  const db = await getDb();
+  const page = await db.collection('pages').findOne(
+    { id: params.id },
+    { projection: V1_PAGE_PROJECTION }
+  ) as unknown as Page | null;
+  if (!page) {
+    return NextResponse.json({ error: 'Page not found' }, { status: 404 });
+  }
+  return toV1Page(page, true);
+});
@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { NextResponse } from 'next/server';
+import { getDb } from '@/lib/mongodb';
+import { decodeCursor, encodeCursor } from '@/lib/api-v1/cursor';
+import { search } from '@/lib/api-v1/operations';
+import { v1Route } from '@/lib/api-v1/route.server';
+import { searchIndex } from '@/lib/search/engine';
+import { parseQuery } from '@/lib/search/query';
+import { hydrateHits } from '@/lib/search/results';
+import { resolveTargetLanguage } from '@/lib/translation-languages';
+
+// Results are ranked, so the cursor is an offset into the ranking
+const SearchCursor = z.object({ offset: z.number().int().min(0) });
+
+// GET /api/v1/search - Ranked full-text search over books and pages
+export const GET = v1Route(search, async ({ query }) => {
+  const parsedQuery = parseQuery(query.q);
+  if (!parsedQuery) {
+    return NextResponse.json({ error: 'Query must contain at least one search term' }, { status: 400 });
+  }
+
+  const targetLanguage = resolveTargetLanguage(query.target_language);
+  if (!targetLanguage) {
+    return NextResponse.json({ error: `Unsupported target language: ${query.target_language}` }, { status: 400 });
+  }
+
+  let offset = 0;
+  if (query.cursor) {
+    const after = decodeCursor(query.cursor, SearchCursor);
+    if (!after) return NextResponse.json({ error: 'Invalid cursor' }, { status: 400 });
+    offset = after.offset;
+  }
+
+  // Book-level filters narrow the index search to the matching books
+  let bookIds: string[] | undefined;
+  if (query.book_id) {
+    bookIds = [query.book_id];
+  } else if (query.language || query.category) {
+    const db = await getDb();
+    const books = await db.collection('books')
+      .find({
+        ...(query.language && { language: query.language }),
+        ...(query.category && { categories: query.category }),
+      })
+      .project({ id: 1 })
+      .toArray();
+    bookIds = books.map(b => b.id as string);
+  }
+
+  const { total, hits } = await searchIndex(parsedQuery, {
+    types: query.book_id ? ['page'] : ['book', 'page'],
+    bookIds,
+    targetLanguage,
+    limit: query.limit,
+    offset,
+  });
+  const results = await hydrateHits(hits, parsedQuery, targetLanguage);
+
+  const end = offset + hits.length;
+  return {
+    data: results.map(result => ({
+      type: result.type,
+      book_id: result.book_id,
+      page_number: result.page_number ?? null,
+      title: result.title,
+      display_title: result.display_title || null,
+      author: result.author,
+      language: result.language,
+      published: result.published,
+      doi: result.doi || null,
+      snippet: result.snippet || result.summary || null,
+      snippet_type: result.snippet_type || null,
+    })),
+    next_cursor: hits.length > 0 && end < total ? encodeCursor({ offset: end }) : null,
+  };
+});
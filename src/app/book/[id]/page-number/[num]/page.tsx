@@ -1,5 +1,5 @@
 import { redirect, notFound } from 'next/navigation';
-import { connectToDatabase } from '@/lib/mongodb';
+import { getDb } from '@/lib/mongodb';
 
 interface Props {
   params: Promise<{ id: string; num: string }>;
@@ -13,7 +13,7 @@ export default async function PageNumberRedirect({ params }: Props) {
     notFound();
   }
 
-  const { db } = await connectToDatabase();
+  const db = await getDb();
 
   // Find the page by book_id and page_number
   const page = await db.collection('pages').findOne(
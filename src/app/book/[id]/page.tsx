@@ -16,9 +16,11 @@ import BibliographicInfo from '@/components/book/BibliographicInfo';
 import PublishEditionButton from '@/components/editions/PublishEditionButton';
 import EditionsPanel from '@/components/editions/EditionsPanel';
 import SchemaOrgMetadata from '@/components/seo/SchemaOrgMetadata';
+import { highwireTags } from '@/lib/bibliographic';
 import CategoryPicker from '@/components/ui/CategoryPicker';
 import { BookShare } from '@/components/ui/ShareButton';
 import LikeButton from '@/components/ui/LikeButton';
+import { RoleGate } from '@/components/ui/RoleGate';
 
 interface PageProps {
   params: Promise<{ id: string }>;
@@ -102,6 +104,8 @@ export async function generateMetadata({ params }: PageProps): Promise<Metadata>
       description,
       ...(book.thumbnail && { images: [book.thumbnail] }),
     },
+    // Highwire Press tags for Zotero and Google Scholar
+    other: highwireTags(book, { hasTranslation: !!(book.pages_translated || currentEdition) }),
   };
 }
 
@@ -131,7 +135,7 @@ async function getBook(id: string): Promise<{ book: Book; pages: Page[] } | null
   // Exclude large text fields for listing - only need metadata for thumbnails
   const pages = await db.collection('pages')
     .find({ book_id: bookId })
-    .project({ 'ocr.data': 0, 'translation.data': 0, 'summary.data': 0 })
+    .project({ 'ocr.data': 0, 'ocr.layout': 0, 'translation.data': 0, 'summary.data': 0 })
     .sort({ page_number: 1 })
     .toArray();
 
@@ -284,20 +288,22 @@ async function BookInfo({ id }: { id: string }) {
                 )}
 
                 {/* Unlocks after complete */}
-                {isComplete ? (
-                  <PublishEditionButton
-                    bookId={book.id}
-                    bookTitle={book.display_title || book.title}
-                    translatedCount={translatedCount}
-                    totalPages={pages.length}
-                    currentEdition={currentEdition}
-                  />
-                ) : (
-                  <span className="flex items-center gap-1.5 px-3 py-1.5 text-stone-500 cursor-not-allowed" title="Complete OCR, translation & summary first">
-                    <BookMarked className="w-4 h-4" />
-                    <span className="opacity-60">Publish</span>
-                  </span>
-                )}
+                <RoleGate role="curator">
+                  {isComplete ? (
+                    <PublishEditionButton
+                      bookId={book.id}
+                      bookTitle={book.display_title || book.title}
+                      translatedCount={translatedCount}
+                      totalPages={pages.length}
+                      currentEdition={currentEdition}
+                    />
+                  ) : (
+                    <span className="flex items-center gap-1.5 px-3 py-1.5 text-stone-500 cursor-not-allowed" title="Complete OCR, translation & summary first">
+                      <BookMarked className="w-4 h-4" />
+                      <span className="opacity-60">Publish</span>
+                    </span>
+                  )}
+                </RoleGate>
 
                 {/* Utilities - always available */}
                 <span className="hidden sm:inline text-stone-600">|</span>
@@ -317,13 +323,15 @@ async function BookInfo({ id }: { id: string }) {
                   doi={book.doi}
                   className="text-stone-300 hover:text-white hover:bg-white/10"
                 />
-                <Link
-                  href={`/book/${book.id}/pipeline`}
-                  className="inline-flex items-center gap-2 px-3 py-1.5 text-stone-300 hover:text-white hover:bg-white/10 rounded-lg transition-colors"
-                >
-                  <Workflow className="w-4 h-4" />
-                  Pipeline
-                </Link>
+                <RoleGate role="editor">
+                  <Link
+                    href={`/book/${book.id}/pipeline`}
+                    className="inline-flex items-center gap-2 px-3 py-1.5 text-stone-300 hover:text-white hover:bg-white/10 rounded-lg transition-colors"
+                  >
+                    <Workflow className="w-4 h-4" />
+                    Pipeline
+                  </Link>
+                </RoleGate>
                 <Link
                   href={`/gallery?bookId=${book.id}`}
                   className="inline-flex items-center gap-2 px-3 py-1.5 text-stone-300 hover:text-white hover:bg-white/10 rounded-lg transition-colors"
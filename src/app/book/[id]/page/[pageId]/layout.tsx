@@ -1,6 +1,8 @@
 import { Metadata } from 'next';
 import { getDb } from '@/lib/mongodb';
+import { highwireTags } from '@/lib/bibliographic';
 import { Book, Page } from '@/lib/types';
+import SchemaOrgMetadata from '@/components/seo/SchemaOrgMetadata';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -88,9 +90,31 @@ export async function generateMetadata({ params }: LayoutProps): Promise<Metadat
       description,
       ...(page.photo && { images: [page.photo] }),
     },
+    // Highwire Press tags, with this page as first and last page
+    other: highwireTags(book, {
+      hasTranslation: !!page.translation?.data,
+      page: { page_number: pageNum, id: page.id },
+    }),
   };
 }
 
-export default function PageLayout({ children }: LayoutProps) {
-  return children;
+export default async function PageLayout({ children, params }: LayoutProps) {
+  const { id, pageId } = await params;
+  const { book, page } = await getPageData(id, pageId);
+
+  return (
+    <>
+      {book && page && (
+        <SchemaOrgMetadata
+          book={book}
+          pageCount={Math.max(book.pages_count || 0, 1)}
+          translatedCount={page.translation?.data ? Math.max(book.pages_translated || 0, 1) : 0}
+          currentPage={page.page_number}
+          currentPageId={page.id}
+          currentEdition={book.editions?.find(e => e.status === 'published')}
+        />
+      )}
+      {children}
+    </>
+  );
 }
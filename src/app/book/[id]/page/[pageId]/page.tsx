@@ -6,8 +6,9 @@ import TranslationEditor from '@/components/pipeline/TranslationEditor';
 import { BookLoader } from '@/components/ui/BookLoader';
 import { useLoadingMetrics } from '@/hooks/useLoadingMetrics';
 import { useSearchHighlight } from '@/hooks/useSearchHighlight';
-import type { Book, Page } from '@/lib/types';
+import type { BaseVersions, Book, Page } from '@/lib/types';
 import { books, pages as pagesApi } from '@/lib/api-client';
+import { DEFAULT_TARGET_LANGUAGE, resolveTargetLanguage, targetLanguageName } from '@/lib/translation-languages';
 
 interface PageProps {
   params: Promise<{ id: string; pageId: string }>;
@@ -27,6 +28,7 @@ export default function PageEditorPage({ params }: PageProps) {
   const [book, setBook] = useState<Book | null>(null);
   const [pages, setPages] = useState<Page[]>([]);
   const [loading, setLoading] = useState(true);
+  const [targetLanguage, setTargetLanguage] = useState(DEFAULT_TARGET_LANGUAGE);
 
   useEffect(() => {
     params.then(({ id, pageId }) => {
@@ -34,6 +36,9 @@ export default function PageEditorPage({ params }: PageProps) {
       setInitialPageId(pageId);
       setCurrentPageId(pageId);
     });
+    // ?lang=it opens the reader on that language's translation
+    const lang = new URLSearchParams(window.location.search).get('lang');
+    setTargetLanguage(resolveTargetLanguage(lang) || DEFAULT_TARGET_LANGUAGE);
   }, [params]);
 
   // Track loading metrics
@@ -71,20 +76,29 @@ export default function PageEditorPage({ params }: PageProps) {
   const handleNavigate = useCallback((newPageId: string) => {
     setCurrentPageId(newPageId);
     // Update URL without triggering a refetch
-    window.history.pushState(null, '', `/book/${bookId}/page/${newPageId}`);
+    window.history.pushState(null, '', `/book/${bookId}/page/${newPageId}${window.location.search}`);
   }, [bookId]);
 
+  const handleTargetLanguageChange = useCallback((code: string) => {
+    setTargetLanguage(code);
+    const url = new URL(window.location.href);
+    if (code === DEFAULT_TARGET_LANGUAGE) url.searchParams.delete('lang');
+    else url.searchParams.set('lang', code);
+    window.history.replaceState(null, '', url.pathname + url.search);
+  }, []);
+
   // Derive current page from pages array
   const currentPage = pages.find(p => p.id === currentPageId) || null;
   const currentIndex = pages.findIndex(p => p.id === currentPageId);
 
-  const handleSave = async (data: { ocr?: string; translation?: string; summary?: string }) => {
+  const handleSave = async (data: { ocr?: string; translation?: string; summary?: string }, baseVersions?: BaseVersions) => {
     if (!currentPage) return;
 
     await pagesApi.update(currentPage.id, {
       ocr: data.ocr ? { data: data.ocr, language: book?.language || 'Latin' } : undefined,
-      translation: data.translation ? { data: data.translation, language: 'English' } : undefined,
-      summary: data.summary ? { data: data.summary } : undefined
+      translation: data.translation ? { data: data.translation, language: targetLanguageName(targetLanguage) } : undefined,
+      summary: data.summary ? { data: data.summary } : undefined,
+      base_versions: baseVersions
     });
   };
 
@@ -143,6 +157,8 @@ export default function PageEditorPage({ params }: PageProps) {
         currentIndex={currentIndex}
         onNavigate={handleNavigate}
         onSave={handleSave}
+        targetLanguage={targetLanguage}
+        onTargetLanguageChange={handleTargetLanguageChange}
         onRefresh={async () => {
           try {
             const data = await books.get(bookId, { full: true }) as import('@/lib/api-client').BookWithPages;
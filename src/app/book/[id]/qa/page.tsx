@@ -5,6 +5,14 @@ import Link from 'next/link';
 import { ArrowLeft, RefreshCw, Loader2, CheckCircle, AlertTriangle, Wrench, RotateCcw, Trash2 } from 'lucide-react';
 import { ValidationIssue } from '@/lib/validateTranslation';
 import { books, pages as pagesApi, processing } from '@/lib/api-client';
+import type { BookReviewSummary, ReviewState } from '@/lib/types';
+
+const REVIEW_STATE_LABELS: Record<ReviewState, string> = {
+  unreviewed: 'Unreviewed',
+  in_review: 'In review',
+  needs_changes: 'Needs changes',
+  approved: 'Approved',
+};
 
 interface PageIssue {
   pageId: string;
@@ -26,6 +34,7 @@ interface QAData {
 export default function QAReviewPage({ params }: { params: Promise<{ id: string }> }) {
   const [bookId, setBookId] = useState<string | null>(null);
   const [data, setData] = useState<QAData | null>(null);
+  const [review, setReview] = useState<BookReviewSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [applying, setApplying] = useState<string | null>(null);
@@ -42,8 +51,12 @@ export default function QAReviewPage({ params }: { params: Promise<{ id: string
     setLoading(true);
     setError(null);
     try {
-      const qaData = await books.qa(bookId);
+      const [qaData, reviewData] = await Promise.all([
+        books.qa(bookId),
+        books.reviewStatus(bookId).catch(() => null),
+      ]);
       setData(qaData);
+      setReview(reviewData);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load');
     } finally {
@@ -115,6 +128,7 @@ export default function QAReviewPage({ params }: { params: Promise<{ id: string
       case 'empty_tag': return 'Empty tag';
       case 'nested_bracket': return 'Nested brackets';
       case 'unbalanced_center': return 'Unbalanced ->';
+      case 'glossary_violation': return 'Glossary';
       default: return type;
     }
   };
@@ -132,6 +146,8 @@ export default function QAReviewPage({ params }: { params: Promise<{ id: string
         return 'bg-purple-100 text-purple-800';
       case 'unbalanced_center':
         return 'bg-blue-100 text-blue-800';
+      case 'glossary_violation':
+        return 'bg-teal-100 text-teal-800';
       default:
         return 'bg-stone-100 text-stone-800';
     }
@@ -248,6 +264,46 @@ export default function QAReviewPage({ params }: { params: Promise<{ id: string
           </div>
         </div>
 
+        {/* Proofreading */}
+        {review && review.translated_pages > 0 && (
+          <div className="bg-white rounded-xl border border-stone-200 p-4 mb-8">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="font-semibold text-stone-900">Proofreading</h2>
+              <span className="text-sm text-stone-500">
+                {review.approved_percent}% of translated pages approved · {review.policy.required_approvals} sign-offs per page
+              </span>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3">
+              {(Object.keys(REVIEW_STATE_LABELS) as ReviewState[]).map(state => (
+                <div key={state} className="rounded-lg bg-stone-50 px-3 py-2">
+                  <div className="text-lg font-bold text-stone-900">{review.translation[state]}</div>
+                  <div className="text-xs text-stone-500">{REVIEW_STATE_LABELS[state]}</div>
+                </div>
+              ))}
+            </div>
+            {review.pages.some(p => p.review?.translation?.state === 'needs_changes' || p.open_comments > 0) && (
+              <div className="flex flex-wrap gap-2 text-sm">
+                {review.pages
+                  .filter(p => p.review?.translation?.state === 'needs_changes' || p.open_comments > 0)
+                  .map(p => (
+                    <Link
+                      key={p.id}
+                      href={`/book/${bookId}/page/${p.id}`}
+                      className="px-2 py-1 rounded bg-amber-50 text-amber-700 hover:bg-amber-100"
+                      title={[
+                        p.review?.translation?.state === 'needs_changes' && 'Needs changes',
+                        p.open_comments > 0 && `${p.open_comments} open comment${p.open_comments === 1 ? '' : 's'}`,
+                      ].filter(Boolean).join(', ')}
+                    >
+                      Page {p.page_number}
+                      {p.open_comments > 0 && ` · ${p.open_comments}`}
+                    </Link>
+                  ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Issues List */}
         {data?.issues.length === 0 ? (
           <div className="bg-green-50 border border-green-200 rounded-xl p-8 text-center">
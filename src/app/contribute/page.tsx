@@ -66,7 +66,7 @@ export default function ContributePage() {
   }, [apiKey]);
 
   // Start processing
-  const startProcessing = async () => {
+  const startProcessing = async (confirmBudget = false) => {
     if (!selectedBook || !keyValid) return;
 
     const limit = parseFloat(costLimit) || 1.0;
@@ -91,8 +91,13 @@ export default function ContributePage() {
         processType,
         contributorName: contributorName || 'Anonymous',
         costLimit: limit,
+        confirmBudget,
       });
 
+      // Set when the run would pass a soft budget limit or exceed a hard one
+      let budgetPrompt: string | null = null;
+      let budgetRefusal: string | null = null;
+
       // Stream response for real-time updates
       const reader = res.body?.getReader();
       const decoder = new TextDecoder();
@@ -108,6 +113,14 @@ export default function ContributePage() {
           for (const line of lines) {
             try {
               const data = JSON.parse(line.replace('data: ', ''));
+              if (data.needsConfirmation) {
+                budgetPrompt = data.message;
+                continue;
+              }
+              if (data.budget && data.error) {
+                budgetRefusal = data.error;
+                continue;
+              }
               setProcessing(p => ({
                 ...p,
                 currentPage: data.currentPage || p.currentPage,
@@ -123,6 +136,18 @@ export default function ContributePage() {
         }
       }
 
+      if (budgetRefusal) {
+        setProcessing(p => ({ ...p, status: 'error', error: budgetRefusal! }));
+        return;
+      }
+      if (budgetPrompt) {
+        if (confirm(`${budgetPrompt}\n\nProcess this book anyway?`)) {
+          return startProcessing(true);
+        }
+        setProcessing({ status: 'idle', currentPage: 0, totalPages: 0, pagesCompleted: 0 });
+        return;
+      }
+
       setProcessing(p => ({ ...p, status: 'complete' }));
     } catch (error) {
       setProcessing(p => ({
@@ -462,7 +487,7 @@ export default function ContributePage() {
             {/* Start Button */}
             {keyValid && selectedBook && (
               <button
-                onClick={startProcessing}
+                onClick={() => startProcessing()}
                 className="w-full py-4 rounded-xl font-medium text-lg flex items-center justify-center gap-3"
                 style={{ background: 'var(--accent-sage)', color: 'white' }}
               >
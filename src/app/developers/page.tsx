@@ -56,7 +56,7 @@ export default function DevelopersPage() {
           </div>
 
           <p className="text-stone-600 mb-6 max-w-2xl">
-            The Model Context Protocol server gives Claude Desktop and other MCP-compatible AI clients direct access to Source Library. No API keys required.
+            The Model Context Protocol server gives Claude Desktop and other MCP-compatible AI clients direct access to Source Library. Searching and reading need no API key; to annotate, propose corrections or run jobs as yourself, create a key under <Link href="/account/api-keys" className="text-amber-700 hover:underline">API Keys</Link> and set it as <code className="text-sm bg-stone-100 px-1 rounded">SOURCE_LIBRARY_TOKEN</code>.
           </p>
 
           <div className="bg-white rounded-xl border border-stone-200 overflow-hidden mb-6">
@@ -194,7 +194,7 @@ export default function DevelopersPage() {
                     <tr className="border-b border-stone-100">
                       <td className="py-2 font-mono text-amber-700">q</td>
                       <td className="py-2 text-stone-500">string</td>
-                      <td className="py-2 text-stone-600">Search query (required)</td>
+                      <td className="py-2 text-stone-600">Search query (required). Supports &quot;phrases&quot;, AND / OR / NOT, -exclusions and prefix*</td>
                     </tr>
                     <tr className="border-b border-stone-100">
                       <td className="py-2 font-mono text-amber-700">language</td>
@@ -279,6 +279,28 @@ export default function DevelopersPage() {
           </div>
         </section>
 
+        {/* REST API v1 Section */}
+        <section className="mb-16">
+          <h2 className="text-2xl font-semibold text-stone-900 mb-6">REST API v1</h2>
+          <p className="text-stone-600 mb-4 max-w-2xl">
+            A stable, versioned API for books, pages, search, the image gallery, entities and editions. Requests need an API key with the <code className="text-sm bg-stone-100 px-1 rounded">read</code> scope, created under <Link href="/account/api-keys" className="text-amber-700 hover:underline">API Keys</Link> and sent as <code className="text-sm bg-stone-100 px-1 rounded">Authorization: Bearer sl_...</code>. Each key has a per-minute rate limit and a daily quota, reported in the <code className="text-sm bg-stone-100 px-1 rounded">X-RateLimit-*</code> and <code className="text-sm bg-stone-100 px-1 rounded">X-Quota-*</code> response headers.
+          </p>
+          <p className="text-stone-600 mb-6 max-w-2xl">
+            Lists return <code className="text-sm bg-stone-100 px-1 rounded">{'{ data, next_cursor }'}</code>; pass <code className="text-sm bg-stone-100 px-1 rounded">next_cursor</code> back as <code className="text-sm bg-stone-100 px-1 rounded">cursor</code> to fetch the next page. The full description is an OpenAPI 3.1 document at <a href="/api/v1/openapi.json" className="text-amber-700 hover:underline">/api/v1/openapi.json</a>.
+          </p>
+          <div className="bg-stone-900 rounded-lg p-4 overflow-x-auto">
+            <pre className="text-stone-300 text-sm">{`GET /api/v1/books?language=Latin&limit=25
+GET /api/v1/books/:id
+GET /api/v1/books/:id/pages?include_text=true
+GET /api/v1/books/:id/editions
+GET /api/v1/pages/:id
+GET /api/v1/search?q=philosopher's stone
+GET /api/v1/gallery?subject=dragon
+GET /api/v1/entities?type=person
+GET /api/v1/entities/:id`}</pre>
+          </div>
+        </section>
+
         {/* Citation Format */}
         <section className="mb-16">
           <h2 className="text-2xl font-semibold text-stone-900 mb-6">Citation Format</h2>
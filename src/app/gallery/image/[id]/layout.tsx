@@ -8,6 +8,9 @@
 
 import { Metadata } from 'next';
 import { getDb } from '@/lib/mongodb';
+import { highwireTags } from '@/lib/bibliographic';
+import type { Book } from '@/lib/types';
+import CitationMetadata from '@/components/seo/CitationMetadata';
 
 interface PageWithBook {
   id: string;
@@ -17,7 +20,9 @@ interface PageWithBook {
     description: string;
     type?: string;
   }>;
+  translation?: { data?: string };
   book?: {
+    id: string;
     title?: string;
     display_title?: string;
     author?: string;
@@ -103,13 +108,37 @@ export async function generateMetadata({
       title: description,
       description: fullDescription,
     },
+    // Cite the book at the page the image is on
+    ...(page.book && {
+      other: highwireTags(page.book as unknown as Book, {
+        hasTranslation: !!page.translation?.data,
+        page: { page_number: page.page_number, id: page.id },
+      }),
+    }),
   };
 }
 
-export default function ImageLayout({
+export default async function ImageLayout({
   children,
+  params,
 }: {
   children: React.ReactNode;
+  params: Promise<{ id: string }>;
 }) {
-  return children;
+  const { id } = await params;
+  const data = await getImageData(id);
+  const book = data?.page.book as unknown as Book | undefined;
+
+  return (
+    <>
+      {data && book && (
+        <CitationMetadata
+          book={book}
+          hasTranslation={!!data.page.translation?.data}
+          page={{ page_number: data.page.page_number, id: data.page.id }}
+        />
+      )}
+      {children}
+    </>
+  );
 }
@@ -13,6 +13,7 @@ const STATUS_COLORS: Record<JobStatus, string> = {
   completed: 'var(--accent-sage)',
   failed: 'var(--accent-rust)',
   cancelled: 'var(--text-muted)',
+  dead: 'var(--accent-rust)',
 };
 
 const STATUS_ICONS: Record<JobStatus, typeof CheckCircle> = {
@@ -22,6 +23,7 @@ const STATUS_ICONS: Record<JobStatus, typeof CheckCircle> = {
   completed: CheckCircle,
   failed: XCircle,
   cancelled: X,
+  dead: XCircle,
 };
 
 export default function JobsPage() {
@@ -653,7 +655,7 @@ export default function JobsPage() {
                           Cancel
                         </button>
                       )}
-                      {(job.status === 'failed' || job.status === 'cancelled') && !resumingStale && (
+                      {(job.status === 'failed' || job.status === 'cancelled' || job.status === 'dead') && !resumingStale && (
                         <button
                           onClick={() => handleAction(job.id, 'retry')}
                           className="p-1.5 rounded-lg hover:bg-stone-100 transition-colors"
@@ -6,8 +6,10 @@ import { Analytics } from "@vercel/analytics/react";
 import PageTracker from "@/components/reader/PageTracker";
 import { getSiteMode } from "@/lib/site-mode.server";
 import SiteModeIndicator from "@/components/providers/SiteModeIndicator";
+import { DEFAULT_TENANT_ID } from "@/lib/tenant";
+import { getTenantConfig } from "@/lib/tenant-config";
 
-export const metadata: Metadata = {
+const metadata: Metadata = {
   title: "Source Library",
   description: "Digitizing and translating rare Hermetic, esoteric, and humanist texts for scholars, seekers, and AI systems.",
   metadataBase: new URL('https://sourcelibrary.org'),
@@ -53,6 +55,21 @@ export const metadata: Metadata = {
   },
 };
 
+export async function generateMetadata(): Promise<Metadata> {
+  // Partner libraries hosted on this deployment use their own name
+  const tenant = await getTenantConfig();
+  if (tenant.id === DEFAULT_TENANT_ID) return metadata;
+
+  const { site_name, site_description } = tenant.branding;
+  return {
+    ...metadata,
+    title: site_name,
+    description: site_description,
+    openGraph: { ...metadata.openGraph, title: site_name, description: site_description, siteName: site_name },
+    twitter: { ...metadata.twitter, title: site_name, description: site_description },
+  };
+}
+
 export default async function RootLayout({
   children,
 }: Readonly<{
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import Link from 'next/link';
-import { Search, Book, FileText, ExternalLink, Filter, X, Loader2, Quote, User, MapPin, Lightbulb, BookOpen, Languages } from 'lucide-react';
+import { Search, Book, FileText, ExternalLink, Filter, X, Loader2, Quote, User, MapPin, Lightbulb, BookOpen, Languages, Sparkles } from 'lucide-react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { useDebouncedCallback } from 'use-debounce';
 import { search as searchApi, categories as categoriesApi, utils, type SearchResult, type IndexSearchResult, type IndexSearchResponse } from '@/lib/api-client';
@@ -17,6 +17,12 @@ const INDEX_TYPES = [
   { value: 'vocabulary', label: 'Vocabulary', icon: Languages },
 ];
 
+type SearchMode = 'books' | 'semantic' | 'index';
+
+function parseSearchMode(value: string | null): SearchMode {
+  return value === 'index' || value === 'semantic' ? value : 'books';
+}
+
 interface LanguageOption {
   value: string;
   label: string;
@@ -41,9 +47,7 @@ export default function SearchPage() {
   const [indexByType, setIndexByType] = useState<IndexSearchResponse['byType'] | null>(null);
   const [loading, setLoading] = useState(false);
   const [showFilters, setShowFilters] = useState(false);
-  const [searchMode, setSearchMode] = useState<'books' | 'index'>(
-    searchParams.get('mode') === 'index' ? 'index' : 'books'
-  );
+  const [searchMode, setSearchMode] = useState<SearchMode>(parseSearchMode(searchParams.get('mode')));
   const [indexType, setIndexType] = useState(searchParams.get('type') || '');
 
   // Dynamic filter options
@@ -98,7 +102,7 @@ export default function SearchPage() {
     fetchFilterOptions();
   }, []);
 
-  const performSearch = useCallback(async (searchQuery: string, mode: 'books' | 'index' = searchMode) => {
+  const performSearch = useCallback(async (searchQuery: string, mode: SearchMode = searchMode) => {
     if (!searchQuery || searchQuery.length < 2) {
       setResults([]);
       setIndexResults([]);
@@ -118,6 +122,17 @@ export default function SearchPage() {
         setTotal(data.total || 0);
         setIndexByType(data.byType || null);
         setResults([]);
+      } else if (mode === 'semantic') {
+        // Passage search by meaning
+        const data = await searchApi.semantic(searchQuery, {
+          language: language || undefined,
+          category: category || undefined,
+        });
+
+        setResults(data.results || []);
+        setTotal(data.total || 0);
+        setIndexResults([]);
+        setIndexByType(null);
       } else {
         // Book/page search
         const data = await searchApi.search(searchQuery, {
@@ -155,6 +170,10 @@ export default function SearchPage() {
     if (searchMode === 'index') {
       params.set('mode', 'index');
       if (indexType) params.set('type', indexType);
+    } else if (searchMode === 'semantic') {
+      params.set('mode', 'semantic');
+      if (language) params.set('language', language);
+      if (category) params.set('category', category);
     } else {
       if (language) params.set('language', language);
       if (category) params.set('category', category);
@@ -251,6 +270,17 @@ export default function SearchPage() {
               <Book className="w-4 h-4 inline mr-1.5" />
               Books & Pages
             </button>
+            <button
+              onClick={() => setSearchMode('semantic')}
+              className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                searchMode === 'semantic'
+                  ? 'bg-amber-100 text-amber-800 border border-amber-300'
+                  : 'bg-stone-100 text-stone-600 border border-transparent hover:bg-stone-200'
+              }`}
+            >
+              <Sparkles className="w-4 h-4 inline mr-1.5" />
+              Passages (by meaning)
+            </button>
             <button
               onClick={() => setSearchMode('index')}
               className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
@@ -273,7 +303,9 @@ export default function SearchPage() {
                 onChange={(e) => handleQueryChange(e.target.value)}
                 placeholder={searchMode === 'index'
                   ? "Search concepts, people, places, quotes..."
-                  : "Search books, authors, translations..."}
+                  : searchMode === 'semantic'
+                    ? "Describe an idea, e.g. the soul's ascent through the spheres..."
+                    : "Search books, authors, translations..."}
                 className="w-full pl-12 pr-4 py-3 border border-stone-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-amber-500 focus:border-transparent text-lg"
                 autoFocus
               />
@@ -453,7 +485,7 @@ export default function SearchPage() {
         )}
 
         {/* Book/Page Results */}
-        {searchMode === 'books' && results.length > 0 && (
+        {searchMode !== 'index' && results.length > 0 && (
           <div className="space-y-8">
             {Object.entries(groupedResults()).map(([categoryId, categoryResults]) => {
               const categoryInfo = categories.find(c => c.value === categoryId);
@@ -523,9 +555,11 @@ export default function SearchPage() {
                       )}
                     </div>
                     {result.snippet && (
-                      <p className="mt-3 text-sm text-stone-600 line-clamp-2">
-                        {result.snippet}
-                      </p>
+                      // Snippets are HTML-escaped server-side; only <mark> highlights are markup
+                      <p
+                        className={`mt-3 text-sm text-stone-600 ${searchMode === 'semantic' ? 'line-clamp-5' : 'line-clamp-2'} [&_mark]:bg-amber-200 [&_mark]:text-stone-900 [&_mark]:rounded-sm`}
+                        dangerouslySetInnerHTML={{ __html: result.snippet }}
+                      />
                     )}
                     {result.type === 'book' && result.page_count && (
                       <p className="mt-2 text-xs text-stone-500">
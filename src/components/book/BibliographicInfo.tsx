@@ -2,11 +2,19 @@
 
 import { useState } from 'react';
 import { ChevronDown, ChevronUp, Copy, Check, ExternalLink, Image as ImageIcon, RotateCcw, AlertTriangle, Loader2, Pencil } from 'lucide-react';
-import type { Book, ImageSource } from '@/lib/types';
+import type { BibliographicFormat, BibliographicRecordType, Book } from '@/lib/types';
 import { IMAGE_LICENSES } from '@/lib/types';
 import BookEditModal from './BookEditModal';
 import { useRouter } from 'next/navigation';
 import { books } from '@/lib/api-client';
+import { useRole } from '@/hooks/useRole';
+
+const EXPORT_FORMATS: Array<{ format: BibliographicFormat; label: string }> = [
+  { format: 'bibtex', label: 'BibTeX' },
+  { format: 'ris', label: 'RIS' },
+  { format: 'csl-json', label: 'CSL-JSON' },
+  { format: 'marcxml', label: 'MARCXML' },
+];
 
 interface BibliographicInfoProps {
   book: Book;
@@ -15,6 +23,7 @@ interface BibliographicInfoProps {
 
 export default function BibliographicInfo({ book, pagesCount }: BibliographicInfoProps) {
   const router = useRouter();
+  const { can } = useRole();
   const [expanded, setExpanded] = useState(false);
   const [copied, setCopied] = useState(false);
   const [showResetModal, setShowResetModal] = useState(false);
@@ -25,6 +34,9 @@ export default function BibliographicInfo({ book, pagesCount }: BibliographicInf
 
   // Check if full reimport is available (requires IA source)
   const canFullReimport = book.ia_identifier || book.image_source?.provider === 'internet_archive';
+  const exportRecords: BibliographicRecordType[] = book.editions?.some(e => e.status === 'published')
+    ? ['original', 'translation']
+    : ['original'];
 
   const handleReset = async () => {
     setResetting(true);
@@ -104,14 +116,16 @@ export default function BibliographicInfo({ book, pagesCount }: BibliographicInf
           {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
           Bibliographic Info
         </button>
-        <button
-          onClick={() => setShowEditModal(true)}
-          className="flex items-center gap-1.5 text-sm text-amber-400 hover:text-amber-300 transition-colors"
-          title="Edit metadata"
-        >
-          <Pencil className="w-3.5 h-3.5" />
-          Edit
-        </button>
+        {can('editor') && (
+          <button
+            onClick={() => setShowEditModal(true)}
+            className="flex items-center gap-1.5 text-sm text-amber-400 hover:text-amber-300 transition-colors"
+            title="Edit metadata"
+          >
+            <Pencil className="w-3.5 h-3.5" />
+            Edit
+          </button>
+        )}
       </div>
 
       {/* Expanded content */}
@@ -196,6 +210,41 @@ export default function BibliographicInfo({ book, pagesCount }: BibliographicInf
                 </a>
               </div>
             )}
+
+            {/* IIIF manifest (open in Mirador / Universal Viewer) */}
+            <div className="flex gap-2">
+              <span className="text-stone-500 w-24 flex-shrink-0">IIIF:</span>
+              <a
+                href={`/api/books/${book.id}/manifest`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-amber-400 hover:text-amber-300 flex items-center gap-1"
+              >
+                Presentation 3.0 manifest
+                <ExternalLink className="w-3 h-3" />
+              </a>
+            </div>
+
+            {/* Machine-readable records for reference managers and catalogues */}
+            {exportRecords.map(record => (
+              <div key={record} className="flex gap-2">
+                <span className="text-stone-500 w-24 flex-shrink-0">
+                  {record === 'original' ? 'Export:' : 'Translation:'}
+                </span>
+                <span className="flex flex-wrap gap-x-3">
+                  {EXPORT_FORMATS.map(({ format, label }) => (
+                    <a
+                      key={format}
+                      href={`/api/books/${book.id}/bibliography?format=${format}&record=${record}`}
+                      download
+                      className="text-amber-400 hover:text-amber-300"
+                    >
+                      {label}
+                    </a>
+                  ))}
+                </span>
+              </div>
+            ))}
           </div>
 
           {/* Image Source & License */}
@@ -239,18 +288,20 @@ export default function BibliographicInfo({ book, pagesCount }: BibliographicInf
                   </div>
                 )}
                 {/* Reset to Source button */}
-                <div className="mt-3 pt-3 border-t border-stone-600">
-                  <button
-                    onClick={() => setShowResetModal(true)}
-                    className="flex items-center gap-2 px-3 py-1.5 text-sm text-stone-400 hover:text-stone-200 hover:bg-stone-700 rounded-lg transition-colors"
-                  >
-                    <RotateCcw className="w-4 h-4" />
-                    Reset to Source
-                  </button>
-                </div>
+                {can('editor') && (
+                  <div className="mt-3 pt-3 border-t border-stone-600">
+                    <button
+                      onClick={() => setShowResetModal(true)}
+                      className="flex items-center gap-2 px-3 py-1.5 text-sm text-stone-400 hover:text-stone-200 hover:bg-stone-700 rounded-lg transition-colors"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      Reset to Source
+                    </button>
+                  </div>
+                )}
               </div>
             </div>
-          ) : (
+          ) : can('editor') && (
             /* Reset option for books without image source (soft reset only) */
             <div className="mt-4 pt-4 border-t border-stone-700">
               <button
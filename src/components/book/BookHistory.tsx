@@ -1,8 +1,9 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { History, ChevronDown, ChevronUp, FileText, Languages, BookOpen, Scissors, Loader2, CheckCircle2, XCircle, Clock, RefreshCw, AlertTriangle } from 'lucide-react';
-import { jobs } from '@/lib/api-client';
+import { History, ChevronDown, ChevronUp, FileText, Languages, BookOpen, Scissors, Loader2, CheckCircle2, XCircle, Clock, RefreshCw, AlertTriangle, PenLine, Sparkles } from 'lucide-react';
+import { books, jobs } from '@/lib/api-client';
+import type { BookRevision } from '@/lib/api-client/types/books';
 
 interface JobResult {
   pageId: string;
@@ -37,6 +38,11 @@ interface BookHistoryProps {
   bookId: string;
 }
 
+// Jobs and the page saves made outside of jobs, newest first
+type TimelineEntry =
+  | { kind: 'job'; date: string; job: Job }
+  | { kind: 'revision'; date: string; revision: BookRevision };
+
 const jobTypeConfig: Record<string, { label: string; icon: typeof FileText; color: string }> = {
   batch_ocr: { label: 'OCR', icon: FileText, color: '#3b82f6' },
   batch_translate: { label: 'Translation', icon: Languages, color: '#22c55e' },
@@ -67,6 +73,14 @@ function formatRelativeTime(date: string): string {
   return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
 }
 
+function revisionSummary(revision: BookRevision): string {
+  const field = revision.field === 'ocr' ? 'OCR' : 'Translation';
+  if (revision.via === 'baseline') return `${field} (before history)`;
+  if (revision.via === 'restore') return `${field} restored`;
+  if (revision.via === 'review') return `${field} reviewed`;
+  return revision.source === 'manual' ? `${field} edited` : field;
+}
+
 function formatDuration(start: string, end?: string): string {
   if (!end) return 'In progress';
   const startDate = new Date(start);
@@ -83,6 +97,8 @@ function formatDuration(start: string, end?: string): string {
 export default function BookHistory({ bookId }: BookHistoryProps) {
   const [expanded, setExpanded] = useState(false);
   const [jobsList, setJobsList] = useState<Job[]>([]);
+  const [revisions, setRevisions] = useState<BookRevision[]>([]);
+  const [loaded, setLoaded] = useState(false);
   const [loading, setLoading] = useState(false);
   const [expandedErrors, setExpandedErrors] = useState<Set<string>>(new Set());
   const [retrying, setRetrying] = useState<string | null>(null);
@@ -90,20 +106,34 @@ export default function BookHistory({ bookId }: BookHistoryProps) {
   const fetchJobs = async () => {
     setLoading(true);
     try {
-      const data = await jobs.list({ book_id: bookId, limit: 20 });
-      setJobsList(data.jobs || []);
+      const [jobData, revisionData] = await Promise.all([
+        jobs.list({ book_id: bookId, limit: 20 }),
+        books.revisions(bookId, { limit: 50 }).catch(() => ({ revisions: [], has_more: false })),
+      ]);
+      setJobsList(jobData.jobs || []);
+      setRevisions(revisionData.revisions || []);
     } catch (error) {
       console.error(error);
     } finally {
       setLoading(false);
+      setLoaded(true);
     }
   };
 
   useEffect(() => {
-    if (expanded && jobsList.length === 0) {
+    if (expanded && !loaded) {
       fetchJobs();
     }
-  }, [expanded, bookId, jobsList.length]);
+  }, [expanded, bookId, loaded]);
+
+  // Saves made by a listed job are counted on the job; the rest get their own entries
+  const jobIds = new Set(jobsList.map(job => job.id));
+  const timeline: TimelineEntry[] = [
+    ...jobsList.map(job => ({ kind: 'job' as const, date: job.created_at, job })),
+    ...revisions
+      .filter(revision => !revision.job_id || !jobIds.has(revision.job_id))
+      .map(revision => ({ kind: 'revision' as const, date: String(revision.created_at), revision })),
+  ].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
   const toggleErrorExpand = (jobId: string) => {
     setExpandedErrors(prev => {
@@ -156,9 +186,9 @@ export default function BookHistory({ bookId }: BookHistoryProps) {
       >
         <div className="flex items-center gap-2 text-stone-700">
           <History className="w-5 h-5" />
-          <span className="font-medium">Processing History</span>
-          {jobsList.length > 0 && (
-            <span className="text-xs text-stone-400">({jobsList.length} jobs)</span>
+          <span className="font-medium">History</span>
+          {timeline.length > 0 && (
+            <span className="text-xs text-stone-400">({timeline.length} entries)</span>
           )}
         </div>
         {expanded ? (
@@ -175,13 +205,55 @@ export default function BookHistory({ bookId }: BookHistoryProps) {
               <Loader2 className="w-5 h-5 animate-spin mr-2" />
               Loading history...
             </div>
-          ) : jobsList.length === 0 ? (
+          ) : timeline.length === 0 ? (
             <div className="text-center py-8 text-stone-400">
-              No processing history yet
+              No history yet
             </div>
           ) : (
             <div className="divide-y divide-stone-100">
-              {jobsList.map(job => {
+              {timeline.map(entry => {
+                if (entry.kind === 'revision') {
+                  const { revision } = entry;
+                  const RevisionIcon = revision.source === 'manual' ? PenLine : Sparkles;
+                  const color = revision.source === 'manual' ? '#0ea5e9' : '#6b7280';
+                  return (
+                    <a
+                      key={revision.id}
+                      href={`/book/${bookId}/page/${revision.page_id}`}
+                      className="px-4 py-3 flex items-center gap-4 hover:bg-stone-50 transition-colors"
+                    >
+                      <div
+                        className="w-8 h-8 rounded-lg flex items-center justify-center flex-shrink-0"
+                        style={{ backgroundColor: `${color}15` }}
+                      >
+                        <RevisionIcon className="w-4 h-4" style={{ color }} />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-stone-800">{revisionSummary(revision)}</span>
+                          {revision.page_number !== undefined && (
+                            <span className="text-xs text-stone-400">page {revision.page_number}</span>
+                          )}
+                        </div>
+                        <div className="text-xs text-stone-400 flex items-center gap-2 flex-wrap">
+                          <span>{formatRelativeTime(entry.date)}</span>
+                          {(revision.author || revision.model) && (
+                            <>
+                              <span className="text-stone-300">·</span>
+                              <span>{revision.author || revision.model}</span>
+                            </>
+                          )}
+                        </div>
+                      </div>
+                      <div className="text-xs font-mono flex-shrink-0">
+                        <span className="text-green-600">+{revision.diff.words_added}</span>{' '}
+                        <span className="text-red-500">−{revision.diff.words_removed}</span>
+                      </div>
+                    </a>
+                  );
+                }
+
+                const { job } = entry;
                 const typeInfo = jobTypeConfig[job.type] || { label: job.type, icon: FileText, color: '#6b7280' };
                 const statusInfo = statusConfig[job.status] || statusConfig.pending;
                 const TypeIcon = typeInfo.icon;
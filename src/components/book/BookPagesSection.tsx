@@ -28,8 +28,9 @@ import {
 import DownloadButton from '@/components/ui/DownloadButton';
 import { GEMINI_MODELS, DEFAULT_MODEL } from '@/lib/types';
 import { MODEL_PRICING } from '@/lib/ai';
-import type { Page, Prompt } from '@/lib/types';
+import type { Job, Page, Prompt } from '@/lib/types';
 import { prompts as promptsApi, jobs, books, processing as processingApi } from '@/lib/api-client';
+import { useRole } from '@/hooks/useRole';
 
 interface BookPagesSectionProps {
   bookId: string;
@@ -104,13 +105,14 @@ const PAGES_PER_LOAD = 24; // 2 rows on 12-col grid
 
 export default function BookPagesSection({ bookId, bookTitle, pages: initialPages }: BookPagesSectionProps) {
   const router = useRouter();
+  const { can } = useRole();
   const [pages, setPages] = useState(initialPages);
   const [batchMode, setBatchMode] = useState(false);
   const [reorderMode, setReorderMode] = useState(false);
   const [selectedPages, setSelectedPages] = useState<Set<string>>(new Set());
   const [action, setAction] = useState<ActionType>('ocr');
   const [selectedModel, setSelectedModel] = useState(DEFAULT_MODEL);
-  const [concurrency, setConcurrency] = useState(10); // Parallel batches for OCR (experiment-validated)
+  const [concurrency, setConcurrency] = useState(10); // Pages summarized in parallel
   const [showPromptSettings, setShowPromptSettings] = useState(false);
   const [overwriteMode, setOverwriteMode] = useState(false); // Force re-process pages that already have data
   const [useBatchApi, setUseBatchApi] = useState(false); // Use Gemini Batch API (50% off, 2-24h)
@@ -353,6 +355,30 @@ export default function BookPagesSection({ bookId, bookTitle, pages: initialPage
       p => (p.id || p._id?.toString()) === selectedPromptIds[action]
     );
 
+    // Check the run against the cost budgets before spending anything
+    let confirmBudget = false;
+    if (action === 'ocr' || action === 'translation') {
+      try {
+        const { budget } = await jobs.estimate({
+          type: actionToJobType[action],
+          book_id: bookId,
+          page_ids: pageIds,
+          model: selectedModel,
+          use_batch_api: useBatchApi,
+        });
+        if (!budget.allowed) {
+          alert(budget.message);
+          return;
+        }
+        if (budget.needs_confirmation) {
+          if (!confirm(`${budget.message}\n\nProcess these pages anyway?`)) return;
+          confirmBudget = true;
+        }
+      } catch (error) {
+        console.error('Failed to estimate cost:', error);
+      }
+    }
+
     // If using Batch API, create job and redirect to jobs page
     if (useBatchApi) {
       try {
@@ -364,6 +390,7 @@ export default function BookPagesSection({ bookId, bookTitle, pages: initialPage
           model: selectedModel,
           prompt_name: currentPrompt?.name,
           use_batch_api: true,
+          confirm_budget: confirmBudget,
         });
         // Redirect to jobs page
         router.push('/jobs');
@@ -388,6 +415,69 @@ export default function BookPagesSection({ bookId, bookTitle, pages: initialPage
       totalTokens: 0,
     });
 
+    // OCR, translation and image extraction run as a queue job; drive its
+    // slices from here, as the jobs page does, and show its progress
+    if (action !== 'summary') {
+      const customPrompt = action === 'image_extraction' ? undefined : editedPrompts[action];
+      let job: Job;
+      try {
+        job = await jobs.create({
+          type: actionToJobType[action],
+          book_id: bookId,
+          book_title: bookTitle,
+          page_ids: pageIds,
+          model: selectedModel,
+          prompt_name: currentPrompt?.name,
+          ...(customPrompt && customPrompt !== currentPrompt?.content && { custom_prompt: customPrompt }),
+          use_batch_api: false,
+          overwrite: overwriteMode,
+          confirm_budget: confirmBudget,
+        });
+      } catch (error) {
+        console.error('Failed to create job:', error);
+        setProcessing(prev => ({
+          ...prev,
+          active: false,
+          lastError: error instanceof Error ? error.message : 'Failed to create job',
+        }));
+        return;
+      }
+
+      let done = false;
+      while (!done) {
+        if (stopRequestedRef.current) {
+          await jobs.cancel(job.id).catch(() => undefined);
+          break;
+        }
+
+        try {
+          const data = await jobs.process(job.id);
+          done = data.done === true;
+          if (data.job) job = data.job;
+        } catch (error) {
+          // The queue retries the slice after a backoff
+          setProcessing(prev => ({
+            ...prev,
+            lastError: error instanceof Error ? error.message : 'Network error',
+          }));
+        }
+
+        const results = job.results || [];
+        setProcessing(prev => ({
+          ...prev,
+          currentIndex: results.length,
+          completed: results.filter(r => r.success).map(r => r.pageId),
+          failed: results.filter(r => !r.success).map(r => r.pageId),
+        }));
+
+        if (!done) await sleep(1000);
+      }
+
+      setProcessing(prev => ({ ...prev, active: false }));
+      if (job.results?.some(r => r.success)) router.refresh();
+      return;
+    }
+
     const completed: string[] = [];
     const failed: string[] = [];
     let runningCost = 0;
@@ -405,6 +495,7 @@ export default function BookPagesSection({ bookId, bookTitle, pages: initialPage
         model: selectedModel,
         prompt_name: currentPrompt?.name,
         use_batch_api: false,  // Realtime processing, not Batch API
+        confirm_budget: confirmBudget,
       });
       jobId = jobData.id;
 
@@ -458,19 +549,13 @@ export default function BookPagesSection({ bookId, bookTitle, pages: initialPage
         if (stopRequestedRef.current) return;
 
         try {
-          // Note: processPage is only called for ocr/translation/summary, never for image_extraction
-          // image_extraction has its own separate batch processing logic
           const data = await processingApi.process({
             pageId,
-            action: action as 'ocr' | 'translation' | 'summary',
-            imageUrl: page.photo,
+            action: 'summary',
             language: 'Latin',
             targetLanguage: 'English',
-            ocrText: action === 'translation' ? page.ocr?.data : undefined,
-            translatedText: action === 'summary' ? page.translation?.data : undefined,
+            translatedText: page.translation?.data,
             customPrompts: {
-              ocr: editedPrompts.ocr,
-              translation: editedPrompts.translation,
               summary: editedPrompts.summary
             },
             autoSave: true,
@@ -515,373 +600,15 @@ export default function BookPagesSection({ bookId, bookTitle, pages: initialPage
       updateJobProgress();
     };
 
-    // For translation, use batch API with context (5 pages per request)
-    // For OCR/summary, use parallel per-page processing
-    if (action === 'translation') {
-      const TRANSLATION_BATCH_SIZE = 5;
-      let previousContext = '';
-
-      // Sort pages by page number for proper continuity
-      const sortedPageIds = [...pageIds].sort((a, b) => {
-        const pageA = pages.find(p => p.id === a);
-        const pageB = pages.find(p => p.id === b);
-        return (pageA?.page_number || 0) - (pageB?.page_number || 0);
-      });
-
-      for (let i = 0; i < sortedPageIds.length; i += TRANSLATION_BATCH_SIZE) {
-        if (stopRequestedRef.current) break;
-
-        const batchIds = sortedPageIds.slice(i, Math.min(i + TRANSLATION_BATCH_SIZE, sortedPageIds.length));
-        const batchPages = batchIds
-          .map(id => pages.find(p => p.id === id))
-          .filter((p): p is Page => p !== undefined && !!p.ocr); // Check for OCR presence (data loaded by API)
-
-        if (batchPages.length === 0) {
-          batchIds.forEach(id => failed.push(id));
-          processedCount += batchIds.length;
-          // Update state even when skipping
-          setProcessing(prev => ({
-            ...prev,
-            currentIndex: processedCount,
-            completed: [...completed],
-            failed: [...failed],
-          }));
-          continue;
-        }
-
-        try {
-          const data = await processingApi.batchTranslate({
-            pages: batchPages.map(p => ({
-              pageId: p.id,
-              ocrText: p.ocr?.data || '',
-              pageNumber: p.page_number,
-            })),
-            sourceLanguage: 'Latin',
-            targetLanguage: 'English',
-            customPrompt: editedPrompts.translation,
-            model: selectedModel,
-            previousContext,
-            overwrite: overwriteMode,
-          });
-
-          // Check if response indicates "no pages to process"
-          if (data.message && (data.translatedCount === 0 || Object.keys(data.translations || {}).length === 0)) {
-            console.log(`[Translation] ${data.message}`);
-            // Mark all as completed (they already have translations or missing OCR)
-            batchIds.forEach(id => {
-              if (!completed.includes(id)) completed.push(id);
-            });
-            continue;
-          }
-
-          if (data.usage) {
-            runningCost += data.usage.costUsd || 0;
-            runningTokens += data.usage.totalTokens || 0;
-          }
-
-          // Track which pages were translated
-          const translatedIds = Object.keys(data.translations || {});
-          translatedIds.forEach(id => completed.push(id));
-
-          // Mark untranslated pages as failed
-          batchIds.forEach(id => {
-            if (!translatedIds.includes(id)) {
-              failed.push(id);
-            }
-          });
-
-          // Use last translation as context for next batch
-          if (translatedIds.length > 0) {
-            const lastId = batchPages[batchPages.length - 1].id;
-            previousContext = data.translations[lastId] || '';
-          }
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : 'Network error';
-          console.error('[Translation] Batch error:', {
-            error: errorMsg,
-            batchIds,
-            batchSize: batchPages.length,
-          });
-          batchIds.forEach(id => failed.push(id));
-          setProcessing(prev => ({
-            ...prev,
-            lastError: `Translation batch failed: ${errorMsg}`
-          }));
-        }
-
-        processedCount += batchIds.length;
-        setProcessing(prev => ({
-          ...prev,
-          currentIndex: processedCount,
-          completed: [...completed],
-          failed: [...failed],
-          totalCost: runningCost,
-          totalTokens: runningTokens,
-        }));
-        updateJobProgress();
-
-        // Small delay between batches
-        if (i + TRANSLATION_BATCH_SIZE < sortedPageIds.length && !stopRequestedRef.current) {
-          await sleep(500);
-        }
-      }
-    } else if (action === 'ocr') {
-      // OCR: batches of 5 images, run multiple batches in parallel for speed
-      const OCR_BATCH_SIZE = 5;
-      const PARALLEL_BATCHES = concurrency; // Use user-selected parallel batch count
-
-      // Sort pages by page number
-      const sortedPageIds = [...pageIds].sort((a, b) => {
-        const pageA = pages.find(p => p.id === a);
-        const pageB = pages.find(p => p.id === b);
-        return (pageA?.page_number || 0) - (pageB?.page_number || 0);
-      });
+    // Summary: parallel per-page processing (text only, simpler)
+    for (let i = 0; i < pageIds.length; i += concurrency) {
+      if (stopRequestedRef.current) break;
+      const batch = pageIds.slice(i, Math.min(i + concurrency, pageIds.length));
+      await Promise.all(batch.map(processPage));
 
-      // Create all batches upfront
-      const allBatches: { batchIds: string[]; batchPages: Page[] }[] = [];
-      for (let i = 0; i < sortedPageIds.length; i += OCR_BATCH_SIZE) {
-        const batchIds = sortedPageIds.slice(i, Math.min(i + OCR_BATCH_SIZE, sortedPageIds.length));
-        const batchPages = batchIds
-          .map(id => pages.find(p => p.id === id))
-          .filter((p): p is Page => p !== undefined);
-        allBatches.push({ batchIds, batchPages });
-      }
-
-      // Process batches in parallel groups
-      for (let i = 0; i < allBatches.length; i += PARALLEL_BATCHES) {
-        if (stopRequestedRef.current) break;
-
-        const parallelBatches = allBatches.slice(i, Math.min(i + PARALLEL_BATCHES, allBatches.length));
-
-        // Process this group of batches in parallel
-        const batchPromises = parallelBatches.map(async ({ batchIds, batchPages }) => {
-          if (batchPages.length === 0) {
-            batchIds.forEach(id => failed.push(id));
-            return { processedCount: batchIds.length };
-          }
-
-          try {
-            const data = await processingApi.batchOcrProcess({
-              pages: batchPages.map(p => ({
-                pageId: p.id,
-                imageUrl: p.photo,
-                pageNumber: p.page_number,
-              })),
-              language: 'Latin',
-              customPrompt: editedPrompts.ocr,
-              model: selectedModel,
-              overwrite: overwriteMode,
-            });
-
-            // Check if response indicates "no pages to process"
-            if (data.message && data.processedCount === 0) {
-              console.log(`[OCR] ${data.message}`);
-              // Mark all as completed (they already have OCR)
-              batchIds.forEach(id => {
-                if (!completed.includes(id)) completed.push(id);
-              });
-              return { processedCount: batchIds.length };
-            }
-
-            if (data.usage) {
-              runningCost += data.usage.costUsd || 0;
-              runningTokens += data.usage.totalTokens || 0;
-            }
-
-            // Track which pages were OCR'd (newly processed)
-            const ocrIds = Object.keys(data.ocrResults || {});
-            ocrIds.forEach(id => completed.push(id));
-
-            // Skipped pages (already have OCR) count as completed
-            (data.skippedPageIds || []).forEach((id: string) => {
-              if (!completed.includes(id)) completed.push(id);
-            });
-
-            // Add failed pages
-            (data.failedPageIds || []).forEach((id: string) => failed.push(id));
-
-            // Log detailed results if available
-            if (data.pageResults) {
-              data.pageResults.forEach((pr: { pageId: string; status: string; message: string }) => {
-                if (pr.status === 'skipped_has_ocr') {
-                  console.log(`[OCR] ${pr.message}`);
-                } else if (pr.status === 'skipped_needs_crop') {
-                  console.warn(`[OCR] ${pr.message}`);
-                } else if (pr.status.startsWith('failed')) {
-                  console.error(`[OCR] ${pr.message}`);
-                } else {
-                  console.log(`[OCR] ${pr.message}`);
-                }
-              });
-            }
-
-            // Update UI immediately as this batch completes (real-time progress)
-            processedCount += batchIds.length;
-            setProcessing(prev => ({
-              ...prev,
-              currentIndex: processedCount,
-              completed: [...completed],
-              failed: [...failed],
-              totalCost: runningCost,
-              totalTokens: runningTokens,
-            }));
-          } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : 'Network error';
-            console.error('[OCR] Batch error:', {
-              error: errorMsg,
-              batchIds,
-              batchSize: batchPages.length,
-            });
-            batchIds.forEach(id => failed.push(id));
-            processedCount += batchIds.length;
-            setProcessing(prev => ({
-              ...prev,
-              currentIndex: processedCount,
-              completed: [...completed],
-              failed: [...failed],
-              totalCost: runningCost,
-              totalTokens: runningTokens,
-              lastError: `OCR batch failed: ${errorMsg}`
-            }));
-          }
-
-          return { processedCount: batchIds.length };
-        });
-
-        // Wait for all parallel batches to complete
-        await Promise.all(batchPromises);
-
-        // Job progress already updated in real-time, just call final update
-        updateJobProgress();
-
-        // Small delay between parallel groups to avoid overwhelming the API
-        if (i + PARALLEL_BATCHES < allBatches.length && !stopRequestedRef.current) {
-          await sleep(300);
-        }
-      }
-
-      console.log(`[OCR] Complete: ${completed.length} succeeded, ${failed.length} failed`);
-    } else if (action === 'image_extraction') {
-      // Image extraction: parallel batch processing (like OCR)
-      const IMAGE_BATCH_SIZE = 3;
-      const PARALLEL_BATCHES = 5; // Process 15 images simultaneously
-
-      // Sort pages by page number
-      const sortedPageIds = [...pageIds].sort((a, b) => {
-        const pageA = pages.find(p => p.id === a);
-        const pageB = pages.find(p => p.id === b);
-        return (pageA?.page_number || 0) - (pageB?.page_number || 0);
-      });
-
-      // Create all batches upfront
-      const allBatches: { batchIds: string[]; batchPages: Page[] }[] = [];
-      for (let i = 0; i < sortedPageIds.length; i += IMAGE_BATCH_SIZE) {
-        const batchIds = sortedPageIds.slice(i, Math.min(i + IMAGE_BATCH_SIZE, sortedPageIds.length));
-        const batchPages = batchIds
-          .map(id => pages.find(p => p.id === id))
-          .filter((p): p is Page => p !== undefined);
-        allBatches.push({ batchIds, batchPages });
-      }
-
-      console.log(`[ImageExtraction] Starting parallel processing: ${allBatches.length} batches, ${PARALLEL_BATCHES} at a time`);
-
-      // Process batches in parallel groups
-      for (let i = 0; i < allBatches.length; i += PARALLEL_BATCHES) {
-        if (stopRequestedRef.current) break;
-
-        const parallelBatches = allBatches.slice(i, Math.min(i + PARALLEL_BATCHES, allBatches.length));
-
-        // Process this group of batches in parallel
-        const batchPromises = parallelBatches.map(async ({ batchIds, batchPages }) => {
-          if (batchPages.length === 0) {
-            batchIds.forEach(id => failed.push(id));
-            return { processedCount: batchIds.length };
-          }
-
-          try {
-            const data = await processingApi.batchImageExtraction({
-              pages: batchPages.map(p => ({
-                pageId: p.id,
-                imageUrl: p.photo,
-                pageNumber: p.page_number,
-              })),
-              model: selectedModel,
-              overwrite: overwriteMode,
-            });
-
-            if (data.usage) {
-              runningCost += data.usage.costUsd || 0;
-              runningTokens += data.usage.totalTokens || 0;
-            }
-
-            // Track which pages were processed (with or without detections)
-            const processedIds = Object.keys(data.detectionResults || {});
-            processedIds.forEach(id => completed.push(id));
-
-            // Skipped pages (already have detections) count as completed
-            (data.skippedPageIds || []).forEach((id: string) => {
-              if (!completed.includes(id)) completed.push(id);
-            });
-
-            // Add failed pages
-            (data.failedPageIds || []).forEach((id: string) => failed.push(id));
-
-            // Log detailed results if available
-            if (data.pageResults) {
-              data.pageResults.forEach((pr: { pageId: string; status: string; message: string }) => {
-                if (pr.status === 'skipped_has_detections') {
-                  console.log(`[ImageExtraction] ${pr.message}`);
-                } else if (pr.status.startsWith('failed')) {
-                  console.error(`[ImageExtraction] ${pr.message}`);
-                } else {
-                  console.log(`[ImageExtraction] ${pr.message}`);
-                }
-              });
-            }
-          } catch (error) {
-            const errorMsg = error instanceof Error ? error.message : 'Network error';
-            console.error('Batch image extraction error:', errorMsg);
-            batchIds.forEach(id => failed.push(id));
-            setProcessing(prev => ({ ...prev, lastError: errorMsg }));
-          }
-
-          return { processedCount: batchIds.length };
-        });
-
-        // Wait for all parallel batches to complete
-        const results = await Promise.all(batchPromises);
-        const batchProcessedCount = results.reduce((sum, r) => sum + r.processedCount, 0);
-        processedCount += batchProcessedCount;
-
-        setProcessing(prev => ({
-          ...prev,
-          currentIndex: processedCount,
-          completed: [...completed],
-          failed: [...failed],
-          totalCost: runningCost,
-          totalTokens: runningTokens,
-        }));
-        updateJobProgress();
-
-        // Small delay between parallel groups to avoid overwhelming the API
-        if (i + PARALLEL_BATCHES < allBatches.length && !stopRequestedRef.current) {
-          await sleep(300);
-        }
-      }
-
-      console.log(`[ImageExtraction] Complete: ${completed.length} succeeded, ${failed.length} failed`);
-    } else {
-      // Summary: parallel per-page processing (text only, simpler)
-      console.log("Concurrency: ", concurrency);
-      for (let i = 0; i < pageIds.length; i += concurrency) {
-        if (stopRequestedRef.current) break;
-        const batch = pageIds.slice(i, Math.min(i + concurrency, pageIds.length));
-        await Promise.all(batch.map(processPage));
-
-        // Small delay between batches to avoid rate limiting
-        if (i + concurrency < pageIds.length && !stopRequestedRef.current) {
-          await sleep(500);
-        }
+      // Small delay between batches to avoid rate limiting
+      if (i + concurrency < pageIds.length && !stopRequestedRef.current) {
+        await sleep(500);
       }
     }
 
@@ -928,8 +655,8 @@ export default function BookPagesSection({ bookId, bookTitle, pages: initialPage
   };
 
   const selectedCount = selectedPages.size;
-  // ~30 seconds per page, divided by concurrency
-  const estimatedTimeMinutes = Math.ceil((selectedCount * 0.5) / concurrency);
+  // ~30 seconds per page; only summaries run pages in parallel
+  const estimatedTimeMinutes = Math.ceil((selectedCount * 0.5) / (action === 'summary' ? concurrency : 1));
   const estimatedCost = selectedCount * getEstimatedCost(action, selectedModel);
 
   const formatCost = (cost: number) => {
@@ -1016,27 +743,31 @@ export default function BookPagesSection({ bookId, bookTitle, pages: initialPage
           <div className="flex items-center gap-2">
             {!batchMode && !reorderMode ? (
               <>
-                <button
-                  onClick={() => setBatchMode(true)}
-                  className="flex items-center gap-2 px-4 py-2 bg-amber-50 text-amber-700 rounded-lg hover:bg-amber-100 transition-colors text-sm font-medium border border-amber-200"
-                >
-                  <Wand2 className="w-4 h-4" />
-                  Batch Process
-                </button>
-                <button
-                  onClick={enterReorderMode}
-                  className="flex items-center gap-2 px-4 py-2 bg-stone-100 text-stone-700 rounded-lg hover:bg-stone-200 transition-colors text-sm font-medium"
-                >
-                  <ArrowUpDown className="w-4 h-4" />
-                  Reorder
-                </button>
-                <Link
-                  href={`/book/${bookId}/split`}
-                  className="flex items-center gap-2 px-4 py-2 bg-stone-100 text-stone-700 rounded-lg hover:bg-stone-200 transition-colors text-sm font-medium"
-                >
-                  <Scissors className="w-4 h-4" />
-                  Split Pages
-                </Link>
+                {can('editor') && (
+                  <>
+                    <button
+                      onClick={() => setBatchMode(true)}
+                      className="flex items-center gap-2 px-4 py-2 bg-amber-50 text-amber-700 rounded-lg hover:bg-amber-100 transition-colors text-sm font-medium border border-amber-200"
+                    >
+                      <Wand2 className="w-4 h-4" />
+                      Batch Process
+                    </button>
+                    <button
+                      onClick={enterReorderMode}
+                      className="flex items-center gap-2 px-4 py-2 bg-stone-100 text-stone-700 rounded-lg hover:bg-stone-200 transition-colors text-sm font-medium"
+                    >
+                      <ArrowUpDown className="w-4 h-4" />
+                      Reorder
+                    </button>
+                    <Link
+                      href={`/book/${bookId}/split`}
+                      className="flex items-center gap-2 px-4 py-2 bg-stone-100 text-stone-700 rounded-lg hover:bg-stone-200 transition-colors text-sm font-medium"
+                    >
+                      <Scissors className="w-4 h-4" />
+                      Split Pages
+                    </Link>
+                  </>
+                )}
                 <DownloadButton
                   bookId={bookId}
                   hasTranslations={pagesWithTranslation > 0}
@@ -1230,8 +961,7 @@ export default function BookPagesSection({ bookId, bookTitle, pages: initialPage
                   {action === 'ocr' ? (
                     <>
                       <p className="font-medium mb-1">OCR (Optical Character Recognition)</p>
-                      <p className="text-stone-300 mb-2">Extracts text from page images. 5 pages/batch, 10 parallel batches recommended.</p>
-                      <p className="text-amber-400 text-[11px] mb-2">Experiment: Batch sizes 1, 5, 10 showed no quality difference. Only batch 20 degraded (30-1 loss).</p>
+                      <p className="text-stone-300 mb-2">Extracts text from page images. Runs as a job, so it keeps going on the server if you leave this page.</p>
                       <Link href="/about/processing" className="text-amber-400 hover:text-amber-300 text-[11px] underline">
                         Learn more about our experiments →
                       </Link>
@@ -1240,7 +970,7 @@ export default function BookPagesSection({ bookId, bookTitle, pages: initialPage
                     <>
                       <p className="font-medium mb-1">Translation</p>
                       <p className="text-stone-300 mb-2">Translates OCR text to English. Sequential processing for context continuity.</p>
-                      <p className="text-blue-400 text-[11px] mb-2">Each batch passes the last page&apos;s translation as context to the next batch.</p>
+                      <p className="text-blue-400 text-[11px] mb-2">Each page is translated with the previous page&apos;s translation as context.</p>
                       <Link href="/about/processing" className="text-amber-400 hover:text-amber-300 text-[11px] underline">
                         Learn more about processing →
                       </Link>
@@ -1268,10 +998,10 @@ export default function BookPagesSection({ bookId, bookTitle, pages: initialPage
               </select>
             </div>
 
-            {/* Concurrency selector - only for OCR realtime */}
-            {!useBatchApi && action === 'ocr' && (
+            {/* Concurrency selector - only for summaries, which run in the browser */}
+            {action === 'summary' && (
               <div className="flex items-center gap-2">
-                <span className="text-sm text-stone-600">Parallel batches:</span>
+                <span className="text-sm text-stone-600">Parallel pages:</span>
                 <select
                   value={concurrency}
                   onChange={(e) => setConcurrency(Number(e.target.value))}
@@ -1284,15 +1014,6 @@ export default function BookPagesSection({ bookId, bookTitle, pages: initialPage
                 </select>
               </div>
             )}
-            {/* Translation batch info */}
-            {action === 'translation' && (
-              <div className="flex items-center gap-2">
-                <span className="text-sm text-stone-600">Batch:</span>
-                <span className="px-2 py-1.5 text-sm bg-stone-100 text-stone-600 rounded-lg">
-                  5 pages, sequential
-                </span>
-              </div>
-            )}
 
             {/* Mode selector */}
             <div className="flex items-center gap-2">
@@ -6,6 +6,7 @@ import { useRouter } from 'next/navigation';
 import { BookOpen, X, Check, Loader2 } from 'lucide-react';
 import { books } from '@/lib/api-client';
 import type { Page } from '@/lib/types';
+import { useRole } from '@/hooks/useRole';
 
 interface CoverImagePickerProps {
   bookId: string;
@@ -16,6 +17,8 @@ interface CoverImagePickerProps {
 
 export default function CoverImagePicker({ bookId, currentThumbnail, bookTitle, pages }: CoverImagePickerProps) {
   const router = useRouter();
+  const { can } = useRole();
+  const canEdit = can('editor');
   const [isOpen, setIsOpen] = useState(false);
   const [saving, setSaving] = useState<string | null>(null);
 
@@ -61,8 +64,9 @@ export default function CoverImagePicker({ bookId, currentThumbnail, bookTitle,
       {/* Clickable Cover Image */}
       <button
         onClick={() => setIsOpen(true)}
-        className="w-32 sm:w-48 aspect-[3/4] relative rounded-lg overflow-hidden shadow-xl bg-stone-700 cursor-pointer group"
-        title="Click to change cover image"
+        disabled={!canEdit}
+        className={`w-32 sm:w-48 aspect-[3/4] relative rounded-lg overflow-hidden shadow-xl bg-stone-700 group ${canEdit ? 'cursor-pointer' : 'cursor-default'}`}
+        title={canEdit ? 'Click to change cover image' : undefined}
       >
         {currentThumbnail ? (
           <Image
@@ -78,11 +82,13 @@ export default function CoverImagePicker({ bookId, currentThumbnail, bookTitle,
             <BookOpen className="w-12 sm:w-16 h-12 sm:h-16 text-stone-500" />
           </div>
         )}
-        <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity bg-black/30">
-          <span className="text-white text-sm font-medium px-2 py-1 bg-black/50 rounded">
-            Change Cover
-          </span>
-        </div>
+        {canEdit && (
+          <div className="absolute inset-0 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity bg-black/30">
+            <span className="text-white text-sm font-medium px-2 py-1 bg-black/50 rounded">
+              Change Cover
+            </span>
+          </div>
+        )}
       </button>
 
       {/* Picker Modal */}
@@ -2,7 +2,7 @@
 
 import { useState } from 'react';
 import { TranslationEdition } from '@/lib/types';
-import { BookMarked, ChevronDown, ChevronUp, ExternalLink, Copy, Check, Calendar, FileText, Users, Hash, Sparkles, Loader2, Eye } from 'lucide-react';
+import { BookMarked, ChevronDown, ChevronUp, ExternalLink, Copy, Check, Calendar, FileText, Users, Hash, Sparkles, Loader2, Eye, FileCode } from 'lucide-react';
 import Link from 'next/link';
 import { books } from '@/lib/api-client';
 
@@ -301,6 +301,13 @@ export default function EditionsPanel({ bookId, editions: initialEditions, onDoi
                       {copiedId === 'bibtex' ? <Check className="w-3 h-3 text-green-500" /> : <Copy className="w-3 h-3" />}
                       Copy BibTeX
                     </button>
+                    <a
+                      href={`/api/books/${bookId}/download?format=tei&edition_id=${currentEdition.id}`}
+                      className="flex items-center gap-1 px-3 py-1 text-xs text-stone-600 hover:bg-stone-100 rounded transition-colors"
+                    >
+                      <FileCode className="w-3 h-3" />
+                      TEI XML
+                    </a>
                   </div>
                 </div>
 
@@ -1,8 +1,8 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { BookMarked, X, Plus, Trash2, ExternalLink } from 'lucide-react';
-import { TranslationEdition, Contributor } from '@/lib/types';
+import { TranslationEdition, Contributor, BookReviewSummary } from '@/lib/types';
 import { books } from '@/lib/api-client';
 
 interface PublishEditionButtonProps {
@@ -46,6 +46,19 @@ export default function PublishEditionButton({
   const [license, setLicense] = useState('CC-BY-4.0');
   const [changelog, setChangelog] = useState('');
   const [contributors, setContributors] = useState<Contributor[]>([]);
+  const [review, setReview] = useState<BookReviewSummary | null>(null);
+  const [requireApproved, setRequireApproved] = useState(0);
+
+  // Proofreading progress, and the approved share the book requires at least
+  useEffect(() => {
+    if (!isOpen) return;
+    books.reviewStatus(bookId)
+      .then(summary => {
+        setReview(summary);
+        setRequireApproved(summary.policy.publish_min_approved_percent);
+      })
+      .catch(() => setReview(null));
+  }, [isOpen, bookId]);
 
   // New contributor form
   const [newContributor, setNewContributor] = useState({
@@ -85,6 +98,7 @@ export default function PublishEditionButton({
         license,
         contributors,
         changelog: changelog.trim() || undefined,
+        require_approved_percent: requireApproved,
       });
 
       onPublished?.(data.edition);
@@ -164,6 +178,26 @@ export default function PublishEditionButton({
                 )}
               </div>
 
+              {/* Proofreading */}
+              {review && (
+                <div>
+                  <label className="block text-sm font-medium text-stone-700 mb-2">
+                    Require approved pages (%)
+                  </label>
+                  <input
+                    type="number"
+                    min={review.policy.publish_min_approved_percent}
+                    max={100}
+                    value={requireApproved}
+                    onChange={(e) => setRequireApproved(Math.min(100, Math.max(review.policy.publish_min_approved_percent, Number(e.target.value) || 0)))}
+                    className="w-32 px-4 py-2 border border-stone-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500"
+                  />
+                  <p className={`text-xs mt-1 ${review.approved_percent < requireApproved ? 'text-red-600' : 'text-stone-500'}`}>
+                    {review.translation.approved} of {review.translated_pages} translated pages approved ({review.approved_percent}%)
+                  </p>
+                </div>
+              )}
+
               {/* Version Label */}
               <div>
                 <label className="block text-sm font-medium text-stone-700 mb-2">
@@ -3,6 +3,7 @@
 import { useSession, signOut } from 'next-auth/react';
 import Link from 'next/link';
 import { useState, useRef, useEffect } from 'react';
+import { ROLE_LABELS, hasRole } from '@/lib/roles';
 
 interface UserMenuProps {
   variant?: 'hero' | 'default';
@@ -83,6 +84,11 @@ export default function UserMenu({ variant = 'default' }: UserMenuProps) {
             <p className="text-xs truncate" style={{ color: 'var(--text-muted)' }}>
               {session.user?.email}
             </p>
+            {session.user?.role && (
+              <p className="text-xs mt-0.5" style={{ color: 'var(--text-muted)' }}>
+                {ROLE_LABELS[session.user.role]}
+              </p>
+            )}
           </div>
           <div className="py-1">
             <Link
@@ -93,6 +99,24 @@ export default function UserMenu({ variant = 'default' }: UserMenuProps) {
             >
               Analytics
             </Link>
+            <Link
+              href="/account/api-keys"
+              className="block px-4 py-2 text-sm hover:opacity-70 transition-opacity"
+              style={{ color: 'var(--text-primary)' }}
+              onClick={() => setIsOpen(false)}
+            >
+              API Keys
+            </Link>
+            {hasRole(session.user?.role, 'admin') && (
+              <Link
+                href="/admin/webhooks"
+                className="block px-4 py-2 text-sm hover:opacity-70 transition-opacity"
+                style={{ color: 'var(--text-primary)' }}
+                onClick={() => setIsOpen(false)}
+              >
+                Webhooks
+              </Link>
+            )}
             <button
               onClick={() => signOut({ callbackUrl: '/' })}
               className="w-full text-left px-4 py-2 text-sm hover:opacity-70 transition-opacity"
@@ -20,7 +20,11 @@ import {
   MessageCircle,
   Highlighter,
   StickyNote,
-  Info
+  Info,
+  GitCompare,
+  History,
+  ClipboardCheck,
+  Users
 } from 'lucide-react';
 import NotesRenderer from '@/components/reader/NotesRenderer';
 import ImageWithMagnifier from '@/components/ui/ImageWithMagnifier';
@@ -28,14 +32,74 @@ import PageMetadataPanel from '@/components/reader/PageMetadataPanel';
 import PageAssistant from '@/components/reader/PageAssistant';
 import HighlightsPanel from '@/components/annotations/HighlightsPanel';
 import AnnotationPanel from '@/components/annotations/AnnotationPanel';
+import ReviewPanel from '@/components/review/ReviewPanel';
 import HighlightSelection from '@/components/annotations/HighlightSelection';
 import { BookShare } from '@/components/ui/ShareButton';
 import { GoogleTranslate } from '@/components/search/GoogleTranslate';
-import { prompts as promptsApi, analytics, pages as pagesApi, processing as processingApi } from '@/lib/api-client';
+import { prompts as promptsApi, analytics, pages as pagesApi, processing as processingApi, ApiError } from '@/lib/api-client';
+import type { PageUpdateConflictResponse } from '@/lib/api-client';
 import LikeButton from '@/components/ui/LikeButton';
+import { useRole } from '@/hooks/useRole';
 import { getShortUrl } from '@/lib/shortlinks';
-import type { Page, Book, Prompt, ContentSource } from '@/lib/types';
+import { mergeTexts, resolveMerge } from '@/lib/diff';
+import { textVersion } from '@/lib/text-version';
+import type {
+  Page,
+  Book,
+  Prompt,
+  ContentSource,
+  DiffField,
+  DiffWord,
+  PageDiff,
+  PageSnapshot,
+  BlameLine,
+  BaseVersions,
+  EditableField,
+  EditConflict,
+  MergeChoice,
+  PagePresence,
+} from '@/lib/types';
 import { GEMINI_MODELS, DEFAULT_MODEL } from '@/lib/types';
+import {
+  DEFAULT_TARGET_LANGUAGE,
+  TARGET_LANGUAGES,
+  getTranslation,
+  pageTranslationLanguages,
+  targetLanguageName,
+} from '@/lib/translation-languages';
+
+// Switch between the languages a page is translated into; contributors can
+// also pick a language that has no translation yet
+function TargetLanguageSelect({ book, page, value, onChange, showAll }: {
+  book: Book;
+  page: Page;
+  value: string;
+  onChange: (code: string) => void;
+  showAll: boolean;
+}) {
+  const available = new Set([
+    DEFAULT_TARGET_LANGUAGE,
+    ...Object.keys(book.translation_progress || {}),
+    ...pageTranslationLanguages(page),
+    value,
+  ]);
+  const options = Object.keys(TARGET_LANGUAGES).filter(code => showAll || available.has(code));
+  if (options.length < 2) return null;
+
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="px-2 py-1.5 rounded-md text-xs font-medium border-0 focus:outline-none focus:ring-1"
+      style={{ background: 'var(--bg-warm)', color: 'var(--text-secondary)' }}
+      title="Translation language"
+    >
+      {options.map(code => (
+        <option key={code} value={code}>{TARGET_LANGUAGES[code]}</option>
+      ))}
+    </select>
+  );
+}
 
 // Helper to format edit source info
 function EditSourceBadge({ source, editedBy, editedAt }: {
@@ -78,8 +142,12 @@ interface TranslationEditorProps {
   pages: Page[];
   currentIndex: number;
   onNavigate: (pageId: string) => void;
-  onSave: (data: { ocr?: string; translation?: string; summary?: string }) => Promise<void>;
+  // Rejects with a 409 ApiError if a field changed since the given base version
+  onSave: (data: { ocr?: string; translation?: string; summary?: string }, baseVersions?: BaseVersions) => Promise<void>;
   onRefresh?: () => Promise<void>;
+  // BCP 47 code of the translation being read and edited (default English)
+  targetLanguage?: string;
+  onTargetLanguageChange?: (code: string) => void;
 }
 
 interface SettingsModalProps {
@@ -326,6 +394,468 @@ function SettingsModal({ isOpen, onClose, title, promptType, selectedPromptId, o
   );
 }
 
+interface ReviewModalProps {
+  onClose: () => void;
+  book: Book;
+  page: Page;
+  field: DiffField;
+  onApplied: (page: Page) => void;
+}
+
+interface VersionOption {
+  ref: string;
+  label: string;
+}
+
+// Words of a hunk, struck through where removed and highlighted where added
+function HunkWords({ words }: { words: DiffWord[] }) {
+  return (
+    <p className="text-sm leading-relaxed whitespace-pre-wrap" style={{ fontFamily: 'Newsreader, Georgia, serif', color: 'var(--text-secondary)' }}>
+      {words.map((word, i) => {
+        const text = word.text === '\n' ? '\n' : `${word.text} `;
+        if (word.op === 'delete') {
+          return <del key={i} className="bg-red-100 text-red-800">{text}</del>;
+        }
+        if (word.op === 'insert') {
+          return <ins key={i} className="bg-green-100 text-green-800 no-underline">{text}</ins>;
+        }
+        return <span key={i}>{text}</span>;
+      })}
+    </p>
+  );
+}
+
+function ReviewModal({ onClose, book, page, field, onApplied }: ReviewModalProps) {
+  const [options, setOptions] = useState<VersionOption[]>([]);
+  const [fromRef, setFromRef] = useState('');
+  const [diff, setDiff] = useState<PageDiff | null>(null);
+  const [rejected, setRejected] = useState<Set<number>>(new Set());
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fieldName = field === 'ocr' ? 'OCR' : 'translation';
+
+  // Earlier versions of this field: snapshots, then published editions
+  useEffect(() => {
+    const editions: VersionOption[] = (book.editions || [])
+      .filter(e => e.page_ids.includes(page.id))
+      .map(e => ({ ref: `edition:${e.id}`, label: `Edition ${e.version}${e.version_label ? ` (${e.version_label})` : ''}` }));
+
+    pagesApi.snapshots(page.id)
+      .then(({ snapshots }) => {
+        const fromSnapshots: VersionOption[] = (snapshots as PageSnapshot[])
+          .filter(s => s[`${field}_data`] !== undefined)
+          .map(s => ({
+            ref: `snapshot:${s.id}`,
+            label: `Snapshot ${s.snapshot_type.replace('_', ' ')}, ${new Date(s.created_at).toLocaleString()}`,
+          }));
+        const all = [...fromSnapshots, ...editions];
+        setOptions(all);
+        setFromRef(all[0]?.ref || '');
+        if (all.length === 0) setError(`There is no earlier version of this ${fieldName} to compare with.`);
+      })
+      .catch(() => setError('Failed to load earlier versions'));
+  }, [page.id, field, book.editions, fieldName]);
+
+  useEffect(() => {
+    if (!fromRef) return;
+    setLoading(true);
+    setError(null);
+    setRejected(new Set());
+    pagesApi.diff(page.id, { field, from: fromRef })
+      .then(setDiff)
+      .catch(err => {
+        setDiff(null);
+        setError(err instanceof Error ? err.message : 'Failed to load the diff');
+      })
+      .finally(() => setLoading(false));
+  }, [page.id, field, fromRef]);
+
+  const toggleHunk = (index: number, reject: boolean) => {
+    const next = new Set(rejected);
+    if (reject) next.add(index);
+    else next.delete(index);
+    setRejected(next);
+  };
+
+  const handleApply = async () => {
+    if (!diff) return;
+    setApplying(true);
+    try {
+      const result = await pagesApi.review(page.id, {
+        field,
+        from: diff.from.ref,
+        hash: diff.hash,
+        rejected: [...rejected],
+      });
+      onApplied(result.page);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply the review');
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  // Unchanged lines around each hunk, for context
+  const CONTEXT_LINES = 2;
+  const lines = diff?.lines ?? [];
+  const shown = lines.map((line, i) =>
+    line.op !== 'equal' ||
+    lines.slice(Math.max(0, i - CONTEXT_LINES), i + CONTEXT_LINES + 1).some(l => l.op !== 'equal')
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="review-modal-title"
+        className="w-full max-w-3xl mx-4 rounded-xl shadow-2xl max-h-[90vh] flex flex-col"
+        style={{ background: 'var(--bg-white)' }}
+      >
+        <div className="flex items-center justify-between p-5 flex-shrink-0" style={{ borderBottom: '1px solid var(--border-light)' }}>
+          <h2 id="review-modal-title" className="text-lg font-medium" style={{ fontFamily: 'Cormorant Garamond, Georgia, serif', color: 'var(--text-primary)' }}>
+            Review {fieldName} changes
+          </h2>
+          <button onClick={onClose} aria-label="Close dialog" className="hover:opacity-70 transition-opacity" style={{ color: 'var(--text-muted)' }}>
+            <X className="w-5 h-5" aria-hidden="true" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 flex-1 overflow-auto">
+          {options.length > 0 && (
+            <div>
+              <label className="label block mb-2">Compare current text with</label>
+              <select
+                value={fromRef}
+                onChange={(e) => setFromRef(e.target.value)}
+                className="w-full px-3 py-2.5 rounded-lg text-sm"
+                style={{ border: '1px solid var(--border-medium)', background: 'var(--bg-white)', color: 'var(--text-primary)' }}
+              >
+                {options.map(option => (
+                  <option key={option.ref} value={option.ref}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {error && (
+            <p className="text-sm" style={{ color: 'var(--accent-rust)' }}>{error}</p>
+          )}
+
+          {loading && (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-5 h-5 animate-spin" style={{ color: 'var(--text-muted)' }} />
+            </div>
+          )}
+
+          {diff && !loading && (
+            <>
+              <p className="text-xs" style={{ color: 'var(--text-muted)' }}>
+                {diff.hunks.length === 0
+                  ? 'No changes (markup tags are ignored).'
+                  : `${diff.hunks.length} change${diff.hunks.length === 1 ? '' : 's'}: ${diff.stats.words_removed} words removed, ${diff.stats.words_added} added. Markup tags are ignored.`}
+              </p>
+
+              <div className="space-y-1">
+                {lines.map((line, i) => {
+                  if (!shown[i]) {
+                    return shown[i - 1] ? (
+                      <div key={i} className="text-xs text-center py-1" style={{ color: 'var(--text-faint)' }}>⋯</div>
+                    ) : null;
+                  }
+                  if (line.op === 'equal') {
+                    return (
+                      <p key={i} className="text-sm truncate" style={{ fontFamily: 'Newsreader, Georgia, serif', color: 'var(--text-muted)' }}>
+                        {line.text || ' '}
+                      </p>
+                    );
+                  }
+                  // Render each hunk once, at its first line
+                  if (i > 0 && lines[i - 1].hunk === line.hunk) return null;
+                  const hunk = diff.hunks[line.hunk!];
+                  const isRejected = rejected.has(hunk.index);
+                  return (
+                    <div
+                      key={i}
+                      className="rounded-lg p-3 my-2"
+                      style={{ border: '1px solid var(--border-light)', background: isRejected ? 'var(--bg-warm)' : 'var(--bg-cream)' }}
+                    >
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="text-xs" style={{ color: 'var(--text-muted)' }}>
+                          Line {hunk.to_start}
+                        </span>
+                        <div className="flex items-center gap-1">
+                          <button
+                            onClick={() => toggleHunk(hunk.index, false)}
+                            className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium transition-all"
+                            style={{
+                              background: !isRejected ? 'rgba(139, 154, 125, 0.15)' : 'transparent',
+                              color: !isRejected ? 'var(--accent-sage)' : 'var(--text-muted)',
+                            }}
+                          >
+                            <Check className="w-3 h-3" />
+                            Accept
+                          </button>
+                          <button
+                            onClick={() => toggleHunk(hunk.index, true)}
+                            className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium transition-all"
+                            style={{
+                              background: isRejected ? 'rgba(196, 93, 58, 0.12)' : 'transparent',
+                              color: isRejected ? 'var(--accent-rust)' : 'var(--text-muted)',
+                            }}
+                          >
+                            <RotateCcw className="w-3 h-3" />
+                            Reject
+                          </button>
+                        </div>
+                      </div>
+                      <HunkWords words={hunk.words} />
+                    </div>
+                  );
+                })}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="p-5 flex items-center justify-between gap-3" style={{ borderTop: '1px solid var(--border-light)' }}>
+          <span className="text-xs" style={{ color: 'var(--text-muted)' }}>
+            {rejected.size > 0
+              ? `${rejected.size} change${rejected.size === 1 ? '' : 's'} will be reverted`
+              : 'All changes are kept'}
+          </span>
+          <div className="flex gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium rounded-lg transition-colors hover:bg-stone-100"
+              style={{ color: 'var(--text-muted)' }}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={!diff || rejected.size === 0 || applying}
+              className="btn-primary flex items-center gap-2 disabled:opacity-50"
+            >
+              {applying && <Loader2 className="w-4 h-4 animate-spin" />}
+              Apply review
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Who wrote each line of the current translation
+function BlameModal({ onClose, page, targetLanguage }: { onClose: () => void; page: Page; targetLanguage: string }) {
+  const [lines, setLines] = useState<BlameLine[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    pagesApi.blame(page.id, 'translation', targetLanguage)
+      .then(result => setLines(result.lines))
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load history'));
+  }, [page.id, targetLanguage]);
+
+  const attribution = (line: BlameLine) => {
+    if (!line.revision_id) return 'Unsaved in history';
+    const who = line.author || line.model || (line.source === 'manual' ? 'Unknown' : 'AI');
+    const when = line.created_at ? new Date(line.created_at).toLocaleDateString() : '';
+    return `r${line.revision} · ${who}${when ? ` · ${when}` : ''}`;
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="blame-modal-title"
+        className="w-full max-w-3xl mx-4 rounded-xl shadow-2xl max-h-[90vh] flex flex-col"
+        style={{ background: 'var(--bg-white)' }}
+      >
+        <div className="flex items-center justify-between p-5 flex-shrink-0" style={{ borderBottom: '1px solid var(--border-light)' }}>
+          <h2 id="blame-modal-title" className="text-lg font-medium" style={{ fontFamily: 'Cormorant Garamond, Georgia, serif', color: 'var(--text-primary)' }}>
+            Translation history by line
+          </h2>
+          <button onClick={onClose} aria-label="Close dialog" className="hover:opacity-70 transition-opacity" style={{ color: 'var(--text-muted)' }}>
+            <X className="w-5 h-5" aria-hidden="true" />
+          </button>
+        </div>
+
+        <div className="p-5 flex-1 overflow-auto">
+          {error && (
+            <p className="text-sm" style={{ color: 'var(--accent-rust)' }}>{error}</p>
+          )}
+          {!lines && !error && (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-5 h-5 animate-spin" style={{ color: 'var(--text-muted)' }} />
+            </div>
+          )}
+          {lines && (
+            <table className="w-full text-sm">
+              <tbody>
+                {lines.map((line, i) => {
+                  const sameAsAbove = i > 0 && lines[i - 1].revision_id === line.revision_id;
+                  return (
+                    <tr key={line.line} style={{ borderTop: sameAsAbove ? undefined : '1px solid var(--border-light)' }}>
+                      <td className="pr-4 py-0.5 align-top whitespace-nowrap text-xs" style={{ color: line.source === 'manual' ? 'var(--accent-sage)' : 'var(--text-muted)' }}>
+                        {sameAsAbove ? '' : attribution(line)}
+                      </td>
+                      <td className="py-0.5 whitespace-pre-wrap" style={{ fontFamily: 'Newsreader, Georgia, serif', color: 'var(--text-secondary)' }}>
+                        {line.text || ' '}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// A field that could not be saved because someone else saved it first
+interface FieldConflict extends EditConflict {
+  base: string;                  // The text the local edit started from
+  mine: string;
+}
+
+const FIELD_LABELS: Record<EditableField, string> = { ocr: 'OCR', translation: 'Translation', summary: 'Summary' };
+
+// Three-way merge of local edits with text saved by someone else meanwhile
+function MergeDialog({ conflicts, onMerge, onCancel }: {
+  conflicts: FieldConflict[];
+  onMerge: (merged: Partial<Record<EditableField, string>>) => void;
+  onCancel: () => void;
+}) {
+  const [choices, setChoices] = useState<Partial<Record<EditableField, Record<number, MergeChoice>>>>({});
+  const merges = conflicts.map(conflict => ({
+    conflict,
+    result: mergeTexts(conflict.base, conflict.mine, conflict.current),
+  }));
+
+  const choose = (field: EditableField, index: number, choice: MergeChoice) =>
+    setChoices(prev => ({ ...prev, [field]: { ...prev[field], [index]: choice } }));
+
+  const handleMerge = () => {
+    onMerge(Object.fromEntries(merges.map(({ conflict, result }) =>
+      [conflict.field, resolveMerge(result.chunks, choices[conflict.field])]
+    )));
+  };
+
+  const lineStyle = { fontFamily: 'Newsreader, Georgia, serif' };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="merge-dialog-title"
+        className="w-full max-w-3xl mx-4 rounded-xl shadow-2xl max-h-[90vh] flex flex-col"
+        style={{ background: 'var(--bg-white)' }}
+      >
+        <div className="flex items-center justify-between p-5 flex-shrink-0" style={{ borderBottom: '1px solid var(--border-light)' }}>
+          <h2 id="merge-dialog-title" className="text-lg font-medium" style={{ fontFamily: 'Cormorant Garamond, Georgia, serif', color: 'var(--text-primary)' }}>
+            Someone else edited this page
+          </h2>
+          <button onClick={onCancel} aria-label="Close dialog" className="hover:opacity-70 transition-opacity" style={{ color: 'var(--text-muted)' }}>
+            <X className="w-5 h-5" aria-hidden="true" />
+          </button>
+        </div>
+
+        <div className="p-5 flex-1 overflow-auto space-y-6">
+          {merges.map(({ conflict, result }) => (
+            <section key={conflict.field}>
+              <h3 className="text-sm font-medium mb-1" style={{ color: 'var(--text-primary)' }}>
+                {FIELD_LABELS[conflict.field]}
+              </h3>
+              <p className="text-xs mb-2" style={{ color: 'var(--text-muted)' }}>
+                Saved by {conflict.edited_by || 'another editor'}
+                {conflict.updated_at && ` at ${new Date(conflict.updated_at).toLocaleTimeString()}`}.{' '}
+                {result.conflicts === 0
+                  ? 'The changes do not overlap and were combined.'
+                  : `${result.conflicts} place${result.conflicts === 1 ? '' : 's'} changed by both of you.`}
+              </p>
+              <div className="text-sm rounded-lg p-3 space-y-1" style={{ background: 'var(--bg-warm)' }}>
+                {result.chunks.map((chunk, i) => {
+                  if (chunk.type === 'clean') {
+                    return (
+                      <div key={i} className="whitespace-pre-wrap" style={{ ...lineStyle, color: 'var(--text-secondary)' }}>
+                        {chunk.lines.join('\n')}
+                      </div>
+                    );
+                  }
+                  const choice = choices[conflict.field]?.[chunk.index] || 'mine';
+                  return (
+                    <div key={i} className="rounded-lg p-2 space-y-2" style={{ border: '1px solid var(--accent-rust)' }}>
+                      {(['mine', 'theirs'] as const).map(side => (
+                        <div
+                          key={side}
+                          className="whitespace-pre-wrap px-2 py-1 rounded"
+                          style={{
+                            ...lineStyle,
+                            color: 'var(--text-secondary)',
+                            background: choice === side || choice === 'both' ? 'rgba(139, 154, 125, 0.15)' : undefined,
+                            textDecoration: choice !== side && choice !== 'both' ? 'line-through' : undefined,
+                          }}
+                        >
+                          <span className="block text-[10px] uppercase tracking-wide" style={{ color: 'var(--text-muted)' }}>
+                            {side === 'mine' ? 'Yours' : 'Theirs'}
+                          </span>
+                          {chunk[side].join('\n') || '(removed)'}
+                        </div>
+                      ))}
+                      <div className="flex gap-2 text-xs">
+                        {([['mine', 'Keep yours'], ['theirs', 'Take theirs'], ['both', 'Keep both']] as const).map(([value, label]) => (
+                          <button
+                            key={value}
+                            onClick={() => choose(conflict.field, chunk.index, value)}
+                            className="px-2 py-1 rounded transition-colors"
+                            style={{
+                              border: '1px solid var(--border-light)',
+                              background: choice === value ? 'var(--bg-cream)' : undefined,
+                              color: 'var(--text-secondary)',
+                            }}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-3 p-5 flex-shrink-0" style={{ borderTop: '1px solid var(--border-light)' }}>
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm rounded-lg transition-colors"
+            style={{ color: 'var(--text-secondary)' }}
+          >
+            Keep editing
+          </button>
+          <button
+            onClick={handleMerge}
+            className="px-4 py-2 text-sm rounded-lg text-white transition-opacity hover:opacity-90"
+            style={{ background: 'var(--accent-sage)' }}
+          >
+            Save merged text
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export default function TranslationEditor({
   book,
   page,
@@ -334,11 +864,28 @@ export default function TranslationEditor({
   onNavigate,
   onSave,
   onRefresh,
+  targetLanguage = DEFAULT_TARGET_LANGUAGE,
+  onTargetLanguageChange,
 }: TranslationEditorProps) {
+  const storedTranslation = getTranslation(page, targetLanguage);
+  const targetName = targetLanguageName(targetLanguage);
+  // Diffs against snapshots and editions only cover the English translation
+  const canDiffTranslation = targetLanguage === DEFAULT_TARGET_LANGUAGE;
+
   const [ocrText, setOcrText] = useState(page.ocr?.data || '');
-  const [translationText, setTranslationText] = useState(page.translation?.data || '');
+  const [translationText, setTranslationText] = useState(storedTranslation?.data || '');
   const [summaryText, setSummaryText] = useState(page.summary?.data || '');
 
+  // The stored text each field's edits started from, to detect saves by
+  // other editors in the meantime
+  const savedText = useRef<Record<EditableField, string>>({
+    ocr: page.ocr?.data || '',
+    translation: storedTranslation?.data || '',
+    summary: page.summary?.data || '',
+  });
+  const [mergeConflicts, setMergeConflicts] = useState<FieldConflict[] | null>(null);
+  const [otherEditors, setOtherEditors] = useState<PagePresence[]>([]);
+
   // Reset split state
   const [showResetSplitConfirm, setShowResetSplitConfirm] = useState(false);
   const [resettingSplit, setResettingSplit] = useState(false);
@@ -381,6 +928,7 @@ export default function TranslationEditor({
   };
 
   const [processing, setProcessing] = useState<'ocr' | 'translation' | 'summary' | 'all' | null>(null);
+  const { can } = useRole();
   const [mode, setMode] = useState<'read' | 'edit'>('read');
 
   const [showOcrSettings, setShowOcrSettings] = useState(false);
@@ -393,6 +941,11 @@ export default function TranslationEditor({
   const [copiedTranslation, setCopiedTranslation] = useState(false);
   const [showHowItWorks, setShowHowItWorks] = useState(false);
 
+  // Which field's changes are being reviewed against an earlier version
+  const [reviewField, setReviewField] = useState<DiffField | null>(null);
+  const [showBlame, setShowBlame] = useState(false);
+  const [showReviewPanel, setShowReviewPanel] = useState(false);
+
   // Page Assistant state
   const [showAssistant, setShowAssistant] = useState(false);
   const [assistantMode, setAssistantMode] = useState<'explain' | 'ask'>('explain');
@@ -551,10 +1104,34 @@ export default function TranslationEditor({
 
   // Update state when page changes
   useEffect(() => {
+    const translation = getTranslation(page, targetLanguage)?.data || '';
     setOcrText(page.ocr?.data || '');
-    setTranslationText(page.translation?.data || '');
+    setTranslationText(translation);
     setSummaryText(page.summary?.data || '');
-  }, [page]);
+    savedText.current = {
+      ocr: page.ocr?.data || '',
+      translation,
+      summary: page.summary?.data || '',
+    };
+    setMergeConflicts(null);
+  }, [page, targetLanguage]);
+
+  // Show who else has the page open while editing
+  useEffect(() => {
+    if (mode !== 'edit' || !can('contributor')) {
+      setOtherEditors([]);
+      return;
+    }
+    const beat = () => pagesApi.heartbeat(page.id)
+      .then(result => setOtherEditors(result.editors))
+      .catch(() => { });
+    beat();
+    const interval = setInterval(beat, 20_000);
+    return () => {
+      clearInterval(interval);
+      pagesApi.leave(page.id).catch(() => { });
+    };
+  }, [mode, page.id, can]);
 
   const handleProcess = async (action: 'ocr' | 'translation' | 'summary' | 'all') => {
     setProcessing(action);
@@ -573,7 +1150,7 @@ export default function TranslationEditor({
         action,
         imageUrl: page.photo,
         language: book.language || 'Latin',
-        targetLanguage: 'English',
+        targetLanguage: targetName,
         ocrText: action === 'translation' ? ocrText : undefined,
         translatedText: action === 'summary' ? translationText : undefined,
         previousPageId: previousPage?.id,
@@ -586,9 +1163,19 @@ export default function TranslationEditor({
         }
       });
 
-      if (result.ocr) setOcrText(result.ocr);
-      if (result.translation) setTranslationText(result.translation);
-      if (result.summary) setSummaryText(result.summary);
+      // Results are saved to the page, so they are the new base for edits
+      if (result.ocr) {
+        setOcrText(result.ocr);
+        savedText.current.ocr = result.ocr;
+      }
+      if (result.translation) {
+        setTranslationText(result.translation);
+        savedText.current.translation = result.translation;
+      }
+      if (result.summary) {
+        setSummaryText(result.summary);
+        savedText.current.summary = result.summary;
+      }
 
       // Refresh parent data to sync page prop with new DB state
       // This prevents the useEffect from resetting state to stale prop values
@@ -603,18 +1190,53 @@ export default function TranslationEditor({
     }
   };
 
-  const handleSave = async () => {
+  // Save the fields that differ from the stored text, with the version each
+  // edit started from
+  const saveEdits = async (edits: Record<EditableField, string>) => {
+    const base = { ...savedText.current };
+    const changed = (Object.keys(edits) as EditableField[]).filter(field => edits[field] !== base[field]);
+    if (changed.length === 0) return;
+
+    const baseVersions: BaseVersions = {};
+    for (const field of changed) baseVersions[field] = await textVersion(base[field]);
+
     try {
-      await onSave({
-        ocr: ocrText,
-        translation: translationText,
-        summary: summaryText
-      });
+      await onSave(Object.fromEntries(changed.map(field => [field, edits[field]])), baseVersions);
+      for (const field of changed) savedText.current[field] = edits[field];
     } catch (error) {
+      if (error instanceof ApiError && error.status === 409) {
+        const { conflicts } = error.data as PageUpdateConflictResponse;
+        setMergeConflicts(conflicts.map(conflict => ({
+          ...conflict,
+          base: base[conflict.field],
+          mine: edits[conflict.field],
+        })));
+        return;
+      }
       console.error('Save error:', error);
     }
   };
 
+  const handleSave = () => saveEdits({
+    ocr: ocrText,
+    translation: translationText,
+    summary: summaryText
+  });
+
+  // Save the merged text over the version that was saved by someone else
+  const handleMerged = async (merged: Partial<Record<EditableField, string>>) => {
+    for (const conflict of mergeConflicts || []) {
+      savedText.current[conflict.field] = conflict.current;
+    }
+    setMergeConflicts(null);
+
+    const edits = { ocr: ocrText, translation: translationText, summary: summaryText, ...merged };
+    setOcrText(edits.ocr);
+    setTranslationText(edits.translation);
+    setSummaryText(edits.summary);
+    await saveEdits(edits);
+  };
+
   const copyToClipboard = async (text: string) => {
     await navigator.clipboard.writeText(text);
     setCopiedTranslation(true);
@@ -708,13 +1330,22 @@ export default function TranslationEditor({
                 title="Toggle translation"
               >
                 <Languages className="w-4 h-4" />
-                <span className="hidden sm:inline">English</span>
+                <span className="hidden sm:inline">{targetName}</span>
               </button>
             </div>
+            {onTargetLanguageChange && (
+              <TargetLanguageSelect
+                book={book}
+                page={page}
+                value={targetLanguage}
+                onChange={onTargetLanguageChange}
+                showAll={can('contributor')}
+              />
+            )}
 
             {/* Right side: Mode toggle + Like + extras on desktop */}
             <div className="flex items-center gap-1 sm:gap-2">
-              {isSplitPage && (
+              {isSplitPage && can('editor') && (
                 <button
                   onClick={() => setShowResetSplitConfirm(true)}
                   className="hidden sm:flex items-center gap-1.5 px-2.5 py-1.5 rounded-md text-sm font-medium hover:bg-red-50 transition-all"
@@ -769,17 +1400,19 @@ export default function TranslationEditor({
                   <Eye className="w-4 h-4" />
                   <span className="hidden sm:inline">Read</span>
                 </button>
-                <button
-                  onClick={() => setMode('edit')}
-                  className="flex items-center justify-center gap-1 px-2 sm:px-3 py-1.5 rounded-md text-xs sm:text-sm font-medium transition-all"
-                  style={{
-                    background: 'transparent',
-                    color: 'var(--text-muted)',
-                  }}
-                >
-                  <Pencil className="w-4 h-4" />
-                  <span className="hidden sm:inline">Edit</span>
-                </button>
+                {can('contributor') && (
+                  <button
+                    onClick={() => setMode('edit')}
+                    className="flex items-center justify-center gap-1 px-2 sm:px-3 py-1.5 rounded-md text-xs sm:text-sm font-medium transition-all"
+                    style={{
+                      background: 'transparent',
+                      color: 'var(--text-muted)',
+                    }}
+                  >
+                    <Pencil className="w-4 h-4" />
+                    <span className="hidden sm:inline">Edit</span>
+                  </button>
+                )}
               </div>
 
               {/* Like Button */}
@@ -903,7 +1536,7 @@ export default function TranslationEditor({
                   <div className="px-4 py-2 flex items-center justify-between flex-shrink-0" style={{ borderBottom: '1px solid var(--border-light)' }}>
                     <div className="flex items-center gap-2">
                       <span className="text-xs font-medium uppercase tracking-wide" style={{ color: 'var(--text-muted)' }}>
-                        {translationText ? 'English' : 'Step 2: Translate'}
+                        {translationText ? targetName : 'Step 2: Translate'}
                       </span>
                       {translationText && (
                         <span className="flex items-center gap-1 text-xs" style={{ color: 'var(--accent-sage)' }}>
@@ -912,9 +1545,9 @@ export default function TranslationEditor({
                       )}
                       {translationText && (
                         <EditSourceBadge
-                          source={page.translation?.source}
-                          editedBy={page.translation?.edited_by}
-                          editedAt={page.translation?.edited_at}
+                          source={storedTranslation?.source}
+                          editedBy={storedTranslation?.edited_by}
+                          editedAt={storedTranslation?.edited_at}
                         />
                       )}
                     </div>
@@ -996,7 +1629,7 @@ export default function TranslationEditor({
                               <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
                               </svg>
-                              Translate to English
+                              Translate to {targetName}
                             </>
                           )}
                         </button>
@@ -1262,9 +1895,18 @@ export default function TranslationEditor({
               title="Toggle translation panel"
             >
               <Languages className="w-4 h-4" />
-              <span className="hidden sm:inline">English</span>
+              <span className="hidden sm:inline">{targetName}</span>
             </button>
           </div>
+          {onTargetLanguageChange && (
+            <TargetLanguageSelect
+              book={book}
+              page={page}
+              value={targetLanguage}
+              onChange={onTargetLanguageChange}
+              showAll={can('contributor')}
+            />
+          )}
 
           {/* Right side: Mode toggle + Like */}
           <div className="flex items-center gap-1 sm:gap-2">
@@ -1295,6 +1937,27 @@ export default function TranslationEditor({
               </button>
             </div>
 
+            <button
+              onClick={() => setShowReviewPanel(true)}
+              className="flex items-center gap-1.5 p-1.5 rounded-md text-xs font-medium transition-all hover:bg-stone-100"
+              style={{ color: 'var(--text-muted)' }}
+              title="Proofreading: review state and comments"
+            >
+              <ClipboardCheck className="w-4 h-4" />
+            </button>
+
+            {otherEditors.length > 0 && (
+              <span
+                className="flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium"
+                style={{ background: 'rgba(196, 93, 58, 0.1)', color: 'var(--accent-rust)' }}
+                title="Their saves and yours are checked against each other; overlapping edits open a merge dialog"
+              >
+                <Users className="w-3.5 h-3.5" />
+                <span className="hidden sm:inline">Also editing:</span>
+                {otherEditors.map(editor => editor.name).join(', ')}
+              </span>
+            )}
+
             {/* Like Button */}
             <div className="p-1 rounded-lg hover:bg-stone-100 transition-all">
               <LikeButton
@@ -1371,6 +2034,18 @@ export default function TranslationEditor({
                   ) : null}
                   <span className="hidden sm:inline">Run</span> OCR
                 </button>
+                {can('editor') && (
+                  <button
+                    onClick={() => setReviewField('ocr')}
+                    disabled={!ocrText}
+                    className="btn-secondary flex items-center justify-center gap-1.5 min-w-[40px] sm:min-w-0"
+                    style={{ padding: '6px 10px' }}
+                    title="Review changes against an earlier version"
+                  >
+                    <GitCompare className="w-4 h-4" />
+                    <span className="hidden sm:inline">Review</span>
+                  </button>
+                )}
               </div>
             </div>
 
@@ -1418,6 +2093,28 @@ export default function TranslationEditor({
                   ) : null}
                   Translate
                 </button>
+                {can('editor') && (
+                  <button
+                    onClick={() => setReviewField('translation')}
+                    disabled={!translationText || !canDiffTranslation}
+                    className="btn-secondary flex items-center justify-center gap-1.5 min-w-[40px] sm:min-w-0"
+                    style={{ padding: '6px 10px' }}
+                    title="Review changes against an earlier version"
+                  >
+                    <GitCompare className="w-4 h-4" />
+                    <span className="hidden sm:inline">Review</span>
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowBlame(true)}
+                  disabled={!translationText}
+                  className="btn-secondary flex items-center justify-center gap-1.5 min-w-[40px] sm:min-w-0"
+                  style={{ padding: '6px 10px' }}
+                  title="Who wrote each line"
+                >
+                  <History className="w-4 h-4" />
+                  <span className="hidden sm:inline">History</span>
+                </button>
               </div>
             </div>
 
@@ -1425,7 +2122,7 @@ export default function TranslationEditor({
               <div className="flex items-center gap-2">
                 <span className="text-sm font-medium" style={{ color: 'var(--text-primary)' }}>Translation</span>
                 <span className="px-2 py-0.5 rounded text-xs font-medium" style={{ background: 'rgba(139, 154, 125, 0.15)', color: 'var(--accent-sage)' }}>
-                  English
+                  {targetName}
                 </span>
               </div>
               <span className="text-xs" style={{ color: 'var(--text-muted)' }}>{translationText.length} chars</span>
@@ -1477,6 +2174,40 @@ export default function TranslationEditor({
         onSelectModel={setSelectedModel}
       />
 
+      {reviewField && (
+        <ReviewModal
+          onClose={() => setReviewField(null)}
+          book={book}
+          page={page}
+          field={reviewField}
+          onApplied={async (updated) => {
+            if (reviewField === 'ocr') setOcrText(updated.ocr?.data || '');
+            else setTranslationText(updated.translation?.data || '');
+            if (onRefresh) await onRefresh();
+          }}
+        />
+      )}
+
+      {mergeConflicts && (
+        <MergeDialog
+          conflicts={mergeConflicts}
+          onMerge={handleMerged}
+          onCancel={() => setMergeConflicts(null)}
+        />
+      )}
+
+      {showBlame && (
+        <BlameModal onClose={() => setShowBlame(false)} page={page} targetLanguage={targetLanguage} />
+      )}
+
+      <ReviewPanel
+        pageId={page.id}
+        pageNumber={page.page_number}
+        targetLanguage={targetLanguage}
+        isOpen={showReviewPanel}
+        onClose={() => setShowReviewPanel(false)}
+      />
+
       {/* How It Works Modal */}
       {showHowItWorks && (
         <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50 p-4">
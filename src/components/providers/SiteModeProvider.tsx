@@ -22,8 +22,12 @@ export function SiteModeProvider({ children, initialMode }: SiteModeProviderProp
   );
 
   useEffect(() => {
-    // Update on client to catch ?society=true override
-    setConfig(getClientSiteMode());
+    // Update on client to catch ?society=true override, keeping the
+    // server-provided branding when the mode is unchanged
+    setConfig(current => {
+      const clientMode = getClientSiteMode();
+      return clientMode.mode === current.mode ? current : clientMode;
+    });
   }, []);
 
   return (
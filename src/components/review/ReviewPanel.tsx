@@ -0,0 +1,340 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  ClipboardCheck,
+  X,
+  Loader2,
+  UserPlus,
+  Play,
+  Check,
+  AlertCircle,
+  RotateCcw,
+  Reply,
+  CheckCircle2,
+} from 'lucide-react';
+import { pages as pagesApi } from '@/lib/api-client';
+import { useRole } from '@/hooks/useRole';
+import { DEFAULT_TARGET_LANGUAGE, targetLanguageName } from '@/lib/translation-languages';
+import type { DiffField, FieldReview, PageReview, ReviewAction, ReviewComment, ReviewPolicy, ReviewState } from '@/lib/types';
+
+interface ReviewPanelProps {
+  pageId: string;
+  pageNumber: number;
+  targetLanguage?: string;  // Whose translation is reviewed; default English
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const FIELDS: Array<{ field: DiffField; label: string }> = [
+  { field: 'ocr', label: 'OCR' },
+  { field: 'translation', label: 'Translation' },
+];
+
+const STATE_STYLES: Record<ReviewState, { label: string; className: string }> = {
+  unreviewed: { label: 'Unreviewed', className: 'bg-stone-100 text-stone-600' },
+  in_review: { label: 'In review', className: 'bg-blue-100 text-blue-700' },
+  needs_changes: { label: 'Needs changes', className: 'bg-amber-100 text-amber-700' },
+  approved: { label: 'Approved', className: 'bg-green-100 text-green-700' },
+};
+
+function FieldReviewRow({ label, review, policy, busy, onAction }: {
+  label: string;
+  review?: FieldReview;
+  policy: ReviewPolicy;
+  busy: boolean;
+  onAction: (action: ReviewAction) => void;
+}) {
+  const { can } = useRole();
+  const state = review?.state || 'unreviewed';
+  const approvals = review?.approvals || [];
+
+  const button = (action: ReviewAction, text: string, Icon: typeof Check, show: boolean) => show && (
+    <button
+      key={action}
+      onClick={() => onAction(action)}
+      disabled={busy}
+      className="flex items-center gap-1 px-2 py-1 text-xs font-medium rounded border border-stone-200 hover:bg-stone-50 disabled:opacity-50"
+    >
+      <Icon className="w-3 h-3" />
+      {text}
+    </button>
+  );
+
+  return (
+    <div className="py-3 border-b border-stone-100">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-stone-800">{label}</span>
+        <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATE_STYLES[state].className}`}>
+          {STATE_STYLES[state].label}
+        </span>
+      </div>
+      <div className="mt-1 text-xs text-stone-500 space-y-0.5">
+        <div>{review?.assignee ? `Assigned to ${review.assignee.name}` : 'Unassigned'}</div>
+        <div>
+          Sign-offs {approvals.length}/{policy.required_approvals}
+          {approvals.length > 0 && `: ${approvals.map(a => a.name).join(', ')}`}
+        </div>
+      </div>
+      <div className="mt-2 flex flex-wrap gap-1.5">
+        {button('assign', 'Claim', UserPlus, !review?.assignee)}
+        {button('unassign', 'Release', X, !!review?.assignee)}
+        {button('start', 'Start review', Play, state === 'unreviewed' || state === 'needs_changes')}
+        {button('approve', 'Approve', Check, can('editor') && state !== 'approved')}
+        {button('request_changes', 'Request changes', AlertCircle, can('editor') && state !== 'unreviewed')}
+        {button('reopen', 'Reopen', RotateCcw, can('editor') && state !== 'unreviewed')}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Side panel for proofreading a page: review state and sign-offs of its
+ * OCR and translation, and the page's review comment threads.
+ */
+export default function ReviewPanel({
+  pageId,
+  pageNumber,
+  targetLanguage = DEFAULT_TARGET_LANGUAGE,
+  isOpen,
+  onClose,
+}: ReviewPanelProps) {
+  const [review, setReview] = useState<PageReview>({});
+  const [policy, setPolicy] = useState<ReviewPolicy | null>(null);
+  const [comments, setComments] = useState<ReviewComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [draftField, setDraftField] = useState<DiffField | ''>('');
+  const [replyTo, setReplyTo] = useState<ReviewComment | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+
+  // Translations other than English are reviewed under review.translations.<code>
+  const isEnglish = targetLanguage === DEFAULT_TARGET_LANGUAGE;
+  const fieldReview = (field: DiffField) =>
+    field === 'translation' && !isEnglish ? review.translations?.[targetLanguage] : review[field];
+
+  const fetchReview = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const [status, thread] = await Promise.all([
+        pagesApi.reviewStatus(pageId),
+        pagesApi.comments(pageId),
+      ]);
+      setReview(status.review);
+      setPolicy(status.policy);
+      setComments(thread.comments);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load review');
+    } finally {
+      setLoading(false);
+    }
+  }, [pageId]);
+
+  useEffect(() => {
+    if (isOpen) fetchReview();
+  }, [isOpen, fetchReview]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, onClose]);
+
+  const handleAction = async (field: DiffField, action: ReviewAction) => {
+    const note = action === 'request_changes'
+      ? window.prompt('What needs to change?') ?? undefined
+      : undefined;
+    if (action === 'request_changes' && note === undefined) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await pagesApi.updateReviewStatus(pageId, {
+        field,
+        action,
+        note,
+        ...(!isEnglish && { target_language: targetLanguage }),
+      });
+      setReview(prev => field === 'translation' && !isEnglish
+        ? { ...prev, translations: { ...prev.translations, [targetLanguage]: result.review } }
+        : { ...prev, [field]: result.review });
+      if (note) await fetchReview();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update review');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleComment = async () => {
+    if (!draft.trim()) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const { comment } = await pagesApi.addComment(pageId, {
+        content: draft.trim(),
+        ...(replyTo ? { parent_id: replyTo.id } : draftField && { field: draftField }),
+      });
+      setComments(prev => [...prev, comment]);
+      setDraft('');
+      setReplyTo(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add comment');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleResolve = async (thread: ReviewComment, resolved: boolean) => {
+    setBusy(true);
+    try {
+      await pagesApi.resolveComment(pageId, thread.id, resolved);
+      setComments(prev => prev.map(c => (c.id === thread.id || c.parent_id === thread.id) ? { ...c, resolved } : c));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update comment');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const threads = comments.filter(c => !c.parent_id && (showResolved || !c.resolved));
+  const resolvedCount = comments.filter(c => !c.parent_id && c.resolved).length;
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black/20" onClick={onClose} aria-hidden="true" />
+
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="review-panel-title"
+        className="relative w-full max-w-md bg-white shadow-xl flex flex-col h-full"
+      >
+        <div className="flex items-center justify-between px-4 py-3 border-b border-stone-200 bg-stone-50">
+          <div className="flex items-center gap-2">
+            <ClipboardCheck className="w-5 h-5 text-stone-600" aria-hidden="true" />
+            <h2 id="review-panel-title" className="font-semibold text-stone-900">Proofreading · page {pageNumber}</h2>
+          </div>
+          <button onClick={onClose} aria-label="Close proofreading panel" className="p-1 hover:bg-stone-200 rounded transition-colors">
+            <X className="w-5 h-5 text-stone-600" aria-hidden="true" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4">
+          {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+
+          {loading || !policy ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-stone-400" />
+            </div>
+          ) : (
+            <>
+              {FIELDS.map(({ field, label }) => (
+                <FieldReviewRow
+                  key={field}
+                  label={field === 'translation' && !isEnglish ? `${targetLanguageName(targetLanguage)} translation` : label}
+                  review={fieldReview(field)}
+                  policy={policy}
+                  busy={busy}
+                  onAction={action => handleAction(field, action)}
+                />
+              ))}
+
+              <div className="py-3">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="font-medium text-stone-800">Comments</span>
+                  {resolvedCount > 0 && (
+                    <button onClick={() => setShowResolved(!showResolved)} className="text-xs text-stone-500 hover:text-stone-700">
+                      {showResolved ? 'Hide' : 'Show'} {resolvedCount} resolved
+                    </button>
+                  )}
+                </div>
+
+                {threads.length === 0 && (
+                  <p className="text-sm text-stone-400">No open comments on this page.</p>
+                )}
+
+                <div className="space-y-3">
+                  {threads.map(thread => (
+                    <div key={thread.id} className={`rounded-lg border border-stone-200 p-3 ${thread.resolved ? 'opacity-60' : ''}`}>
+                      {[thread, ...comments.filter(c => c.parent_id === thread.id)].map(comment => (
+                        <div key={comment.id} className={comment.parent_id ? 'mt-2 pl-3 border-l-2 border-stone-100' : ''}>
+                          <div className="text-xs text-stone-500">
+                            <span className="font-medium text-stone-700">{comment.author}</span>
+                            {comment.field && !comment.parent_id && <span> · {comment.field === 'ocr' ? 'OCR' : 'translation'}</span>}
+                            <span> · {new Date(comment.created_at).toLocaleDateString()}</span>
+                          </div>
+                          <p className="text-sm text-stone-700 whitespace-pre-wrap">{comment.content}</p>
+                          {comment.suggestion && (
+                            <p className="mt-1 text-sm whitespace-pre-wrap">
+                              <del className="text-red-700 bg-red-50">{comment.suggestion.original}</del>
+                              {' → '}
+                              <ins className="text-green-700 bg-green-50 no-underline">{comment.suggestion.replacement}</ins>
+                            </p>
+                          )}
+                        </div>
+                      ))}
+                      <div className="mt-2 flex gap-3 text-xs">
+                        <button onClick={() => setReplyTo(thread)} className="flex items-center gap-1 text-stone-500 hover:text-stone-700">
+                          <Reply className="w-3 h-3" /> Reply
+                        </button>
+                        <button
+                          onClick={() => handleResolve(thread, !thread.resolved)}
+                          disabled={busy}
+                          className="flex items-center gap-1 text-stone-500 hover:text-stone-700 disabled:opacity-50"
+                        >
+                          <CheckCircle2 className="w-3 h-3" /> {thread.resolved ? 'Reopen' : 'Resolve'}
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="border-t border-stone-200 p-3 space-y-2">
+          {replyTo ? (
+            <div className="flex items-center justify-between text-xs text-stone-500">
+              <span>Replying to {replyTo.author}</span>
+              <button onClick={() => setReplyTo(null)} className="hover:text-stone-700">Cancel</button>
+            </div>
+          ) : (
+            <select
+              value={draftField}
+              onChange={e => setDraftField(e.target.value as DiffField | '')}
+              className="w-full text-xs border border-stone-200 rounded px-2 py-1"
+            >
+              <option value="">Whole page</option>
+              <option value="ocr">OCR</option>
+              <option value="translation">Translation</option>
+            </select>
+          )}
+          <textarea
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            rows={3}
+            placeholder="Comment for other reviewers..."
+            className="w-full text-sm border border-stone-200 rounded-lg p-2 resize-none focus:outline-none focus:ring-1 focus:ring-stone-300"
+          />
+          <button
+            onClick={handleComment}
+            disabled={busy || !draft.trim()}
+            className="w-full px-3 py-1.5 text-sm font-medium rounded-lg bg-stone-800 text-white hover:bg-stone-700 disabled:opacity-50"
+          >
+            {replyTo ? 'Reply' : 'Comment'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
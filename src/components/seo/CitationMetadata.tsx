@@ -0,0 +1,37 @@
+import { bookToCsl, cslToCoins, currentEdition, UNAPI_PATH, unapiId } from '@/lib/bibliographic';
+import type { BibliographicRecordType, Book } from '@/lib/types';
+
+interface CitationMetadataProps {
+  book: Book;
+  /** Describe the translation as well as the original printed work */
+  hasTranslation: boolean;
+  /** Cite a single page (reader pages, gallery images) */
+  page?: { page_number: number; id?: string };
+}
+
+/**
+ * COinS spans and unAPI identifiers for reference managers. A book with a
+ * translation offers two items, the original and the translation, so Zotero
+ * lets the reader pick which one to save.
+ * See: https://en.wikipedia.org/wiki/COinS, http://unapi.info/specs/
+ */
+export default function CitationMetadata({ book, hasTranslation, page }: CitationMetadataProps) {
+  const records: BibliographicRecordType[] = hasTranslation ? ['translation', 'original'] : ['original'];
+  const edition = currentEdition(book);
+
+  return (
+    <>
+      <link rel="unapi-server" type="application/xml" title="unAPI" href={UNAPI_PATH} />
+      {records.map(record => (
+        <span
+          key={record}
+          className="Z3988"
+          title={cslToCoins(bookToCsl(book, { record, edition: record === 'translation' ? edition : undefined, page }))}
+          hidden
+        >
+          <abbr className="unapi-id" title={unapiId({ bookId: book.id, record, pageNumber: page?.page_number })} />
+        </span>
+      ))}
+    </>
+  );
+}
@@ -1,4 +1,5 @@
 import { Book, TranslationEdition } from '@/lib/types';
+import CitationMetadata from './CitationMetadata';
 
 interface SchemaOrgMetadataProps {
   book: Book;
@@ -8,10 +9,13 @@ interface SchemaOrgMetadataProps {
   baseUrl?: string;
   /** Current page number if viewing a specific page */
   currentPage?: number;
+  /** Id of the current page, for its canonical URL and shortlink */
+  currentPageId?: string;
 }
 
 /**
- * Generates Schema.org JSON-LD metadata for Google Scholar and search engines.
+ * Generates Schema.org JSON-LD metadata for Google Scholar and search engines,
+ * and the COinS/unAPI markup reference managers read (see CitationMetadata).
  * See: https://schema.org/Book, https://schema.org/ScholarlyArticle
  */
 export default function SchemaOrgMetadata({
@@ -21,6 +25,7 @@ export default function SchemaOrgMetadata({
   currentEdition,
   baseUrl = 'https://sourcelibrary.org',
   currentPage,
+  currentPageId,
 }: SchemaOrgMetadataProps) {
   // Original work metadata
   const originalWork = {
@@ -97,7 +102,7 @@ export default function SchemaOrgMetadata({
 
   // Main page metadata
   const pageUrl = currentPage
-    ? `${baseUrl}/book/${book.id}/page/${currentPage}`
+    ? `${baseUrl}/book/${book.id}/page/${currentPageId || currentPage}`
     : `${baseUrl}/book/${book.id}`;
 
   const webPage = {
@@ -134,7 +139,7 @@ export default function SchemaOrgMetadata({
       '@type': 'ListItem',
       position: 3,
       name: `Page ${currentPage}`,
-      item: `${baseUrl}/book/${book.id}/page/${currentPage}`,
+      item: pageUrl,
     });
   }
 
@@ -154,10 +159,17 @@ export default function SchemaOrgMetadata({
   };
 
   return (
-    <script
-      type="application/ld+json"
-      dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd, null, 0) }}
-    />
+    <>
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(jsonLd, null, 0) }}
+      />
+      <CitationMetadata
+        book={book}
+        hasTranslation={translatedCount > 0}
+        page={currentPage ? { page_number: currentPage, id: currentPageId } : undefined}
+      />
+    </>
   );
 }
 
@@ -3,6 +3,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { Tag, X, Plus, Loader2, Check } from 'lucide-react';
 import { categories as categoriesApi, books } from '@/lib/api-client';
+import { useRole } from '@/hooks/useRole';
 
 interface Category {
   id: string;
@@ -17,6 +18,7 @@ interface CategoryPickerProps {
 }
 
 export default function CategoryPicker({ bookId, currentCategories, onUpdate }: CategoryPickerProps) {
+  const { can } = useRole();
   const [categories, setCategories] = useState<Category[]>([]);
   const [selected, setSelected] = useState<string[]>(currentCategories || []);
   const [isOpen, setIsOpen] = useState(false);
@@ -102,13 +104,15 @@ export default function CategoryPicker({ bookId, currentCategories, onUpdate }:
         ) : (
           <span className="text-stone-400 text-sm">No categories</span>
         )}
-        <button
-          onClick={() => setIsOpen(true)}
-          className="inline-flex items-center gap-1 px-2 py-1 text-stone-500 hover:text-stone-700 hover:bg-stone-100 rounded-full text-xs transition-colors"
-        >
-          <Tag className="w-3 h-3" />
-          Edit
-        </button>
+        {can('editor') && (
+          <button
+            onClick={() => setIsOpen(true)}
+            className="inline-flex items-center gap-1 px-2 py-1 text-stone-500 hover:text-stone-700 hover:bg-stone-100 rounded-full text-xs transition-colors"
+          >
+            <Tag className="w-3 h-3" />
+            Edit
+          </button>
+        )}
       </div>
 
       {/* Modal */}
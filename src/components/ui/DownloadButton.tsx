@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { Download, ChevronDown, FileText, Languages, Layers, BookOpen, Columns, Image } from 'lucide-react';
+import { Download, ChevronDown, FileText, Languages, Layers, BookOpen, Columns, Image, FileCode } from 'lucide-react';
 import { BookDownloadFormats, books } from '@/lib/api-client';
 
 interface DownloadButtonProps {
@@ -37,7 +37,7 @@ export default function DownloadButton({ bookId, hasTranslations, hasOcr, hasIma
       const blob = await response.blob();
       const contentDisposition = response.headers.get('Content-Disposition');
       const filenameMatch = contentDisposition?.match(/filename="(.+)"/);
-      const defaultExt = format === 'images-zip' ? 'zip' : format.startsWith('epub-') ? 'epub' : 'txt';
+      const defaultExt = format === 'images-zip' ? 'zip' : format === 'tei' || format === 'alto' ? 'xml' : format === 'hocr' ? 'html' : format.startsWith('epub-') ? 'epub' : 'txt';
       const filename = filenameMatch ? filenameMatch[1] : `download-${format}.${defaultExt}`;
 
       // Create download link
@@ -225,6 +225,63 @@ export default function DownloadButton({ bookId, hasTranslations, hasOcr, hasIma
             </button>
           )}
 
+          {(hasTranslations || hasOcr) && (
+            <>
+              <div className="px-3 py-2 text-xs font-medium text-stone-500 uppercase tracking-wide border-t border-stone-100 mt-2">
+                Scholarly XML
+              </div>
+
+              <button
+                onClick={() => handleDownload('tei')}
+                disabled={downloading !== null}
+                className="w-full px-3 py-2.5 flex items-center gap-3 hover:bg-stone-50 transition-colors disabled:opacity-50"
+              >
+                <FileCode className="w-4 h-4 text-indigo-600" />
+                <div className="text-left">
+                  <div className="text-sm font-medium text-stone-900">TEI P5 XML</div>
+                  <div className="text-xs text-stone-500">Original + translation with page breaks</div>
+                </div>
+                {downloading === 'tei' && (
+                  <div className="ml-auto w-4 h-4 border-2 border-stone-300 border-t-amber-500 rounded-full animate-spin" />
+                )}
+              </button>
+
+              {hasOcr && (
+                <>
+                  <button
+                    onClick={() => handleDownload('alto')}
+                    disabled={downloading !== null}
+                    className="w-full px-3 py-2.5 flex items-center gap-3 hover:bg-stone-50 transition-colors disabled:opacity-50"
+                  >
+                    <FileCode className="w-4 h-4 text-indigo-600" />
+                    <div className="text-left">
+                      <div className="text-sm font-medium text-stone-900">ALTO XML</div>
+                      <div className="text-xs text-stone-500">Word positions on the scans</div>
+                    </div>
+                    {downloading === 'alto' && (
+                      <div className="ml-auto w-4 h-4 border-2 border-stone-300 border-t-amber-500 rounded-full animate-spin" />
+                    )}
+                  </button>
+
+                  <button
+                    onClick={() => handleDownload('hocr')}
+                    disabled={downloading !== null}
+                    className="w-full px-3 py-2.5 flex items-center gap-3 hover:bg-stone-50 transition-colors disabled:opacity-50"
+                  >
+                    <FileCode className="w-4 h-4 text-indigo-600" />
+                    <div className="text-left">
+                      <div className="text-sm font-medium text-stone-900">hOCR</div>
+                      <div className="text-xs text-stone-500">Word positions as HTML</div>
+                    </div>
+                    {downloading === 'hocr' && (
+                      <div className="ml-auto w-4 h-4 border-2 border-stone-300 border-t-amber-500 rounded-full animate-spin" />
+                    )}
+                  </button>
+                </>
+              )}
+            </>
+          )}
+
           {hasImages && (
             <>
               <div className="px-3 py-2 text-xs font-medium text-stone-500 uppercase tracking-wide border-t border-stone-100 mt-2">
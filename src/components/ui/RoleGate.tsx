@@ -0,0 +1,22 @@
+'use client';
+
+import type { ReactNode } from 'react';
+import { useRole } from '@/hooks/useRole';
+import type { Role } from '@/lib/roles';
+
+interface RoleGateProps {
+  role: Role;
+  children: ReactNode;
+  /** Rendered instead of the children when the user lacks the role */
+  fallback?: ReactNode;
+}
+
+/**
+ * Render children only for users with at least `role`. Usable from server
+ * components to wrap action buttons and links.
+ */
+export function RoleGate({ role, children, fallback = null }: RoleGateProps) {
+  const { can, loading } = useRole();
+  if (loading || !can(role)) return <>{fallback}</>;
+  return <>{children}</>;
+}
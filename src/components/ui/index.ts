@@ -1,2 +1,3 @@
 export { Skeleton, SkeletonText, SkeletonCard, SkeletonPageThumbnail } from './Skeleton';
 export { BookLoader } from './BookLoader';
+export { RoleGate } from './RoleGate';
@@ -135,7 +135,16 @@ export function usePipeline(bookId: string): UsePipelineResult {
 
         // Execute step
         try {
-          const result = await books.pipeline.step(bookId, nextStep);
+          let result = await books.pipeline.step(bookId, nextStep);
+
+          // The step would pass a soft budget limit: ask before spending
+          if (result.status === 'needs_confirmation') {
+            if (!window.confirm(`${result.result?.message}\n\nRun this step anyway?`)) {
+              await books.pipeline.start(bookId, { action: 'pause' });
+              break;
+            }
+            result = await books.pipeline.step(bookId, nextStep, { confirm_budget: true });
+          }
 
         // If a job was created, poll it until complete
         if (result.status === 'job_created' && result.jobId) {
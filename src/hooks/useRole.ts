@@ -0,0 +1,18 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useSession } from 'next-auth/react';
+import { hasRole, type Role } from '@/lib/roles';
+
+/**
+ * The signed-in user's role, for hiding actions they are not allowed to
+ * take. The API enforces the same roles, so this is presentation only.
+ */
+export function useRole() {
+  const { data: session, status } = useSession();
+  const role = session?.user?.role ?? null;
+
+  const can = useCallback((required: Role) => hasRole(role, required), [role]);
+
+  return { role, can, loading: status === 'loading' };
+}
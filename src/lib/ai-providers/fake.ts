@@ -0,0 +1,65 @@
+import type { AIProvider, GenerateRequest, ChatRequest } from './types';
+
+export type FakeResponder = (request: GenerateRequest | ChatRequest) => string;
+
+// FNV-1a, 32-bit
+function hash(text: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, '0');
+}
+
+// Rough token count, so usage and cost tracking have something to add up
+function countTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Same request, same answer: a label with a hash of the prompt and images.
+ * JSON requests get an empty array, which every JSON task reads as "nothing
+ * found".
+ */
+function defaultResponder(request: GenerateRequest | ChatRequest): string {
+  if ('prompt' in request) {
+    if (request.json) return '[]';
+    const key = hash(request.prompt + (request.images || []).map(image => image.data).join(''));
+    return `Fake response from ${request.model} (${key})`;
+  }
+  const last = request.messages[request.messages.length - 1]?.content || '';
+  return `Fake reply from ${request.model} (${hash(request.system + last)})`;
+}
+
+/**
+ * Deterministic offline provider for tests and local development. Costs
+ * nothing and never calls the network. Select it with AI_PROVIDER=fake or a
+ * "fake:" model prefix; pass a responder to script specific answers.
+ */
+export function createFakeProvider(respond: FakeResponder = defaultResponder): AIProvider {
+  return {
+    id: 'fake',
+    defaultModel: 'fake-model',
+    pricing: () => ({ input: 0, output: 0 }),
+
+    generate: async (request) => {
+      const text = respond(request);
+      return {
+        text,
+        // Gemini bills a small image as 258 tokens
+        inputTokens: countTokens(request.prompt) + (request.images?.length || 0) * 258,
+        outputTokens: countTokens(text),
+      };
+    },
+
+    chat: async (request) => {
+      const text = respond(request);
+      return {
+        text,
+        inputTokens: countTokens(request.system + request.messages.map(m => m.content).join('')),
+        outputTokens: countTokens(text),
+      };
+    },
+  };
+}
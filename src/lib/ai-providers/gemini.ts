@@ -0,0 +1,94 @@
+import { GoogleGenerativeAI, type Content } from '@google/generative-ai';
+import { geminiKeyRotation } from '../gemini-client';
+import { isRateLimitError } from './key-rotation';
+import type { AIProvider, ModelPricing } from './types';
+
+// Model pricing per 1M tokens (USD)
+export const GEMINI_PRICING: Record<string, ModelPricing> = {
+  'gemini-3-flash-preview': { input: 0.50, output: 3.00 },
+  'gemini-2.5-flash': { input: 0.15, output: 0.60 },
+  'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+  'gemini-2.0-flash-exp': { input: 0.10, output: 0.40 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.30 },
+  'gemini-1.5-pro': { input: 1.25, output: 5.00 },
+  // Fallback for unknown models
+  'default': { input: 0.10, output: 0.40 },
+};
+
+const DEFAULT_GEMINI_MODEL = 'gemini-3-flash-preview';
+
+/**
+ * Run a call with the next Gemini key, benching that key if it hits a rate
+ * limit. For Gemini features providers don't cover, such as embeddings.
+ */
+export async function withGeminiClient<T>(call: (client: GoogleGenerativeAI) => Promise<T>): Promise<T> {
+  const apiKey = geminiKeyRotation.next();
+  try {
+    return await call(new GoogleGenerativeAI(apiKey));
+  } catch (error) {
+    if (isRateLimitError(error)) geminiKeyRotation.reportRateLimit(apiKey);
+    throw error;
+  }
+}
+
+/**
+ * Google Gemini, with the GEMINI_API_KEY / GEMINI_API_KEY_n rotation, or
+ * with one fixed key (a contributor's own) when `apiKey` is given.
+ */
+export function createGeminiProvider(apiKey?: string): AIProvider {
+  const withClient = apiKey
+    ? <T>(call: (client: GoogleGenerativeAI) => Promise<T>) => call(new GoogleGenerativeAI(apiKey))
+    : withGeminiClient;
+
+  return {
+    id: 'gemini',
+    defaultModel: DEFAULT_GEMINI_MODEL,
+    ownsModel: (model) => model.startsWith('gemini'),
+    pricing: (model) => GEMINI_PRICING[model] || GEMINI_PRICING['default'],
+
+    generate: (request) => withClient(async (client) => {
+      const model = client.getGenerativeModel({
+        model: request.model,
+        generationConfig: {
+          ...(request.json && { responseMimeType: 'application/json' }),
+          ...(request.temperature !== undefined && { temperature: request.temperature }),
+          ...(request.maxOutputTokens !== undefined && { maxOutputTokens: request.maxOutputTokens }),
+        },
+      });
+
+      const result = await model.generateContent([
+        request.prompt,
+        ...(request.images || []).map(image => ({ inlineData: image })),
+      ]);
+
+      const usage = result.response.usageMetadata;
+      return {
+        text: result.response.text(),
+        inputTokens: usage?.promptTokenCount || 0,
+        outputTokens: usage?.candidatesTokenCount || 0,
+      };
+    }),
+
+    chat: (request) => withClient(async (client) => {
+      const model = client.getGenerativeModel({ model: request.model });
+
+      const history: Content[] = [
+        { role: 'user', parts: [{ text: request.system }] },
+        { role: 'model', parts: [{ text: 'I understand.' }] },
+        ...request.messages.slice(0, -1).map(msg => ({
+          role: msg.role === 'user' ? 'user' : 'model',
+          parts: [{ text: msg.content }],
+        })),
+      ];
+      const last = request.messages[request.messages.length - 1];
+
+      const result = await model.startChat({ history }).sendMessage(last?.content || '');
+      const usage = result.response.usageMetadata;
+      return {
+        text: result.response.text(),
+        inputTokens: usage?.promptTokenCount || 0,
+        outputTokens: usage?.candidatesTokenCount || 0,
+      };
+    }),
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * AI provider registry.
+ *
+ * The default provider is chosen with AI_PROVIDER:
+ * - gemini (default): Google Gemini via the rotating GEMINI_API_KEY keys.
+ * - openai-compatible: any OpenAI chat completions server, e.g. a local
+ *   vLLM, llama.cpp or Ollama server (see openai-compatible.ts).
+ * - fake: deterministic offline answers for tests and development.
+ *
+ * A model id can also name its provider with a prefix, so providers can be
+ * compared side by side: "openai-compatible:qwen2.5-vl", "fake:ocr". Gemini
+ * model ids are the app's built-in defaults, so on another default provider
+ * they stand for that provider's default model.
+ *
+ * Other providers can be added with registerAIProvider().
+ */
+
+import type { AIProvider } from './types';
+import { createGeminiProvider } from './gemini';
+import { createOpenAICompatibleProvider } from './openai-compatible';
+import { createFakeProvider } from './fake';
+
+export type { AIProvider, ModelPricing, ImageInput, GenerateRequest, ChatMessage, ChatRequest, ProviderResponse } from './types';
+export { GEMINI_PRICING, createGeminiProvider } from './gemini';
+export { createFakeProvider, type FakeResponder } from './fake';
+export { createKeyRotation, isRateLimitError, type KeyRotation } from './key-rotation';
+
+const factories = new Map<string, () => AIProvider>();
+const instances = new Map<string, AIProvider>();
+
+export function registerAIProvider(id: string, factory: () => AIProvider): void {
+  factories.set(id, factory);
+  instances.delete(id);
+}
+
+export function getAIProvider(id = process.env.AI_PROVIDER || 'gemini'): AIProvider {
+  let provider = instances.get(id);
+  if (!provider) {
+    const factory = factories.get(id);
+    if (!factory) {
+      throw new Error(`Unknown AI provider "${id}". Available: ${[...factories.keys()].join(', ')}`);
+    }
+    provider = factory();
+    instances.set(id, provider);
+  }
+  return provider;
+}
+
+/**
+ * Pick the provider and provider-local model name for a model id.
+ */
+export function resolveModel(modelId?: string): { provider: AIProvider; model: string } {
+  const separator = modelId?.indexOf(':') ?? -1;
+  if (modelId && separator > 0 && factories.has(modelId.slice(0, separator))) {
+    const provider = getAIProvider(modelId.slice(0, separator));
+    return { provider, model: modelId.slice(separator + 1) || provider.defaultModel };
+  }
+
+  const provider = getAIProvider();
+  if (!modelId) {
+    return { provider, model: provider.defaultModel };
+  }
+
+  // A model some other provider owns (e.g. the Gemini DEFAULT_MODEL)
+  const ownedElsewhere = [...factories.keys()]
+    .filter(id => id !== provider.id)
+    .some(id => getAIProvider(id).ownsModel?.(modelId));
+  return { provider, model: ownedElsewhere ? provider.defaultModel : modelId };
+}
+
+registerAIProvider('gemini', () => createGeminiProvider());
+registerAIProvider('openai-compatible', createOpenAICompatibleProvider);
+registerAIProvider('fake', () => createFakeProvider());
@@ -0,0 +1,108 @@
+/**
+ * Round-robin API key rotation to spread load across rate limits.
+ *
+ * Keys come from `<PREFIX>` plus `<PREFIX>_2` ... `<PREFIX>_10`, e.g.
+ * GEMINI_API_KEY, GEMINI_API_KEY_2. A key that hits a rate limit is skipped
+ * for a cooldown period.
+ */
+
+// Cooldown period after rate limit (60 seconds)
+const RATE_LIMIT_COOLDOWN_MS = 60000;
+
+export interface KeyRotation {
+  /** All configured keys, in order */
+  keys(): string[];
+  /** Next key that isn't cooling down; throws when none are configured */
+  next(): string;
+  reportRateLimit(apiKey: string): void;
+  stats(): { totalKeys: number; inCooldown: number };
+}
+
+export function createKeyRotation(envPrefix: string, label: string): KeyRotation {
+  // Track which key to use next (simple round-robin)
+  let currentKeyIndex = 0;
+
+  // Track rate limit errors per key
+  const keyErrors: Map<string, { count: number; lastError: number }> = new Map();
+
+  const keys = (): string[] => {
+    const found: string[] = [];
+    if (process.env[envPrefix]) {
+      found.push(process.env[envPrefix]!);
+    }
+    for (let i = 2; i <= 10; i++) {
+      const key = process.env[`${envPrefix}_${i}`];
+      if (key) {
+        found.push(key);
+      }
+    }
+    return found;
+  };
+
+  const inCooldown = (keyId: string, now: number): boolean => {
+    const errorInfo = keyErrors.get(keyId);
+    return !!errorInfo && (now - errorInfo.lastError) < RATE_LIMIT_COOLDOWN_MS;
+  };
+
+  return {
+    keys,
+
+    next() {
+      const all = keys();
+      if (all.length === 0) {
+        throw new Error(`No ${envPrefix} configured`);
+      }
+      if (all.length === 1) {
+        return all[0];
+      }
+
+      const now = Date.now();
+      for (let attempts = 0; attempts < all.length; attempts++) {
+        currentKeyIndex = currentKeyIndex % all.length;
+        const key = all[currentKeyIndex];
+        const keyId = key.slice(-8); // Last 8 chars for logging
+
+        // Rotate to next key for next call
+        currentKeyIndex = (currentKeyIndex + 1) % all.length;
+
+        if (inCooldown(keyId, now)) {
+          console.log(`[${label}] Key ...${keyId} in cooldown, trying next`);
+          continue;
+        }
+        keyErrors.delete(keyId);
+        return key;
+      }
+
+      // All keys in cooldown, use the next one anyway
+      console.warn(`[${label}] All keys in cooldown, using oldest`);
+      return all[currentKeyIndex];
+    },
+
+    reportRateLimit(apiKey) {
+      const keyId = apiKey.slice(-8);
+      const existing = keyErrors.get(keyId) || { count: 0, lastError: 0 };
+      keyErrors.set(keyId, {
+        count: existing.count + 1,
+        lastError: Date.now(),
+      });
+      console.warn(`[${label}] Rate limit hit for key ...${keyId} (${existing.count + 1} times)`);
+    },
+
+    stats() {
+      const all = keys();
+      const now = Date.now();
+      return {
+        totalKeys: all.length,
+        inCooldown: all.filter(key => inCooldown(key.slice(-8), now)).length,
+      };
+    },
+  };
+}
+
+/**
+ * Whether an API error is a rate limit (HTTP 429 / RESOURCE_EXHAUSTED).
+ */
+export function isRateLimitError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.includes('429') || message.includes('RESOURCE_EXHAUSTED') || message.toLowerCase().includes('rate limit');
+}
@@ -0,0 +1,110 @@
+import { createKeyRotation, isRateLimitError } from './key-rotation';
+import type { AIProvider, ModelPricing } from './types';
+
+// Ollama's OpenAI-compatible endpoint; vLLM and llama.cpp serve /v1 as well
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+const FREE: ModelPricing = { input: 0, output: 0 };
+
+type MessageContent = string | Array<
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+>;
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * Parse OPENAI_COMPATIBLE_PRICING: a JSON object of model -> { input, output }
+ * in USD per 1M tokens, with an optional "default" entry. Self-hosted models
+ * cost nothing per token unless configured.
+ */
+function parsePricing(value: string | undefined): Record<string, ModelPricing> {
+  if (!value) return {};
+  try {
+    return JSON.parse(value);
+  } catch {
+    console.warn('[openai-compatible] OPENAI_COMPATIBLE_PRICING is not valid JSON, ignoring');
+    return {};
+  }
+}
+
+/**
+ * Any server that speaks the OpenAI chat completions API: a local vLLM,
+ * llama.cpp or Ollama server, or a hosted one.
+ *
+ * Environment:
+ * - OPENAI_COMPATIBLE_BASE_URL (default http://localhost:11434/v1)
+ * - OPENAI_COMPATIBLE_MODEL - default model
+ * - OPENAI_COMPATIBLE_API_KEY, OPENAI_COMPATIBLE_API_KEY_2... (optional, rotated)
+ * - OPENAI_COMPATIBLE_PRICING - see parsePricing()
+ */
+export function createOpenAICompatibleProvider(): AIProvider {
+  const rotation = createKeyRotation('OPENAI_COMPATIBLE_API_KEY', 'OpenAI-compatible');
+  const baseUrl = (process.env.OPENAI_COMPATIBLE_BASE_URL || DEFAULT_BASE_URL).replace(/\/$/, '');
+  const pricing = parsePricing(process.env.OPENAI_COMPATIBLE_PRICING);
+
+  const complete = async (
+    model: string,
+    messages: Array<{ role: 'system' | 'user' | 'assistant'; content: MessageContent }>,
+    options: { json?: boolean; temperature?: number; maxOutputTokens?: number } = {}
+  ) => {
+    // Local servers usually run without a key
+    const apiKey = rotation.keys().length > 0 ? rotation.next() : null;
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        ...(options.json && { response_format: { type: 'json_object' } }),
+        ...(options.temperature !== undefined && { temperature: options.temperature }),
+        ...(options.maxOutputTokens !== undefined && { max_tokens: options.maxOutputTokens }),
+      }),
+    });
+
+    if (!response.ok) {
+      const error = new Error(`OpenAI-compatible API error: ${response.status} - ${(await response.text()).slice(0, 200)}`);
+      if (apiKey && isRateLimitError(error)) rotation.reportRateLimit(apiKey);
+      throw error;
+    }
+
+    const data = await response.json() as ChatCompletionResponse;
+    return {
+      text: data.choices?.[0]?.message?.content || '',
+      inputTokens: data.usage?.prompt_tokens || 0,
+      outputTokens: data.usage?.completion_tokens || 0,
+    };
+  };
+
+  return {
+    id: 'openai-compatible',
+    defaultModel: process.env.OPENAI_COMPATIBLE_MODEL || 'llama3.2-vision',
+    pricing: (model) => pricing[model] || pricing['default'] || FREE,
+
+    generate: (request) => {
+      const content: MessageContent = request.images?.length
+        ? [
+          { type: 'text', text: request.prompt },
+          ...request.images.map(image => ({
+            type: 'image_url' as const,
+            image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+          })),
+        ]
+        : request.prompt;
+
+      return complete(request.model, [{ role: 'user', content }], request);
+    },
+
+    chat: (request) => complete(request.model, [
+      { role: 'system', content: request.system },
+      ...request.messages,
+    ]),
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Types shared by AI providers.
+ *
+ * A provider only knows how to run a prompt (optionally with page images) or
+ * a chat against its models, and what that costs. The task prompts for OCR,
+ * translation, summaries, image extraction and chat live in shared code, so
+ * every provider is given exactly the same instructions and their results can
+ * be compared.
+ */
+
+// Price per 1M tokens (USD)
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+export interface ImageInput {
+  mimeType: string;
+  data: string;  // base64
+}
+
+export interface GenerateRequest {
+  model: string;
+  prompt: string;
+  images?: ImageInput[];
+  json?: boolean;              // Ask for a JSON response
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatRequest {
+  model: string;
+  system: string;
+  messages: ChatMessage[];     // Ends with the user's latest message
+}
+
+export interface ProviderResponse {
+  text: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface AIProvider {
+  /** Prefix that selects this provider in a model id, e.g. "fake:ocr" */
+  id: string;
+  /** Model used when a request names none (or names another provider's model) */
+  defaultModel: string;
+  generate(request: GenerateRequest): Promise<ProviderResponse>;
+  chat(request: ChatRequest): Promise<ProviderResponse>;
+  pricing(model: string): ModelPricing;
+  /** Whether an unprefixed model id belongs to this provider */
+  ownsModel?(model: string): boolean;
+}
@@ -1,18 +1,12 @@
-import { DEFAULT_PROMPTS, DEFAULT_MODEL } from './types';
-import { getGeminiClient } from './gemini-client';
+import { DEFAULT_PROMPTS, DEFAULT_MODEL, type OcrLayout, type TranslationGuidance } from './types';
 import { images } from './api-client/images';
+import { formatTranslationGuidance } from './glossary/match';
+import { buildLayoutPrompt, imageDimensions, parseLayoutResponse } from './ocr-layout';
+import { GEMINI_PRICING, resolveModel, type ChatMessage, type ImageInput } from './ai-providers';
 
-// Model pricing per 1M tokens (USD)
-export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
-  'gemini-3-flash-preview': { input: 0.50, output: 3.00 },
-  'gemini-2.5-flash': { input: 0.15, output: 0.60 },
-  'gemini-2.0-flash': { input: 0.10, output: 0.40 },
-  'gemini-2.0-flash-exp': { input: 0.10, output: 0.40 },
-  'gemini-1.5-flash': { input: 0.075, output: 0.30 },
-  'gemini-1.5-pro': { input: 1.25, output: 5.00 },
-  // Fallback for unknown models
-  'default': { input: 0.10, output: 0.40 },
-};
+// Gemini model pricing per 1M tokens (USD), for client-side cost estimates.
+// Server code should use calculateCost(), which knows every provider.
+export const MODEL_PRICING = GEMINI_PRICING;
 
 export interface TokenUsage {
   inputTokens: number;
@@ -26,13 +20,128 @@ export interface AIResult {
   usage: TokenUsage;
 }
 
-function calculateCost(inputTokens: number, outputTokens: number, model: string): number {
-  const pricing = MODEL_PRICING[model] || MODEL_PRICING['default'];
+export interface OcrOptions {
+  // Also locate each line and word on the image (a second model call)
+  layout?: boolean;
+}
+
+export interface OcrResult extends AIResult {
+  layout?: OcrLayout;
+}
+
+export interface TranslationOptions {
+  // Glossary terms and memory segments for this text (see selectTranslationGuidance)
+  guidance?: TranslationGuidance;
+}
+
+export interface GenerateOptions {
+  images?: ImageInput[];
+  json?: boolean;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export function calculateCost(inputTokens: number, outputTokens: number, modelId: string): number {
+  const { provider, model } = resolveModel(modelId);
+  const pricing = provider.pricing(model);
   const inputCost = (inputTokens / 1_000_000) * pricing.input;
   const outputCost = (outputTokens / 1_000_000) * pricing.output;
   return inputCost + outputCost;
 }
 
+function toUsage(inputTokens: number, outputTokens: number, modelId: string): TokenUsage {
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: inputTokens + outputTokens,
+    costUsd: calculateCost(inputTokens, outputTokens, modelId),
+  };
+}
+
+/**
+ * Run a prompt (with optional page images) on the provider that serves
+ * `modelId` - see ai-providers/index.ts for how model ids pick a provider.
+ */
+export async function generateText(
+  prompt: string,
+  modelId: string = DEFAULT_MODEL,
+  options: GenerateOptions = {}
+): Promise<AIResult> {
+  const { provider, model } = resolveModel(modelId);
+  const response = await provider.generate({ model, prompt, ...options });
+  return { text: response.text, usage: toUsage(response.inputTokens, response.outputTokens, modelId) };
+}
+
+/**
+ * Continue a conversation. `messages` ends with the user's latest message.
+ */
+export async function generateChatReply(
+  system: string,
+  messages: ChatMessage[],
+  modelId: string = DEFAULT_MODEL
+): Promise<AIResult> {
+  const { provider, model } = resolveModel(modelId);
+  const response = await provider.chat({ model, system, messages });
+  return { text: response.text, usage: toUsage(response.inputTokens, response.outputTokens, modelId) };
+}
+
+function addUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    costUsd: a.costUsd + b.costUsd,
+  };
+}
+
+/**
+ * Locate lines and words on a page image. Returns null if the model's
+ * answer can't be used; the transcription is still worth keeping then.
+ */
+export async function detectOcrLayout(
+  imageBuffer: Buffer,
+  mimeType: string,
+  language: string,
+  modelId: string = DEFAULT_MODEL
+): Promise<{ layout: OcrLayout | null; usage: TokenUsage }> {
+  const { text, usage } = await generateText(buildLayoutPrompt(language), modelId, {
+    images: [{ mimeType, data: imageBuffer.toString('base64') }],
+    json: true,
+  });
+
+  try {
+    return {
+      layout: {
+        lines: parseLayoutResponse(text),
+        model: modelId,
+        ...imageDimensions(imageBuffer),
+        created_at: new Date(),
+      },
+      usage,
+    };
+  } catch (error) {
+    console.error('[ocr] Unusable layout response:', error);
+    return { layout: null, usage };
+  }
+}
+
+async function withLayout(
+  ocr: AIResult,
+  imageBuffer: Buffer,
+  mimeType: string,
+  language: string,
+  modelId: string
+): Promise<OcrResult> {
+  try {
+    const { layout, usage } = await detectOcrLayout(imageBuffer, mimeType, language, modelId);
+    return { ...ocr, layout: layout || undefined, usage: addUsage(ocr.usage, usage) };
+  } catch (error) {
+    // The transcription succeeded; don't lose it over the layout pass
+    console.error('[ocr] Layout detection failed:', error);
+    return ocr;
+  }
+}
+
 /**
  * Perform OCR with a pre-loaded image buffer.
  * Faster than performOCR when you already have the image data (e.g., after cropping).
@@ -43,46 +152,28 @@ export async function performOCRWithBuffer(
   language: string,
   previousPageOcr?: string,
   customPrompt?: string,
-  modelId: string = DEFAULT_MODEL
-): Promise<AIResult> {
-  const model = getGeminiClient().getGenerativeModel({ model: modelId });
-
+  modelId: string = DEFAULT_MODEL,
+  options: OcrOptions = {}
+): Promise<OcrResult> {
   let prompt = (customPrompt || DEFAULT_PROMPTS.ocr).replace('{language}', language);
 
   if (previousPageOcr) {
     prompt += `\n\n**Previous page transcription for context:**\n${previousPageOcr.slice(0, 2000)}...`;
   }
 
-  const base64Image = imageBuffer.toString('base64');
-
+  let ocr: AIResult;
   try {
-    const result = await model.generateContent([
-      prompt,
-      {
-        inlineData: {
-          mimeType,
-          data: base64Image,
-        },
-      },
-    ]);
-
-    const usageMetadata = result.response.usageMetadata;
-    const inputTokens = usageMetadata?.promptTokenCount || 0;
-    const outputTokens = usageMetadata?.candidatesTokenCount || 0;
-
-    return {
-      text: result.response.text(),
-      usage: {
-        inputTokens,
-        outputTokens,
-        totalTokens: inputTokens + outputTokens,
-        costUsd: calculateCost(inputTokens, outputTokens, modelId),
-      },
-    };
-  } catch (geminiError) {
-    console.error('Gemini API error:', geminiError);
-    throw new Error(`Gemini API error: ${geminiError instanceof Error ? geminiError.message : 'Unknown error'}`);
+    ocr = await generateText(prompt, modelId, {
+      images: [{ mimeType, data: imageBuffer.toString('base64') }],
+    });
+  } catch (providerError) {
+    console.error('AI provider error:', providerError);
+    throw new Error(`AI provider error: ${providerError instanceof Error ? providerError.message : 'Unknown error'}`);
   }
+
+  return options.layout
+    ? withLayout(ocr, imageBuffer, mimeType, language, modelId)
+    : ocr;
 }
 
 export async function performOCR(
@@ -90,16 +181,9 @@ export async function performOCR(
   language: string,
   previousPageOcr?: string,
   customPrompt?: string,
-  modelId: string = DEFAULT_MODEL
-): Promise<AIResult> {
-  const model = getGeminiClient().getGenerativeModel({ model: modelId });
-
-  let prompt = (customPrompt || DEFAULT_PROMPTS.ocr).replace('{language}', language);
-
-  if (previousPageOcr) {
-    prompt += `\n\n**Previous page transcription for context:**\n${previousPageOcr.slice(0, 2000)}...`;
-  }
-
+  modelId: string = DEFAULT_MODEL,
+  options: OcrOptions = {}
+): Promise<OcrResult> {
   // Fetch the image using centralized utility (handles mime type detection)
   const { base64: base64Image, mimeType: detectedMimeType } = await images.fetchBase64(imageUrl, {
     includeMimeType: true
@@ -115,34 +199,15 @@ export async function performOCR(
     mimeType = 'image/jpeg';
   }
 
-  try {
-    const result = await model.generateContent([
-      prompt,
-      {
-        inlineData: {
-          mimeType,
-          data: base64Image,
-        },
-      },
-    ]);
-
-    const usageMetadata = result.response.usageMetadata;
-    const inputTokens = usageMetadata?.promptTokenCount || 0;
-    const outputTokens = usageMetadata?.candidatesTokenCount || 0;
-
-    return {
-      text: result.response.text(),
-      usage: {
-        inputTokens,
-        outputTokens,
-        totalTokens: inputTokens + outputTokens,
-        costUsd: calculateCost(inputTokens, outputTokens, modelId),
-      },
-    };
-  } catch (geminiError) {
-    console.error('Gemini API error:', geminiError);
-    throw new Error(`Gemini API error: ${geminiError instanceof Error ? geminiError.message : 'Unknown error'}`);
-  }
+  return performOCRWithBuffer(
+    Buffer.from(base64Image, 'base64'),
+    mimeType,
+    language,
+    previousPageOcr,
+    customPrompt,
+    modelId,
+    options
+  );
 }
 
 export async function performTranslation(
@@ -151,35 +216,21 @@ export async function performTranslation(
   targetLanguage: string,
   previousPageTranslation?: string,
   customPrompt?: string,
-  modelId: string = DEFAULT_MODEL
+  modelId: string = DEFAULT_MODEL,
+  options: TranslationOptions = {}
 ): Promise<AIResult> {
-  const model = getGeminiClient().getGenerativeModel({ model: modelId });
-
   let prompt = (customPrompt || DEFAULT_PROMPTS.translation)
     .replace('{source_language}', sourceLanguage)
     .replace('{target_language}', targetLanguage);
 
+  prompt += formatTranslationGuidance(options.guidance);
   prompt += `\n\n**Text to translate:**\n${ocrText}`;
 
   if (previousPageTranslation) {
     prompt += `\n\n**Previous page translation for continuity:**\n${previousPageTranslation.slice(0, 2000)}...`;
   }
 
-  const result = await model.generateContent(prompt);
-
-  const usageMetadata = result.response.usageMetadata;
-  const inputTokens = usageMetadata?.promptTokenCount || 0;
-  const outputTokens = usageMetadata?.candidatesTokenCount || 0;
-
-  return {
-    text: result.response.text(),
-    usage: {
-      inputTokens,
-      outputTokens,
-      totalTokens: inputTokens + outputTokens,
-      costUsd: calculateCost(inputTokens, outputTokens, modelId),
-    },
-  };
+  return generateText(prompt, modelId);
 }
 
 export async function generateSummary(
@@ -188,8 +239,6 @@ export async function generateSummary(
   customPrompt?: string,
   modelId: string = DEFAULT_MODEL
 ): Promise<AIResult> {
-  const model = getGeminiClient().getGenerativeModel({ model: modelId });
-
   let prompt = customPrompt || DEFAULT_PROMPTS.summary;
   prompt += `\n\n**Translated text:**\n${translatedText}`;
 
@@ -197,21 +246,7 @@ export async function generateSummary(
     prompt += `\n\n**Previous page summary for context:**\n${previousPageSummary}`;
   }
 
-  const result = await model.generateContent(prompt);
-
-  const usageMetadata = result.response.usageMetadata;
-  const inputTokens = usageMetadata?.promptTokenCount || 0;
-  const outputTokens = usageMetadata?.candidatesTokenCount || 0;
-
-  return {
-    text: result.response.text(),
-    usage: {
-      inputTokens,
-      outputTokens,
-      totalTokens: inputTokens + outputTokens,
-      costUsd: calculateCost(inputTokens, outputTokens, modelId),
-    },
-  };
+  return generateText(prompt, modelId);
 }
 
 // Default prompt for modernizing translations
@@ -252,8 +287,6 @@ export async function performModernization(
   customPrompt?: string,
   modelId: string = DEFAULT_MODEL
 ): Promise<AIResult> {
-  const model = getGeminiClient().getGenerativeModel({ model: modelId });
-
   let prompt = customPrompt || MODERNIZATION_PROMPT;
   prompt += `\n\n**Text to modernize:**\n${translationText}`;
 
@@ -264,21 +297,7 @@ export async function performModernization(
     prompt += `\n\n**Previous page (original translation) for reference:**\n${previousContext.translation.slice(0, 2000)}...`;
   }
 
-  const result = await model.generateContent(prompt);
-
-  const usageMetadata = result.response.usageMetadata;
-  const inputTokens = usageMetadata?.promptTokenCount || 0;
-  const outputTokens = usageMetadata?.candidatesTokenCount || 0;
-
-  return {
-    text: result.response.text(),
-    usage: {
-      inputTokens,
-      outputTokens,
-      totalTokens: inputTokens + outputTokens,
-      costUsd: calculateCost(inputTokens, outputTokens, modelId),
-    },
-  };
+  return generateText(prompt, modelId);
 }
 
 export async function processPageComplete(
@@ -0,0 +1,90 @@
+/**
+ * ALTO v4 XML export of word-level OCR.
+ *
+ * One <Page> per page that has an OCR layout (see ocr-layout.ts), with a
+ * single TextBlock of TextLines and Strings. Positions are pixels of the image
+ * that was OCR'd, so split pages refer to their cropped half.
+ *
+ * Spec: https://www.loc.gov/standards/alto/
+ */
+
+import type { Book, OcrBox, Page } from './types';
+import { escapeXml } from './tei';
+import { getPageImageUrl } from './utils';
+import { boxToPixels, layoutPixelSize } from './ocr-layout';
+
+export const ALTO_CONTENT_TYPE = 'application/alto+xml; charset=utf-8';
+
+const ALTO_NS = 'http://www.loc.gov/standards/alto/ns-v4#';
+const ALTO_SCHEMA = 'http://www.loc.gov/standards/alto/v4/alto-4-4.xsd';
+
+function position(box: OcrBox, width: number, height: number): string {
+  const px = boxToPixels(box, width, height);
+  return `HPOS="${px.x}" VPOS="${px.y}" WIDTH="${px.width}" HEIGHT="${px.height}"`;
+}
+
+function altoPage(page: Page, index: number): string {
+  const layout = page.ocr!.layout!;
+  const { width, height } = layoutPixelSize(layout);
+  const pageId = `P${index + 1}`;
+
+  const lines = layout.lines.map((line, l) => {
+    const lineId = `${pageId}_L${l + 1}`;
+    // A line the model returned without word boxes becomes one String
+    const words = line.words.length > 0 ? line.words : [{ text: line.text, box: line.box }];
+    const strings = words
+      .map((word, w) => `            <String ID="${lineId}_W${w + 1}" CONTENT="${escapeXml(word.text)}" ${position(word.box, width, height)}/>`)
+      .join('\n            <SP/>\n');
+    return `          <TextLine ID="${lineId}" ${position(line.box, width, height)}>
+${strings}
+          </TextLine>`;
+  });
+
+  const block = layout.lines.length > 0
+    ? `        <TextBlock ID="${pageId}_B1" ${position({
+      xStart: Math.min(...layout.lines.map(l => l.box.xStart)),
+      yStart: Math.min(...layout.lines.map(l => l.box.yStart)),
+      xEnd: Math.max(...layout.lines.map(l => l.box.xEnd)),
+      yEnd: Math.max(...layout.lines.map(l => l.box.yEnd)),
+    }, width, height)}>
+${lines.join('\n')}
+        </TextBlock>\n`
+    : '';
+
+  return `    <Page ID="${pageId}" PHYSICAL_IMG_NR="${page.page_number}" WIDTH="${width}" HEIGHT="${height}">
+      <PrintSpace HPOS="0" VPOS="0" WIDTH="${width}" HEIGHT="${height}">
+${block}      </PrintSpace>
+    </Page>`;
+}
+
+/**
+ * Build an ALTO document for the pages of a book that have an OCR layout.
+ */
+export function generateAltoDocument(book: Book, pages: Page[]): string {
+  const withLayout = pages.filter(p => p.ocr?.layout);
+  const firstImage = withLayout[0] ? getPageImageUrl(withLayout[0]) : '';
+  const models = Array.from(new Set(withLayout.map(p => p.ocr!.layout!.model)));
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<alto xmlns="${ALTO_NS}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${ALTO_NS} ${ALTO_SCHEMA}">
+  <Description>
+    <MeasurementUnit>pixel</MeasurementUnit>
+    <sourceImageInformation>
+      <fileName>${escapeXml(firstImage)}</fileName>
+    </sourceImageInformation>
+    <OCRProcessing ID="OCR_1">
+      <ocrProcessingStep>
+        <processingStepDescription>${escapeXml(`OCR of "${book.display_title || book.title}" (${book.language})`)}</processingStepDescription>
+        <processingSoftware>
+          <softwareCreator>Source Library</softwareCreator>
+          <softwareName>${escapeXml(models.join(', ') || 'unknown')}</softwareName>
+        </processingSoftware>
+      </ocrProcessingStep>
+    </OCRProcessing>
+  </Description>
+  <Layout>
+${withLayout.map(altoPage).join('\n')}
+  </Layout>
+</alto>
+`;
+}
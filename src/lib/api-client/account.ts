@@ -0,0 +1,30 @@
+import { apiClient } from './client';
+import type { ApiKeySummary } from '@/lib/types';
+import type { ApiKeysResponse, CreateApiKeyRequest, CreateApiKeyResponse } from './types/account';
+
+/**
+ * Account API client
+ * Manages the signed-in user's personal API keys
+ */
+export const account = {
+  /**
+   * List the user's API keys, including revoked ones
+   */
+  apiKeys: async (): Promise<ApiKeysResponse> => {
+    return await apiClient.get('/api/account/api-keys');
+  },
+
+  /**
+   * Create an API key; the response's secret is only returned this once
+   */
+  createApiKey: async (request: CreateApiKeyRequest): Promise<CreateApiKeyResponse> => {
+    return await apiClient.post('/api/account/api-keys', request);
+  },
+
+  /**
+   * Revoke an API key
+   */
+  revokeApiKey: async (id: string): Promise<{ success: boolean; key: ApiKeySummary }> => {
+    return await apiClient.delete(`/api/account/api-keys/${id}`);
+  },
+};
@@ -1,7 +1,7 @@
 import { apiClient, streamRequest } from './client';
 import { upload } from './upload';
 
-import type { Book } from '@/lib/types';
+import type { Book, BookReviewSummary, ReviewPolicy } from '@/lib/types';
 import type {
   BooksListResponse,
   BookWithPages,
@@ -16,6 +16,7 @@ import type {
   BookReimportRequest,
   BookReimportResponse,
   BookPagesResponse,
+  BookPagesParams,
   BookQARequest,
   BookQAResponse,
   BookIdentifyRequest,
@@ -24,6 +25,8 @@ import type {
   BookArchiveImagesResponse,
   BookDownloadFormats,
   RoadmapResponse,
+  BookRevisionsRequest,
+  BookRevisionsResponse,
 } from './types/books';
 
 /**
@@ -114,10 +117,42 @@ export const books = {
   },
 
   /**
-   * Get book pages
+   * Get book pages, optionally a page-number range with OCR/translation text
    */
-  pages: async (id: string): Promise<BookPagesResponse> => {
-    return await apiClient.get(`/api/books/${id}/pages`);
+  pages: async (id: string, request: BookPagesParams = {}): Promise<BookPagesResponse> => {
+    const params = new URLSearchParams();
+    if (request.from !== undefined) params.append('from', request.from.toString());
+    if (request.to !== undefined) params.append('to', request.to.toString());
+    if (request.include?.length) params.append('include', request.include.join(','));
+    const query = params.toString();
+    return await apiClient.get(`/api/books/${id}/pages${query ? `?${query}` : ''}`);
+  },
+
+  /**
+   * Timeline of OCR and translation saves across a book's pages, newest first
+   */
+  revisions: async (id: string, request: BookRevisionsRequest = {}): Promise<BookRevisionsResponse> => {
+    const params = new URLSearchParams();
+    if (request.limit) params.append('limit', request.limit.toString());
+    if (request.before) params.append('before', request.before);
+    if (request.source) params.append('source', request.source);
+    const query = params.toString();
+    return await apiClient.get(`/api/books/${id}/revisions${query ? `?${query}` : ''}`);
+  },
+
+  /**
+   * Proofreading progress: review states, approved share and open comments per page
+   */
+  reviewStatus: async (id: string, targetLanguage?: string): Promise<BookReviewSummary> => {
+    const query = targetLanguage ? `?target_language=${encodeURIComponent(targetLanguage)}` : '';
+    return await apiClient.get(`/api/books/${id}/review-status${query}`);
+  },
+
+  /**
+   * Set the sign-offs needed per page and the approved share needed to publish
+   */
+  updateReviewPolicy: async (id: string, policy: Partial<ReviewPolicy>): Promise<{ success: boolean; policy: ReviewPolicy }> => {
+    return await apiClient.put(`/api/books/${id}/review-status`, policy);
   },
 
   /**
@@ -401,8 +436,8 @@ export const books = {
       return await apiClient.post(`/api/books/${id}/pipeline`, config);
     },
 
-    step: async (id: string, step: string): Promise<any> => {
-      return await apiClient.post(`/api/books/${id}/pipeline/step`, { step });
+    step: async (id: string, step: string, options?: { confirm_budget?: boolean }): Promise<any> => {
+      return await apiClient.post(`/api/books/${id}/pipeline/step`, { step, ...options });
     },
 
     process: async (id: string): Promise<any> => {
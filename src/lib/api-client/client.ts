@@ -38,6 +38,17 @@ apiClient.interceptors.request.use(
   (error) => Promise.reject(error)
 );
 
+/**
+ * Error thrown for a failed request. Keeps the HTTP status and the response
+ * body for callers that handle a particular failure, such as a 409 conflict.
+ */
+export class ApiError extends Error {
+  constructor(message: string, public status?: number, public data?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
 // Response interceptor - handle errors automatically
 apiClient.interceptors.response.use(
   (response) => response.data, // Auto-unwrap data (response.data.data becomes response.data)
@@ -56,7 +67,7 @@ apiClient.interceptors.response.use(
 
     // Extract error message from response
     const message = (error.response?.data as any)?.error || error.message || 'Request failed';
-    throw new Error(message);
+    throw new ApiError(message, error.response?.status, error.response?.data);
   }
 );
 
@@ -48,6 +48,7 @@ export const contribute = {
     processType: 'ocr' | 'translate' | 'both';
     contributorName: string;
     costLimit: number;
+    confirmBudget?: boolean;  // Go ahead past a soft budget limit
   }): Promise<Response> => {
     return await streamRequest('/api/contribute/process', {
       method: 'POST',
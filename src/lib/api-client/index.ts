@@ -21,12 +21,13 @@
  */
 
 // Export the base client and streaming utility
-export { apiClient, streamRequest } from './client';
+export { apiClient, streamRequest, ApiError } from './client';
 
 // Export all types (single source of truth)
 export * from './types';
 
 // Export all API modules (functions only - types come from ./types)
+export * from './account';
 export * from './analytics';
 export * from './annotations';
 export * from './batch-jobs';
@@ -51,4 +52,6 @@ export * from './search';
 export * from './social';
 export * from './split-detection';
 export * from './upload';
-export * from './utils';
\ No newline at end of file
+export * from './utils';
+export * from './v1';
+export * from './webhooks';
\ No newline at end of file
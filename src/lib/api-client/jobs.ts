@@ -2,6 +2,8 @@ import { apiClient } from './client';
 import type { Job, JobStatus } from '@/lib/types';
 import type {
   JobCreateRequest,
+  JobEstimateRequest,
+  JobEstimateResponse,
   JobsListResponse,
   JobProcessResponse,
   JobStatusUpdateRequest,
@@ -46,6 +48,13 @@ export const jobs = {
     return await apiClient.post('/api/jobs', job);
   },
 
+  /**
+   * Estimate a job's cost and check it against the budgets, without starting it
+   */
+  estimate: async (request: JobEstimateRequest): Promise<JobEstimateResponse> => {
+    return await apiClient.post('/api/jobs/estimate', request);
+  },
+
   /**
    * Update job status
    */
@@ -1,5 +1,5 @@
 import { apiClient } from './client';
-import type { Page } from '@/lib/types';
+import type { DiffField, Page, PageDiff, PageRevision, ReviewComment } from '@/lib/types';
 import type {
   PageOcrRequest,
   PageOcrResponse,
@@ -11,7 +11,20 @@ import type {
   PageSplitResponse,
   PageDetectSplitResponse,
   PageAskRequest,
-  PageAskResponse
+  PageAskResponse,
+  PageDiffRequest,
+  PageReviewRequest,
+  PageReviewResponse,
+  PageRevisionsRequest,
+  PageRevisionsResponse,
+  PageBlameResponse,
+  PageReviewStatusResponse,
+  PageReviewActionRequest,
+  PageReviewActionResponse,
+  PageCommentRequest,
+  PageCommentsResponse,
+  PagePresenceRequest,
+  PagePresenceResponse
 } from './types/pages';
 
 /**
@@ -96,6 +109,111 @@ export const pages = {
     return await apiClient.get(`/api/pages/${id}/snapshots`);
   },
 
+  /**
+   * Diff two versions of a page's OCR or translation
+   * (defaults: the latest snapshot against the current text)
+   */
+  diff: async (id: string, request: PageDiffRequest = {}): Promise<PageDiff> => {
+    const params = new URLSearchParams(
+      Object.entries(request).filter((entry): entry is [string, string] => Boolean(entry[1]))
+    );
+    return await apiClient.get(`/api/pages/${id}/diff?${params}`);
+  },
+
+  /**
+   * Accept or reject the hunks of a diff; rejected hunks are reverted
+   */
+  review: async (id: string, request: PageReviewRequest): Promise<PageReviewResponse> => {
+    return await apiClient.post(`/api/pages/${id}/diff`, request);
+  },
+
+  /**
+   * Revision history of a page's OCR and translation, newest first
+   */
+  revisions: async (id: string, request: PageRevisionsRequest = {}): Promise<PageRevisionsResponse> => {
+    const params = new URLSearchParams();
+    if (request.field) params.append('field', request.field);
+    if (request.target_language) params.append('target_language', request.target_language);
+    if (request.include_text) params.append('include_text', 'true');
+    const query = params.toString();
+    return await apiClient.get(`/api/pages/${id}/revisions${query ? `?${query}` : ''}`);
+  },
+
+  /**
+   * Get one revision, with its text
+   */
+  revision: async (id: string, revisionId: string): Promise<PageRevision> => {
+    return await apiClient.get(`/api/pages/${id}/revisions/${revisionId}`);
+  },
+
+  /**
+   * Which revision introduced each line of the current text
+   */
+  blame: async (id: string, field: DiffField = 'translation', targetLanguage?: string): Promise<PageBlameResponse> => {
+    const language = targetLanguage ? `&target_language=${encodeURIComponent(targetLanguage)}` : '';
+    return await apiClient.get(`/api/pages/${id}/blame?field=${field}${language}`);
+  },
+
+  /**
+   * Proofreading state of the page's OCR and translation
+   */
+  reviewStatus: async (id: string): Promise<PageReviewStatusResponse> => {
+    return await apiClient.get(`/api/pages/${id}/review-status`);
+  },
+
+  /**
+   * Claim, start, approve or request changes to a field
+   */
+  updateReviewStatus: async (id: string, request: PageReviewActionRequest): Promise<PageReviewActionResponse> => {
+    return await apiClient.post(`/api/pages/${id}/review-status`, request);
+  },
+
+  /**
+   * The page's review comment thread, oldest first
+   */
+  comments: async (id: string, params?: { field?: DiffField; open?: boolean }): Promise<PageCommentsResponse> => {
+    const queryParams = new URLSearchParams();
+    if (params?.field) queryParams.append('field', params.field);
+    if (params?.open) queryParams.append('open', 'true');
+    const query = queryParams.toString();
+    return await apiClient.get(`/api/pages/${id}/comments${query ? `?${query}` : ''}`);
+  },
+
+  /**
+   * Add a comment, or a reply with parent_id
+   */
+  addComment: async (id: string, request: PageCommentRequest): Promise<{ success: boolean; comment: ReviewComment }> => {
+    return await apiClient.post(`/api/pages/${id}/comments`, request);
+  },
+
+  /**
+   * Resolve or reopen a comment thread
+   */
+  resolveComment: async (id: string, commentId: string, resolved = true): Promise<{ success: boolean; thread_id: string; resolved: boolean }> => {
+    return await apiClient.patch(`/api/pages/${id}/comments/${commentId}`, { resolved });
+  },
+
+  /**
+   * Who else has the page open in the editor
+   */
+  presence: async (id: string): Promise<PagePresenceResponse> => {
+    return await apiClient.get(`/api/pages/${id}/presence`);
+  },
+
+  /**
+   * Heartbeat while the page is open in the editor; returns the other editors
+   */
+  heartbeat: async (id: string, request: PagePresenceRequest = {}): Promise<PagePresenceResponse> => {
+    return await apiClient.post(`/api/pages/${id}/presence`, request);
+  },
+
+  /**
+   * Stop showing as an editor of the page
+   */
+  leave: async (id: string): Promise<{ success: boolean }> => {
+    return await apiClient.delete(`/api/pages/${id}/presence`);
+  },
+
   /**
    * Ask a question about page content
    */
@@ -120,110 +120,4 @@ export const processing = {
   retry: async (jobId: string): Promise<{ success: boolean; retried: number }> => {
     return await apiClient.post(`/api/process/retry/${jobId}`, {});
   },
-
-  /**
-   * Batch translate with context (used for sequential translation with continuity)
-   */
-  batchTranslate: async (data: {
-    pages: Array<{
-      pageId: string;
-      ocrText: string;
-      pageNumber: number;
-    }>;
-    sourceLanguage: string;
-    targetLanguage: string;
-    customPrompt?: string;
-    model?: string;
-    previousContext?: string;
-    overwrite?: boolean;
-  }): Promise<{
-    translations: Record<string, string>;
-    translatedCount: number;
-    requestedCount: number;
-    skippedCount?: number;
-    message?: string;
-    usage?: {
-      inputTokens: number;
-      outputTokens: number;
-      totalTokens: number;
-      costUsd: number;
-    };
-  }> => {
-    // Batch translation can take 30-60 seconds, override default timeout
-    return await apiClient.post('/api/process/batch-translate', data, {
-      timeout: 120000, // 2 minutes
-    });
-  },
-
-  /**
-   * Batch OCR processing with ML
-   */
-  batchOcrProcess: async (data: {
-    pages: Array<{
-      pageId: string;
-      imageUrl: string;
-      pageNumber: number;
-    }>;
-    language: string;
-    customPrompt?: string;
-    model?: string;
-    overwrite?: boolean;
-  }): Promise<{
-    ocrResults: Record<string, string>;
-    processedCount: number;
-    skippedCount: number;
-    requestedCount: number;
-    skippedPageIds: string[];
-    failedPageIds: string[];
-    message?: string;
-    pageResults?: Array<{
-      pageId: string;
-      status: string;
-      message: string;
-    }>;
-    usage?: {
-      inputTokens: number;
-      outputTokens: number;
-      totalTokens: number;
-      costUsd: number;
-    };
-  }> => {
-    // Batch OCR can take 30-60 seconds with image processing, override default timeout
-    return await apiClient.post('/api/process/batch-ocr', data, {
-      timeout: 120000, // 2 minutes
-    });
-  },
-
-  /**
-   * Batch image extraction from pages
-   */
-  batchImageExtraction: async (data: {
-    pages: Array<{
-      pageId: string;
-      imageUrl: string;
-      pageNumber: number;
-    }>;
-    model?: string;
-    overwrite?: boolean;
-  }): Promise<{
-    detectionResults: Record<string, any>;
-    skippedPageIds?: string[];
-    failedPageIds?: string[];
-    pageResults?: Array<{
-      pageId: string;
-      status: string;
-      message: string;
-    }>;
-    usage?: {
-      inputTokens: number;
-      outputTokens: number;
-      totalTokens: number;
-      costUsd: number;
-    };
-  }> => {
-    // Batch image extraction can take 30-60 seconds with AI processing, override default timeout
-    return await apiClient.post('/api/process/batch-image-extraction', data, {
-      timeout: 120000, // 2 minutes
-    });
-  },
 };
@@ -1,5 +1,5 @@
 import { apiClient } from './client';
-import type { SearchResult, SearchFilters, SearchResponse, IndexSearchResult, IndexSearchResponse, UnifiedSearchResponse } from './types/search';
+import type { SearchResult, SearchFilters, SearchResponse, SemanticSearchResponse, IndexSearchResult, IndexSearchResponse, UnifiedSearchResponse } from './types/search';
 
 /**
  * Search API client
@@ -21,6 +21,20 @@ export const search = {
     return await apiClient.get(`/api/search?${params}`);
   },
 
+  /**
+   * Semantic search: translated passages ranked by meaning
+   */
+  semantic: async (query: string, options?: { bookId?: string; language?: string; category?: string; limit?: number; offset?: number }): Promise<SemanticSearchResponse> => {
+    const params = new URLSearchParams({ q: query });
+    if (options?.bookId) params.append('book_id', options.bookId);
+    if (options?.language) params.append('language', options.language);
+    if (options?.category) params.append('category', options.category);
+    if (options?.limit) params.append('limit', options.limit.toString());
+    if (options?.offset) params.append('offset', options.offset.toString());
+
+    return await apiClient.get(`/api/search/semantic?${params}`);
+  },
+
   /**
    * Search book indexes (keywords, concepts, people, places, quotes)
    */
@@ -0,0 +1,22 @@
+import type { ApiKeyScope, ApiKeySummary } from '@/lib/types';
+
+export interface ApiKeysResponse {
+  keys: ApiKeySummary[];
+  /** The scopes the signed-in user's role lets them grant */
+  grantable_scopes: ApiKeyScope[];
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+  rate_limit?: number;
+  daily_quota?: number;
+  expires_in_days?: number;
+}
+
+export interface CreateApiKeyResponse {
+  success: boolean;
+  key: ApiKeySummary;
+  /** The full key; shown once and not stored */
+  secret: string;
+}
@@ -2,7 +2,7 @@
  * Book API Types
  * Shared between API client and route handlers
  */
-import type { Book, Page } from '@/lib/types';
+import type { Book, Page, PageRevision } from '@/lib/types';
 
 export interface BooksListResponse {
   books: Book[];
@@ -76,15 +76,26 @@ export interface BookReimportResponse {
 }
 
 export interface BookPagesResponse {
+  book?: { id: string; title: string; author?: string; language?: string };
   pages: Array<{
     id: string;
     page_number: number;
+    has_ocr?: boolean;
+    has_translation?: boolean;
     ocr?: string;
     translation?: string;
     photo?: string;
     photo_original?: string;
   }>;
   total?: number;
+  /** True when text was requested and the range was cut at the per-request limit */
+  truncated?: boolean;
+}
+
+export interface BookPagesParams {
+  from?: number;
+  to?: number;
+  include?: Array<'ocr' | 'translation'>;
 }
 
 export interface BookQARequest {
@@ -196,4 +207,22 @@ export type BookDownloadFormats =
   'epub-parallel' |
   'epub-facsimile' |
   'epub-images' |
-  'images-zip'
+  'images-zip' |
+  'tei' |
+  'alto' |
+  'hocr'
+
+export interface BookRevisionsRequest {
+  limit?: number;
+  before?: string;      // ISO date, for paging
+  source?: PageRevision['source'];
+}
+
+export interface BookRevision extends Omit<PageRevision, 'text'> {
+  page_number?: number;
+}
+
+export interface BookRevisionsResponse {
+  revisions: BookRevision[];
+  has_more: boolean;
+}
@@ -7,6 +7,7 @@
 export * from './common';
 
 // Module types
+export * from './account';
 export * from './analytics';
 export * from './annotations';
 export * from './batch-jobs';
@@ -28,3 +29,5 @@ export * from './qa';
 export * from './search';
 export * from './social';
 export * from './split-detection';
+export * from './v1'; // Generated: npm run generate:api-client
+export * from './webhooks';
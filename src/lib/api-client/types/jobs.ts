@@ -2,7 +2,7 @@
  * Jobs API Types
  * Shared between API client and route handlers
  */
-import type { Job, JobStatus, JobType } from '@/lib/types';
+import type { BudgetCheck, CostEstimate, Job, JobStatus, JobType } from '@/lib/types';
 
 /**
  * Request body for creating a new job
@@ -16,15 +16,38 @@ export interface JobCreateRequest {
   page_ids: string[];           // Required at top level
   model?: string;               // Optional at top level
   prompt_name?: string;         // Optional at top level
+  custom_prompt?: string;       // Prompt text edited for this run
   language?: string;
   initiated_by?: string;
   use_batch_api?: boolean;      // Enable Gemini Batch API (50% discount)
+  layout?: boolean;             // Also locate OCR lines and words (processes in realtime)
+  overwrite?: boolean;          // false: skip pages that already have the output
+  priority?: number;            // Queue priority; higher runs first (default 0)
+  confirm_budget?: boolean;     // Go ahead past a soft budget limit
+}
+
+/**
+ * Request body for a pre-flight cost estimate (POST /api/jobs/estimate)
+ */
+export interface JobEstimateRequest {
+  type: JobType;                // ocr, translate, batch_ocr or batch_translate
+  page_ids?: string[];
+  pages?: number;               // Instead of page_ids
+  book_id?: string;
+  model?: string;
+  language?: string;
+  use_batch_api?: boolean;
+}
+
+export interface JobEstimateResponse {
+  estimate: CostEstimate;
+  budget: BudgetCheck;
 }
 
 export interface JobLog {
   id: string;
   type: JobType;
-  status: 'pending' | 'processing' | 'paused' | 'completed' | 'failed' | 'cancelled';
+  status: JobStatus;
   progress: {
     total: number;
     completed: number;
@@ -56,6 +79,7 @@ export interface JobProcessResponse {
   message?: string;
   done?: boolean;
   paused?: boolean;
+  queued?: boolean;  // Left to a worker, or waiting for a retry or the next Batch API poll
   job?: Job;  // The actual job object with updated status/progress
   // Batch API specific fields
   phase?: string;
@@ -2,7 +2,23 @@
  * Pages API Types
  * Shared between API client and route handlers
  */
-import type { Page } from '@/lib/types';
+import type {
+  BaseVersions,
+  BlameLine,
+  DiffField,
+  EditableField,
+  EditConflict,
+  FieldReview,
+  Page,
+  PagePresence,
+  PageReview,
+  PageRevision,
+  ReviewAction,
+  ReviewComment,
+  ReviewSuggestion,
+  Reviewer,
+  ReviewPolicy,
+} from '@/lib/types';
 
 export interface PageOcrRequest {
   model?: string;
@@ -42,6 +58,15 @@ export interface PageUpdateRequest {
     model?: string;
   };
   edited_by?: string;
+  base_versions?: BaseVersions;  // Refuse the save with 409 if these fields changed since
+}
+
+/**
+ * Body of a 409 from a page update with base_versions
+ */
+export interface PageUpdateConflictResponse {
+  error: string;
+  conflicts: EditConflict[];
 }
 
 export interface PageUpdateResponse {
@@ -91,3 +116,84 @@ export interface PageAskRequest {
 export interface PageAskResponse {
   answer: string;
 }
+
+export interface PageDiffRequest {
+  field?: DiffField;
+  from?: string;       // current | snapshot:<id> | edition:<id>
+  to?: string;
+}
+
+export interface PageReviewRequest {
+  field: DiffField;
+  from: string;
+  hash: string;
+  rejected: number[];
+  edited_by?: string;
+}
+
+export interface PageReviewResponse {
+  success: boolean;
+  changed: boolean;
+  page: Page;
+}
+
+export interface PageRevisionsRequest {
+  field?: DiffField;
+  target_language?: string;    // Only this language's translation revisions
+  include_text?: boolean;
+}
+
+export interface PageRevisionsResponse {
+  revisions: PageRevision[];   // Without text unless include_text was set
+  count: number;
+}
+
+export interface PageBlameResponse {
+  page_id: string;
+  field: DiffField;
+  target_language?: string;    // For translations
+  revisions: number;
+  lines: BlameLine[];
+}
+
+export interface PageReviewStatusResponse {
+  page_id: string;
+  page_number: number;
+  review: PageReview;
+  policy: ReviewPolicy;
+}
+
+export interface PageReviewActionRequest {
+  field: DiffField;
+  target_language?: string;  // Which translation; default English
+  action: ReviewAction;
+  assignee?: Reviewer;
+  note?: string;
+}
+
+export interface PageReviewActionResponse {
+  success: boolean;
+  page_id: string;
+  field: DiffField;
+  review: FieldReview;
+}
+
+export interface PageCommentRequest {
+  content: string;
+  field?: DiffField;
+  parent_id?: string;
+  /** Propose a correction to the field's text (requires field) */
+  suggestion?: ReviewSuggestion;
+}
+
+export interface PageCommentsResponse {
+  comments: ReviewComment[];
+}
+
+export interface PagePresenceRequest {
+  field?: EditableField;
+}
+
+export interface PagePresenceResponse {
+  editors: PagePresence[];
+}
@@ -40,6 +40,26 @@ export interface SearchResponse {
   filters: SearchFilters;
 }
 
+export interface SemanticSearchResult extends SearchResult {
+  type: 'page';
+  page_id: string;
+  page_number: number;
+  /** Cosine similarity of the passage to the query, 0-1 */
+  score: number;
+}
+
+export interface SemanticSearchResponse {
+  query: string;
+  mode: 'semantic';
+  /** Embedding backend that produced the vectors, e.g. "hashing-1024-v1" */
+  backend: string;
+  total: number;
+  offset: number;
+  limit: number;
+  results: SemanticSearchResult[];
+  truncated?: boolean;
+}
+
 export interface IndexSearchResult {
   type: 'keyword' | 'concept' | 'person' | 'place' | 'vocabulary' | 'quote';
   term: string;
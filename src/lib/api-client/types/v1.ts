@@ -0,0 +1,278 @@
+/**
+ * Types of the public /api/v1 surface.
+ *
+ * Generated from the OpenAPI document (src/lib/api-v1) by
+ * scripts/generate-api-client.ts. Do not edit; run
+ * `npm run generate:api-client` instead.
+ */
+
+export interface V1Error {
+  error: string;
+  /** Invalid parameters and why */
+  details?: Record<string, string[]>;
+}
+
+export interface V1Book {
+  id: string;
+  /** Title in the original language */
+  title: string;
+  /** English title, when different */
+  display_title: string | null;
+  author: string;
+  /** Language of the original */
+  language: string;
+  /** Publication date as catalogued, e.g. "1616" or "c. 1530" */
+  published: string;
+  categories: string[];
+  pages_count: number;
+  pages_translated: number;
+  /** DOI of the current published translation edition */
+  doi: string | null;
+  /** SPDX identifier */
+  license: string | null;
+  thumbnail_url: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface V1BookDetail {
+  id: string;
+  /** Title in the original language */
+  title: string;
+  /** English title, when different */
+  display_title: string | null;
+  author: string;
+  /** Language of the original */
+  language: string;
+  /** Publication date as catalogued, e.g. "1616" or "c. 1530" */
+  published: string;
+  categories: string[];
+  pages_count: number;
+  pages_translated: number;
+  /** DOI of the current published translation edition */
+  doi: string | null;
+  /** SPDX identifier */
+  license: string | null;
+  thumbnail_url: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+  /** Universal Short Title Catalogue number */
+  ustc_id: string | null;
+  place_published: string | null;
+  publisher: string | null;
+  /** Folio, quarto, octavo... */
+  format: string | null;
+  summary: string | null;
+  current_edition_id: string | null;
+}
+
+export interface V1PageText {
+  text: string;
+  language: string | null;
+  /** The AI model that produced the text, unless edited by hand */
+  model: string | null;
+  updated_at: string | null;
+}
+
+export interface V1Page {
+  id: string;
+  book_id: string;
+  page_number: number;
+  image_url: string | null;
+  thumbnail_url: string | null;
+  has_ocr: boolean;
+  has_translation: boolean;
+  /** Included on request */
+  ocr?: V1PageText;
+  /** Included on request */
+  translation?: V1PageText;
+}
+
+export interface V1SearchResult {
+  type: 'book' | 'page';
+  book_id: string;
+  page_number: number | null;
+  title: string;
+  display_title: string | null;
+  author: string;
+  language: string;
+  published: string;
+  doi: string | null;
+  /** HTML; matched terms are wrapped in <mark> */
+  snippet: string | null;
+  snippet_type: 'translation' | 'ocr' | 'summary' | null;
+}
+
+export interface V1GalleryImage {
+  /** {page_id}:{index} */
+  id: string;
+  page_id: string;
+  book_id: string;
+  page_number: number;
+  /** Position of the image among those detected on the page */
+  index: number;
+  /** The whole page; crop it with bbox */
+  image_url: string | null;
+  /** Normalized (0-1) bounding box on the page */
+  bbox: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  } | null;
+  /** woodcut, engraving, emblem, diagram... */
+  type: string | null;
+  description: string | null;
+  museum_description: string | null;
+  gallery_quality: number | null;
+  subjects: string[];
+  figures: string[];
+  symbols: string[];
+  book_title: string | null;
+  author: string | null;
+}
+
+export interface V1Entity {
+  id: string;
+  name: string;
+  type: 'person' | 'place' | 'concept';
+  aliases: string[];
+  description: string | null;
+  wikipedia_url: string | null;
+  book_count: number;
+  total_mentions: number;
+  books: {
+    book_id: string;
+    book_title: string;
+    pages: number[];
+  }[];
+}
+
+export interface V1Edition {
+  id: string;
+  book_id: string;
+  version: string;
+  version_label: string | null;
+  status: 'draft' | 'published' | 'superseded';
+  doi: string | null;
+  doi_url: string | null;
+  published_at: string | null;
+  page_count: number;
+  license: string;
+  contributors: Array<{
+    name: string;
+    role: 'translator' | 'editor' | 'reviewer' | 'transcriber';
+    type: 'ai' | 'human';
+    orcid: string | null;
+  }>;
+  citation: {
+    title: string;
+    original_title: string;
+    original_author: string;
+    original_language: string;
+    original_published: string | null;
+    target_language: string;
+  };
+}
+
+export interface V1BookList {
+  data: V1Book[];
+  /** Pass as ?cursor= for the next page; null on the last page */
+  next_cursor: string | null;
+}
+
+export interface V1PageList {
+  data: V1Page[];
+  /** Pass as ?cursor= for the next page; null on the last page */
+  next_cursor: string | null;
+}
+
+export interface V1SearchResultList {
+  data: V1SearchResult[];
+  /** Pass as ?cursor= for the next page; null on the last page */
+  next_cursor: string | null;
+}
+
+export interface V1GalleryImageList {
+  data: V1GalleryImage[];
+  /** Pass as ?cursor= for the next page; null on the last page */
+  next_cursor: string | null;
+}
+
+export interface V1EntityList {
+  data: V1Entity[];
+  /** Pass as ?cursor= for the next page; null on the last page */
+  next_cursor: string | null;
+}
+
+export interface V1EditionList {
+  data: V1Edition[];
+  /** Pass as ?cursor= for the next page; null on the last page */
+  next_cursor: string | null;
+}
+
+/** Query parameters of v1.listBooks() */
+export interface V1ListBooksParams {
+  /** Opaque cursor from the previous page's next_cursor */
+  cursor?: string;
+  /** Items per page (default 25, max 100) */
+  limit?: number;
+  /** Language of the original, e.g. Latin */
+  language?: string;
+  category?: string;
+  /** Only books with at least one translated page */
+  has_translation?: boolean;
+}
+
+/** Query parameters of v1.listBookPages() */
+export interface V1ListBookPagesParams {
+  /** Opaque cursor from the previous page's next_cursor */
+  cursor?: string;
+  /** Items per page (default 50, max 100) */
+  limit?: number;
+  /** Include the OCR and translation of each page */
+  include_text?: boolean;
+}
+
+/** Query parameters of v1.search() */
+export interface V1SearchParams {
+  /** Query. Supports "phrases", AND / OR / NOT, -exclusions and prefix* */
+  q: string;
+  /** Opaque cursor from the previous page's next_cursor */
+  cursor?: string;
+  /** Items per page (default 20, max 100) */
+  limit?: number;
+  language?: string;
+  category?: string;
+  /** Search the pages of one book */
+  book_id?: string;
+  /** Search translations into this language (BCP 47 code, default en) */
+  target_language?: string;
+}
+
+/** Query parameters of v1.listGalleryImages() */
+export interface V1ListGalleryImagesParams {
+  /** Opaque cursor from the previous page's next_cursor */
+  cursor?: string;
+  /** Items per page (default 50, max 100) */
+  limit?: number;
+  book_id?: string;
+  /** woodcut, engraving, emblem, diagram... */
+  type?: string;
+  subject?: string;
+  /** Minimum gallery quality score (0-1) */
+  min_quality?: number;
+}
+
+/** Query parameters of v1.listEntities() */
+export interface V1ListEntitiesParams {
+  /** Opaque cursor from the previous page's next_cursor */
+  cursor?: string;
+  /** Items per page (default 50, max 100) */
+  limit?: number;
+  type?: 'person' | 'place' | 'concept';
+  /** Match names and aliases */
+  q?: string;
+  /** Entities mentioned in this book */
+  book_id?: string;
+}
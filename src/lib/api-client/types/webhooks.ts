@@ -0,0 +1,42 @@
+import type {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+  WebhookSubscriptionSummary,
+} from '@/lib/types';
+
+export interface WebhookWithStats extends WebhookSubscriptionSummary {
+  /** How many of its deliveries are in each status */
+  deliveries: Record<WebhookDeliveryStatus, number>;
+}
+
+export interface WebhooksResponse {
+  webhooks: WebhookWithStats[];
+}
+
+export interface CreateWebhookRequest {
+  url: string;
+  events: WebhookEventType[];
+  description?: string;
+  active?: boolean;
+}
+
+export type UpdateWebhookRequest = Partial<CreateWebhookRequest>;
+
+export interface WebhookSecretResponse {
+  success: boolean;
+  webhook: WebhookSubscriptionSummary;
+  /** The signing secret; only returned when created or rotated */
+  secret: string;
+}
+
+export interface WebhookDeliveriesParams {
+  subscription_id?: string;
+  status?: WebhookDeliveryStatus;
+  event?: WebhookEventType;
+  limit?: number;
+}
+
+export interface WebhookDeliveriesResponse {
+  deliveries: WebhookDelivery[];
+}
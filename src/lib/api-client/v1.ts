@@ -0,0 +1,72 @@
+/**
+ * Public API v1 client. Requests are authenticated with an API key (see client.ts).
+ *
+ * Generated from the OpenAPI document (src/lib/api-v1) by
+ * scripts/generate-api-client.ts. Do not edit; run
+ * `npm run generate:api-client` instead.
+ */
+
+import { apiClient } from './client';
+import type {
+  V1BookDetail,
+  V1BookList,
+  V1EditionList,
+  V1Entity,
+  V1EntityList,
+  V1GalleryImageList,
+  V1ListBookPagesParams,
+  V1ListBooksParams,
+  V1ListEntitiesParams,
+  V1ListGalleryImagesParams,
+  V1Page,
+  V1PageList,
+  V1SearchParams,
+  V1SearchResultList,
+} from './types/v1';
+
+export const v1 = {
+  /** List books. Books in the library, oldest first. */
+  listBooks: async (params: V1ListBooksParams = {}): Promise<V1BookList> => {
+    return await apiClient.get('/api/v1/books', { params });
+  },
+
+  /** Get a book */
+  getBook: async (id: string): Promise<V1BookDetail> => {
+    return await apiClient.get(`/api/v1/books/${encodeURIComponent(id)}`);
+  },
+
+  /** List the pages of a book. Pages in reading order. Ask for include_text to get their OCR and translation. */
+  listBookPages: async (id: string, params: V1ListBookPagesParams = {}): Promise<V1PageList> => {
+    return await apiClient.get(`/api/v1/books/${encodeURIComponent(id)}/pages`, { params });
+  },
+
+  /** List the published translation editions of a book. Citable editions with their DOIs, newest first. */
+  listBookEditions: async (id: string): Promise<V1EditionList> => {
+    return await apiClient.get(`/api/v1/books/${encodeURIComponent(id)}/editions`);
+  },
+
+  /** Get a page with its text */
+  getPage: async (id: string): Promise<V1Page> => {
+    return await apiClient.get(`/api/v1/pages/${encodeURIComponent(id)}`);
+  },
+
+  /** Search the library. Ranked full-text search over book metadata, OCR and translations. */
+  search: async (params: V1SearchParams): Promise<V1SearchResultList> => {
+    return await apiClient.get('/api/v1/search', { params });
+  },
+
+  /** List illustrations. Woodcuts, engravings, emblems and diagrams detected on pages, by book and page. */
+  listGalleryImages: async (params: V1ListGalleryImagesParams = {}): Promise<V1GalleryImageList> => {
+    return await apiClient.get('/api/v1/gallery', { params });
+  },
+
+  /** List people, places and concepts. Entities from the books' indexes, those in the most books first. */
+  listEntities: async (params: V1ListEntitiesParams = {}): Promise<V1EntityList> => {
+    return await apiClient.get('/api/v1/entities', { params });
+  },
+
+  /** Get an entity */
+  getEntity: async (id: string): Promise<V1Entity> => {
+    return await apiClient.get(`/api/v1/entities/${encodeURIComponent(id)}`);
+  },
+};
@@ -0,0 +1,65 @@
+import { apiClient } from './client';
+import type { WebhookDelivery, WebhookSubscriptionSummary } from '@/lib/types';
+import type {
+  CreateWebhookRequest,
+  UpdateWebhookRequest,
+  WebhookDeliveriesParams,
+  WebhookDeliveriesResponse,
+  WebhookSecretResponse,
+  WebhooksResponse,
+} from './types/webhooks';
+
+/**
+ * Webhooks API client
+ * Manages webhook subscriptions and their delivery log (admins only)
+ */
+export const webhooks = {
+  /**
+   * List subscriptions with their delivery counts
+   */
+  list: async (): Promise<WebhooksResponse> => {
+    return await apiClient.get('/api/admin/webhooks');
+  },
+
+  /**
+   * Subscribe an endpoint; the response's secret is only returned this once
+   */
+  create: async (request: CreateWebhookRequest): Promise<WebhookSecretResponse> => {
+    return await apiClient.post('/api/admin/webhooks', request);
+  },
+
+  /**
+   * Update a subscription's url, events, description or active flag
+   */
+  update: async (id: string, request: UpdateWebhookRequest): Promise<{ success: boolean; webhook: WebhookSubscriptionSummary }> => {
+    return await apiClient.patch(`/api/admin/webhooks/${id}`, request);
+  },
+
+  /**
+   * Delete a subscription and its delivery log
+   */
+  delete: async (id: string): Promise<{ success: boolean }> => {
+    return await apiClient.delete(`/api/admin/webhooks/${id}`);
+  },
+
+  /**
+   * Replace a subscription's signing secret
+   */
+  rotateSecret: async (id: string): Promise<WebhookSecretResponse> => {
+    return await apiClient.post(`/api/admin/webhooks/${id}/rotate-secret`);
+  },
+
+  /**
+   * The delivery log, newest first
+   */
+  deliveries: async (params: WebhookDeliveriesParams = {}): Promise<WebhookDeliveriesResponse> => {
+    return await apiClient.get('/api/admin/webhooks/deliveries', { params });
+  },
+
+  /**
+   * Send a delivery's event again as a new delivery
+   */
+  replay: async (deliveryId: string): Promise<{ success: boolean; delivery: WebhookDelivery }> => {
+    return await apiClient.post(`/api/admin/webhooks/deliveries/${deliveryId}/replay`);
+  },
+};
@@ -0,0 +1,187 @@
+import { createHash, randomBytes } from 'crypto';
+import { ObjectId, type Db } from 'mongodb';
+import { getUsersCollection, loadUserAccess } from '@/lib/auth';
+import type { AuthUser } from '@/lib/auth-guard';
+import { connectToDatabase } from '@/lib/mongodb';
+import type { ApiKey, ApiKeySummary } from '@/lib/types';
+import { API_KEY_PREFIX } from './api-keys';
+
+export const API_KEYS_COLLECTION = 'api_keys';
+
+// One counter per key per minute and per day; documents carry expires_at
+// for a TTL index
+export const API_KEY_USAGE_COLLECTION = 'api_key_usage';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// last_used_at is only rewritten when it is older than this
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * A key's standing in one usage window, after counting the current request.
+ */
+export interface ApiKeyUsageWindow {
+  limit: number;
+  remaining: number;
+  /** Seconds until the window resets */
+  reset_after: number;
+}
+
+export interface ApiKeyUsage {
+  /** The per-minute rate limit */
+  minute: ApiKeyUsageWindow;
+  /** The daily quota (UTC days) */
+  day: ApiKeyUsageWindow;
+}
+
+/**
+ * How the request's `Authorization: Bearer sl_...` header resolved:
+ * - none: no API key was sent (a session or CRON_SECRET may still apply)
+ * - invalid: unknown, revoked or expired key, or its owner no longer exists
+ * - limited: the key is over its per-minute rate limit or its daily quota
+ * - ok: the key, the user it acts as, and its usage so far
+ */
+export type ApiKeyAuth =
+  | { status: 'none' }
+  | { status: 'invalid' }
+  | { status: 'limited'; reason: 'rate_limit' | 'quota'; limit: number; retry_after: number }
+  | { status: 'ok'; key: ApiKey; user: AuthUser; usage: ApiKeyUsage };
+
+/**
+ * A new key secret. It is shown to its owner once; only its hash is kept.
+ */
+export function generateApiKeySecret(): string {
+  return API_KEY_PREFIX + randomBytes(30).toString('base64url');
+}
+
+export function hashApiKey(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+// Fields of an ApiKey shown to its owner
+export const API_KEY_SUMMARY_PROJECTION = { _id: 0, key_hash: 0 } as const;
+
+export function toApiKeySummary(key: ApiKey): ApiKeySummary {
+  return {
+    id: key.id,
+    user_id: key.user_id,
+    name: key.name,
+    prefix: key.prefix,
+    scopes: key.scopes,
+    rate_limit: key.rate_limit,
+    daily_quota: key.daily_quota,
+    created_at: key.created_at,
+    ...(key.last_used_at && { last_used_at: key.last_used_at }),
+    ...(key.expires_at && { expires_at: key.expires_at }),
+    ...(key.revoked_at && { revoked_at: key.revoked_at }),
+  };
+}
+
+export async function ensureApiKeyIndexes(db: Db): Promise<void> {
+  const keys = db.collection(API_KEYS_COLLECTION);
+  await keys.createIndex({ key_hash: 1 }, { name: 'api_keys_hash_idx', unique: true });
+  await keys.createIndex({ user_id: 1, created_at: -1 }, { name: 'api_keys_user_idx' });
+  const usage = db.collection(API_KEY_USAGE_COLLECTION);
+  await usage.createIndex({ key_id: 1, period: 1, window: 1 }, { name: 'api_key_usage_window_idx', unique: true });
+  await usage.createIndex({ expires_at: 1 }, { name: 'api_key_usage_ttl_idx', expireAfterSeconds: 0 });
+}
+
+async function countRequest(
+  db: Db,
+  keyId: string,
+  period: 'minute' | 'day',
+  limit: number,
+  now: Date
+): Promise<ApiKeyUsageWindow> {
+  const length = period === 'minute' ? MINUTE_MS : DAY_MS;
+  const window = Math.floor(now.getTime() / length);
+  const counter = await db.collection(API_KEY_USAGE_COLLECTION).findOneAndUpdate(
+    { key_id: keyId, period, window },
+    {
+      $inc: { count: 1 },
+      $setOnInsert: { expires_at: new Date((window + 2) * length) },
+    },
+    { upsert: true, returnDocument: 'after' }
+  );
+
+  const count = (counter?.count as number | undefined) ?? 1;
+  return {
+    limit,
+    remaining: limit - count,
+    reset_after: Math.ceil(((window + 1) * length - now.getTime()) / 1000),
+  };
+}
+
+/**
+ * Count one request against the key's per-minute rate limit and, when that
+ * lets it through, its daily quota. Requests turned away by the rate limit
+ * don't use up the quota.
+ */
+export async function consumeRateLimit(
+  db: Db,
+  key: Pick<ApiKey, 'id' | 'rate_limit' | 'daily_quota'>,
+  now = new Date()
+): Promise<{ exceeded?: 'rate_limit' | 'quota'; usage: ApiKeyUsage }> {
+  const minute = await countRequest(db, key.id, 'minute', key.rate_limit, now);
+  if (minute.remaining < 0) {
+    const day = { limit: key.daily_quota, remaining: 0, reset_after: 0 };
+    return { exceeded: 'rate_limit', usage: { minute, day } };
+  }
+
+  const day = await countRequest(db, key.id, 'day', key.daily_quota, now);
+  return { exceeded: day.remaining < 0 ? 'quota' : undefined, usage: { minute, day } };
+}
+
+/**
+ * Resolve an Authorization header to the API key and user it acts as, and
+ * count the request against the key's rate limit and daily quota. The
+ * owner's role and tenant are re-read every time, so a demotion applies to
+ * existing keys.
+ */
+export async function authenticateApiKey(authorization: string | null, now = new Date()): Promise<ApiKeyAuth> {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  if (!match || !match[1].startsWith(API_KEY_PREFIX)) return { status: 'none' };
+
+  // API keys are global, like users: read them outside any tenant scope
+  const { db } = await connectToDatabase();
+  const key = await db.collection<ApiKey>(API_KEYS_COLLECTION).findOne(
+    { key_hash: hashApiKey(match[1]), revoked_at: { $exists: false } },
+    { projection: { _id: 0 } }
+  ) as ApiKey | null;
+  if (!key || (key.expires_at && new Date(key.expires_at) <= now)) {
+    return { status: 'invalid' };
+  }
+
+  const owner = ObjectId.isValid(key.user_id)
+    ? await (await getUsersCollection()).findOne(
+      { _id: new ObjectId(key.user_id) },
+      { projection: { name: 1, email: 1 } }
+    )
+    : null;
+  if (!owner) return { status: 'invalid' };
+
+  const { exceeded, usage } = await consumeRateLimit(db, key, now);
+  if (exceeded) {
+    const window = exceeded === 'rate_limit' ? usage.minute : usage.day;
+    return { status: 'limited', reason: exceeded, limit: window.limit, retry_after: window.reset_after };
+  }
+
+  if (!key.last_used_at || now.getTime() - new Date(key.last_used_at).getTime() > LAST_USED_RESOLUTION_MS) {
+    await db.collection(API_KEYS_COLLECTION).updateOne({ id: key.id }, { $set: { last_used_at: now } });
+  }
+
+  const access = await loadUserAccess(key.user_id, owner.email);
+  return {
+    status: 'ok',
+    key,
+    user: {
+      id: key.user_id,
+      name: owner.name,
+      email: owner.email,
+      role: access.role,
+      tenant_id: access.tenant_id,
+    },
+    usage,
+  };
+}
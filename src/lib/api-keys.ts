@@ -0,0 +1,54 @@
+/**
+ * Personal API key scopes and limits. Shared by the server-side guard and
+ * the key management page, so keep this module free of server-only imports
+ * (the key store is in api-keys.server.ts).
+ */
+
+import type { ApiKeyScope } from '@/lib/types';
+import { hasRole, type Role } from '@/lib/roles';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['read', 'contribute', 'edit', 'curate', 'admin'];
+
+/** The role whose actions each scope unlocks */
+export const API_KEY_SCOPE_ROLES: Record<ApiKeyScope, Role> = {
+  read: 'reader',
+  contribute: 'contributor',
+  edit: 'editor',
+  curate: 'curator',
+  admin: 'admin',
+};
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  read: 'Read, annotate and highlight as you',
+  contribute: 'Edit pages, run OCR/translation on pages, propose corrections',
+  edit: 'Batch jobs and restructuring books',
+  curate: 'Imports, deletions, editions and DOIs',
+  admin: 'Maintenance and role assignment',
+};
+
+/** Every key secret starts with this, which tells it apart from CRON_SECRET */
+export const API_KEY_PREFIX = 'sl_';
+
+export const DEFAULT_API_KEY_RATE_LIMIT = 60;
+export const MAX_API_KEY_RATE_LIMIT = 600;
+export const DEFAULT_API_KEY_DAILY_QUOTA = 10_000;
+export const MAX_API_KEY_DAILY_QUOTA = 100_000;
+export const MAX_API_KEYS_PER_USER = 10;
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as string[]).includes(value);
+}
+
+/**
+ * The scope that unlocks actions guarded at `role`.
+ */
+export function scopeForRole(role: Role): ApiKeyScope {
+  return API_KEY_SCOPES.find(scope => API_KEY_SCOPE_ROLES[scope] === role)!;
+}
+
+/**
+ * The scopes a user with `role` may grant a key: those up to their own role.
+ */
+export function grantableScopes(role: Role): ApiKeyScope[] {
+  return API_KEY_SCOPES.filter(scope => hasRole(role, API_KEY_SCOPE_ROLES[scope]));
+}
@@ -0,0 +1,202 @@
+/**
+ * Generates the typed /api/v1 client in src/lib/api-client from the OpenAPI
+ * document: an interface per component schema, a params interface per
+ * operation with query parameters, and a `v1` module with a method per
+ * operation. Run by scripts/generate-api-client.ts; a test checks the
+ * committed files are up to date.
+ */
+
+type JsonSchema = {
+  $ref?: string;
+  type?: string;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  items?: JsonSchema;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  description?: string;
+};
+
+interface Parameter {
+  name: string;
+  in: 'path' | 'query';
+  description?: string;
+  required?: boolean;
+  schema: JsonSchema;
+}
+
+interface Operation {
+  operationId: string;
+  summary?: string;
+  description?: string;
+  parameters?: Parameter[];
+  responses: Record<string, { content?: Record<string, { schema: JsonSchema }> }>;
+}
+
+export interface OpenApiDocument {
+  paths: Record<string, Record<string, Operation>>;
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+export interface GeneratedClient {
+  /** src/lib/api-client/types/v1.ts */
+  types: string;
+  /** src/lib/api-client/v1.ts */
+  client: string;
+}
+
+const TYPE_PREFIX = 'V1';
+
+const HEADER = (what: string) => `/**
+ * ${what}
+ *
+ * Generated from the OpenAPI document (src/lib/api-v1) by
+ * scripts/generate-api-client.ts. Do not edit; run
+ * \`npm run generate:api-client\` instead.
+ */
+`;
+
+function typeName(ref: string): string {
+  return TYPE_PREFIX + ref.slice(ref.lastIndexOf('/') + 1);
+}
+
+function pascalCase(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function docComment(text: string | undefined, indent: string): string {
+  return text ? `${indent}/** ${text.replace(/\*\//g, '*\\/')} */\n` : '';
+}
+
+function literal(value: unknown): string {
+  return typeof value === 'string' ? `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'` : JSON.stringify(value);
+}
+
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : literal(name);
+}
+
+function objectBody(schema: JsonSchema, indent: string): string {
+  const required = new Set(schema.required ?? []);
+  const lines = Object.entries(schema.properties ?? {}).map(([name, property]) => {
+    const optional = required.has(name) ? '' : '?';
+    return docComment(property.description, indent + '  ') +
+      `${indent}  ${propertyKey(name)}${optional}: ${toTs(property, indent + '  ')};\n`;
+  });
+  return `{\n${lines.join('')}${indent}}`;
+}
+
+function toTs(schema: JsonSchema, indent = ''): string {
+  if (schema.$ref) return typeName(schema.$ref);
+  if (schema.const !== undefined) return literal(schema.const);
+  if (schema.enum) return schema.enum.map(literal).join(' | ');
+
+  const union = schema.anyOf ?? schema.oneOf;
+  if (union) return union.map(member => toTs(member, indent)).join(' | ');
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array': {
+      const item = schema.items ? toTs(schema.items, indent) : 'unknown';
+      return item.includes(' | ') ? `Array<${item}>` : `${item}[]`;
+    }
+    case 'object':
+      if (schema.properties) return objectBody(schema, indent);
+      if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        return `Record<string, ${toTs(schema.additionalProperties, indent)}>`;
+      }
+      return 'Record<string, unknown>';
+    default:
+      return 'unknown';
+  }
+}
+
+function operationEntries(document: OpenApiDocument): Array<{ path: string; method: string; operation: Operation }> {
+  return Object.entries(document.paths).flatMap(([path, methods]) =>
+    Object.entries(methods).map(([method, operation]) => ({ path, method, operation }))
+  );
+}
+
+function paramsTypeName(operation: Operation): string {
+  return `${TYPE_PREFIX}${pascalCase(operation.operationId)}Params`;
+}
+
+function responseType(operation: Operation): string {
+  const schema = operation.responses['200']?.content?.['application/json']?.schema;
+  return schema ? toTs(schema) : 'unknown';
+}
+
+function generateTypes(document: OpenApiDocument): string {
+  const blocks = Object.entries(document.components.schemas).map(([id, schema]) => {
+    const comment = docComment(schema.description, '');
+    return schema.type === 'object' && schema.properties
+      ? `${comment}export interface ${TYPE_PREFIX}${id} ${objectBody(schema, '')}\n`
+      : `${comment}export type ${TYPE_PREFIX}${id} = ${toTs(schema)};\n`;
+  });
+
+  for (const { operation } of operationEntries(document)) {
+    const query = (operation.parameters ?? []).filter(p => p.in === 'query');
+    if (query.length === 0) continue;
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: Object.fromEntries(query.map(p => [p.name, { ...p.schema, description: p.description }])),
+      required: query.filter(p => p.required).map(p => p.name),
+    };
+    blocks.push(
+      `/** Query parameters of ${TYPE_PREFIX.toLowerCase()}.${operation.operationId}() */\n` +
+      `export interface ${paramsTypeName(operation)} ${objectBody(schema, '')}\n`
+    );
+  }
+
+  return HEADER('Types of the public /api/v1 surface.') + '\n' + blocks.join('\n');
+}
+
+function generateMethod(path: string, method: string, operation: Operation): string {
+  const pathParams = (operation.parameters ?? []).filter(p => p.in === 'path');
+  const query = (operation.parameters ?? []).filter(p => p.in === 'query');
+  const queryRequired = query.some(p => p.required);
+
+  const args = pathParams.map(p => `${p.name}: string`);
+  if (query.length > 0) {
+    args.push(queryRequired ? `params: ${paramsTypeName(operation)}` : `params: ${paramsTypeName(operation)} = {}`);
+  }
+  const url = pathParams.length > 0
+    ? '`/api/v1' + path.replace(/\{(\w+)\}/g, (_, name) => `\${encodeURIComponent(${name})}`) + '`'
+    : `'/api/v1${path}'`;
+  const call = query.length > 0 ? `apiClient.${method}(${url}, { params })` : `apiClient.${method}(${url})`;
+
+  const doc = [operation.summary, operation.description].filter(Boolean).join('. ');
+  return docComment(doc, '  ') +
+    `  ${operation.operationId}: async (${args.join(', ')}): Promise<${responseType(operation)}> => {\n` +
+    `    return await ${call};\n` +
+    `  },\n`;
+}
+
+function generateClientModule(document: OpenApiDocument): string {
+  const entries = operationEntries(document);
+  const used = new Set<string>();
+  for (const { operation } of entries) {
+    for (const match of responseType(operation).matchAll(new RegExp(`${TYPE_PREFIX}\\w+`, 'g'))) used.add(match[0]);
+    if ((operation.parameters ?? []).some(p => p.in === 'query')) used.add(paramsTypeName(operation));
+  }
+
+  const imports = [...used].sort().map(name => `  ${name},\n`).join('');
+  return HEADER('Public API v1 client. Requests are authenticated with an API key (see client.ts).') +
+    `\nimport { apiClient } from './client';\nimport type {\n${imports}} from './types/v1';\n\n` +
+    `export const v1 = {\n${entries.map(({ path, method, operation }) => generateMethod(path, method, operation)).join('\n')}};\n`;
+}
+
+export function generateApiClient(document: OpenApiDocument): GeneratedClient {
+  return { types: generateTypes(document), client: generateClientModule(document) };
+}
@@ -0,0 +1,34 @@
+/**
+ * Opaque pagination cursors for /api/v1 lists. A cursor holds the sort key
+ * of the last item returned, so the next page starts right after it even
+ * when items are added or removed in between (search, being ranked, keeps
+ * an offset instead).
+ */
+
+import { z } from 'zod';
+
+export function encodeCursor(position: unknown): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+/**
+ * The position in `cursor`, or null when it wasn't issued for this list.
+ */
+export function decodeCursor<T extends z.ZodType>(cursor: string, schema: T): z.output<T> | null {
+  try {
+    const parsed = schema.safeParse(JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The cursor for the page after `items`, which were fetched with one extra
+ * item to learn whether there is a next page. Trims the extra item.
+ */
+export function nextCursor<T>(items: T[], limit: number, position: (last: T) => unknown): string | null {
+  if (items.length <= limit) return null;
+  items.length = limit;
+  return encodeCursor(position(items[limit - 1]));
+}
@@ -0,0 +1,152 @@
+/**
+ * The OpenAPI 3.1 document of /api/v1, generated from the operations and
+ * schemas the route handlers validate with.
+ */
+
+import { z } from 'zod';
+import { V1_OPERATIONS, type V1Operation } from './operations';
+import { v1Schemas } from './schemas';
+
+export const V1_API_VERSION = '1.0.0';
+
+type JsonSchema = Record<string, unknown>;
+
+const COMPONENT_REF = (id: string) => `#/components/schemas/${id}`;
+
+/**
+ * Drop what JSON Schema output adds but OpenAPI components don't use: the
+ * dialect and id of each schema, and the bounds zod puts on every integer.
+ */
+function tidy(schema: JsonSchema): JsonSchema {
+  const out = { ...schema };
+  delete out.$schema;
+  delete out.$id;
+  if (out.minimum === Number.MIN_SAFE_INTEGER) delete out.minimum;
+  if (out.maximum === Number.MAX_SAFE_INTEGER) delete out.maximum;
+  for (const [key, value] of Object.entries(out)) {
+    if (Array.isArray(value)) {
+      out[key] = value.map(v => (v && typeof v === 'object' ? tidy(v as JsonSchema) : v));
+    } else if (value && typeof value === 'object') {
+      out[key] = key === 'properties'
+        ? Object.fromEntries(Object.entries(value).map(([name, v]) => [name, tidy(v as JsonSchema)]))
+        : tidy(value as JsonSchema);
+    }
+  }
+  return out;
+}
+
+function inputSchema(schema: z.ZodObject): JsonSchema {
+  return tidy(z.toJSONSchema(schema, { io: 'input' }) as JsonSchema);
+}
+
+function responseRef(schema: z.ZodType): JsonSchema {
+  const id = v1Schemas.get(schema)?.id;
+  if (!id) throw new Error('v1 responses must be registered schemas');
+  return { $ref: COMPONENT_REF(id) };
+}
+
+function parameters(operation: V1Operation): JsonSchema[] {
+  const result: JsonSchema[] = [];
+  for (const location of ['path', 'query'] as const) {
+    const schema = inputSchema(location === 'path' ? operation.params : operation.query);
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+    const required = (schema.required ?? []) as string[];
+    for (const [name, property] of Object.entries(properties)) {
+      const { description, ...rest } = property;
+      result.push({
+        name,
+        in: location,
+        ...(description !== undefined && { description }),
+        ...((location === 'path' || required.includes(name)) && { required: true }),
+        schema: rest,
+      });
+    }
+  }
+  return result;
+}
+
+const RATE_LIMIT_HEADERS = {
+  'X-RateLimit-Limit': { description: 'Requests allowed per minute for this key', schema: { type: 'integer' } },
+  'X-RateLimit-Remaining': { description: 'Requests left this minute', schema: { type: 'integer' } },
+  'X-RateLimit-Reset': { description: 'Seconds until the minute resets', schema: { type: 'integer' } },
+  'X-Quota-Limit': { description: 'Requests allowed per UTC day for this key', schema: { type: 'integer' } },
+  'X-Quota-Remaining': { description: 'Requests left today', schema: { type: 'integer' } },
+  'X-Quota-Reset': { description: 'Seconds until the daily quota resets', schema: { type: 'integer' } },
+};
+
+function errorResponse(description: string): JsonSchema {
+  return { description, content: { 'application/json': { schema: { $ref: COMPONENT_REF('Error') } } } };
+}
+
+function operationObject(operation: V1Operation): JsonSchema {
+  const hasPathParams = Object.keys(operation.params.shape).length > 0;
+  return {
+    operationId: operation.operationId,
+    summary: operation.summary,
+    ...(operation.description && { description: operation.description }),
+    tags: [operation.tag],
+    parameters: parameters(operation),
+    responses: {
+      200: {
+        description: 'OK',
+        headers: Object.fromEntries(
+          Object.keys(RATE_LIMIT_HEADERS).map(name => [name, { $ref: `#/components/headers/${name}` }])
+        ),
+        content: { 'application/json': { schema: responseRef(operation.response) } },
+      },
+      400: { $ref: '#/components/responses/BadRequest' },
+      401: { $ref: '#/components/responses/Unauthorized' },
+      403: { $ref: '#/components/responses/Forbidden' },
+      ...(hasPathParams && { 404: { $ref: '#/components/responses/NotFound' } }),
+      429: { $ref: '#/components/responses/TooManyRequests' },
+    },
+  };
+}
+
+export function buildOpenApiDocument(serverUrl = 'https://sourcelibrary.org/api/v1'): JsonSchema {
+  const { schemas } = z.toJSONSchema(v1Schemas, { io: 'output', uri: COMPONENT_REF }) as { schemas: Record<string, JsonSchema> };
+
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const operation of V1_OPERATIONS) {
+    paths[operation.path] = { ...paths[operation.path], [operation.method]: operationObject(operation) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'Source Library API',
+      version: V1_API_VERSION,
+      description:
+        'Books, pages, translations, illustrations and entities from Source Library. ' +
+        'Create a key at https://sourcelibrary.org/account/api-keys and send it as ' +
+        '`Authorization: Bearer <key>`. Lists are paginated with cursors: pass a ' +
+        'response\'s next_cursor as ?cursor= until it is null.',
+      contact: { name: 'Source Library', url: 'https://sourcelibrary.org/developers' },
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ apiKey: [] }],
+    tags: [...new Set(V1_OPERATIONS.map(op => op.tag))].map(name => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        apiKey: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'A personal API key with the read scope',
+        },
+      },
+      headers: RATE_LIMIT_HEADERS,
+      responses: {
+        BadRequest: errorResponse('Invalid parameters'),
+        Unauthorized: errorResponse('Missing, invalid or revoked API key'),
+        Forbidden: errorResponse('The key lacks the read scope'),
+        NotFound: errorResponse('Not found'),
+        TooManyRequests: {
+          ...errorResponse('Over the key\'s per-minute rate limit or daily quota'),
+          headers: { 'Retry-After': { description: 'Seconds to wait', schema: { type: 'integer' } } },
+        },
+      },
+      schemas: Object.fromEntries(Object.entries(schemas).map(([id, schema]) => [id, tidy(schema)])),
+    },
+  };
+}
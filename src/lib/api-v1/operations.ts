@@ -0,0 +1,154 @@
+/**
+ * The operations of /api/v1. Each route handler is built from one of these
+ * (see v1Route) and the OpenAPI document lists all of them, so adding an
+ * endpoint means adding it here first.
+ */
+
+import { z } from 'zod';
+import {
+  BookDetailSchema,
+  BookListSchema,
+  EditionListSchema,
+  EntityListSchema,
+  EntitySchema,
+  GalleryImageListSchema,
+  GalleryQuerySchema,
+  IdParamsSchema,
+  ListBooksQuerySchema,
+  ListEntitiesQuerySchema,
+  ListPagesQuerySchema,
+  PageListSchema,
+  PageSchema,
+  SearchQuerySchema,
+  SearchResultListSchema,
+} from './schemas';
+
+export interface V1Operation<
+  P extends z.ZodObject = z.ZodObject,
+  Q extends z.ZodObject = z.ZodObject,
+  R extends z.ZodType = z.ZodType,
+> {
+  operationId: string;
+  method: 'get';
+  /** Relative to /api/v1, with {name} path parameters */
+  path: string;
+  summary: string;
+  description?: string;
+  tag: string;
+  params: P;
+  query: Q;
+  response: R;
+}
+
+const NO_PARAMS = z.object({});
+
+function defineOperation<P extends z.ZodObject, Q extends z.ZodObject, R extends z.ZodType>(
+  operation: Omit<V1Operation<P, Q, R>, 'method' | 'params' | 'query'> & { params?: P; query?: Q }
+): V1Operation<P, Q, R> {
+  return {
+    method: 'get',
+    ...operation,
+    params: operation.params ?? (NO_PARAMS as unknown as P),
+    query: operation.query ?? (NO_PARAMS as unknown as Q),
+  };
+}
+
+export const listBooks = defineOperation({
+  operationId: 'listBooks',
+  path: '/books',
+  summary: 'List books',
+  description: 'Books in the library, oldest first.',
+  tag: 'Books',
+  query: ListBooksQuerySchema,
+  response: BookListSchema,
+});
+
+export const getBook = defineOperation({
+  operationId: 'getBook',
+  path: '/books/{id}',
+  summary: 'Get a book',
+  tag: 'Books',
+  params: IdParamsSchema,
+  response: BookDetailSchema,
+});
+
+export const listBookPages = defineOperation({
+  operationId: 'listBookPages',
+  path: '/books/{id}/pages',
+  summary: 'List the pages of a book',
+  description: 'Pages in reading order. Ask for include_text to get their OCR and translation.',
+  tag: 'Pages',
+  params: IdParamsSchema,
+  query: ListPagesQuerySchema,
+  response: PageListSchema,
+});
+
+export const listBookEditions = defineOperation({
+  operationId: 'listBookEditions',
+  path: '/books/{id}/editions',
+  summary: 'List the published translation editions of a book',
+  description: 'Citable editions with their DOIs, newest first.',
+  tag: 'Editions',
+  params: IdParamsSchema,
+  response: EditionListSchema,
+});
+
+export const getPage = defineOperation({
+  operationId: 'getPage',
+  path: '/pages/{id}',
+  summary: 'Get a page with its text',
+  tag: 'Pages',
+  params: IdParamsSchema,
+  response: PageSchema,
+});
+
+export const search = defineOperation({
+  operationId: 'search',
+  path: '/search',
+  summary: 'Search the library',
+  description: 'Ranked full-text search over book metadata, OCR and translations.',
+  tag: 'Search',
+  query: SearchQuerySchema,
+  response: SearchResultListSchema,
+});
+
+export const listGalleryImages = defineOperation({
+  operationId: 'listGalleryImages',
+  path: '/gallery',
+  summary: 'List illustrations',
+  description: 'Woodcuts, engravings, emblems and diagrams detected on pages, by book and page.',
+  tag: 'Gallery',
+  query: GalleryQuerySchema,
+  response: GalleryImageListSchema,
+});
+
+export const listEntities = defineOperation({
+  operationId: 'listEntities',
+  path: '/entities',
+  summary: 'List people, places and concepts',
+  description: 'Entities from the books\' indexes, those in the most books first.',
+  tag: 'Entities',
+  query: ListEntitiesQuerySchema,
+  response: EntityListSchema,
+});
+
+export const getEntity = defineOperation({
+  operationId: 'getEntity',
+  path: '/entities/{id}',
+  summary: 'Get an entity',
+  tag: 'Entities',
+  params: IdParamsSchema,
+  response: EntitySchema,
+});
+
+export const V1_OPERATIONS: V1Operation[] = [
+  listBooks,
+  getBook,
+  listBookPages,
+  listBookEditions,
+  getPage,
+  search,
+  listGalleryImages,
+  listEntities,
+  getEntity,
+];
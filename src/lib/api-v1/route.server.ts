@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { z } from 'zod';
+import { apiKeyError, getApiKeyAuth, type AuthUser } from '@/lib/auth-guard';
+import type { ApiKeyUsage } from '@/lib/api-keys.server';
+import type { V1Operation } from './operations';
+
+export interface V1RequestContext<P extends z.ZodObject, Q extends z.ZodObject> {
+  request: NextRequest;
+  params: z.output<P>;
+  query: z.output<Q>;
+  /** The owner of the API key */
+  user: AuthUser;
+}
+
+function usageHeaders(usage: ApiKeyUsage): Record<string, string> {
+  return {
+    'X-RateLimit-Limit': String(usage.minute.limit),
+    'X-RateLimit-Remaining': String(Math.max(usage.minute.remaining, 0)),
+    'X-RateLimit-Reset': String(usage.minute.reset_after),
+    'X-Quota-Limit': String(usage.day.limit),
+    'X-Quota-Remaining': String(Math.max(usage.day.remaining, 0)),
+    'X-Quota-Reset': String(usage.day.reset_after),
+  };
+}
+
+/**
+ * Build the route handler for a /api/v1 operation. The request must carry
+ * an API key with the read scope, which is counted against the key's rate
+ * limit and quota. Path and query parameters are validated against the
+ * operation's schemas before `handler` runs, and what it returns is
+ * validated against the response schema before it is sent, so responses
+ * match the OpenAPI document. `handler` may return a NextResponse instead,
+ * e.g. for a 404.
+ */
+export function v1Route<P extends z.ZodObject, Q extends z.ZodObject, R extends z.ZodType>(
+  operation: V1Operation<P, Q, R>,
+  handler: (context: V1RequestContext<P, Q>) => Promise<z.input<R> | NextResponse>
+) {
+  return async function (
+    request: NextRequest,
+    { params }: { params: Promise<Record<string, string>> }
+  ): Promise<NextResponse> {
+    const keyAuth = await getApiKeyAuth();
+    if (keyAuth.status !== 'ok') {
+      return (await apiKeyError()) ?? NextResponse.json(
+        { error: 'An API key is required; create one at /account/api-keys' },
+        { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+      );
+    }
+
+    const headers = usageHeaders(keyAuth.usage);
+    if (!keyAuth.key.scopes.includes('read')) {
+      return NextResponse.json(
+        { error: 'This API key lacks the read scope', required_scope: 'read' },
+        { status: 403, headers }
+      );
+    }
+
+    const parsedParams = operation.params.safeParse(await params);
+    const parsedQuery = operation.query.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsedParams.success || !parsedQuery.success) {
+      return NextResponse.json(
+        {
+          error: 'Invalid parameters',
+          details: {
+            ...(parsedParams.error && parsedParams.error.flatten().fieldErrors),
+            ...(parsedQuery.error && parsedQuery.error.flatten().fieldErrors),
+          },
+        },
+        { status: 400, headers }
+      );
+    }
+
+    try {
+      const result = await handler({
+        request,
+        params: parsedParams.data,
+        query: parsedQuery.data,
+        user: keyAuth.user,
+      });
+      if (result instanceof NextResponse) {
+        for (const [name, value] of Object.entries(headers)) result.headers.set(name, value);
+        return result;
+      }
+
+      const body = operation.response.safeParse(result);
+      if (!body.success) {
+        console.error(`${operation.operationId} response does not match its schema:`, body.error.issues);
+        return NextResponse.json({ error: 'Failed to build response' }, { status: 500, headers });
+      }
+      return NextResponse.json(body.data, { headers });
+    } catch (error) {
+      console.error(`Error in ${operation.operationId}:`, error);
+      return NextResponse.json({ error: 'Request failed' }, { status: 500, headers });
+    }
+  };
+}
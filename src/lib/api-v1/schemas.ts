@@ -0,0 +1,229 @@
+/**
+ * Request and response schemas of the public /api/v1 surface. Route handlers
+ * validate against them and the OpenAPI document is generated from them, so
+ * the two can't drift apart. Schemas registered in `v1Schemas` become named
+ * components of the document (and types of the generated client).
+ *
+ * Keep this module free of server-only imports: the client generator loads it.
+ */
+
+import { z } from 'zod';
+
+export const v1Schemas = z.registry<{ id: string }>();
+
+function named<T extends z.ZodType>(id: string, schema: T): T {
+  v1Schemas.add(schema, { id });
+  return schema;
+}
+
+// Responses are JSON, so dates are ISO 8601 strings
+const timestamp = z.string().meta({ format: 'date-time' });
+
+/** A query parameter that reads "true" / "false" */
+const queryBoolean = z.stringbool().meta({ type: 'boolean' });
+
+const cursor = z.string().optional().describe('Opaque cursor from the previous page\'s next_cursor');
+
+function pageSize(fallback: number, max: number) {
+  return z.coerce.number().int().min(1).max(max).default(fallback)
+    .describe(`Items per page (default ${fallback}, max ${max})`);
+}
+
+/**
+ * One page of a list. Follow next_cursor until it is null.
+ */
+function list<T extends z.ZodType>(id: string, item: T) {
+  return named(id, z.object({
+    data: z.array(item),
+    next_cursor: z.string().nullable().describe('Pass as ?cursor= for the next page; null on the last page'),
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Resources
+// ---------------------------------------------------------------------------
+
+export const ErrorSchema = named('Error', z.object({
+  error: z.string(),
+  details: z.record(z.string(), z.array(z.string())).optional().describe('Invalid parameters and why'),
+}));
+
+export const BookSchema = named('Book', z.object({
+  id: z.string(),
+  title: z.string().describe('Title in the original language'),
+  display_title: z.string().nullable().describe('English title, when different'),
+  author: z.string(),
+  language: z.string().describe('Language of the original'),
+  published: z.string().describe('Publication date as catalogued, e.g. "1616" or "c. 1530"'),
+  categories: z.array(z.string()),
+  pages_count: z.number().int(),
+  pages_translated: z.number().int(),
+  doi: z.string().nullable().describe('DOI of the current published translation edition'),
+  license: z.string().nullable().describe('SPDX identifier'),
+  thumbnail_url: z.string().nullable(),
+  created_at: timestamp.nullable(),
+  updated_at: timestamp.nullable(),
+}));
+
+export const BookDetailSchema = named('BookDetail', BookSchema.extend({
+  ustc_id: z.string().nullable().describe('Universal Short Title Catalogue number'),
+  place_published: z.string().nullable(),
+  publisher: z.string().nullable(),
+  format: z.string().nullable().describe('Folio, quarto, octavo...'),
+  summary: z.string().nullable(),
+  current_edition_id: z.string().nullable(),
+}));
+
+export const PageTextSchema = named('PageText', z.object({
+  text: z.string(),
+  language: z.string().nullable(),
+  model: z.string().nullable().describe('The AI model that produced the text, unless edited by hand'),
+  updated_at: timestamp.nullable(),
+}));
+
+export const PageSchema = named('Page', z.object({
+  id: z.string(),
+  book_id: z.string(),
+  page_number: z.number().int(),
+  image_url: z.string().nullable(),
+  thumbnail_url: z.string().nullable(),
+  has_ocr: z.boolean(),
+  has_translation: z.boolean(),
+  ocr: PageTextSchema.optional().describe('Included on request'),
+  translation: PageTextSchema.optional().describe('Included on request'),
+}));
+
+export const SearchResultSchema = named('SearchResult', z.object({
+  type: z.enum(['book', 'page']),
+  book_id: z.string(),
+  page_number: z.number().int().nullable(),
+  title: z.string(),
+  display_title: z.string().nullable(),
+  author: z.string(),
+  language: z.string(),
+  published: z.string(),
+  doi: z.string().nullable(),
+  snippet: z.string().nullable().describe('HTML; matched terms are wrapped in <mark>'),
+  snippet_type: z.enum(['translation', 'ocr', 'summary']).nullable(),
+}));
+
+export const GalleryImageSchema = named('GalleryImage', z.object({
+  id: z.string().describe('{page_id}:{index}'),
+  page_id: z.string(),
+  book_id: z.string(),
+  page_number: z.number().int(),
+  index: z.number().int().describe('Position of the image among those detected on the page'),
+  image_url: z.string().nullable().describe('The whole page; crop it with bbox'),
+  bbox: z.object({
+    x: z.number(),
+    y: z.number(),
+    width: z.number(),
+    height: z.number(),
+  }).nullable().describe('Normalized (0-1) bounding box on the page'),
+  type: z.string().nullable().describe('woodcut, engraving, emblem, diagram...'),
+  description: z.string().nullable(),
+  museum_description: z.string().nullable(),
+  gallery_quality: z.number().nullable(),
+  subjects: z.array(z.string()),
+  figures: z.array(z.string()),
+  symbols: z.array(z.string()),
+  book_title: z.string().nullable(),
+  author: z.string().nullable(),
+}));
+
+export const EntitySchema = named('Entity', z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.enum(['person', 'place', 'concept']),
+  aliases: z.array(z.string()),
+  description: z.string().nullable(),
+  wikipedia_url: z.string().nullable(),
+  book_count: z.number().int(),
+  total_mentions: z.number().int(),
+  books: z.array(z.object({
+    book_id: z.string(),
+    book_title: z.string(),
+    pages: z.array(z.number().int()),
+  })),
+}));
+
+export const EditionSchema = named('Edition', z.object({
+  id: z.string(),
+  book_id: z.string(),
+  version: z.string(),
+  version_label: z.string().nullable(),
+  status: z.enum(['draft', 'published', 'superseded']),
+  doi: z.string().nullable(),
+  doi_url: z.string().nullable(),
+  published_at: timestamp.nullable(),
+  page_count: z.number().int(),
+  license: z.string(),
+  contributors: z.array(z.object({
+    name: z.string(),
+    role: z.enum(['translator', 'editor', 'reviewer', 'transcriber']),
+    type: z.enum(['ai', 'human']),
+    orcid: z.string().nullable(),
+  })),
+  citation: z.object({
+    title: z.string(),
+    original_title: z.string(),
+    original_author: z.string(),
+    original_language: z.string(),
+    original_published: z.string().nullable(),
+    target_language: z.string(),
+  }),
+}));
+
+export const BookListSchema = list('BookList', BookSchema);
+export const PageListSchema = list('PageList', PageSchema);
+export const SearchResultListSchema = list('SearchResultList', SearchResultSchema);
+export const GalleryImageListSchema = list('GalleryImageList', GalleryImageSchema);
+export const EntityListSchema = list('EntityList', EntitySchema);
+export const EditionListSchema = list('EditionList', EditionSchema);
+
+// ---------------------------------------------------------------------------
+// Parameters
+// ---------------------------------------------------------------------------
+
+export const IdParamsSchema = z.object({ id: z.string().min(1) });
+
+export const ListBooksQuerySchema = z.object({
+  cursor,
+  limit: pageSize(25, 100),
+  language: z.string().optional().describe('Language of the original, e.g. Latin'),
+  category: z.string().optional(),
+  has_translation: queryBoolean.optional().describe('Only books with at least one translated page'),
+});
+
+export const ListPagesQuerySchema = z.object({
+  cursor,
+  limit: pageSize(50, 100),
+  include_text: queryBoolean.optional().describe('Include the OCR and translation of each page'),
+});
+
+export const SearchQuerySchema = z.object({
+  q: z.string().min(2).describe('Query. Supports "phrases", AND / OR / NOT, -exclusions and prefix*'),
+  cursor,
+  limit: pageSize(20, 100),
+  language: z.string().optional(),
+  category: z.string().optional(),
+  book_id: z.string().optional().describe('Search the pages of one book'),
+  target_language: z.string().optional().describe('Search translations into this language (BCP 47 code, default en)'),
+});
+
+export const GalleryQuerySchema = z.object({
+  cursor,
+  limit: pageSize(50, 100),
+  book_id: z.string().optional(),
+  type: z.string().optional().describe('woodcut, engraving, emblem, diagram...'),
+  subject: z.string().optional(),
+  min_quality: z.coerce.number().min(0).max(1).default(0.5).describe('Minimum gallery quality score (0-1)'),
+});
+
+export const ListEntitiesQuerySchema = z.object({
+  cursor,
+  limit: pageSize(50, 100),
+  type: z.enum(['person', 'place', 'concept']).optional(),
+  q: z.string().optional().describe('Match names and aliases'),
+  book_id: z.string().optional().describe('Entities mentioned in this book'),
+});
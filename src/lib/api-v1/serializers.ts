@@ -0,0 +1,192 @@
+/**
+ * Stored documents as /api/v1 returns them. Fields the schemas mark
+ * nullable are always present (null when unknown), so clients can rely on
+ * the shape.
+ */
+
+import type { ObjectId } from 'mongodb';
+import type { z } from 'zod';
+import type { Book, Page, TranslationEdition } from '@/lib/types';
+import { stripAnnotationTags } from '@/lib/types';
+import type {
+  BookDetailSchema,
+  BookSchema,
+  EditionSchema,
+  EntitySchema,
+  GalleryImageSchema,
+  PageSchema,
+  PageTextSchema,
+} from './schemas';
+
+export function isoDate(value: Date | string | null | undefined): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// Large book fields the v1 serializers don't read
+export const V1_BOOK_PROJECTION = {
+  _id: 0, index: 0, editions: 0, pipeline: 0, reading_summary: 0, reading_sections: 0, split_check: 0,
+} as const;
+
+export function toV1Book(book: Book): z.input<typeof BookSchema> {
+  return {
+    id: book.id,
+    title: book.title,
+    display_title: book.display_title || null,
+    author: book.author || 'Unknown',
+    language: book.language || 'Unknown',
+    published: book.published || 'Unknown',
+    categories: book.categories || [],
+    pages_count: book.pages_count || 0,
+    pages_translated: book.pages_translated || 0,
+    doi: book.doi || null,
+    license: book.license || null,
+    thumbnail_url: book.thumbnail || null,
+    created_at: isoDate(book.created_at),
+    updated_at: isoDate(book.updated_at),
+  };
+}
+
+export function toV1BookDetail(book: Book): z.input<typeof BookDetailSchema> {
+  const summary = typeof book.summary === 'string' ? book.summary : book.summary?.data;
+  return {
+    ...toV1Book(book),
+    ustc_id: book.ustc_id || null,
+    place_published: book.place_published || null,
+    publisher: book.publisher || null,
+    format: book.format || null,
+    summary: summary ? stripAnnotationTags(summary) : null,
+    current_edition_id: book.current_edition_id || null,
+  };
+}
+
+function toV1PageText(
+  text: { data?: string; language?: string; model?: string; source?: string; updated_at?: Date } | undefined
+): z.input<typeof PageTextSchema> {
+  return {
+    text: stripAnnotationTags(text?.data || ''),
+    language: text?.language || null,
+    model: text?.source === 'manual' ? null : text?.model || null,
+    updated_at: isoDate(text?.updated_at),
+  };
+}
+
+// Page fields toV1Page reads (leaving out OCR layout, detections, etc.)
+export const V1_PAGE_PROJECTION = {
+  _id: 0, id: 1, book_id: 1, page_number: 1, photo: 1, thumbnail: 1,
+  'ocr.data': 1, 'ocr.language': 1, 'ocr.model': 1, 'ocr.source': 1, 'ocr.updated_at': 1,
+  'translation.data': 1, 'translation.language': 1, 'translation.model': 1,
+  'translation.source': 1, 'translation.updated_at': 1,
+} as const;
+
+export function toV1Page(page: Page, includeText: boolean): z.input<typeof PageSchema> {
+  return {
+    id: page.id,
+    book_id: page.book_id,
+    page_number: page.page_number,
+    image_url: page.photo || null,
+    thumbnail_url: page.thumbnail || null,
+    has_ocr: Boolean(page.ocr?.data),
+    has_translation: Boolean(page.translation?.data),
+    ...(includeText && {
+      ocr: toV1PageText(page.ocr),
+      translation: toV1PageText(page.translation),
+    }),
+  };
+}
+
+export function toV1Edition(edition: TranslationEdition): z.input<typeof EditionSchema> {
+  return {
+    id: edition.id,
+    book_id: edition.book_id,
+    version: edition.version,
+    version_label: edition.version_label || null,
+    status: edition.status,
+    doi: edition.doi || null,
+    doi_url: edition.doi_url || null,
+    published_at: isoDate(edition.published_at),
+    page_count: edition.page_count,
+    license: edition.license,
+    contributors: (edition.contributors || []).map(c => ({
+      name: c.name,
+      role: c.role,
+      type: c.type,
+      orcid: c.orcid || null,
+    })),
+    citation: {
+      title: edition.citation.title,
+      original_title: edition.citation.original_title,
+      original_author: edition.citation.original_author,
+      original_language: edition.citation.original_language,
+      original_published: edition.citation.original_published || null,
+      target_language: edition.citation.target_language,
+    },
+  };
+}
+
+// Entities are keyed by their ObjectId; see /api/entities
+export interface EntityDocument {
+  _id: ObjectId;
+  name: string;
+  type: 'person' | 'place' | 'concept';
+  aliases?: string[];
+  description?: string;
+  wikipedia_url?: string;
+  books?: Array<{ book_id: string; book_title: string; pages?: number[] }>;
+  total_mentions?: number;
+  book_count?: number;
+}
+
+export function toV1Entity(entity: EntityDocument): z.input<typeof EntitySchema> {
+  return {
+    id: entity._id.toHexString(),
+    name: entity.name,
+    type: entity.type,
+    aliases: entity.aliases || [],
+    description: entity.description || null,
+    wikipedia_url: entity.wikipedia_url || null,
+    book_count: entity.book_count || 0,
+    total_mentions: entity.total_mentions || 0,
+    books: (entity.books || []).map(b => ({ book_id: b.book_id, book_title: b.book_title, pages: b.pages || [] })),
+  };
+}
+
+/**
+ * One detected image, from a page document with `detected_images` unwound
+ * to a single image and its position in `index`.
+ */
+export interface GalleryRow {
+  id: string;
+  book_id: string;
+  page_number: number;
+  photo?: string;
+  photo_original?: string;
+  cropped_photo?: string;
+  index: number;
+  image: NonNullable<Page['detected_images']>[number];
+  book?: Pick<Book, 'title' | 'display_title' | 'author'>;
+}
+
+export function toV1GalleryImage(row: GalleryRow): z.input<typeof GalleryImageSchema> {
+  const { image } = row;
+  return {
+    id: `${row.id}:${row.index}`,
+    page_id: row.id,
+    book_id: row.book_id,
+    page_number: row.page_number,
+    index: row.index,
+    // The scan the detection's bbox was measured on
+    image_url: row.cropped_photo || row.photo_original || row.photo || null,
+    bbox: image.bbox || null,
+    type: image.type || null,
+    description: image.description || null,
+    museum_description: image.museum_description || null,
+    gallery_quality: image.gallery_quality ?? null,
+    subjects: image.metadata?.subjects || [],
+    figures: image.metadata?.figures || [],
+    symbols: image.metadata?.symbols || [],
+    book_title: row.book ? row.book.display_title || row.book.title : null,
+    author: row.book?.author || null,
+  };
+}
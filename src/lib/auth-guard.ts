@@ -0,0 +1,144 @@
+import { timingSafeEqual } from 'crypto';
+import { headers } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { scopeForRole } from '@/lib/api-keys';
+import { authenticateApiKey, type ApiKeyAuth } from '@/lib/api-keys.server';
+import { DEFAULT_ROLE, ROLE_LABELS, hasRole, type Role } from '@/lib/roles';
+
+export interface AuthUser {
+  id: string;
+  name?: string | null;
+  email?: string | null;
+  role: Role;
+  tenant_id?: string;
+}
+
+/**
+ * Cron jobs and server-to-server calls (e.g. a job re-triggering itself)
+ * authenticate with `Authorization: Bearer <CRON_SECRET>` and act as admin.
+ */
+export async function isSystemRequest(): Promise<boolean> {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const authorization = (await headers()).get('authorization') || '';
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(authorization);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * Headers for fetches from one API route to another, so the callee's
+ * requireRole() guard lets the call through. Pass the tenant the work
+ * belongs to so the callee's queries stay within it (see getTenantId).
+ */
+export function internalRequestHeaders(tenantId?: string): Record<string, string> {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return {};
+  return tenantId
+    ? { Authorization: `Bearer ${secret}`, 'x-internal-tenant': tenantId }
+    : { Authorization: `Bearer ${secret}` };
+}
+
+// Resolved once per request, so the rate limit counts each request once
+const apiKeyAuthByRequest = new WeakMap<object, Promise<ApiKeyAuth>>();
+
+/**
+ * The personal API key the request authenticates with, if any (see
+ * authenticateApiKey).
+ */
+export async function getApiKeyAuth(): Promise<ApiKeyAuth> {
+  const headersList = await headers();
+  let resolved = apiKeyAuthByRequest.get(headersList);
+  if (!resolved) {
+    resolved = authenticateApiKey(headersList.get('authorization'));
+    apiKeyAuthByRequest.set(headersList, resolved);
+  }
+  return resolved;
+}
+
+/**
+ * The error to send back when the request carries an API key that can't be
+ * used (unknown, revoked, expired, or over its rate limit or quota), or
+ * null. Routes open to anonymous callers check this so a bad key isn't
+ * silently ignored; requireRole() checks it for the rest.
+ */
+export async function apiKeyError(): Promise<NextResponse | null> {
+  const keyAuth = await getApiKeyAuth();
+  if (keyAuth.status === 'invalid') {
+    return NextResponse.json({ error: 'Invalid or revoked API key' }, { status: 401 });
+  }
+  if (keyAuth.status === 'limited') {
+    const error = keyAuth.reason === 'quota'
+      ? `Daily quota of ${keyAuth.limit} requests exceeded`
+      : `Rate limit of ${keyAuth.limit} requests per minute exceeded`;
+    return NextResponse.json(
+      { error, retry_after: keyAuth.retry_after },
+      { status: 429, headers: { 'Retry-After': String(keyAuth.retry_after) } }
+    );
+  }
+  return null;
+}
+
+/**
+ * The user the current request acts as - the owner of its API key, or the
+ * signed-in user - or null.
+ */
+export async function getAuthUser(): Promise<AuthUser | null> {
+  const keyAuth = await getApiKeyAuth();
+  if (keyAuth.status === 'ok') return keyAuth.user;
+  if (keyAuth.status !== 'none') return null;
+
+  const session = await auth();
+  if (!session?.user?.id) return null;
+
+  return {
+    id: session.user.id,
+    name: session.user.name,
+    email: session.user.email,
+    role: session.user.role || DEFAULT_ROLE,
+    tenant_id: session.user.tenant_id,
+  };
+}
+
+/**
+ * Guard for route handlers. Returns an error response to send back when the
+ * caller lacks `required`, or null when the request may proceed:
+ *
+ *   const denied = await requireRole('editor');
+ *   if (denied) return denied;
+ */
+export async function requireRole(required: Role): Promise<NextResponse | null> {
+  if (await isSystemRequest()) return null;
+
+  const keyDenied = await apiKeyError();
+  if (keyDenied) return keyDenied;
+
+  const user = await getAuthUser();
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Authentication required', required_role: required },
+      { status: 401 }
+    );
+  }
+
+  if (!hasRole(user.role, required)) {
+    return NextResponse.json(
+      { error: `This action requires the ${ROLE_LABELS[required]} role`, required_role: required, role: user.role },
+      { status: 403 }
+    );
+  }
+
+  // An API key also needs the scope for this role, whatever its owner's role
+  const keyAuth = await getApiKeyAuth();
+  const scope = scopeForRole(required);
+  if (keyAuth.status === 'ok' && !keyAuth.key.scopes.includes(scope)) {
+    return NextResponse.json(
+      { error: `This API key lacks the ${scope} scope`, required_scope: scope },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
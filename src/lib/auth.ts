@@ -2,13 +2,75 @@ import NextAuth from 'next-auth';
 import Google from 'next-auth/providers/google';
 import GitHub from 'next-auth/providers/github';
 import { MongoDBAdapter } from '@auth/mongodb-adapter';
-import { MongoClient } from 'mongodb';
+import { MongoClient, ObjectId, type Db } from 'mongodb';
+import { DEFAULT_ROLE, isRole, type Role } from '@/lib/roles';
+import { isTenantId } from '@/lib/tenant';
+
+declare module 'next-auth' {
+  interface User {
+    role?: Role;
+    tenant_id?: string;
+  }
+}
 
 const uri = process.env.MONGODB_URI!;
 
-// Create a MongoClient promise for the adapter
+// Left unconnected: the driver connects on first use, so importing this
+// module (e.g. from a test) neither opens a connection nor leaves a failed
+// connect() promise unhandled
 const client = new MongoClient(uri);
-const clientPromise = client.connect().then(() => client);
+
+// Roles and tenants are re-read from the user record this often, so changes
+// reach existing sessions without a sign-out
+const ROLE_REFRESH_MS = 5 * 60 * 1000;
+
+// Comma-separated emails that are always admins (bootstraps the first admin)
+const ADMIN_EMAILS = (process.env.ADMIN_EMAILS || '')
+  .split(',')
+  .map(email => email.trim().toLowerCase())
+  .filter(Boolean);
+
+// Set by setUsersDatabase() to read users from somewhere else
+let usersDb: Db | null = null;
+
+/**
+ * Serve getUsersCollection() from an existing database instead of the
+ * adapter's connection, e.g. the in-memory database the tests run against.
+ */
+export function setUsersDatabase(db: Db): void {
+  usersDb = db;
+}
+
+/**
+ * The `users` collection maintained by the NextAuth adapter. The role is
+ * stored on the user document as `role`, and staff of a partner library
+ * carry that library's `tenant_id`.
+ */
+export async function getUsersCollection() {
+  return (usersDb ?? client.db()).collection('users');
+}
+
+/**
+ * A user's current role and tenant, read from their user record (admins
+ * listed in ADMIN_EMAILS are always admin).
+ */
+export async function loadUserAccess(
+  userId: string,
+  email?: string | null
+): Promise<{ role: Role; tenant_id?: string }> {
+  const user = ObjectId.isValid(userId)
+    ? await (await getUsersCollection()).findOne(
+      { _id: new ObjectId(userId) },
+      { projection: { role: 1, tenant_id: 1 } }
+    )
+    : null;
+
+  const isAdmin = !!email && ADMIN_EMAILS.includes(email.toLowerCase());
+  return {
+    role: isAdmin ? 'admin' : isRole(user?.role) ? user.role : DEFAULT_ROLE,
+    tenant_id: isTenantId(user?.tenant_id) ? user.tenant_id : undefined,
+  };
+}
 
 // Build providers array based on what's configured
 const providers = [];
@@ -26,7 +88,7 @@ if (process.env.GITHUB_CLIENT_ID && process.env.GITHUB_CLIENT_SECRET) {
 }
 
 export const { handlers, signIn, signOut, auth } = NextAuth({
-  adapter: MongoDBAdapter(clientPromise),
+  adapter: MongoDBAdapter(client),
   providers,
   // AUTH_SECRET is required in production - must be set in Vercel env vars
   secret: process.env.AUTH_SECRET,
@@ -41,11 +103,25 @@ export const { handlers, signIn, signOut, auth } = NextAuth({
       if (user) {
         token.id = user.id;
       }
+      const checkedAt = typeof token.role_checked_at === 'number' ? token.role_checked_at : 0;
+      if (token.id && (user || Date.now() - checkedAt > ROLE_REFRESH_MS)) {
+        try {
+          const access = await loadUserAccess(token.id as string, token.email);
+          token.role = access.role;
+          token.tenant_id = access.tenant_id;
+          token.role_checked_at = Date.now();
+        } catch (error) {
+          // Keep the previous role; the lookup is retried on the next request
+          console.error('[auth] Failed to load user role:', error);
+        }
+      }
       return token;
     },
     async session({ session, token }) {
       if (session.user && token.id) {
         session.user.id = token.id as string;
+        session.user.role = isRole(token.role) ? token.role : DEFAULT_ROLE;
+        session.user.tenant_id = isTenantId(token.tenant_id) ? token.tenant_id : undefined;
       }
       return session;
     },
@@ -0,0 +1,659 @@
+/**
+ * Machine-readable bibliographic records, so catalogers and reference
+ * managers can import our metadata instead of retyping it.
+ *
+ * Two works can be described for every book: the original printed edition
+ * (title, author, place, printer, format, USTC number) and Source Library's
+ * translation of it (a published TranslationEdition with its DOI,
+ * contributors and license). MARCXML covers both; CSL-JSON covers both and
+ * single pages, and BibTeX and RIS are derived from the CSL items so the
+ * three citation formats never disagree.
+ *
+ * MARC 21: https://www.loc.gov/marc/bibliographic/
+ * MARCXML: https://www.loc.gov/standards/marcxml/
+ */
+
+import { LIBRARY_CATEGORIES } from '@/app/api/categories/route';
+import { getShortUrl } from './shortlinks';
+import { escapeXml, LICENSE_URLS } from './tei';
+import { DEFAULT_TARGET_LANGUAGE, editionLanguage } from './translation-languages';
+import { getLanguageCodes } from './types';
+import type {
+  BibliographicFormat,
+  BibliographicRecordType,
+  Book,
+  Contributor,
+  CslDate,
+  CslItem,
+  CslName,
+  TranslationEdition,
+} from './types';
+
+const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL || 'https://sourcelibrary.org';
+const PUBLISHER = 'Source Library';
+
+export const BIBLIOGRAPHIC_FORMATS: Record<BibliographicFormat, { contentType: string; extension: string }> = {
+  marcxml: { contentType: 'application/marcxml+xml; charset=utf-8', extension: 'xml' },
+  bibtex: { contentType: 'application/x-bibtex; charset=utf-8', extension: 'bib' },
+  ris: { contentType: 'application/x-research-info-systems; charset=utf-8', extension: 'ris' },
+  'csl-json': { contentType: 'application/vnd.citationstyles.csl+json; charset=utf-8', extension: 'json' },
+};
+
+export function isBibliographicFormat(value: string | null): value is BibliographicFormat {
+  return !!value && value in BIBLIOGRAPHIC_FORMATS;
+}
+
+/**
+ * The edition a translation record describes: the book's current edition,
+ * or else its latest published English one.
+ */
+export function currentEdition(book: Pick<Book, 'editions' | 'current_edition_id'>): TranslationEdition | undefined {
+  const published = (book.editions || []).filter(e => e.status === 'published' && editionLanguage(e) === DEFAULT_TARGET_LANGUAGE);
+  return published.find(e => e.id === book.current_edition_id) || published[published.length - 1];
+}
+
+// ============================================
+// SHARED HELPERS
+// ============================================
+
+function bookUrl(book: Book): string {
+  return `${BASE_URL}/book/${book.id}`;
+}
+
+function bookDescription(book: Book): string | undefined {
+  if (book.dublin_core?.dc_description) return book.dublin_core.dc_description;
+  return typeof book.summary === 'string' ? book.summary : book.summary?.data;
+}
+
+function subjects(book: Book): string[] {
+  const categories = (book.categories || []).map(id => LIBRARY_CATEGORIES.find(c => c.id === id)?.name || id);
+  return [...new Set([...(book.dublin_core?.dc_subject || []), ...categories])];
+}
+
+function publisherOf(book: Book): string | undefined {
+  return book.dublin_core?.dc_publisher || book.publisher;
+}
+
+function extentOf(book: Book): string | undefined {
+  return book.dublin_core?.dc_format || (book.pages_count ? `${book.pages_count} pages` : undefined);
+}
+
+/**
+ * Split "Lastname, Firstname" into family and given names. Names without a
+ * comma ("Paracelsus", "Thomas Aquinas") are kept whole, since guessing the
+ * family name of an early modern author is usually wrong.
+ */
+export function parseName(name: string): CslName {
+  const [family, ...rest] = name.split(',').map(part => part.trim());
+  const given = rest.join(', ');
+  return family && given ? { family, given } : { literal: name.trim() };
+}
+
+function names(value: string | undefined): CslName[] | undefined {
+  const parsed = (value || '').split(';').map(name => name.trim()).filter(Boolean).map(parseName);
+  return parsed.length > 0 ? parsed : undefined;
+}
+
+function year(published: string | undefined): number | undefined {
+  const match = published?.match(/\b(\d{4})\b/);
+  return match ? Number(match[1]) : undefined;
+}
+
+function printedDate(published: string | undefined): CslDate | undefined {
+  if (!published?.trim()) return undefined;
+  return /^\d{4}$/.test(published.trim())
+    ? { 'date-parts': [[Number(published.trim())]] }
+    : { literal: published.trim() };
+}
+
+function dayDate(date: Date | string): CslDate {
+  const d = new Date(date);
+  return { 'date-parts': [[d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate()]] };
+}
+
+function contributorNames(contributors: Contributor[], role: Contributor['role']): CslName[] {
+  return contributors
+    .filter(c => c.role === role && c.type === 'human')
+    .map(c => parseName(c.name));
+}
+
+// ============================================
+// CSL-JSON
+// ============================================
+
+export interface CitationOptions {
+  record: BibliographicRecordType;
+  edition?: TranslationEdition;
+  page?: { page_number: number; id?: string };
+}
+
+/**
+ * CSL-JSON item for a book, its translation, or one page of either.
+ * A translation without a published edition is cited as a work in progress,
+ * with an access date instead of a publication date.
+ */
+export function bookToCsl(book: Book, { record, edition, page }: CitationOptions): CslItem {
+  const language = getLanguageCodes(book.language);
+  const ustc = book.ustc_id ? `USTC ${book.ustc_id}` : undefined;
+  const keyword = subjects(book).join(', ') || undefined;
+  const url = page ? getShortUrl(book.id, page.page_number, page.id) : bookUrl(book);
+  const id = [book.id, record === 'translation' && 'translation', page && `p${page.page_number}`].filter(Boolean).join('-');
+
+  let item: CslItem;
+  if (record === 'original') {
+    item = {
+      id,
+      type: 'book',
+      title: book.title,
+      author: names(book.author),
+      issued: printedDate(book.published),
+      publisher: publisherOf(book),
+      'publisher-place': book.place_published,
+      language: language?.bcp47,
+      medium: book.format,
+      'number-of-pages': book.pages_count,
+      DOI: book.doi,
+      URL: url,
+      license: book.image_source?.license,
+      abstract: bookDescription(book),
+      keyword,
+      note: ustc,
+    };
+  } else {
+    const translators = edition ? contributorNames(edition.contributors, 'translator') : [];
+    const editors = edition ? contributorNames(edition.contributors, 'editor') : [];
+    item = {
+      id,
+      type: 'book',
+      title: edition?.citation.title || book.display_title || book.title,
+      'original-title': book.title,
+      author: names(edition?.citation.original_author || book.author),
+      translator: translators.length > 0 ? translators : [{ literal: PUBLISHER }],
+      editor: editors.length > 0 ? editors : undefined,
+      ...(edition?.published_at ? { issued: dayDate(edition.published_at) } : { accessed: dayDate(new Date()) }),
+      'original-date': printedDate(edition?.citation.original_published || book.published),
+      publisher: PUBLISHER,
+      'original-publisher': publisherOf(book),
+      'original-publisher-place': book.place_published,
+      language: edition?.citation.target_language || 'en',
+      'number-of-pages': edition?.page_count,
+      version: edition?.version,
+      DOI: edition?.doi,
+      URL: url,
+      license: edition?.license,
+      keyword,
+      note: ustc && `Translation of the edition catalogued as ${ustc}`,
+    };
+  }
+
+  if (page) item.page = String(page.page_number);
+  return Object.fromEntries(Object.entries(item).filter(([, value]) => value !== undefined)) as CslItem;
+}
+
+function nameText(name: CslName): string {
+  return name.literal || [name.family, name.given].filter(Boolean).join(', ');
+}
+
+function dateYear(date: CslDate | undefined): number | undefined {
+  return date?.['date-parts']?.[0][0] ?? year(date?.literal);
+}
+
+function dateParts(date: CslDate | undefined): number[] | undefined {
+  return date?.['date-parts']?.[0].filter((part): part is number => part !== undefined);
+}
+
+// ============================================
+// BIBTEX
+// ============================================
+
+function bibtexEscape(value: string): string {
+  return value
+    .replace(/\\/g, '\\textbackslash{}')
+    .replace(/([{}&%$#_])/g, '\\$1')
+    .replace(/~/g, '\\textasciitilde{}')
+    .replace(/\^/g, '\\textasciicircum{}')
+    .replace(/\s+/g, ' ');
+}
+
+// Braces keep undivided names and corporate names from being split
+function bibtexNames(list: CslName[] | undefined): string | undefined {
+  if (!list?.length) return undefined;
+  return list.map(name => name.literal ? `{${bibtexEscape(name.literal)}}` : bibtexEscape(nameText(name))).join(' and ');
+}
+
+function bibtexKeyBase(item: CslItem): string {
+  const first = item.author?.[0];
+  const surname = first?.family || first?.literal?.split(/\s+/).pop() || 'anon';
+  const ascii = surname.normalize('NFD').replace(/[^A-Za-z]/g, '').toLowerCase() || 'anon';
+  const when = dateYear(item.issued) ?? dateYear(item['original-date']) ?? 'nd';
+  return `${ascii}${when}${item.page ? `p${item.page}` : ''}`;
+}
+
+/**
+ * BibTeX entries (biblatex field names where classic BibTeX has none, e.g.
+ * translator and origtitle). Keys are author + year, suffixed a, b, ... when
+ * several items share one.
+ */
+export function cslToBibtex(items: CslItem[]): string {
+  const bases = items.map(bibtexKeyBase);
+  const totals = new Map<string, number>();
+  for (const base of bases) totals.set(base, (totals.get(base) || 0) + 1);
+  const used = new Map<string, number>();
+
+  return items.map((item, index) => {
+    const base = bases[index];
+    const n = used.get(base) || 0;
+    used.set(base, n + 1);
+    const key = totals.get(base)! > 1 ? `${base}${String.fromCharCode(97 + n)}` : base;
+    const issued = dateParts(item.issued);
+    const accessed = dateParts(item.accessed);
+    const fields: Array<[string, string | number | undefined]> = [
+      ['author', bibtexNames(item.author)],
+      ['translator', bibtexNames(item.translator)],
+      ['editor', bibtexNames(item.editor)],
+      ['title', `{${bibtexEscape(item.title)}}`],
+      ['origtitle', item['original-title'] && `{${bibtexEscape(item['original-title'])}}`],
+      ['year', issued?.[0] ?? (item.issued?.literal && bibtexEscape(item.issued.literal))],
+      ['month', issued?.[1]],
+      ['origdate', dateYear(item['original-date'])],
+      ['publisher', item.publisher && bibtexEscape(item.publisher)],
+      ['address', item['publisher-place'] && bibtexEscape(item['publisher-place'])],
+      ['origpublisher', item['original-publisher'] && bibtexEscape(item['original-publisher'])],
+      ['origlocation', item['original-publisher-place'] && bibtexEscape(item['original-publisher-place'])],
+      ['language', item.language],
+      ['version', item.version],
+      ['pagetotal', item['number-of-pages']],
+      ['pages', item.page],
+      ['howpublished', item.medium && bibtexEscape(item.medium)],
+      ['doi', item.DOI],
+      ['url', item.URL],
+      ['urldate', accessed?.map(part => String(part).padStart(2, '0')).join('-')],
+      ['keywords', item.keyword && bibtexEscape(item.keyword)],
+      ['note', item.note && bibtexEscape(item.note)],
+    ];
+    const body = fields
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([name, value]) => `  ${name} = {${value}}`)
+      .join(',\n');
+    return `@book{${key},\n${body}\n}`;
+  }).join('\n\n') + '\n';
+}
+
+// ============================================
+// RIS
+// ============================================
+
+function risDate(date: CslDate | undefined): string | undefined {
+  const parts = dateParts(date);
+  if (!parts) return undefined;
+  const [y, m, d] = parts;
+  return `${y}/${m ? String(m).padStart(2, '0') : ''}/${d ? String(d).padStart(2, '0') : ''}/`;
+}
+
+/**
+ * RIS records, as read by Zotero, EndNote and Mendeley.
+ * See: https://en.wikipedia.org/wiki/RIS_(file_format)
+ */
+export function cslToRis(items: CslItem[]): string {
+  return items.map(item => {
+    const tags: Array<[string, string | number | undefined]> = [
+      ['TY', 'BOOK'],
+      ['TI', item.title],
+      ['OP', item['original-title']],
+      ...(item.author || []).map(name => ['AU', nameText(name)] as [string, string]),
+      ...(item.translator || []).map(name => ['A4', nameText(name)] as [string, string]),
+      ...(item.editor || []).map(name => ['ED', nameText(name)] as [string, string]),
+      ['PY', dateYear(item.issued)],
+      ['DA', risDate(item.issued) ?? item.issued?.literal],
+      ['Y2', risDate(item.accessed)],
+      ['PB', item.publisher],
+      ['CY', item['publisher-place']],
+      ['LA', item.language],
+      ['ET', item.version],
+      ['M3', item.medium],
+      ['SP', item.page ?? item['number-of-pages']],
+      ['DO', item.DOI],
+      ['UR', item.URL],
+      ...(item.keyword?.split(', ') || []).map(keyword => ['KW', keyword] as [string, string]),
+      ['AB', item.abstract],
+      ['N1', [item.note, item['original-publisher-place'] && item['original-publisher']
+        ? `Originally published ${item['original-publisher-place']}: ${item['original-publisher']}`
+        : undefined].filter(Boolean).join('. ') || undefined],
+    ];
+    return [
+      ...tags
+        .filter(([, value]) => value !== undefined && value !== '')
+        .map(([tag, value]) => `${tag}  - ${String(value).replace(/\s+/g, ' ')}`),
+      'ER  - ',
+    ].join('\r\n');
+  }).join('\r\n\r\n') + '\r\n';
+}
+
+// ============================================
+// MARC 21
+// ============================================
+
+type MarcField =
+  | { tag: string; value: string }
+  | { tag: string; ind1: string; ind2: string; subfields: Array<[string, string | number | undefined]> };
+
+export interface MarcRecord {
+  leader: string;
+  fields: MarcField[];
+}
+
+// Record length and base address are computed by ISO 2709 writers; ISBD
+// punctuation is omitted (Leader/18 = c), minimal level (Leader/17 = 7)
+const LEADER = '00000nam a22000007c 4500';
+
+function marcDate(date: Date | string | undefined): string {
+  return new Date(date || Date.now()).toISOString().replace(/[-:T]/g, '').slice(0, 14) + '.0';
+}
+
+/**
+ * 008 fixed-length data elements for books: date entered, dates of
+ * publication, place (unknown, we keep cities not MARC country codes),
+ * form of item (o = online) and language.
+ */
+function field008(entered: Date | string | undefined, published: string | undefined, language: string, online: boolean): string {
+  const yymmdd = new Date(entered || Date.now()).toISOString().slice(2, 10).replace(/-/g, '');
+  const exact = published?.trim().match(/^\d{4}$/);
+  const found = year(published);
+  const dates = exact ? `s${exact[0]}    ` : found ? `q${found}${found}` : 'nuuuuuuuu';
+  const books = `     ${online ? 'o' : ' '}     000 0 `;
+  return `${yymmdd}${dates}xx ${books}${language.padEnd(3).slice(0, 3)} d`;
+}
+
+function datafield(tag: string, ind1: string, ind2: string, ...subfields: Array<[string, string | number | undefined]>): MarcField[] {
+  const present = subfields.filter(([, value]) => value !== undefined && value !== '');
+  return present.length > 0 ? [{ tag, ind1, ind2, subfields: present }] : [];
+}
+
+// 1 = surname first ("Drebbel, Cornelis"), 0 = forename or undivided name
+function nameIndicator(name: string): string {
+  return name.includes(',') ? '1' : '0';
+}
+
+function contentTypes(online: boolean): MarcField[] {
+  return [
+    ...datafield('336', ' ', ' ', ['a', 'text'], ['b', 'txt'], ['2', 'rdacontent']),
+    ...(online
+      ? [
+        ...datafield('337', ' ', ' ', ['a', 'computer'], ['b', 'c'], ['2', 'rdamedia']),
+        ...datafield('338', ' ', ' ', ['a', 'online resource'], ['b', 'cr'], ['2', 'rdacarrier']),
+      ]
+      : [
+        ...datafield('337', ' ', ' ', ['a', 'unmediated'], ['b', 'n'], ['2', 'rdamedia']),
+        ...datafield('338', ' ', ' ', ['a', 'volume'], ['b', 'nc'], ['2', 'rdacarrier']),
+      ]),
+  ];
+}
+
+function licenseField(license: string | undefined, url?: string): MarcField[] {
+  return license ? datafield('540', ' ', ' ', ['a', license], ['u', LICENSE_URLS[license] || url]) : [];
+}
+
+/**
+ * MARC record for the original printed work, as digitized in the library.
+ */
+export function bookToMarc(book: Book): MarcRecord {
+  const language = getLanguageCodes(book.language);
+  const author = book.author?.trim();
+
+  const fields: MarcField[] = [
+    { tag: '001', value: book.id },
+    { tag: '005', value: marcDate(book.updated_at || book.created_at) },
+    { tag: '008', value: field008(book.created_at, book.published, language?.marc || 'und', false) },
+    ...(book.doi ? datafield('024', '7', ' ', ['a', book.doi], ['2', 'doi']) : []),
+    ...(language ? datafield('041', '0', ' ', ['a', language.marc]) : []),
+    ...(author ? datafield('100', nameIndicator(author), ' ', ['a', author], ['e', 'author']) : []),
+    ...datafield('245', author ? '1' : '0', '0', ['a', book.title]),
+    ...(book.display_title && book.display_title !== book.title
+      ? datafield('246', '1', ' ', ['i', 'English title:'], ['a', book.display_title])
+      : []),
+    ...datafield('264', ' ', '1', ['a', book.place_published], ['b', publisherOf(book)], ['c', book.published]),
+    ...datafield('300', ' ', ' ', ['a', extentOf(book)], ['c', book.format]),
+    ...contentTypes(false),
+    ...(book.ustc_id
+      ? datafield('510', '4', ' ',
+        ['a', 'Universal Short Title Catalogue'],
+        ['c', book.ustc_id],
+        ['u', `https://www.ustc.ac.uk/editions/${book.ustc_id}`])
+      : []),
+    ...datafield('520', ' ', ' ', ['a', bookDescription(book)]),
+    ...licenseField(book.image_source?.license, book.image_source?.license_url),
+    ...datafield('546', ' ', ' ', ['a', book.language]),
+    ...subjects(book).flatMap(subject => datafield('653', ' ', ' ', ['a', subject])),
+    ...(book.dublin_core?.dc_contributor || []).flatMap(name => datafield('720', ' ', ' ', ['a', name], ['e', 'contributor'])),
+    ...datafield('856', '4', '1', ['u', bookUrl(book)], ['z', 'Digitized copy with transcription and English translation']),
+    ...datafield('856', '4', '1', ['u', book.image_source?.source_url], ['z', book.image_source?.provider_name && `Scans from ${book.image_source.provider_name}`]),
+  ];
+  return { leader: LEADER, fields };
+}
+
+/**
+ * MARC record for a published translation edition, linked to the original
+ * through the uniform title (240) and an original version note (534).
+ */
+export function editionToMarc(book: Book, edition: TranslationEdition): MarcRecord {
+  const citation = edition.citation;
+  const target = getLanguageCodes(citation.target_language) || getLanguageCodes('English');
+  const source = getLanguageCodes(citation.original_language || book.language);
+  const author = (citation.original_author || book.author)?.trim();
+  const published = edition.published_at ? String(new Date(edition.published_at).getUTCFullYear()) : undefined;
+  const originalImprint = [
+    [book.place_published, publisherOf(book)].filter(Boolean).join(' : '),
+    citation.original_published || book.published,
+  ].filter(Boolean).join(', ');
+
+  const fields: MarcField[] = [
+    { tag: '001', value: edition.id },
+    { tag: '005', value: marcDate(edition.published_at || edition.created_at) },
+    { tag: '007', value: 'cr |||||||||||' },
+    { tag: '008', value: field008(edition.created_at, published, target?.marc || 'eng', true) },
+    ...(edition.doi ? datafield('024', '7', ' ', ['a', edition.doi], ['2', 'doi']) : []),
+    ...datafield('041', '1', ' ', ['a', target?.marc], ['h', source?.marc]),
+    ...(author ? datafield('100', nameIndicator(author), ' ', ['a', author], ['e', 'author']) : []),
+    ...datafield('240', '1', '0', ['a', citation.original_title || book.title], ['l', 'English']),
+    ...datafield('245', author ? '1' : '0', '0', ['a', citation.title], ['c', `translated by ${PUBLISHER}`]),
+    ...datafield('250', ' ', ' ', ['a', `Version ${edition.version}`], ['b', edition.version_label]),
+    ...datafield('264', ' ', '1', ['b', PUBLISHER], ['c', published]),
+    ...datafield('300', ' ', ' ', ['a', `1 online resource (${edition.page_count} pages)`]),
+    ...contentTypes(true),
+    ...datafield('534', ' ', ' ',
+      ['p', 'Translation of:'],
+      ['a', author],
+      ['t', citation.original_title || book.title],
+      ['c', originalImprint || undefined],
+      ['n', book.ustc_id && `USTC ${book.ustc_id}`]),
+    ...licenseField(edition.license),
+    ...datafield('546', ' ', ' ', ['a', `Text in English, translated from ${citation.original_language || book.language}`]),
+    ...subjects(book).flatMap(subject => datafield('653', ' ', ' ', ['a', subject])),
+    ...edition.contributors.flatMap(contributor => contributor.type === 'human'
+      ? datafield('700', nameIndicator(contributor.name), ' ',
+        ['a', contributor.name],
+        ['e', contributor.role],
+        ['u', contributor.affiliation],
+        ['1', contributor.orcid && `https://orcid.org/${contributor.orcid}`])
+      : datafield('720', ' ', ' ', ['a', contributor.model ? `${contributor.name} (${contributor.model})` : contributor.name], ['e', contributor.role])),
+    ...datafield('856', '4', '0', ['u', edition.doi_url || (edition.doi && `https://doi.org/${edition.doi}`)], ['z', 'DOI']),
+    ...datafield('856', '4', '0', ['u', bookUrl(book)]),
+  ];
+  return { leader: LEADER, fields };
+}
+
+/**
+ * MARCXML collection (MARC 21 slim schema) of one or more records
+ */
+export function toMarcXml(records: MarcRecord[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<collection xmlns="http://www.loc.gov/MARC21/slim" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.loc.gov/MARC21/slim http://www.loc.gov/standards/marcxml/schema/MARC21slim.xsd">',
+  ];
+  for (const record of records) {
+    lines.push('  <record>', `    <leader>${record.leader}</leader>`);
+    for (const field of record.fields) {
+      if ('value' in field) {
+        lines.push(`    <controlfield tag="${field.tag}">${escapeXml(field.value)}</controlfield>`);
+        continue;
+      }
+      lines.push(`    <datafield tag="${field.tag}" ind1="${field.ind1}" ind2="${field.ind2}">`);
+      for (const [code, value] of field.subfields) {
+        lines.push(`      <subfield code="${code}">${escapeXml(String(value))}</subfield>`);
+      }
+      lines.push('    </datafield>');
+    }
+    lines.push('  </record>');
+  }
+  lines.push('</collection>');
+  return lines.join('\n') + '\n';
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+/**
+ * Records for many books in one format, for bulk export. Translation
+ * records describe each book's current edition; in MARC, which catalogues
+ * only published works, books without one are left out.
+ */
+export function exportRecords(books: Book[], format: BibliographicFormat, record: BibliographicRecordType): string {
+  if (format === 'marcxml') {
+    return toMarcXml(books.flatMap(book => {
+      if (record === 'original') return [bookToMarc(book)];
+      const edition = currentEdition(book);
+      return edition ? [editionToMarc(book, edition)] : [];
+    }));
+  }
+
+  return formatCsl(books.map(book => bookToCsl(book, {
+    record,
+    edition: record === 'translation' ? currentEdition(book) : undefined,
+  })), format);
+}
+
+/**
+ * CSL items as CSL-JSON, BibTeX or RIS
+ */
+export function formatCsl(items: CslItem[], format: Exclude<BibliographicFormat, 'marcxml'>): string {
+  if (format === 'bibtex') return cslToBibtex(items);
+  if (format === 'ris') return cslToRis(items);
+  return JSON.stringify(items, null, 2);
+}
+
+// ============================================
+// EMBEDDED METADATA
+// ============================================
+// What reference managers read from our HTML pages: Highwire Press
+// citation_* meta tags, COinS spans and unAPI identifiers.
+
+export const UNAPI_PATH = '/api/unapi';
+
+export interface UnapiTarget {
+  bookId: string;
+  record: BibliographicRecordType;
+  pageNumber?: number;
+}
+
+/**
+ * unAPI identifier of a book, its translation or one page of either:
+ * "<book id>", "<book id>:translation", "<book id>:translation:p12"
+ */
+export function unapiId({ bookId, record, pageNumber }: UnapiTarget): string {
+  return [bookId, record === 'translation' && 'translation', pageNumber && `p${pageNumber}`].filter(Boolean).join(':');
+}
+
+export function parseUnapiId(id: string): UnapiTarget | null {
+  const match = id.match(/^([\w-]+)(:translation)?(?::p(\d+))?$/);
+  if (!match) return null;
+  return {
+    bookId: match[1],
+    record: match[2] ? 'translation' : 'original',
+    ...(match[3] && { pageNumber: Number(match[3]) }),
+  };
+}
+
+function slashDate(date: CslDate | undefined): string | undefined {
+  const parts = dateParts(date);
+  if (parts) return parts.map((part, i) => i === 0 ? String(part) : String(part).padStart(2, '0')).join('/');
+  const found = year(date?.literal);
+  return found ? String(found) : undefined;
+}
+
+/**
+ * Highwire Press citation_* tags (read by Zotero and Google Scholar), with
+ * Dublin Core for what Highwire cannot say: translators, and the original
+ * work a translation was made from. Shaped for Next.js `metadata.other`.
+ */
+export function cslToHighwire(item: CslItem): Record<string, string | string[]> {
+  const original = item['original-title'] && [
+    item['original-title'],
+    [item['original-publisher-place'], item['original-publisher']].filter(Boolean).join(': '),
+    slashDate(item['original-date']),
+  ].filter(Boolean).join(', ');
+
+  const tags: Record<string, string | string[] | undefined> = {
+    citation_title: item.title,
+    citation_author: item.author?.map(nameText),
+    citation_editor: item.editor?.map(nameText),
+    citation_publication_date: slashDate(item.issued),
+    citation_publisher: item.publisher,
+    citation_language: item.language,
+    citation_doi: item.DOI,
+    citation_firstpage: item.page,
+    citation_lastpage: item.page,
+    citation_public_url: item.URL,
+    citation_keywords: item.keyword?.split(', '),
+    'DC.contributor': item.translator?.map(nameText),
+    'DC.source': original || undefined,
+    'DC.rights': item.license && (LICENSE_URLS[item.license] || item.license),
+  };
+  return Object.fromEntries(
+    Object.entries(tags).filter((entry): entry is [string, string | string[]] =>
+      entry[1] !== undefined && entry[1].length > 0)
+  );
+}
+
+/**
+ * Highwire tags for a reader page. A page holds one set of citation_* tags,
+ * so they describe the translation when there is one (its current edition,
+ * with DOI), else the original; DC.source names the original.
+ */
+export function highwireTags(
+  book: Book,
+  { hasTranslation, page }: { hasTranslation: boolean; page?: CitationOptions['page'] }
+): Record<string, string | string[]> {
+  return cslToHighwire(hasTranslation
+    ? bookToCsl(book, { record: 'translation', edition: currentEdition(book), page })
+    : bookToCsl(book, { record: 'original', page }));
+}
+
+/**
+ * OpenURL ContextObject (Z39.88-2004, KEV book format) for a COinS span:
+ * <span class="Z3988" title="...">
+ */
+export function cslToCoins(item: CslItem): string {
+  const first = item.author?.[0];
+  const pairs: Array<[string, string | number | undefined]> = [
+    ['ctx_ver', 'Z39.88-2004'],
+    ['rft_val_fmt', 'info:ofi/fmt:kev:mtx:book'],
+    ['rft_id', item.DOI && `info:doi/${item.DOI}`],
+    ['rft_id', item.URL],
+    ['rft.genre', 'book'],
+    ['rft.btitle', item.title],
+    ['rft.aulast', first?.family],
+    ['rft.aufirst', first?.given],
+    ...(item.author || []).map(name => ['rft.au', nameText(name)] as [string, string]),
+    ['rft.date', dateYear(item.issued) ?? item.issued?.literal],
+    ['rft.pub', item.publisher],
+    ['rft.place', item['publisher-place']],
+    ['rft.edition', item.version],
+    ['rft.tpages', item['number-of-pages']],
+    ['rft.pages', item.page],
+  ];
+  return pairs
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([key, value]) => `${key}=${encodeURIComponent(String(value))}`)
+    .join('&');
+}
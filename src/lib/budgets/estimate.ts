@@ -0,0 +1,121 @@
+/**
+ * Pre-flight cost estimates for OCR and translation runs.
+ *
+ * A run costs pages × tokens per page at the model's price (calculateCost,
+ * from MODEL_PRICING for Gemini), halved for the Batch API. Tokens per page
+ * are averaged from pages this library has already processed in the same
+ * language; with too few of those, a per-language default is used.
+ */
+
+import type { Db } from 'mongodb';
+import { calculateCost } from '@/lib/ai';
+import { DEFAULT_MODEL, type CostEstimate, type Page } from '@/lib/types';
+
+// Gemini Batch API jobs are billed at half price
+export const BATCH_API_DISCOUNT = 0.5;
+
+// Processed pages averaged per estimate, most recent first
+const HISTORY_SAMPLE = 200;
+// Below this many processed pages, trust the defaults instead
+const MIN_HISTORY = 5;
+
+interface TokensPerPage {
+  input: number;
+  output: number;
+}
+
+// OCR input is the page image (~1,300 tokens) plus the prompt; output is the
+// transcription, which costs more tokens in non-Latin scripts
+const OCR_TOKENS: Record<string, TokensPerPage> = {
+  default: { input: 2200, output: 900 },
+  greek: { input: 2200, output: 1500 },
+  hebrew: { input: 2200, output: 1400 },
+  arabic: { input: 2200, output: 1400 },
+  syriac: { input: 2200, output: 1500 },
+  chinese: { input: 2200, output: 1200 },
+  sanskrit: { input: 2200, output: 1600 },
+};
+
+// Translation input is the prompt, the transcription and the previous page
+const TRANSLATION_TOKENS: Record<string, TokensPerPage> = {
+  default: { input: 2400, output: 1000 },
+  greek: { input: 3000, output: 1000 },
+  hebrew: { input: 2900, output: 1000 },
+  arabic: { input: 2900, output: 1000 },
+  syriac: { input: 3000, output: 1000 },
+  chinese: { input: 2600, output: 1300 },
+  sanskrit: { input: 3100, output: 1000 },
+};
+
+export interface EstimateInput {
+  action: 'ocr' | 'translation';
+  pages: number;
+  model?: string;
+  language?: string;
+  batchApi?: boolean;
+}
+
+function defaultTokens(action: EstimateInput['action'], language: string): TokensPerPage {
+  const table = action === 'ocr' ? OCR_TOKENS : TRANSLATION_TOKENS;
+  return table[language.toLowerCase()] || table.default;
+}
+
+/**
+ * Average tokens per page of recent AI runs of this action and language.
+ */
+async function historicalTokens(
+  db: Db,
+  action: EstimateInput['action'],
+  language: string
+): Promise<{ tokens: TokensPerPage; samples: number }> {
+  const field = action === 'ocr' ? 'ocr' : 'translation';
+  const languageField = action === 'ocr' ? 'ocr.language' : 'translation.source_language';
+
+  const pages = await db.collection<Page>('pages')
+    .find({ [languageField]: language, [`${field}.input_tokens`]: { $gt: 0 } })
+    .sort({ [`${field}.updated_at`]: -1 })
+    .limit(HISTORY_SAMPLE)
+    .project({ [`${field}.input_tokens`]: 1, [`${field}.output_tokens`]: 1 })
+    .toArray();
+
+  let input = 0;
+  let output = 0;
+  for (const page of pages) {
+    input += page[field]?.input_tokens || 0;
+    output += page[field]?.output_tokens || 0;
+  }
+  const samples = pages.length;
+  return {
+    tokens: { input: samples ? input / samples : 0, output: samples ? output / samples : 0 },
+    samples,
+  };
+}
+
+/**
+ * Estimate what a run will cost before starting it.
+ */
+export async function estimateCost(db: Db, input: EstimateInput): Promise<CostEstimate> {
+  const model = input.model || DEFAULT_MODEL;
+  const language = input.language || 'Latin';
+  const batchApi = input.batchApi === true;
+
+  const history = await historicalTokens(db, input.action, language);
+  const useHistory = history.samples >= MIN_HISTORY;
+  const perPage = useHistory ? history.tokens : defaultTokens(input.action, language);
+
+  const cost = calculateCost(perPage.input * input.pages, perPage.output * input.pages, model)
+    * (batchApi ? BATCH_API_DISCOUNT : 1);
+
+  return {
+    action: input.action,
+    model,
+    language,
+    pages: input.pages,
+    input_tokens_per_page: Math.round(perPage.input),
+    output_tokens_per_page: Math.round(perPage.output),
+    cost_usd: Math.round(cost * 1_000_000) / 1_000_000,
+    batch_api: batchApi,
+    basis: useHistory ? 'history' : 'default',
+    sample_size: history.samples,
+  };
+}
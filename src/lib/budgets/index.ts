@@ -0,0 +1,96 @@
+/**
+ * Cost budgets for AI processing: pre-flight estimates (estimate.ts) checked
+ * against budgets and recorded spend (store.ts) before a job is started.
+ */
+
+import { NextResponse } from 'next/server';
+import type { Db } from 'mongodb';
+import type { BudgetCheck, CostEstimate, JobType } from '@/lib/types';
+import { getCurrentTenantId } from '@/lib/tenant.server';
+import { estimateCost } from './estimate';
+import { checkBudget } from './store';
+
+export * from './estimate';
+export * from './store';
+
+// Job types that call a paid model per page, and what they do
+const BUDGETED_JOB_TYPES: Partial<Record<JobType, CostEstimate['action']>> = {
+  ocr: 'ocr',
+  batch_ocr: 'ocr',
+  translate: 'translation',
+  batch_translate: 'translation',
+};
+
+export function budgetedAction(type: JobType): CostEstimate['action'] | null {
+  return BUDGETED_JOB_TYPES[type] ?? null;
+}
+
+export interface PreflightInput {
+  type: JobType;
+  pages: number;
+  model?: string;
+  language?: string;
+  batchApi?: boolean;
+  book_id?: string;
+  user_id?: string;
+}
+
+export interface Preflight {
+  estimate: CostEstimate;
+  budget: BudgetCheck;
+}
+
+/**
+ * Estimate a job in the current tenant and check it against the budgets it
+ * would be charged to. Null for job types that don't call a paid model.
+ */
+export async function preflightJob(db: Db, input: PreflightInput): Promise<Preflight | null> {
+  const action = budgetedAction(input.type);
+  if (!action) return null;
+
+  const estimate = await estimateCost(db, {
+    action,
+    pages: input.pages,
+    model: input.model,
+    language: input.language,
+    batchApi: input.batchApi,
+  });
+  const budget = await checkBudget(
+    { tenant_id: await getCurrentTenantId(), book_id: input.book_id, user_id: input.user_id },
+    estimate.cost_usd
+  );
+  return { estimate, budget };
+}
+
+/**
+ * The response for a run that may not start yet: 402 when it would exceed a
+ * hard limit, 409 with `needs_confirmation` when it would pass a soft limit
+ * and the caller hasn't confirmed. Null when the run may go ahead.
+ */
+export function budgetRefusal(preflight: Preflight | null, confirmed: boolean): NextResponse | null {
+  if (!preflight) return null;
+  const { estimate, budget } = preflight;
+
+  if (!budget.allowed) {
+    return NextResponse.json({ error: budget.message, estimate, budget }, { status: 402 });
+  }
+  if (budget.needs_confirmation && !confirmed) {
+    return NextResponse.json(
+      { error: budget.message, needs_confirmation: true, estimate, budget },
+      { status: 409 }
+    );
+  }
+  return null;
+}
+
+/**
+ * Why a run queued in bulk may not start - it would exceed a hard limit, or
+ * pass a soft limit without confirmation - or null. For routes that queue
+ * many jobs and skip the refused ones rather than failing the request.
+ */
+export function budgetBlocked(preflight: Preflight | null, confirmed: boolean): string | null {
+  if (!preflight) return null;
+  const { budget } = preflight;
+  if (!budget.allowed || (budget.needs_confirmation && !confirmed)) return budget.message ?? null;
+  return null;
+}
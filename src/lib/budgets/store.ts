@@ -0,0 +1,307 @@
+/**
+ * AI cost budgets and the spend ledger.
+ *
+ * Budgets live in `budgets` and apply to everything (global), one tenant,
+ * one book or one user. Every OCR, translation and summary call the library
+ * pays for is recorded in `ai_spend`. Both collections span tenants, so they
+ * are read through connectToDatabase() with explicit tenant ids: a global
+ * budget has to see every tenant's spend.
+ *
+ * A run is checked against each budget that applies to it: spend so far in
+ * the budget's period, plus the estimated cost still to come from unfinished
+ * jobs, plus the run's own estimate.
+ */
+
+import type { Db, Document } from 'mongodb';
+import { nanoid } from 'nanoid';
+import { connectToDatabase } from '@/lib/mongodb';
+import { tenantFilter } from '@/lib/tenant-db';
+import { getCurrentTenantId } from '@/lib/tenant.server';
+import type {
+  Budget,
+  BudgetCheck,
+  BudgetPeriod,
+  BudgetScope,
+  BudgetStanding,
+  Job,
+  JobStatus,
+  SpendRecord,
+} from '@/lib/types';
+
+export const BUDGETS_COLLECTION = 'budgets';
+export const SPEND_COLLECTION = 'ai_spend';
+
+export const BUDGET_SCOPES: BudgetScope[] = ['global', 'tenant', 'book', 'user'];
+export const BUDGET_PERIODS: BudgetPeriod[] = ['day', 'month', 'total'];
+
+const PERIOD_LABELS: Record<BudgetPeriod, string> = { day: 'daily ', month: 'monthly ', total: '' };
+
+// Jobs whose estimated cost is not yet spent
+const UNFINISHED_JOB_STATUSES: JobStatus[] = ['pending', 'processing', 'paused'];
+
+/**
+ * What a run is charged to.
+ */
+export interface SpendContext {
+  tenant_id: string;
+  book_id?: string;
+  user_id?: string;
+}
+
+export type SpendInput = Omit<SpendRecord, 'id' | 'tenant_id' | 'created_at'> & { tenant_id?: string };
+
+/**
+ * Add an AI call to the spend ledger. Defaults to the current tenant. Never
+ * throws: a failed write must not fail the page that was just processed.
+ */
+export async function recordSpend(input: SpendInput): Promise<void> {
+  if (!(input.cost_usd > 0)) return;
+
+  try {
+    const { db } = await connectToDatabase();
+    const record: SpendRecord = {
+      ...input,
+      id: nanoid(12),
+      tenant_id: input.tenant_id ?? await getCurrentTenantId(),
+      created_at: new Date(),
+    };
+    await db.collection(SPEND_COLLECTION).insertOne(record as unknown as Document);
+  } catch (error) {
+    console.error('[budgets] Failed to record spend:', error);
+  }
+}
+
+/**
+ * Start of the budget period containing `now` (UTC), or null for all time.
+ */
+export function periodStart(period: BudgetPeriod, now = new Date()): Date | null {
+  switch (period) {
+    case 'day':
+      return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    case 'month':
+      return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    default:
+      return null;
+  }
+}
+
+/**
+ * Documents a budget covers, for both the spend ledger and jobs.
+ */
+function scopeFilter(budget: Budget): Document {
+  switch (budget.scope) {
+    case 'tenant':
+      return tenantFilter(budget.scope_id!);
+    case 'book':
+      return { book_id: budget.scope_id };
+    case 'user':
+      return { user_id: budget.scope_id };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Budgets that apply to a run charged to `context`.
+ */
+export async function applicableBudgets(db: Db, context: SpendContext): Promise<Budget[]> {
+  const scopes: Document[] = [
+    { scope: 'global' },
+    { scope: 'tenant', scope_id: context.tenant_id },
+  ];
+  if (context.book_id) scopes.push({ scope: 'book', scope_id: context.book_id });
+  if (context.user_id) scopes.push({ scope: 'user', scope_id: context.user_id });
+
+  return db.collection<Budget>(BUDGETS_COLLECTION)
+    .find({ $or: scopes }, { projection: { _id: 0 } })
+    .toArray() as Promise<Budget[]>;
+}
+
+async function spentSince(db: Db, budget: Budget, since: Date | null): Promise<number> {
+  const match: Document = { ...scopeFilter(budget) };
+  if (since) match.created_at = { $gte: since };
+
+  const [total] = await db.collection(SPEND_COLLECTION)
+    .aggregate([{ $match: match }, { $group: { _id: null, cost: { $sum: '$cost_usd' } } }])
+    .toArray();
+  return total?.cost || 0;
+}
+
+/**
+ * Estimated cost of the unfinished part of jobs this budget covers. Jobs
+ * record spend as their pages are processed, so only the remaining share of
+ * each job's estimate is counted.
+ */
+async function committedCost(db: Db, budget: Budget): Promise<number> {
+  const jobs = await db.collection<Job>('jobs')
+    .find({
+      ...scopeFilter(budget),
+      status: { $in: UNFINISHED_JOB_STATUSES },
+      'cost_estimate.cost_usd': { $gt: 0 },
+    }, { projection: { progress: 1, cost_estimate: 1 } })
+    .toArray();
+
+  let committed = 0;
+  for (const job of jobs) {
+    const total = job.progress?.total || 0;
+    const done = (job.progress?.completed || 0) + (job.progress?.failed || 0);
+    const remaining = total > 0 ? Math.max(total - done, 0) / total : 1;
+    committed += (job.cost_estimate?.cost_usd || 0) * remaining;
+  }
+  return committed;
+}
+
+function round(usd: number): number {
+  return Math.round(usd * 100) / 100;
+}
+
+function budgetName(budget: Pick<Budget, 'scope' | 'scope_id' | 'period'>): string {
+  const owner = budget.scope === 'global' ? 'the library' : `${budget.scope} ${budget.scope_id}`;
+  return `${PERIOD_LABELS[budget.period]}budget for ${owner}`;
+}
+
+function describe(standing: BudgetStanding): string {
+  const limit = standing.exceeds === 'hard' ? standing.hard_limit_usd! : standing.soft_limit_usd!;
+  return `${budgetName(standing)}: $${standing.projected_usd.toFixed(2)} of $${limit.toFixed(2)}`;
+}
+
+/**
+ * Where a budget stands this period, and would stand after a run costing
+ * `estimateUsd`.
+ */
+export async function budgetStanding(
+  db: Db,
+  budget: Budget,
+  estimateUsd = 0,
+  now = new Date()
+): Promise<BudgetStanding> {
+  const spent = await spentSince(db, budget, periodStart(budget.period, now));
+  const committed = await committedCost(db, budget);
+  const projected = spent + committed + estimateUsd;
+
+  let exceeds: BudgetStanding['exceeds'] = null;
+  if (budget.hard_limit_usd !== undefined && projected > budget.hard_limit_usd) exceeds = 'hard';
+  else if (budget.soft_limit_usd !== undefined && projected > budget.soft_limit_usd) exceeds = 'soft';
+
+  return {
+    budget_id: budget.id,
+    scope: budget.scope,
+    ...(budget.scope_id && { scope_id: budget.scope_id }),
+    period: budget.period,
+    spent_usd: round(spent),
+    committed_usd: round(committed),
+    projected_usd: round(projected),
+    ...(budget.soft_limit_usd !== undefined && { soft_limit_usd: budget.soft_limit_usd }),
+    ...(budget.hard_limit_usd !== undefined && { hard_limit_usd: budget.hard_limit_usd }),
+    exceeds,
+  };
+}
+
+/**
+ * Check a run costing `estimateUsd` against every budget that applies to it.
+ * The run is refused when it would push any budget past its hard limit, and
+ * needs confirmation when it would pass a soft limit.
+ */
+export async function checkBudget(
+  context: SpendContext,
+  estimateUsd: number
+): Promise<BudgetCheck> {
+  const { db } = await connectToDatabase();
+  const budgets = await applicableBudgets(db, context);
+  const now = new Date();
+
+  const standings: BudgetStanding[] = [];
+  for (const budget of budgets) {
+    standings.push(await budgetStanding(db, budget, estimateUsd, now));
+  }
+
+  const hard = standings.filter(s => s.exceeds === 'hard');
+  const soft = standings.filter(s => s.exceeds === 'soft');
+  const estimate = `Estimated cost $${estimateUsd.toFixed(2)}`;
+
+  return {
+    allowed: hard.length === 0,
+    needs_confirmation: hard.length === 0 && soft.length > 0,
+    estimate_usd: estimateUsd,
+    standings,
+    ...(hard.length > 0 && {
+      message: `${estimate} would exceed the ${hard.map(describe).join('; ')}`,
+    }),
+    ...(hard.length === 0 && soft.length > 0 && {
+      message: `${estimate} would pass the soft limit of the ${soft.map(describe).join('; ')}`,
+    }),
+  };
+}
+
+/**
+ * Why a run charged to `context` must stop: the first budget whose recorded
+ * spend this period has reached its hard limit, or null. Running jobs check
+ * this between slices, since pages can cost more than they were estimated
+ * at and limits can be lowered after a job starts.
+ */
+export async function hardLimitReached(context: SpendContext, now = new Date()): Promise<string | null> {
+  const { db } = await connectToDatabase();
+  for (const budget of await applicableBudgets(db, context)) {
+    if (budget.hard_limit_usd === undefined) continue;
+    const spent = await spentSince(db, budget, periodStart(budget.period, now));
+    if (spent >= budget.hard_limit_usd) {
+      return `The ${budgetName(budget)} has reached its hard limit: $${spent.toFixed(2)} of $${budget.hard_limit_usd.toFixed(2)}`;
+    }
+  }
+  return null;
+}
+
+type LimitField = 'soft_limit_usd' | 'hard_limit_usd';
+
+export interface BudgetChanges {
+  set: Partial<Budget>;
+  unset: LimitField[];
+}
+
+/**
+ * Validate the editable fields of a budget from a request body: period,
+ * soft_limit_usd and hard_limit_usd (null clears a limit) and note. `current`
+ * is the budget being updated, so the limits can be checked together.
+ */
+export function parseBudgetChanges(
+  body: Record<string, unknown>,
+  current?: Pick<Budget, LimitField>
+): BudgetChanges | { error: string } {
+  const changes: BudgetChanges = { set: {}, unset: [] };
+
+  if (body.period !== undefined) {
+    if (!BUDGET_PERIODS.includes(body.period as BudgetPeriod)) {
+      return { error: `period must be one of ${BUDGET_PERIODS.join(', ')}` };
+    }
+    changes.set.period = body.period as BudgetPeriod;
+  }
+
+  const limits = { soft_limit_usd: current?.soft_limit_usd, hard_limit_usd: current?.hard_limit_usd };
+  for (const field of ['soft_limit_usd', 'hard_limit_usd'] as const) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (value === null) {
+      changes.unset.push(field);
+      limits[field] = undefined;
+    } else if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+      changes.set[field] = value;
+      limits[field] = value;
+    } else {
+      return { error: `${field} must be a non-negative number or null` };
+    }
+  }
+
+  if (limits.soft_limit_usd === undefined && limits.hard_limit_usd === undefined) {
+    return { error: 'A budget needs soft_limit_usd or hard_limit_usd' };
+  }
+  if (limits.soft_limit_usd !== undefined && limits.hard_limit_usd !== undefined &&
+      limits.soft_limit_usd > limits.hard_limit_usd) {
+    return { error: 'soft_limit_usd cannot be above hard_limit_usd' };
+  }
+
+  if (body.note !== undefined) {
+    changes.set.note = typeof body.note === 'string' ? body.note.trim() : '';
+  }
+
+  return changes;
+}
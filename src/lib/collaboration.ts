@@ -0,0 +1,81 @@
+/**
+ * Keeping simultaneous editors of a page from overwriting each other.
+ *
+ * Saves from the editor carry the version of each field's text they started
+ * from; a field whose stored text has a different version was saved by
+ * someone else in the meantime, and the save is refused with the current
+ * text so the editor can merge. Editors also send heartbeats while a page is
+ * open, so others can see who else is working on it.
+ */
+
+import type { Db } from 'mongodb';
+import { getDb } from './mongodb';
+import { textVersion } from './text-version';
+import { DEFAULT_TARGET_LANGUAGE, translationPath } from './translation-languages';
+import type { BaseVersions, EditableField, EditConflict, Page } from './types';
+
+export const PRESENCE_COLLECTION = 'page_presence';
+
+export const EDITABLE_FIELDS: EditableField[] = ['ocr', 'translation', 'summary'];
+
+// Editors send a heartbeat every 20 seconds; one missed beat is tolerated
+export const PRESENCE_WINDOW_MS = 45_000;
+
+/**
+ * Fields of an update whose base version no longer matches the stored text.
+ * A field saved with exactly the text already stored is not a conflict.
+ */
+export async function findConflicts(
+  page: Pick<Page, EditableField>,
+  updates: Partial<Record<EditableField, { data: string }>>,
+  baseVersions: BaseVersions
+): Promise<EditConflict[]> {
+  const conflicts: EditConflict[] = [];
+  for (const field of EDITABLE_FIELDS) {
+    const base = baseVersions[field];
+    const update = updates[field];
+    if (!base || !update) continue;
+
+    const stored = page[field];
+    const current = stored?.data || '';
+    const currentVersion = await textVersion(current);
+    if (currentVersion === base || current === update.data) continue;
+
+    conflicts.push({
+      field,
+      base_version: base,
+      current_version: currentVersion,
+      current,
+      ...(stored?.edited_by && { edited_by: stored.edited_by }),
+      ...(stored?.updated_at && { updated_at: stored.updated_at }),
+    });
+  }
+  return conflicts;
+}
+
+/**
+ * Query conditions that hold only while the checked fields still have the
+ * text they were checked against, for a compare-and-swap update. A
+ * translation into another language is checked where that language is kept.
+ */
+export function unchangedFilter(
+  page: Pick<Page, EditableField>,
+  fields: EditableField[],
+  targetLanguage: string = DEFAULT_TARGET_LANGUAGE
+): Record<string, unknown> {
+  const filter: Record<string, unknown> = {};
+  for (const field of fields) {
+    const current = page[field]?.data;
+    const path = field === 'translation' ? translationPath(targetLanguage) : field;
+    filter[`${path}.data`] = current ? current : { $in: ['', null] };
+  }
+  return filter;
+}
+
+export async function ensurePresenceIndexes(db?: Db): Promise<void> {
+  const database = db || await getDb();
+  const presence = database.collection(PRESENCE_COLLECTION);
+  await presence.createIndex({ page_id: 1, user_key: 1 }, { name: 'page_presence_key_idx', unique: true });
+  // Heartbeats are only useful for a couple of minutes
+  await presence.createIndex({ seen_at: 1 }, { name: 'page_presence_ttl_idx', expireAfterSeconds: 120 });
+}
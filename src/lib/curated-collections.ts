@@ -0,0 +1,57 @@
+/**
+ * Curated reading collections from curator-data, for metadata endpoints
+ * that select books by collection (OAI-PMH sets, bibliographic exports).
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { ObjectId, type Document } from 'mongodb';
+
+export interface CuratedCollection {
+  id: string;
+  title: string;
+  description?: string;
+  bookIds: string[];
+}
+
+let collectionsPromise: Promise<CuratedCollection[]> | null = null;
+
+/**
+ * The curated collections in curator-data, with the ids of their books.
+ * Read once per process.
+ */
+export function loadCuratedCollections(): Promise<CuratedCollection[]> {
+  collectionsPromise ??= (async () => {
+    const dir = path.join(process.cwd(), 'curator-data');
+    try {
+      const index = JSON.parse(await fs.readFile(path.join(dir, 'index.json'), 'utf-8')) as {
+        collections: Array<{ id: string; title: string; file: string }>;
+      };
+      return await Promise.all(index.collections.map(async entry => {
+        const collection = JSON.parse(await fs.readFile(path.join(dir, entry.file), 'utf-8').catch(() => '{}')) as {
+          description?: string;
+          books?: Array<{ bookId: string }>;
+        };
+        return {
+          id: entry.id,
+          title: entry.title,
+          description: collection.description,
+          bookIds: (collection.books || []).map(book => book.bookId),
+        };
+      }));
+    } catch (error) {
+      console.error('Failed to load curated collections:', error);
+      return [];
+    }
+  })();
+  return collectionsPromise;
+}
+
+/**
+ * Mongo filter for the books of a collection. Collections list books by
+ * Mongo _id or by book id; deleted books keep their old _id as original_id.
+ */
+export function collectionBookFilter(bookIds: string[], deleted = false): Document {
+  const objectIds = bookIds.filter(id => ObjectId.isValid(id)).map(id => new ObjectId(id));
+  return { $or: [{ [deleted ? 'original_id' : '_id']: { $in: objectIds } }, { id: { $in: bookIds } }] };
+}
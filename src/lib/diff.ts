@@ -0,0 +1,293 @@
+/**
+ * Line- and word-level diffs of OCR and translation text.
+ *
+ * Lines are compared with their markup tags removed (<margin>, <note>,
+ * [[notes: ...]] and the rest), so a line that only gained or lost a tag
+ * counts as unchanged, while the text inside a tag is still compared: a
+ * marginal note that disappears shows up as a removed line.
+ */
+
+import type { DiffHunk, DiffLine, DiffOp, DiffWord, MergeChoice, MergeChunk, MergeResult, TextDiff } from './types';
+
+interface Edit {
+  op: DiffOp;
+  a: number;                     // Index in the old sequence (delete, equal)
+  b: number;                     // Index in the new sequence (insert, equal)
+}
+
+// Past this many LCS table cells, the changed middle of two texts is
+// reported as replaced wholesale rather than diffed
+const MAX_TABLE_CELLS = 4_000_000;
+
+/**
+ * The text of a line as compared: tags dropped, their content kept, and
+ * whitespace collapsed.
+ */
+export function comparableText(line: string): string {
+  return line
+    .replace(/<\/?[a-z][\w-]*(?:\s[^>]*)?>/gi, ' ')
+    .replace(/\[\[[a-z][\w ]*:\s*/gi, ' ')
+    .replace(/\]\]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function splitLines(text: string): string[] {
+  return text ? text.replace(/\r\n?/g, '\n').split('\n') : [];
+}
+
+// Longest-common-subsequence diff, after trimming the common prefix and suffix
+function diffSequences(a: string[], b: string[]): Edit[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const edits: Edit[] = [];
+  for (let k = 0; k < start; k++) edits.push({ op: 'equal', a: k, b: k });
+
+  const n = endA - start;
+  const m = endB - start;
+  let i = 0;
+  let j = 0;
+
+  if (n > 0 && m > 0 && (n + 1) * (m + 1) <= MAX_TABLE_CELLS) {
+    // lcs[i * width + j]: LCS length of a[start + i..endA) and b[start + j..endB)
+    const width = m + 1;
+    const lcs = new Uint32Array((n + 1) * width);
+    for (let x = n - 1; x >= 0; x--) {
+      for (let y = m - 1; y >= 0; y--) {
+        lcs[x * width + y] = a[start + x] === b[start + y]
+          ? lcs[(x + 1) * width + y + 1] + 1
+          : Math.max(lcs[(x + 1) * width + y], lcs[x * width + y + 1]);
+      }
+    }
+
+    while (i < n && j < m) {
+      if (a[start + i] === b[start + j]) {
+        edits.push({ op: 'equal', a: start + i++, b: start + j++ });
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        edits.push({ op: 'delete', a: start + i++, b: start + j });
+      } else {
+        edits.push({ op: 'insert', a: start + i, b: start + j++ });
+      }
+    }
+  }
+  while (i < n) edits.push({ op: 'delete', a: start + i++, b: start + j });
+  while (j < m) edits.push({ op: 'insert', a: start + i, b: start + j++ });
+
+  for (let k = 0; k < a.length - endA; k++) {
+    edits.push({ op: 'equal', a: endA + k, b: endB + k });
+  }
+  return edits;
+}
+
+/**
+ * Word-level diff of two runs of lines, markup ignored. Line breaks are
+ * kept as "\n" words so the result can be laid out line by line.
+ */
+export function diffWords(fromLines: string[], toLines: string[]): DiffWord[] {
+  const tokenize = (lines: string[]) =>
+    lines.map(comparableText).join('\n').match(/\n|\S+/g) ?? [];
+  const from = tokenize(fromLines);
+  const to = tokenize(toLines);
+
+  return diffSequences(from, to).map(edit => ({
+    op: edit.op,
+    text: edit.op === 'insert' ? to[edit.b] : from[edit.a],
+  }));
+}
+
+/**
+ * Diff two versions of a page's text. Unchanged lines are reported as they
+ * appear in the "to" text; changed lines are grouped into hunks.
+ */
+export function diffTexts(from: string, to: string): TextDiff {
+  const fromLines = splitLines(from);
+  const toLines = splitLines(to);
+  const edits = diffSequences(fromLines.map(comparableText), toLines.map(comparableText));
+
+  const lines: DiffLine[] = [];
+  const hunks: DiffHunk[] = [];
+  let hunk: DiffHunk | null = null;
+
+  for (const edit of edits) {
+    if (edit.op === 'equal') {
+      hunk = null;
+      lines.push({ op: 'equal', text: toLines[edit.b], from_line: edit.a + 1, to_line: edit.b + 1 });
+      continue;
+    }
+
+    if (!hunk) {
+      hunk = {
+        index: hunks.length,
+        from_start: edit.a + 1,
+        from_lines: [],
+        to_start: edit.b + 1,
+        to_lines: [],
+        words: [],
+      };
+      hunks.push(hunk);
+    }
+
+    if (edit.op === 'delete') {
+      hunk.from_lines.push(fromLines[edit.a]);
+      lines.push({ op: 'delete', text: fromLines[edit.a], from_line: edit.a + 1, hunk: hunk.index });
+    } else {
+      hunk.to_lines.push(toLines[edit.b]);
+      lines.push({ op: 'insert', text: toLines[edit.b], to_line: edit.b + 1, hunk: hunk.index });
+    }
+  }
+
+  const stats = { lines_added: 0, lines_removed: 0, words_added: 0, words_removed: 0 };
+  for (const h of hunks) {
+    h.words = diffWords(h.from_lines, h.to_lines);
+    stats.lines_added += h.to_lines.length;
+    stats.lines_removed += h.from_lines.length;
+    for (const word of h.words) {
+      if (word.text === '\n') continue;
+      if (word.op === 'insert') stats.words_added++;
+      if (word.op === 'delete') stats.words_removed++;
+    }
+  }
+
+  return { lines, hunks, stats };
+}
+
+/**
+ * Merge a review of the changes from `from` to `to`: accepted hunks keep
+ * the "to" lines, rejected hunks put the "from" lines back.
+ */
+export function applyReview(from: string, to: string, rejected: Iterable<number>): string {
+  const rejectedHunks = new Set(rejected);
+  const merged: string[] = [];
+
+  for (const line of diffTexts(from, to).lines) {
+    if (line.op === 'equal') {
+      merged.push(line.text);
+    } else if ((line.op === 'delete') === rejectedHunks.has(line.hunk!)) {
+      merged.push(line.text);
+    }
+  }
+  return merged.join('\n');
+}
+
+// A run of base lines [start, end) that one side replaced with `lines`
+interface Change {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+function changesFrom(base: string[], edited: string[]): Change[] {
+  const changes: Change[] = [];
+  let change: Change | null = null;
+  for (const edit of diffSequences(base, edited)) {
+    if (edit.op === 'equal') {
+      change = null;
+      continue;
+    }
+    if (!change) {
+      change = { start: edit.a, end: edit.a, lines: [] };
+      changes.push(change);
+    }
+    if (edit.op === 'delete') change.end = edit.a + 1;
+    else change.lines.push(edited[edit.b]);
+  }
+  return changes;
+}
+
+// The base lines [start, end) with one side's changes applied
+function applyChanges(base: string[], start: number, end: number, changes: Change[]): string[] {
+  const lines: string[] = [];
+  let at = start;
+  for (const change of changes) {
+    lines.push(...base.slice(at, change.start), ...change.lines);
+    at = change.end;
+  }
+  lines.push(...base.slice(at, end));
+  return lines;
+}
+
+/**
+ * Three-way merge of two edits of the same text, line by line. Changes to
+ * different parts of the text are combined; changes that overlap or touch
+ * are reported as conflicts unless both sides made the same change. Lines
+ * are compared as written, markup included.
+ */
+export function mergeTexts(base: string, mine: string, theirs: string): MergeResult {
+  const baseLines = splitLines(base);
+  const changes = [
+    ...changesFrom(baseLines, splitLines(mine)).map(change => ({ ...change, side: 'mine' as const })),
+    ...changesFrom(baseLines, splitLines(theirs)).map(change => ({ ...change, side: 'theirs' as const })),
+  ].sort((x, y) => x.start - y.start || x.end - y.end);
+
+  const chunks: MergeChunk[] = [];
+  let conflicts = 0;
+  const pushClean = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = chunks[chunks.length - 1];
+    if (last?.type === 'clean') last.lines.push(...lines);
+    else chunks.push({ type: 'clean', lines });
+  };
+
+  let at = 0;
+  let k = 0;
+  while (k < changes.length) {
+    // Gather every change that overlaps or touches the first one
+    const group = [changes[k++]];
+    const start = group[0].start;
+    let end = group[0].end;
+    while (k < changes.length && changes[k].start <= end) {
+      end = Math.max(end, changes[k].end);
+      group.push(changes[k++]);
+    }
+
+    pushClean(baseLines.slice(at, start));
+    at = end;
+
+    const ours = group.filter(change => change.side === 'mine');
+    const others = group.filter(change => change.side === 'theirs');
+    const mineLines = applyChanges(baseLines, start, end, ours);
+    const theirLines = applyChanges(baseLines, start, end, others);
+
+    if (others.length === 0 || mineLines.join('\n') === theirLines.join('\n')) {
+      pushClean(mineLines);
+    } else if (ours.length === 0) {
+      pushClean(theirLines);
+    } else {
+      chunks.push({
+        type: 'conflict',
+        index: conflicts++,
+        base: baseLines.slice(start, end),
+        mine: mineLines,
+        theirs: theirLines,
+      });
+    }
+  }
+  pushClean(baseLines.slice(at));
+
+  return { chunks, conflicts };
+}
+
+/**
+ * The merged text once each conflict has been settled. Conflicts without a
+ * choice keep "mine".
+ */
+export function resolveMerge(chunks: MergeChunk[], choices: Partial<Record<number, MergeChoice>> = {}): string {
+  const lines: string[] = [];
+  for (const chunk of chunks) {
+    if (chunk.type === 'clean') {
+      lines.push(...chunk.lines);
+      continue;
+    }
+    const choice = choices[chunk.index] || 'mine';
+    if (choice !== 'theirs') lines.push(...chunk.mine);
+    if (choice !== 'mine') lines.push(...chunk.theirs);
+  }
+  return lines.join('\n');
+}
@@ -21,6 +21,7 @@ export interface BatchRequest {
     generationConfig?: {
       temperature?: number;
       maxOutputTokens?: number;
+      responseMimeType?: string;
     };
     systemInstruction?: {
       parts: Array<{ text: string }>;
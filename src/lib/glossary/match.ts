@@ -0,0 +1,289 @@
+/**
+ * Glossary and translation memory matching.
+ *
+ * Pure functions shared by the translation routes (which inject the relevant
+ * entries into the prompt) and validateTranslation (which flags glossary
+ * terms the translation did not render as agreed). Terms are compared
+ * token by token after the search index's normalization, so "Quinta
+ * Essentia", "quinta eſſentia" and "qvinta essentia" all match.
+ */
+
+import {
+  getNormalizationProfile,
+  normalizeToken,
+  tokenize,
+  type NormalizationProfile,
+} from '@/lib/search/normalize';
+import {
+  stripAnnotationTags,
+  type GlossaryEntry,
+  type TranslationGuidance,
+  type TranslationMemoryMatch,
+  type TranslationMemorySegment,
+} from '@/lib/types';
+
+// Translation memory segments must share this much of their wording with the page
+const MEMORY_MIN_SCORE = 0.8;
+// Shorter segments ("Caput II.") match everywhere and teach nothing
+const MEMORY_MIN_TOKENS = 4;
+const MEMORY_MAX_MATCHES = 3;
+// Longer pages are not split into segments unless their paragraphs line up
+const MAX_PAGE_SEGMENT_LENGTH = 4000;
+
+interface NormalizedToken {
+  term: string;
+  start: number;
+  end: number;
+}
+
+function normalizedTokens(text: string, profile: NormalizationProfile): NormalizedToken[] {
+  const tokens: NormalizedToken[] = [];
+  for (const token of tokenize(text)) {
+    const term = normalizeToken(token.raw, profile);
+    if (term) tokens.push({ term, start: token.start, end: token.end });
+  }
+  return tokens;
+}
+
+/**
+ * A term's normalized form, e.g. "Mercurius  Philosophorum" -> "mercurius philosophorum".
+ */
+export function normalizeTerm(term: string, profile: NormalizationProfile = 'default'): string {
+  return normalizedTokens(term, profile).map(token => token.term).join(' ');
+}
+
+function findSequence(haystack: NormalizedToken[], needle: string[]): { start: number; end: number } | null {
+  if (needle.length === 0) return null;
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    if (needle.every((term, j) => haystack[i + j].term === term)) {
+      return { start: haystack[i].start, end: haystack[i + needle.length - 1].end };
+    }
+  }
+  return null;
+}
+
+/**
+ * Character range of the first occurrence of any of `terms` in `text`, as
+ * whole words.
+ */
+export function findTerm(
+  text: string,
+  terms: string[],
+  profile: NormalizationProfile = 'default'
+): { start: number; end: number } | null {
+  const haystack = normalizedTokens(text, profile);
+  for (const term of terms) {
+    const found = findSequence(haystack, normalizedTokens(term, profile).map(token => token.term));
+    if (found) return found;
+  }
+  return null;
+}
+
+/**
+ * The trimmed, non-empty strings of a request field such as
+ * `allowed_renderings`, or undefined if there are none.
+ */
+export function termList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const list = value.filter((v): v is string => typeof v === 'string' && v.trim() !== '').map(v => v.trim());
+  return list.length > 0 ? list : undefined;
+}
+
+function sourceForms(entry: GlossaryEntry): string[] {
+  return [entry.source_term, ...(entry.source_variants || [])];
+}
+
+function targetForms(entry: GlossaryEntry): string[] {
+  return [entry.target_term, ...(entry.allowed_renderings || [])];
+}
+
+/**
+ * The glossary entries whose source term occurs in `sourceText`.
+ */
+export function selectGlossaryEntries(
+  entries: GlossaryEntry[],
+  sourceText: string,
+  sourceLanguage?: string
+): GlossaryEntry[] {
+  const profile = getNormalizationProfile(sourceLanguage);
+  const haystack = normalizedTokens(sourceText, profile);
+  return entries.filter(entry =>
+    sourceForms(entry).some(form =>
+      findSequence(haystack, normalizedTokens(form, profile).map(token => token.term))
+    )
+  );
+}
+
+export interface GlossaryViolation {
+  entry: GlossaryEntry;
+  /** Where the source term was left untranslated in the translation, if it was */
+  untranslated?: { start: number; end: number };
+}
+
+/**
+ * Glossary terms that occur in the source but whose agreed rendering (or an
+ * allowed alternative) is missing from the translation.
+ */
+export function findGlossaryViolations(
+  entries: GlossaryEntry[],
+  sourceText: string,
+  translation: string,
+  sourceLanguage?: string
+): GlossaryViolation[] {
+  const translated = normalizedTokens(translation, 'default');
+  const violations: GlossaryViolation[] = [];
+
+  for (const entry of selectGlossaryEntries(entries, sourceText, sourceLanguage)) {
+    const rendered = targetForms(entry).some(form =>
+      findSequence(translated, normalizedTokens(form, 'default').map(token => token.term))
+    );
+    if (rendered) continue;
+
+    // Terms kept in the original (e.g. "Azoth") are rendered by definition
+    const keptAsIs = new Set(targetForms(entry).map(form => normalizeTerm(form)));
+    const untranslated = findTerm(
+      translation,
+      sourceForms(entry).filter(form => !keptAsIs.has(normalizeTerm(form)))
+    );
+    violations.push(untranslated ? { entry, untranslated } : { entry });
+  }
+
+  return violations;
+}
+
+/**
+ * Terms listed in `<vocab>` / `[[vocabulary:]]` tags of an OCR transcription.
+ */
+export function extractVocabulary(text: string): string[] {
+  const terms: string[] = [];
+  const patterns = [/<vocab>([\s\S]*?)<\/vocab>/gi, /\[\[vocabulary:\s*(.*?)\]\]/gi];
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      terms.push(...match[1].split(',').map(term => term.trim()).filter(Boolean));
+    }
+  }
+  return terms;
+}
+
+/**
+ * Source/rendering pairs from `<term>X → Y</term>` glosses in a translation.
+ */
+export function extractTermGlosses(text: string): Array<{ source: string; target: string }> {
+  const glosses: Array<{ source: string; target: string }> = [];
+  const patterns = [/<term>([\s\S]*?)<\/term>/gi, /\[\[term:\s*(.*?)\]\]/gi];
+  for (const pattern of patterns) {
+    for (const match of text.matchAll(pattern)) {
+      const [source, target] = match[1].split(/\s*(?:→|->)\s*/);
+      // Only the rendering itself, not an explanation in parentheses
+      const rendering = target?.replace(/\s*\(.*$/, '').trim();
+      if (source?.trim() && rendering) glosses.push({ source: source.trim(), target: rendering });
+    }
+  }
+  return glosses;
+}
+
+function paragraphs(text: string): string[] {
+  return stripAnnotationTags(text).split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+}
+
+/**
+ * Split an approved page into source/target segments: paragraph pairs when
+ * the two texts have the same number of paragraphs, otherwise the whole
+ * page if it is short enough to be useful.
+ */
+export function segmentPage(sourceText: string, targetText: string): Array<{ source: string; target: string }> {
+  const sources = paragraphs(sourceText);
+  const targets = paragraphs(targetText);
+
+  if (sources.length > 0 && sources.length === targets.length) {
+    return sources.map((source, i) => ({ source, target: targets[i] }));
+  }
+
+  const source = sources.join('\n\n');
+  const target = targets.join('\n\n');
+  if (!source || !target || source.length > MAX_PAGE_SEGMENT_LENGTH) return [];
+  return [{ source, target }];
+}
+
+/**
+ * Memory segments whose source wording (nearly) all appears in `sourceText`,
+ * best matches first.
+ */
+export function matchTranslationMemory(
+  segments: TranslationMemorySegment[],
+  sourceText: string,
+  sourceLanguage?: string,
+  limit = MEMORY_MAX_MATCHES
+): TranslationMemoryMatch[] {
+  const profile = getNormalizationProfile(sourceLanguage);
+  const pageTerms = new Set(normalizedTokens(sourceText, profile).map(token => token.term));
+  const matches: TranslationMemoryMatch[] = [];
+
+  for (const segment of segments) {
+    const terms = new Set(normalizedTokens(segment.source_text, profile).map(token => token.term));
+    if (terms.size < MEMORY_MIN_TOKENS) continue;
+
+    let shared = 0;
+    for (const term of terms) if (pageTerms.has(term)) shared++;
+    const score = shared / terms.size;
+
+    if (score >= MEMORY_MIN_SCORE) {
+      matches.push({
+        source_text: segment.source_text,
+        target_text: segment.target_text,
+        book_id: segment.book_id,
+        page_id: segment.page_id,
+        score,
+      });
+    }
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score || b.source_text.length - a.source_text.length)
+    .slice(0, limit);
+}
+
+/**
+ * Everything a book's translations draw on: its effective glossary and its
+ * approved memory segments (see loadTranslationResources).
+ */
+export interface TranslationResources {
+  sourceLanguage?: string;
+  glossary: GlossaryEntry[];
+  memory: TranslationMemorySegment[];
+}
+
+/**
+ * The glossary entries and memory segments relevant to one text.
+ */
+export function selectTranslationGuidance(resources: TranslationResources, sourceText: string): TranslationGuidance {
+  return {
+    glossary: selectGlossaryEntries(resources.glossary, sourceText, resources.sourceLanguage),
+    memory: matchTranslationMemory(resources.memory, sourceText, resources.sourceLanguage),
+  };
+}
+
+/**
+ * Prompt section for the guidance, or an empty string when there is none.
+ */
+export function formatTranslationGuidance(guidance: TranslationGuidance | undefined): string {
+  if (!guidance) return '';
+  let section = '';
+
+  if (guidance.glossary.length > 0) {
+    const lines = guidance.glossary.map(entry => {
+      let line = `- ${entry.source_term} → ${entry.target_term}`;
+      if (entry.allowed_renderings?.length) line += ` (also acceptable: ${entry.allowed_renderings.join(', ')})`;
+      if (entry.note) line += ` - ${entry.note}`;
+      return line;
+    });
+    section += `\n\n**Glossary - translate these terms exactly as given, on every occurrence:**\n${lines.join('\n')}`;
+  }
+
+  if (guidance.memory.length > 0) {
+    const pairs = guidance.memory.map(match => `Source: ${match.source_text}\nTranslation: ${match.target_text}`);
+    section += `\n\n**Translation memory - approved translations of passages on this page; reuse them where the text is the same:**\n${pairs.join('\n\n')}`;
+  }
+
+  return section;
+}
@@ -0,0 +1,157 @@
+/**
+ * Seeding a glossary from what the library already knows.
+ *
+ * Candidate terms are the `<vocab>` / `[[vocabulary:]]` terms of the books'
+ * OCR. A term that names an encyclopedia entry (by title or alias) takes
+ * its rendering from the entry: the title is the source term and the first
+ * remaining alias the agreed rendering, the other aliases being accepted
+ * too. Encyclopedia entries citing the books as primary sources are added
+ * the same way. Other terms take the rendering the translations most often
+ * gave them in `<term>X → Y</term>` glosses, and terms without one are
+ * reported back for an editor to fill in.
+ */
+
+import type { Db } from 'mongodb';
+import { nanoid } from 'nanoid';
+import { getDb } from '@/lib/mongodb';
+import { getNormalizationProfile } from '@/lib/search/normalize';
+import type { EncyclopediaEntry, GlossaryEntry, GlossaryScope } from '@/lib/types';
+import { extractTermGlosses, extractVocabulary, normalizeTerm } from './match';
+import { ENCYCLOPEDIA_COLLECTION, GLOSSARY_COLLECTION } from './store';
+
+// Unresolved terms reported back, most frequent first
+const MAX_UNRESOLVED = 100;
+
+export interface SeedGlossaryOptions {
+  scope: GlossaryScope;
+  scopeId: string;
+  /** The book, or the books of the collection */
+  bookIds: string[];
+  targetLanguage?: string;
+  createdBy?: string;
+  dryRun?: boolean;
+}
+
+export interface SeedGlossaryResult {
+  created: GlossaryEntry[];
+  /** Candidates skipped because the glossary already has the term */
+  existing: number;
+  /** Vocabulary terms with no known rendering */
+  unresolved: string[];
+}
+
+export async function seedGlossary(options: SeedGlossaryOptions, db?: Db): Promise<SeedGlossaryResult> {
+  const database = db || await getDb();
+  const targetLanguage = options.targetLanguage || 'English';
+
+  const firstBook = await database.collection('books')
+    .findOne({ id: { $in: options.bookIds } }, { projection: { language: 1 } });
+  const profile = getNormalizationProfile(firstBook?.language);
+  const key = (term: string) => normalizeTerm(term, profile);
+
+  // Vocabulary terms by normalized form, with the number of pages listing them
+  const vocabulary = new Map<string, { term: string; pages: number }>();
+  // Renderings seen in glosses, by normalized source term
+  const glosses = new Map<string, Map<string, number>>();
+
+  const pages = database.collection('pages').find(
+    { book_id: { $in: options.bookIds } },
+    { projection: { 'ocr.data': 1, 'translation.data': 1 } }
+  );
+  for await (const page of pages) {
+    for (const term of new Set(extractVocabulary(page.ocr?.data || ''))) {
+      const k = key(term);
+      if (!k) continue;
+      const seen = vocabulary.get(k);
+      vocabulary.set(k, { term: seen?.term || term, pages: (seen?.pages || 0) + 1 });
+    }
+    for (const gloss of extractTermGlosses(page.translation?.data || '')) {
+      const renderings = glosses.get(key(gloss.source)) || new Map<string, number>();
+      renderings.set(gloss.target, (renderings.get(gloss.target) || 0) + 1);
+      glosses.set(key(gloss.source), renderings);
+    }
+  }
+
+  const now = new Date();
+  const base = {
+    scope: options.scope,
+    scope_id: options.scopeId,
+    target_language: targetLanguage,
+    ...(options.createdBy && { created_by: options.createdBy }),
+    created_at: now,
+  };
+  const candidates: GlossaryEntry[] = [];
+  const resolved = new Set<string>();
+
+  const encyclopedia = await database.collection<EncyclopediaEntry>(ENCYCLOPEDIA_COLLECTION)
+    .find({}, { projection: { id: 1, title: 1, aliases: 1, 'primary_sources.book_id': 1 } })
+    .toArray();
+
+  for (const entry of encyclopedia) {
+    const aliases = entry.aliases || [];
+    const matched = [entry.title, ...aliases].map(key).find(k => vocabulary.has(k));
+    const cited = (entry.primary_sources || []).some(source => options.bookIds.includes(source.book_id));
+    if (!matched && !cited) continue;
+
+    const renderings = aliases.filter(alias => key(alias) !== matched);
+    const vocabularyForm = matched && vocabulary.get(matched)!.term;
+    candidates.push({
+      ...base,
+      id: nanoid(12),
+      source_term: entry.title,
+      ...(vocabularyForm && key(vocabularyForm) !== key(entry.title) && { source_variants: [vocabularyForm] }),
+      target_term: renderings[0] || entry.title,
+      ...(renderings.length > 1 && { allowed_renderings: renderings.slice(1) }),
+      origin: 'encyclopedia',
+      encyclopedia_id: entry.id,
+    });
+    if (matched) resolved.add(matched);
+  }
+
+  const unresolved: Array<{ term: string; pages: number }> = [];
+  for (const [k, { term, pages: pageCount }] of vocabulary) {
+    if (resolved.has(k)) continue;
+    const renderings = glosses.get(k);
+    if (!renderings) {
+      unresolved.push({ term, pages: pageCount });
+      continue;
+    }
+    const [rendering] = [...renderings.entries()].sort((a, b) => b[1] - a[1])[0];
+    candidates.push({ ...base, id: nanoid(12), source_term: term, target_term: rendering, origin: 'vocabulary' });
+  }
+
+  // Keep what editors already have
+  const existingTerms = new Set(
+    (await database.collection<GlossaryEntry>(GLOSSARY_COLLECTION)
+      .find(
+        { scope: options.scope, scope_id: options.scopeId, target_language: targetLanguage },
+        { projection: { source_term: 1, source_variants: 1 } }
+      )
+      .toArray())
+      .flatMap(entry => [entry.source_term, ...(entry.source_variants || [])].map(key))
+  );
+  const created: GlossaryEntry[] = [];
+  let existing = 0;
+  for (const candidate of candidates) {
+    const k = key(candidate.source_term);
+    if (existingTerms.has(k)) {
+      existing++;
+      continue;
+    }
+    existingTerms.add(k);
+    created.push(candidate);
+  }
+
+  if (!options.dryRun && created.length > 0) {
+    await database.collection<GlossaryEntry>(GLOSSARY_COLLECTION).insertMany(created.map(entry => ({ ...entry })));
+  }
+
+  return {
+    created,
+    existing,
+    unresolved: unresolved
+      .sort((a, b) => b.pages - a.pages)
+      .slice(0, MAX_UNRESOLVED)
+      .map(u => u.term),
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * Glossary and translation memory storage.
+ *
+ * Glossary entries live in `glossary`, scoped either to one book or to a
+ * curated collection (curator-data/collections/<id>.json); a book's
+ * effective glossary is its own entries plus those of every collection it
+ * belongs to, book entries winning. Approved translations are split into
+ * segments (see segmentPage) and stored in `translation_memory`.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import type { Db } from 'mongodb';
+import { nanoid } from 'nanoid';
+import { getDb } from '@/lib/mongodb';
+import type { GlossaryEntry, TranslationMemorySegment } from '@/lib/types';
+import { normalizeTerm, segmentPage, type TranslationResources } from './match';
+
+export const GLOSSARY_COLLECTION = 'glossary';
+export const TRANSLATION_MEMORY_COLLECTION = 'translation_memory';
+export const ENCYCLOPEDIA_COLLECTION = 'encyclopedia';
+
+// Memory segments considered per translation, newest first
+const MAX_MEMORY_SEGMENTS = 2000;
+
+interface CuratedCollections {
+  booksByCollection: Map<string, string[]>;
+  collectionsByBook: Map<string, string[]>;
+}
+
+let curatedCollections: Promise<CuratedCollections> | null = null;
+
+/**
+ * Book membership of the curated collections. The files ship with the
+ * deployment, so they are read once per instance.
+ */
+function loadCuratedCollections(): Promise<CuratedCollections> {
+  curatedCollections ??= (async () => {
+    const dir = path.join(process.cwd(), 'curator-data', 'collections');
+    const booksByCollection = new Map<string, string[]>();
+    const collectionsByBook = new Map<string, string[]>();
+
+    let files: string[] = [];
+    try {
+      files = (await fs.readdir(dir)).filter(file => file.endsWith('.json'));
+    } catch (error) {
+      console.warn('[glossary] No curated collections found:', error);
+    }
+
+    for (const file of files) {
+      try {
+        const collection = JSON.parse(await fs.readFile(path.join(dir, file), 'utf-8'));
+        const id: string = collection.id || file.replace(/\.json$/, '');
+        const bookIds: string[] = (collection.books || []).map((b: { bookId: string }) => b.bookId).filter(Boolean);
+        booksByCollection.set(id, bookIds);
+        for (const bookId of bookIds) {
+          collectionsByBook.set(bookId, [...(collectionsByBook.get(bookId) || []), id]);
+        }
+      } catch (error) {
+        console.error(`[glossary] Error reading collection ${file}:`, error);
+      }
+    }
+
+    return { booksByCollection, collectionsByBook };
+  })();
+  return curatedCollections;
+}
+
+export async function getCollectionIdsForBook(bookId: string): Promise<string[]> {
+  return (await loadCuratedCollections()).collectionsByBook.get(bookId) || [];
+}
+
+/**
+ * Book ids of a curated collection, or null if there is no such collection.
+ */
+export async function getCollectionBookIds(collectionId: string): Promise<string[] | null> {
+  return (await loadCuratedCollections()).booksByCollection.get(collectionId) || null;
+}
+
+/**
+ * A book's effective glossary for one target language: its own entries plus
+ * those of its collections. A book entry replaces a collection entry for the
+ * same source term.
+ */
+export async function getBookGlossary(
+  bookId: string,
+  targetLanguage = 'English',
+  db?: Db
+): Promise<GlossaryEntry[]> {
+  const database = db || await getDb();
+  const collectionIds = await getCollectionIdsForBook(bookId);
+
+  const entries = await database.collection<GlossaryEntry>(GLOSSARY_COLLECTION)
+    .find(
+      {
+        target_language: targetLanguage,
+        $or: [
+          { scope: 'book', scope_id: bookId },
+          ...(collectionIds.length > 0 ? [{ scope: 'collection' as const, scope_id: { $in: collectionIds } }] : []),
+        ],
+      },
+      { projection: { _id: 0 } }
+    )
+    .toArray();
+
+  const byTerm = new Map<string, GlossaryEntry>();
+  for (const entry of entries) {
+    const key = normalizeTerm(entry.source_term);
+    const existing = byTerm.get(key);
+    if (!existing || (existing.scope === 'collection' && entry.scope === 'book')) {
+      byTerm.set(key, entry);
+    }
+  }
+
+  return [...byTerm.values()].sort((a, b) => a.source_term.localeCompare(b.source_term));
+}
+
+/**
+ * The glossary and approved memory a book's translations draw on. Memory
+ * comes from the book and from the other books of its collections.
+ */
+export async function loadTranslationResources(
+  bookId: string,
+  languages: { sourceLanguage?: string; targetLanguage?: string } = {},
+  db?: Db
+): Promise<TranslationResources> {
+  const database = db || await getDb();
+  const targetLanguage = languages.targetLanguage || 'English';
+
+  let sourceLanguage = languages.sourceLanguage;
+  if (!sourceLanguage) {
+    const book = await database.collection('books').findOne({ id: bookId }, { projection: { language: 1 } });
+    sourceLanguage = book?.language;
+  }
+
+  const { booksByCollection } = await loadCuratedCollections();
+  const relatedBookIds = new Set([bookId]);
+  for (const collectionId of await getCollectionIdsForBook(bookId)) {
+    for (const id of booksByCollection.get(collectionId) || []) relatedBookIds.add(id);
+  }
+
+  const [glossary, memory] = await Promise.all([
+    getBookGlossary(bookId, targetLanguage, database),
+    database.collection<TranslationMemorySegment>(TRANSLATION_MEMORY_COLLECTION)
+      .find(
+        {
+          book_id: { $in: [...relatedBookIds] },
+          target_language: targetLanguage,
+          ...(sourceLanguage && { source_language: sourceLanguage }),
+        },
+        { projection: { _id: 0 } }
+      )
+      .sort({ created_at: -1 })
+      .limit(MAX_MEMORY_SEGMENTS)
+      .toArray(),
+  ]);
+
+  return { sourceLanguage, glossary, memory };
+}
+
+/**
+ * Add the current OCR/translation of the given pages to the translation
+ * memory, replacing whatever was approved for them before.
+ */
+export async function approveTranslations(
+  pageIds: string[],
+  approvedBy?: string,
+  db?: Db
+): Promise<{ pages: number; segments: number }> {
+  const database = db || await getDb();
+  const pages = await database.collection('pages')
+    .find(
+      { id: { $in: pageIds }, 'ocr.data': { $nin: [null, ''] }, 'translation.data': { $nin: [null, ''] } },
+      { projection: { id: 1, book_id: 1, 'ocr.data': 1, 'translation.data': 1, 'translation.language': 1 } }
+    )
+    .toArray();
+
+  const bookIds = [...new Set(pages.map(p => p.book_id as string))];
+  const books = await database.collection('books')
+    .find({ id: { $in: bookIds } }, { projection: { id: 1, language: 1 } })
+    .toArray();
+  const languages = new Map(books.map(b => [b.id as string, b.language as string]));
+
+  const now = new Date();
+  const segments: TranslationMemorySegment[] = pages.flatMap(page =>
+    segmentPage(page.ocr.data, page.translation.data).map(({ source, target }) => ({
+      id: nanoid(12),
+      book_id: page.book_id,
+      page_id: page.id,
+      source_language: languages.get(page.book_id) || 'Latin',
+      target_language: page.translation.language || 'English',
+      source_text: source,
+      target_text: target,
+      ...(approvedBy && { approved_by: approvedBy }),
+      created_at: now,
+    }))
+  );
+
+  const memory = database.collection<TranslationMemorySegment>(TRANSLATION_MEMORY_COLLECTION);
+  await memory.deleteMany({ page_id: { $in: pages.map(p => p.id as string) } });
+  if (segments.length > 0) {
+    await memory.insertMany(segments);
+  }
+
+  return { pages: pages.length, segments: segments.length };
+}
+
+export async function ensureGlossaryIndexes(db?: Db): Promise<void> {
+  const database = db || await getDb();
+  await database.collection(GLOSSARY_COLLECTION).createIndex({ id: 1 }, { name: 'glossary_id_idx', unique: true });
+  await database.collection(GLOSSARY_COLLECTION).createIndex(
+    { scope: 1, scope_id: 1, target_language: 1 },
+    { name: 'glossary_scope_idx' }
+  );
+  await database.collection(TRANSLATION_MEMORY_COLLECTION).createIndex(
+    { book_id: 1, target_language: 1, created_at: -1 },
+    { name: 'translation_memory_book_idx' }
+  );
+  await database.collection(TRANSLATION_MEMORY_COLLECTION).createIndex({ page_id: 1 }, { name: 'translation_memory_page_idx' });
+}
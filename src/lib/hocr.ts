@@ -0,0 +1,65 @@
+/**
+ * hOCR export of word-level OCR.
+ *
+ * One ocr_page per page that has an OCR layout (see ocr-layout.ts), holding
+ * ocr_line and ocrx_word spans with `bbox` properties in pixels of the image
+ * that was OCR'd, so split pages refer to their cropped half.
+ *
+ * Spec: https://kba.github.io/hocr-spec/1.2/
+ */
+
+import type { Book, OcrBox, Page } from './types';
+import { getLanguageCodes } from './types';
+import { escapeXml } from './tei';
+import { getPageImageUrl } from './utils';
+import { boxToPixels, layoutPixelSize } from './ocr-layout';
+
+export const HOCR_CONTENT_TYPE = 'application/xhtml+xml; charset=utf-8';
+
+function bbox(box: OcrBox, width: number, height: number): string {
+  const px = boxToPixels(box, width, height);
+  return `bbox ${px.x} ${px.y} ${px.x + px.width} ${px.y + px.height}`;
+}
+
+function hocrPage(page: Page): string {
+  const layout = page.ocr!.layout!;
+  const { width, height } = layoutPixelSize(layout);
+  const n = page.page_number;
+  const image = escapeXml(getPageImageUrl(page)).replace(/&quot;/g, '%22');
+
+  const lines = layout.lines.map((line, l) => {
+    const words = line.words.length > 0 ? line.words : [{ text: line.text, box: line.box }];
+    const spans = words
+      .map((word, w) => `<span class="ocrx_word" id="word_${n}_${l + 1}_${w + 1}" title="${bbox(word.box, width, height)}">${escapeXml(word.text)}</span>`)
+      .join(' ');
+    return `      <span class="ocr_line" id="line_${n}_${l + 1}" title="${bbox(line.box, width, height)}">${spans}</span>`;
+  });
+
+  return `    <div class="ocr_page" id="page_${n}" title="image &quot;${image}&quot;; bbox 0 0 ${width} ${height}; ppageno ${n - 1}">
+${lines.join('\n')}
+    </div>`;
+}
+
+/**
+ * Build an hOCR (XHTML) document for the pages of a book that have an OCR layout.
+ */
+export function generateHocrDocument(book: Book, pages: Page[]): string {
+  const withLayout = pages.filter(p => p.ocr?.layout);
+  const lang = getLanguageCodes(book.language)?.bcp47 || 'und';
+  const models = Array.from(new Set(withLayout.map(p => p.ocr!.layout!.model)));
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">
+<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="${lang}" lang="${lang}">
+  <head>
+    <title>${escapeXml(book.display_title || book.title)}</title>
+    <meta http-equiv="Content-Type" content="text/html; charset=utf-8"/>
+    <meta name="ocr-system" content="${escapeXml(`Source Library (${models.join(', ') || 'unknown'})`)}"/>
+    <meta name="ocr-capabilities" content="ocr_page ocr_line ocrx_word"/>
+  </head>
+  <body>
+${withLayout.map(hocrPage).join('\n')}
+  </body>
+</html>
+`;
+}
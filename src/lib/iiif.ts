@@ -0,0 +1,467 @@
+/**
+ * IIIF Presentation API 3.0 manifest generation.
+ *
+ * Each Source Library page becomes one Canvas. Split pages paint a region of
+ * the original scan (photo_original) selected with their CropData, so viewers
+ * show the same page boundaries as our reader without needing cropped copies.
+ * OCR and translation are attached as `supplementing` annotations and detected
+ * illustrations as `tagging` annotations on the canvas.
+ *
+ * Spec: https://iiif.io/api/presentation/3.0/
+ */
+
+import { imageDimensions } from './ocr-layout';
+import type { Book, Page, CropData } from './types';
+import { getLanguageCodes, isRTLLanguage, stripAnnotationTags } from './types';
+
+const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL || 'https://sourcelibrary.org';
+
+export const IIIF_CONTEXT = 'http://iiif.io/api/presentation/3/context.json';
+export const IIIF_CONTENT_TYPE = `application/ld+json;profile="${IIIF_CONTEXT}"`;
+
+// Used when an image cannot be probed (typical early modern quarto proportions)
+const FALLBACK_DIMENSIONS = { width: 1000, height: 1500 };
+
+// Time budget for probing image sizes during a single manifest request
+const PROBE_BUDGET_MS = 20000;
+const PROBE_CONCURRENCY = 6;
+const PROBE_TIMEOUT_MS = 15000;
+// Bytes read from the start of an image to find its size in the header
+const PROBE_HEADER_BYTES = 64 * 1024;
+
+const LICENSE_URLS: Record<string, string> = {
+  'CC0-1.0': 'http://creativecommons.org/publicdomain/zero/1.0/',
+  'CC-BY-4.0': 'http://creativecommons.org/licenses/by/4.0/',
+  'CC-BY-SA-4.0': 'http://creativecommons.org/licenses/by-sa/4.0/',
+  'CC-BY-NC-4.0': 'http://creativecommons.org/licenses/by-nc/4.0/',
+  'CC-BY-NC-SA-4.0': 'http://creativecommons.org/licenses/by-nc-sa/4.0/',
+  publicdomain: 'http://creativecommons.org/publicdomain/mark/1.0/',
+};
+
+// ============================================
+// IIIF TYPES (subset of Presentation 3.0 we emit)
+// ============================================
+
+export type LanguageMap = Record<string, string[]>;
+
+interface IIIFResource {
+  id: string;
+  type: string;
+  label?: LanguageMap;
+  format?: string;
+  profile?: string;
+}
+
+interface IIIFAnnotation {
+  id: string;
+  type: 'Annotation';
+  motivation: 'painting' | 'supplementing' | 'tagging';
+  body: Record<string, unknown>;
+  target: string;
+}
+
+interface IIIFAnnotationPage {
+  id: string;
+  type: 'AnnotationPage';
+  items: IIIFAnnotation[];
+}
+
+export interface IIIFCanvas {
+  id: string;
+  type: 'Canvas';
+  label: LanguageMap;
+  width: number;
+  height: number;
+  thumbnail?: IIIFResource[];
+  items: IIIFAnnotationPage[];
+  annotations?: IIIFAnnotationPage[];
+}
+
+interface IIIFRange {
+  id: string;
+  type: 'Range';
+  label: LanguageMap;
+  items: Array<{ id: string; type: 'Canvas' }>;
+}
+
+export interface IIIFManifest {
+  '@context': string;
+  id: string;
+  type: 'Manifest';
+  label: LanguageMap;
+  summary?: LanguageMap;
+  metadata: Array<{ label: LanguageMap; value: LanguageMap }>;
+  requiredStatement?: { label: LanguageMap; value: LanguageMap };
+  rights?: string;
+  provider: Array<Record<string, unknown>>;
+  homepage: IIIFResource[];
+  seeAlso: IIIFResource[];
+  thumbnail?: IIIFResource[];
+  viewingDirection: 'left-to-right' | 'right-to-left';
+  behavior: string[];
+  items: IIIFCanvas[];
+  structures?: IIIFRange[];
+}
+
+// ============================================
+// IMAGE DIMENSIONS
+// ============================================
+
+type Dimensions = { width: number; height: number };
+
+function originalImageUrl(page: Page): string {
+  return page.photo_original || page.photo;
+}
+
+// The first `limit` bytes of a body; servers that ignore the Range header
+// aren't read any further
+async function readPrefix(body: ReadableStream<Uint8Array>, limit: number): Promise<Buffer> {
+  const reader = body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  try {
+    while (length < limit) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+      length += value.length;
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+  }
+  return Buffer.concat(chunks).subarray(0, limit);
+}
+
+async function probeDimensions(url: string): Promise<Dimensions | null> {
+  try {
+    const response = await fetch(url, {
+      headers: { Range: `bytes=0-${PROBE_HEADER_BYTES - 1}` },
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    });
+    if (!response.ok || !response.body) return null;
+    const { width, height } = imageDimensions(await readPrefix(response.body, PROBE_HEADER_BYTES));
+    return width && height ? { width, height } : null;
+  } catch (error) {
+    console.warn(`[iiif] Could not probe image size for ${url}:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Resolve the pixel size of each page's original scan.
+ * Known sizes come from `original_dimensions`, recorded when a split page's
+ * scan is cropped; missing ones are read from the image's header (JPEG or
+ * PNG) within a time budget. Nothing is saved, so a manifest request only
+ * reads. Pages that still have no size fall back to the split-detection
+ * aspect ratio.
+ */
+export async function resolveOriginalDimensions(pages: Page[]): Promise<Map<string, Dimensions>> {
+  const dimensions = new Map<string, Dimensions>();
+  const missing: Page[] = [];
+
+  for (const page of pages) {
+    if (page.original_dimensions?.width && page.original_dimensions?.height) {
+      dimensions.set(page.id, page.original_dimensions);
+    } else if (originalImageUrl(page)?.startsWith('http')) {
+      missing.push(page);
+    }
+  }
+
+  // Split pages share one original; probe each URL once
+  const byUrl = new Map<string, Page[]>();
+  for (const page of missing) {
+    const url = originalImageUrl(page);
+    byUrl.set(url, [...(byUrl.get(url) || []), page]);
+  }
+
+  const deadline = Date.now() + PROBE_BUDGET_MS;
+  const queue = Array.from(byUrl.keys());
+
+  const worker = async () => {
+    while (queue.length > 0 && Date.now() < deadline) {
+      const url = queue.shift()!;
+      const size = await probeDimensions(url);
+      if (!size) continue;
+      (byUrl.get(url) || []).forEach(p => dimensions.set(p.id, size));
+    }
+  };
+  await Promise.all(Array.from({ length: PROBE_CONCURRENCY }, worker));
+
+  for (const page of pages) {
+    if (dimensions.has(page.id)) continue;
+    const aspectRatio = page.split_detection?.metrics?.aspectRatio;
+    dimensions.set(page.id, aspectRatio
+      ? { width: Math.round(FALLBACK_DIMENSIONS.height * aspectRatio), height: FALLBACK_DIMENSIONS.height }
+      : FALLBACK_DIMENSIONS);
+  }
+
+  return dimensions;
+}
+
+// ============================================
+// MANIFEST
+// ============================================
+
+/**
+ * Convert CropData (0-1000 scale) to a pixel region of the original image.
+ */
+export function cropToRegion(crop: CropData | undefined, original: Dimensions): { x: number; y: number; w: number; h: number } {
+  const xStart = crop?.xStart ?? 0;
+  const xEnd = crop?.xEnd ?? 1000;
+  const yStart = crop?.yStart ?? 0;
+  const yEnd = crop?.yEnd ?? 1000;
+
+  const x = Math.round((xStart / 1000) * original.width);
+  const y = Math.round((yStart / 1000) * original.height);
+  return {
+    x,
+    y,
+    w: Math.max(1, Math.round((xEnd / 1000) * original.width) - x),
+    h: Math.max(1, Math.round((yEnd / 1000) * original.height) - y),
+  };
+}
+
+function imageFormat(url: string): string {
+  const lower = url.toLowerCase().split('?')[0];
+  if (lower.endsWith('.png')) return 'image/png';
+  if (lower.endsWith('.webp')) return 'image/webp';
+  if (lower.endsWith('.jp2')) return 'image/jp2';
+  return 'image/jpeg';
+}
+
+function buildCanvas(
+  manifestId: string,
+  page: Page,
+  original: Dimensions,
+  sourceLang: string,
+  targetLang: string
+): IIIFCanvas {
+  const canvasId = `${manifestId}/canvas/${page.id}`;
+  const region = cropToRegion(page.crop, original);
+  const imageUrl = originalImageUrl(page);
+  const isCropped = !!page.crop;
+
+  const imageBody: Record<string, unknown> = {
+    id: imageUrl,
+    type: 'Image',
+    format: imageFormat(imageUrl),
+    width: original.width,
+    height: original.height,
+  };
+
+  const painting: IIIFAnnotation = {
+    id: `${canvasId}/annotation/image`,
+    type: 'Annotation',
+    motivation: 'painting',
+    body: isCropped
+      ? {
+          type: 'SpecificResource',
+          source: imageBody,
+          selector: {
+            type: 'FragmentSelector',
+            conformsTo: 'http://www.w3.org/TR/media-frags/',
+            value: `xywh=${region.x},${region.y},${region.w},${region.h}`,
+          },
+        }
+      : imageBody,
+    target: canvasId,
+  };
+
+  const annotations: IIIFAnnotation[] = [];
+
+  if (page.ocr?.data) {
+    annotations.push({
+      id: `${canvasId}/annotation/ocr`,
+      type: 'Annotation',
+      motivation: 'supplementing',
+      body: {
+        type: 'TextualBody',
+        value: stripAnnotationTags(page.ocr.data),
+        format: 'text/plain',
+        ...(sourceLang !== 'none' ? { language: sourceLang } : {}),
+        label: { en: ['Transcription'] },
+      },
+      target: canvasId,
+    });
+  }
+
+  if (page.translation?.data) {
+    annotations.push({
+      id: `${canvasId}/annotation/translation`,
+      type: 'Annotation',
+      motivation: 'supplementing',
+      body: {
+        type: 'TextualBody',
+        value: stripAnnotationTags(page.translation.data),
+        format: 'text/plain',
+        language: targetLang,
+        label: { en: ['Translation'] },
+      },
+      target: canvasId,
+    });
+  }
+
+  // Detected illustrations: bbox is 0-1 relative to the page, i.e. to this canvas.
+  // A tag needs a text body, so undescribed ones are left out
+  (page.detected_images || [])
+    .filter(img => img.bbox && img.status !== 'rejected' && (img.museum_description || img.description))
+    .forEach((img, index) => {
+      const bbox = img.bbox!;
+      const x = Math.round(bbox.x * region.w);
+      const y = Math.round(bbox.y * region.h);
+      const w = Math.max(1, Math.round(bbox.width * region.w));
+      const h = Math.max(1, Math.round(bbox.height * region.h));
+      annotations.push({
+        id: `${canvasId}/annotation/image-${img.id || index}`,
+        type: 'Annotation',
+        motivation: 'tagging',
+        body: {
+          type: 'TextualBody',
+          value: (img.museum_description || img.description)!,
+          format: 'text/plain',
+          language: 'en',
+          ...(img.type ? { label: { en: [img.type] } } : {}),
+        },
+        target: `${canvasId}#xywh=${x},${y},${w},${h}`,
+      });
+    });
+
+  const canvas: IIIFCanvas = {
+    id: canvasId,
+    type: 'Canvas',
+    label: { none: [`${page.page_number}`] },
+    width: region.w,
+    height: region.h,
+    items: [{
+      id: `${canvasId}/page/image`,
+      type: 'AnnotationPage',
+      items: [painting],
+    }],
+  };
+
+  const thumbnailUrl = page.thumbnail || page.cropped_photo;
+  if (thumbnailUrl) {
+    canvas.thumbnail = [{ id: thumbnailUrl, type: 'Image', format: imageFormat(thumbnailUrl) }];
+  }
+
+  if (annotations.length > 0) {
+    canvas.annotations = [{
+      id: `${canvasId}/page/annotations`,
+      type: 'AnnotationPage',
+      items: annotations,
+    }];
+  }
+
+  return canvas;
+}
+
+function metadataEntry(label: string, value: string | undefined) {
+  return value ? [{ label: { en: [label] }, value: { none: [value] } }] : [];
+}
+
+/**
+ * Build a IIIF Presentation 3.0 manifest for a book.
+ * `dimensions` maps page id → original image size (see resolveOriginalDimensions).
+ */
+export function buildManifest(book: Book, pages: Page[], dimensions: Map<string, Dimensions>): IIIFManifest {
+  const manifestId = `${BASE_URL}/api/books/${book.id}/manifest`;
+  const sourceLang = getLanguageCodes(book.language)?.bcp47 || 'none';
+  const targetLang = 'en';
+  const dc = book.dublin_core;
+  const image = book.image_source;
+
+  const label: LanguageMap = { en: [book.display_title || book.title] };
+  if (book.display_title && book.display_title !== book.title) {
+    label[sourceLang] = [book.title];
+  }
+
+  const manifest: IIIFManifest = {
+    '@context': IIIF_CONTEXT,
+    id: manifestId,
+    type: 'Manifest',
+    label,
+    metadata: [
+      ...metadataEntry('Author', book.author),
+      ...metadataEntry('Original Title', book.title),
+      ...metadataEntry('Published', book.published),
+      ...metadataEntry('Place', book.place_published),
+      ...metadataEntry('Printer', book.publisher),
+      ...metadataEntry('Language', book.language),
+      ...metadataEntry('Format', book.format),
+      ...metadataEntry('USTC', book.ustc_id),
+      ...metadataEntry('DOI', book.doi),
+      ...metadataEntry('Source', image?.provider_name),
+    ],
+    provider: [{
+      id: BASE_URL,
+      type: 'Agent',
+      label: { en: ['Source Library'] },
+      homepage: [{ id: BASE_URL, type: 'Text', label: { en: ['Source Library'] }, format: 'text/html' }],
+    }],
+    homepage: [{
+      id: `${BASE_URL}/book/${book.id}`,
+      type: 'Text',
+      label: { en: [book.display_title || book.title] },
+      format: 'text/html',
+    }],
+    seeAlso: [{
+      id: `${BASE_URL}/api/books/${book.id}/download?format=tei`,
+      type: 'Dataset',
+      label: { en: ['TEI P5 transcription and translation'] },
+      format: 'application/tei+xml',
+      profile: 'https://tei-c.org/ns/1.0',
+    }],
+    viewingDirection: isRTLLanguage(book.language) ? 'right-to-left' : 'left-to-right',
+    behavior: ['paged'],
+    items: pages.map(page => buildCanvas(
+      manifestId,
+      page,
+      dimensions.get(page.id) || FALLBACK_DIMENSIONS,
+      sourceLang,
+      targetLang
+    )),
+  };
+
+  const summary = dc?.dc_description
+    || (typeof book.summary === 'string' ? book.summary : book.summary?.data)
+    || book.index?.bookSummary?.brief;
+  if (summary) {
+    manifest.summary = { en: [summary] };
+  }
+
+  const license = image?.license || book.license;
+  const rights = image?.license_url || (license ? LICENSE_URLS[license] : undefined);
+  if (rights && /^https?:\/\/(creativecommons\.org|rightsstatements\.org)\//.test(rights)) {
+    manifest.rights = rights.replace(/^https:/, 'http:');
+  }
+
+  if (image?.attribution || image?.provider_name) {
+    manifest.requiredStatement = {
+      label: { en: ['Attribution'] },
+      value: { en: [image.attribution || `Images: ${image.provider_name}`] },
+    };
+  }
+
+  if (book.thumbnail) {
+    manifest.thumbnail = [{ id: book.thumbnail, type: 'Image', format: imageFormat(book.thumbnail) }];
+  }
+
+  // Table of contents from extracted chapters
+  if (book.chapters && book.chapters.length > 0) {
+    const canvasIds = pages.map(p => ({ id: `${manifestId}/canvas/${p.id}`, pageNumber: p.page_number }));
+    const chapters = [...book.chapters].sort((a, b) => a.pageNumber - b.pageNumber);
+    manifest.structures = chapters.map((chapter, index) => {
+      const end = chapters[index + 1]?.pageNumber ?? Infinity;
+      return {
+        id: `${manifestId}/range/${index + 1}`,
+        type: 'Range' as const,
+        label: { none: [chapter.title] },
+        items: canvasIds
+          .filter(c => c.pageNumber >= chapter.pageNumber && c.pageNumber < end)
+          .map(c => ({ id: c.id, type: 'Canvas' as const })),
+      };
+    }).filter(range => range.items.length > 0);
+  }
+
+  return manifest;
+}
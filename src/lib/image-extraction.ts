@@ -4,6 +4,8 @@
  */
 
 import { images } from '@/lib/api-client';
+import { generateText } from '@/lib/ai';
+import type { DetectedImage as PageDetectedImage } from '@/lib/types';
 
 export const IMAGE_EXTRACTION_PROMPT = `You are a museum curator analyzing a historical book page scan. Create rich metadata for each illustration.
 
@@ -65,7 +67,7 @@ export interface ImageMetadata {
 
 export interface DetectedImage {
   description: string;
-  type?: string;
+  type?: ImageType;
   bbox?: { x: number; y: number; width: number; height: number };
   confidence?: number;
   gallery_quality?: number;
@@ -77,6 +79,13 @@ export interface DetectedImage {
   model: string;
 }
 
+type ImageType = NonNullable<PageDetectedImage['type']>;
+
+const IMAGE_TYPES: readonly ImageType[] = [
+  'woodcut', 'diagram', 'chart', 'illustration', 'symbol', 'table', 'map', 'decorative',
+  'emblem', 'engraving', 'portrait', 'frontispiece', 'musical_score', 'unknown',
+];
+
 const DEFAULT_MODEL = 'gemini-2.5-flash';
 
 function getMimeType(url: string, headerType: string | null | undefined): string {
@@ -92,53 +101,26 @@ function getMimeType(url: string, headerType: string | null | undefined): string
 }
 
 /**
- * Extract illustrations from a page image using Gemini vision
+ * Extract illustrations from a page image with a vision model
  * @param imageUrl URL to fetch the image from
- * @param model Gemini model to use (default: gemini-2.5-flash)
+ * @param model Model id; any provider's vision model works (default: gemini-2.5-flash)
  * @returns Array of detected images with bounding boxes and metadata
  */
-export async function extractWithGemini(
+export async function extractImages(
   imageUrl: string,
   model: string = DEFAULT_MODEL
 ): Promise<DetectedImage[]> {
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY not set');
-  }
-
   // Fetch and encode image
   const imageData = await images.fetchBase64(imageUrl, { includeMimeType: true });
   const { base64: base64Image, mimeType } = typeof imageData === 'string'
     ? { base64: imageData, mimeType: getMimeType(imageUrl, null) }
     : { base64: imageData.base64, mimeType: imageData.mimeType };
 
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [{
-          parts: [
-            { text: IMAGE_EXTRACTION_PROMPT },
-            { inline_data: { mime_type: mimeType, data: base64Image } }
-          ]
-        }],
-        generationConfig: {
-          temperature: 0.1,
-          maxOutputTokens: 2048,
-        }
-      })
-    }
-  );
-
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Gemini API error: ${response.status} - ${error.slice(0, 200)}`);
-  }
-
-  const data = await response.json();
-  const text = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+  const { text } = await generateText(IMAGE_EXTRACTION_PROMPT, model, {
+    images: [{ mimeType, data: base64Image }],
+    temperature: 0.1,
+    maxOutputTokens: 2048,
+  });
 
   // Parse JSON from response
   const jsonMatch = text.match(/\[[\s\S]*\]/);
@@ -151,7 +133,7 @@ export async function extractWithGemini(
 
   return parsed.map(item => ({
     description: item.description || '',
-    type: item.type || 'unknown',
+    type: IMAGE_TYPES.includes(item.type) ? item.type as ImageType : 'unknown',
     bbox: item.bbox ? {
       x: parseFloat(item.bbox.x) || 0,
       y: parseFloat(item.bbox.y) || 0,
@@ -3,7 +3,8 @@
  * Follows DRY principle by centralizing common job operations
  */
 import { getDb } from '@/lib/mongodb';
-import type { JobStatus } from '@/lib/types';
+import { emitWebhookEvent } from '@/lib/webhooks.server';
+import { JOB_TRANSITIONS, isValidJobTransition, type Job, type JobStatus } from '@/lib/types';
 
 /**
  * Fetch a job by ID
@@ -22,75 +23,75 @@ export async function getJobById(id: string) {
   return { job, db };
 }
 
+type JobAction = 'cancel' | 'pause' | 'resume' | 'retry';
+
+/**
+ * What each control action does to a job: the status it moves the job to,
+ * the statuses it may start from (on top of JOB_TRANSITIONS allowing the
+ * move), and the error when it may not.
+ */
+const JOB_ACTIONS: Record<JobAction, { to: JobStatus; from?: JobStatus[]; error: string }> = {
+  cancel: { to: 'cancelled', error: 'Job already finished' },
+  pause: { to: 'paused', from: ['pending', 'processing'], error: 'Can only pause pending or processing jobs' },
+  resume: { to: 'pending', from: ['paused'], error: 'Can only resume paused jobs' },
+  retry: { to: 'pending', from: ['failed', 'cancelled', 'dead'], error: 'Can only retry failed, cancelled or dead jobs' },
+};
+
+function actionStartStatuses(action: JobAction): JobStatus[] {
+  const { to, from } = JOB_ACTIONS[action];
+  return (Object.keys(JOB_TRANSITIONS) as JobStatus[])
+    .filter(status => isValidJobTransition(status, to) && (!from || from.includes(status)));
+}
+
 /**
  * Validate if a job can transition to a new status
  */
 export function canTransitionTo(
   currentStatus: JobStatus,
-  action: 'cancel' | 'pause' | 'resume' | 'retry'
+  action: JobAction
 ): { valid: boolean; error?: string } {
-  switch (action) {
-    case 'cancel':
-      if (currentStatus === 'completed' || currentStatus === 'cancelled') {
-        return { valid: false, error: 'Job already finished' };
-      }
-      return { valid: true };
-
-    case 'pause':
-      if (currentStatus !== 'processing' && currentStatus !== 'pending') {
-        return { valid: false, error: 'Can only pause pending or processing jobs' };
-      }
-      return { valid: true };
-
-    case 'resume':
-      if (currentStatus !== 'paused') {
-        return { valid: false, error: 'Can only resume paused jobs' };
-      }
-      return { valid: true };
-
-    case 'retry':
-      if (currentStatus !== 'failed' && currentStatus !== 'cancelled') {
-        return { valid: false, error: 'Can only retry failed or cancelled jobs' };
-      }
-      return { valid: true };
-
-    default:
-      return { valid: false, error: 'Invalid action' };
+  if (!Object.hasOwn(JOB_ACTIONS, action)) {
+    return { valid: false, error: 'Invalid action' };
+  }
+  if (!actionStartStatuses(action).includes(currentStatus)) {
+    return { valid: false, error: JOB_ACTIONS[action].error };
   }
+  return { valid: true };
 }
 
 /**
- * Update job status with appropriate fields
+ * Update job status with appropriate fields.
+ *
+ * Only applies while the job is still in a status the action may start from,
+ * so a job that finished in the meantime is left alone; returns whether it
+ * was updated. Any lease is dropped, which stops a worker running the job
+ * at its next heartbeat.
  */
 export async function updateJobStatus(
   db: Awaited<ReturnType<typeof getDb>>,
   jobId: string,
-  action: 'cancel' | 'pause' | 'resume' | 'retry',
+  action: JobAction,
   job?: any
-) {
+): Promise<boolean> {
   const updates: Record<string, any> = {
+    status: JOB_ACTIONS[action].to,
+    lease: null,
     updated_at: new Date(),
   };
 
   switch (action) {
     case 'cancel':
-      updates.status = 'cancelled';
       updates.completed_at = new Date();
       break;
 
     case 'pause':
-      updates.status = 'paused';
-      break;
-
     case 'resume':
-      updates.status = 'pending';
       break;
 
     case 'retry':
       if (!job) {
         throw new Error('Job data required for retry action');
       }
-      updates.status = 'pending';
       updates.progress = {
         total: job.progress.total,
         completed: job.progress.completed,
@@ -98,8 +99,37 @@ export async function updateJobStatus(
       };
       // Filter out failed results to retry them
       updates.results = job.results.filter((r: { success: boolean }) => r.success);
+      updates.attempts = 0;
+      updates.run_after = new Date();
+      updates.error = null;
       break;
   }
 
-  await db.collection('jobs').updateOne({ id: jobId }, { $set: updates });
+  const result = await db.collection('jobs').updateOne(
+    { id: jobId, status: { $in: actionStartStatuses(action) } },
+    { $set: updates }
+  );
+  return result.modifiedCount > 0;
+}
+
+/**
+ * Tell webhook subscribers that a job finished: job.completed, or
+ * job.failed for failed and dead jobs. Other statuses send nothing.
+ */
+export async function emitJobFinished(job: Job): Promise<void> {
+  const type = job.status === 'completed' ? 'job.completed'
+    : job.status === 'failed' || job.status === 'dead' ? 'job.failed'
+    : null;
+  if (!type) return;
+
+  await emitWebhookEvent(type, {
+    job_id: job.id,
+    type: job.type,
+    status: job.status,
+    book_id: job.book_id ?? null,
+    book_title: job.book_title ?? null,
+    progress: { total: job.progress.total, completed: job.progress.completed, failed: job.progress.failed },
+    error: job.error ?? null,
+    completed_at: job.completed_at ?? job.updated_at,
+  }, { tenant_id: job.tenant_id });
 }
@@ -1,4 +1,6 @@
 import { MongoClient, Db } from 'mongodb';
+import { scopeDb } from './tenant-db';
+import { getTenantId } from './tenant.server';
 
 const uri = process.env.MONGODB_URI;
 const dbName = process.env.MONGODB_DB;
@@ -14,14 +16,14 @@ let cachedClient: MongoClient | null = null;
 let cachedDb: Db | null = null;
 
 export async function connectToDatabase(): Promise<{ client: MongoClient; db: Db }> {
-  if (!uri || !dbName) {
-    throw new Error('MongoDB environment variables not configured');
-  }
-
   if (cachedClient && cachedDb) {
     return { client: cachedClient, db: cachedDb };
   }
 
+  if (!uri || !dbName) {
+    throw new Error('MongoDB environment variables not configured');
+  }
+
   try {
     const client = new MongoClient(uri);
     await client.connect();
@@ -38,7 +40,24 @@ export async function connectToDatabase(): Promise<{ client: MongoClient; db: Db
   }
 }
 
+/**
+ * Serve connectToDatabase() and getDb() from an existing database instead of
+ * connecting to MONGODB_URI, e.g. the in-memory database the tests run
+ * against.
+ */
+export function setDatabase(client: MongoClient, db: Db): void {
+  cachedClient = client;
+  cachedDb = db;
+}
+
+/**
+ * The database as seen by the current request: books, pages, jobs and the
+ * other tenant-owned collections only show the request's tenant (see
+ * getTenantId). Use connectToDatabase() for work that spans tenants, such as
+ * migrations.
+ */
 export async function getDb(): Promise<Db> {
   const { db } = await connectToDatabase();
-  return db;
+  const tenantId = await getTenantId();
+  return tenantId ? scopeDb(db, tenantId) : db;
 }
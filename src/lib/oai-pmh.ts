@@ -0,0 +1,722 @@
+/**
+ * OAI-PMH 2.0 data provider, so aggregators (Europeana, WorldCat, union
+ * catalogues) can harvest the library's book records.
+ *
+ * Every book is an item, identified as oai:<host>:<book id> and described in
+ * Dublin Core (oai_dc) or MODS. Its datestamp is the latest of updated_at,
+ * last_processed, restored_at and created_at, so incremental harvests with
+ * from/until pick up metadata edits and new OCR or translations. Books moved
+ * to deleted_books are reported as deleted records until they are purged
+ * (deletedRecord: transient).
+ *
+ * Sets are the library categories (category:<id>) and the curated
+ * collections in curator-data (collection:<id>). Resumption tokens carry the
+ * position of the last record returned, so no harvest state is kept.
+ *
+ * Spec: https://www.openarchives.org/OAI/openarchivesprotocol.html
+ */
+
+import type { Db, Document, ObjectId } from 'mongodb';
+import { LIBRARY_CATEGORIES } from '@/app/api/categories/route';
+import { collectionBookFilter, loadCuratedCollections } from './curated-collections';
+import { getDb } from './mongodb';
+import { escapeXml, LICENSE_URLS } from './tei';
+import { getLanguageCodes } from './types';
+import type {
+  Book,
+  OaiErrorCode,
+  OaiHeader,
+  OaiMetadataPrefix,
+  OaiResumptionState,
+  OaiSet,
+  OaiVerb,
+} from './types';
+
+const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL || 'https://sourcelibrary.org';
+
+export const OAI_BASE_URL = `${BASE_URL}/api/oai`;
+const REPOSITORY_ID = new URL(BASE_URL).hostname;
+const ADMIN_EMAIL = process.env.OAI_ADMIN_EMAIL || `oai@${REPOSITORY_ID}`;
+
+// Records per ListIdentifiers / ListRecords response
+export const OAI_PAGE_SIZE = 100;
+
+const EPOCH = new Date(0);
+
+const METADATA_FORMATS: Record<OaiMetadataPrefix, { schema: string; namespace: string }> = {
+  oai_dc: {
+    schema: 'http://www.openarchives.org/OAI/2.0/oai_dc.xsd',
+    namespace: 'http://www.openarchives.org/OAI/2.0/oai_dc/',
+  },
+  mods: {
+    schema: 'http://www.loc.gov/standards/mods/v3/mods-3-7.xsd',
+    namespace: 'http://www.loc.gov/mods/v3',
+  },
+};
+
+// Arguments each verb accepts; resumptionToken excludes all the others
+const VERB_ARGUMENTS: Record<OaiVerb, { required: string[]; optional: string[]; resumable?: boolean }> = {
+  Identify: { required: [], optional: [] },
+  ListMetadataFormats: { required: [], optional: ['identifier'] },
+  ListSets: { required: [], optional: [], resumable: true },
+  ListIdentifiers: { required: ['metadataPrefix'], optional: ['from', 'until', 'set'], resumable: true },
+  ListRecords: { required: ['metadataPrefix'], optional: ['from', 'until', 'set'], resumable: true },
+  GetRecord: { required: ['identifier', 'metadataPrefix'], optional: [] },
+};
+
+// A book's datestamp: the latest of its change dates. Missing dates count as
+// the epoch, so every book has one.
+const DATESTAMP_FIELDS = ['updated_at', 'last_processed', 'restored_at', 'created_at'];
+const DATESTAMP = { $max: DATESTAMP_FIELDS.map(field => ({ $ifNull: [`$${field}`, EPOCH] })) };
+
+// Book fields used by the record metadata
+const RECORD_PROJECTION = {
+  _id: 1, id: 1, title: 1, display_title: 1, author: 1, language: 1, published: 1, place_published: 1,
+  publisher: 1, format: 1, categories: 1, pages_count: 1, summary: 1, doi: 1, license: 1, ustc_id: 1,
+  dublin_core: 1, image_source: 1, oai_datestamp: 1,
+};
+const HEADER_PROJECTION = { _id: 1, id: 1, categories: 1, original_id: 1, oai_datestamp: 1 };
+
+type OaiBook = Book & { _id?: ObjectId; original_id?: ObjectId; oai_datestamp: Date; oai_deleted?: boolean };
+
+class OaiError extends Error {
+  constructor(public code: OaiErrorCode, message: string) {
+    super(message);
+  }
+}
+
+// ============================================
+// DATES, IDENTIFIERS AND TOKENS
+// ============================================
+
+/**
+ * UTC datestamp at the repository's granularity (seconds)
+ */
+export function oaiDatestamp(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+export function oaiIdentifier(bookId: string): string {
+  return `oai:${REPOSITORY_ID}:${bookId}`;
+}
+
+function bookIdFromIdentifier(identifier: string): string | null {
+  const prefix = `oai:${REPOSITORY_ID}:`;
+  return identifier.startsWith(prefix) && identifier.length > prefix.length
+    ? identifier.slice(prefix.length)
+    : null;
+}
+
+// from/until as a date, at day or second granularity. A day-granularity
+// until covers the whole day.
+function parseDateArgument(value: string, bound: 'from' | 'until'): { date: Date; granularity: 'day' | 'second' } {
+  const day = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const second = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/.test(value);
+  const date = new Date(day ? `${value}T00:00:00Z` : value);
+  if ((!day && !second) || Number.isNaN(date.getTime())) {
+    throw new OaiError('badArgument', `${bound} must be YYYY-MM-DD or YYYY-MM-DDThh:mm:ssZ`);
+  }
+  if (day && bound === 'until') date.setUTCHours(23, 59, 59, 999);
+  return { date, granularity: day ? 'day' : 'second' };
+}
+
+function encodeToken(state: OaiResumptionState): string {
+  return Buffer.from(JSON.stringify(state)).toString('base64url');
+}
+
+function decodeToken(token: string, verb: OaiVerb): OaiResumptionState {
+  try {
+    const state = JSON.parse(Buffer.from(token, 'base64url').toString('utf8')) as OaiResumptionState;
+    if (
+      state.verb === verb &&
+      state.metadataPrefix in METADATA_FORMATS &&
+      Number.isInteger(state.cursor) &&
+      typeof state.after?.id === 'string' &&
+      !Number.isNaN(new Date(state.after.datestamp).getTime())
+    ) {
+      return state;
+    }
+  } catch {
+    // Falls through to the error below
+  }
+  throw new OaiError('badResumptionToken', 'The resumptionToken is invalid or has expired');
+}
+
+// ============================================
+// SETS
+// ============================================
+
+export async function listOaiSets(): Promise<OaiSet[]> {
+  const collections = await loadCuratedCollections();
+  return [
+    { spec: 'category', name: 'Categories', description: 'Books by subject area' },
+    ...LIBRARY_CATEGORIES.map(category => ({
+      spec: `category:${category.id}`,
+      name: category.name,
+      description: category.description,
+    })),
+    { spec: 'collection', name: 'Curated collections', description: 'Reading collections assembled by the library\'s curators' },
+    ...collections.map(collection => ({
+      spec: `collection:${collection.id}`,
+      name: collection.title,
+      description: collection.description,
+    })),
+  ];
+}
+
+async function setFilter(set: string | undefined, deleted: boolean): Promise<Document | null> {
+  if (!set) return {};
+  if (set === 'category') return { 'categories.0': { $exists: true } };
+  if (set.startsWith('category:')) return { categories: set.slice('category:'.length) };
+
+  const collections = await loadCuratedCollections();
+  if (set === 'collection') return collectionBookFilter(collections.flatMap(c => c.bookIds), deleted);
+  if (set.startsWith('collection:')) {
+    const collection = collections.find(c => c.id === set.slice('collection:'.length));
+    return collection ? collectionBookFilter(collection.bookIds, deleted) : null;
+  }
+  return null;
+}
+
+async function bookSets(book: OaiBook): Promise<string[]> {
+  const keys = [book.id, book._id?.toString(), book.original_id?.toString()].filter(Boolean);
+  const collections = (await loadCuratedCollections()).filter(c => c.bookIds.some(id => keys.includes(id)));
+  return [
+    ...(book.categories || []).map(category => `category:${category}`),
+    ...collections.map(collection => `collection:${collection.id}`),
+  ];
+}
+
+// ============================================
+// METADATA
+// ============================================
+
+function element(name: string, value: string | number | undefined | null, indent: string, attributes = ''): string[] {
+  if (value === undefined || value === null || value === '') return [];
+  return [`${indent}<${name}${attributes}>${escapeXml(String(value))}</${name}>`];
+}
+
+function bookUrl(book: Book): string {
+  return `${BASE_URL}/book/${book.id}`;
+}
+
+function bookDescription(book: Book): string | undefined {
+  if (book.dublin_core?.dc_description) return book.dublin_core.dc_description;
+  return typeof book.summary === 'string' ? book.summary : book.summary?.data;
+}
+
+function categoryNames(book: Book): string[] {
+  return (book.categories || []).map(id => LIBRARY_CATEGORIES.find(c => c.id === id)?.name || id);
+}
+
+/**
+ * Simple Dublin Core record (oai_dc)
+ */
+export function bookToOaiDc(book: Book, indent = ''): string {
+  const dc = book.dublin_core;
+  const i = `${indent}  `;
+  const language = getLanguageCodes(book.language);
+  const license = book.license || book.image_source?.license;
+
+  return [
+    `${indent}<oai_dc:dc xmlns:oai_dc="${METADATA_FORMATS.oai_dc.namespace}" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${METADATA_FORMATS.oai_dc.namespace} ${METADATA_FORMATS.oai_dc.schema}">`,
+    ...element('dc:title', book.title, i),
+    ...(book.display_title && book.display_title !== book.title ? element('dc:title', book.display_title, i, ' xml:lang="en"') : []),
+    ...element('dc:creator', book.author, i),
+    ...[...(dc?.dc_subject || []), ...categoryNames(book)].flatMap(subject => element('dc:subject', subject, i)),
+    ...element('dc:description', bookDescription(book), i),
+    ...element('dc:publisher', dc?.dc_publisher || book.publisher, i),
+    ...(dc?.dc_contributor || []).flatMap(name => element('dc:contributor', name, i)),
+    ...element('dc:date', book.published, i),
+    ...element('dc:type', dc?.dc_type || 'Text', i),
+    ...element('dc:format', dc?.dc_format || book.format, i),
+    ...element('dc:identifier', bookUrl(book), i),
+    ...element('dc:identifier', book.doi && `https://doi.org/${book.doi}`, i),
+    ...(dc?.dc_identifier || []).flatMap(id => element('dc:identifier', id, i)),
+    ...element('dc:source', dc?.dc_source, i),
+    ...element('dc:source', book.image_source?.source_url, i),
+    ...element('dc:language', language?.bcp47 || book.language, i),
+    ...(dc?.dc_relation || []).flatMap(relation => element('dc:relation', relation, i)),
+    ...element('dc:coverage', dc?.dc_coverage, i),
+    ...element('dc:rights', license && (LICENSE_URLS[license] || license), i),
+    ...element('dc:rights', dc?.dc_rights, i),
+    `${indent}</oai_dc:dc>`,
+  ].join('\n');
+}
+
+/**
+ * MODS 3.7 record
+ */
+export function bookToMods(book: Book & { oai_datestamp?: Date }, indent = ''): string {
+  const dc = book.dublin_core;
+  const i = `${indent}  `;
+  const ii = `${i}  `;
+  const language = getLanguageCodes(book.language);
+  const license = book.license || book.image_source?.license;
+  const licenseUrl = license && (LICENSE_URLS[license] || book.image_source?.license_url);
+  const extent = dc?.dc_format || (book.pages_count ? `${book.pages_count} pages` : undefined);
+  const subjects = [...(dc?.dc_subject || []), ...categoryNames(book)];
+  const original = book.image_source?.source_url || dc?.dc_source;
+
+  const lines = [
+    `${indent}<mods xmlns="${METADATA_FORMATS.mods.namespace}" xmlns:xlink="http://www.w3.org/1999/xlink" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" version="3.7" xsi:schemaLocation="${METADATA_FORMATS.mods.namespace} ${METADATA_FORMATS.mods.schema}">`,
+    `${i}<titleInfo>`,
+    ...element('title', book.title, ii),
+    `${i}</titleInfo>`,
+  ];
+  if (book.display_title && book.display_title !== book.title) {
+    lines.push(`${i}<titleInfo type="translated" lang="eng">`, ...element('title', book.display_title, ii), `${i}</titleInfo>`);
+  }
+  if (book.author) {
+    lines.push(
+      `${i}<name type="personal">`,
+      ...element('namePart', book.author, ii),
+      `${ii}<role><roleTerm type="text" authority="marcrelator">author</roleTerm></role>`,
+      `${i}</name>`
+    );
+  }
+  for (const name of dc?.dc_contributor || []) {
+    lines.push(
+      `${i}<name>`,
+      ...element('namePart', name, ii),
+      `${ii}<role><roleTerm type="text" authority="marcrelator">contributor</roleTerm></role>`,
+      `${i}</name>`
+    );
+  }
+  lines.push(`${i}<typeOfResource>text</typeOfResource>`, ...element('genre', dc?.dc_type, i));
+
+  const place = book.place_published;
+  const publisher = dc?.dc_publisher || book.publisher;
+  if (place || publisher || book.published) {
+    lines.push(
+      `${i}<originInfo>`,
+      ...(place ? [`${ii}<place><placeTerm type="text">${escapeXml(place)}</placeTerm></place>`] : []),
+      ...element('publisher', publisher, ii),
+      ...element('dateIssued', book.published, ii),
+      `${i}</originInfo>`
+    );
+  }
+  if (book.language) {
+    lines.push(
+      `${i}<language>`,
+      ...element('languageTerm', language?.marc, ii, ' type="code" authority="iso639-2b"'),
+      ...element('languageTerm', book.language, ii, ' type="text"'),
+      `${i}</language>`
+    );
+  }
+  if (book.format || extent) {
+    lines.push(`${i}<physicalDescription>`, ...element('form', book.format, ii), ...element('extent', extent, ii), `${i}</physicalDescription>`);
+  }
+  lines.push(...element('abstract', bookDescription(book), i));
+  for (const subject of subjects) {
+    lines.push(`${i}<subject>`, ...element('topic', subject, ii), `${i}</subject>`);
+  }
+  if (dc?.dc_coverage) {
+    lines.push(`${i}<subject>`, ...element('geographic', dc.dc_coverage, ii), `${i}</subject>`);
+  }
+  lines.push(
+    ...element('identifier', book.doi, i, ' type="doi"'),
+    ...element('identifier', bookUrl(book), i, ' type="uri"'),
+    ...element('identifier', book.ustc_id, i, ' type="local" displayLabel="USTC"'),
+    ...(dc?.dc_identifier || []).flatMap(id => element('identifier', id, i)),
+    `${i}<location>`,
+    ...element('url', bookUrl(book), ii, ' usage="primary display" access="object in context"'),
+    `${i}</location>`,
+    ...element('accessCondition', license, i, ` type="use and reproduction"${licenseUrl ? ` xlink:href="${escapeXml(licenseUrl)}"` : ''}`),
+    ...element('accessCondition', dc?.dc_rights, i, ' type="use and reproduction"'),
+  );
+  if (original) {
+    lines.push(
+      `${i}<relatedItem type="original">`,
+      ...(book.image_source?.source_url ? [`${ii}<location>`, ...element('url', book.image_source.source_url, `${ii}  `), `${ii}</location>`] : []),
+      ...element('note', dc?.dc_source, ii),
+      `${i}</relatedItem>`
+    );
+  }
+  for (const relation of dc?.dc_relation || []) {
+    lines.push(`${i}<relatedItem>`, ...element('note', relation, ii), `${i}</relatedItem>`);
+  }
+  lines.push(
+    `${i}<recordInfo>`,
+    ...element('recordContentSource', 'Source Library', ii),
+    ...element('recordIdentifier', book.id, ii),
+    ...(book.oai_datestamp ? element('recordChangeDate', oaiDatestamp(book.oai_datestamp), ii, ' encoding="iso8601"') : []),
+    `${i}</recordInfo>`,
+    `${indent}</mods>`
+  );
+  return lines.join('\n');
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+interface ListQuery {
+  metadataPrefix: OaiMetadataPrefix;
+  set?: string;
+  from?: Date;
+  until?: Date;
+}
+
+function datestampRange(query: ListQuery): Document {
+  if (!query.from && !query.until) return {};
+  return { oai_datestamp: { ...(query.from && { $gte: query.from }), ...(query.until && { $lte: query.until }) } };
+}
+
+/**
+ * Live and deleted books matching a list request, in datestamp order after
+ * the given position, plus the size of the whole list
+ */
+async function findHeaders(
+  db: Db,
+  query: ListQuery,
+  after: OaiResumptionState['after'] | null,
+  limit: number,
+  withMetadata: boolean
+): Promise<{ books: OaiBook[]; total: number }> {
+  const afterFilter = after
+    ? {
+        $or: [
+          { oai_datestamp: { $gt: new Date(after.datestamp) } },
+          { oai_datestamp: new Date(after.datestamp), id: { $gt: after.id } },
+        ],
+      }
+    : {};
+
+  const sources = [
+    { collection: 'books', deleted: false, datestamp: DATESTAMP },
+    { collection: 'deleted_books', deleted: true, datestamp: { $ifNull: ['$deleted_at', EPOCH] } },
+  ];
+
+  const results = await Promise.all(sources.map(async source => {
+    const filter = await setFilter(query.set, source.deleted);
+    if (!filter) return { books: [] as OaiBook[], total: 0 };
+
+    const base = [
+      { $match: filter },
+      { $addFields: { oai_datestamp: source.datestamp } },
+      { $match: datestampRange(query) },
+    ];
+    const projection = withMetadata && !source.deleted ? RECORD_PROJECTION : HEADER_PROJECTION;
+    const [books, count] = await Promise.all([
+      db.collection(source.collection).aggregate<OaiBook>([
+        ...base,
+        { $match: afterFilter },
+        { $sort: { oai_datestamp: 1, id: 1 } },
+        { $limit: limit },
+        { $project: projection },
+      ]).toArray(),
+      db.collection(source.collection).aggregate<{ n: number }>([...base, { $count: 'n' }]).toArray(),
+    ]);
+    return {
+      books: books.map(book => (source.deleted ? { ...book, oai_deleted: true } : book)),
+      total: count[0]?.n || 0,
+    };
+  }));
+
+  const books = results.flatMap(result => result.books).sort((a, b) =>
+    a.oai_datestamp.getTime() - b.oai_datestamp.getTime() || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+  );
+  return { books: books.slice(0, limit), total: results.reduce((sum, result) => sum + result.total, 0) };
+}
+
+async function findBook(db: Db, bookId: string, withMetadata: boolean): Promise<OaiBook | null> {
+  const [live] = await db.collection('books').aggregate<OaiBook>([
+    { $match: { id: bookId } },
+    { $addFields: { oai_datestamp: DATESTAMP } },
+    { $project: withMetadata ? RECORD_PROJECTION : HEADER_PROJECTION },
+  ]).toArray();
+  if (live) return live;
+
+  const [deleted] = await db.collection('deleted_books').aggregate<OaiBook>([
+    { $match: { id: bookId } },
+    { $sort: { deleted_at: -1 } },
+    { $limit: 1 },
+    { $addFields: { oai_datestamp: { $ifNull: ['$deleted_at', EPOCH] } } },
+    { $project: HEADER_PROJECTION },
+  ]).toArray();
+  return deleted ? { ...deleted, oai_deleted: true } : null;
+}
+
+async function earliestDatestamp(db: Db): Promise<Date> {
+  const earliest = await Promise.all([
+    db.collection('books').aggregate<{ oai_datestamp: Date }>([
+      { $addFields: { oai_datestamp: DATESTAMP } },
+      { $sort: { oai_datestamp: 1 } },
+      { $limit: 1 },
+      { $project: { oai_datestamp: 1 } },
+    ]).toArray(),
+    db.collection('deleted_books').aggregate<{ oai_datestamp: Date }>([
+      { $addFields: { oai_datestamp: { $ifNull: ['$deleted_at', EPOCH] } } },
+      { $sort: { oai_datestamp: 1 } },
+      { $limit: 1 },
+      { $project: { oai_datestamp: 1 } },
+    ]).toArray(),
+  ]);
+  const dates = earliest.flat().map(doc => doc.oai_datestamp.getTime());
+  return new Date(dates.length > 0 ? Math.min(...dates) : 0);
+}
+
+// ============================================
+// RESPONSES
+// ============================================
+
+async function headerOf(book: OaiBook): Promise<OaiHeader> {
+  return {
+    identifier: oaiIdentifier(book.id),
+    datestamp: book.oai_datestamp,
+    sets: await bookSets(book),
+    ...(book.oai_deleted && { deleted: true }),
+  };
+}
+
+function headerXml(header: OaiHeader, indent: string): string {
+  return [
+    `${indent}<header${header.deleted ? ' status="deleted"' : ''}>`,
+    `${indent}  <identifier>${escapeXml(header.identifier)}</identifier>`,
+    `${indent}  <datestamp>${oaiDatestamp(header.datestamp)}</datestamp>`,
+    ...header.sets.map(set => `${indent}  <setSpec>${escapeXml(set)}</setSpec>`),
+    `${indent}</header>`,
+  ].join('\n');
+}
+
+async function recordXml(book: OaiBook, metadataPrefix: OaiMetadataPrefix, indent: string): Promise<string> {
+  const header = await headerOf(book);
+  const lines = [`${indent}<record>`, headerXml(header, `${indent}  `)];
+  if (!header.deleted) {
+    lines.push(
+      `${indent}  <metadata>`,
+      metadataPrefix === 'mods' ? bookToMods(book, `${indent}    `) : bookToOaiDc(book, `${indent}    `),
+      `${indent}  </metadata>`
+    );
+  }
+  lines.push(`${indent}</record>`);
+  return lines.join('\n');
+}
+
+function metadataFormatsXml(): string {
+  return (Object.keys(METADATA_FORMATS) as OaiMetadataPrefix[]).map(prefix => [
+    '    <metadataFormat>',
+    `      <metadataPrefix>${prefix}</metadataPrefix>`,
+    `      <schema>${METADATA_FORMATS[prefix].schema}</schema>`,
+    `      <metadataNamespace>${METADATA_FORMATS[prefix].namespace}</metadataNamespace>`,
+    '    </metadataFormat>',
+  ].join('\n')).join('\n');
+}
+
+function envelope(responseDate: Date, requestAttributes: Record<string, string>, body: string): string {
+  const attributes = Object.entries(requestAttributes)
+    .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+    .join('');
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<OAI-PMH xmlns="http://www.openarchives.org/OAI/2.0/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.openarchives.org/OAI/2.0/ http://www.openarchives.org/OAI/2.0/OAI-PMH.xsd">',
+    `  <responseDate>${oaiDatestamp(responseDate)}</responseDate>`,
+    `  <request${attributes}>${escapeXml(OAI_BASE_URL)}</request>`,
+    body,
+    '</OAI-PMH>',
+    '',
+  ].join('\n');
+}
+
+function metadataPrefixOf(value: string | undefined): OaiMetadataPrefix {
+  if (!value || !(value in METADATA_FORMATS)) {
+    throw new OaiError('cannotDisseminateFormat', `Supported metadata formats are ${Object.keys(METADATA_FORMATS).join(' and ')}`);
+  }
+  return value as OaiMetadataPrefix;
+}
+
+async function listResponse(
+  db: Db,
+  verb: 'ListIdentifiers' | 'ListRecords',
+  args: Record<string, string>,
+  pageSize: number
+): Promise<string> {
+  let query: ListQuery;
+  let after: OaiResumptionState['after'] | null = null;
+  let cursor = 0;
+
+  if (args.resumptionToken) {
+    const state = decodeToken(args.resumptionToken, verb);
+    query = {
+      metadataPrefix: state.metadataPrefix,
+      set: state.set,
+      from: state.from ? new Date(state.from) : undefined,
+      until: state.until ? new Date(state.until) : undefined,
+    };
+    after = state.after;
+    cursor = state.cursor;
+  } else {
+    const from = args.from ? parseDateArgument(args.from, 'from') : undefined;
+    const until = args.until ? parseDateArgument(args.until, 'until') : undefined;
+    if (from && until && from.granularity !== until.granularity) {
+      throw new OaiError('badArgument', 'from and until must have the same granularity');
+    }
+    if (from && until && from.date > until.date) {
+      throw new OaiError('badArgument', 'from must not be later than until');
+    }
+    query = { metadataPrefix: metadataPrefixOf(args.metadataPrefix), set: args.set, from: from?.date, until: until?.date };
+  }
+
+  const { books, total } = await findHeaders(db, query, after, pageSize + 1, verb === 'ListRecords');
+  if (books.length === 0) {
+    if (args.resumptionToken) throw new OaiError('badResumptionToken', 'The resumptionToken is invalid or has expired');
+    throw new OaiError('noRecordsMatch', 'No records match the request');
+  }
+
+  const page = books.slice(0, pageSize);
+  const items = await Promise.all(page.map(async book => verb === 'ListRecords'
+    ? recordXml(book, query.metadataPrefix, '    ')
+    : headerXml(await headerOf(book), '    ')
+  ));
+
+  // The last page of a resumed list ends with an empty token
+  let token: string | null = null;
+  if (books.length > pageSize) {
+    const last = page[page.length - 1];
+    token = encodeToken({
+      verb,
+      metadataPrefix: query.metadataPrefix,
+      ...(query.set && { set: query.set }),
+      ...(query.from && { from: query.from.toISOString() }),
+      ...(query.until && { until: query.until.toISOString() }),
+      cursor: cursor + page.length,
+      after: { datestamp: last.oai_datestamp.toISOString(), id: last.id },
+    });
+  }
+  const resumption = token !== null || args.resumptionToken
+    ? [`    <resumptionToken completeListSize="${total}" cursor="${cursor}">${token ?? ''}</resumptionToken>`]
+    : [];
+
+  return [`  <${verb}>`, ...items, ...resumption, `  </${verb}>`].join('\n');
+}
+
+async function verbResponse(db: Db, verb: OaiVerb, args: Record<string, string>, pageSize: number): Promise<string> {
+  switch (verb) {
+    case 'Identify': {
+      const earliest = await earliestDatestamp(db);
+      return [
+        '  <Identify>',
+        '    <repositoryName>Source Library</repositoryName>',
+        `    <baseURL>${escapeXml(OAI_BASE_URL)}</baseURL>`,
+        '    <protocolVersion>2.0</protocolVersion>',
+        `    <adminEmail>${escapeXml(ADMIN_EMAIL)}</adminEmail>`,
+        `    <earliestDatestamp>${oaiDatestamp(earliest)}</earliestDatestamp>`,
+        '    <deletedRecord>transient</deletedRecord>',
+        '    <granularity>YYYY-MM-DDThh:mm:ssZ</granularity>',
+        '    <description>',
+        '      <oai-identifier xmlns="http://www.openarchives.org/OAI/2.0/oai-identifier" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.openarchives.org/OAI/2.0/oai-identifier http://www.openarchives.org/OAI/2.0/oai-identifier.xsd">',
+        '        <scheme>oai</scheme>',
+        `        <repositoryIdentifier>${escapeXml(REPOSITORY_ID)}</repositoryIdentifier>`,
+        '        <delimiter>:</delimiter>',
+        `        <sampleIdentifier>${escapeXml(oaiIdentifier('abc123'))}</sampleIdentifier>`,
+        '      </oai-identifier>',
+        '    </description>',
+        '  </Identify>',
+      ].join('\n');
+    }
+
+    case 'ListMetadataFormats': {
+      if (args.identifier) {
+        const bookId = bookIdFromIdentifier(args.identifier);
+        if (!bookId || !await findBook(db, bookId, false)) {
+          throw new OaiError('idDoesNotExist', `No record with identifier ${args.identifier}`);
+        }
+      }
+      return ['  <ListMetadataFormats>', metadataFormatsXml(), '  </ListMetadataFormats>'].join('\n');
+    }
+
+    case 'ListSets': {
+      // The whole set list fits in one response
+      if (args.resumptionToken) throw new OaiError('badResumptionToken', 'The resumptionToken is invalid or has expired');
+      const sets = await listOaiSets();
+      return [
+        '  <ListSets>',
+        ...sets.map(set => [
+          '    <set>',
+          `      <setSpec>${escapeXml(set.spec)}</setSpec>`,
+          `      <setName>${escapeXml(set.name)}</setName>`,
+          ...(set.description ? [
+            '      <setDescription>',
+            `        <oai_dc:dc xmlns:oai_dc="${METADATA_FORMATS.oai_dc.namespace}" xmlns:dc="http://purl.org/dc/elements/1.1/">`,
+            ...element('dc:description', set.description, '          '),
+            '        </oai_dc:dc>',
+            '      </setDescription>',
+          ] : []),
+          '    </set>',
+        ].join('\n')),
+        '  </ListSets>',
+      ].join('\n');
+    }
+
+    case 'GetRecord': {
+      const metadataPrefix = metadataPrefixOf(args.metadataPrefix);
+      const bookId = bookIdFromIdentifier(args.identifier);
+      const book = bookId ? await findBook(db, bookId, true) : null;
+      if (!book) throw new OaiError('idDoesNotExist', `No record with identifier ${args.identifier}`);
+      return ['  <GetRecord>', await recordXml(book, metadataPrefix, '    '), '  </GetRecord>'].join('\n');
+    }
+
+    case 'ListIdentifiers':
+    case 'ListRecords':
+      return listResponse(db, verb, args, pageSize);
+  }
+}
+
+// The request's arguments, checked against what the verb accepts
+function validateArguments(params: URLSearchParams): { verb: OaiVerb; args: Record<string, string> } {
+  const verbs = params.getAll('verb');
+  if (verbs.length !== 1 || !(verbs[0] in VERB_ARGUMENTS)) {
+    throw new OaiError('badVerb', verbs.length > 1 ? 'The verb argument may only be given once' : 'Missing or unknown verb');
+  }
+  const verb = verbs[0] as OaiVerb;
+  const spec = VERB_ARGUMENTS[verb];
+
+  const args: Record<string, string> = {};
+  for (const [name, value] of params) {
+    if (name === 'verb') continue;
+    if (name in args) throw new OaiError('badArgument', `The ${name} argument may only be given once`);
+    const allowed = [...spec.required, ...spec.optional, ...(spec.resumable ? ['resumptionToken'] : [])];
+    if (!allowed.includes(name)) throw new OaiError('badArgument', `${verb} does not accept the ${name} argument`);
+    args[name] = value;
+  }
+
+  if (args.resumptionToken) {
+    if (Object.keys(args).length > 1) {
+      throw new OaiError('badArgument', 'resumptionToken must be the only argument besides verb');
+    }
+  } else {
+    const missing = spec.required.find(name => !args[name]);
+    if (missing) throw new OaiError('badArgument', `${verb} requires the ${missing} argument`);
+  }
+  return { verb, args };
+}
+
+/**
+ * Answer an OAI-PMH request. Protocol errors are part of the XML response,
+ * as the spec requires.
+ */
+export async function handleOaiRequest(
+  params: URLSearchParams,
+  options: { pageSize?: number } = {}
+): Promise<string> {
+  const responseDate = new Date();
+  let verb: OaiVerb;
+  let args: Record<string, string>;
+  try {
+    ({ verb, args } = validateArguments(params));
+  } catch (error) {
+    if (!(error instanceof OaiError)) throw error;
+    // Arguments are not echoed back when they are the problem
+    return envelope(responseDate, {}, `  <error code="${error.code}">${escapeXml(error.message)}</error>`);
+  }
+
+  try {
+    const db = await getDb();
+    const body = await verbResponse(db, verb, args, options.pageSize || OAI_PAGE_SIZE);
+    return envelope(responseDate, { verb, ...args }, body);
+  } catch (error) {
+    if (!(error instanceof OaiError)) throw error;
+    return envelope(responseDate, { verb, ...args }, `  <error code="${error.code}">${escapeXml(error.message)}</error>`);
+  }
+}
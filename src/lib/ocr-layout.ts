@@ -0,0 +1,152 @@
+/**
+ * Word-level OCR layout: where each transcribed line and word sits on the
+ * page image, so a word in the transcription can be traced back to the scan.
+ *
+ * Gemini reports boxes as [ymin, xmin, ymax, xmax] in a 0-1000 space, which
+ * maps directly onto the CropData convention used for pages.
+ */
+
+import type { OcrBox, OcrLayout, OcrLine, OcrWord } from './types';
+
+export const LAYOUT_PROMPT = `Locate every line of text on this {language} page image, and every word within each line.
+
+Return JSON only, in this shape:
+{"lines": [{"text": "line text", "box_2d": [ymin, xmin, ymax, xmax], "words": [{"text": "word", "box_2d": [ymin, xmin, ymax, xmax]}]}]}
+
+**Rules:**
+- Coordinates are integers from 0 to 1000 relative to the whole image, with 0,0 at the top left
+- Transcribe each word exactly as printed: original spelling and punctuation, abbreviations not expanded
+- List lines in reading order; finish one column before starting the next
+- Include headings, marginal notes, running heads and catchwords as their own lines
+- Leave out illustrations and decorations that contain no text`;
+
+export function buildLayoutPrompt(language: string): string {
+  return LAYOUT_PROMPT.replace('{language}', language);
+}
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(1000, Math.round(value)));
+}
+
+function toBox(value: unknown): OcrBox | null {
+  if (!Array.isArray(value) || value.length !== 4) return null;
+  const [ymin, xmin, ymax, xmax] = value.map(Number);
+  if ([ymin, xmin, ymax, xmax].some(n => !Number.isFinite(n))) return null;
+
+  const box = {
+    xStart: clamp(Math.min(xmin, xmax)),
+    yStart: clamp(Math.min(ymin, ymax)),
+    xEnd: clamp(Math.max(xmin, xmax)),
+    yEnd: clamp(Math.max(ymin, ymax)),
+  };
+  return box.xEnd > box.xStart && box.yEnd > box.yStart ? box : null;
+}
+
+function unionBox(boxes: OcrBox[]): OcrBox | null {
+  if (boxes.length === 0) return null;
+  return {
+    xStart: Math.min(...boxes.map(b => b.xStart)),
+    yStart: Math.min(...boxes.map(b => b.yStart)),
+    xEnd: Math.max(...boxes.map(b => b.xEnd)),
+    yEnd: Math.max(...boxes.map(b => b.yEnd)),
+  };
+}
+
+/**
+ * Parse the model's layout JSON. Words without a usable box are dropped; a
+ * line without its own box takes the union of its words' boxes.
+ */
+export function parseLayoutResponse(text: string): OcrLine[] {
+  const json = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Layout response was not valid JSON');
+  }
+
+  const rawLines = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { lines?: unknown })?.lines;
+  if (!Array.isArray(rawLines)) {
+    throw new Error('Layout response has no lines');
+  }
+
+  const lines: OcrLine[] = [];
+  for (const raw of rawLines as Array<{ text?: unknown; box_2d?: unknown; words?: unknown }>) {
+    const words: OcrWord[] = [];
+    for (const w of Array.isArray(raw?.words) ? raw.words as Array<{ text?: unknown; box_2d?: unknown }> : []) {
+      const box = toBox(w?.box_2d);
+      const wordText = typeof w?.text === 'string' ? w.text.trim() : '';
+      if (box && wordText) words.push({ text: wordText, box });
+    }
+
+    const box = toBox(raw?.box_2d) || unionBox(words.map(w => w.box));
+    const lineText = typeof raw?.text === 'string' && raw.text.trim()
+      ? raw.text.trim()
+      : words.map(w => w.text).join(' ');
+    if (box && lineText) lines.push({ text: lineText, box, words });
+  }
+
+  return lines;
+}
+
+/**
+ * Plain text of a layout, one line per line.
+ */
+export function layoutText(layout: OcrLayout): string {
+  return layout.lines.map(line => line.text).join('\n');
+}
+
+/**
+ * Convert a 0-1000 box to pixels of a width x height image.
+ */
+export function boxToPixels(box: OcrBox, width: number, height: number) {
+  const x = Math.round((box.xStart / 1000) * width);
+  const y = Math.round((box.yStart / 1000) * height);
+  return {
+    x,
+    y,
+    width: Math.round((box.xEnd / 1000) * width) - x,
+    height: Math.round((box.yEnd / 1000) * height) - y,
+  };
+}
+
+/**
+ * Pixel size of a JPEG or PNG from its header, or {} for other formats.
+ * Read directly so this module stays usable outside Node (no sharp).
+ */
+export function imageDimensions(buffer: Buffer): { width?: number; height?: number } {
+  // PNG: IHDR is always the first chunk
+  if (buffer.length >= 24 && buffer.readUInt32BE(0) === 0x89504e47) {
+    return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+  }
+
+  // JPEG: walk the segments to the first start-of-frame marker
+  if (buffer.length >= 4 && buffer[0] === 0xff && buffer[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < buffer.length) {
+      if (buffer[offset] !== 0xff) break;
+      const marker = buffer[offset + 1];
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        return { width: buffer.readUInt16BE(offset + 7), height: buffer.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + buffer.readUInt16BE(offset + 2);
+    }
+  }
+
+  return {};
+}
+
+// Without a recorded image size, export coordinates in the 0-1000 space itself
+const NORMALIZED_SIZE = { width: 1000, height: 1000 };
+
+/**
+ * Pixel size to export a layout's boxes in.
+ */
+export function layoutPixelSize(layout: OcrLayout): { width: number; height: number } {
+  return layout.width && layout.height
+    ? { width: layout.width, height: layout.height }
+    : NORMALIZED_SIZE;
+}
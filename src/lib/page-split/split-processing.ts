@@ -4,7 +4,7 @@
  */
 
 import sharp from 'sharp';
-import { put } from '@vercel/blob';
+import { putObject } from '../storage';
 import type { Db } from 'mongodb';
 import { ObjectId } from 'mongodb';
 
@@ -12,6 +12,7 @@ import { compress_photo } from '../image-manipulation';
 import { detectSplitFromBuffer, type SplitDetectionResult } from './splitDetection';
 import { extractFeatures, predictWithModel, detectSplitWithGemini, type SplitModel } from './splitDetectionML';
 import type { Page } from '../types/page';
+import { getCurrentTenantId } from '../tenant.server';
 
 /**
  * Configurable split detection using environment variable
@@ -169,14 +170,13 @@ export async function cropAndUploadHalf(
     .jpeg({ quality: 80, progressive: true })
     .toBuffer();
 
-  // Upload to Vercel Blob
-  const blob = await put(
+  // Upload to storage
+  const blob = await putObject(
     `cropped/${bookId}/${pageId}.jpg`,
     croppedBuffer,
     {
-      access: 'public',
       contentType: 'image/jpeg',
-      allowOverwrite: true
+      overwrite: true
     }
   );
 
@@ -192,14 +192,10 @@ export async function generateAndUploadThumbnail(
   pageId: string
 ): Promise<{ url: string }> {
   const thumbnailBuffer = await compress_photo(croppedBuffer, 150, 60);
-  const thumbnailBlob = await put(
+  const thumbnailBlob = await putObject(
     `uploads/${bookId}/thumbnails/${pageId}.jpg`,
     thumbnailBuffer,
-    {
-      access: 'public',
-      contentType: 'image/jpeg',
-      addRandomSuffix: false
-    }
+    { contentType: 'image/jpeg' }
   );
 
   return { url: thumbnailBlob.url };
@@ -219,7 +215,7 @@ export async function processSingleImage(
   const pageId = new ObjectId().toHexString();
   const page: Page = {
     id: pageId,
-    tenant_id: 'default',
+    tenant_id: await getCurrentTenantId(),
     book_id: bookId,
     page_number: pageNumber,
     photo: originalImageUrl,
@@ -263,15 +259,21 @@ export async function processSplitImage(
     generateAndUploadThumbnail(leftResult.buffer, bookId, leftPageId),
     generateAndUploadThumbnail(rightResult.buffer, bookId, rightPageId)
   ]);
+  const tenantId = await getCurrentTenantId();
+
+  // Size of the spread, which IIIF manifests crop each page from
+  const { width, height } = await sharp(buffer).metadata();
+  const originalDimensions = width && height ? { width, height } : undefined;
 
   // Create left page
   const leftPage: Page = {
     id: leftPageId,
-    tenant_id: 'default',
+    tenant_id: tenantId,
     book_id: bookId,
     page_number: startPageNumber,
     photo: leftResult.url,
     photo_original: originalImageUrl,
+    ...(originalDimensions && { original_dimensions: originalDimensions }),
     cropped_photo: leftResult.url,
     thumbnail: leftThumbnail.url,
     crop: leftCrop,
@@ -295,11 +297,12 @@ export async function processSplitImage(
   // Create right page
   const rightPage: Page = {
     id: rightPageId,
-    tenant_id: 'default',
+    tenant_id: tenantId,
     book_id: bookId,
     page_number: startPageNumber + 1,
     photo: rightResult.url,
     photo_original: originalImageUrl,
+    ...(originalDimensions && { original_dimensions: originalDimensions }),
     cropped_photo: rightResult.url,
     thumbnail: rightThumbnail.url,
     crop: rightCrop,
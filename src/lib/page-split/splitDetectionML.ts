@@ -5,7 +5,7 @@
 
 import { analyzeColumns } from './splitDetection';
 import { images } from '@/lib/api-client';
-import { getGeminiClient, reportRateLimitError } from '../gemini-client';
+import { generateText } from '@/lib/ai';
 
 export interface GeminiSplitResult {
   isTwoPageSpread: boolean; // Is this actually a two-page spread?
@@ -84,9 +84,6 @@ export async function detectSplitWithGemini(
   imageUrl: string,
   modelId: string =  process.env.GEMINI_MODEL || 'gemini-3-flash-preview'
 ): Promise<GeminiSplitResult> {
-  const genAI = getGeminiClient();
-  const model = genAI.getGenerativeModel({ model: modelId });
-
   const prompt = `You are an expert at analyzing scanned book images.
 
 TASK: Determine if this is a TWO-PAGE SPREAD or a SINGLE PAGE, and if it's a spread, find the optimal split position.
@@ -124,27 +121,9 @@ Return your answer in this EXACT JSON format:
     ? { base64: imageData, mimeType: 'image/jpeg' }
     : { base64: imageData.base64, mimeType: imageData.mimeType };
 
-  let result;
-  try {
-    result = await model.generateContent([
-      prompt,
-      {
-        inlineData: {
-          mimeType,
-          data: base64Image,
-        },
-      },
-    ]);
-  } catch (error: any) {
-    // Report rate limit errors for key rotation tracking
-    if (error?.message?.includes('429') || error?.message?.includes('rate limit')) {
-      const apiKey = process.env.GEMINI_API_KEY || '';
-      reportRateLimitError(apiKey);
-    }
-    throw error;
-  }
-
-  const responseText = result.response.text();
+  const { text: responseText } = await generateText(prompt, modelId, {
+    images: [{ mimeType, data: base64Image }],
+  });
 
   // Parse JSON from response (handle markdown code blocks)
   const jsonMatch = responseText.match(/\{[\s\S]*?\}/);
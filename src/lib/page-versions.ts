@@ -0,0 +1,165 @@
+/**
+ * Versions of a page's OCR and translation text that can be diffed: the
+ * current text, a snapshot taken before re-processing, or the text frozen
+ * when an edition was published.
+ */
+
+import crypto from 'crypto';
+import type { Db } from 'mongodb';
+import { getSnapshot } from './snapshots';
+import type {
+  Book,
+  DiffField,
+  Page,
+  PageSnapshot,
+  TextVersion,
+  TextVersionRef,
+  TranslationEdition,
+} from './types';
+
+export const EDITION_PAGES_COLLECTION = 'edition_pages';
+
+export const DIFF_FIELDS: DiffField[] = ['ocr', 'translation'];
+
+/**
+ * A page's text as it stood when an edition was published
+ */
+export interface EditionPage {
+  edition_id: string;
+  book_id: string;
+  page_id: string;
+  page_number: number;
+  ocr?: string;
+  translation?: string;
+  frozen_at: Date;
+}
+
+export type ResolvedVersion =
+  | { version: TextVersion; text: string }
+  | { error: string; status: number };
+
+const SNAPSHOT_LABELS: Record<PageSnapshot['snapshot_type'], string> = {
+  pre_ocr: 'Before OCR',
+  pre_translate: 'Before translation',
+  pre_summary: 'Before summary',
+  pre_review: 'Before review',
+  manual_backup: 'Backup',
+};
+
+const FIELD_NAMES: Record<DiffField, string> = { ocr: 'OCR', translation: 'translation' };
+
+/**
+ * Freeze the text of an edition's pages so later versions can be compared
+ * with what was published.
+ */
+export async function freezeEditionPages(
+  db: Db,
+  edition: TranslationEdition,
+  pages: Page[]
+): Promise<void> {
+  if (pages.length === 0) return;
+  const frozenAt = new Date();
+  const docs: EditionPage[] = pages.map(page => ({
+    edition_id: edition.id,
+    book_id: edition.book_id,
+    page_id: page.id,
+    page_number: page.page_number,
+    ...(page.ocr?.data && { ocr: page.ocr.data }),
+    ...(page.translation?.data && { translation: page.translation.data }),
+    frozen_at: frozenAt,
+  }));
+  await db.collection(EDITION_PAGES_COLLECTION).insertMany(docs);
+}
+
+/**
+ * The most recent snapshot of a page that holds the given field, if any
+ */
+export async function latestSnapshotRef(db: Db, pageId: string, field: DiffField): Promise<TextVersionRef | null> {
+  const snapshot = await db.collection('page_snapshots').findOne(
+    { page_id: pageId, [`${field}_data`]: { $exists: true } },
+    { sort: { created_at: -1 }, projection: { id: 1 } }
+  );
+  return snapshot ? `snapshot:${snapshot.id}` : null;
+}
+
+/**
+ * Look up one version of a page's OCR or translation text.
+ * Refs: `current`, `snapshot:<id>`, `edition:<id>`.
+ */
+export async function resolveVersion(
+  db: Db,
+  page: Page,
+  field: DiffField,
+  ref: string
+): Promise<ResolvedVersion> {
+  if (ref === 'current') {
+    const content = page[field];
+    const source = content?.source === 'manual'
+      ? `edited by ${content.edited_by || 'unknown'}`
+      : content?.model || 'AI';
+    return {
+      version: { ref: 'current', label: `Current (${source})`, created_at: content?.updated_at },
+      text: content?.data || '',
+    };
+  }
+
+  const separator = ref.indexOf(':');
+  const kind = ref.slice(0, separator);
+  const id = ref.slice(separator + 1);
+
+  if (kind === 'snapshot' && id) {
+    const snapshot = await getSnapshot(id);
+    if (!snapshot || snapshot.page_id !== page.id) {
+      return { error: 'Snapshot not found', status: 404 };
+    }
+    const text = snapshot[`${field}_data`];
+    if (text === undefined) {
+      return { error: `Snapshot has no ${FIELD_NAMES[field]} text`, status: 404 };
+    }
+    const date = new Date(snapshot.created_at).toLocaleDateString('en-US');
+    return {
+      version: {
+        ref: `snapshot:${id}`,
+        label: `${SNAPSHOT_LABELS[snapshot.snapshot_type] ?? 'Snapshot'}, ${date}`,
+        created_at: snapshot.created_at,
+      },
+      text,
+    };
+  }
+
+  if (kind === 'edition' && id) {
+    const book = await db.collection('books').findOne(
+      { id: page.book_id },
+      { projection: { editions: 1 } }
+    ) as unknown as Pick<Book, 'editions'> | null;
+    const edition = book?.editions?.find(e => e.id === id);
+    if (!edition) {
+      return { error: 'Edition not found', status: 404 };
+    }
+    const frozen = await db.collection<EditionPage>(EDITION_PAGES_COLLECTION).findOne({
+      edition_id: id,
+      page_id: page.id,
+    });
+    if (!frozen) {
+      return { error: `Edition ${edition.version} has no frozen text for this page`, status: 404 };
+    }
+    return {
+      version: {
+        ref: `edition:${id}`,
+        label: `Edition ${edition.version}${edition.version_label ? ` (${edition.version_label})` : ''}`,
+        created_at: edition.published_at || edition.created_at,
+      },
+      text: frozen[field] || '',
+    };
+  }
+
+  return { error: 'Version must be current, snapshot:<id> or edition:<id>', status: 400 };
+}
+
+/**
+ * Identifies the pair of texts a diff was made from, so a review is only
+ * applied to the text that was reviewed.
+ */
+export function diffHash(from: string, to: string): string {
+  return crypto.createHash('sha256').update(from).update('\0').update(to).digest('hex').slice(0, 16);
+}
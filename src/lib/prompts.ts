@@ -1,6 +1,13 @@
 import { getDb } from './mongodb';
+import { getTenantConfig } from './tenant-config';
 import { DEFAULT_PROMPTS } from './types';
 import type { PromptType, PromptReference } from './types';
+import {
+  DEFAULT_TARGET_LANGUAGE,
+  promptLanguageFilter,
+  resolveTargetLanguage,
+  targetLanguageName,
+} from './translation-languages';
 
 /**
  * Result of looking up a prompt - includes both the text and a reference for storage
@@ -8,11 +15,13 @@ import type { PromptType, PromptReference } from './types';
 export interface PromptLookupResult {
   text: string;                    // The actual prompt text to use
   reference: PromptReference;      // Reference to store in page metadata
+  target_language?: string;        // Translation prompts written for a language other than English
 }
 
 /**
  * Get a prompt by type, optionally by name or ID.
  * Returns both the prompt text and a reference for storage.
+ * Without a name or ID, the current tenant's default prompt is used.
  *
  * @param type - 'ocr' | 'translation' | 'summary'
  * @param options - Optional: { name, id, customText }
@@ -55,11 +64,20 @@ export async function getPrompt(
         { sort: { version: -1 } }
       );
     } else {
-      // Get default prompt for this type
-      prompt = await collection.findOne(
-        { type, is_default: true },
-        { sort: { version: -1 } }
-      );
+      // The tenant's chosen default, else the library-wide default for this type
+      const tenantPromptName = (await getTenantConfig()).default_prompts?.[type];
+      if (tenantPromptName) {
+        prompt = await collection.findOne(
+          { name: tenantPromptName, type },
+          { sort: { version: -1 } }
+        );
+      }
+      if (!prompt) {
+        prompt = await collection.findOne(
+          { type, is_default: true, ...promptLanguageFilter(DEFAULT_TARGET_LANGUAGE) },
+          { sort: { version: -1 } }
+        );
+      }
     }
 
     if (prompt) {
@@ -70,6 +88,7 @@ export async function getPrompt(
           name: prompt.name as string,
           version: (prompt.version as number) || 1,
         },
+        ...(prompt.target_language && { target_language: prompt.target_language as string }),
       };
     }
 
@@ -112,21 +131,60 @@ export async function getOcrPrompt(
 }
 
 /**
- * Get translation prompt with language variables replaced
+ * Get translation prompt with language variables replaced.
+ * For a target language other than English, the default is that language's
+ * default prompt; without one (or with an English prompt chosen by name),
+ * the prompt is told which language to write in instead.
  */
 export async function getTranslationPrompt(
   sourceLanguage: string,
   targetLanguage: string = 'English',
   options?: { name?: string; id?: string; customText?: string }
 ): Promise<PromptLookupResult> {
-  const result = await getPrompt('translation', options);
-  return {
-    text: result.text
-      .replace('{language}', sourceLanguage)
-      .replace('{sourceLanguage}', sourceLanguage)
-      .replace('{targetLanguage}', targetLanguage),
-    reference: result.reference,
-  };
+  const target = resolveTargetLanguage(targetLanguage) || DEFAULT_TARGET_LANGUAGE;
+  const targetName = targetLanguageName(target);
+
+  let result: PromptLookupResult | null = null;
+  if (target !== DEFAULT_TARGET_LANGUAGE && !options?.name && !options?.id && !options?.customText) {
+    result = await getTargetLanguagePrompt(target);
+  }
+  if (!result) {
+    result = await getPrompt('translation', options);
+  }
+
+  let text = result.text
+    .replace('{language}', sourceLanguage)
+    .replace('{sourceLanguage}', sourceLanguage)
+    .replace('{targetLanguage}', targetName);
+  if (target !== DEFAULT_TARGET_LANGUAGE && result.target_language !== target && !options?.customText) {
+    text += `\n\n**Output language:** Write the translation, notes and keywords in ${targetName}, not English. Wherever these instructions say English, read ${targetName}.`;
+  }
+
+  return { ...result, text };
+}
+
+/** The default translation prompt for a target language other than English, if one is set */
+async function getTargetLanguagePrompt(target: string): Promise<PromptLookupResult | null> {
+  try {
+    const db = await getDb();
+    const prompt = await db.collection('prompts').findOne(
+      { type: 'translation', is_default: true, ...promptLanguageFilter(target) },
+      { sort: { version: -1 } }
+    );
+    if (!prompt) return null;
+    return {
+      text: prompt.content as string,
+      reference: {
+        id: prompt._id?.toString() || 'unknown',
+        name: prompt.name as string,
+        version: (prompt.version as number) || 1,
+      },
+      target_language: target,
+    };
+  } catch (error) {
+    console.error('[prompts] Error fetching target language prompt:', error);
+    return null;
+  }
 }
 
 /**
@@ -0,0 +1,351 @@
+/**
+ * Durable job queue on the `jobs` collection.
+ *
+ * Routes enqueue jobs; a worker (scripts/queue-worker.ts, the
+ * /api/cron/process-queue cron, or /api/jobs/[id]/process when no worker
+ * runs) claims one, runs a slice of it under a lease and releases it. The
+ * lease lapses unless the holder heartbeats, so a crashed worker's job is
+ * picked up again. Failed slices are retried with exponential backoff and
+ * dead-lettered after max_attempts.
+ *
+ * Job statuses follow JOB_TRANSITIONS (types/job.ts): a started job stays
+ * `processing` between slices, with no lease while it waits its turn.
+ */
+
+import type { Db, Filter } from 'mongodb';
+import { nanoid } from 'nanoid';
+import type { CostEstimate, Job, JobStatus, JobType } from '@/lib/types';
+import { internalRequestHeaders } from '@/lib/auth-guard';
+
+/** Job types the queue runs; the others are driven by the browser */
+export const QUEUE_JOB_TYPES: JobType[] = [
+  'batch_ocr',
+  'batch_translate',
+  'batch_split',
+  'batch_extract_images',
+  'generate_cropped_images',
+];
+
+/** Most jobs of each type running at once (QUEUE_CONCURRENCY overrides) */
+const DEFAULT_CONCURRENCY: Partial<Record<JobType, number>> = {
+  batch_ocr: 3,
+  batch_translate: 3,
+  batch_split: 2,
+  batch_extract_images: 2,
+  generate_cropped_images: 2,
+};
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const BACKOFF_BASE_MS = 30_000;
+const BACKOFF_MAX_MS = 30 * 60_000;
+
+export const HEARTBEAT_INTERVAL_MS = 30_000;
+
+export function leaseDurationMs(): number {
+  const seconds = parseInt(process.env.QUEUE_LEASE_SECONDS || '', 10);
+  return (seconds > 0 ? seconds : 300) * 1000;
+}
+
+/**
+ * Whether a separate worker drains the queue (QUEUE_MODE=worker). Otherwise
+ * routes and the process-queue cron run jobs themselves.
+ */
+export function isWorkerMode(): boolean {
+  return process.env.QUEUE_MODE === 'worker';
+}
+
+/**
+ * Per-type concurrency limits. QUEUE_CONCURRENCY takes `type=n` pairs, e.g.
+ * `batch_ocr=5,generate_cropped_images=1`.
+ */
+export function concurrencyLimits(): Partial<Record<JobType, number>> {
+  const limits = { ...DEFAULT_CONCURRENCY };
+  for (const pair of (process.env.QUEUE_CONCURRENCY || '').split(',')) {
+    const [type, value] = pair.split('=').map(s => s.trim());
+    const limit = parseInt(value, 10);
+    if (type && limit > 0) limits[type as JobType] = limit;
+  }
+  return limits;
+}
+
+/** Wait before retrying after the given number of failed attempts */
+export function backoffMs(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS);
+}
+
+export function workerId(prefix = 'worker'): string {
+  return `${prefix}-${nanoid(8)}`;
+}
+
+export interface EnqueueJobInput {
+  type: JobType;
+  config: Job['config'];
+  book_id?: string;
+  book_title?: string;
+  initiated_by?: string;
+  user_id?: string;
+  cost_estimate?: CostEstimate;
+  /** Items to process; defaults to the number of page_ids */
+  total?: number;
+  /** Higher runs first (default 0) */
+  priority?: number;
+  max_attempts?: number;
+}
+
+/**
+ * Add a job to the queue.
+ */
+export async function enqueueJob(db: Db, input: EnqueueJobInput): Promise<Job> {
+  const now = new Date();
+  const job: Job = {
+    id: nanoid(12),
+    type: input.type,
+    status: 'pending',
+    progress: {
+      total: input.total ?? input.config.page_ids?.length ?? 0,
+      completed: 0,
+      failed: 0,
+    },
+    ...(input.book_id && { book_id: input.book_id }),
+    ...(input.book_title && { book_title: input.book_title }),
+    ...(input.initiated_by && { initiated_by: input.initiated_by }),
+    ...(input.user_id && { user_id: input.user_id }),
+    ...(input.cost_estimate && { cost_estimate: input.cost_estimate }),
+    created_at: now,
+    updated_at: now,
+    results: [],
+    config: input.config,
+    priority: input.priority ?? 0,
+    attempts: 0,
+    max_attempts: input.max_attempts ?? DEFAULT_MAX_ATTEMPTS,
+    run_after: now,
+    lease: null,
+  };
+
+  await db.collection('jobs').insertOne(job as unknown as Record<string, unknown>);
+  return job;
+}
+
+/**
+ * Start a new job right away instead of waiting for the next cron run, when
+ * no worker is watching the queue. Doesn't wait for the slice to finish.
+ */
+export function kickJob(jobId: string): void {
+  if (isWorkerMode()) return;
+
+  const baseUrl = process.env.NEXT_PUBLIC_URL || (process.env.VERCEL_URL
+    ? `https://${process.env.VERCEL_URL}`
+    : 'http://localhost:3000');
+
+  fetch(`${baseUrl}/api/jobs/${jobId}/process`, {
+    method: 'POST',
+    headers: internalRequestHeaders(),
+  }).catch(() => {
+    // Ignore - the process-queue cron picks it up
+  });
+}
+
+/**
+ * Jobs that may be claimed now: queued or between slices, not backing off,
+ * and not leased (or leased by someone who stopped heartbeating).
+ */
+function claimableFilter(now: Date): Filter<Job> {
+  return {
+    type: { $in: QUEUE_JOB_TYPES },
+    status: { $in: ['pending', 'processing'] },
+    run_after: { $not: { $gt: now } },
+    $or: [{ lease: null }, { 'lease.expires_at': { $lte: now } }],
+  };
+}
+
+function claimUpdate(owner: string, now: Date) {
+  return {
+    $set: {
+      status: 'processing' as JobStatus,
+      lease: { owner, expires_at: new Date(now.getTime() + leaseDurationMs()) },
+      heartbeat_at: now,
+      updated_at: now,
+    },
+  };
+}
+
+async function markStarted(db: Db, job: Job | null): Promise<Job | null> {
+  if (job && !job.started_at) {
+    job.started_at = job.heartbeat_at;
+    await db.collection('jobs').updateOne({ id: job.id }, { $set: { started_at: job.started_at } });
+  }
+  return job;
+}
+
+/**
+ * Lease a specific job, if it is claimable. Returns the leased job.
+ */
+export async function claimJob(db: Db, jobId: string, owner: string): Promise<Job | null> {
+  const now = new Date();
+  const job = await db.collection<Job>('jobs').findOneAndUpdate(
+    { ...claimableFilter(now), id: jobId },
+    claimUpdate(owner, now),
+    { returnDocument: 'after' }
+  );
+  return markStarted(db, job as Job | null);
+}
+
+/**
+ * Lease the next job to run: highest priority first, then oldest. Types
+ * already running at their concurrency limit are skipped. The limits are
+ * best-effort: two workers claiming at the same moment may both get a slot.
+ */
+export async function claimNextJob(
+  db: Db,
+  owner: string,
+  options: { types?: JobType[] } = {}
+): Promise<Job | null> {
+  const now = new Date();
+
+  const running = await db.collection<Job>('jobs')
+    .find({ status: 'processing', 'lease.expires_at': { $gt: now } }, { projection: { type: 1 } })
+    .toArray();
+  const runningByType = new Map<string, number>();
+  for (const { type } of running) {
+    runningByType.set(type, (runningByType.get(type) || 0) + 1);
+  }
+
+  const limits = concurrencyLimits();
+  const types = (options.types || QUEUE_JOB_TYPES).filter(type =>
+    QUEUE_JOB_TYPES.includes(type) && (runningByType.get(type) || 0) < (limits[type] ?? Infinity)
+  );
+  if (types.length === 0) return null;
+
+  const job = await db.collection<Job>('jobs').findOneAndUpdate(
+    { ...claimableFilter(now), type: { $in: types } },
+    claimUpdate(owner, now),
+    { sort: { priority: -1, created_at: 1 }, returnDocument: 'after' }
+  );
+  return markStarted(db, job as Job | null);
+}
+
+/**
+ * Extend a lease. Returns false once the lease is lost: the job was paused,
+ * cancelled or finished, or another worker took it over.
+ */
+export async function heartbeat(db: Db, jobId: string, owner: string): Promise<boolean> {
+  const now = new Date();
+  const result = await db.collection('jobs').updateOne(
+    { id: jobId, status: 'processing', 'lease.owner': owner },
+    {
+      $set: {
+        'lease.expires_at': new Date(now.getTime() + leaseDurationMs()),
+        heartbeat_at: now,
+      },
+    }
+  );
+  return result.matchedCount > 0;
+}
+
+export interface ReleaseOutcome {
+  /** The slice failed; counts as an attempt */
+  error?: string;
+  /** Don't run the job again before this (Batch API polling) */
+  retryAfterMs?: number;
+}
+
+/**
+ * Give up a lease after running a slice. A job that is still processing
+ * goes back to waiting its turn; a failed slice is retried after a backoff,
+ * or dead-lettered once it has used up its attempts.
+ */
+export async function releaseJob(
+  db: Db,
+  jobId: string,
+  owner: string,
+  outcome: ReleaseOutcome = {}
+): Promise<JobStatus | null> {
+  const job = await db.collection<Job>('jobs').findOne({ id: jobId, 'lease.owner': owner });
+  if (!job) return null;
+
+  const now = new Date();
+  const updates: Record<string, unknown> = { lease: null, updated_at: now };
+  let status = job.status;
+
+  if (job.status === 'processing') {
+    if (outcome.error) {
+      const attempts = (job.attempts || 0) + 1;
+      updates.attempts = attempts;
+      updates.error = outcome.error;
+      if (attempts >= (job.max_attempts ?? DEFAULT_MAX_ATTEMPTS)) {
+        status = 'dead';
+        updates.status = status;
+        updates.completed_at = now;
+      } else {
+        updates.run_after = new Date(now.getTime() + backoffMs(attempts));
+      }
+    } else {
+      updates.attempts = 0;
+      updates.run_after = new Date(now.getTime() + (outcome.retryAfterMs || 0));
+    }
+  }
+
+  await db.collection('jobs').updateOne({ id: jobId, 'lease.owner': owner }, { $set: updates });
+  return status;
+}
+
+/**
+ * Take back leases whose holder stopped heartbeating (crashed or killed
+ * worker, timed-out function). Each counts as a failed attempt. Returns the
+ * number of jobs recovered.
+ */
+export async function recoverExpiredLeases(db: Db): Promise<number> {
+  const now = new Date();
+  const expired = await db.collection<Job>('jobs')
+    .find({ status: 'processing', 'lease.expires_at': { $lte: now } })
+    .toArray();
+
+  let recovered = 0;
+  for (const job of expired) {
+    if (!job.lease) continue;
+    const status = await releaseJob(db, job.id, job.lease.owner, {
+      error: `Lease held by ${job.lease.owner} expired`,
+    });
+    if (status) recovered++;
+  }
+  return recovered;
+}
+
+export interface QueueStats {
+  queued: number;
+  running: number;
+  waiting: number;
+  dead: number;
+  by_type: Record<string, { queued: number; running: number }>;
+}
+
+/**
+ * What the queue is doing: jobs ready to run, running under a lease,
+ * waiting on a backoff or a Batch API poll, and dead-lettered.
+ */
+export async function getQueueStats(db: Db): Promise<QueueStats> {
+  const now = new Date();
+  const jobs = await db.collection<Job>('jobs')
+    .find(
+      { type: { $in: QUEUE_JOB_TYPES }, status: { $in: ['pending', 'processing', 'dead'] } },
+      { projection: { type: 1, status: 1, lease: 1, run_after: 1 } }
+    )
+    .toArray();
+
+  const stats: QueueStats = { queued: 0, running: 0, waiting: 0, dead: 0, by_type: {} };
+  for (const job of jobs) {
+    const byType = stats.by_type[job.type] ??= { queued: 0, running: 0 };
+    if (job.status === 'dead') {
+      stats.dead++;
+    } else if (job.lease && job.lease.expires_at > now) {
+      stats.running++;
+      byType.running++;
+    } else if (job.run_after && job.run_after > now) {
+      stats.waiting++;
+    } else {
+      stats.queued++;
+      byType.queued++;
+    }
+  }
+  return stats;
+}
@@ -0,0 +1,1246 @@
+/**
+ * Runs jobs from the queue a slice at a time: a chunk of pages for realtime
+ * jobs, or one step (prepare, submit, poll) of a Gemini Batch API job.
+ * Callers hold the job's lease (see ./worker.ts).
+ */
+
+import type { Db } from 'mongodb';
+import { calculateCost, performOCR, performOCRWithBuffer, performTranslation } from '@/lib/ai';
+import { BATCH_API_DISCOUNT, budgetedAction, hardLimitReached, recordSpend } from '@/lib/budgets';
+import { detectSplitFromBuffer } from '@/lib/page-split/splitDetection';
+import { getOcrPrompt, getTranslationPrompt, type PromptLookupResult } from '@/lib/prompts';
+import { createSnapshotIfNeeded } from '@/lib/snapshots';
+import { refreshSearchIndex } from '@/lib/search/indexer';
+import { recordRevisions } from '@/lib/revisions';
+import { formatTranslationGuidance, selectTranslationGuidance, type TranslationResources } from '@/lib/glossary/match';
+import { loadTranslationResources } from '@/lib/glossary/store';
+import { extractImages } from '@/lib/image-extraction';
+import { putObject } from '@/lib/storage';
+import { getCurrentTenantId } from '@/lib/tenant.server';
+import sharp from 'sharp';
+import type { Job, JobResult, Page } from '@/lib/types';
+import {
+  DEFAULT_TARGET_LANGUAGE,
+  getTranslation,
+  targetLanguageName,
+  translationPath,
+  updateTranslationProgress,
+} from '@/lib/translation-languages';
+import {
+  createBatchJobInline,
+  getBatchJobStatus,
+  getBatchJobResults,
+  type BatchRequest,
+} from '@/lib/gemini-batch';
+import { images } from '@/lib/api-client';
+
+export interface SliceResult {
+  /** Progress report, as returned by /api/jobs/[id]/process */
+  body: Record<string, unknown>;
+  /** HTTP status for the report; 500 and up count as a failed attempt */
+  status?: number;
+  /** Don't run the job again for this long (Batch API polling) */
+  retryAfterMs?: number;
+}
+
+function sliceResult(
+  body: Record<string, unknown>,
+  init: { status?: number; retryAfterMs?: number } = {}
+): SliceResult {
+  return { body, ...init };
+}
+
+const CHUNK_SIZE = 5; // Process 5 pages per request for AI jobs
+const CROP_CHUNK_SIZE = 40; // Sweet spot: ~55s per request (just under 60s timeout)
+const CROP_PARALLEL = 10; // 10 parallel operations balances speed vs memory
+
+// Helper function to process a single cropped image
+async function processCroppedImage(
+  page: { id: string; book_id: string; crop: { xStart: number; xEnd: number }; photo_original?: string; photo?: string },
+  db: Db
+): Promise<JobResult> {
+  const startTime = performance.now();
+  const pageId = page.id;
+
+  try {
+    if (!page.crop || page.crop.xStart === undefined || page.crop.xEnd === undefined) {
+      return { pageId, success: false, error: 'No crop data' };
+    }
+
+    const imageUrl = page.photo_original || page.photo;
+    if (!imageUrl) {
+      return { pageId, success: false, error: 'No image URL' };
+    }
+
+    // Fetch the original image
+    const imageBuffer = await images.fetchBuffer(imageUrl);
+
+    // Get image dimensions and calculate crop
+    const metadata = await sharp(imageBuffer).metadata();
+    const imgWidth = metadata.width || 1000;
+    const imgHeight = metadata.height || 1000;
+
+    const left = Math.round((page.crop.xStart / 1000) * imgWidth);
+    const cropWidth = Math.round(((page.crop.xEnd - page.crop.xStart) / 1000) * imgWidth);
+
+    // Crop and compress the image
+    const croppedBuffer = await sharp(imageBuffer)
+      .extract({
+        left,
+        top: 0,
+        width: Math.min(cropWidth, imgWidth - left),
+        height: imgHeight,
+      })
+      .resize(1200, null, { fit: 'inside', withoutEnlargement: true })
+      .jpeg({ quality: 80, progressive: true })
+      .toBuffer();
+
+    // Upload to storage
+    const filename = `cropped/${page.book_id}/${page.id}.jpg`;
+    const blob = await putObject(filename, croppedBuffer, {
+      contentType: 'image/jpeg',
+      overwrite: true,
+    });
+
+    // Update page with new cropped photo URL
+    await db.collection('pages').updateOne(
+      { id: pageId },
+      {
+        $set: {
+          cropped_photo: blob.url,
+          ...(metadata.width && metadata.height && { original_dimensions: { width: metadata.width, height: metadata.height } }),
+          updated_at: new Date(),
+        },
+      }
+    );
+
+    return {
+      pageId,
+      success: true,
+      duration: performance.now() - startTime,
+    };
+  } catch (error) {
+    console.error(`Error processing cropped image ${pageId}:`, error);
+    return {
+      pageId,
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      duration: performance.now() - startTime,
+    };
+  }
+}
+
+// ========== IMAGES DETECTED DURING OCR ==========
+
+interface ExtractedImage {
+  description: string;
+  type?: string;
+  bbox?: { x: number; y: number; width: number; height: number };
+  confidence?: number;
+  gallery_quality?: number;
+  gallery_rationale?: string;
+  detected_at: Date;
+  detection_source: 'vision_model';
+  model: 'gemini';
+}
+
+// Parse <detected-images> block from OCR output
+// Returns DetectedImage[] compatible with the Page interface
+function parseDetectedImagesFromOcr(ocrText: string): ExtractedImage[] | null {
+  const match = ocrText.match(/<detected-images>([\s\S]*?)<\/detected-images>/);
+  if (!match) return null;
+
+  try {
+    const jsonText = match[1].trim();
+    const parsed = JSON.parse(jsonText);
+
+    if (!Array.isArray(parsed) || parsed.length === 0) return null;
+
+    // Transform OCR output format to DetectedImage format
+    return parsed.map((img: {
+      description?: string;
+      type?: string;
+      bbox?: { x: number; y: number; width: number; height: number };
+      gallery_quality?: number;
+      museum_rationale?: string;
+    }) => ({
+      description: img.description || 'Unknown image',
+      type: img.type,
+      bbox: img.bbox,
+      gallery_quality: img.gallery_quality,
+      gallery_rationale: img.museum_rationale,
+      detected_at: new Date(),
+      detection_source: 'vision_model' as const,
+      model: 'gemini' as const,
+    }));
+  } catch (error) {
+    console.error('Failed to parse <detected-images> from OCR:', error);
+    return null;
+  }
+}
+
+// ========== GEMINI BATCH API HANDLER ==========
+// Phases: prepare -> submit -> poll
+// - prepare: Fetch images in chunks, store in batch_preparations collection
+// - submit: When all prepared, submit to Gemini Batch API
+// - poll: Check status and download results
+
+const BATCH_PREPARE_CHUNK_SIZE = 50; // Prepare 50 images per request
+const BATCH_PREPARE_PARALLEL = 10; // Fetch 10 images in parallel
+const BATCH_POLL_INTERVAL_MS = 5 * 60_000; // Gemini batches take hours; check every 5 minutes
+const BATCH_SUBMIT_CHUNK_SIZE = 10; // Submit 10 pages per Gemini batch job (research shows >10 causes quality degradation)
+
+async function handleBatchApiJob(
+  job: Job,
+  db: Db,
+  jobId: string
+): Promise<SliceResult> {
+  const targetLanguage = job.config.target_language || DEFAULT_TARGET_LANGUAGE;
+
+  // Phase 3: Already submitted - poll for results
+  // Support both single batch (legacy) and multiple batches (new)
+  const batchJobs = job.gemini_batch_jobs || (job.gemini_batch_job ? [{ name: job.gemini_batch_job, page_ids: job.config.page_ids }] : []);
+
+  if (batchJobs.length > 0 && job.batch_phase === 'submitted') {
+    console.log(`[BatchJob ${jobId}] Checking ${batchJobs.length} Gemini batch(es)...`);
+
+    try {
+      let totalSuccess = 0;
+      let totalFail = 0;
+      let allCompleted = true;
+      let anyFailed = false;
+      const now = new Date();
+      const allResults: JobResult[] = job.results || [];
+      const processedPageIds = new Set(allResults.map(r => r.pageId));
+      const batchStatuses: string[] = [];
+
+      for (const batch of batchJobs) {
+        if (!batch.name) continue;
+
+        // Skip if already processed
+        if (batch.results_collected) {
+          totalSuccess += batch.success_count || 0;
+          totalFail += batch.fail_count || 0;
+          batchStatuses.push(`${batch.name.split('/').pop()}: completed`);
+          continue;
+        }
+
+        const status = await getBatchJobStatus(batch.name);
+        batchStatuses.push(`${batch.name.split('/').pop()}: ${status.state}`);
+        console.log(`[BatchJob ${jobId}] Batch ${batch.name}: ${status.state}`);
+
+        if (status.state === 'JOB_STATE_SUCCEEDED') {
+          // Download and save results for this batch
+          console.log(`[BatchJob ${jobId}] Downloading results from ${batch.name}...`);
+          const results = await getBatchJobResults(batch.name);
+
+          let batchSuccess = 0;
+          let batchFail = 0;
+          const savedPageIds: string[] = [];
+
+          for (const result of results) {
+            const pageId = result.key;
+            if (processedPageIds.has(pageId)) continue; // Skip duplicates
+            processedPageIds.add(pageId);
+
+            if (result.error) {
+              console.error(`[BatchJob ${jobId}] Page ${pageId} error:`, result.error.message);
+              allResults.push({ pageId, success: false, error: result.error.message });
+              batchFail++;
+              continue;
+            }
+
+            if (!result.response?.candidates?.[0]?.content?.parts?.[0]?.text) {
+              console.error(`[BatchJob ${jobId}] Page ${pageId} no response`);
+              allResults.push({ pageId, success: false, error: 'No response text' });
+              batchFail++;
+              continue;
+            }
+
+            const text = result.response.candidates[0].content.parts[0].text;
+            const usage = result.response.usageMetadata;
+
+            // Keep the text this overwrites, as realtime processing does
+            await createSnapshotIfNeeded(
+              pageId,
+              job.type === 'batch_ocr' ? 'pre_ocr' : 'pre_translate',
+              jobId,
+              undefined,
+              targetLanguage
+            );
+
+            if (job.type === 'batch_ocr') {
+              await db.collection('pages').updateOne(
+                { id: pageId },
+                {
+                  $set: {
+                    ocr: {
+                      data: text,
+                      updated_at: now,
+                      model: job.config.model,
+                      language: job.config.language,
+                      source: 'batch_api',
+                      input_tokens: usage?.promptTokenCount || 0,
+                      output_tokens: usage?.candidatesTokenCount || 0,
+                    },
+                    updated_at: now,
+                  },
+                }
+              );
+            } else {
+              await db.collection('pages').updateOne(
+                { id: pageId },
+                {
+                  $set: {
+                    [translationPath(targetLanguage)]: {
+                      data: text,
+                      updated_at: now,
+                      model: job.config.model,
+                      source_language: job.config.language,
+                      target_language: targetLanguageName(targetLanguage),
+                      source: 'batch_api',
+                      input_tokens: usage?.promptTokenCount || 0,
+                      output_tokens: usage?.candidatesTokenCount || 0,
+                    },
+                    updated_at: now,
+                  },
+                }
+              );
+            }
+
+            const model = job.config.model || 'gemini-3-flash-preview';
+            const inputTokens = usage?.promptTokenCount || 0;
+            const outputTokens = usage?.candidatesTokenCount || 0;
+            await recordSpend({
+              action: job.type === 'batch_ocr' ? 'ocr' : 'translation',
+              model,
+              book_id: job.book_id,
+              page_id: pageId,
+              job_id: jobId,
+              user_id: job.user_id,
+              input_tokens: inputTokens,
+              output_tokens: outputTokens,
+              cost_usd: calculateCost(inputTokens, outputTokens, model) * BATCH_API_DISCOUNT,
+              batch_api: true,
+            });
+
+            allResults.push({ pageId, success: true });
+            batchSuccess++;
+            savedPageIds.push(pageId);
+          }
+
+          await refreshSearchIndex({ pageIds: savedPageIds });
+          await recordRevisions(savedPageIds, { via: 'batch', job_id: jobId });
+          if (job.type === 'batch_translate' && job.book_id && savedPageIds.length > 0) {
+            await updateTranslationProgress(db, job.book_id, targetLanguage);
+          }
+
+          // Mark batch as collected
+          batch.results_collected = true;
+          batch.success_count = batchSuccess;
+          batch.fail_count = batchFail;
+          totalSuccess += batchSuccess;
+          totalFail += batchFail;
+
+        } else if (status.state === 'JOB_STATE_FAILED' || status.state === 'JOB_STATE_CANCELLED' || status.state === 'JOB_STATE_EXPIRED') {
+          anyFailed = true;
+          batch.results_collected = true;
+          batch.error = status.state;
+        } else {
+          // Still processing
+          allCompleted = false;
+        }
+      }
+
+      // Update job
+      const jobStatus = allCompleted ? (anyFailed && totalSuccess === 0 ? 'failed' : 'completed') : 'processing';
+
+      // Only update progress if we have actual results collected
+      // Don't reset progress.completed to 0 when batches are still pending
+      const progressUpdate = totalSuccess > 0 || totalFail > 0
+        ? {
+            'progress.completed': totalSuccess,
+            'progress.failed': totalFail,
+          }
+        : {};
+
+      await db.collection('jobs').updateOne(
+        { id: jobId, status: 'processing' },
+        {
+          $set: {
+            status: jobStatus,
+            gemini_batch_jobs: batchJobs,
+            results: allResults,
+            ...progressUpdate,
+            ...(allCompleted ? { completed_at: now } : {}),
+            updated_at: now,
+          },
+        }
+      );
+
+      if (allCompleted) {
+        return sliceResult({
+          job: { ...job, status: jobStatus },
+          message: `All ${batchJobs.length} batch(es) completed: ${totalSuccess} succeeded, ${totalFail} failed`,
+          done: true,
+          batches: batchStatuses,
+        });
+      } else {
+        return sliceResult({
+          job: { ...job, status: 'processing' },
+          message: `Waiting for Gemini batches. ${totalSuccess} results collected so far.`,
+          done: false,
+          batches: batchStatuses,
+          collected: totalSuccess,
+        }, { retryAfterMs: BATCH_POLL_INTERVAL_MS });
+      }
+    } catch (error) {
+      console.error(`[BatchJob ${jobId}] Error checking batch status:`, error);
+      return sliceResult({
+        error: 'Failed to check batch job status',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 500 });
+    }
+  }
+
+  // Phase 1 & 2: Prepare images incrementally, then submit
+  console.log(`[BatchJob ${jobId}] Preparing batch...`);
+
+  try {
+    const pageIds = job.config.page_ids || [];
+    const prepCollection = db.collection('batch_preparations');
+
+    // Check what's already prepared
+    const prepared = await prepCollection.find({ job_id: jobId }).toArray();
+    const preparedIds = new Set(prepared.map(p => p.page_id));
+    const failedIds = new Set(prepared.filter(p => p.failed).map(p => p.page_id));
+
+    // Find pages that still need preparation
+    const unpreparedIds = pageIds.filter((id: string) => !preparedIds.has(id) && !failedIds.has(id));
+
+    console.log(`[BatchJob ${jobId}] Total: ${pageIds.length}, Prepared: ${preparedIds.size - failedIds.size}, Failed: ${failedIds.size}, Remaining: ${unpreparedIds.length}`);
+
+    // Phase 1: If there are unprepared pages, prepare a chunk
+    if (unpreparedIds.length > 0) {
+      const chunkIds = unpreparedIds.slice(0, BATCH_PREPARE_CHUNK_SIZE);
+      const pages = await db.collection('pages')
+        .find({ id: { $in: chunkIds } })
+        .toArray();
+
+      const ocrPrompt = job.type === 'batch_ocr'
+        ? await getOcrPrompt(job.config.language || 'Latin')
+        : null;
+      const translationResources = job.type === 'batch_translate' && job.book_id
+        ? await loadTranslationResources(job.book_id, {
+            sourceLanguage: job.config.language || 'Latin',
+            targetLanguage: targetLanguageName(targetLanguage),
+          })
+        : null;
+
+      let preparedCount = 0;
+      let failedCount = 0;
+
+      // Prepare a single page (for parallel processing)
+      const preparePage = async (page: typeof pages[0]): Promise<{ success: boolean }> => {
+        try {
+          let requestData: BatchRequest['request'] | null = null;
+
+          if (job.type === 'batch_ocr') {
+            const imageUrl = page.cropped_photo || page.photo;
+            if (!imageUrl) {
+              await prepCollection.insertOne({
+                job_id: jobId,
+                page_id: page.id,
+                failed: true,
+                error: 'No image URL',
+                created_at: new Date(),
+              });
+              return { success: false };
+            }
+
+            const imageData = await images.fetchBase64(imageUrl, { includeMimeType: true });
+            const { base64, mimeType } = typeof imageData === 'string'
+              ? { base64: imageData, mimeType: 'image/jpeg' }
+              : imageData;
+
+            requestData = {
+              contents: [
+                {
+                  parts: [
+                    { text: ocrPrompt?.text || 'Transcribe this image.' },
+                    { inlineData: { mimeType, data: base64 } },
+                  ],
+                },
+              ],
+              generationConfig: {
+                temperature: 0.1,
+                maxOutputTokens: 8192,
+              },
+            };
+          } else {
+            // Translation
+            const ocrText = page.ocr?.data;
+            if (!ocrText) {
+              await prepCollection.insertOne({
+                job_id: jobId,
+                page_id: page.id,
+                failed: true,
+                error: 'No OCR text',
+                created_at: new Date(),
+              });
+              return { success: false };
+            }
+
+            const guidance = translationResources
+              ? formatTranslationGuidance(selectTranslationGuidance(translationResources, ocrText))
+              : '';
+            requestData = {
+              contents: [
+                {
+                  parts: [
+                    {
+                      text: `Translate the following ${job.config.language || 'Latin'} text to ${targetLanguageName(targetLanguage)}. Preserve formatting.${guidance}\n\n${ocrText}`,
+                    },
+                  ],
+                },
+              ],
+              generationConfig: {
+                temperature: 0.3,
+                maxOutputTokens: 8192,
+              },
+            };
+          }
+
+          // Store prepared request
+          await prepCollection.insertOne({
+            job_id: jobId,
+            page_id: page.id,
+            request: requestData,
+            failed: false,
+            created_at: new Date(),
+          });
+          return { success: true };
+
+        } catch (e) {
+          console.error(`[BatchJob ${jobId}] Failed to prepare ${page.id}:`, e);
+          await prepCollection.insertOne({
+            job_id: jobId,
+            page_id: page.id,
+            failed: true,
+            error: e instanceof Error ? e.message : 'Unknown error',
+            created_at: new Date(),
+          });
+          return { success: false };
+        }
+      };
+
+      // Process pages in parallel batches
+      for (let i = 0; i < pages.length; i += BATCH_PREPARE_PARALLEL) {
+        const batch = pages.slice(i, i + BATCH_PREPARE_PARALLEL);
+        const results = await Promise.all(batch.map(preparePage));
+        for (const r of results) {
+          if (r.success) preparedCount++;
+          else failedCount++;
+        }
+      }
+
+      // Update progress
+      const totalPrepared = preparedIds.size - failedIds.size + preparedCount;
+      const totalFailed = failedIds.size + failedCount;
+      const remaining = pageIds.length - totalPrepared - totalFailed;
+
+      await db.collection('jobs').updateOne(
+        { id: jobId },
+        {
+          $set: {
+            'progress.completed': totalPrepared,
+            'progress.failed': totalFailed,
+            batch_phase: 'preparing',
+            updated_at: new Date(),
+          },
+        }
+      );
+
+      return sliceResult({
+        job: { ...job, batch_phase: 'preparing' },
+        message: `Prepared ${preparedCount} pages this request. ${remaining} remaining.`,
+        done: false,
+        phase: 'preparing',
+        prepared: totalPrepared,
+        failed: totalFailed,
+        remaining,
+        continue: remaining > 0,
+      });
+    }
+
+    // Phase 2: All prepared - submit to Gemini Batch API in chunks
+    console.log(`[BatchJob ${jobId}] All pages prepared. Submitting to Gemini...`);
+
+    const successfulPreps = prepared.filter(p => !p.failed);
+    if (successfulPreps.length === 0) {
+      await db.collection('jobs').updateOne(
+        { id: jobId, status: 'processing' },
+        {
+          $set: {
+            status: 'failed',
+            error: 'No pages prepared successfully',
+            updated_at: new Date(),
+          },
+        }
+      );
+      return sliceResult({
+        error: 'No pages prepared successfully',
+        failed: prepared.filter(p => p.failed).length,
+      }, { status: 400 });
+    }
+
+    // Get already submitted page IDs
+    const existingBatchJobs = job.gemini_batch_jobs || [];
+    const submittedPageIds = new Set(
+      existingBatchJobs.flatMap(bj => bj.page_ids || [])
+    );
+
+    // Find pages that need to be submitted
+    const unsubmittedPreps = successfulPreps.filter(p => !submittedPageIds.has(p.page_id));
+
+    if (unsubmittedPreps.length === 0) {
+      // All submitted - update phase
+      await db.collection('jobs').updateOne(
+        { id: jobId },
+        {
+          $set: {
+            batch_phase: 'submitted',
+            updated_at: new Date(),
+          },
+        }
+      );
+      return sliceResult({
+        job: { ...job, batch_phase: 'submitted' },
+        message: `All ${successfulPreps.length} pages already submitted in ${existingBatchJobs.length} batch(es).`,
+        done: false,
+        phase: 'submitted',
+        batches: existingBatchJobs.length,
+      }, { retryAfterMs: BATCH_POLL_INTERVAL_MS });
+    }
+
+    // Submit next chunk
+    const chunkToSubmit = unsubmittedPreps.slice(0, BATCH_SUBMIT_CHUNK_SIZE);
+    const batchRequests: BatchRequest[] = chunkToSubmit.map(p => ({
+      key: p.page_id,
+      request: p.request,
+    }));
+
+    console.log(`[BatchJob ${jobId}] Submitting chunk of ${batchRequests.length} requests to Gemini (${unsubmittedPreps.length - batchRequests.length} remaining)...`);
+
+    // Submit to Gemini Batch API
+    const chunkIndex = existingBatchJobs.length;
+    const displayName = `${job.type}-${jobId}-chunk${chunkIndex}`;
+    const geminiJob = await createBatchJobInline(
+      job.config.model || 'gemini-3-flash-preview',
+      batchRequests,
+      displayName
+    );
+
+    console.log(`[BatchJob ${jobId}] Gemini job created: ${geminiJob.name}`);
+
+    // Add to batch jobs array
+    const newBatchJob = {
+      name: geminiJob.name,
+      state: geminiJob.state,
+      page_ids: chunkToSubmit.map(p => p.page_id),
+      submitted_at: new Date(),
+    };
+
+    const allBatchJobs = [...existingBatchJobs, newBatchJob];
+    const totalSubmitted = allBatchJobs.reduce((sum, bj) => sum + (bj.page_ids?.length || 0), 0);
+    const remaining = successfulPreps.length - totalSubmitted;
+
+    // Update job with new batch job
+    await db.collection('jobs').updateOne(
+      { id: jobId },
+      {
+        $set: {
+          gemini_batch_jobs: allBatchJobs,
+          gemini_batch_job: geminiJob.name, // Keep for backwards compat
+          gemini_state: geminiJob.state,
+          batch_phase: remaining > 0 ? 'submitting' : 'submitted',
+          'progress.total': successfulPreps.length,
+          updated_at: new Date(),
+        },
+      }
+    );
+
+    return sliceResult({
+      job: { ...job, gemini_batch_jobs: allBatchJobs },
+      message: `Submitted ${batchRequests.length} pages to Gemini (batch ${chunkIndex + 1}). ${remaining > 0 ? `${remaining} pages remaining to submit.` : 'All pages submitted!'}`,
+      done: false,
+      phase: remaining > 0 ? 'submitting' : 'submitted',
+      gemini_job: geminiJob.name,
+      gemini_state: geminiJob.state,
+      pages_submitted: batchRequests.length,
+      total_submitted: totalSubmitted,
+      remaining_to_submit: remaining,
+      batches: allBatchJobs.length,
+    }, { retryAfterMs: remaining > 0 ? 0 : BATCH_POLL_INTERVAL_MS });
+  } catch (error) {
+    console.error(`[BatchJob ${jobId}] Error in batch processing:`, error);
+    return sliceResult({
+      error: 'Failed to process batch job',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * Run the next slice of a leased job. Stops between pages once `signal`
+ * aborts (the lease was lost to a pause, cancel or another worker). Throws
+ * when the slice fails as a whole; failures of single pages are recorded on
+ * the job instead.
+ */
+export async function processJobSlice(
+  db: Db,
+  job: Job,
+  options: { signal?: AbortSignal } = {}
+): Promise<SliceResult> {
+  const startTime = performance.now();
+  const id = job.id;
+  const targetLanguage = job.config.target_language || DEFAULT_TARGET_LANGUAGE;
+
+  // Pause a paid job once a budget it is charged to reaches its hard limit.
+  // A submitted Batch API job has been paid for, so its results are collected.
+  if (budgetedAction(job.type) && job.batch_phase !== 'submitted') {
+    const reason = await hardLimitReached({
+      tenant_id: await getCurrentTenantId(),
+      book_id: job.book_id,
+      user_id: job.user_id,
+    });
+    if (reason) {
+      await db.collection('jobs').updateOne(
+        { id, status: 'processing' },
+        { $set: { status: 'paused', lease: null, error: reason, updated_at: new Date() } }
+      );
+      const pausedJob = await db.collection('jobs').findOne({ id });
+      return sliceResult({ job: pausedJob, message: reason, paused: true, done: false });
+    }
+  }
+
+  // ========== GEMINI BATCH API HANDLING ==========
+  // For batch_ocr and batch_translate jobs, use Gemini Batch API (50% cheaper)
+  if (job.config.use_batch_api && (job.type === 'batch_ocr' || job.type === 'batch_translate')) {
+    return await handleBatchApiJob(job, db, id);
+  }
+
+  // Get pages that haven't been processed yet
+  const processedPageIds = new Set(job.results.map(r => r.pageId));
+  const remainingPageIds = (job.config.page_ids || []).filter(
+    (pageId: string) => !processedPageIds.has(pageId)
+  );
+
+  if (remainingPageIds.length === 0) {
+    // Job is complete
+    await db.collection('jobs').updateOne(
+      { id, status: 'processing' },
+      {
+        $set: {
+          status: 'completed',
+          completed_at: new Date(),
+          updated_at: new Date(),
+        },
+      }
+    );
+
+    const updatedJob = await db.collection('jobs').findOne({ id });
+    return sliceResult({
+      job: updatedJob,
+      message: 'Job completed',
+      done: true,
+    });
+  }
+
+  // Process a chunk - use larger chunk size for cropping jobs
+  const chunkSize = job.type === 'generate_cropped_images' ? CROP_CHUNK_SIZE : CHUNK_SIZE;
+  const chunkPageIds = remainingPageIds.slice(0, chunkSize);
+  const results: JobResult[] = [];
+
+  // Get page data
+  const pages = await db.collection('pages')
+    .find({ id: { $in: chunkPageIds } })
+    .toArray();
+
+  const pageMap = new Map(pages.map(p => [p.id, p]));
+
+  // Look up prompts for this job (with versioning)
+  let ocrPrompt: PromptLookupResult | undefined;
+  let translationPrompt: PromptLookupResult | undefined;
+  let translationResources: TranslationResources | undefined;
+
+  if (job.type === 'batch_ocr') {
+    ocrPrompt = await getOcrPrompt(job.config.language || 'Latin', {
+      name: job.config.prompt_name,
+      customText: job.config.custom_prompt,
+    });
+  } else if (job.type === 'batch_translate') {
+    translationPrompt = await getTranslationPrompt(
+      job.config.language || 'Latin',
+      targetLanguageName(targetLanguage),
+      { name: job.config.prompt_name, customText: job.config.custom_prompt }
+    );
+    if (job.book_id) {
+      translationResources = await loadTranslationResources(job.book_id, {
+        sourceLanguage: job.config.language || 'Latin',
+        targetLanguage: targetLanguageName(targetLanguage),
+      });
+    }
+  }
+
+  // Handle cropped image generation with parallel processing
+  if (job.type === 'generate_cropped_images') {
+    console.log(`[CropJob ${id}] Processing ${pages.length} pages in parallel (${CROP_PARALLEL} at a time)`);
+
+    // Update job status
+    await db.collection('jobs').updateOne(
+      { id },
+      {
+        $set: {
+          'progress.currentItem': `Processing ${pages.length} cropped images...`,
+          updated_at: new Date(),
+        },
+      }
+    );
+
+    // Process in batches of CROP_PARALLEL
+    for (let i = 0; i < pages.length; i += CROP_PARALLEL) {
+      if (options.signal?.aborted) break;
+      const batch = pages.slice(i, i + CROP_PARALLEL);
+      const batchResults = await Promise.all(
+        batch.map(page => processCroppedImage(page as unknown as { id: string; book_id: string; crop: { xStart: number; xEnd: number }; photo_original?: string; photo?: string }, db))
+      );
+      results.push(...batchResults);
+
+      // Log progress
+      const completed = results.filter(r => r.success).length;
+      console.log(`[CropJob ${id}] Batch ${Math.floor(i / CROP_PARALLEL) + 1}: ${batchResults.filter(r => r.success).length}/${batch.length} succeeded (total: ${completed}/${pages.length})`);
+    }
+
+    // Skip the main for loop for cropped images
+  } else {
+    // Get previous page for context (if processing sequentially)
+    let previousOcr: string | undefined;
+    let previousTranslation: string | undefined;
+
+    for (const pageId of chunkPageIds) {
+    if (options.signal?.aborted) break;
+    const page = pageMap.get(pageId);
+    if (!page) {
+      results.push({ pageId, success: false, error: 'Page not found' });
+      continue;
+    }
+
+    const itemStart = performance.now();
+
+    try {
+      // Update current item
+      await db.collection('jobs').updateOne(
+        { id },
+        {
+          $set: {
+            'progress.currentItem': `Page ${page.page_number || pageId}`,
+            updated_at: new Date(),
+          },
+        }
+      );
+
+      if (job.type === 'batch_ocr') {
+        // Leave pages that already have OCR, when asked to
+        if (job.config.overwrite === false && page.ocr?.data) {
+          results.push({ pageId, success: true, duration: performance.now() - itemStart });
+          continue;
+        }
+
+        // Create snapshot of any manually-edited OCR before overwriting
+        await createSnapshotIfNeeded(pageId, 'pre_ocr', id);
+
+        // Get the correct image for OCR (respecting crop if present)
+        let ocrResult;
+        let imageUrlUsed: string;
+        const ocrStart = performance.now();
+
+        if (page.crop?.xStart !== undefined && page.crop?.xEnd !== undefined) {
+          // Page was split - need cropped image
+          if (page.cropped_photo) {
+            // Use pre-generated cropped image
+            imageUrlUsed = page.cropped_photo;
+            ocrResult = await performOCR(
+              page.cropped_photo,
+              job.config.language || 'Latin',
+              previousOcr,
+              ocrPrompt?.text,
+              job.config.model || 'gemini-3-flash-preview',
+              { layout: job.config.layout === true }
+            );
+          } else {
+            // No cropped_photo yet - crop inline and use buffer directly (faster!)
+            const originalUrl = page.photo_original || page.photo;
+            imageUrlUsed = `[cropped inline from ${originalUrl}]`;
+            const imageResponse = await fetch(originalUrl);
+            if (!imageResponse.ok) {
+              results.push({
+                pageId,
+                success: false,
+                error: 'Failed to fetch image for cropping',
+                duration: performance.now() - itemStart,
+              });
+              continue;
+            }
+
+            const imageBuffer = Buffer.from(await imageResponse.arrayBuffer());
+            const metadata = await sharp(imageBuffer).metadata();
+            const imgWidth = metadata.width || 1000;
+            const imgHeight = metadata.height || 1000;
+
+            const left = Math.round((page.crop.xStart / 1000) * imgWidth);
+            const cropWidth = Math.round(((page.crop.xEnd - page.crop.xStart) / 1000) * imgWidth);
+
+            const croppedBuffer = await sharp(imageBuffer)
+              .extract({
+                left,
+                top: 0,
+                width: Math.min(cropWidth, imgWidth - left),
+                height: imgHeight,
+              })
+              .resize(1200, null, { fit: 'inside', withoutEnlargement: true })
+              .jpeg({ quality: 80, progressive: true })
+              .toBuffer();
+
+            // Do OCR with buffer directly
+            ocrResult = await performOCRWithBuffer(
+              croppedBuffer,
+              'image/jpeg',
+              job.config.language || 'Latin',
+              previousOcr,
+              ocrPrompt?.text,
+              job.config.model || 'gemini-3-flash-preview',
+              { layout: job.config.layout === true }
+            );
+
+            // Upload cropped image in background for future use/viewing
+            const filename = `cropped/${page.book_id}/${pageId}.jpg`;
+            putObject(filename, croppedBuffer, {
+              contentType: 'image/jpeg',
+              overwrite: true,
+            }).then(blob => {
+              db.collection('pages').updateOne(
+                { id: pageId },
+                {
+                  $set: {
+                    cropped_photo: blob.url,
+                    ...(metadata.width && metadata.height && { original_dimensions: { width: metadata.width, height: metadata.height } }),
+                    updated_at: new Date(),
+                  },
+                }
+              );
+            }).catch(() => {
+              // Non-blocking - cropped image will be generated later if needed
+            });
+          }
+        } else {
+          // No crop data - use full image
+          imageUrlUsed = page.photo;
+          ocrResult = await performOCR(
+            page.photo,
+            job.config.language || 'Latin',
+            previousOcr,
+            ocrPrompt?.text,
+            job.config.model || 'gemini-3-flash-preview',
+            { layout: job.config.layout === true }
+          );
+        }
+
+        const ocrDuration = performance.now() - ocrStart;
+
+        // Parse detected images from OCR output (if included via prompt)
+        const detectedImages = parseDetectedImagesFromOcr(ocrResult.text);
+
+        // Build update document
+        const updateDoc: Record<string, unknown> = {
+          ocr: {
+            data: ocrResult.text,
+            language: job.config.language || 'Latin',
+            model: job.config.model || 'gemini-3-flash-preview',
+            prompt: ocrPrompt?.reference,
+            updated_at: new Date(),
+            source: 'ai',  // Mark as AI-generated
+            // Processing metadata for reproducibility
+            input_tokens: ocrResult.usage.inputTokens,
+            output_tokens: ocrResult.usage.outputTokens,
+            cost_usd: ocrResult.usage.costUsd,
+            processing_ms: Math.round(ocrDuration),
+            image_url: imageUrlUsed,
+            ...(ocrResult.layout && { layout: ocrResult.layout }),
+          },
+          updated_at: new Date(),
+        };
+
+        // Include detected images if found
+        if (detectedImages && detectedImages.length > 0) {
+          updateDoc.detected_images = detectedImages;
+        }
+
+        // Save OCR result to page with full metadata
+        await db.collection('pages').updateOne(
+          { id: pageId },
+          { $set: updateDoc }
+        );
+        await refreshSearchIndex({ pageIds: [pageId] });
+        await recordRevisions([pageId], { via: 'job', job_id: id });
+        await recordSpend({
+          action: 'ocr',
+          model: job.config.model || 'gemini-3-flash-preview',
+          book_id: page.book_id,
+          page_id: pageId,
+          job_id: id,
+          user_id: job.user_id,
+          input_tokens: ocrResult.usage.inputTokens,
+          output_tokens: ocrResult.usage.outputTokens,
+          cost_usd: ocrResult.usage.costUsd,
+        });
+
+        previousOcr = ocrResult.text;
+        results.push({
+          pageId,
+          success: true,
+          duration: performance.now() - itemStart,
+        });
+
+      } else if (job.type === 'batch_translate') {
+        if (!page.ocr?.data) {
+          results.push({ pageId, success: false, error: 'No OCR data to translate' });
+          continue;
+        }
+        if (job.config.overwrite === false && getTranslation(page as unknown as Page, targetLanguage)?.data) {
+          results.push({ pageId, success: true, duration: performance.now() - itemStart });
+          continue;
+        }
+
+        // Create snapshot of any manually-edited translation before overwriting
+        await createSnapshotIfNeeded(pageId, 'pre_translate', id, undefined, targetLanguage);
+
+        const translateStart = performance.now();
+        const translationResult = await performTranslation(
+          page.ocr.data,
+          job.config.language || 'Latin',
+          targetLanguageName(targetLanguage),
+          previousTranslation,
+          translationPrompt?.text,
+          job.config.model || 'gemini-3-flash-preview',
+          { guidance: translationResources && selectTranslationGuidance(translationResources, page.ocr.data) }
+        );
+        const translateDuration = performance.now() - translateStart;
+
+        // Save to page with full metadata
+        await db.collection('pages').updateOne(
+          { id: pageId },
+          {
+            $set: {
+              [translationPath(targetLanguage)]: {
+                data: translationResult.text,
+                language: targetLanguageName(targetLanguage),
+                source_language: job.config.language || 'Latin',
+                model: job.config.model || 'gemini-3-flash-preview',
+                prompt: translationPrompt?.reference,
+                updated_at: new Date(),
+                source: 'ai',  // Mark as AI-generated
+                // Processing metadata
+                input_tokens: translationResult.usage.inputTokens,
+                output_tokens: translationResult.usage.outputTokens,
+                cost_usd: translationResult.usage.costUsd,
+                processing_ms: Math.round(translateDuration),
+              },
+              updated_at: new Date(),
+            },
+          }
+        );
+        await refreshSearchIndex({ pageIds: [pageId] });
+        await recordRevisions([pageId], { via: 'job', job_id: id });
+        await recordSpend({
+          action: 'translation',
+          model: job.config.model || 'gemini-3-flash-preview',
+          book_id: page.book_id,
+          page_id: pageId,
+          job_id: id,
+          user_id: job.user_id,
+          input_tokens: translationResult.usage.inputTokens,
+          output_tokens: translationResult.usage.outputTokens,
+          cost_usd: translationResult.usage.costUsd,
+        });
+
+        previousTranslation = translationResult.text;
+        results.push({
+          pageId,
+          success: true,
+          duration: performance.now() - itemStart,
+        });
+
+      } else if (job.type === 'batch_split') {
+        // Fetch the image and run split detection
+        const imageUrl = page.photo;
+        if (!imageUrl) {
+          results.push({ pageId, success: false, error: 'No image URL' });
+          continue;
+        }
+
+        // Fetch image
+        const imageBuffer = await images.fetchBuffer(imageUrl);
+        const splitResult = await detectSplitFromBuffer(imageBuffer);
+
+        // Save split detection result to page
+        await db.collection('pages').updateOne(
+          { id: pageId },
+          {
+            $set: {
+              split_detection: {
+                ...splitResult,
+                detected_at: new Date(),
+              },
+              updated_at: new Date(),
+            },
+          }
+        );
+
+        results.push({
+          pageId,
+          success: true,
+          duration: performance.now() - itemStart,
+        });
+
+      } else if (job.type === 'batch_extract_images') {
+        // Extract images with bounding boxes and gallery quality scores
+        const overwrite = job.config?.overwrite || false;
+
+        // Check if page already has detections (skip unless overwrite mode)
+        if (!overwrite && page.detected_images && page.detected_images.length > 0) {
+          results.push({
+            pageId,
+            success: true,
+            duration: performance.now() - itemStart,
+          });
+          continue;
+        }
+
+        const imageUrl = page.cropped_photo || page.photo;
+        if (!imageUrl) {
+          results.push({ pageId, success: false, error: 'No image URL' });
+          continue;
+        }
+
+        const extractedImages = await extractImages(imageUrl, 'gemini-2.5-flash');
+
+        if (extractedImages.length > 0) {
+          // Update page with extracted images (append or replace based on overwrite mode)
+          if (overwrite) {
+            // Replace existing detections
+            await db.collection('pages').updateOne(
+              { id: pageId },
+              {
+                $set: {
+                  detected_images: extractedImages,
+                  updated_at: new Date(),
+                },
+              }
+            );
+          } else {
+            // Append to existing detections
+            await db.collection<Page>('pages').updateOne(
+              { id: pageId },
+              {
+                $push: {
+                  detected_images: { $each: extractedImages }
+                },
+                $set: {
+                  updated_at: new Date(),
+                },
+              }
+            );
+          }
+        }
+
+        results.push({
+          pageId,
+          success: true,
+          duration: performance.now() - itemStart,
+          // Include extraction summary in result
+          ...(extractedImages.length > 0 && {
+            imagesFound: extractedImages.length,
+            highQuality: extractedImages.filter(i => (i.gallery_quality || 0) >= 0.7).length,
+          }),
+        });
+
+      }
+      // Note: generate_cropped_images is handled separately above with parallel processing
+    } catch (error) {
+      console.error(`Error processing page ${pageId}:`, error);
+      results.push({
+        pageId,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        duration: performance.now() - itemStart,
+      });
+    }
+    }
+  } // Close else block for non-crop jobs
+
+  // Update job with results
+  const successCount = results.filter(r => r.success).length;
+  const failCount = results.filter(r => !r.success).length;
+
+  // Update job with new results
+  const existingResults = (await db.collection('jobs').findOne({ id }))?.results || [];
+  await db.collection('jobs').updateOne(
+    { id },
+    {
+      $set: {
+        results: [...existingResults, ...results],
+        'progress.completed': job.progress.completed + successCount,
+        'progress.failed': job.progress.failed + failCount,
+        'progress.currentItem': null,
+        updated_at: new Date(),
+      },
+    }
+  );
+
+  if (job.type === 'batch_translate' && job.book_id && successCount > 0) {
+    await updateTranslationProgress(db, job.book_id, targetLanguage);
+  }
+
+  // Check if job is now complete or failed
+  const updatedJob = await db.collection('jobs').findOne({ id }) as Job | null;
+  const allProcessed = updatedJob &&
+    (updatedJob.progress.completed + updatedJob.progress.failed) >= updatedJob.progress.total;
+
+  if (allProcessed && updatedJob) {
+    const finalStatus = updatedJob.progress.failed > 0 && updatedJob.progress.completed === 0
+      ? 'failed'
+      : 'completed';
+
+    await db.collection('jobs').updateOne(
+      { id, status: 'processing' },
+      {
+        $set: {
+          status: finalStatus,
+          completed_at: new Date(),
+          updated_at: new Date(),
+        },
+      }
+    );
+  }
+
+  const finalJob = await db.collection('jobs').findOne({ id });
+
+  return sliceResult({
+    job: finalJob,
+    processed: results.length,
+    remaining: remainingPageIds.length - results.length,
+    done: allProcessed,
+    duration: performance.now() - startTime,
+  });
+}
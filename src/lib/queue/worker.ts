@@ -0,0 +1,157 @@
+/**
+ * Drains the job queue: claims jobs, runs a slice of each under a lease that
+ * a heartbeat keeps alive, and releases them. Used by the standalone worker
+ * (scripts/queue-worker.ts), the process-queue cron and the job routes.
+ */
+
+import type { Db } from 'mongodb';
+import type { Job, JobStatus, JobType } from '@/lib/types';
+import { emitJobFinished } from '@/lib/job-helpers';
+import { runAsTenant } from '@/lib/tenant.server';
+import {
+  HEARTBEAT_INTERVAL_MS,
+  claimNextJob,
+  heartbeat,
+  recoverExpiredLeases,
+  releaseJob,
+} from './index';
+import { processJobSlice, type SliceResult } from './processor';
+
+/**
+ * Run one slice of a job this worker has leased, then release it. The job's
+ * tenant scopes everything the slice does. If a heartbeat finds the lease
+ * gone (the job was paused or cancelled), the slice stops after the current
+ * page. A job the slice finished, or that failed for good, is reported to
+ * webhook subscribers.
+ */
+export async function runLeasedSlice(db: Db, job: Job, owner: string): Promise<SliceResult> {
+  const controller = new AbortController();
+  const timer = setInterval(() => {
+    heartbeat(db, job.id, owner)
+      .then(held => {
+        if (!held) controller.abort();
+      })
+      .catch(error => console.warn(`[queue] Heartbeat for job ${job.id} failed:`, error));
+  }, HEARTBEAT_INTERVAL_MS);
+  timer.unref?.();
+
+  try {
+    const result = await runAsTenant(job.tenant_id, () =>
+      processJobSlice(db, job, { signal: controller.signal })
+    );
+    const failed = (result.status ?? 200) >= 500;
+    const status = await releaseJob(db, job.id, owner, failed
+      ? { error: String(result.body.details || result.body.error || 'Slice failed') }
+      : { retryAfterMs: result.retryAfterMs });
+    await reportFinished(db, job, status);
+    return result;
+  } catch (error) {
+    const status = await releaseJob(db, job.id, owner, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    await reportFinished(db, job, status);
+    throw error;
+  } finally {
+    clearInterval(timer);
+  }
+}
+
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'failed', 'dead'];
+
+async function reportFinished(db: Db, job: Job, status: JobStatus | null): Promise<void> {
+  if (!status || status === job.status || !FINISHED_STATUSES.includes(status)) return;
+  const finished = await db.collection<Job>('jobs').findOne({ id: job.id }, { projection: { _id: 0 } });
+  if (finished) await emitJobFinished(finished);
+}
+
+export interface DrainOptions {
+  owner: string;
+  types?: JobType[];
+  /** Stop claiming new slices after this time */
+  deadline?: number;
+  maxSlices?: number;
+  signal?: AbortSignal;
+}
+
+export interface DrainedSlice {
+  job_id: string;
+  type: JobType;
+  book_title?: string;
+  status: JobStatus | null;
+  body?: Record<string, unknown>;
+  error?: string;
+}
+
+/**
+ * Run slices until the queue has nothing ready, the deadline passes or
+ * maxSlices have run. Expired leases are recovered first.
+ */
+export async function drainQueue(db: Db, options: DrainOptions): Promise<DrainedSlice[]> {
+  const slices: DrainedSlice[] = [];
+  const recovered = await recoverExpiredLeases(db);
+  if (recovered > 0) console.log(`[queue] Recovered ${recovered} job(s) with expired leases`);
+
+  while (
+    !options.signal?.aborted &&
+    (!options.deadline || Date.now() < options.deadline) &&
+    (!options.maxSlices || slices.length < options.maxSlices)
+  ) {
+    const job = await claimNextJob(db, options.owner, { types: options.types });
+    if (!job) break;
+
+    const slice: DrainedSlice = { job_id: job.id, type: job.type, book_title: job.book_title, status: null };
+    try {
+      const result = await runLeasedSlice(db, job, options.owner);
+      slice.body = result.body;
+    } catch (error) {
+      console.error(`[queue] Job ${job.id} slice failed:`, error);
+      slice.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+    slice.status = (await db.collection<Job>('jobs').findOne({ id: job.id }))?.status ?? null;
+    slices.push(slice);
+  }
+
+  return slices;
+}
+
+export interface WorkerOptions {
+  workerId: string;
+  types?: JobType[];
+  /** Loops draining the queue side by side (default 1) */
+  concurrency?: number;
+  /** Wait between polls of an empty queue (default 5s) */
+  pollMs?: number;
+  /** Return once the queue is empty instead of polling */
+  exitWhenIdle?: boolean;
+  signal?: AbortSignal;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Drain the queue until stopped. Returns the number of slices run.
+ */
+export async function runWorker(db: Db, options: WorkerOptions): Promise<number> {
+  const loops = Array.from({ length: Math.max(options.concurrency || 1, 1) }, async (_, i) => {
+    const owner = options.concurrency && options.concurrency > 1 ? `${options.workerId}.${i}` : options.workerId;
+    let ran = 0;
+    while (!options.signal?.aborted) {
+      const slices = await drainQueue(db, { owner, types: options.types, signal: options.signal });
+      ran += slices.length;
+      if (slices.length === 0) {
+        if (options.exitWhenIdle) break;
+        await sleep(options.pollMs ?? 5000, options.signal);
+      }
+    }
+    return ran;
+  });
+  return (await Promise.all(loops)).reduce((sum, ran) => sum + ran, 0);
+}
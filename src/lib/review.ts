@@ -0,0 +1,187 @@
+/**
+ * Proofreading workflow.
+ *
+ * Each page's OCR and translation moves through unreviewed → in review →
+ * needs changes / approved. A field is approved once the book's required
+ * number of distinct reviewers (two by default) have signed off, and any
+ * save that changes the text afterwards drops the sign-offs so the new text
+ * is reviewed again. Assignment records who is working on a field.
+ *
+ * Each target language's translation is reviewed on its own, keyed the way
+ * the translation itself is: `review.translation` for English and
+ * `review.translations.<code>` for the others.
+ */
+
+import type { Db } from 'mongodb';
+import { getDb } from './mongodb';
+import { DEFAULT_TARGET_LANGUAGE, getTranslation, translationPath } from './translation-languages';
+import type {
+  Book,
+  DiffField,
+  FieldReview,
+  Page,
+  ReviewAction,
+  Reviewer,
+  ReviewPolicy,
+  ReviewState,
+  ReviewStateCounts,
+} from './types';
+
+export const REVIEW_COMMENTS_COLLECTION = 'review_comments';
+
+export const REVIEW_STATES: ReviewState[] = ['unreviewed', 'in_review', 'needs_changes', 'approved'];
+
+export const REVIEW_ACTIONS: ReviewAction[] = ['assign', 'unassign', 'start', 'request_changes', 'approve', 'reopen'];
+
+export const DEFAULT_REVIEW_POLICY: ReviewPolicy = {
+  required_approvals: 2,
+  publish_min_approved_percent: 0,
+};
+
+export function reviewPolicy(book: Pick<Book, 'review_policy'> | null | undefined): ReviewPolicy {
+  return { ...DEFAULT_REVIEW_POLICY, ...book?.review_policy };
+}
+
+/** Where a page keeps the review of `field`, below `review` */
+export function reviewPath(field: DiffField, targetLanguage = DEFAULT_TARGET_LANGUAGE): string {
+  return field === 'ocr' ? field : translationPath(targetLanguage);
+}
+
+export function getFieldReview(
+  page: Pick<Page, 'review'>,
+  field: DiffField,
+  targetLanguage = DEFAULT_TARGET_LANGUAGE
+): FieldReview | undefined {
+  if (field === 'ocr' || targetLanguage === DEFAULT_TARGET_LANGUAGE) return page.review?.[field];
+  return page.review?.translations?.[targetLanguage];
+}
+
+// Reviewers are the same person if they share a user id, or a name when neither has one
+function sameReviewer(a: Reviewer, b: Reviewer): boolean {
+  if (a.user_id || b.user_id) return a.user_id === b.user_id;
+  return a.name === b.name;
+}
+
+export type ReviewActionResult = { review: FieldReview } | { error: string; status: number };
+
+/**
+ * Apply a review action to a field's current review. `assignee` is only
+ * read by 'assign' and defaults to the actor.
+ */
+export function applyReviewAction(
+  current: FieldReview | undefined,
+  action: ReviewAction,
+  options: { actor: Reviewer; assignee?: Reviewer; policy: ReviewPolicy; now?: Date }
+): ReviewActionResult {
+  const { actor, policy } = options;
+  const now = options.now || new Date();
+  const review: FieldReview = {
+    state: 'unreviewed',
+    approvals: [],
+    ...current,
+    updated_at: now,
+    updated_by: actor.name,
+  };
+
+  switch (action) {
+    case 'assign':
+      review.assignee = options.assignee || { ...(actor.user_id && { user_id: actor.user_id }), name: actor.name };
+      review.assigned_at = now;
+      break;
+
+    case 'unassign':
+      delete review.assignee;
+      delete review.assigned_at;
+      break;
+
+    case 'start':
+      if (review.state === 'in_review' || review.state === 'approved') {
+        return { error: `Review is already ${review.state.replace('_', ' ')}`, status: 409 };
+      }
+      review.state = 'in_review';
+      review.approvals = [];
+      if (!review.assignee) {
+        review.assignee = { ...(actor.user_id && { user_id: actor.user_id }), name: actor.name };
+        review.assigned_at = now;
+      }
+      break;
+
+    case 'request_changes':
+      if (review.state === 'unreviewed') {
+        return { error: 'Start the review before requesting changes', status: 409 };
+      }
+      review.state = 'needs_changes';
+      review.approvals = [];
+      break;
+
+    case 'approve':
+      if (review.state === 'approved') {
+        return { error: 'Already approved', status: 409 };
+      }
+      if (review.approvals.some(approval => sameReviewer(approval, actor))) {
+        return { error: `${actor.name} has already signed off; another reviewer must approve`, status: 409 };
+      }
+      review.approvals = [
+        ...review.approvals,
+        { ...(actor.user_id && { user_id: actor.user_id }), name: actor.name, at: now },
+      ];
+      review.state = review.approvals.length >= policy.required_approvals ? 'approved' : 'in_review';
+      break;
+
+    case 'reopen':
+      review.state = 'unreviewed';
+      review.approvals = [];
+      break;
+  }
+
+  return { review };
+}
+
+/**
+ * Drop the sign-offs on a field whose text has just changed: an approved or
+ * partly signed-off field goes back into review.
+ */
+export async function voidApprovals(
+  db: Db,
+  pageId: string,
+  field: DiffField,
+  targetLanguage = DEFAULT_TARGET_LANGUAGE
+): Promise<void> {
+  const path = `review.${reviewPath(field, targetLanguage)}`;
+  await db.collection('pages').updateOne(
+    { id: pageId, [`${path}.approvals.0`]: { $exists: true } },
+    {
+      $set: {
+        [`${path}.state`]: 'in_review',
+        [`${path}.approvals`]: [],
+        [`${path}.updated_at`]: new Date(),
+      },
+    }
+  );
+}
+
+export function emptyStateCounts(): ReviewStateCounts {
+  return { unreviewed: 0, in_review: 0, needs_changes: 0, approved: 0 };
+}
+
+/**
+ * Share of pages translated into `targetLanguage` whose translation is
+ * approved, 0-100
+ */
+export function approvedPercent(
+  pages: Pick<Page, 'translation' | 'translations' | 'review'>[],
+  targetLanguage = DEFAULT_TARGET_LANGUAGE
+): number {
+  const translated = pages.filter(p => getTranslation(p, targetLanguage)?.data);
+  if (translated.length === 0) return 0;
+  const approved = translated.filter(p => getFieldReview(p, 'translation', targetLanguage)?.state === 'approved').length;
+  return Math.round((approved / translated.length) * 1000) / 10;
+}
+
+export async function ensureReviewIndexes(db?: Db): Promise<void> {
+  const database = db || await getDb();
+  const comments = database.collection(REVIEW_COMMENTS_COLLECTION);
+  await comments.createIndex({ id: 1 }, { name: 'review_comments_id_idx', unique: true });
+  await comments.createIndex({ page_id: 1, created_at: 1 }, { name: 'review_comments_page_idx' });
+  await comments.createIndex({ book_id: 1, resolved: 1 }, { name: 'review_comments_book_idx' });
+}
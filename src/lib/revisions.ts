@@ -0,0 +1,241 @@
+/**
+ * Page revision history.
+ *
+ * Every save of a page's OCR or translation that changes the text is kept
+ * as an immutable revision: who or what wrote it, with which model and
+ * prompt, and how big the change was. Writers call recordRevisions() after
+ * updating pages; it reads the saved text back, so each call site only says
+ * how the text was saved. New revisions are also sent to webhook subscribers
+ * as page.translated events, and as page.ocr_completed events when they come
+ * from an OCR run rather than a hand edit.
+ *
+ * Each target language's translation has a history of its own: revisions of
+ * translations other than English carry its `target_language`.
+ */
+
+import type { Db, Filter } from 'mongodb';
+import { nanoid } from 'nanoid';
+import { getDb } from './mongodb';
+import { diffTexts } from './diff';
+import { voidApprovals } from './review';
+import { emitWebhookEvent } from './webhooks.server';
+import { DEFAULT_TARGET_LANGUAGE } from './translation-languages';
+import type {
+  BlameLine,
+  Contributor,
+  DiffField,
+  OcrData,
+  Page,
+  PageRevision,
+  RevisionVia,
+  TranslationData,
+  WebhookEventType,
+} from './types';
+
+export const REVISIONS_COLLECTION = 'page_revisions';
+
+const REVISION_EVENTS: Record<DiffField, WebhookEventType> = {
+  ocr: 'page.ocr_completed',
+  translation: 'page.translated',
+};
+
+// Saves that finish running OCR; other OCR revisions are edits to its text
+const OCR_RUN_VIAS: RevisionVia[] = ['process', 'job', 'batch', 'contribute'];
+
+export interface RevisionContext {
+  via: RevisionVia;
+  source?: PageRevision['source'];  // Defaults to the field's source
+  author?: string;               // Defaults to the field's edited_by for manual edits
+  user_id?: string;
+  job_id?: string;
+}
+
+/** Filter for the revisions of one language's translation (English has no target_language) */
+export function revisionLanguageFilter(targetLanguage: string = DEFAULT_TARGET_LANGUAGE): Filter<PageRevision> {
+  return { target_language: targetLanguage === DEFAULT_TARGET_LANGUAGE ? { $exists: false } : targetLanguage };
+}
+
+// A text with a history: the OCR, or the translation into one language
+interface RevisionSlot {
+  field: DiffField;
+  targetLanguage: string;
+  content: OcrData | TranslationData;
+}
+
+function revisionSlots(page: Page): RevisionSlot[] {
+  const slots: RevisionSlot[] = [];
+  if (page.ocr) slots.push({ field: 'ocr', targetLanguage: DEFAULT_TARGET_LANGUAGE, content: page.ocr });
+  if (page.translation) slots.push({ field: 'translation', targetLanguage: DEFAULT_TARGET_LANGUAGE, content: page.translation });
+  for (const [code, content] of Object.entries(page.translations || {})) {
+    if (code !== DEFAULT_TARGET_LANGUAGE && content) slots.push({ field: 'translation', targetLanguage: code, content });
+  }
+  return slots;
+}
+
+// The revision fields copied from a page's ocr/translation metadata
+function revisionMetadata(content: OcrData | TranslationData, context: RevisionContext) {
+  const source = context.source || (content.source === 'manual' ? 'manual' : 'ai');
+  const jobId = context.job_id || (content as { batch_job_id?: string }).batch_job_id;
+  const author = context.author || (source === 'manual' ? content.edited_by : undefined);
+
+  return {
+    source,
+    via: context.via,
+    ...(author && { author }),
+    ...(context.user_id && { user_id: context.user_id }),
+    ...(source === 'ai' && content.model && { model: content.model }),
+    ...(content.prompt_name && { prompt_name: content.prompt_name }),
+    ...(jobId && { job_id: jobId }),
+  } as const;
+}
+
+/**
+ * Record a revision for each OCR or translation of these pages whose text
+ * differs from its latest revision. Never throws: history is kept on a best
+ * effort basis and must not fail the save it follows.
+ */
+export async function recordRevisions(pageIds: string[], context: RevisionContext): Promise<void> {
+  if (pageIds.length === 0) return;
+
+  try {
+    const db = await getDb();
+    const pages = await db.collection('pages')
+      .find({ id: { $in: pageIds } })
+      .project({ id: 1, book_id: 1, page_number: 1, tenant_id: 1, ocr: 1, translation: 1, translations: 1 })
+      .toArray() as unknown as Page[];
+
+    const revisions = db.collection<PageRevision>(REVISIONS_COLLECTION);
+    for (const page of pages) {
+      for (const { field, targetLanguage, content } of revisionSlots(page)) {
+        const text = content.data;
+        if (typeof text !== 'string') continue;
+        const isEnglish = targetLanguage === DEFAULT_TARGET_LANGUAGE;
+
+        const latest = await revisions.findOne(
+          { page_id: page.id, field, ...revisionLanguageFilter(targetLanguage) },
+          { sort: { revision: -1 }, projection: { id: 1, revision: 1, text: 1 } }
+        );
+        if (latest?.text === text) continue;
+
+        // A baseline is dated when the text it records was saved
+        const createdAt = context.via === 'baseline'
+          ? content.edited_at || content.updated_at || new Date()
+          : new Date();
+
+        const revision: PageRevision = {
+          id: nanoid(12),
+          page_id: page.id,
+          book_id: page.book_id,
+          field,
+          ...(!isEnglish && { target_language: targetLanguage }),
+          revision: (latest?.revision ?? 0) + 1,
+          ...(latest && { parent_id: latest.id }),
+          text,
+          chars: text.length,
+          diff: diffTexts(latest?.text ?? '', text).stats,
+          ...revisionMetadata(content, context),
+          created_at: new Date(createdAt),
+        };
+        await revisions.insertOne(revision);
+
+        if (context.via === 'baseline') continue;
+
+        // Sign-offs were for the text this replaces
+        if (latest) await voidApprovals(db, page.id, field, targetLanguage);
+
+        if (field === 'ocr' && !OCR_RUN_VIAS.includes(context.via)) continue;
+
+        await emitWebhookEvent(REVISION_EVENTS[field], {
+          page_id: page.id,
+          book_id: page.book_id,
+          page_number: page.page_number,
+          revision: revision.revision,
+          language: content.language,
+          ...(field === 'translation' && { target_language: targetLanguage }),
+          chars: revision.chars,
+          source: revision.source,
+          via: revision.via,
+          model: revision.model ?? null,
+          job_id: revision.job_id ?? null,
+        }, { tenant_id: page.tenant_id });
+      }
+    }
+  } catch (error) {
+    console.error('[revisions] Failed to record revisions:', error);
+  }
+}
+
+/**
+ * Attribute each line of `current` to the revision that introduced it,
+ * following the revisions in order. Lines that only changed markup keep
+ * their earlier attribution; text that differs from the latest revision
+ * (saved outside revision history) is attributed to no revision.
+ */
+export function blame(revisions: PageRevision[], current: string): BlameLine[] {
+  type Attribution = PageRevision | null;
+  let text = '';
+  let attributions: Attribution[] = [];
+
+  const advance = (next: string, revision: Attribution) => {
+    const lines: Attribution[] = [];
+    for (const line of diffTexts(text, next).lines) {
+      if (line.op === 'equal') lines.push(attributions[line.from_line! - 1]);
+      if (line.op === 'insert') lines.push(revision);
+    }
+    text = next;
+    attributions = lines;
+  };
+
+  const ordered = [...revisions].sort((a, b) => a.revision - b.revision);
+  for (const revision of ordered) advance(revision.text, revision);
+  if (current !== text) advance(current, null);
+
+  const lines = current ? current.replace(/\r\n?/g, '\n').split('\n') : [];
+  return lines.map((line, i) => {
+    const revision = attributions[i];
+    if (!revision) return { line: i + 1, text: line, revision_id: null };
+    return {
+      line: i + 1,
+      text: line,
+      revision_id: revision.id,
+      revision: revision.revision,
+      source: revision.source,
+      via: revision.via,
+      ...(revision.author && { author: revision.author }),
+      ...(revision.model && { model: revision.model }),
+      created_at: revision.created_at,
+    };
+  });
+}
+
+/**
+ * The people who edited or reviewed these pages' translations into
+ * `targetLanguage`, for an edition's contributor list.
+ */
+export async function humanContributors(
+  db: Db,
+  pageIds: string[],
+  targetLanguage = DEFAULT_TARGET_LANGUAGE
+): Promise<Contributor[]> {
+  const editors = await db.collection<PageRevision>(REVISIONS_COLLECTION).aggregate<{ _id: string; vias: RevisionVia[] }>([
+    { $match: { page_id: { $in: pageIds }, field: 'translation', ...revisionLanguageFilter(targetLanguage), source: 'manual', author: { $exists: true } } },
+    { $group: { _id: '$author', vias: { $addToSet: '$via' } } },
+    { $sort: { _id: 1 } },
+  ]).toArray();
+
+  return editors
+    .filter(editor => editor._id && editor._id !== 'Unknown')
+    .map(editor => ({
+      name: editor._id,
+      role: editor.vias.every(via => via === 'review') ? 'reviewer' : 'editor',
+      type: 'human',
+    }));
+}
+
+export async function ensureRevisionIndexes(db?: Db): Promise<void> {
+  const database = db || await getDb();
+  const revisions = database.collection(REVISIONS_COLLECTION);
+  await revisions.createIndex({ id: 1 }, { name: 'page_revisions_id_idx', unique: true });
+  await revisions.createIndex({ page_id: 1, field: 1, revision: -1 }, { name: 'page_revisions_page_idx' });
+  await revisions.createIndex({ book_id: 1, created_at: -1 }, { name: 'page_revisions_book_idx' });
+}
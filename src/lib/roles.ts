@@ -0,0 +1,41 @@
+/**
+ * User roles, from least to most privileged. Each role includes the
+ * permissions of every role before it.
+ *
+ * - reader: any signed-in user (likes, highlights, annotations)
+ * - contributor: runs OCR/translation and edits individual pages
+ * - editor: restructures and resets books and pages, runs batch jobs
+ * - curator: manages the collection - imports, deletions, editions/DOIs,
+ *   prompts and social posting
+ * - admin: maintenance and migration routes, role assignment
+ *
+ * Shared by the server-side guard and the client, so keep this module free
+ * of server-only imports.
+ */
+
+export const ROLES = ['reader', 'contributor', 'editor', 'curator', 'admin'] as const;
+
+export type Role = typeof ROLES[number];
+
+export const DEFAULT_ROLE: Role = 'reader';
+
+export const ROLE_LABELS: Record<Role, string> = {
+  reader: 'Reader',
+  contributor: 'Contributor',
+  editor: 'Editor',
+  curator: 'Curator',
+  admin: 'Admin',
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether a user with `role` may perform an action that requires `required`.
+ * A missing role (signed out) never qualifies.
+ */
+export function hasRole(role: Role | null | undefined, required: Role): boolean {
+  if (!role) return false;
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
@@ -0,0 +1,139 @@
+/**
+ * Embedding backends for semantic passage search.
+ *
+ * The backend is chosen with EMBEDDING_BACKEND:
+ * - hashing (default): local, dependency-free feature-hashing embedder.
+ *   Words and character n-grams are hashed into a fixed-size vector, so
+ *   related word forms ("ascend", "ascent") land close together. It needs no
+ *   API key and no model download.
+ * - gemini: Google text-embedding-004 via the rotating Gemini keys. Captures
+ *   paraphrase and topic similarity, at the cost of an API call per batch.
+ *
+ * Other backends can be added with registerEmbeddingBackend(). Vectors are
+ * stored with the backend id, so switching backends re-embeds pages instead
+ * of mixing incompatible vector spaces.
+ */
+
+import { TaskType } from '@google/generative-ai';
+import { withGeminiClient } from '@/lib/ai-providers/gemini';
+import { normalizeToken, tokenize } from './normalize';
+
+export type EmbeddingPurpose = 'document' | 'query';
+
+export interface EmbeddingBackend {
+  /** Stored with every vector; change it whenever the vector space changes */
+  id: string;
+  dimensions: number;
+  /** Maximum number of texts per embed() call */
+  batchSize: number;
+  embed(texts: string[], purpose: EmbeddingPurpose): Promise<number[][]>;
+}
+
+const backends = new Map<string, () => EmbeddingBackend>();
+
+export function registerEmbeddingBackend(name: string, factory: () => EmbeddingBackend): void {
+  backends.set(name, factory);
+}
+
+export function getEmbeddingBackend(name = process.env.EMBEDDING_BACKEND || 'hashing'): EmbeddingBackend {
+  const factory = backends.get(name);
+  if (!factory) {
+    throw new Error(`Unknown embedding backend "${name}". Available: ${[...backends.keys()].join(', ')}`);
+  }
+  return factory();
+}
+
+function normalizeVector(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+// ============================================
+// HASHING BACKEND
+// ============================================
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'is', 'are', 'was', 'were', 'be', 'been', 'being',
+  'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should',
+  'may', 'might', 'must', 'shall', 'can', 'to', 'of', 'in', 'for', 'on', 'with',
+  'at', 'by', 'from', 'as', 'into', 'through', 'and', 'but', 'or', 'nor', 'so',
+  'not', 'than', 'too', 'very', 'just', 'what', 'which', 'who', 'whom', 'this',
+  'that', 'these', 'those', 'i', 'me', 'my', 'we', 'our', 'you', 'your', 'he',
+  'him', 'his', 'she', 'her', 'it', 'its', 'they', 'them', 'their', 'about',
+  'there', 'then', 'also', 'all', 'any', 'if', 'no', 'such', 'same',
+]);
+
+// FNV-1a, 32-bit
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function createHashingBackend(dimensions = 1024): EmbeddingBackend {
+  const embedOne = (text: string): number[] => {
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => {
+      counts.set(feature, (counts.get(feature) || 0) + weight);
+    };
+
+    for (const token of tokenize(text)) {
+      const word = normalizeToken(token.raw);
+      if (word.length < 2 || STOP_WORDS.has(word)) continue;
+      add(`w:${word}`, 1);
+      // Character 4-grams tie together inflected and derived forms
+      const padded = `^${word}$`;
+      for (let i = 0; i + 4 <= padded.length; i++) {
+        add(`g:${padded.slice(i, i + 4)}`, 0.25);
+      }
+    }
+
+    const vector = new Array<number>(dimensions).fill(0);
+    for (const [feature, count] of counts) {
+      const hash = hashFeature(feature);
+      // The top bit picks the sign so collisions cancel out instead of piling up
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % dimensions] += sign * (1 + Math.log(count + 1));
+    }
+    return normalizeVector(vector);
+  };
+
+  return {
+    id: `hashing-${dimensions}-v1`,
+    dimensions,
+    batchSize: 500,
+    embed: async (texts) => texts.map(embedOne),
+  };
+}
+
+// ============================================
+// GEMINI BACKEND
+// ============================================
+
+const GEMINI_EMBEDDING_MODEL = 'text-embedding-004';
+
+function createGeminiBackend(): EmbeddingBackend {
+  return {
+    id: `gemini-${GEMINI_EMBEDDING_MODEL}`,
+    dimensions: 768,
+    batchSize: 100,
+    embed: async (texts, purpose) => {
+      if (texts.length === 0) return [];
+      const result = await withGeminiClient(client =>
+        client.getGenerativeModel({ model: GEMINI_EMBEDDING_MODEL }).batchEmbedContents({
+          requests: texts.map(text => ({
+            content: { role: 'user', parts: [{ text }] },
+            taskType: purpose === 'query' ? TaskType.RETRIEVAL_QUERY : TaskType.RETRIEVAL_DOCUMENT,
+          })),
+        })
+      );
+      return result.embeddings.map(e => normalizeVector(e.values));
+    },
+  };
+}
+
+registerEmbeddingBackend('hashing', () => createHashingBackend());
+registerEmbeddingBackend('gemini', createGeminiBackend);
@@ -0,0 +1,434 @@
+/**
+ * Query evaluation over the inverted index built by ./indexer.
+ *
+ * 1. Every query leaf is resolved to concrete index keys: one per field and
+ *    normalization variant for a term, expanded index terms for a prefix,
+ *    and adjacent bigrams for a phrase.
+ * 2. The boolean structure becomes a MongoDB filter on the multikey `terms`
+ *    index to fetch candidates. Exclusions are left out of the filter.
+ * 3. Candidates are scored in the aggregation with BM25F-style field
+ *    weighting, so the best ones are kept when too many match, and then
+ *    verified in memory (exclusions, prefixes).
+ *
+ * highlightText() produces HTML-escaped snippets with <mark> around the
+ * tokens that matched, using the same normalization as the index.
+ */
+
+import type { Db, Filter, Document } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import {
+  NORMALIZATION_PROFILES,
+  normalizeToken,
+  normalizeTokenVariants,
+  tokenize,
+} from './normalize';
+import { parseQuery, positiveLeaves, type QueryNode } from './query';
+import {
+  SEARCH_DOCUMENTS_COLLECTION,
+  getSearchStats,
+  translationField,
+  type IndexField,
+  type SearchField,
+} from './indexer';
+
+export interface SearchIndexOptions {
+  types?: Array<'page' | 'book'>;
+  bookIds?: string[];
+  fields?: SearchField[];
+  /** Which translation the `t` field searches (BCP 47 code, default English) */
+  targetLanguage?: string;
+  limit?: number;
+  offset?: number;
+  db?: Db;
+}
+
+export interface SearchHit {
+  id: string;
+  type: 'page' | 'book';
+  book_id: string;
+  page_id?: string;
+  page_number?: number;
+  score: number;
+  matched_fields: SearchField[];
+}
+
+export interface SearchIndexResult {
+  total: number;
+  hits: SearchHit[];
+  /** True when more documents matched than could be ranked */
+  truncated: boolean;
+}
+
+export interface Highlight {
+  snippet: string;
+  position: number;
+}
+
+const ALL_FIELDS: SearchField[] = ['o', 't', 'm', 's'];
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  m: 3.0,
+  s: 1.5,
+  t: 1.2,
+  o: 1.0,
+};
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Upper bound on documents scored per query
+const MAX_CANDIDATES = 2000;
+// Upper bound on index terms a single prefix (e.g. "a*") expands to, and on
+// the documents sampled to find them
+const MAX_PREFIX_EXPANSIONS = 50;
+const PREFIX_SAMPLE_DOCUMENTS = 200;
+
+/** A query leaf resolved to index keys. Each alternative is a set of keys that must all be present. */
+interface ResolvedLeaf {
+  alternatives: string[][];
+}
+
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function escapeHtml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+async function expandPrefix(
+  db: Db,
+  scope: Filter<Document>,
+  fields: IndexField[],
+  value: string
+): Promise<string[]> {
+  const patterns = fields.flatMap(field =>
+    normalizeTokenVariants(value).map(v => new RegExp(`^${field}:${escapeRegex(v)}[^ ]*$`))
+  );
+  if (patterns.length === 0) return [];
+
+  const matchAny = { $or: patterns.map(p => ({ terms: p })) };
+  const expansions = await db.collection(SEARCH_DOCUMENTS_COLLECTION).aggregate([
+    { $match: { ...scope, ...matchAny } },
+    { $limit: PREFIX_SAMPLE_DOCUMENTS },
+    { $project: { terms: 1 } },
+    { $unwind: '$terms' },
+    { $match: matchAny },
+    { $group: { _id: '$terms', count: { $sum: 1 } } },
+    { $sort: { count: -1 } },
+    { $limit: MAX_PREFIX_EXPANSIONS },
+  ]).toArray();
+
+  return expansions.map(e => e._id as string);
+}
+
+async function resolveLeaf(
+  db: Db,
+  scope: Filter<Document>,
+  leaf: Extract<QueryNode, { type: 'term' | 'phrase' }>,
+  fields: IndexField[]
+): Promise<ResolvedLeaf> {
+  if (leaf.type === 'term') {
+    const keys = leaf.prefix
+      ? await expandPrefix(db, scope, fields, leaf.value)
+      : fields.flatMap(field => normalizeTokenVariants(leaf.value).map(v => `${field}:${v}`));
+    return { alternatives: keys.map(k => [k]) };
+  }
+
+  const alternatives = new Map<string, string[]>();
+  for (const field of fields) {
+    for (const profile of NORMALIZATION_PROFILES) {
+      const terms = leaf.terms.map(t => normalizeToken(t, profile)).filter(Boolean);
+      if (terms.length === 0) continue;
+      const keys = terms.length === 1
+        ? [`${field}:${terms[0]}`]
+        : terms.slice(1).map((term, i) => `${field}:${terms[i]} ${term}`);
+      alternatives.set(keys.join('|'), keys);
+    }
+  }
+  return { alternatives: [...alternatives.values()] };
+}
+
+function leafFilter(leaf: ResolvedLeaf): Filter<Document> {
+  if (leaf.alternatives.length === 0) {
+    // Nothing in the index can match (e.g. a prefix with no expansions)
+    return { terms: { $in: [] } };
+  }
+  const single = leaf.alternatives.filter(a => a.length === 1).map(a => a[0]);
+  const multi = leaf.alternatives.filter(a => a.length > 1);
+  const clauses: Filter<Document>[] = [];
+  if (single.length > 0) clauses.push({ terms: { $in: single } });
+  for (const keys of multi) clauses.push({ terms: { $all: keys } });
+  return clauses.length === 1 ? clauses[0] : { $or: clauses };
+}
+
+function buildFilter(node: QueryNode, resolved: Map<QueryNode, ResolvedLeaf>): Filter<Document> | null {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return leafFilter(resolved.get(node)!);
+    case 'not':
+      return null;
+    case 'and': {
+      const children = node.children
+        .map(child => buildFilter(child, resolved))
+        .filter((f): f is Filter<Document> => f !== null);
+      if (children.length === 0) return null;
+      return children.length === 1 ? children[0] : { $and: children };
+    }
+    case 'or': {
+      const children = node.children.map(child => buildFilter(child, resolved));
+      if (children.some(f => f === null)) return null;
+      return { $or: children as Filter<Document>[] };
+    }
+  }
+}
+
+function leafMatches(leaf: ResolvedLeaf, tf: Record<string, number>): boolean {
+  return leaf.alternatives.some(keys => keys.every(k => tf[k] > 0));
+}
+
+function evaluate(node: QueryNode, tf: Record<string, number>, resolved: Map<QueryNode, ResolvedLeaf>): boolean {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return leafMatches(resolved.get(node)!, tf);
+    case 'not':
+      return !evaluate(node.child, tf, resolved);
+    case 'and':
+      return node.children.every(child => evaluate(child, tf, resolved));
+    case 'or':
+      return node.children.some(child => evaluate(child, tf, resolved));
+  }
+}
+
+/** Term frequency of a leaf within one field: summed over alternatives, phrases count their rarest bigram. */
+function leafFrequency(leaf: ResolvedLeaf, field: IndexField, tf: Record<string, number>): number {
+  let total = 0;
+  for (const keys of leaf.alternatives) {
+    if (!keys[0].startsWith(`${field}:`)) continue;
+    total += Math.min(...keys.map(k => tf[k] || 0));
+  }
+  return total;
+}
+
+/** A document's `tf` or `lengths` entry, 0 when missing. Keys contain ':' and spaces, hence $getField. */
+function storedCount(object: '$tf' | '$lengths', key: string): Document {
+  return { $ifNull: [{ $getField: { field: { $literal: key }, input: object } }, 0] };
+}
+
+/**
+ * The BM25F score of a search document as an aggregation expression: for
+ * every positive leaf and field, the same term frequency leafFrequency()
+ * computes, saturated and normalized by the field's length.
+ */
+function scoreExpression(
+  leaves: ResolvedLeaf[],
+  idf: number[],
+  fields: SearchField[],
+  indexFields: IndexField[],
+  averageLength: (field: IndexField) => number
+): Document {
+  const terms: Document[] = [];
+  leaves.forEach((leaf, i) => {
+    fields.forEach((field, f) => {
+      const indexField = indexFields[f];
+      const alternatives = leaf.alternatives.filter(keys => keys[0].startsWith(`${indexField}:`));
+      if (alternatives.length === 0) return;
+
+      const freq = { $add: alternatives.map(keys => ({ $min: keys.map(k => storedCount('$tf', k)) })) };
+      const norm = {
+        $add: [1 - BM25_B, { $multiply: [BM25_B / averageLength(indexField), storedCount('$lengths', indexField)] }],
+      };
+      terms.push({
+        $divide: [
+          { $multiply: [FIELD_WEIGHTS[field] * idf[i] * (BM25_K1 + 1), freq] },
+          { $add: [freq, { $multiply: [BM25_K1, norm] }] },
+        ],
+      });
+    });
+  });
+  return terms.length > 0 ? { $add: terms } : { $literal: 0 };
+}
+
+/**
+ * Run a query against the index. Accepts a query string (see ./query for the
+ * syntax) or an already-parsed AST.
+ */
+export async function searchIndex(
+  query: string | QueryNode | null,
+  options: SearchIndexOptions = {}
+): Promise<SearchIndexResult> {
+  const ast = typeof query === 'string' ? parseQuery(query) : query;
+  if (!ast) return { total: 0, hits: [], truncated: false };
+
+  const db = options.db || await getDb();
+  const fields = options.fields || ALL_FIELDS;
+  // The index fields searched, in the same order as `fields`
+  const indexFields = fields.map(field => field === 't' && options.targetLanguage
+    ? translationField(options.targetLanguage)
+    : field);
+  const limit = options.limit ?? 20;
+  const offset = options.offset ?? 0;
+
+  const leaves = positiveLeaves(ast);
+  const collectLeaves = (node: QueryNode): Array<Extract<QueryNode, { type: 'term' | 'phrase' }>> => {
+    switch (node.type) {
+      case 'term':
+      case 'phrase':
+        return [node];
+      case 'not':
+        return collectLeaves(node.child);
+      default:
+        return node.children.flatMap(collectLeaves);
+    }
+  };
+
+  const scope: Filter<Document> = {};
+  if (options.types) scope.type = { $in: options.types };
+  if (options.bookIds) scope.book_id = { $in: options.bookIds };
+
+  const resolved = new Map<QueryNode, ResolvedLeaf>();
+  for (const leaf of collectLeaves(ast)) {
+    resolved.set(leaf, await resolveLeaf(db, scope, leaf, indexFields));
+  }
+
+  const queryFilter = buildFilter(ast, resolved);
+  const filter: Filter<Document> = queryFilter ? { $and: [scope, queryFilter] } : scope;
+
+  // Only pull the term frequencies this query needs, not whole documents
+  const projection: Record<string, 1> = {
+    id: 1, type: 1, book_id: 1, page_id: 1, page_number: 1, lengths: 1,
+  };
+  for (const leaf of resolved.values()) {
+    for (const keys of leaf.alternatives) {
+      for (const key of keys) projection[`tf.${key}`] = 1;
+    }
+  }
+
+  const collection = db.collection(SEARCH_DOCUMENTS_COLLECTION);
+  const [stats, documentFrequencies] = await Promise.all([
+    getSearchStats(db),
+    Promise.all(leaves.map(leaf => collection.countDocuments({ ...scope, ...leafFilter(resolved.get(leaf)!) }))),
+  ]);
+
+  const docCount = Math.max(1, stats.page_docs + stats.book_docs);
+  const idf = documentFrequencies.map(df => Math.log(1 + (docCount - df + 0.5) / (df + 0.5)));
+  const averageLength = (field: IndexField): number => {
+    const docs = field === 'm' || field === 's' ? stats.book_docs : stats.page_docs;
+    return Math.max(1, (stats.lengths[field] || 0) / Math.max(1, docs));
+  };
+
+  const candidates = await collection.aggregate([
+    { $match: filter },
+    { $addFields: { score: scoreExpression(leaves.map(leaf => resolved.get(leaf)!), idf, fields, indexFields, averageLength) } },
+    { $sort: { score: -1, type: 1, book_id: 1, page_number: 1 } },
+    { $limit: MAX_CANDIDATES + 1 },
+    { $project: { ...projection, score: 1 } },
+  ]).toArray();
+
+  // Candidates arrive ranked: best score first, then books before pages, in page order
+  const truncated = candidates.length > MAX_CANDIDATES;
+  const hits: SearchHit[] = [];
+  for (const doc of candidates.slice(0, MAX_CANDIDATES)) {
+    const tf = (doc.tf || {}) as Record<string, number>;
+    if (!evaluate(ast, tf, resolved)) continue;
+
+    const matched = new Set<SearchField>();
+    for (const leaf of leaves) {
+      fields.forEach((field, f) => {
+        if (leafFrequency(resolved.get(leaf)!, indexFields[f], tf) > 0) matched.add(field);
+      });
+    }
+
+    hits.push({
+      id: doc.id,
+      type: doc.type,
+      book_id: doc.book_id,
+      page_id: doc.page_id,
+      page_number: doc.page_number,
+      score: doc.score,
+      matched_fields: ALL_FIELDS.filter(f => matched.has(f)),
+    });
+  }
+
+  return {
+    total: hits.length,
+    hits: hits.slice(offset, offset + limit),
+    truncated,
+  };
+}
+
+/**
+ * Find the query's matches in plain text and return up to `maxSnippets`
+ * non-overlapping, HTML-escaped snippets with matches wrapped in <mark>.
+ * Returns an empty array when nothing in the text matches.
+ */
+export function highlightText(
+  text: string,
+  query: string | QueryNode | null,
+  options: { context?: number; maxSnippets?: number } = {}
+): Highlight[] {
+  const ast = typeof query === 'string' ? parseQuery(query) : query;
+  if (!ast || !text) return [];
+
+  const context = options.context ?? 80;
+  const maxSnippets = options.maxSnippets ?? 3;
+
+  const exact = new Set<string>();
+  const prefixes: string[] = [];
+  for (const leaf of positiveLeaves(ast)) {
+    const raw = leaf.type === 'term' ? [leaf.value] : leaf.terms;
+    for (const term of raw) {
+      const variants = normalizeTokenVariants(term);
+      if (leaf.type === 'term' && leaf.prefix) prefixes.push(...variants);
+      else variants.forEach(v => exact.add(v));
+    }
+  }
+
+  const hits = tokenize(text).filter(token =>
+    normalizeTokenVariants(token.raw).some(v => exact.has(v) || prefixes.some(p => v.startsWith(p)))
+  );
+  if (hits.length === 0) return [];
+
+  const highlights: Highlight[] = [];
+
+  for (const hit of hits) {
+    // Skip matches that would mostly repeat an earlier snippet
+    if (highlights.some(h => Math.abs(h.position - hit.start) < context * 2)) continue;
+
+    let start = Math.max(0, hit.start - context);
+    let end = Math.min(text.length, hit.end + context);
+    // Don't cut words in half at the window edges
+    if (start > 0) {
+      const space = text.slice(start, hit.start).search(/\s/);
+      if (space !== -1) start += space + 1;
+    }
+    if (end < text.length) {
+      const space = text.slice(hit.end, end).search(/\s\S*$/);
+      if (space !== -1) end = hit.end + space;
+    }
+
+    let snippet = '';
+    let cursor = start;
+    for (const h of hits) {
+      if (h.start < start || h.end > end) continue;
+      snippet += escapeHtml(text.slice(cursor, h.start)) + `<mark>${escapeHtml(h.raw)}</mark>`;
+      cursor = h.end;
+    }
+    snippet += escapeHtml(text.slice(cursor, end));
+    snippet = snippet.replace(/\s+/g, ' ').trim();
+
+    if (start > 0) snippet = '...' + snippet;
+    if (end < text.length) snippet = snippet + '...';
+
+    highlights.push({ snippet, position: hit.start });
+    if (highlights.length >= maxSnippets) break;
+  }
+
+  return highlights;
+}
@@ -0,0 +1,408 @@
+/**
+ * Inverted index maintenance.
+ *
+ * One document per page and per book lives in the `search_documents`
+ * collection. Each stores field-prefixed term frequencies (unigrams plus
+ * adjacent-word bigrams for phrase queries) and field lengths for BM25:
+ *
+ *   o: page OCR            t: page translation
+ *   m: book title/author   s: book summary
+ *
+ * Translations into languages other than English go in the same page
+ * document under `t@<code>` (e.g. `t@it:mondo`), so a search in one target
+ * language never matches another's text.
+ *
+ * The `terms` array carries a multikey index, so candidate lookup is an
+ * index scan rather than a regex over page text. Corpus totals for average
+ * field lengths are kept in `search_stats`, one document per tenant, and
+ * adjusted incrementally. The stats are always keyed by tenant_id, so cron
+ * jobs and scripts on an unscoped db still read and write their own tenant's.
+ *
+ * Save paths call refreshSearchIndex() after writing OCR or translation,
+ * which also refreshes the page's semantic passages (see semantic.ts);
+ * POST /api/admin/search-index rebuilds both for existing data.
+ */
+
+import { createHash } from 'crypto';
+import type { Db } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { DEFAULT_TENANT_ID } from '@/lib/tenant';
+import { tenantFilter } from '@/lib/tenant-db';
+import { getCurrentTenantId } from '@/lib/tenant.server';
+import { stripAnnotationTags } from '@/lib/types';
+import { DEFAULT_TARGET_LANGUAGE, TARGET_LANGUAGES } from '@/lib/translation-languages';
+import {
+  getNormalizationProfile,
+  normalizeToken,
+  tokenize,
+  type NormalizationProfile,
+} from './normalize';
+import { embedBook, embedPages } from './semantic';
+
+export const SEARCH_DOCUMENTS_COLLECTION = 'search_documents';
+export const SEARCH_STATS_COLLECTION = 'search_stats';
+
+export type SearchField = 'o' | 't' | 'm' | 's';
+
+/** A field as stored in the index: translations other than English are `t@<code>` */
+export type IndexField = SearchField | `t@${string}`;
+
+export interface SearchDocument {
+  id: string; // "page:<page id>" or "book:<book id>"
+  type: 'page' | 'book';
+  tenant_id: string;
+  book_id: string;
+  page_id?: string;
+  page_number?: number;
+  profile: NormalizationProfile;
+  terms: string[];
+  tf: Record<string, number>;
+  lengths: Partial<Record<IndexField, number>>;
+  content_hash: string;
+  indexed_at: Date;
+}
+
+export interface SearchStats {
+  page_docs: number;
+  book_docs: number;
+  lengths: Partial<Record<IndexField, number>>;
+}
+
+export interface IndexResult {
+  indexed: number;
+  unchanged: number;
+  removed: number;
+}
+
+// Keeps pathological pages (e.g. OCR of a numeric table) well under the BSON limit
+const MAX_TOKENS_PER_FIELD = 20000;
+
+const STATS_ID = 'corpus';
+
+/** Add `inc` to a tenant's corpus totals */
+async function incrementStats(db: Db, tenantId: string, inc: Record<string, number>): Promise<void> {
+  await db.collection(SEARCH_STATS_COLLECTION).updateOne(
+    { id: STATS_ID, ...tenantFilter(tenantId) },
+    { $inc: inc, $setOnInsert: { tenant_id: tenantId } },
+    { upsert: true }
+  );
+}
+
+/** The index field holding translations into `targetLanguage` */
+export function translationField(targetLanguage: string): IndexField {
+  return targetLanguage === DEFAULT_TARGET_LANGUAGE ? 't' : `t@${targetLanguage}`;
+}
+
+function addField(
+  doc: Pick<SearchDocument, 'tf' | 'lengths'>,
+  field: IndexField,
+  text: string,
+  profile: NormalizationProfile
+): void {
+  const terms = tokenize(text)
+    .slice(0, MAX_TOKENS_PER_FIELD)
+    .map(t => normalizeToken(t.raw, profile))
+    .filter(Boolean);
+
+  let previous: string | null = null;
+  for (const term of terms) {
+    const key = `${field}:${term}`;
+    doc.tf[key] = (doc.tf[key] || 0) + 1;
+    if (previous) {
+      const bigram = `${field}:${previous} ${term}`;
+      doc.tf[bigram] = (doc.tf[bigram] || 0) + 1;
+    }
+    previous = term;
+  }
+  doc.lengths[field] = (doc.lengths[field] || 0) + terms.length;
+}
+
+function buildDocument(
+  base: Pick<SearchDocument, 'id' | 'type' | 'tenant_id' | 'book_id' | 'page_id' | 'page_number'>,
+  profile: NormalizationProfile,
+  fields: Partial<Record<IndexField, string>>
+): SearchDocument | null {
+  const doc = { tf: {} as Record<string, number>, lengths: {} as Partial<Record<IndexField, number>> };
+  const hash = createHash('sha1').update(profile);
+
+  for (const [field, text] of Object.entries(fields) as [IndexField, string | undefined][]) {
+    if (!text) continue;
+    // Translations are modern text; orthographic folding only applies to the source
+    addField(doc, field, text, field.startsWith('t') ? 'default' : profile);
+    hash.update(`\u0000${field}\u0000${text}`);
+  }
+
+  const terms = Object.keys(doc.tf);
+  if (terms.length === 0) return null;
+
+  return {
+    ...base,
+    profile,
+    terms,
+    tf: doc.tf,
+    lengths: doc.lengths,
+    content_hash: hash.digest('hex'),
+    indexed_at: new Date(),
+  };
+}
+
+function lengthDelta(
+  next: Partial<Record<IndexField, number>>,
+  previous: Partial<Record<IndexField, number>> | undefined
+): Record<string, number> {
+  const inc: Record<string, number> = {};
+  const fields = new Set([...Object.keys(next), ...Object.keys(previous || {})]) as Set<IndexField>;
+  for (const field of fields) {
+    const delta = (next[field] || 0) - (previous?.[field] || 0);
+    if (delta !== 0) inc[`lengths.${field}`] = delta;
+  }
+  return inc;
+}
+
+async function upsertDocument(db: Db, doc: SearchDocument): Promise<boolean> {
+  const collection = db.collection(SEARCH_DOCUMENTS_COLLECTION);
+  const existing = await collection.findOne(
+    { id: doc.id },
+    { projection: { content_hash: 1, lengths: 1 } }
+  );
+  if (existing?.content_hash === doc.content_hash) return false;
+
+  await collection.replaceOne({ id: doc.id }, doc, { upsert: true });
+
+  const inc = lengthDelta(doc.lengths, existing?.lengths);
+  if (!existing) inc[doc.type === 'page' ? 'page_docs' : 'book_docs'] = 1;
+  if (Object.keys(inc).length > 0) await incrementStats(db, doc.tenant_id, inc);
+  return true;
+}
+
+async function removeDocuments(db: Db, filter: Record<string, unknown>): Promise<number> {
+  const collection = db.collection(SEARCH_DOCUMENTS_COLLECTION);
+  const existing = await collection
+    .find(filter, { projection: { id: 1, type: 1, tenant_id: 1, lengths: 1 } })
+    .toArray();
+  if (existing.length === 0) return 0;
+
+  await collection.deleteMany({ id: { $in: existing.map(d => d.id) } });
+
+  // Each removed document comes off its own tenant's totals
+  const incs = new Map<string, Record<string, number>>();
+  for (const doc of existing) {
+    const tenantId = doc.tenant_id || DEFAULT_TENANT_ID;
+    const inc = incs.get(tenantId) || {};
+    incs.set(tenantId, inc);
+    const counter = doc.type === 'page' ? 'page_docs' : 'book_docs';
+    inc[counter] = (inc[counter] || 0) - 1;
+    for (const [key, value] of Object.entries(lengthDelta(doc.lengths || {}, undefined))) {
+      inc[key] = (inc[key] || 0) - value;
+    }
+  }
+  for (const [tenantId, inc] of incs) await incrementStats(db, tenantId, inc);
+  return existing.length;
+}
+
+/**
+ * (Re)index the given pages. Pages that no longer exist or have no text are
+ * removed from the index; pages whose text is unchanged are skipped.
+ */
+export async function indexPages(pageIds: string[], db?: Db): Promise<IndexResult> {
+  const result: IndexResult = { indexed: 0, unchanged: 0, removed: 0 };
+  if (pageIds.length === 0) return result;
+
+  const database = db || await getDb();
+  const pages = await database.collection('pages')
+    .find(
+      { id: { $in: pageIds } },
+      { projection: { id: 1, tenant_id: 1, book_id: 1, page_number: 1, 'ocr.data': 1, 'translation.data': 1, translations: 1 } }
+    )
+    .toArray();
+
+  const bookIds = [...new Set(pages.map(p => p.book_id as string))];
+  const books = await database.collection('books')
+    .find({ id: { $in: bookIds } }, { projection: { id: 1, language: 1 } })
+    .toArray();
+  const profiles = new Map(books.map(b => [b.id as string, getNormalizationProfile(b.language)]));
+
+  const empty: string[] = pageIds.filter(id => !pages.some(p => p.id === id));
+
+  for (const page of pages) {
+    const fields: Partial<Record<IndexField, string>> = {
+      o: page.ocr?.data ? stripAnnotationTags(page.ocr.data) : undefined,
+      t: page.translation?.data ? stripAnnotationTags(page.translation.data) : undefined,
+    };
+    for (const [code, translation] of Object.entries(page.translations || {}) as [string, { data?: string }][]) {
+      if (code in TARGET_LANGUAGES && translation?.data) {
+        fields[translationField(code)] = stripAnnotationTags(translation.data);
+      }
+    }
+
+    const doc = buildDocument(
+      {
+        id: `page:${page.id}`,
+        type: 'page',
+        tenant_id: page.tenant_id || DEFAULT_TENANT_ID,
+        book_id: page.book_id,
+        page_id: page.id,
+        page_number: page.page_number,
+      },
+      profiles.get(page.book_id) || 'default',
+      fields
+    );
+
+    if (!doc) {
+      empty.push(page.id);
+    } else if (await upsertDocument(database, doc)) {
+      result.indexed++;
+    } else {
+      result.unchanged++;
+    }
+  }
+
+  if (empty.length > 0) {
+    result.removed += await removeDocuments(database, { id: { $in: empty.map(id => `page:${id}`) } });
+  }
+
+  return result;
+}
+
+/**
+ * (Re)index a book's bibliographic metadata and summary, or drop the book
+ * and all of its pages from the index if it no longer exists. With
+ * `includePages`, every page of the book is reindexed as well (needed when
+ * the book's language, and so its normalization profile, changes).
+ */
+export async function indexBook(
+  bookId: string,
+  options: { includePages?: boolean; db?: Db } = {}
+): Promise<IndexResult> {
+  const database = options.db || await getDb();
+  const book = await database.collection('books').findOne({ id: bookId });
+
+  if (!book) {
+    const removed = await removeDocuments(database, { book_id: bookId });
+    return { indexed: 0, unchanged: 0, removed };
+  }
+
+  const summary = typeof book.summary === 'string' ? book.summary : book.summary?.data;
+  const doc = buildDocument(
+    { id: `book:${bookId}`, type: 'book', tenant_id: book.tenant_id || DEFAULT_TENANT_ID, book_id: bookId },
+    getNormalizationProfile(book.language),
+    {
+      m: [book.display_title, book.title, book.author].filter(Boolean).join('\n'),
+      s: summary ? stripAnnotationTags(summary) : undefined,
+    }
+  );
+
+  const result: IndexResult = { indexed: 0, unchanged: 0, removed: 0 };
+  if (!doc) {
+    result.removed += await removeDocuments(database, { id: `book:${bookId}` });
+  } else if (await upsertDocument(database, doc)) {
+    result.indexed++;
+  } else {
+    result.unchanged++;
+  }
+
+  if (options.includePages) {
+    const pages = await database.collection('pages')
+      .find({ book_id: bookId }, { projection: { id: 1 } })
+      .toArray();
+    const pageIds = pages.map(p => p.id as string);
+
+    for (let i = 0; i < pageIds.length; i += 200) {
+      const batch = await indexPages(pageIds.slice(i, i + 200), database);
+      result.indexed += batch.indexed;
+      result.unchanged += batch.unchanged;
+      result.removed += batch.removed;
+    }
+
+    // Drop documents for pages that were deleted from the book
+    result.removed += await removeDocuments(database, {
+      book_id: bookId,
+      type: 'page',
+      page_id: { $nin: pageIds },
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Keep the index and the page embeddings in step with a save. Never throws:
+ * a failed index update must not fail the OCR/translation save that
+ * triggered it, and the admin rebuild will pick the page up later.
+ */
+export async function refreshSearchIndex(target: {
+  pageIds?: string[];
+  bookId?: string;
+  includePages?: boolean;
+}): Promise<void> {
+  try {
+    if (target.pageIds && target.pageIds.length > 0) {
+      await indexPages(target.pageIds);
+      await embedPages(target.pageIds);
+    }
+    if (target.bookId) {
+      const db = await getDb();
+      await indexBook(target.bookId, { includePages: target.includePages, db });
+      // Passages come from page text alone, so metadata edits leave them be;
+      // a deleted book (whose pages are gone) has its passages dropped here
+      const exists = await db.collection('books').countDocuments({ id: target.bookId }, { limit: 1 });
+      if (target.includePages || !exists) {
+        await embedBook(target.bookId, db);
+      }
+    }
+  } catch (error) {
+    console.error('[search] Index update failed:', error);
+  }
+}
+
+/** The current tenant's corpus totals */
+export async function getSearchStats(db?: Db): Promise<SearchStats> {
+  const database = db || await getDb();
+  const tenantId = await getCurrentTenantId();
+  const stats = await database.collection(SEARCH_STATS_COLLECTION).findOne({ id: STATS_ID, ...tenantFilter(tenantId) });
+  return {
+    page_docs: stats?.page_docs || 0,
+    book_docs: stats?.book_docs || 0,
+    lengths: stats?.lengths || {},
+  };
+}
+
+/**
+ * Recount the corpus totals from the indexed documents, replacing the
+ * incrementally kept ones. The admin rebuild runs this when it finishes.
+ */
+export async function recountSearchStats(db?: Db): Promise<SearchStats> {
+  const database = db || await getDb();
+  const tenantId = await getCurrentTenantId();
+  const collection = database.collection(SEARCH_DOCUMENTS_COLLECTION);
+  const match = { $match: tenantFilter(tenantId) };
+  const [counts, lengths] = await Promise.all([
+    collection.aggregate([match, { $group: { _id: '$type', count: { $sum: 1 } } }]).toArray(),
+    collection.aggregate([
+      match,
+      { $project: { lengths: { $objectToArray: '$lengths' } } },
+      { $unwind: '$lengths' },
+      { $group: { _id: '$lengths.k', total: { $sum: '$lengths.v' } } },
+    ]).toArray(),
+  ]);
+
+  const stats: SearchStats = {
+    page_docs: counts.find(c => c._id === 'page')?.count || 0,
+    book_docs: counts.find(c => c._id === 'book')?.count || 0,
+    lengths: Object.fromEntries(lengths.map(l => [l._id, l.total])),
+  };
+  await database.collection(SEARCH_STATS_COLLECTION).updateOne(
+    { id: STATS_ID, ...tenantFilter(tenantId) },
+    { $set: { ...stats, tenant_id: tenantId } },
+    { upsert: true }
+  );
+  return stats;
+}
+
+export async function ensureSearchIndexes(db?: Db): Promise<void> {
+  const database = db || await getDb();
+  const collection = database.collection(SEARCH_DOCUMENTS_COLLECTION);
+  await collection.createIndex({ id: 1 }, { name: 'search_documents_id_idx', unique: true });
+  await collection.createIndex({ terms: 1 }, { name: 'search_documents_terms_idx' });
+  await collection.createIndex({ book_id: 1, type: 1 }, { name: 'search_documents_book_type_idx' });
+}
@@ -0,0 +1,97 @@
+/**
+ * Tokenization and per-language normalization for the search index.
+ *
+ * Every profile starts from normalizeText() (NFD, strip combining marks,
+ * lowercase) and then folds the orthographic variants that early printed
+ * books use interchangeably, so "vniuersalis", "universalis" and
+ * "Universālis" all index to the same term.
+ */
+
+import { normalizeText } from '@/lib/utils';
+import { getLanguageCodes } from '@/lib/types';
+
+export type NormalizationProfile = 'default' | 'latin' | 'german';
+
+export const NORMALIZATION_PROFILES: NormalizationProfile[] = ['default', 'latin', 'german'];
+
+export interface Token {
+  /** Token as it appears in the source text */
+  raw: string;
+  /** Character offset of the token in the source text */
+  start: number;
+  end: number;
+}
+
+const TOKEN_PATTERN = /[\p{L}\p{N}][\p{L}\p{M}\p{N}]*/gu;
+
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const start = match.index ?? 0;
+    tokens.push({ raw: match[0], start, end: start + match[0].length });
+  }
+  return tokens;
+}
+
+function foldBase(token: string): string {
+  return normalizeText(
+    token
+      .replace(/ſ/g, 's')
+      .replace(/ß/g, 'ss')
+      .replace(/[æÆ]/g, 'ae')
+      .replace(/[œŒ]/g, 'oe')
+  )
+    // Hebrew points and cantillation, Arabic harakat and superscript alef
+    .replace(/[\u0591-\u05C7\u064B-\u065F\u0670]/g, '')
+    // Greek final sigma
+    .replace(/ς/g, 'σ');
+}
+
+/**
+ * Normalize a single token under a profile. Returns an empty string for
+ * tokens that fold away entirely (e.g. a lone combining mark).
+ */
+export function normalizeToken(token: string, profile: NormalizationProfile = 'default'): string {
+  switch (profile) {
+    case 'latin':
+      // e caudata stands for ae before NFD would reduce it to plain e
+      return foldBase(token.replace(/[ęĘ]/g, 'ae'))
+        .replace(/v/g, 'u')
+        .replace(/j/g, 'i');
+    case 'german':
+      // Early modern German prints u/v and i/j interchangeably too
+      return foldBase(token)
+        .replace(/v/g, 'u')
+        .replace(/j/g, 'i');
+    default:
+      return foldBase(token);
+  }
+}
+
+/**
+ * Every distinct normalization of a query token, so a query matches
+ * documents whatever profile they were indexed under.
+ */
+export function normalizeTokenVariants(token: string): string[] {
+  const variants = new Set<string>();
+  for (const profile of NORMALIZATION_PROFILES) {
+    const normalized = normalizeToken(token, profile);
+    if (normalized) variants.add(normalized);
+  }
+  return [...variants];
+}
+
+/**
+ * Pick the normalization profile for a book's language field
+ * (e.g. "Latin", "la", "German, Latin").
+ */
+export function getNormalizationProfile(language: string | null | undefined): NormalizationProfile {
+  switch (getLanguageCodes(language)?.bcp47) {
+    case 'la':
+      return 'latin';
+    case 'de':
+      return 'german';
+    default:
+      return 'default';
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Search query parser.
+ *
+ * Supported syntax:
+ *   lapis philosophorum        both terms (AND is the default operator)
+ *   "prima materia"            phrase
+ *   mercurius OR azoth         either term
+ *   sulphur NOT sal            exclusion (also: sulphur -sal)
+ *   (sol OR luna) AND tinctura grouping
+ *   alchim*                    prefix match
+ *
+ * Operators must be upper case so that "and"/"or" in Latin or English text
+ * remain ordinary search terms. The parser never throws: unbalanced quotes
+ * and parentheses are closed implicitly.
+ */
+
+import { tokenize } from './normalize';
+
+export type QueryNode =
+  | { type: 'term'; value: string; prefix: boolean }
+  | { type: 'phrase'; terms: string[] }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode };
+
+type LexToken =
+  | { kind: 'word'; value: string }
+  | { kind: 'phrase'; value: string }
+  | { kind: 'and' | 'or' | 'not' | 'minus' | 'lparen' | 'rparen' };
+
+function lex(input: string): LexToken[] {
+  const tokens: LexToken[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const ch = input[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '"' || ch === '“' || ch === '”') {
+      const close = input.slice(i + 1).search(/["“”]/);
+      const end = close === -1 ? input.length : i + 1 + close;
+      tokens.push({ kind: 'phrase', value: input.slice(i + 1, end) });
+      i = end + 1;
+    } else if (ch === '(') {
+      tokens.push({ kind: 'lparen' });
+      i++;
+    } else if (ch === ')') {
+      tokens.push({ kind: 'rparen' });
+      i++;
+    } else if (ch === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ kind: 'minus' });
+      i++;
+    } else if (ch === '+') {
+      i++;
+    } else {
+      const match = input.slice(i).match(/^[^\s()"“”]+/);
+      const word = match ? match[0] : ch;
+      if (word === 'AND' || word === '&&') tokens.push({ kind: 'and' });
+      else if (word === 'OR' || word === '||') tokens.push({ kind: 'or' });
+      else if (word === 'NOT') tokens.push({ kind: 'not' });
+      else tokens.push({ kind: 'word', value: word });
+      i += word.length;
+    }
+  }
+
+  return tokens;
+}
+
+function wordToNode(word: string): QueryNode | null {
+  const prefix = word.endsWith('*');
+  const parts = tokenize(word).map(t => t.raw);
+  if (parts.length === 0) return null;
+  if (parts.length === 1) return { type: 'term', value: parts[0], prefix };
+  // Hyphenated or apostrophised words ("al-kimiya", "d'or") match as phrases
+  return { type: 'phrase', terms: parts };
+}
+
+function phraseToNode(text: string): QueryNode | null {
+  const parts = tokenize(text).map(t => t.raw);
+  if (parts.length === 0) return null;
+  if (parts.length === 1) return { type: 'term', value: parts[0], prefix: false };
+  return { type: 'phrase', terms: parts };
+}
+
+function combine(type: 'and' | 'or', children: QueryNode[]): QueryNode | null {
+  if (children.length === 0) return null;
+  if (children.length === 1) return children[0];
+  return { type, children };
+}
+
+/**
+ * Parse a query string into an AST. Returns null when the query contains no
+ * searchable terms.
+ */
+export function parseQuery(input: string): QueryNode | null {
+  const tokens = lex(input);
+  let pos = 0;
+
+  const parseOr = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    const first = parseAnd();
+    if (first) children.push(first);
+    while (tokens[pos]?.kind === 'or') {
+      pos++;
+      const next = parseAnd();
+      if (next) children.push(next);
+    }
+    return combine('or', children);
+  };
+
+  const parseAnd = (): QueryNode | null => {
+    const children: QueryNode[] = [];
+    while (pos < tokens.length) {
+      const token = tokens[pos];
+      if (token.kind === 'or' || token.kind === 'rparen') break;
+      if (token.kind === 'and') {
+        pos++;
+        continue;
+      }
+      const node = parseUnary();
+      if (node) children.push(node);
+    }
+    return combine('and', children);
+  };
+
+  const parseUnary = (): QueryNode | null => {
+    const token = tokens[pos];
+    if (token.kind === 'not' || token.kind === 'minus') {
+      pos++;
+      if (pos >= tokens.length) return null;
+      const child = parseUnary();
+      return child ? { type: 'not', child } : null;
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): QueryNode | null => {
+    const token = tokens[pos++];
+    if (token.kind === 'lparen') {
+      const inner = parseOr();
+      if (tokens[pos]?.kind === 'rparen') pos++;
+      return inner;
+    }
+    if (token.kind === 'phrase') return phraseToNode(token.value);
+    if (token.kind === 'word') return wordToNode(token.value);
+    return null;
+  };
+
+  const groups: QueryNode[] = [];
+  while (pos < tokens.length) {
+    const group = parseOr();
+    if (group) groups.push(group);
+    // Skip a stray closing parenthesis and keep going
+    if (tokens[pos]?.kind === 'rparen') pos++;
+  }
+
+  const root = combine('and', groups);
+  return root && hasPositiveTerm(root) ? root : null;
+}
+
+/** A query made only of exclusions cannot select anything from an index. */
+function hasPositiveTerm(node: QueryNode): boolean {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return true;
+    case 'not':
+      return false;
+    case 'and':
+      return node.children.some(hasPositiveTerm);
+    case 'or':
+      return node.children.every(hasPositiveTerm);
+  }
+}
+
+/** Terms and phrases that contribute to ranking and highlighting (excludes NOT branches). */
+export function positiveLeaves(node: QueryNode): Array<Extract<QueryNode, { type: 'term' | 'phrase' }>> {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return [node];
+    case 'not':
+      return [];
+    case 'and':
+    case 'or':
+      return node.children.flatMap(positiveLeaves);
+  }
+}
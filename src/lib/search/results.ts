@@ -0,0 +1,100 @@
+/**
+ * Search results as the API returns them, built from ranked index hits.
+ */
+
+import { getDb } from '@/lib/mongodb';
+import { Book, stripAnnotationTags, type Page } from '@/lib/types';
+import type { SearchResult } from '@/lib/api-client/types/search';
+import type { QueryNode } from './query';
+import { highlightText, type SearchHit } from './engine';
+import { DEFAULT_TARGET_LANGUAGE, getTranslation, translationPath } from '@/lib/translation-languages';
+
+function extractSnippet(text: string, contextChars = 150): string {
+  return text.slice(0, contextChars * 2) + (text.length > contextChars * 2 ? '...' : '');
+}
+
+function getSummaryText(book: Book): string | undefined {
+  const summary = typeof book.summary === 'string' ? book.summary : book.summary?.data;
+  return summary ? stripAnnotationTags(summary) : undefined;
+}
+
+function toBookResult(book: Book, summarySnippet?: string): SearchResult {
+  return {
+    id: book.id,
+    type: 'book',
+    book_id: book.id,
+    title: book.title,
+    display_title: book.display_title,
+    author: book.author,
+    language: book.language,
+    published: book.published,
+    page_count: book.pages_count,
+    translated_count: book.pages_translated,
+    has_doi: !!book.doi,
+    doi: book.doi,
+    categories: book.categories,
+    summary: summarySnippet,
+    snippet_type: summarySnippet ? 'summary' : undefined,
+  };
+}
+
+/**
+ * Turn ranked index hits into API results, in rank order, with highlighted
+ * snippets from the page text (translation snippets in `targetLanguage`).
+ * Hits whose book or page has since been deleted are dropped.
+ */
+export async function hydrateHits(
+  hits: SearchHit[],
+  parsedQuery: QueryNode,
+  targetLanguage: string = DEFAULT_TARGET_LANGUAGE
+): Promise<SearchResult[]> {
+  if (hits.length === 0) return [];
+
+  const db = await getDb();
+  const bookIds = [...new Set(hits.map(h => h.book_id))];
+  const pageIds = hits.filter(h => h.type === 'page' && h.page_id).map(h => h.page_id as string);
+
+  const [books, pages] = await Promise.all([
+    db.collection('books').find({ id: { $in: bookIds } }).toArray(),
+    pageIds.length > 0
+      ? db.collection('pages')
+          .find({ id: { $in: pageIds } }, {
+            projection: { id: 1, page_number: 1, 'ocr.data': 1, [`${translationPath(targetLanguage)}.data`]: 1 },
+          })
+          .toArray()
+      : Promise.resolve([]),
+  ]);
+  const bookMap = new Map(books.map(b => [b.id as string, b as unknown as Book]));
+  const pageMap = new Map(pages.map(p => [p.id as string, p]));
+
+  const results: SearchResult[] = [];
+  for (const hit of hits) {
+    const book = bookMap.get(hit.book_id);
+    if (!book) continue;
+
+    if (hit.type === 'book') {
+      const summaryText = getSummaryText(book);
+      results.push(toBookResult(book, summaryText ? extractSnippet(summaryText) : undefined));
+      continue;
+    }
+
+    const page = hit.page_id ? pageMap.get(hit.page_id) : undefined;
+    if (!page) continue;
+
+    // Prefer a translation snippet; fall back to the OCR when only it matched
+    const field = hit.matched_fields.includes('t') || !hit.matched_fields.includes('o') ? 'translation' : 'ocr';
+    const text = stripAnnotationTags((field === 'translation' ? getTranslation(page as Pick<Page, 'translation' | 'translations'>, targetLanguage)?.data : page.ocr?.data) || '');
+    const [highlight] = highlightText(text, parsedQuery, { context: 150, maxSnippets: 1 });
+
+    results.push({
+      ...toBookResult(book),
+      id: `${book.id}-p${page.page_number}`,
+      type: 'page',
+      page_number: page.page_number,
+      snippet: highlight?.snippet || extractSnippet(text),
+      snippet_type: field,
+    });
+  }
+
+  return results;
+}
@@ -0,0 +1,313 @@
+/**
+ * Semantic passage search over page translations.
+ *
+ * Each page's translation is split into passages of a few paragraphs, and
+ * every passage is embedded with the configured backend (see embeddings.ts)
+ * into the `page_embeddings` collection. Every chunk records a
+ * source_translation_hash of the text and backend it was embedded from, so
+ * re-embedding only happens when the translation (or the backend) changes.
+ *
+ * Queries use Atlas Vector Search when MONGODB_VECTOR_INDEX names a vector
+ * index on `vector`; otherwise the stored vectors are scanned and ranked by
+ * cosine similarity, which is fine for per-book retrieval and small corpora.
+ */
+
+import { createHash } from 'crypto';
+import type { Db, Document } from 'mongodb';
+import { getDb } from '@/lib/mongodb';
+import { DEFAULT_TENANT_ID } from '@/lib/tenant';
+import { stripAnnotationTags } from '@/lib/types';
+import { getEmbeddingBackend, type EmbeddingBackend } from './embeddings';
+
+export const PAGE_EMBEDDINGS_COLLECTION = 'page_embeddings';
+
+export interface PageEmbedding {
+  id: string; // "<page id>:<chunk index>"
+  tenant_id: string;
+  page_id: string;
+  book_id: string;
+  page_number: number;
+  chunk_index: number;
+  text: string;
+  vector: number[];
+  backend: string;
+  source_translation_hash: string;
+  embedded_at: Date;
+}
+
+export interface EmbedResult {
+  embedded: number;
+  unchanged: number;
+  removed: number;
+}
+
+export interface SemanticHit {
+  page_id: string;
+  book_id: string;
+  page_number: number;
+  chunk_index: number;
+  text: string;
+  score: number;
+}
+
+export interface SemanticIndexResult {
+  backend: string;
+  total: number;
+  hits: SemanticHit[];
+  /** True when the brute-force scan stopped before seeing every vector */
+  truncated: boolean;
+}
+
+const CHUNK_SIZE = 800;
+const CHUNK_OVERLAP = 150;
+
+// Upper bound for the brute-force scan; beyond this, configure a vector index
+const MAX_SCAN = 50000;
+
+/**
+ * Split text into passages of roughly CHUNK_SIZE characters, breaking on
+ * paragraph and then sentence boundaries. Consecutive passages share up to
+ * CHUNK_OVERLAP characters so an idea straddling a boundary is still found.
+ */
+export function chunkText(text: string, size = CHUNK_SIZE, overlap = CHUNK_OVERLAP): string[] {
+  const units = text
+    .split(/\n\s*\n/)
+    .map(p => p.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .flatMap(p => p.length <= size ? [p] : p.match(/[^.!?;]+(?:[.!?;]+|$)\s*/g) || [p])
+    .flatMap(s => {
+      // A single sentence longer than a passage is cut at word boundaries
+      const pieces: string[] = [];
+      let rest = s.trim();
+      while (rest.length > size) {
+        const cut = rest.lastIndexOf(' ', size);
+        const at = cut > size / 2 ? cut : size;
+        pieces.push(rest.slice(0, at).trim());
+        rest = rest.slice(at).trim();
+      }
+      if (rest) pieces.push(rest);
+      return pieces;
+    });
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const unit of units) {
+    if (current && current.length + unit.length + 1 > size) {
+      chunks.push(current);
+      const tail = current.slice(-overlap);
+      const space = tail.indexOf(' ');
+      current = space >= 0 && current.length > overlap ? tail.slice(space + 1) : '';
+    }
+    current = current ? `${current} ${unit}` : unit;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+function sourceHash(backend: EmbeddingBackend, text: string): string {
+  return createHash('sha256').update(`${backend.id}\u0000${text}`).digest('hex');
+}
+
+async function embedInBatches(
+  backend: EmbeddingBackend,
+  texts: string[],
+  purpose: 'document' | 'query'
+): Promise<number[][]> {
+  const vectors: number[][] = [];
+  for (let i = 0; i < texts.length; i += backend.batchSize) {
+    vectors.push(...await backend.embed(texts.slice(i, i + backend.batchSize), purpose));
+  }
+  return vectors;
+}
+
+/**
+ * (Re)embed the translations of the given pages. Pages whose translation is
+ * unchanged since they were last embedded are skipped; pages that no longer
+ * exist or have no translation lose their passages.
+ */
+export async function embedPages(pageIds: string[], db?: Db): Promise<EmbedResult> {
+  const result: EmbedResult = { embedded: 0, unchanged: 0, removed: 0 };
+  if (pageIds.length === 0) return result;
+
+  const database = db || await getDb();
+  const backend = getEmbeddingBackend();
+  const collection = database.collection(PAGE_EMBEDDINGS_COLLECTION);
+
+  const pages = await database.collection('pages')
+    .find(
+      { id: { $in: pageIds } },
+      { projection: { id: 1, tenant_id: 1, book_id: 1, page_number: 1, 'translation.data': 1 } }
+    )
+    .toArray();
+
+  const existing = await collection
+    .find({ page_id: { $in: pageIds }, chunk_index: 0 }, { projection: { page_id: 1, source_translation_hash: 1 } })
+    .toArray();
+  const existingHashes = new Map(existing.map(e => [e.page_id as string, e.source_translation_hash as string]));
+
+  const stale: string[] = pageIds.filter(id => !pages.some(p => p.id === id));
+
+  for (const page of pages) {
+    const text = page.translation?.data ? stripAnnotationTags(page.translation.data).trim() : '';
+    if (!text) {
+      stale.push(page.id);
+      continue;
+    }
+
+    const hash = sourceHash(backend, text);
+    if (existingHashes.get(page.id) === hash) {
+      result.unchanged++;
+      continue;
+    }
+
+    const chunks = chunkText(text);
+    const vectors = await embedInBatches(backend, chunks, 'document');
+    const embeddedAt = new Date();
+    const docs: PageEmbedding[] = chunks.map((chunk, i) => ({
+      id: `${page.id}:${i}`,
+      tenant_id: page.tenant_id || DEFAULT_TENANT_ID,
+      page_id: page.id,
+      book_id: page.book_id,
+      page_number: page.page_number,
+      chunk_index: i,
+      text: chunk,
+      vector: vectors[i],
+      backend: backend.id,
+      source_translation_hash: hash,
+      embedded_at: embeddedAt,
+    }));
+
+    await collection.deleteMany({ page_id: page.id });
+    await collection.insertMany(docs);
+    result.embedded++;
+  }
+
+  const removable = stale.filter(id => existingHashes.has(id));
+  if (removable.length > 0) {
+    await collection.deleteMany({ page_id: { $in: removable } });
+    result.removed += removable.length;
+  }
+
+  return result;
+}
+
+/**
+ * Embed every page of a book, dropping passages of pages that were deleted.
+ */
+export async function embedBook(bookId: string, db?: Db): Promise<EmbedResult> {
+  const database = db || await getDb();
+  const pages = await database.collection('pages')
+    .find({ book_id: bookId }, { projection: { id: 1 } })
+    .toArray();
+  const pageIds = pages.map(p => p.id as string);
+
+  const result: EmbedResult = { embedded: 0, unchanged: 0, removed: 0 };
+  for (let i = 0; i < pageIds.length; i += 100) {
+    const batch = await embedPages(pageIds.slice(i, i + 100), database);
+    result.embedded += batch.embedded;
+    result.unchanged += batch.unchanged;
+    result.removed += batch.removed;
+  }
+
+  await database.collection(PAGE_EMBEDDINGS_COLLECTION).deleteMany({
+    book_id: bookId,
+    page_id: { $nin: pageIds },
+  });
+
+  return result;
+}
+
+function cosine(a: number[], b: number[]): number {
+  // Vectors are stored L2-normalized, so the dot product is the cosine
+  let dot = 0;
+  const n = Math.min(a.length, b.length);
+  for (let i = 0; i < n; i++) dot += a[i] * b[i];
+  return dot;
+}
+
+/**
+ * Find the passages closest in meaning to the query. Results are one hit per
+ * page (its best passage), ordered by similarity.
+ */
+export async function semanticSearch(
+  query: string,
+  options: { bookIds?: string[]; limit?: number; offset?: number; db?: Db } = {}
+): Promise<SemanticIndexResult> {
+  const { bookIds, limit = 20, offset = 0 } = options;
+  const database = options.db || await getDb();
+  const backend = getEmbeddingBackend();
+  const [queryVector] = await backend.embed([query], 'query');
+
+  const filter: Document = { backend: backend.id };
+  if (bookIds) filter.book_id = { $in: bookIds };
+
+  const collection = database.collection(PAGE_EMBEDDINGS_COLLECTION);
+  let scored: SemanticHit[];
+  let truncated = false;
+
+  const vectorIndex = process.env.MONGODB_VECTOR_INDEX;
+  if (vectorIndex) {
+    // Over-fetch passages since several may belong to the same page
+    const wanted = (offset + limit) * 4;
+    scored = await collection.aggregate<SemanticHit>([
+      {
+        $vectorSearch: {
+          index: vectorIndex,
+          path: 'vector',
+          queryVector,
+          numCandidates: Math.min(wanted * 10, 10000),
+          limit: wanted,
+          filter,
+        },
+      },
+      {
+        $project: {
+          _id: 0, page_id: 1, book_id: 1, page_number: 1, chunk_index: 1, text: 1,
+          score: { $meta: 'vectorSearchScore' },
+        },
+      },
+    ]).toArray();
+  } else {
+    scored = [];
+    const cursor = collection.find(filter, { projection: { _id: 0, id: 0, embedded_at: 0 } });
+    for await (const doc of cursor) {
+      if (scored.length >= MAX_SCAN) {
+        truncated = true;
+        break;
+      }
+      scored.push({
+        page_id: doc.page_id,
+        book_id: doc.book_id,
+        page_number: doc.page_number,
+        chunk_index: doc.chunk_index,
+        text: doc.text,
+        score: cosine(queryVector, doc.vector),
+      });
+    }
+    await cursor.close();
+  }
+
+  scored.sort((a, b) => b.score - a.score);
+
+  const bestByPage = new Map<string, SemanticHit>();
+  for (const hit of scored) {
+    if (hit.score <= 0) break;
+    if (!bestByPage.has(hit.page_id)) bestByPage.set(hit.page_id, hit);
+  }
+  const hits = [...bestByPage.values()];
+
+  return {
+    backend: backend.id,
+    total: hits.length,
+    hits: hits.slice(offset, offset + limit),
+    truncated,
+  };
+}
+
+export async function ensureEmbeddingIndexes(db?: Db): Promise<void> {
+  const database = db || await getDb();
+  const collection = database.collection(PAGE_EMBEDDINGS_COLLECTION);
+  await collection.createIndex({ id: 1 }, { name: 'page_embeddings_id_idx', unique: true });
+  await collection.createIndex({ page_id: 1, chunk_index: 1 }, { name: 'page_embeddings_page_idx' });
+  await collection.createIndex({ backend: 1, book_id: 1 }, { name: 'page_embeddings_backend_book_idx' });
+}
@@ -1,12 +1,21 @@
 import { headers } from 'next/headers';
 import { SiteMode, SiteModeConfig, SOCIETY_CONFIG, LIBRARY_CONFIG } from './site-mode';
+import { getTenantConfig } from './tenant-config';
 
 /**
  * Get site mode in server components
- * Reads the x-site-mode header set by middleware
+ * Reads the x-site-mode header set by middleware. Library mode carries the
+ * current tenant's branding.
  */
 export async function getSiteMode(): Promise<SiteModeConfig> {
   const headersList = await headers();
   const mode = headersList.get('x-site-mode') as SiteMode | null;
-  return mode === 'society' ? SOCIETY_CONFIG : LIBRARY_CONFIG;
+  if (mode === 'society') return SOCIETY_CONFIG;
+
+  const { branding } = await getTenantConfig();
+  return {
+    ...LIBRARY_CONFIG,
+    siteName: branding.site_name,
+    siteDescription: branding.site_description,
+  };
 }
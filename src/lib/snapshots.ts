@@ -1,20 +1,38 @@
 import { getDb } from './mongodb';
 import { nanoid } from 'nanoid';
-import type { PageSnapshot } from './types';
+import type { Page, PageSnapshot } from './types';
+import { refreshSearchIndex } from './search/indexer';
+import { recordRevisions } from './revisions';
+import { DEFAULT_TARGET_LANGUAGE, getTranslation, translationPath } from './translation-languages';
+
+type SnapshotField = 'ocr' | 'translation' | 'summary';
+
+// The field each kind of re-processing overwrites
+const SNAPSHOT_TARGETS: Partial<Record<PageSnapshot['snapshot_type'], SnapshotField>> = {
+  pre_ocr: 'ocr',
+  pre_translate: 'translation',
+  pre_summary: 'summary',
+};
 
 /**
  * Creates a snapshot of page content before re-processing.
- * Only creates a snapshot if the page has manually-edited content.
+ * The field about to be overwritten is saved whatever its source, so a new
+ * AI run can be diffed against the last one; other fields are saved only if
+ * they have manual edits.
  *
  * @param pageId - The page ID
  * @param snapshotType - What triggered the snapshot
  * @param jobId - Optional job ID that triggered this
- * @returns The snapshot if created, undefined if no manual edits to backup
+ * @param field - The field about to be overwritten, for a pre_review snapshot
+ * @param targetLanguage - Which translation is saved (BCP 47 code, default English)
+ * @returns The snapshot if created, undefined if there was nothing to back up
  */
 export async function createSnapshotIfNeeded(
   pageId: string,
   snapshotType: PageSnapshot['snapshot_type'],
-  jobId?: string
+  jobId?: string,
+  field: SnapshotField | undefined = SNAPSHOT_TARGETS[snapshotType],
+  targetLanguage: string = DEFAULT_TARGET_LANGUAGE
 ): Promise<PageSnapshot | undefined> {
   const db = await getDb();
 
@@ -25,22 +43,23 @@ export async function createSnapshotIfNeeded(
     return undefined;
   }
 
-  // Check if there are any manual edits to backup
+  // The translation into the target language stands in for `translation`
+  const translation = getTranslation(page as unknown as Page, targetLanguage);
+
+  // Fields with manual edits are always worth keeping
   const hasManualOcr = page.ocr?.source === 'manual' && page.ocr?.data;
-  const hasManualTranslation = page.translation?.source === 'manual' && page.translation?.data;
+  const hasManualTranslation = translation?.source === 'manual' && translation?.data;
   const hasManualSummary = page.summary?.source === 'manual' && page.summary?.data;
 
-  // Only create snapshot if there's something manually edited
-  if (!hasManualOcr && !hasManualTranslation && !hasManualSummary) {
-    return undefined;
-  }
+  const saveOcr = hasManualOcr || (field === 'ocr' && page.ocr?.data);
+  const saveTranslation = hasManualTranslation || (field === 'translation' && translation?.data);
+  const saveSummary = hasManualSummary || (field === 'summary' && page.summary?.data);
 
-  // Check if we should create a snapshot based on the operation
-  let shouldSnapshot = false;
-  if (snapshotType === 'pre_ocr' && hasManualOcr) shouldSnapshot = true;
-  if (snapshotType === 'pre_translate' && hasManualTranslation) shouldSnapshot = true;
-  if (snapshotType === 'pre_summary' && hasManualSummary) shouldSnapshot = true;
-  if (snapshotType === 'manual_backup') shouldSnapshot = hasManualOcr || hasManualTranslation || hasManualSummary;
+  // Only snapshot when the field being overwritten has content (or, for a
+  // manual backup, when anything was edited by hand)
+  const shouldSnapshot = field
+    ? Boolean(field === 'translation' ? translation?.data : page[field]?.data)
+    : Boolean(hasManualOcr || hasManualTranslation || hasManualSummary);
 
   if (!shouldSnapshot) {
     return undefined;
@@ -55,16 +74,16 @@ export async function createSnapshotIfNeeded(
     triggered_by_job_id: jobId,
   };
 
-  // Save the content that was manually edited
-  if (hasManualOcr) {
+  if (saveOcr) {
     snapshot.ocr_data = page.ocr.data;
     snapshot.ocr_edited_by = page.ocr.edited_by;
   }
-  if (hasManualTranslation) {
-    snapshot.translation_data = page.translation.data;
-    snapshot.translation_edited_by = page.translation.edited_by;
+  if (saveTranslation) {
+    snapshot.translation_data = translation!.data;
+    snapshot.translation_edited_by = translation!.edited_by;
+    if (targetLanguage !== DEFAULT_TARGET_LANGUAGE) snapshot.target_language = targetLanguage;
   }
-  if (hasManualSummary) {
+  if (saveSummary) {
     snapshot.summary_data = page.summary.data;
   }
 
@@ -126,11 +145,12 @@ export async function restoreSnapshot(
   }
 
   if (snapshot.translation_data) {
-    updateData['translation.data'] = snapshot.translation_data;
-    updateData['translation.source'] = 'manual';
-    updateData['translation.edited_by'] = snapshot.translation_edited_by || restoredBy;
-    updateData['translation.edited_at'] = now;
-    updateData['translation.updated_at'] = now;
+    const path = translationPath(snapshot.target_language || DEFAULT_TARGET_LANGUAGE);
+    updateData[`${path}.data`] = snapshot.translation_data;
+    updateData[`${path}.source`] = 'manual';
+    updateData[`${path}.edited_by`] = snapshot.translation_edited_by || restoredBy;
+    updateData[`${path}.edited_at`] = now;
+    updateData[`${path}.updated_at`] = now;
   }
 
   if (snapshot.summary_data) {
@@ -151,6 +171,9 @@ export async function restoreSnapshot(
     return { success: false, error: 'Page not found' };
   }
 
+  await refreshSearchIndex({ pageIds: [snapshot.page_id] });
+  await recordRevisions([snapshot.page_id], { via: 'restore', author: restoredBy });
+
   // Mark snapshot as restored
   await db.collection('page_snapshots').updateOne(
     { id: snapshotId },
@@ -0,0 +1,115 @@
+/**
+ * Storage driver registry.
+ *
+ * Page images are written to the backend chosen with STORAGE_BACKEND:
+ * - vercel-blob (default): Vercel Blob, as on the hosted site.
+ * - s3: Amazon S3 or an S3-compatible store such as MinIO (see s3.ts).
+ * - local: the server's own disk, served by /api/storage (see local.ts).
+ *
+ * URLs saved on pages keep working after the backend changes: any driver
+ * that is configured is used to recognise its URLs, and
+ * scripts/migrate-storage.ts copies existing objects to another backend.
+ *
+ * Other drivers can be added with registerStorageDriver().
+ */
+
+import path from 'path';
+import type { PutOptions, StorageDriver, StoredObject } from './types';
+import { createVercelBlobDriver } from './vercel-blob';
+import { createS3Driver } from './s3';
+import { createLocalDriver } from './local';
+
+export type { PutOptions, StorageDriver, StoredObject } from './types';
+export { ObjectExistsError } from './types';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.jp2': 'image/jp2',
+  '.tif': 'image/tiff',
+  '.tiff': 'image/tiff',
+};
+
+const factories = new Map<string, () => StorageDriver>();
+const instances = new Map<string, StorageDriver>();
+
+export function registerStorageDriver(id: string, factory: () => StorageDriver): void {
+  factories.set(id, factory);
+  instances.delete(id);
+}
+
+export function getStorageDriver(id = process.env.STORAGE_BACKEND || 'vercel-blob'): StorageDriver {
+  let driver = instances.get(id);
+  if (!driver) {
+    const factory = factories.get(id);
+    if (!factory) {
+      throw new Error(`Unknown storage backend "${id}". Available: ${[...factories.keys()].join(', ')}`);
+    }
+    driver = factory();
+    instances.set(id, driver);
+  }
+  return driver;
+}
+
+/**
+ * Drivers whose configuration is present. A driver missing its settings
+ * (e.g. s3 without S3_BUCKET) is left out.
+ */
+function configuredDrivers(): StorageDriver[] {
+  return [...factories.keys()].flatMap(id => {
+    try {
+      return [getStorageDriver(id)];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * Store an object with the default driver.
+ */
+export function putObject(key: string, body: Buffer, options: PutOptions): Promise<StoredObject> {
+  return getStorageDriver().put(key, body, options);
+}
+
+/**
+ * The driver and key behind a stored object's URL, or null for URLs no
+ * configured driver produced (IIIF servers, Internet Archive...).
+ */
+export function resolveStoredObject(url: string): { driver: StorageDriver; key: string } | null {
+  for (const driver of configuredDrivers()) {
+    const key = driver.keyFromUrl(url);
+    if (key) return { driver, key };
+  }
+  return null;
+}
+
+/**
+ * Hosts serving stored objects, for proxies that only fetch from known hosts.
+ */
+export function getStorageHosts(): string[] {
+  return configuredDrivers().flatMap(driver => driver.hosts());
+}
+
+/**
+ * Read an object of the local driver straight from disk rather than through
+ * this app's own /api/storage URL. Null for other URLs.
+ */
+export async function readLocalObject(url: string): Promise<Buffer | null> {
+  const stored = resolveStoredObject(url);
+  return stored?.driver.id === 'local' ? stored.driver.get(stored.key) : null;
+}
+
+/**
+ * Content type of a stored object, from its key's extension.
+ */
+export function contentTypeForKey(key: string): string {
+  return CONTENT_TYPES[path.extname(key).toLowerCase()] || 'application/octet-stream';
+}
+
+registerStorageDriver('vercel-blob', createVercelBlobDriver);
+registerStorageDriver('s3', createS3Driver);
+registerStorageDriver('local', createLocalDriver);
@@ -0,0 +1,64 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ObjectExistsError, type StorageDriver } from './types';
+
+/**
+ * Files on the server's own disk, served by /api/storage/[...key]. For
+ * self-hosted installs and development without any object store.
+ *
+ * Environment:
+ * - STORAGE_LOCAL_DIR - where files are written (default ./storage)
+ * - STORAGE_LOCAL_URL - public URL of the files (default
+ *   $NEXT_PUBLIC_URL/api/storage, or http://localhost:3000/api/storage).
+ *   Page image URLs are also fetched server-side, so this must be absolute.
+ */
+export function createLocalDriver(): StorageDriver {
+  const root = path.resolve(process.env.STORAGE_LOCAL_DIR || 'storage');
+  const baseUrl = (
+    process.env.STORAGE_LOCAL_URL || `${process.env.NEXT_PUBLIC_URL || 'http://localhost:3000'}/api/storage`
+  ).replace(/\/$/, '');
+
+  const resolve = (key: string) => {
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  };
+
+  return {
+    id: 'local',
+
+    async put(key, body, options) {
+      const file = resolve(key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      try {
+        await fs.writeFile(file, body, { flag: options.overwrite ? 'w' : 'wx' });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+          throw new ObjectExistsError(key);
+        }
+        throw error;
+      }
+      return { key, url: `${baseUrl}/${key.split('/').map(encodeURIComponent).join('/')}` };
+    },
+
+    async get(key) {
+      return fs.readFile(resolve(key));
+    },
+
+    async delete(key) {
+      await fs.rm(resolve(key), { force: true });
+    },
+
+    keyFromUrl(url) {
+      if (!url.startsWith(`${baseUrl}/`)) return null;
+      return decodeURIComponent(url.slice(baseUrl.length + 1).split('?')[0]);
+    },
+
+    // Served by this app; see readLocalObject()
+    hosts() {
+      return [];
+    },
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * Move stored page images from one storage backend to another.
+ *
+ * Each image URL on a page is resolved to the driver and key that produced
+ * it, copied to the same key on the target driver, and the page is pointed
+ * at the new URL. URLs no configured driver recognises (IIIF servers,
+ * Internet Archive...) are left alone. Running it again is safe: images
+ * already on the target are skipped.
+ */
+
+import type { Db } from 'mongodb';
+import { contentTypeForKey, getStorageDriver, resolveStoredObject } from './index';
+
+export const STORAGE_URL_FIELDS = ['archived_photo', 'cropped_photo', 'photo', 'photo_original', 'thumbnail'] as const;
+export type StorageUrlField = typeof STORAGE_URL_FIELDS[number];
+
+export interface MigrateStorageOptions {
+  /** Target driver id */
+  to: string;
+  /** Only move images from this driver (default: every other configured driver) */
+  from?: string;
+  fields?: StorageUrlField[];
+  bookId?: string;
+  /** Stop after updating this many pages */
+  limit?: number;
+  dryRun?: boolean;
+  /** Delete source objects that no page refers to any more */
+  deleteSource?: boolean;
+  onProgress?: (pagesScanned: number) => void;
+}
+
+export interface MigrateStorageResult {
+  pagesScanned: number;
+  pagesUpdated: number;
+  copied: number;
+  deleted: number;
+  failed: Array<{ pageId: string; field: StorageUrlField; url: string; error: string }>;
+}
+
+export async function migrateStorage(db: Db, options: MigrateStorageOptions): Promise<MigrateStorageResult> {
+  const target = getStorageDriver(options.to);
+  const fields = options.fields?.length ? options.fields : ['archived_photo', 'cropped_photo'] as StorageUrlField[];
+  const result: MigrateStorageResult = { pagesScanned: 0, pagesUpdated: 0, copied: 0, deleted: 0, failed: [] };
+
+  // The same image is often on several fields (photo and photo_original)
+  const moved = new Map<string, string>();
+  const sources: Array<{ driverId: string; key: string; url: string }> = [];
+
+  const cursor = db.collection('pages').find(
+    {
+      ...(options.bookId && { book_id: options.bookId }),
+      $or: fields.map(field => ({ [field]: { $type: 'string', $ne: '' } })),
+    },
+    { projection: { _id: 0, id: 1, ...Object.fromEntries(fields.map(field => [field, 1])) } }
+  );
+
+  for await (const page of cursor) {
+    result.pagesScanned++;
+    const updates: Record<string, string> = {};
+
+    for (const field of fields) {
+      const url = page[field];
+      if (typeof url !== 'string' || !url) continue;
+
+      const stored = resolveStoredObject(url);
+      if (!stored || stored.driver.id === target.id) continue;
+      if (options.from && stored.driver.id !== options.from) continue;
+
+      let newUrl = moved.get(url);
+      if (!newUrl) {
+        if (options.dryRun) {
+          newUrl = url;
+        } else {
+          try {
+            const body = await stored.driver.get(stored.key);
+            newUrl = (await target.put(stored.key, body, {
+              contentType: contentTypeForKey(stored.key),
+              overwrite: true,
+            })).url;
+            sources.push({ driverId: stored.driver.id, key: stored.key, url });
+          } catch (error) {
+            result.failed.push({
+              pageId: page.id,
+              field,
+              url,
+              error: error instanceof Error ? error.message : String(error),
+            });
+            continue;
+          }
+        }
+        moved.set(url, newUrl);
+        result.copied++;
+      }
+      updates[field] = newUrl;
+    }
+
+    if (Object.keys(updates).length > 0) {
+      if (!options.dryRun) {
+        await db.collection('pages').updateOne({ id: page.id }, { $set: { ...updates, updated_at: new Date() } });
+      }
+      result.pagesUpdated++;
+    }
+    options.onProgress?.(result.pagesScanned);
+    if (options.limit && result.pagesUpdated >= options.limit) break;
+  }
+
+  if (options.deleteSource && !options.dryRun) {
+    for (const { driverId, key, url } of sources) {
+      // Pages outside this run (or whose update failed) may still use it
+      const stillUsed = await db.collection('pages').countDocuments(
+        { $or: STORAGE_URL_FIELDS.map(field => ({ [field]: url })) },
+        { limit: 1 }
+      );
+      if (stillUsed > 0) continue;
+
+      try {
+        await getStorageDriver(driverId).delete(key);
+        result.deleted++;
+      } catch (error) {
+        console.warn(`[storage] Could not delete ${driverId}:${key}:`, error);
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,96 @@
+import { DeleteObjectCommand, GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { ObjectExistsError, type StorageDriver } from './types';
+
+/**
+ * Amazon S3 or any S3-compatible object store (MinIO, Cloudflare R2,
+ * Backblaze B2, Wasabi...). Objects are served straight from the bucket, so
+ * it must allow public reads (a bucket policy; no ACLs are set).
+ *
+ * Environment:
+ * - S3_BUCKET (required)
+ * - S3_REGION (default us-east-1)
+ * - S3_ENDPOINT - for stores other than AWS, e.g. http://localhost:9000 for MinIO
+ * - S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY (default: the AWS credential chain)
+ * - S3_FORCE_PATH_STYLE - "true"/"false" (default true when S3_ENDPOINT is set)
+ * - S3_PUBLIC_URL - base URL objects are served from, e.g. a CDN (default:
+ *   the bucket's own URL)
+ */
+export function createS3Driver(): StorageDriver {
+  const bucket = process.env.S3_BUCKET;
+  if (!bucket) {
+    throw new Error('S3_BUCKET is not set');
+  }
+  const region = process.env.S3_REGION || 'us-east-1';
+  const endpoint = process.env.S3_ENDPOINT?.replace(/\/$/, '');
+  const forcePathStyle = process.env.S3_FORCE_PATH_STYLE
+    ? process.env.S3_FORCE_PATH_STYLE === 'true'
+    : Boolean(endpoint);
+
+  const client = new S3Client({
+    region,
+    endpoint,
+    forcePathStyle,
+    ...(process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY && {
+      credentials: {
+        accessKeyId: process.env.S3_ACCESS_KEY_ID,
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      },
+    }),
+  });
+
+  const publicUrl = (
+    process.env.S3_PUBLIC_URL
+    || (endpoint
+      ? (forcePathStyle ? `${endpoint}/${bucket}` : endpoint.replace('://', `://${bucket}.`))
+      : `https://${bucket}.s3.${region}.amazonaws.com`)
+  ).replace(/\/$/, '');
+
+  return {
+    id: 's3',
+
+    async put(key, body, options) {
+      try {
+        await client.send(new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Body: body,
+          ContentType: options.contentType,
+          // Conditional write: fail rather than replace an existing object
+          ...(!options.overwrite && { IfNoneMatch: '*' }),
+        }));
+      } catch (error) {
+        const status = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+        if (!options.overwrite && status === 412) {
+          throw new ObjectExistsError(key);
+        }
+        throw error;
+      }
+      return { key, url: `${publicUrl}/${key.split('/').map(encodeURIComponent).join('/')}` };
+    },
+
+    async get(key) {
+      const response = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+      if (!response.Body) {
+        throw new Error(`Empty S3 object: ${key}`);
+      }
+      return Buffer.from(await response.Body.transformToByteArray());
+    },
+
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+
+    keyFromUrl(url) {
+      if (!url.startsWith(`${publicUrl}/`)) return null;
+      return decodeURIComponent(url.slice(publicUrl.length + 1).split('?')[0]);
+    },
+
+    hosts() {
+      try {
+        return [new URL(publicUrl).hostname];
+      } catch {
+        return [];
+      }
+    },
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Types shared by storage drivers.
+ *
+ * A driver stores page images (uploads, split crops, thumbnails, archived
+ * scans) under a key such as "cropped/<bookId>/<pageId>.jpg" and hands back
+ * the public URL that is saved on the page. Keys are the same on every
+ * driver, so an object can be moved between backends by copying it to the
+ * same key (see migrate.ts).
+ */
+
+export interface PutOptions {
+  contentType: string;
+  /** Replace an existing object; otherwise putting an existing key fails */
+  overwrite?: boolean;
+}
+
+export interface StoredObject {
+  key: string;
+  url: string;
+}
+
+export interface StorageDriver {
+  /** Name used in STORAGE_BACKEND and by the migration script */
+  id: string;
+  put(key: string, body: Buffer, options: PutOptions): Promise<StoredObject>;
+  /** Read an object without going through its public URL */
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+  /** The key of a URL this driver produced, or null if it is not one */
+  keyFromUrl(url: string): string | null;
+  /** Hosts serving this driver's URLs, for the /api/image allow-list (none if this app serves them) */
+  hosts(): string[];
+}
+
+/**
+ * Thrown by put() when the key exists and overwrite was not requested. The
+ * message matches the one Vercel Blob uses, which callers already check for.
+ */
+export class ObjectExistsError extends Error {
+  constructor(key: string) {
+    super(`Storage object "${key}" already exists`);
+    this.name = 'ObjectExistsError';
+  }
+}
@@ -0,0 +1,52 @@
+import { del, head, put } from '@vercel/blob';
+import type { StorageDriver } from './types';
+
+const BLOB_HOST = 'blob.vercel-storage.com';
+
+/**
+ * Vercel Blob, the hosted deployment's store.
+ *
+ * Environment:
+ * - BLOB_READ_WRITE_TOKEN (read by @vercel/blob)
+ */
+export function createVercelBlobDriver(): StorageDriver {
+  return {
+    id: 'vercel-blob',
+
+    async put(key, body, options) {
+      const blob = await put(key, body, {
+        access: 'public',
+        contentType: options.contentType,
+        addRandomSuffix: false,
+        allowOverwrite: options.overwrite === true,
+      });
+      return { key: blob.pathname, url: blob.url };
+    },
+
+    async get(key) {
+      const { url } = await head(key);
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Failed to read blob ${key}: ${response.status} ${response.statusText}`);
+      }
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    async delete(key) {
+      await del(key);
+    },
+
+    keyFromUrl(url) {
+      try {
+        const { hostname, pathname } = new URL(url);
+        return hostname.endsWith(`.${BLOB_HOST}`) ? decodeURIComponent(pathname.slice(1)) : null;
+      } catch {
+        return null;
+      }
+    },
+
+    hosts() {
+      return [BLOB_HOST];
+    },
+  };
+}
@@ -0,0 +1,555 @@
+/**
+ * TEI P5 XML export for books and published editions.
+ *
+ * Produces a single TEI document with:
+ *   - a teiHeader built from Book, DublinCoreMetadata, ImageSource and edition contributors
+ *   - <pb facs="..."/> page beginnings pointing at the page scans
+ *   - parallel <div type="edition"> (transcription) and <div type="translation"> bodies
+ *
+ * Our inline OCR/translation annotation tags (see docs/XML-ANNOTATIONS.md) are mapped
+ * to their TEI equivalents; hidden metadata tags (<meta>, <vocab>, <summary>...) are dropped.
+ *
+ * Spec: https://tei-c.org/release/doc/tei-p5-doc/en/html/
+ */
+
+import type { EditionPage } from './page-versions';
+import type { Book, Page, TranslationEdition, Contributor } from './types';
+import { getLanguageCodes, LANGUAGE_CODES } from './types';
+import { getPageImageUrl } from './utils';
+
+const BASE_URL = process.env.NEXT_PUBLIC_BASE_URL || 'https://sourcelibrary.org';
+
+export const LICENSE_URLS: Record<string, string> = {
+  'CC0-1.0': 'https://creativecommons.org/publicdomain/zero/1.0/',
+  'CC-BY-4.0': 'https://creativecommons.org/licenses/by/4.0/',
+  'CC-BY-SA-4.0': 'https://creativecommons.org/licenses/by-sa/4.0/',
+  'CC-BY-NC-4.0': 'https://creativecommons.org/licenses/by-nc/4.0/',
+  'CC-BY-NC-SA-4.0': 'https://creativecommons.org/licenses/by-nc-sa/4.0/',
+  publicdomain: 'https://creativecommons.org/publicdomain/mark/1.0/',
+};
+
+export function escapeXml(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// ============================================
+// ANNOTATION → TEI CONVERSION
+// ============================================
+
+// Paired inline tags: our tag → TEI open/close
+const PAIRED_TAGS: Record<string, { open: string; close: string }> = {
+  note: { open: '<note type="editorial">', close: '</note>' },
+  margin: { open: '<note place="margin">', close: '</note>' },
+  gloss: { open: '<gloss>', close: '</gloss>' },
+  unclear: { open: '<unclear>', close: '</unclear>' },
+  term: { open: '<term>', close: '</term>' },
+  insert: { open: '<add>', close: '</add>' },
+};
+
+// Hidden metadata tags with no TEI body equivalent (captured in the header or dropped)
+const DROPPED_TAGS = ['lang', 'meta', 'warning', 'vocab', 'summary', 'keywords'];
+
+// Legacy [[name: value]] syntax → current XML tag names
+const LEGACY_TAGS: Record<string, string> = {
+  note: 'note',
+  notes: 'note',
+  margin: 'margin',
+  gloss: 'gloss',
+  insert: 'insert',
+  unclear: 'unclear',
+  term: 'term',
+  abbrev: 'abbrev',
+  signature: 'sig',
+  sig: 'sig',
+  header: 'header',
+  'page number': 'page-num',
+  folio: 'folio',
+  'image description': 'image-desc',
+  image: 'image-desc',
+  language: 'lang',
+  meta: 'meta',
+  warning: 'warning',
+  vocabulary: 'vocab',
+  summary: 'summary',
+  keywords: 'keywords',
+};
+
+function normalizeLegacySyntax(text: string): string {
+  return text.replace(/\[\[([a-z ]+?):\s*([\s\S]*?)\]\]/gi, (match, name: string, content: string) => {
+    const tag = LEGACY_TAGS[name.toLowerCase().trim()];
+    return tag ? `<${tag}>${content}</${tag}>` : match;
+  });
+}
+
+/**
+ * Convert tags whose content is rendered as a single TEI element.
+ * Content is escaped here; the result is trusted XML.
+ */
+function convertAtomicTag(tag: string, content: string): string {
+  const value = content.trim();
+  switch (tag) {
+    case 'abbrev': {
+      const [abbr, expan] = value.split(/\s*(?:→|->|=>)\s*/, 2);
+      if (expan) {
+        return `<choice><abbr>${escapeXml(abbr)}</abbr><expan>${escapeXml(expan)}</expan></choice>`;
+      }
+      return `<abbr>${escapeXml(value)}</abbr>`;
+    }
+    case 'sig':
+      return `<fw type="sig">${escapeXml(value)}</fw>`;
+    case 'header':
+      return `<fw type="header">${escapeXml(value)}</fw>`;
+    case 'page-num':
+      return `<fw type="pageNum">${escapeXml(value)}</fw>`;
+    case 'folio':
+      return `<fw type="folio">${escapeXml(value)}</fw>`;
+    case 'image-desc':
+      return `<figure><figDesc>${escapeXml(value)}</figDesc></figure>`;
+    default:
+      return escapeXml(value);
+  }
+}
+
+// Escape plain text and convert inline markdown (bold, italic, centering, line breaks)
+function convertInlineText(text: string): string {
+  return escapeXml(text)
+    .replace(/\*\*\*(.+?)\*\*\*/g, '<hi rend="bold italic">$1</hi>')
+    .replace(/\*\*(.+?)\*\*/g, '<hi rend="bold">$1</hi>')
+    .replace(/\*(.+?)\*/g, '<hi rend="italic">$1</hi>')
+    .replace(/-&gt;(.+?)&lt;-/g, '<hi rend="center">$1</hi>')
+    .replace(/\n/g, '<lb/>\n');
+}
+
+const INLINE_PATTERN = /<(abbrev|sig|header|page-num|folio|image-desc)>([\s\S]*?)<\/\1>|<(\/?)(note|margin|gloss|unclear|term|insert)>/gi;
+
+/**
+ * Convert one block of annotated text to TEI phrase content.
+ * Unbalanced paired tags are closed at the end of the block (or dropped if
+ * they were never opened) so the output is always well-formed.
+ */
+function convertInline(text: string): string {
+  const out: string[] = [];
+  const stack: string[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    out.push(convertInlineText(text.slice(lastIndex, match.index)));
+    lastIndex = (match.index ?? 0) + match[0].length;
+
+    if (match[1]) {
+      out.push(convertAtomicTag(match[1].toLowerCase(), match[2]));
+      continue;
+    }
+
+    const tag = match[4].toLowerCase();
+    if (match[3] !== '/') {
+      stack.push(tag);
+      out.push(PAIRED_TAGS[tag].open);
+    } else if (stack.includes(tag)) {
+      while (stack.length > 0) {
+        const open = stack.pop()!;
+        out.push(PAIRED_TAGS[open].close);
+        if (open === tag) break;
+      }
+    }
+  }
+
+  out.push(convertInlineText(text.slice(lastIndex)));
+  while (stack.length > 0) {
+    out.push(PAIRED_TAGS[stack.pop()!].close);
+  }
+
+  return out.join('').replace(/(<lb\/>\n)+$/, '');
+}
+
+// Elements allowed directly inside a <div> between paragraphs
+const STANDALONE_ELEMENTS = /<(fw|figure|note)\b[^>]*>[\s\S]*?<\/\1>/g;
+
+function convertBlock(block: string): string[] {
+  const lines = block.split('\n');
+
+  // Markdown heading, possibly followed by body text in the same block
+  const heading = lines[0].match(/^(#{1,6})\s+(.*)$/);
+  if (heading) {
+    const result = [`<ab type="head" rend="h${heading[1].length}">${convertInline(heading[2])}</ab>`];
+    const rest = lines.slice(1).join('\n').trim();
+    return rest ? [...result, ...convertBlock(rest)] : result;
+  }
+
+  // Decorative dividers
+  if (/^(-{3,}|\*{3,})$/.test(block)) {
+    return ['<milestone unit="section" rend="rule"/>'];
+  }
+
+  // Blockquotes (quotations, prayers)
+  if (lines.every(line => line.startsWith('>'))) {
+    const quoted = lines.map(line => line.replace(/^>\s?/, '')).join('\n');
+    return [`<p><quote>${convertInline(quoted)}</quote></p>`];
+  }
+
+  const content = convertInline(block);
+  const remainder = content.replace(STANDALONE_ELEMENTS, '').replace(/<lb\/>/g, '').trim();
+  if (!remainder) {
+    return [content.replace(/<lb\/>\n?/g, '\n').trim()];
+  }
+  return [`<p>${content}</p>`];
+}
+
+/**
+ * Convert a page's OCR or translation text (Markdown + annotation tags) to
+ * a sequence of TEI block elements.
+ */
+export function annotatedTextToTei(text: string): string[] {
+  let source = text
+    .replace(/^```(?:markdown)?\s*\n?/i, '')
+    .replace(/\n?```\s*$/i, '');
+
+  source = normalizeLegacySyntax(source);
+
+  const dropped = new RegExp(`<(${DROPPED_TAGS.join('|')})>[\\s\\S]*?<\\/\\1>`, 'gi');
+  source = source
+    .replace(dropped, '')
+    .replace(/!\[.*?\]\(.*?\)/g, '')
+    .replace(/\r\n/g, '\n');
+
+  return source
+    .split(/\n\s*\n/)
+    .map(block => block.trim())
+    .filter(Boolean)
+    .flatMap(convertBlock);
+}
+
+// ============================================
+// HEADER
+// ============================================
+
+function languageName(code: string): string {
+  const name = Object.keys(LANGUAGE_CODES).find(key => LANGUAGE_CODES[key].bcp47 === code);
+  return name ? name.charAt(0).toUpperCase() + name.slice(1) : code;
+}
+
+function licenceElement(license: string | undefined, indent: string): string {
+  if (!license) return '';
+  const url = LICENSE_URLS[license];
+  const target = url ? ` target="${escapeXml(url)}"` : '';
+  return `${indent}<licence${target}>${escapeXml(license)}</licence>`;
+}
+
+function contributorElement(contributor: Contributor, indent: string): string {
+  const ref = contributor.orcid ? ` ref="https://orcid.org/${escapeXml(contributor.orcid)}"` : '';
+  const nameType = contributor.type === 'ai' ? 'software' : 'person';
+  const lines = [
+    `${indent}<respStmt>`,
+    `${indent}  <resp>${escapeXml(contributor.role)}</resp>`,
+    `${indent}  <name type="${nameType}"${ref}>${escapeXml(contributor.name)}${contributor.model && contributor.model !== contributor.name ? ` (${escapeXml(contributor.model)})` : ''}</name>`,
+  ];
+  if (contributor.affiliation) {
+    lines.push(`${indent}  <orgName>${escapeXml(contributor.affiliation)}</orgName>`);
+  }
+  lines.push(`${indent}</respStmt>`);
+  return lines.join('\n');
+}
+
+/**
+ * Contributors for the header: the edition's list if we have one,
+ * otherwise the distinct AI models recorded on the pages plus dc_contributor.
+ */
+function collectContributors(book: Book, pages: Page[], edition?: TranslationEdition | null): Contributor[] {
+  if (edition?.contributors?.length) return edition.contributors;
+
+  const contributors: Contributor[] = [];
+  const seen = new Set<string>();
+  for (const page of pages) {
+    for (const [data, role] of [[page.ocr, 'transcriber'], [page.translation, 'translator']] as const) {
+      if (!data?.model || seen.has(`${role}:${data.model}`)) continue;
+      seen.add(`${role}:${data.model}`);
+      contributors.push({
+        name: data.model.includes('gemini') ? 'Google Gemini' : data.model,
+        role,
+        type: 'ai',
+        model: data.model,
+      });
+    }
+  }
+  for (const name of book.dublin_core?.dc_contributor || []) {
+    contributors.push({ name, role: 'editor', type: 'human' });
+  }
+  return contributors;
+}
+
+function buildTeiHeader(
+  book: Book,
+  pages: Page[],
+  edition: TranslationEdition | null | undefined,
+  sourceLang: string | undefined,
+  targetLang: string
+): string {
+  const dc = book.dublin_core;
+  const image = book.image_source;
+  const title = edition?.citation.title || book.display_title || book.title;
+  const doi = edition?.doi || book.doi;
+  const license = edition?.license || book.license;
+  const date = (edition?.published_at ? new Date(edition.published_at) : new Date()).toISOString().split('T')[0];
+  const sourceLangAttr = sourceLang ? ` xml:lang="${sourceLang}"` : '';
+
+  const lines: string[] = [];
+  lines.push('  <teiHeader>');
+  lines.push('    <fileDesc>');
+
+  // titleStmt
+  lines.push('      <titleStmt>');
+  lines.push(`        <title type="main">${escapeXml(title)}</title>`);
+  if (book.title && book.title !== title) {
+    lines.push(`        <title type="original"${sourceLangAttr}>${escapeXml(book.title)}</title>`);
+  }
+  if (book.author) {
+    lines.push(`        <author>${escapeXml(book.author)}</author>`);
+  }
+  for (const contributor of collectContributors(book, pages, edition)) {
+    lines.push(contributorElement(contributor, '        '));
+  }
+  lines.push('      </titleStmt>');
+
+  // editionStmt
+  if (edition) {
+    lines.push('      <editionStmt>');
+    lines.push(`        <edition n="${escapeXml(edition.version)}">${escapeXml(edition.version_label || `Version ${edition.version}`)}${edition.published_at ? ` <date when="${date}"/>` : ''}</edition>`);
+    lines.push('      </editionStmt>');
+  }
+
+  lines.push('      <extent>');
+  lines.push(`        <measure unit="pages" quantity="${pages.length}">${pages.length} pages</measure>`);
+  lines.push('      </extent>');
+
+  // publicationStmt
+  lines.push('      <publicationStmt>');
+  lines.push('        <publisher>Source Library</publisher>');
+  lines.push('        <distributor>Ancient Wisdom Trust</distributor>');
+  lines.push(`        <idno type="URI">${escapeXml(`${BASE_URL}/book/${book.id}`)}</idno>`);
+  if (doi) {
+    lines.push(`        <idno type="DOI">${escapeXml(doi)}</idno>`);
+  }
+  if (edition?.content_hash) {
+    lines.push(`        <idno type="SHA-256">${escapeXml(edition.content_hash)}</idno>`);
+  }
+  lines.push('        <availability>');
+  lines.push(licenceElement(license || 'CC-BY-4.0', '          '));
+  lines.push('        </availability>');
+  lines.push(`        <date when="${date}"/>`);
+  lines.push('      </publicationStmt>');
+
+  if (dc?.dc_description) {
+    lines.push('      <notesStmt>');
+    lines.push(`        <note type="description">${escapeXml(dc.dc_description)}</note>`);
+    lines.push('      </notesStmt>');
+  }
+
+  // sourceDesc: the printed original, then the digitization
+  lines.push('      <sourceDesc>');
+  lines.push('        <biblStruct type="original">');
+  lines.push('          <monogr>');
+  if (book.author) {
+    lines.push(`            <author>${escapeXml(book.author)}</author>`);
+  }
+  lines.push(`            <title${sourceLangAttr}>${escapeXml(book.title)}</title>`);
+  if (book.ustc_id) {
+    lines.push(`            <idno type="USTC">${escapeXml(book.ustc_id)}</idno>`);
+  }
+  for (const identifier of dc?.dc_identifier || []) {
+    lines.push(`            <idno>${escapeXml(identifier)}</idno>`);
+  }
+  if (sourceLang) {
+    lines.push(`            <textLang mainLang="${sourceLang}">${escapeXml(book.language)}</textLang>`);
+  }
+  lines.push('            <imprint>');
+  if (book.place_published) {
+    lines.push(`              <pubPlace>${escapeXml(book.place_published)}</pubPlace>`);
+  }
+  const publisher = book.publisher || dc?.dc_publisher;
+  if (publisher) {
+    lines.push(`              <publisher>${escapeXml(publisher)}</publisher>`);
+  }
+  lines.push(`              <date>${escapeXml(book.published || 'n.d.')}</date>`);
+  lines.push('            </imprint>');
+  const extent = [book.format, dc?.dc_format].filter(Boolean).join('; ');
+  if (extent) {
+    lines.push(`            <extent>${escapeXml(extent)}</extent>`);
+  }
+  lines.push('          </monogr>');
+  if (dc?.dc_source) {
+    lines.push(`          <note type="holding">${escapeXml(dc.dc_source)}</note>`);
+  }
+  lines.push('        </biblStruct>');
+
+  if (image) {
+    lines.push('        <bibl type="digitization">');
+    lines.push(`          <distributor>${escapeXml(image.provider_name || image.provider)}</distributor>`);
+    if (image.identifier) {
+      lines.push(`          <idno>${escapeXml(image.identifier)}</idno>`);
+    }
+    if (image.source_url) {
+      lines.push(`          <ref target="${escapeXml(image.source_url)}">${escapeXml(image.source_url)}</ref>`);
+    }
+    if (image.access_date) {
+      lines.push(`          <date type="accessed" when="${new Date(image.access_date).toISOString().split('T')[0]}"/>`);
+    }
+    lines.push(`          <note type="license">${escapeXml(image.license)}${image.license_url ? ` (${escapeXml(image.license_url)})` : ''}</note>`);
+    if (image.attribution) {
+      lines.push(`          <note type="attribution">${escapeXml(image.attribution)}</note>`);
+    }
+    lines.push('        </bibl>');
+  }
+  lines.push('      </sourceDesc>');
+  lines.push('    </fileDesc>');
+
+  // encodingDesc
+  lines.push('    <encodingDesc>');
+  lines.push('      <projectDesc>');
+  lines.push('        <p>Source Library digitizes, transcribes and translates rare Hermetic, esoteric and humanist texts.</p>');
+  lines.push('      </projectDesc>');
+  lines.push('      <editorialDecl>');
+  lines.push('        <p>Transcriptions and translations were produced with AI assistance and human review. Abbreviations are expanded with <gi>choice</gi>; running heads, signatures and page numbers are recorded with <gi>fw</gi>; marginalia are encoded as <gi>note</gi> with <att>place</att>="margin".</p>');
+  lines.push('      </editorialDecl>');
+  lines.push('    </encodingDesc>');
+
+  // profileDesc
+  lines.push('    <profileDesc>');
+  lines.push('      <langUsage>');
+  if (sourceLang) {
+    lines.push(`        <language ident="${sourceLang}">${escapeXml(book.language)}</language>`);
+  }
+  lines.push(`        <language ident="${targetLang}">${escapeXml(languageName(targetLang))}</language>`);
+  lines.push('      </langUsage>');
+  const subjects = [...(dc?.dc_subject || []), ...(book.categories || [])];
+  if (subjects.length > 0) {
+    lines.push('      <textClass>');
+    lines.push('        <keywords>');
+    for (const subject of Array.from(new Set(subjects))) {
+      lines.push(`          <term>${escapeXml(subject)}</term>`);
+    }
+    lines.push('        </keywords>');
+    lines.push('      </textClass>');
+  }
+  lines.push('    </profileDesc>');
+
+  if (edition) {
+    lines.push('    <revisionDesc>');
+    lines.push(`      <change n="${escapeXml(edition.version)}" when="${date}">${escapeXml(edition.changelog || `Published edition ${edition.version}`)}</change>`);
+    lines.push('    </revisionDesc>');
+  }
+
+  lines.push('  </teiHeader>');
+  return lines.join('\n');
+}
+
+// ============================================
+// DOCUMENT
+// ============================================
+
+function buildFrontMatter(edition: TranslationEdition | null | undefined): string[] {
+  const sections = [
+    ['introduction', edition?.front_matter?.introduction],
+    ['methodology', edition?.front_matter?.methodology],
+    ['acknowledgments', edition?.front_matter?.acknowledgments],
+  ].filter(([, text]) => text) as Array<[string, string]>;
+
+  if (sections.length === 0) return [];
+
+  const lines = ['    <front>'];
+  for (const [type, text] of sections) {
+    lines.push(`      <div type="${type}">`);
+    for (const block of annotatedTextToTei(text)) {
+      lines.push(`        ${block}`);
+    }
+    lines.push('      </div>');
+  }
+  lines.push('    </front>');
+  return lines;
+}
+
+function buildBodyDiv(
+  pages: Page[],
+  field: 'ocr' | 'translation',
+  lang: string | undefined
+): string[] {
+  const type = field === 'ocr' ? 'edition' : 'translation';
+  const prefix = field === 'ocr' ? 'ed' : 'tr';
+  const langAttr = lang ? ` xml:lang="${lang}"` : '';
+
+  const lines = [`      <div type="${type}"${langAttr}>`];
+  for (const page of pages) {
+    const facs = escapeXml(getPageImageUrl(page));
+    const corresp = field === 'translation' ? ` corresp="#ed-p${page.page_number}"` : '';
+    lines.push(`        <pb n="${page.page_number}" xml:id="${prefix}-p${page.page_number}" facs="${facs}"${corresp}/>`);
+
+    const text = page[field]?.data;
+    if (!text) continue;
+    for (const block of annotatedTextToTei(text)) {
+      lines.push(`        ${block}`);
+    }
+  }
+  lines.push('      </div>');
+  return lines;
+}
+
+/**
+ * An edition's pages in published order, carrying the text frozen when it
+ * was published rather than the pages' current text. Editions published
+ * before their text was frozen have no frozen pages and keep the current text.
+ */
+function editionPages(pages: Page[], edition: TranslationEdition, frozenPages: EditionPage[]): Page[] {
+  const byId = new Map(pages.map(p => [p.id, p]));
+  const frozenById = new Map(frozenPages.map(f => [f.page_id, f]));
+  return edition.page_ids.flatMap(id => {
+    const page = byId.get(id);
+    if (!page) return [];
+    if (frozenPages.length === 0) return [page];
+    const frozen = frozenById.get(id);
+    return [{
+      ...page,
+      ocr: frozen?.ocr ? { ...page.ocr, data: frozen.ocr } : undefined,
+      translation: frozen?.translation ? { ...page.translation, data: frozen.translation } : undefined,
+    } as Page];
+  });
+}
+
+/**
+ * Generate a TEI P5 document for a book, or for a published edition of it.
+ * When an edition is given, only its page list is included (in order), with
+ * the text in `frozenPages` (its `edition_pages`) as it was published.
+ * Page translations are taken to be in the edition's language, else
+ * `targetLanguage` (a BCP 47 code, default English).
+ */
+export function generateTeiDocument(
+  book: Book,
+  pages: Page[],
+  edition?: TranslationEdition | null,
+  targetLanguage?: string,
+  frozenPages: EditionPage[] = []
+): string {
+  const included = edition ? editionPages(pages, edition, frozenPages) : pages;
+
+  const sourceLang = getLanguageCodes(book.language)?.bcp47;
+  const targetLang = getLanguageCodes(edition?.citation.target_language || targetLanguage)?.bcp47 || 'en';
+
+  const lines: string[] = [];
+  lines.push('<?xml version="1.0" encoding="UTF-8"?>');
+  lines.push('<?xml-model href="http://www.tei-c.org/release/xml/tei/custom/schema/relaxng/tei_all.rng" type="application/xml" schematypens="http://relaxng.org/ns/structure/1.0"?>');
+  lines.push(`<TEI xmlns="http://www.tei-c.org/ns/1.0" xml:id="book-${escapeXml(book.id)}">`);
+  lines.push(buildTeiHeader(book, included, edition, sourceLang, targetLang));
+  lines.push('  <text>');
+  lines.push(...buildFrontMatter(edition));
+  lines.push('    <body>');
+  lines.push(...buildBodyDiv(included, 'ocr', sourceLang));
+  lines.push(...buildBodyDiv(included, 'translation', targetLang));
+  lines.push('    </body>');
+  lines.push('  </text>');
+  lines.push('</TEI>');
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,63 @@
+import { connectToDatabase } from './mongodb';
+import { DEFAULT_TENANT_CONFIG, DEFAULT_TENANT_ID, type TenantConfig } from './tenant';
+import { getCurrentTenantId } from './tenant.server';
+
+export const TENANTS_COLLECTION = 'tenants';
+
+// Tenant settings change rarely; re-read them at most this often per instance
+const CACHE_TTL_MS = 60 * 1000;
+
+const cache = new Map<string, { config: TenantConfig; loadedAt: number }>();
+
+/**
+ * Per-tenant branding, default prompts and license, from the `tenants`
+ * collection. Unset fields fall back to the main library's settings.
+ * Defaults to the current request's tenant.
+ */
+export async function getTenantConfig(tenantId?: string): Promise<TenantConfig> {
+  const id = tenantId ?? await getCurrentTenantId();
+
+  const cached = cache.get(id);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.config;
+
+  let config: TenantConfig = { ...DEFAULT_TENANT_CONFIG, id };
+  try {
+    const { db } = await connectToDatabase();
+    const stored = await db.collection(TENANTS_COLLECTION).findOne({ id }, { projection: { _id: 0 } });
+    if (stored) {
+      config = {
+        ...config,
+        ...stored,
+        branding: {
+          ...DEFAULT_TENANT_CONFIG.branding,
+          site_name: stored.name || DEFAULT_TENANT_CONFIG.branding.site_name,
+          ...stored.branding,
+        },
+      } as TenantConfig;
+    } else if (id !== DEFAULT_TENANT_ID) {
+      console.warn(`[tenant] No configuration for tenant "${id}", using defaults`);
+    }
+  } catch (error) {
+    // Serve defaults rather than failing the page; retried after the TTL
+    console.error('[tenant] Error loading tenant configuration:', error);
+  }
+
+  cache.set(id, { config, loadedAt: Date.now() });
+  return config;
+}
+
+/**
+ * Drop cached configuration after an update so this instance sees it at once.
+ */
+export function invalidateTenantConfig(tenantId: string): void {
+  cache.delete(tenantId);
+}
+
+/**
+ * Fields a new book takes from the tenant it is created in.
+ */
+export function newBookTenantFields(tenant: TenantConfig): { tenant_id: string; license?: string } {
+  return tenant.default_license
+    ? { tenant_id: tenant.id, license: tenant.default_license }
+    : { tenant_id: tenant.id };
+}
@@ -0,0 +1,149 @@
+import type { AnyBulkWriteOperation, Collection, Db, Document, Filter } from 'mongodb';
+import { DEFAULT_TENANT_ID } from './tenant';
+
+/**
+ * Collections whose documents belong to a tenant. The gallery is built from
+ * pages, and the search index and embeddings mirror books and pages, so they
+ * are scoped the same way, as are glossaries, translation memory, page
+ * revision history and review comments. Each tenant has its own webhook
+ * subscriptions, sent only its own events.
+ */
+export const TENANT_SCOPED_COLLECTIONS = [
+  'books',
+  'pages',
+  'jobs',
+  'batch_jobs',
+  'annotations',
+  'deleted_books',
+  'search_documents',
+  'search_stats',
+  'page_embeddings',
+  'glossary',
+  'translation_memory',
+  'page_revisions',
+  'edition_pages',
+  'review_comments',
+  'page_presence',
+  'webhooks',
+  'webhook_deliveries',
+] as const;
+
+const SCOPED = new Set<string>(TENANT_SCOPED_COLLECTIONS);
+
+// Aggregation stages that must stay first in a pipeline
+const LEADING_STAGES = ['$vectorSearch', '$search', '$searchMeta', '$geoNear'];
+
+/**
+ * Query condition selecting a tenant's documents. Documents written before
+ * tenants existed have no tenant_id and belong to the default tenant.
+ */
+export function tenantFilter(tenantId: string): Document {
+  return { tenant_id: tenantId === DEFAULT_TENANT_ID ? { $in: [tenantId, null] } : tenantId };
+}
+
+function scopeFilter<T extends Document>(filter: Filter<T> | undefined, tenantId: string): Filter<T> {
+  return { ...filter, ...tenantFilter(tenantId) } as Filter<T>;
+}
+
+function stamp<T extends Document>(doc: T, tenantId: string): T {
+  (doc as Document).tenant_id = tenantId;
+  return doc;
+}
+
+function scopeUpdate(update: Document | Document[], options: Document | undefined, tenantId: string) {
+  // Upserts can't copy the default tenant's $in condition onto the new document
+  if (!options?.upsert || Array.isArray(update)) return update;
+  // An operator may only touch tenant_id once
+  if (update.$set && 'tenant_id' in update.$set) return { ...update, $set: { ...update.$set, tenant_id: tenantId } };
+  return { ...update, $setOnInsert: { ...update.$setOnInsert, tenant_id: tenantId } };
+}
+
+function scopePipeline(pipeline: Document[] = [], tenantId: string): Document[] {
+  const match = { $match: tenantFilter(tenantId) };
+  const leading = pipeline[0] && LEADING_STAGES.some(stage => stage in pipeline[0]);
+  return leading ? [pipeline[0], match, ...pipeline.slice(1)] : [match, ...pipeline];
+}
+
+function scopeBulkOperation<T extends Document>(op: AnyBulkWriteOperation<T>, tenantId: string): AnyBulkWriteOperation<T> {
+  if ('insertOne' in op) {
+    return { insertOne: { ...op.insertOne, document: stamp(op.insertOne.document, tenantId) } };
+  }
+  if ('updateOne' in op) {
+    const { filter, update, ...rest } = op.updateOne;
+    return { updateOne: { ...rest, filter: scopeFilter(filter, tenantId), update: scopeUpdate(update, rest, tenantId) } };
+  }
+  if ('updateMany' in op) {
+    const { filter, update, ...rest } = op.updateMany;
+    return { updateMany: { ...rest, filter: scopeFilter(filter, tenantId), update: scopeUpdate(update, rest, tenantId) } };
+  }
+  if ('replaceOne' in op) {
+    const { filter, replacement, ...rest } = op.replaceOne;
+    return { replaceOne: { ...rest, filter: scopeFilter(filter, tenantId), replacement: stamp(replacement, tenantId) } };
+  }
+  if ('deleteOne' in op) {
+    return { deleteOne: { ...op.deleteOne, filter: scopeFilter(op.deleteOne.filter, tenantId) } };
+  }
+  return { deleteMany: { ...op.deleteMany, filter: scopeFilter(op.deleteMany.filter, tenantId) } };
+}
+
+/**
+ * Wrap a collection so every read is limited to the tenant's documents and
+ * every write is stamped with its tenant_id. Methods not listed here (index
+ * management, watch, ...) pass through unscoped.
+ */
+function scopeCollection<T extends Document>(collection: Collection<T>, tenantId: string): Collection<T> {
+  /* eslint-disable @typescript-eslint/no-explicit-any -- forwarding the driver's overloaded signatures */
+  const scoped: Record<string, (...args: any[]) => unknown> = {
+    find: (filter, options) => collection.find(scopeFilter(filter, tenantId), options),
+    findOne: (filter, options) => collection.findOne(scopeFilter(filter, tenantId), options),
+    countDocuments: (filter, options) => collection.countDocuments(scopeFilter(filter, tenantId), options),
+    estimatedDocumentCount: () => collection.countDocuments(scopeFilter(undefined, tenantId)),
+    distinct: (key, filter, options) => collection.distinct(key, scopeFilter(filter, tenantId), options),
+    aggregate: (pipeline, options) => collection.aggregate(scopePipeline(pipeline, tenantId), options),
+    insertOne: (doc, options) => collection.insertOne(stamp(doc, tenantId), options),
+    insertMany: (docs, options) => collection.insertMany(docs.map((doc: T) => stamp(doc, tenantId)), options),
+    updateOne: (filter, update, options) =>
+      collection.updateOne(scopeFilter(filter, tenantId), scopeUpdate(update, options, tenantId), options),
+    updateMany: (filter, update, options) =>
+      collection.updateMany(scopeFilter(filter, tenantId), scopeUpdate(update, options, tenantId), options),
+    replaceOne: (filter, replacement, options) =>
+      collection.replaceOne(scopeFilter(filter, tenantId), stamp(replacement, tenantId), options),
+    deleteOne: (filter, options) => collection.deleteOne(scopeFilter(filter, tenantId), options),
+    deleteMany: (filter, options) => collection.deleteMany(scopeFilter(filter, tenantId), options),
+    findOneAndUpdate: (filter, update, options) =>
+      collection.findOneAndUpdate(scopeFilter(filter, tenantId), scopeUpdate(update, options, tenantId), options),
+    findOneAndReplace: (filter, replacement, options) =>
+      collection.findOneAndReplace(scopeFilter(filter, tenantId), stamp(replacement, tenantId), options),
+    findOneAndDelete: (filter, options) => collection.findOneAndDelete(scopeFilter(filter, tenantId), options),
+    bulkWrite: (operations, options) =>
+      collection.bulkWrite(operations.map((op: AnyBulkWriteOperation<T>) => scopeBulkOperation(op, tenantId)), options),
+  };
+  /* eslint-enable @typescript-eslint/no-explicit-any */
+
+  return new Proxy(collection, {
+    get(target, prop) {
+      if (typeof prop === 'string' && Object.hasOwn(scoped, prop)) return scoped[prop];
+      const value = Reflect.get(target, prop);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
+
+/**
+ * A view of the database limited to one tenant. Collections outside
+ * TENANT_SCOPED_COLLECTIONS (prompts, analytics, usage, ...) are shared.
+ */
+export function scopeDb(db: Db, tenantId: string): Db {
+  return new Proxy(db, {
+    get(target, prop) {
+      if (prop === 'collection') {
+        return <T extends Document>(name: string, options?: Parameters<Db['collection']>[1]) => {
+          const collection = target.collection<T>(name, options);
+          return SCOPED.has(name) ? scopeCollection(collection, tenantId) : collection;
+        };
+      }
+      const value = Reflect.get(target, prop);
+      return typeof value === 'function' ? value.bind(target) : value;
+    },
+  });
+}
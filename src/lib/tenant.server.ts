@@ -0,0 +1,70 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { headers } from 'next/headers';
+import { unstable_rethrow } from 'next/navigation';
+import { getAuthUser, isSystemRequest } from '@/lib/auth-guard';
+import { DEFAULT_TENANT_ID, isTenantId, parseTenantHosts, tenantForHost } from './tenant';
+
+// Set by runAsTenant() for work done outside a request
+const tenantOverride = new AsyncLocalStorage<string | null>();
+
+/**
+ * Run fn as the given tenant: getDb() inside it is scoped to that tenant (or
+ * unscoped for null), whatever the current request. Used by the job queue
+ * worker, which runs each tenant's jobs outside any request.
+ */
+export function runAsTenant<T>(tenantId: string | null | undefined, fn: () => T): T {
+  return tenantOverride.run(isTenantId(tenantId) ? tenantId : null, fn);
+}
+
+/**
+ * The tenant whose data the current request may see, or null when queries
+ * should not be scoped at all.
+ *
+ * - Partner domains map to their tenant (TENANT_HOSTS). In development the
+ *   proxy's ?tenant= override comes through as x-tenant-id.
+ * - On the main domain, signed-in staff of a partner library (or their API
+ *   keys) work in their own tenant (the `tenant_id` on their user record).
+ * - Cron jobs and other system requests sweep every tenant, unless the caller
+ *   names one with an `x-internal-tenant` header (see internalRequestHeaders).
+ * - Outside a request (scripts, build time) nothing is scoped.
+ * - Inside runAsTenant() the given tenant wins over all of the above.
+ */
+export async function getTenantId(): Promise<string | null> {
+  const override = tenantOverride.getStore();
+  if (override !== undefined) return override;
+
+  let headersList: Awaited<ReturnType<typeof headers>>;
+  try {
+    headersList = await headers();
+  } catch (error) {
+    // Let Next.js see its own dynamic-rendering signals
+    unstable_rethrow(error);
+    return null;
+  }
+
+  if (await isSystemRequest()) {
+    const internal = headersList.get('x-internal-tenant');
+    return isTenantId(internal) ? internal : null;
+  }
+
+  // Mapped from the host here rather than trusted from the proxy's header:
+  // the proxy skips paths with a dot in them, where a client could send
+  // x-tenant-id itself
+  const devTenant = process.env.NODE_ENV !== 'production' ? headersList.get('x-tenant-id') : null;
+  const hostTenant = isTenantId(devTenant)
+    ? devTenant
+    : tenantForHost(parseTenantHosts(process.env.TENANT_HOSTS), headersList.get('host'));
+  if (hostTenant !== DEFAULT_TENANT_ID) {
+    return hostTenant;
+  }
+
+  const userTenant = (await getAuthUser())?.tenant_id;
+  return isTenantId(userTenant) ? userTenant : DEFAULT_TENANT_ID;
+}
+
+/**
+ * The tenant new books, pages and jobs created by this request belong to.
+ */
+export async function getCurrentTenantId(): Promise<string> {
+  return (await getTenantId()) ?? DEFAULT_TENANT_ID;
+}
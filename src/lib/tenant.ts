@@ -0,0 +1,65 @@
+import type { PromptType } from './types/prompt';
+
+/**
+ * Tenants let partner libraries share one deployment. Every book, page, job
+ * and annotation carries the `tenant_id` of the library it belongs to, and
+ * requests only see their own tenant's documents (see tenant-db.ts).
+ *
+ * Shared by the proxy, the server and the client, so keep this module free
+ * of server-only imports.
+ */
+
+export const DEFAULT_TENANT_ID = 'default';
+
+export interface TenantBranding {
+  site_name: string;
+  site_description: string;
+}
+
+export interface TenantConfig {
+  id: string;
+  name: string;
+  branding: TenantBranding;
+  // Prompt names (see the prompts collection) used when a request doesn't pick one
+  default_prompts?: Partial<Record<PromptType, string>>;
+  // SPDX identifier given to new books and editions, e.g. "CC-BY-4.0"
+  default_license?: string;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export const DEFAULT_TENANT_CONFIG: TenantConfig = {
+  id: DEFAULT_TENANT_ID,
+  name: 'Source Library',
+  branding: {
+    site_name: 'Source Library',
+    site_description: 'Digitizing and translating rare Hermetic and esoteric texts',
+  },
+};
+
+const TENANT_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+
+export function isTenantId(value: unknown): value is string {
+  return typeof value === 'string' && TENANT_ID_PATTERN.test(value);
+}
+
+/**
+ * Parse the TENANT_HOSTS setting, a comma-separated list of `host=tenant`
+ * pairs (e.g. "library.partner.edu=partner,partner.local=partner").
+ */
+export function parseTenantHosts(value: string | undefined): Map<string, string> {
+  const hosts = new Map<string, string>();
+  for (const entry of (value || '').split(',')) {
+    const [host, tenant] = entry.split('=').map(s => s.trim().toLowerCase());
+    if (host && isTenantId(tenant)) hosts.set(host, tenant);
+  }
+  return hosts;
+}
+
+/**
+ * The tenant a request to `host` belongs to: the partner library mapped to
+ * it in TENANT_HOSTS (see parseTenantHosts), else the default tenant.
+ */
+export function tenantForHost(tenantHosts: Map<string, string>, host: string | null | undefined): string {
+  return tenantHosts.get((host || '').split(':')[0].toLowerCase()) || DEFAULT_TENANT_ID;
+}
@@ -0,0 +1,13 @@
+/**
+ * Version tokens for page text, computed the same way in the browser and
+ * on the server so the editor can say which text an edit started from.
+ */
+
+/**
+ * A short fingerprint of a field's text (first 16 hex digits of its SHA-256).
+ * Missing text counts as empty.
+ */
+export async function textVersion(text: string | null | undefined): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(text || ''));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('').slice(0, 16);
+}
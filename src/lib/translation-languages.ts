@@ -0,0 +1,126 @@
+/**
+ * Target languages for translations.
+ *
+ * English is the library's default target and stays in `Page.translation`,
+ * with its progress in `Book.pages_translated`/`translation_percent`. Every
+ * other target language lives in `Page.translations` and
+ * `Book.translation_progress`, keyed by its BCP 47 code, so code that only
+ * knows about `translation` keeps seeing the English text.
+ *
+ * Shared by the API and the reader, so nothing here may import server-only
+ * modules.
+ */
+
+import type { Db } from 'mongodb';
+import {
+  getLanguageCodes,
+  type Page,
+  type TranslationData,
+  type TranslationEdition,
+  type TranslationProgress,
+} from '@/lib/types';
+
+export const DEFAULT_TARGET_LANGUAGE = 'en';
+
+/** Languages pages can be translated into, by BCP 47 code */
+export const TARGET_LANGUAGES: Record<string, string> = {
+  en: 'English',
+  de: 'German',
+  fr: 'French',
+  it: 'Italian',
+  es: 'Spanish',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+  pl: 'Polish',
+  cs: 'Czech',
+  sv: 'Swedish',
+  da: 'Danish',
+};
+
+type PageTranslations = Pick<Page, 'translation' | 'translations'>;
+
+/**
+ * Resolve a target language given as a code ("it") or a name ("Italian")
+ * to its code. Missing values mean English; unsupported ones return null.
+ */
+export function resolveTargetLanguage(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') return DEFAULT_TARGET_LANGUAGE;
+  if (typeof value !== 'string') return null;
+  const code = getLanguageCodes(value)?.bcp47;
+  return code && code in TARGET_LANGUAGES ? code : null;
+}
+
+export function targetLanguageName(code: string | null | undefined): string {
+  return TARGET_LANGUAGES[code || DEFAULT_TARGET_LANGUAGE] || TARGET_LANGUAGES[DEFAULT_TARGET_LANGUAGE];
+}
+
+/** Where a page keeps its translation into `code` ("translation" or "translations.<code>") */
+export function translationPath(code: string): string {
+  return code === DEFAULT_TARGET_LANGUAGE ? 'translation' : `translations.${code}`;
+}
+
+/** Where a book keeps a translation counter for `code` */
+export function translationProgressPath(code: string, counter: keyof TranslationProgress): string {
+  return code === DEFAULT_TARGET_LANGUAGE ? counter : `translation_progress.${code}.${counter}`;
+}
+
+/** Filter for pages that have a translation into `code` */
+export function translatedFilter(code: string): Record<string, unknown> {
+  return { [`${translationPath(code)}.data`]: { $exists: true, $nin: [null, ''] } };
+}
+
+/** Filter for prompts written for `code`; prompts without a target language are English */
+export function promptLanguageFilter(code: string): Record<string, unknown> {
+  return { target_language: code === DEFAULT_TARGET_LANGUAGE ? { $in: [null, DEFAULT_TARGET_LANGUAGE] } : code };
+}
+
+export function getTranslation(page: PageTranslations, code: string): TranslationData | undefined {
+  return code === DEFAULT_TARGET_LANGUAGE ? page.translation : page.translations?.[code];
+}
+
+/**
+ * The page with its translation into `code` in place of the English one, for
+ * the exports, editions and conflict checks that read `page.translation`.
+ */
+export function withTranslation<T extends PageTranslations>(page: T, code: string): T {
+  return code === DEFAULT_TARGET_LANGUAGE ? page : { ...page, translation: page.translations?.[code] };
+}
+
+/** Target languages the page has a translation into, English first */
+export function pageTranslationLanguages(page: PageTranslations): string[] {
+  return Object.keys(TARGET_LANGUAGES).filter(code => getTranslation(page, code)?.data);
+}
+
+/** The language an edition is a translation into; editions from before there was a choice are English */
+export function editionLanguage(edition: Pick<TranslationEdition, 'citation'>): string {
+  return edition.citation?.target_language || DEFAULT_TARGET_LANGUAGE;
+}
+
+/**
+ * Recount a book's translated pages in one target language and store the
+ * counters where readers of that language look for them.
+ */
+export async function updateTranslationProgress(db: Db, bookId: string, code: string): Promise<TranslationProgress> {
+  const [total, translated] = await Promise.all([
+    db.collection('pages').countDocuments({ book_id: bookId }),
+    db.collection('pages').countDocuments({ book_id: bookId, ...translatedFilter(code) }),
+  ]);
+  const progress: TranslationProgress = {
+    pages_translated: translated,
+    translation_percent: total > 0 ? Math.round((translated / total) * 100) : 0,
+  };
+  const now = new Date();
+  await db.collection('books').updateOne(
+    { id: bookId },
+    {
+      $set: {
+        ...(code === DEFAULT_TARGET_LANGUAGE
+          ? progress
+          : { [`translation_progress.${code}`]: { ...progress, updated_at: now } }),
+        last_translation_at: now,
+        updated_at: now,
+      },
+    }
+  );
+  return progress;
+}
@@ -5,7 +5,7 @@
  * Supports audience targeting and multiple voice styles for heavy curation workflows.
  */
 
-import { getGeminiClient, reportRateLimitError, getNextApiKey } from './gemini-client';
+import { generateText } from './ai';
 import Anthropic from '@anthropic-ai/sdk';
 import { DetectedImage } from './types';
 
@@ -298,20 +298,8 @@ export async function generateTweetVariations(
  * Generate variations using Gemini
  */
 async function generateWithGemini(prompt: string): Promise<TweetVariation[]> {
-  const apiKey = getNextApiKey();
-  const genAI = getGeminiClient();
-  const model = genAI.getGenerativeModel({ model: 'gemini-3-flash-preview' });
-
-  try {
-    const result = await model.generateContent(prompt);
-    const text = result.response.text();
-    return parseVariationsFromText(text);
-  } catch (error) {
-    if (error instanceof Error && error.message.includes('429')) {
-      reportRateLimitError(apiKey);
-    }
-    throw error;
-  }
+  const { text } = await generateText(prompt, 'gemini-3-flash-preview');
+  return parseVariationsFromText(text);
 }
 
 /**
@@ -25,6 +25,7 @@ export type AnnotationStatus = 'pending' | 'approved' | 'hidden';
 export interface Annotation {
   id: string;
   _id?: string;
+  tenant_id?: string;  // Set by the tenant-scoped data layer; missing on older annotations
   book_id: string;
   page_id: string;
   page_number: number;
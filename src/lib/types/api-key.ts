@@ -0,0 +1,34 @@
+/**
+ * Personal API key types
+ */
+
+/**
+ * What a key may do on its owner's behalf. Each scope unlocks the actions
+ * guarded at one role (see API_KEY_SCOPE_ROLES); the owner must still hold
+ * that role.
+ */
+export type ApiKeyScope = 'read' | 'contribute' | 'edit' | 'curate' | 'admin';
+
+/**
+ * A key a signed-in user created to call the API (e.g. from the MCP server)
+ * as themselves. Only a hash of the secret is stored.
+ */
+export interface ApiKey {
+  id: string;
+  user_id: string;
+  name: string;
+  prefix: string;                   // First characters of the secret, to tell keys apart
+  key_hash: string;                 // SHA-256 of the full secret
+  scopes: ApiKeyScope[];
+  rate_limit: number;               // Requests per minute
+  daily_quota: number;              // Requests per UTC day
+  created_at: Date;
+  last_used_at?: Date;
+  expires_at?: Date;
+  revoked_at?: Date;
+}
+
+/**
+ * An API key as shown to its owner (never includes the hash)
+ */
+export type ApiKeySummary = Omit<ApiKey, 'key_hash'>;
@@ -0,0 +1,55 @@
+/**
+ * Types for machine-readable bibliographic exports (MARCXML, BibTeX, RIS,
+ * CSL-JSON) of books, translation editions and pages
+ */
+
+export type BibliographicFormat = 'marcxml' | 'bibtex' | 'ris' | 'csl-json';
+
+/**
+ * Which work a record describes: the original printed book, or Source
+ * Library's translation of it
+ */
+export type BibliographicRecordType = 'original' | 'translation';
+
+export interface CslName {
+  family?: string;
+  given?: string;
+  literal?: string;              // Names we cannot split ("Paracelsus", "Source Library")
+}
+
+export interface CslDate {
+  'date-parts'?: [[number, number?, number?]];
+  literal?: string;              // "ca. 1600", "n.d."
+}
+
+/**
+ * The subset of CSL-JSON we produce. BibTeX and RIS are derived from it.
+ * See: https://citeproc-js.readthedocs.io/en/latest/csl-json/markup.html
+ */
+export interface CslItem {
+  id: string;
+  type: 'book';
+  title: string;
+  'original-title'?: string;
+  author?: CslName[];
+  translator?: CslName[];
+  editor?: CslName[];
+  issued?: CslDate;
+  'original-date'?: CslDate;
+  publisher?: string;
+  'publisher-place'?: string;
+  'original-publisher'?: string;
+  'original-publisher-place'?: string;
+  language?: string;             // BCP 47
+  medium?: string;               // Bibliographic format: "folio", "quarto"
+  'number-of-pages'?: number;
+  page?: string;                 // Set when citing a single page
+  version?: string;
+  DOI?: string;
+  URL?: string;
+  accessed?: CslDate;
+  license?: string;
+  abstract?: string;
+  keyword?: string;
+  note?: string;                 // "USTC 2029384"
+}
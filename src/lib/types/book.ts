@@ -2,6 +2,7 @@ import { DublinCoreMetadata } from "./dublin-core";
 import { ImageSource } from "./image-source";
 import { TranslationEdition } from "./edition";
 import { PipelineState } from "./pipeline";
+import type { ReviewPolicy } from "./review";
 
 export interface Book {
   id: string;
@@ -29,6 +30,7 @@ export interface Book {
   pages_translated?: number;  // Number of pages with translations
   pages_ocr?: number;         // Number of pages with OCR
   translation_percent?: number; // Percentage of pages translated (0-100)
+  translation_progress?: Record<string, TranslationProgress>;  // The same for languages other than English, by BCP 47 code
   created_at?: Date;
   updated_at?: Date;
   last_processed?: Date;  // Last OCR or translation update
@@ -88,6 +90,9 @@ export interface Book {
   editions?: TranslationEdition[];
   current_edition_id?: string;    // Most recent published edition
 
+  // Proofreading rules (sign-offs needed, approved pages required to publish)
+  review_policy?: Partial<ReviewPolicy>;
+
   // Automated processing pipeline state
   pipeline?: PipelineState;
 
@@ -108,6 +113,13 @@ export interface Book {
 
 export type BookStatus = 'draft' | 'in_progress' | 'complete' | 'published';
 
+// Translation counters for one target language
+export interface TranslationProgress {
+  pages_translated: number;
+  translation_percent: number;   // 0-100
+  updated_at?: Date;
+}
+
 export interface BookSummary {
   data: string;
   generated_at: Date;
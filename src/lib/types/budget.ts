@@ -0,0 +1,87 @@
+/**
+ * AI cost budget and spend types
+ */
+
+export type BudgetScope = 'global' | 'tenant' | 'book' | 'user';
+
+// Spend is summed over the current UTC day or month, or since the start
+export type BudgetPeriod = 'day' | 'month' | 'total';
+
+/**
+ * A spending limit on AI processing. Past the soft limit runs need the
+ * caller's confirmation; past the hard limit they are refused.
+ */
+export interface Budget {
+  id: string;
+  scope: BudgetScope;
+  scope_id?: string;                // Tenant, book or user id; unset for global
+  period: BudgetPeriod;
+  soft_limit_usd?: number;
+  hard_limit_usd?: number;
+  note?: string;
+  created_by?: string;
+  created_at: Date;
+  updated_at?: Date;
+}
+
+export type SpendAction = 'ocr' | 'translation' | 'summary';
+
+/**
+ * One AI call's cost, as recorded in the `ai_spend` ledger
+ */
+export interface SpendRecord {
+  id: string;
+  tenant_id: string;
+  book_id?: string;
+  page_id?: string;
+  user_id?: string;
+  job_id?: string;
+  action: SpendAction;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  batch_api?: boolean;
+  created_at: Date;
+}
+
+/**
+ * Expected cost of running OCR or translation over a number of pages
+ */
+export interface CostEstimate {
+  action: 'ocr' | 'translation';
+  model: string;
+  language: string;
+  pages: number;
+  input_tokens_per_page: number;
+  output_tokens_per_page: number;
+  cost_usd: number;
+  batch_api: boolean;
+  // 'history' when averaged from this library's pages, 'default' otherwise
+  basis: 'history' | 'default';
+  sample_size: number;
+}
+
+/**
+ * Where one budget would stand after a run
+ */
+export interface BudgetStanding {
+  budget_id: string;
+  scope: BudgetScope;
+  scope_id?: string;
+  period: BudgetPeriod;
+  spent_usd: number;                // Recorded spend this period
+  committed_usd: number;            // Estimated cost of unfinished jobs
+  projected_usd: number;            // spent + committed + this run
+  soft_limit_usd?: number;
+  hard_limit_usd?: number;
+  exceeds: 'soft' | 'hard' | null;
+}
+
+export interface BudgetCheck {
+  allowed: boolean;                 // No hard limit would be exceeded
+  needs_confirmation: boolean;      // A soft limit would be exceeded
+  estimate_usd: number;
+  standings: BudgetStanding[];
+  message?: string;
+}
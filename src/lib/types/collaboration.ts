@@ -0,0 +1,33 @@
+/**
+ * Types for several people editing the same page: version checks on save
+ * and who else has the page open
+ */
+
+export type EditableField = 'ocr' | 'translation' | 'summary';
+
+/**
+ * Versions of the page text an edit started from, as returned by
+ * `textVersion()`. A save is refused if the stored text has moved on.
+ */
+export type BaseVersions = Partial<Record<EditableField, string>>;
+
+/**
+ * A field someone else saved after the editor loaded it
+ */
+export interface EditConflict {
+  field: EditableField;
+  base_version: string;          // The version the edit started from
+  current_version: string;
+  current: string;               // The text now stored
+  edited_by?: string;
+  updated_at?: Date;
+}
+
+export interface PagePresence {
+  page_id: string;
+  user_key: string;              // User id, or "name:<name>" for system requests
+  user_id?: string;
+  name: string;
+  field?: EditableField;         // The field being edited, if known
+  seen_at: Date;
+}
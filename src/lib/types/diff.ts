@@ -0,0 +1,81 @@
+/**
+ * Text diff types for reviewing changes between versions of a page's
+ * OCR or translation
+ */
+
+export type DiffField = 'ocr' | 'translation';
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+/**
+ * A version of a page's text: `current`, `snapshot:<id>` or `edition:<id>`
+ */
+export type TextVersionRef = 'current' | `snapshot:${string}` | `edition:${string}`;
+
+export interface TextVersion {
+  ref: TextVersionRef;
+  label: string;                 // "Current (AI)", "Snapshot before OCR, 3/2/2026", "Edition 1.0.0"
+  created_at?: Date;
+}
+
+export interface DiffLine {
+  op: DiffOp;
+  text: string;                  // The line as written, markup included
+  from_line?: number;            // 1-based line number in the "from" text
+  to_line?: number;              // 1-based line number in the "to" text
+  hunk?: number;                 // Index of the hunk a changed line belongs to
+}
+
+export interface DiffWord {
+  op: DiffOp;
+  text: string;                  // A word, or "\n" between lines
+}
+
+/**
+ * A run of changed lines. Hunks can be accepted (keep the "to" lines) or
+ * rejected (put the "from" lines back) one at a time.
+ */
+export interface DiffHunk {
+  index: number;
+  from_start: number;            // 1-based; where the hunk starts in the "from" text
+  from_lines: string[];
+  to_start: number;
+  to_lines: string[];
+  words: DiffWord[];             // Word-level changes within the hunk, markup ignored
+}
+
+export interface DiffStats {
+  lines_added: number;
+  lines_removed: number;
+  words_added: number;
+  words_removed: number;
+}
+
+export interface TextDiff {
+  lines: DiffLine[];
+  hunks: DiffHunk[];
+  stats: DiffStats;
+}
+
+export interface PageDiff extends TextDiff {
+  page_id: string;
+  field: DiffField;
+  from: TextVersion;
+  to: TextVersion;
+  hash: string;                  // Identifies the two texts; required to apply a review
+}
+
+/**
+ * A stretch of a three-way merge: lines both sides agree on, or a place
+ * where the two edits of the same base text collide.
+ */
+export type MergeChunk =
+  | { type: 'clean'; lines: string[] }
+  | { type: 'conflict'; index: number; base: string[]; mine: string[]; theirs: string[] };
+
+export type MergeChoice = 'mine' | 'theirs' | 'both';
+
+export interface MergeResult {
+  chunks: MergeChunk[];
+  conflicts: number;             // Number of conflict chunks
+}
@@ -0,0 +1,64 @@
+/**
+ * Project glossary and translation memory types
+ */
+
+export type GlossaryScope = 'book' | 'collection';
+
+// Where a glossary entry came from
+export type GlossaryOrigin = 'manual' | 'vocabulary' | 'encyclopedia';
+
+/**
+ * A term that must be rendered the same way on every page of a book, or of
+ * every book in a curated collection
+ */
+export interface GlossaryEntry {
+  id: string;
+  scope: GlossaryScope;
+  scope_id: string;                 // Book id, or curator-data collection id
+
+  source_term: string;              // "quinta essentia"
+  source_variants?: string[];       // Other spellings in the original: ["quintessentia"]
+  target_language: string;          // "English"
+  target_term: string;              // "fifth essence"
+  allowed_renderings?: string[];    // Also acceptable: ["quintessence"]
+  note?: string;                    // Shown to the translator
+
+  origin: GlossaryOrigin;
+  encyclopedia_id?: string;         // When seeded from an encyclopedia entry
+
+  created_by?: string;
+  created_at: Date;
+  updated_at?: Date;
+}
+
+/**
+ * An approved source/target segment pair (usually a paragraph)
+ */
+export interface TranslationMemorySegment {
+  id: string;
+  book_id: string;
+  page_id: string;
+  source_language: string;
+  target_language: string;
+  source_text: string;
+  target_text: string;
+  approved_by?: string;
+  created_at: Date;
+}
+
+export interface TranslationMemoryMatch {
+  source_text: string;
+  target_text: string;
+  book_id: string;
+  page_id: string;
+  score: number;                    // Share of the segment's words found on the page (0-1)
+}
+
+/**
+ * Glossary entries and memory segments relevant to one text, injected into
+ * the translation prompt
+ */
+export interface TranslationGuidance {
+  glossary: GlossaryEntry[];
+  memory: TranslationMemoryMatch[];
+}
@@ -7,7 +7,17 @@ export * from './dublin-core';
 export * from './image-source';
 export * from './edition';
 export * from './annotation';
+export * from './glossary';
 export * from './social';
 export * from './likes';
 export * from './prompts';
-export * from './language';
\ No newline at end of file
+export * from './language';
+export * from './budget';
+export * from './diff';
+export * from './revision';
+export * from './review';
+export * from './collaboration';
+export * from './oai';
+export * from './bibliographic';
+export * from './api-key';
+export * from './webhook';
@@ -1,3 +1,5 @@
+import { CostEstimate } from "./budget";
+
 export type JobType = 
     'ocr'|
     'translate' |
@@ -16,7 +18,32 @@ export type JobStatus =
     'paused' |
     'completed' |
     'failed' |
-    'cancelled';
+    'cancelled' |
+    'dead';  // Gave up after max_attempts; kept for inspection until retried
+
+/**
+ * The job state machine: which statuses a job may move to from each status.
+ * The queue (src/lib/queue) and the job control routes only make these moves.
+ */
+export const JOB_TRANSITIONS: Record<JobStatus, readonly JobStatus[]> = {
+  pending: ['processing', 'paused', 'cancelled'],
+  processing: ['paused', 'completed', 'failed', 'cancelled', 'dead'],
+  paused: ['pending', 'cancelled'],
+  completed: [],
+  failed: ['pending', 'cancelled'],
+  cancelled: ['pending'],
+  dead: ['pending'],
+};
+
+export function isValidJobTransition(from: JobStatus, to: JobStatus): boolean {
+  return JOB_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/** Who holds a job while it runs; lapses unless the worker heartbeats */
+export interface JobLease {
+  owner: string;
+  expires_at: Date;
+}
 
 export interface JobProgress {
   total: number;
@@ -49,25 +76,39 @@ export interface WorkflowState {
 export interface Job {
   _id?: unknown;
   id: string;
+  tenant_id?: string;  // Set by the tenant-scoped data layer; missing on older jobs
   type: JobType;
   status: JobStatus;
   progress: JobProgress;
   book_id?: string;
   book_title?: string;
   initiated_by?: string;  // Name/email of user who started the job
+  user_id?: string;  // Signed-in user who started it; their budget is charged
+  cost_estimate?: CostEstimate;  // Pre-flight estimate (see src/lib/budgets)
   created_at: Date;
   updated_at: Date;
   started_at?: Date;
   completed_at?: Date;
   error?: string;
   results: JobResult[];
+  // Queue bookkeeping (see src/lib/queue)
+  priority?: number;  // Higher runs first; default 0
+  attempts?: number;  // Failed runs since the last successful slice
+  max_attempts?: number;  // Dead-lettered after this many; default 5
+  run_after?: Date;  // Not claimed before this time (retry backoff, Batch API polling)
+  lease?: JobLease | null;
+  heartbeat_at?: Date;
   workflow_state?: WorkflowState;  // For resumable processing
   config: {
     model?: string;
     prompt_name?: string;
+    custom_prompt?: string;  // Prompt text edited for this run, used instead of prompt_name's
     language?: string;
+    target_language?: string;  // Translation jobs: BCP 47 code of the output language (default "en")
     page_ids?: string[];
     use_batch_api?: boolean;
+    layout?: boolean;  // Also locate OCR lines and words on the image
+    overwrite?: boolean;  // false: skip pages that already have OCR, a translation or detected images
     [key: string]: unknown;
   };
   // Gemini Batch API job name (for async processing)
@@ -83,4 +124,4 @@ export interface Job {
   }>;
   // Batch processing phase
   batch_phase?: 'preparing' | 'submitted' | 'completed';
-}
\ No newline at end of file
+}
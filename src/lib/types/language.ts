@@ -12,4 +12,50 @@ export function isRTLLanguage(language: string | null | undefined): boolean {
   return RTL_LANGUAGES.some(rtl =>
     language.toLowerCase().includes(rtl.toLowerCase())
   );
-}
\ No newline at end of file
+}
+
+// Language codes for metadata exports (TEI xml:lang, MARC 008/041, Dublin Core)
+// bcp47 = IETF/ISO 639-1 where available, marc = MARC/ISO 639-2 bibliographic code
+export const LANGUAGE_CODES: Record<string, { bcp47: string; marc: string }> = {
+  latin: { bcp47: 'la', marc: 'lat' },
+  greek: { bcp47: 'grc', marc: 'grc' },
+  hebrew: { bcp47: 'he', marc: 'heb' },
+  aramaic: { bcp47: 'arc', marc: 'arc' },
+  syriac: { bcp47: 'syr', marc: 'syr' },
+  arabic: { bcp47: 'ar', marc: 'ara' },
+  persian: { bcp47: 'fa', marc: 'per' },
+  german: { bcp47: 'de', marc: 'ger' },
+  dutch: { bcp47: 'nl', marc: 'dut' },
+  english: { bcp47: 'en', marc: 'eng' },
+  french: { bcp47: 'fr', marc: 'fre' },
+  italian: { bcp47: 'it', marc: 'ita' },
+  spanish: { bcp47: 'es', marc: 'spa' },
+  portuguese: { bcp47: 'pt', marc: 'por' },
+  czech: { bcp47: 'cs', marc: 'cze' },
+  polish: { bcp47: 'pl', marc: 'pol' },
+  swedish: { bcp47: 'sv', marc: 'swe' },
+  danish: { bcp47: 'da', marc: 'dan' },
+  sanskrit: { bcp47: 'sa', marc: 'san' },
+  chinese: { bcp47: 'zh', marc: 'chi' },
+};
+
+/**
+ * Resolve a free-text language name ("Latin", "Latin with Greek passages", "de")
+ * to its codes. Uses the first language mentioned in the string.
+ */
+export function getLanguageCodes(language: string | null | undefined): { bcp47: string; marc: string } | undefined {
+  if (!language) return undefined;
+  const lower = language.toLowerCase().trim();
+
+  const byCode = Object.values(LANGUAGE_CODES).find(c => c.bcp47 === lower || c.marc === lower);
+  if (byCode) return byCode;
+
+  let best: { index: number; codes: { bcp47: string; marc: string } } | undefined;
+  for (const [name, codes] of Object.entries(LANGUAGE_CODES)) {
+    const index = lower.indexOf(name);
+    if (index !== -1 && (!best || index < best.index)) {
+      best = { index, codes };
+    }
+  }
+  return best?.codes;
+}
@@ -0,0 +1,55 @@
+/**
+ * OAI-PMH 2.0 types for the harvesting endpoint
+ * See: https://www.openarchives.org/OAI/openarchivesprotocol.html
+ */
+
+export type OaiVerb =
+  | 'Identify'
+  | 'ListMetadataFormats'
+  | 'ListSets'
+  | 'ListIdentifiers'
+  | 'ListRecords'
+  | 'GetRecord';
+
+export type OaiErrorCode =
+  | 'badArgument'
+  | 'badResumptionToken'
+  | 'badVerb'
+  | 'cannotDisseminateFormat'
+  | 'idDoesNotExist'
+  | 'noRecordsMatch'
+  | 'noMetadataFormats'
+  | 'noSetHierarchy';
+
+export type OaiMetadataPrefix = 'oai_dc' | 'mods';
+
+export interface OaiSet {
+  spec: string;                  // "category:alchemy", "collection:alchemy-hermetica"
+  name: string;
+  description?: string;
+}
+
+/**
+ * A book as harvesters see it: its identifier, when it last changed, the
+ * sets it belongs to, and whether it has been deleted
+ */
+export interface OaiHeader {
+  identifier: string;            // "oai:sourcelibrary.org:<book id>"
+  datestamp: Date;
+  sets: string[];
+  deleted?: boolean;
+}
+
+/**
+ * Where a list response stopped. Encoded into the resumptionToken, so the
+ * provider keeps no state between requests.
+ */
+export interface OaiResumptionState {
+  verb: 'ListIdentifiers' | 'ListRecords';
+  metadataPrefix: OaiMetadataPrefix;
+  set?: string;
+  from?: string;                 // ISO dates
+  until?: string;
+  cursor: number;                // Records returned before this page
+  after: { datestamp: string; id: string };
+}
@@ -1,4 +1,5 @@
 import { PromptReference } from "./prompt";
+import type { PageReview } from "./review";
 
 export interface Page {
   id: string;
@@ -9,9 +10,11 @@ export interface Page {
   thumbnail?: string;
   compressed_photo?: string;
   ocr?: OcrData;
-  translation?: TranslationData;
+  translation?: TranslationData;   // English translation
+  translations?: Record<string, TranslationData>;  // Translations into other languages, by BCP 47 code
   summary?: SummaryData;
   modernized?: ModernizedData;  // Modernized text for reading dashboard
+  review?: PageReview;          // Proofreading state of the OCR and translation
   created_at?: Date;
   updated_at?: Date;
 
@@ -27,6 +30,10 @@ export interface Page {
   cropped_photo?: string;       // Local path to cropped image
   archived_photo?: string;      // Vercel Blob URL for archived IA images
   crop?: CropData;              // Crop coordinates used
+  original_dimensions?: {      // Pixel size of photo_original, recorded when it is cropped (for IIIF manifests)
+    width: number;
+    height: number;
+  };
   split_from?: string;          // ID of parent page if this was split from another
   split_detection?: {           // Pixel analysis result
     isTwoPageSpread: boolean;
@@ -71,6 +78,36 @@ export interface OcrData extends ProcessingMetadata {
   source?: ContentSource;     // 'ai' = generated by AI, 'manual' = edited by user
   edited_by?: string;         // User name who made the edit
   edited_at?: Date;           // When the manual edit was made
+  // Line and word positions on the scan (requested with the OCR `layout` option)
+  layout?: OcrLayout;
+}
+
+// Bounding box in the 0-1000 space of CropData, relative to the image that
+// was OCR'd (the cropped half for split pages)
+export interface OcrBox {
+  xStart: number;
+  yStart: number;
+  xEnd: number;
+  yEnd: number;
+}
+
+export interface OcrWord {
+  text: string;
+  box: OcrBox;
+}
+
+export interface OcrLine {
+  text: string;
+  box: OcrBox;
+  words: OcrWord[];
+}
+
+export interface OcrLayout {
+  lines: OcrLine[];
+  model: string;
+  width?: number;             // Pixel size of the OCR'd image, for ALTO/hOCR output
+  height?: number;
+  created_at: Date;
 }
 
 export interface TranslationData extends ProcessingMetadata {
@@ -101,9 +138,10 @@ export interface SummaryData extends ProcessingMetadata {
 // ============================================
 
 /**
- * Snapshot of page content before AI re-processing.
- * Created automatically when re-processing a page that has manual edits.
- * Allows restoring manually-edited content if AI output is worse.
+ * Snapshot of page content before AI re-processing or a review.
+ * Created automatically when re-processing a page: the field about to be
+ * overwritten is kept, along with any manual edits. Allows diffing the new
+ * output against the old and restoring it if the new output is worse.
  */
 export interface PageSnapshot {
   id: string;
@@ -112,11 +150,12 @@ export interface PageSnapshot {
   book_id: string;
 
   // What triggered the snapshot
-  snapshot_type: 'pre_ocr' | 'pre_translate' | 'pre_summary' | 'manual_backup';
+  snapshot_type: 'pre_ocr' | 'pre_translate' | 'pre_summary' | 'pre_review' | 'manual_backup';
 
   // The content that was saved
   ocr_data?: string;
   translation_data?: string;
+  target_language?: string;   // BCP 47 code of translation_data, when not English
   summary_data?: string;
 
   // Who had edited this content
@@ -178,7 +217,7 @@ export interface DetectedImage {
   extracted_url?: string;       // URL to extracted/cropped image (future)
   detected_at?: Date;
   detection_source: 'ocr_tag' | 'vision_model' | 'manual';
-  model?: 'gemini' | 'mistral' | 'grounding-dino';
+  model?: string;               // Detector: 'gemini', 'mistral', 'grounding-dino', or the vision model's id
   confidence?: number;
   status?: DetectionStatus;     // Review status: pending (default), approved, rejected
   reviewed_at?: Date;
@@ -24,6 +24,7 @@ export interface PipelineStepState {
 export interface PipelineConfig {
   model: string;
   language: string;
+  targetLanguage?: string;  // BCP 47 code of the translation language (default "en")
   license: string;
   useBatchApi?: boolean;
 }
@@ -31,6 +31,7 @@ export interface Prompt {
   variables?: string[];                   // Variables used, e.g., ["language"]
   description?: string;                   // Human-readable description
   is_default?: boolean;                   // Is this the default prompt for this type?
+  target_language?: string;               // Translation prompts: BCP 47 code of the output language (default "en")
   created_at?: Date;
   updated_at?: Date;                      // Legacy field
   created_by?: string;                    // User who created this version
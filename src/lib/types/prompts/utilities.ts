@@ -27,4 +27,22 @@ export function extractPageNumber(text: string): number | null {
   // Fall back to old bracket syntax for backward compatibility
   const bracketMatch = text.match(/\[\[page\s*number:\s*(\d+)\]\]/i);
   return bracketMatch ? parseInt(bracketMatch[1], 10) : null;
-}
\ No newline at end of file
+}
+// Reduce annotated OCR/translation text to plain reading text.
+// Hidden metadata tags are removed with their content; display tags are
+// unwrapped so their content stays inline; Markdown emphasis and headings are dropped.
+export function stripAnnotationTags(text: string): string {
+  return text
+    .replace(/^```(?:markdown)?\s*\n?/i, '')
+    .replace(/\n?```\s*$/i, '')
+    .replace(/<(lang|page-num|folio|sig|header|meta|warning|abbrev|vocab|summary|keywords)>[\s\S]*?<\/\1>/gi, '')
+    .replace(/\[\[(?:language|page\s*number|folio|signature|warning|meta|abbrev|vocabulary|summary|keywords):[\s\S]*?\]\]/gi, '')
+    .replace(/\[\[(?:notes?|margin|gloss):\s*([\s\S]*?)\]\]/gi, '$1')
+    .replace(/<\/?(?:note|margin|gloss|insert|unclear|term|image-desc)>/gi, '')
+    .replace(/!\[.*?\]\(.*?\)/g, '')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/\*{1,3}([^*\n]+?)\*{1,3}/g, '$1')
+    .replace(/->(.+?)<-/g, '$1')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,98 @@
+/**
+ * Proofreading workflow types: per-page review states, reviewer sign-off
+ * and page comment threads
+ */
+
+import type { DiffField } from './diff';
+
+// Review state of a page's OCR or translation
+export type ReviewState = 'unreviewed' | 'in_review' | 'needs_changes' | 'approved';
+
+export type ReviewAction =
+  | 'assign'            // Give the field to a reviewer (or claim it)
+  | 'unassign'
+  | 'start'             // Begin reviewing; claims the field if unassigned
+  | 'request_changes'
+  | 'approve'           // Sign off; approved once enough reviewers have
+  | 'reopen';           // Back to unreviewed, dropping sign-offs
+
+export interface Reviewer {
+  user_id?: string;
+  name: string;
+}
+
+export interface ReviewSignoff extends Reviewer {
+  at: Date;
+}
+
+/**
+ * Review of one field of a page, stored on the page as `review.<field>`, or
+ * as `review.translations.<code>` for translations into other languages
+ */
+export interface FieldReview {
+  state: ReviewState;
+  assignee?: Reviewer;
+  assigned_at?: Date;
+  approvals: ReviewSignoff[];    // Cleared when the text changes or changes are requested
+  updated_at: Date;
+  updated_by?: string;
+}
+
+export type PageReview = Partial<Record<DiffField, FieldReview>> & {
+  translations?: Record<string, FieldReview>;  // By BCP 47 code, for targets other than English
+};
+
+/**
+ * Book-level proofreading rules, stored on the book as `review_policy`
+ */
+export interface ReviewPolicy {
+  required_approvals: number;        // Distinct reviewers needed to approve (default 2)
+  publish_min_approved_percent: number;  // Translated pages that must be approved to publish (default 0)
+}
+
+export interface ReviewSuggestion {
+  original: string;
+  replacement: string;
+}
+
+/**
+ * A comment in a page's review thread. Replies carry the parent's id.
+ */
+export interface ReviewComment {
+  id: string;
+  book_id: string;
+  page_id: string;
+  field?: DiffField;
+  parent_id?: string;
+  content: string;
+  /** A proposed correction: replace `original` in the field text with `replacement` */
+  suggestion?: ReviewSuggestion;
+  author: string;
+  user_id?: string;
+  resolved?: boolean;
+  resolved_by?: string;
+  created_at: Date;
+  updated_at?: Date;
+}
+
+/**
+ * Counts of pages in each review state, per field
+ */
+export type ReviewStateCounts = Record<ReviewState, number>;
+
+export interface BookReviewSummary {
+  book_id: string;
+  target_language: string;           // Whose translations are counted
+  policy: ReviewPolicy;
+  total_pages: number;
+  translated_pages: number;
+  ocr: ReviewStateCounts;
+  translation: ReviewStateCounts;
+  approved_percent: number;          // Of pages translated into target_language, translation approved
+  pages: Array<{
+    id: string;
+    page_number: number;
+    review?: PageReview;
+    open_comments: number;
+  }>;
+}
@@ -0,0 +1,60 @@
+/**
+ * Page revision history types
+ */
+
+import type { DiffField, DiffStats } from './diff';
+
+// How a revision was saved
+export type RevisionVia =
+  | 'editor'        // Manual edit in the page editor
+  | 'process'       // Realtime AI processing from the editor
+  | 'job'           // Queued OCR/translation job
+  | 'batch'         // Gemini Batch API results
+  | 'contribute'    // Contributor with their own API key
+  | 'review'        // Hunks accepted/rejected in a diff review
+  | 'restore'       // Snapshot restored
+  | 'baseline';     // Text that predates revision history (backfilled)
+
+/**
+ * One saved version of a page's OCR or translation. Revisions are never
+ * changed once written; each save that changes the text adds one.
+ */
+export interface PageRevision {
+  id: string;
+  page_id: string;
+  book_id: string;
+  field: DiffField;
+  target_language?: string;      // BCP 47 code of a translation other than English
+  revision: number;              // 1, 2, 3... per page, field and target language
+  parent_id?: string;            // The revision this one replaced
+
+  text: string;
+  chars: number;
+  diff: DiffStats;               // Size of the change from the parent revision
+
+  source: 'ai' | 'manual';
+  via: RevisionVia;
+  author?: string;               // Who saved it (name), for manual edits
+  user_id?: string;
+  model?: string;
+  prompt_name?: string;
+  job_id?: string;               // Queue or batch job that produced it
+
+  created_at: Date;
+}
+
+/**
+ * A line of the current text and the revision that introduced it.
+ * revision_id is null for text saved outside revision history.
+ */
+export interface BlameLine {
+  line: number;
+  text: string;
+  revision_id: string | null;
+  revision?: number;
+  source?: PageRevision['source'];
+  via?: RevisionVia;
+  author?: string;
+  model?: string;
+  created_at?: Date;
+}
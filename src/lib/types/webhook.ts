@@ -0,0 +1,88 @@
+/**
+ * Webhook subscription, event and delivery types
+ */
+
+export type WebhookEventType =
+  | 'book.imported'            // A book was imported from an outside collection
+  | 'page.ocr_completed'       // OCR of a page finished and its text was saved
+  | 'page.translated'          // A page's translation was saved (by AI or by hand)
+  | 'job.completed'            // A processing job finished
+  | 'job.failed'               // A processing job failed or gave up retrying
+  | 'pipeline.step_finished'   // A book pipeline step completed, was skipped or failed
+  | 'edition.published'        // A translation edition was published
+  | 'edition.doi_minted'       // A published edition was given a DOI
+  | 'annotation.created';      // A reader annotated a page
+
+/**
+ * An endpoint that is sent events. Payloads are signed with the secret.
+ */
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  description?: string;
+  events: WebhookEventType[];
+  secret: string;                   // whsec_...; HMAC-SHA256 signing key
+  active: boolean;
+  tenant_id?: string;
+  created_by?: string;
+  created_at: Date;
+  updated_at?: Date;
+}
+
+/**
+ * The JSON body POSTed to subscribers
+ */
+export interface WebhookEvent {
+  id: string;                       // evt_...; the same for every delivery and replay
+  type: WebhookEventType;
+  created_at: Date;
+  data: Record<string, unknown>;
+}
+
+// pending: waiting for its first attempt or a retry; failed: gave up
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * The outcome of one attempt to send a delivery
+ */
+export interface WebhookAttempt {
+  attempt: number;                  // 1 for the first
+  attempted_at: Date;
+  response_status?: number;
+  response_body?: string;           // First 1,000 characters
+  error?: string;
+  duration_ms: number;
+}
+
+/**
+ * One event sent to one subscription. The latest attempt's outcome is kept
+ * on the delivery itself, and every attempt's in attempt_history.
+ */
+export interface WebhookDelivery {
+  id: string;
+  subscription_id: string;
+  url: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: Date | null;
+  last_attempt_at?: Date;
+  response_status?: number;
+  response_body?: string;           // First 1,000 characters
+  error?: string;
+  duration_ms?: number;
+  attempt_history?: WebhookAttempt[]; // Oldest first
+  delivered_at?: Date;
+  replay_of?: string;               // The delivery this one re-sends
+  tenant_id?: string;
+  created_at: Date;
+}
+
+/**
+ * A subscription as shown to admins: the secret is only returned when it is
+ * created or rotated
+ */
+export interface WebhookSubscriptionSummary extends Omit<WebhookSubscription, 'secret' | 'tenant_id'> {
+  secret_hint: string;              // whsec_…last four characters
+}
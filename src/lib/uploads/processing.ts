@@ -2,14 +2,14 @@
  * Shared Upload Processing Logic
  *
  * Handles the core upload pipeline for both formData and S3 URL uploads:
- * - Upload original to Vercel Blob
+ * - Upload original to storage (see lib/storage)
  * - Detect if image is two-page spread
  * - Process as split (2 pages) or single (1 page)
  * - Generate thumbnails
  * - Return page records ready for DB insertion
  */
 
-import { put } from '@vercel/blob';
+import { putObject } from '../storage';
 import type { Db } from 'mongodb';
 import type { Page } from '../types/page';
 import { compress_photo, convertToJpeg } from '../image-manipulation';
@@ -37,7 +37,7 @@ export interface ProcessImageUploadResult {
  * Process image upload with split detection and thumbnail generation
  *
  * This function encapsulates the entire upload pipeline:
- * 1. Upload original image to Vercel Blob
+ * 1. Upload original image to storage
  * 2. Detect if image is a two-page spread
  * 3. If split: crop both halves, upload cropped images and thumbnails
  * 4. If single: generate and upload thumbnail
@@ -73,13 +73,9 @@ export async function processImageUpload(
     filename = filename.replace(/\.jp2$/i, '.jpg');
   }
   
-  // STEP 1: Upload original image to Vercel Blob (now JPEG if it was JP2)  
+  // STEP 1: Upload original image to storage (now JPEG if it was JP2)  
   const originalBlobPath = `uploads/${bookId}/${filename}`;
-  const originalBlob = await put(originalBlobPath, buffer, {
-    access: 'public',
-    contentType,
-    addRandomSuffix: false
-  });
+  const originalBlob = await putObject(originalBlobPath, buffer, { contentType });
 
   // STEP 2: Detect if this is a two-page spread
   const splitResult = await detectSplit(buffer, originalBlob.url, db);
@@ -109,11 +105,7 @@ export async function processImageUpload(
   // Generate thumbnail from original buffer
   const thumbnailBuffer = await compress_photo(buffer, 150, 60);
   const thumbnailBlobPath = `uploads/${bookId}/thumbnails/${filename}`;
-  const thumbnailBlob = await put(thumbnailBlobPath, thumbnailBuffer, {
-    access: 'public',
-    contentType,
-    addRandomSuffix: false
-  });
+  const thumbnailBlob = await putObject(thumbnailBlobPath, thumbnailBuffer, { contentType });
 
   const singlePage = await processSingleImage(
     bookId,
@@ -1,10 +1,14 @@
 /**
  * Validation for translation/OCR text formatting
  * Detects issues like unclosed brackets, unknown tags, etc.
+ * and, given a glossary, terms not translated as agreed
  */
 
+import { findGlossaryViolations } from '@/lib/glossary/match';
+import type { GlossaryEntry } from '@/lib/types';
+
 export interface ValidationIssue {
-  type: 'unclosed_open' | 'unclosed_close' | 'unknown_tag' | 'empty_tag' | 'nested_bracket' | 'unbalanced_center' | 'unclosed_xml' | 'unknown_xml_tag' | 'empty_xml_tag';
+  type: 'unclosed_open' | 'unclosed_close' | 'unknown_tag' | 'empty_tag' | 'nested_bracket' | 'unbalanced_center' | 'unclosed_xml' | 'unknown_xml_tag' | 'empty_xml_tag' | 'glossary_violation';
   message: string;
   position: number;
   length: number;
@@ -22,6 +26,13 @@ export interface ValidationResult {
   issues: ValidationIssue[];
 }
 
+export interface ValidationOptions {
+  // Check a translation against the book's glossary (see getBookGlossary)
+  glossary?: GlossaryEntry[];
+  sourceText?: string;      // The OCR text that was translated
+  sourceLanguage?: string;
+}
+
 // Known valid tag types (bracket syntax)
 const VALID_TAGS = new Set([
   'margin', 'note', 'notes', 'gloss', 'insert', 'unclear', 'term', 'image',
@@ -57,7 +68,7 @@ function getContext(text: string, position: number, length: number = 0): string
 /**
  * Validate translation/OCR text for formatting issues
  */
-export function validateTranslation(text: string): ValidationResult {
+export function validateTranslation(text: string, options: ValidationOptions = {}): ValidationResult {
   const issues: ValidationIssue[] = [];
 
   if (!text) {
@@ -334,6 +345,32 @@ export function validateTranslation(text: string): ValidationResult {
     });
   }
 
+  // === Glossary ===
+  if (options.glossary?.length && options.sourceText) {
+    const violations = findGlossaryViolations(options.glossary, options.sourceText, text, options.sourceLanguage);
+    for (const { entry, untranslated } of violations) {
+      const position = untranslated?.start ?? 0;
+      const length = untranslated ? untranslated.end - untranslated.start : 0;
+      issues.push({
+        type: 'glossary_violation',
+        message: untranslated
+          ? `"${text.slice(position, position + length)}" left untranslated; the glossary renders "${entry.source_term}" as "${entry.target_term}"`
+          : `"${entry.source_term}" should be translated as "${entry.target_term}"`,
+        position,
+        length,
+        context: untranslated ? getContext(text, position, length) : getContext(text, 0),
+        ...(untranslated && {
+          suggestedFix: {
+            type: 'replace' as const,
+            position,
+            length,
+            text: entry.target_term
+          }
+        })
+      });
+    }
+  }
+
   // Sort issues by position
   issues.sort((a, b) => a.position - b.position);
 
@@ -0,0 +1,408 @@
+/**
+ * Webhooks: events sent to subscribers' endpoints as signed JSON POSTs.
+ *
+ * emitWebhookEvent() records a delivery for every active subscription of the
+ * event's tenant that wants it, and starts sending right away. A delivery
+ * that doesn't get a 2xx is retried with exponential backoff by the
+ * deliver-webhooks cron, and marked failed after max_attempts. Every
+ * attempt's outcome is kept in the delivery's attempt_history, and any
+ * delivery can be replayed as a new one.
+ *
+ * Subscribers check the X-SourceLibrary-Signature header: an HMAC-SHA256
+ * of `<timestamp>.<body>` with the subscription's secret (see
+ * verifyWebhookSignature).
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { Db } from 'mongodb';
+import { nanoid } from 'nanoid';
+import { getDb } from '@/lib/mongodb';
+import { getCurrentTenantId, runAsTenant } from '@/lib/tenant.server';
+import type {
+  PipelineState,
+  PipelineStep,
+  WebhookAttempt,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookSubscription,
+  WebhookSubscriptionSummary,
+} from '@/lib/types';
+import {
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SECRET_PREFIX,
+  WEBHOOK_SIGNATURE_HEADER,
+} from './webhooks';
+
+export const WEBHOOKS_COLLECTION = 'webhooks';
+export const WEBHOOK_DELIVERIES_COLLECTION = 'webhook_deliveries';
+
+const DEFAULT_MAX_ATTEMPTS = 12;  // About 20 hours of retries
+const BACKOFF_BASE_MS = 60_000;
+const BACKOFF_MAX_MS = 6 * 60 * 60_000;
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+// A claimed delivery is hidden from other senders this long, so one cut
+// off mid-attempt is picked up again by the cron
+const CLAIM_MS = 60_000;
+const RESPONSE_BODY_LIMIT = 1000;
+// Signatures older than this are rejected by verifyWebhookSignature
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * A new signing secret. Unlike API keys it is kept in full, since every
+ * delivery is signed with it.
+ */
+export function generateWebhookSecret(): string {
+  return WEBHOOK_SECRET_PREFIX + randomBytes(24).toString('base64url');
+}
+
+// Fields of a WebhookSubscription shown to admins
+export const WEBHOOK_SUMMARY_PROJECTION = { _id: 0, tenant_id: 0 } as const;
+
+export function toWebhookSummary(subscription: WebhookSubscription): WebhookSubscriptionSummary {
+  return {
+    id: subscription.id,
+    url: subscription.url,
+    ...(subscription.description && { description: subscription.description }),
+    events: subscription.events,
+    active: subscription.active,
+    secret_hint: `${WEBHOOK_SECRET_PREFIX}…${subscription.secret.slice(-4)}`,
+    ...(subscription.created_by && { created_by: subscription.created_by }),
+    created_at: subscription.created_at,
+    ...(subscription.updated_at && { updated_at: subscription.updated_at }),
+  };
+}
+
+/** Wait before retrying after the given number of failed attempts */
+export function webhookBackoffMs(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS);
+}
+
+function hmac(secret: string, timestamp: number, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * The X-SourceLibrary-Signature header for a body sent at `timestamp`
+ * (seconds since the epoch).
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `t=${timestamp},v1=${hmac(secret, timestamp, body)}`;
+}
+
+/**
+ * Check a signature header against the raw request body, as a subscriber
+ * would. Signatures more than five minutes old are refused, so a captured
+ * request can't be replayed later.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string | null,
+  body: string,
+  now = new Date()
+): boolean {
+  const parts = new Map((header || '').split(',').map(part => {
+    const [key, ...value] = part.split('=');
+    return [key.trim(), value.join('=')] as const;
+  }));
+  const timestamp = parseInt(parts.get('t') || '', 10);
+  const signature = parts.get('v1') || '';
+  if (!timestamp || Math.abs(now.getTime() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+  const expected = Buffer.from(hmac(secret, timestamp, body));
+  const given = Buffer.from(signature);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+export interface EmitOptions {
+  /** The tenant the event belongs to; defaults to the request's */
+  tenant_id?: string;
+}
+
+/**
+ * Record an event for every active subscription that wants it and start
+ * sending it. Returns the deliveries created. Never throws: webhooks are
+ * sent on a best effort basis and must not fail the action they report.
+ */
+export async function emitWebhookEvent(
+  type: WebhookEventType,
+  data: Record<string, unknown>,
+  options: EmitOptions = {}
+): Promise<WebhookDelivery[]> {
+  try {
+    const tenantId = options.tenant_id ?? await getCurrentTenantId();
+    const db = await runAsTenant(tenantId, () => getDb());
+
+    const subscriptions = await db.collection<WebhookSubscription>(WEBHOOKS_COLLECTION)
+      .find({ active: true, events: type })
+      .project<Pick<WebhookSubscription, 'id' | 'url'>>({ id: 1, url: 1 })
+      .toArray();
+    if (subscriptions.length === 0) return [];
+
+    const now = new Date();
+    const event: WebhookEvent = { id: `evt_${nanoid(16)}`, type, created_at: now, data };
+    const deliveries: WebhookDelivery[] = subscriptions.map(subscription => ({
+      id: nanoid(12),
+      subscription_id: subscription.id,
+      url: subscription.url,
+      event,
+      status: 'pending',
+      attempts: 0,
+      max_attempts: DEFAULT_MAX_ATTEMPTS,
+      next_attempt_at: now,
+      created_at: now,
+    }));
+    await db.collection(WEBHOOK_DELIVERIES_COLLECTION).insertMany(deliveries.map(d => ({ ...d })));
+
+    kickDeliveries(db, deliveries.map(d => d.id));
+    return deliveries;
+  } catch (error) {
+    console.error(`[webhooks] Failed to emit ${type}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Send book.imported for a book just created by an importer, with where it
+ * came from.
+ */
+export async function emitBookImported(
+  book: {
+    id: string;
+    title: string;
+    author?: string;
+    language?: string;
+    published?: string;
+    image_source?: { provider?: string; source_url?: string } | null;
+  },
+  pagesCount: number
+): Promise<void> {
+  await emitWebhookEvent('book.imported', {
+    book_id: book.id,
+    title: book.title,
+    author: book.author ?? null,
+    language: book.language ?? null,
+    published: book.published ?? null,
+    provider: book.image_source?.provider ?? null,
+    source_url: book.image_source?.source_url ?? null,
+    pages_count: pagesCount,
+  });
+}
+
+/**
+ * Send pipeline.step_finished for a book's pipeline step once it has
+ * completed, been skipped or failed (read back after the update that
+ * finished it). Never throws.
+ */
+export async function emitPipelineStepFinished(db: Db, bookId: string, step: PipelineStep): Promise<void> {
+  try {
+    const book = await db.collection('books').findOne(
+      { id: bookId },
+      { projection: { id: 1, title: 1, tenant_id: 1, pipeline: 1 } }
+    );
+    const pipeline = book?.pipeline as PipelineState | undefined;
+    const state = pipeline?.steps[step];
+    if (!book || !pipeline || !state || !['completed', 'skipped', 'failed'].includes(state.status)) return;
+
+    await emitWebhookEvent('pipeline.step_finished', {
+      book_id: book.id,
+      book_title: book.title ?? null,
+      step,
+      status: state.status,
+      pipeline_status: pipeline.status,
+      error: state.error ?? null,
+      result: state.result ?? null,
+      completed_at: state.completed_at ?? new Date(),
+    }, { tenant_id: book.tenant_id });
+  } catch (error) {
+    console.error(`[webhooks] Failed to report pipeline step ${step}:`, error);
+  }
+}
+
+/**
+ * Send new deliveries now rather than at the next cron run, unless
+ * WEBHOOK_DELIVERY=cron. Doesn't wait for them; the cron retries any that
+ * don't get through.
+ */
+function kickDeliveries(db: Db, ids: string[]): void {
+  if (process.env.WEBHOOK_DELIVERY === 'cron') return;
+
+  for (const id of ids) {
+    deliverWebhook(db, id).catch(error => {
+      console.warn(`[webhooks] Delivery ${id} failed:`, error);
+    });
+  }
+}
+
+/**
+ * Queue a delivery's event to be sent again, to its subscription's current
+ * URL, as a new delivery. The event keeps its id so subscribers can tell a
+ * replay from a new event.
+ */
+export async function replayDelivery(db: Db, delivery: WebhookDelivery): Promise<WebhookDelivery | null> {
+  const subscription = await db.collection<WebhookSubscription>(WEBHOOKS_COLLECTION)
+    .findOne({ id: delivery.subscription_id });
+  if (!subscription) return null;
+
+  const now = new Date();
+  const replay: WebhookDelivery = {
+    id: nanoid(12),
+    subscription_id: subscription.id,
+    url: subscription.url,
+    event: delivery.event,
+    status: 'pending',
+    attempts: 0,
+    max_attempts: DEFAULT_MAX_ATTEMPTS,
+    next_attempt_at: now,
+    replay_of: delivery.id,
+    created_at: now,
+  };
+  await db.collection(WEBHOOK_DELIVERIES_COLLECTION).insertOne({ ...replay });
+  return replay;
+}
+
+/**
+ * Take a pending delivery that is due (a given one, or the oldest due) so
+ * no other sender attempts it at the same time. The attempt is counted now,
+ * so a sender that dies mid-attempt still uses one up.
+ */
+async function claimDelivery(db: Db, id: string | undefined, now: Date): Promise<WebhookDelivery | null> {
+  return await db.collection<WebhookDelivery>(WEBHOOK_DELIVERIES_COLLECTION).findOneAndUpdate(
+    { ...(id && { id }), status: 'pending', next_attempt_at: { $lte: now } },
+    {
+      $set: { next_attempt_at: new Date(now.getTime() + CLAIM_MS), last_attempt_at: now },
+      $inc: { attempts: 1 },
+    },
+    { sort: { next_attempt_at: 1 }, returnDocument: 'after', projection: { _id: 0 } }
+  ) as WebhookDelivery | null;
+}
+
+interface AttemptOutcome {
+  ok: boolean;
+  response_status?: number;
+  response_body?: string;
+  error?: string;
+  duration_ms: number;
+}
+
+async function attempt(subscription: WebhookSubscription, delivery: WebhookDelivery): Promise<AttemptOutcome> {
+  const body = JSON.stringify(delivery.event);
+  const started = Date.now();
+
+  try {
+    const response = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'SourceLibrary-Webhooks/1.0',
+        [WEBHOOK_EVENT_HEADER]: delivery.event.type,
+        [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(subscription.secret, Math.floor(started / 1000), body),
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    const text = await response.text().catch(() => '');
+    return {
+      ok: response.ok,
+      response_status: response.status,
+      response_body: text.slice(0, RESPONSE_BODY_LIMIT),
+      ...(!response.ok && { error: `HTTP ${response.status}` }),
+      duration_ms: Date.now() - started,
+    };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : 'Request failed',
+      duration_ms: Date.now() - started,
+    };
+  }
+}
+
+async function sendClaimed(db: Db, delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const deliveries = db.collection<WebhookDelivery>(WEBHOOK_DELIVERIES_COLLECTION);
+  const subscription = await db.collection<WebhookSubscription>(WEBHOOKS_COLLECTION)
+    .findOne({ id: delivery.subscription_id });
+
+  const outcome: AttemptOutcome = subscription?.active
+    ? await attempt(subscription, delivery)
+    : { ok: false, error: subscription ? 'Subscription is disabled' : 'Subscription was deleted', duration_ms: 0 };
+
+  const now = new Date();
+  const gaveUp = !outcome.ok && (!subscription?.active || delivery.attempts >= delivery.max_attempts);
+  const set: Record<string, unknown> = {
+    ...(subscription && { url: subscription.url }),
+    status: outcome.ok ? 'delivered' : gaveUp ? 'failed' : 'pending',
+    next_attempt_at: outcome.ok || gaveUp ? null : new Date(now.getTime() + webhookBackoffMs(delivery.attempts)),
+    duration_ms: outcome.duration_ms,
+    ...(outcome.ok && { delivered_at: now }),
+  };
+  const unset: Record<string, ''> = {};
+  for (const field of ['response_status', 'response_body', 'error'] as const) {
+    if (outcome[field] !== undefined) set[field] = outcome[field];
+    else unset[field] = '';
+  }
+  const record: WebhookAttempt = {
+    attempt: delivery.attempts,
+    attempted_at: delivery.last_attempt_at ?? now,
+    ...(outcome.response_status !== undefined && { response_status: outcome.response_status }),
+    ...(outcome.response_body !== undefined && { response_body: outcome.response_body }),
+    ...(outcome.error !== undefined && { error: outcome.error }),
+    duration_ms: outcome.duration_ms,
+  };
+
+  return await deliveries.findOneAndUpdate(
+    { id: delivery.id },
+    {
+      $set: set,
+      $push: { attempt_history: record },
+      ...(Object.keys(unset).length > 0 && { $unset: unset }),
+    },
+    { returnDocument: 'after', projection: { _id: 0 } }
+  ) as WebhookDelivery;
+}
+
+/**
+ * Attempt one delivery if it is pending and due. Returns it after the
+ * attempt, or null when there was nothing to send (already delivered,
+ * backing off, or being sent by someone else).
+ */
+export async function deliverWebhook(db: Db, deliveryId: string): Promise<WebhookDelivery | null> {
+  const delivery = await claimDelivery(db, deliveryId, new Date());
+  return delivery ? await sendClaimed(db, delivery) : null;
+}
+
+export interface DeliverDueOptions {
+  /** Stop starting new attempts after this time */
+  deadline?: number;
+  maxDeliveries?: number;
+}
+
+/**
+ * Attempt due deliveries, oldest first, until none are due, the deadline
+ * passes or maxDeliveries have been attempted. Returns them after their
+ * attempts.
+ */
+export async function deliverDueWebhooks(db: Db, options: DeliverDueOptions = {}): Promise<WebhookDelivery[]> {
+  const attempted: WebhookDelivery[] = [];
+  while (
+    (!options.deadline || Date.now() < options.deadline) &&
+    (!options.maxDeliveries || attempted.length < options.maxDeliveries)
+  ) {
+    const delivery = await claimDelivery(db, undefined, new Date());
+    if (!delivery) break;
+    attempted.push(await sendClaimed(db, delivery));
+  }
+  return attempted;
+}
+
+export async function ensureWebhookIndexes(db: Db): Promise<void> {
+  await db.collection(WEBHOOKS_COLLECTION).createIndex({ id: 1 }, { name: 'webhooks_id_idx', unique: true });
+  const deliveries = db.collection(WEBHOOK_DELIVERIES_COLLECTION);
+  await deliveries.createIndex({ id: 1 }, { name: 'webhook_deliveries_id_idx', unique: true });
+  await deliveries.createIndex({ status: 1, next_attempt_at: 1 }, { name: 'webhook_deliveries_due_idx' });
+  await deliveries.createIndex({ subscription_id: 1, created_at: -1 }, { name: 'webhook_deliveries_subscription_idx' });
+}
@@ -0,0 +1,102 @@
+/**
+ * Webhook event types and subscription rules. Shared by the admin routes and
+ * the webhooks admin page, so keep this module free of server-only imports
+ * (signing and delivery are in webhooks.server.ts).
+ */
+
+import type { WebhookEventType, WebhookSubscription } from '@/lib/types';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'book.imported',
+  'page.ocr_completed',
+  'page.translated',
+  'job.completed',
+  'job.failed',
+  'pipeline.step_finished',
+  'edition.published',
+  'edition.doi_minted',
+  'annotation.created',
+];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, string> = {
+  'book.imported': 'Book imported',
+  'page.ocr_completed': 'Page OCR completed',
+  'page.translated': 'Page translation saved',
+  'job.completed': 'Job completed',
+  'job.failed': 'Job failed',
+  'pipeline.step_finished': 'Pipeline step finished',
+  'edition.published': 'Edition published',
+  'edition.doi_minted': 'Edition DOI minted',
+  'annotation.created': 'Annotation created',
+};
+
+/** Every signing secret starts with this */
+export const WEBHOOK_SECRET_PREFIX = 'whsec_';
+
+/** `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">` */
+export const WEBHOOK_SIGNATURE_HEADER = 'X-SourceLibrary-Signature';
+export const WEBHOOK_EVENT_HEADER = 'X-SourceLibrary-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-SourceLibrary-Delivery';
+
+export const MAX_WEBHOOKS = 20;
+
+export function isWebhookEventType(value: unknown): value is WebhookEventType {
+  return typeof value === 'string' && (WEBHOOK_EVENT_TYPES as string[]).includes(value);
+}
+
+/**
+ * Why a subscription URL can't be used, or null when it can. Production
+ * deployments only send to https URLs.
+ */
+export function webhookUrlError(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) return 'url is required';
+
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return 'url is not a valid URL';
+  }
+  if (url.protocol === 'https:') return null;
+  if (url.protocol === 'http:' && process.env.NODE_ENV !== 'production') return null;
+  return 'url must use https';
+}
+
+export type WebhookChanges = Partial<Pick<WebhookSubscription, 'url' | 'description' | 'events' | 'active'>>;
+
+/**
+ * Validate the editable fields of a subscription from a request body: url,
+ * description, events and active. With `create`, url and events are
+ * required.
+ */
+export function parseWebhookChanges(
+  body: Record<string, unknown>,
+  create = false
+): { set: WebhookChanges } | { error: string } {
+  const set: WebhookChanges = {};
+
+  if (create || body.url !== undefined) {
+    const urlError = webhookUrlError(body.url);
+    if (urlError) return { error: urlError };
+    set.url = (body.url as string).trim();
+  }
+
+  if (create || body.events !== undefined) {
+    const events = body.events;
+    if (!Array.isArray(events) || events.length === 0 || !events.every(isWebhookEventType)) {
+      return { error: `events must be a non-empty list of ${WEBHOOK_EVENT_TYPES.join(', ')}` };
+    }
+    set.events = WEBHOOK_EVENT_TYPES.filter(type => events.includes(type));
+  }
+
+  if (body.description !== undefined) {
+    set.description = typeof body.description === 'string' ? body.description.trim().slice(0, 200) : '';
+  }
+
+  if (body.active !== undefined) {
+    if (typeof body.active !== 'boolean') return { error: 'active must be true or false' };
+    set.active = body.active;
+  }
+
+  return { set };
+}
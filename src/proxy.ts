@@ -1,4 +1,5 @@
 import { NextResponse, NextRequest } from 'next/server';
+import { isTenantId, parseTenantHosts, tenantForHost } from '@/lib/tenant';
 
 // Domains that enable the Ficino Society social layer
 const SOCIETY_DOMAINS = [
@@ -9,6 +10,18 @@ const SOCIETY_DOMAINS = [
   'ficino.local',
 ];
 
+// Partner library domains, mapped to their tenant
+const TENANT_HOSTS = parseTenantHosts(process.env.TENANT_HOSTS);
+
+function resolveTenant(request: NextRequest, host: string): string {
+  // Dev override via ?tenant=<id>
+  const override = request.nextUrl.searchParams.get('tenant');
+  if (process.env.NODE_ENV !== 'production' && isTenantId(override)) {
+    return override;
+  }
+  return tenantForHost(TENANT_HOSTS, host);
+}
+
 export function proxy(request: NextRequest) {
   const host = request.headers.get('host') || '';
 
@@ -16,9 +29,13 @@ export function proxy(request: NextRequest) {
   const isSociety = SOCIETY_DOMAINS.some(domain => host.includes(domain)) ||
     request.nextUrl.searchParams.get('society') === 'true'; // Dev override via ?society=true
 
-  // Clone the request headers and add our custom header
+  // Clone the request headers and add our custom headers. x-tenant-id is
+  // always overwritten so clients can't pick another library's data (outside
+  // development getTenantId() maps the host itself, as the proxy doesn't
+  // run for every path).
   const requestHeaders = new Headers(request.headers);
   requestHeaders.set('x-site-mode', isSociety ? 'society' : 'library');
+  requestHeaders.set('x-tenant-id', resolveTenant(request, host));
 
   // Pass the modified headers to the request
   return NextResponse.next({
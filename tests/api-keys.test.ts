@@ -0,0 +1,129 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { ObjectId } from 'mongodb';
+import { GET as listKeys, POST as createKey } from '@/app/api/account/api-keys/route';
+import { DELETE as revokeKey } from '@/app/api/account/api-keys/[id]/route';
+import { POST as createAnnotation } from '@/app/api/annotations/route';
+import { POST as addComment } from '@/app/api/pages/[id]/comments/route';
+import { POST as reviewAction } from '@/app/api/pages/[id]/review-status/route';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+import { callRoute, sessionHeaders } from './helpers/route';
+
+const ANNA = new ObjectId().toHexString();
+const BEN = new ObjectId().toHexString();
+const CARA = new ObjectId().toHexString();
+
+function bearer(secret: string) {
+  return { authorization: `Bearer ${secret}` };
+}
+
+describe('personal API keys', () => {
+  let memory: MemoryDb;
+
+  beforeEach(async () => {
+    memory = installMemoryDb();
+    await memory.collection('users').insertMany([
+      { _id: new ObjectId(ANNA), name: 'Anna', email: 'anna@example.org', role: 'contributor' },
+      { _id: new ObjectId(BEN), name: 'Ben', email: 'ben@example.org' },
+      { _id: new ObjectId(CARA), name: 'Cara', email: 'cara@example.org', role: 'editor' },
+    ]);
+    await memory.collection('books').insertOne({ id: 'book-1', title: 'Liber' });
+    await memory.collection('pages').insertOne({ id: 'p1', book_id: 'book-1', page_number: 1, ocr: { data: 'Pagina' } });
+  });
+
+  async function create(userId: string, body: Record<string, unknown>) {
+    const response = await callRoute(createKey, '/api/account/api-keys', { headers: await sessionHeaders(userId), body });
+    return { status: response.status, body: await response.json() };
+  }
+
+  function comment(headers: Record<string, string>) {
+    return callRoute(addComment, '/api/pages/p1/comments', {
+      params: { id: 'p1' },
+      headers,
+      body: { content: 'Check the ligature', field: 'ocr' },
+    });
+  }
+
+  it('creates a key shown once, stored only as a hash, within the role', async () => {
+    const created = await create(ANNA, { name: 'Claude Desktop', scopes: ['read', 'contribute'] });
+    assert.equal(created.status, 201);
+    assert.match(created.body.secret, /^sl_/);
+    assert.equal(created.body.key.key_hash, undefined);
+
+    const [stored] = await memory.collection('api_keys').find().toArray();
+    assert.notEqual(stored.key_hash, created.body.secret);
+    assert.equal(stored.rate_limit, 60);
+
+    const tooHigh = await create(ANNA, { name: 'Jobs', scopes: ['edit'] });
+    assert.equal(tooHigh.status, 403, 'a contributor cannot grant the edit scope');
+
+    const listed = await (await callRoute(listKeys, '/api/account/api-keys', { headers: await sessionHeaders(ANNA) })).json();
+    assert.deepEqual(listed.keys.map((k: { name: string }) => k.name), ['Claude Desktop']);
+    assert.deepEqual(listed.grantable_scopes, ['read', 'contribute']);
+
+    const withKey = await callRoute(createKey, '/api/account/api-keys', {
+      headers: bearer(created.body.secret),
+      body: { name: 'Another', scopes: ['read'] },
+    });
+    assert.equal(withKey.status, 403, 'keys cannot mint keys');
+  });
+
+  it('acts as its owner, within both their role and its scopes', async () => {
+    const contribute = (await create(ANNA, { name: 'MCP', scopes: ['read', 'contribute'] })).body.secret;
+    const readOnly = (await create(ANNA, { name: 'Reader', scopes: ['read'] })).body.secret;
+
+    const posted = await comment(bearer(contribute));
+    assert.equal(posted.status, 201);
+    assert.equal((await posted.json()).comment.author, 'Anna');
+
+    const unscoped = await comment(bearer(readOnly));
+    assert.equal(unscoped.status, 403);
+    assert.equal((await unscoped.json()).required_scope, 'contribute');
+
+    // Ben is a reader: his key can hold no more than his role
+    const bens = await create(BEN, { name: 'MCP', scopes: ['contribute'] });
+    assert.equal(bens.status, 403);
+
+    const annotation = await callRoute(createAnnotation, '/api/annotations', {
+      headers: bearer(readOnly),
+      body: { book_id: 'book-1', page_id: 'p1', anchor: { text: 'Pagina' }, content: 'A page', type: 'comment', user_name: 'Someone' },
+    });
+    assert.equal((await annotation.json()).user_name, 'Anna', 'credited to the key owner');
+  });
+
+  it('needs the edit scope for review actions reserved to editors, even when its owner is one', async () => {
+    const contribute = (await create(CARA, { name: 'MCP', scopes: ['read', 'contribute'] })).body.secret;
+    const review = (action: string) => callRoute(reviewAction, '/api/pages/p1/review-status', {
+      params: { id: 'p1' },
+      headers: bearer(contribute),
+      body: { field: 'ocr', action },
+    });
+
+    assert.equal((await review('start')).status, 200);
+    const approve = await review('approve');
+    assert.equal(approve.status, 403);
+    assert.equal((await approve.json()).required_scope, 'edit');
+
+    const page = await memory.collection('pages').findOne({ id: 'p1' });
+    assert.equal(page?.review?.ocr?.state, 'in_review');
+  });
+
+  it('stops working when revoked or over its rate limit', async () => {
+    const limited = await create(ANNA, { name: 'Slow', scopes: ['contribute'], rate_limit: 2 });
+    assert.equal((await comment(bearer(limited.body.secret))).status, 201);
+    assert.equal((await comment(bearer(limited.body.secret))).status, 201);
+    const third = await comment(bearer(limited.body.secret));
+    assert.equal(third.status, 429);
+    assert.ok(Number(third.headers.get('retry-after')) > 0);
+
+    const other = await create(ANNA, { name: 'Leaked', scopes: ['contribute'] });
+    const revoked = await callRoute(revokeKey, `/api/account/api-keys/${other.body.key.id}`, {
+      method: 'DELETE',
+      params: { id: other.body.key.id },
+      headers: await sessionHeaders(ANNA),
+    });
+    assert.equal(revoked.status, 200);
+    assert.equal((await comment(bearer(other.body.secret))).status, 401);
+    assert.equal((await comment(bearer('sl_not-a-key'))).status, 401);
+  });
+});
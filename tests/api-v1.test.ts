@@ -0,0 +1,181 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { ObjectId } from 'mongodb';
+import { POST as createKey } from '@/app/api/account/api-keys/route';
+import { GET as listBooks } from '@/app/api/v1/books/route';
+import { GET as getBook } from '@/app/api/v1/books/[id]/route';
+import { GET as listPages } from '@/app/api/v1/books/[id]/pages/route';
+import { GET as listEditions } from '@/app/api/v1/books/[id]/editions/route';
+import { GET as listEntities } from '@/app/api/v1/entities/route';
+import { GET as listGallery } from '@/app/api/v1/gallery/route';
+import { GET as openapi } from '@/app/api/v1/openapi.json/route';
+import { generateApiClient, type OpenApiDocument } from '@/lib/api-v1/codegen';
+import { buildOpenApiDocument } from '@/lib/api-v1/openapi';
+import { V1_OPERATIONS } from '@/lib/api-v1/operations';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+import { callRoute, sessionHeaders } from './helpers/route';
+
+const ANNA = new ObjectId().toHexString();
+
+describe('public API v1', () => {
+  let memory: MemoryDb;
+  let key: string;
+
+  beforeEach(async () => {
+    memory = installMemoryDb();
+    await memory.collection('users').insertOne({ _id: new ObjectId(ANNA), name: 'Anna', email: 'anna@example.org' });
+    await memory.collection('books').insertMany([
+      { id: 'b1', title: 'Aurora consurgens', author: 'Anonymous', language: 'Latin', published: '1550', pages_translated: 2, categories: ['alchemy'] },
+      { id: 'b2', title: 'Chymische Hochzeit', author: 'Andreae', language: 'German', published: '1616', pages_translated: 0 },
+      {
+        id: 'b3', title: 'Turba philosophorum', author: 'Anonymous', language: 'Latin', published: '1572', pages_translated: 1,
+        summary: { data: 'A dialogue of philosophers', generated_at: new Date() },
+        editions: [
+          { id: 'e1', book_id: 'b3', version: '1.0.0', status: 'superseded', doi: '10.5281/zenodo.1', created_at: new Date(), page_ids: [], page_count: 3, content_hash: 'x', contributors: [], citation: { title: 'Turba', original_title: 'Turba', original_author: 'Anonymous', original_language: 'Latin', target_language: 'en' }, license: 'CC-BY-4.0' },
+          { id: 'e2', book_id: 'b3', version: '1.1.0', status: 'published', doi: '10.5281/zenodo.2', created_at: new Date(), page_ids: [], page_count: 3, content_hash: 'y', contributors: [{ name: 'Gemini', role: 'translator', type: 'ai' }], citation: { title: 'Turba', original_title: 'Turba', original_author: 'Anonymous', original_language: 'Latin', target_language: 'en' }, license: 'CC-BY-4.0' },
+          { id: 'e3', book_id: 'b3', version: '2.0.0', status: 'draft', created_at: new Date(), page_ids: [], page_count: 3, content_hash: 'z', contributors: [], citation: { title: 'Turba', original_title: 'Turba', original_author: 'Anonymous', original_language: 'Latin', target_language: 'en' }, license: 'CC-BY-4.0' },
+        ],
+      },
+    ]);
+    await memory.collection('pages').insertMany([1, 2, 3].map(n => ({
+      id: `b1-p${n}`,
+      book_id: 'b1',
+      page_number: n,
+      photo: `https://images.example.org/b1/${n}.jpg`,
+      ocr: { data: `Folio ${n}`, language: 'Latin', model: 'gemini', layout: { lines: [] } },
+      ...(n < 3 && { translation: { data: `Leaf ${n}`, language: 'English', model: 'gemini', source: 'manual' } }),
+      ...(n === 2 && {
+        detected_images: [
+          { description: 'Dragon', type: 'woodcut', bbox: { x: 0, y: 0, width: 1, height: 0.5 }, detection_source: 'vision_model', gallery_quality: 0.9, metadata: { subjects: ['dragon'] } },
+          { description: 'Border', type: 'decorative', bbox: { x: 0, y: 0.5, width: 1, height: 0.1 }, detection_source: 'vision_model', gallery_quality: 0.2 },
+          { description: 'Sun', type: 'woodcut', bbox: { x: 0, y: 0.6, width: 1, height: 0.4 }, detection_source: 'manual', gallery_quality: 0.7 },
+        ],
+      }),
+    })));
+    await memory.collection('entities').insertMany([
+      { name: 'Mercurius', type: 'concept', book_count: 3, total_mentions: 12, books: [] },
+      { name: 'Hermes', type: 'person', aliases: ['Trismegistus'], book_count: 5, total_mentions: 40, books: [{ book_id: 'b1', book_title: 'Aurora', book_author: 'Anonymous', pages: [2] }] },
+      { name: 'Sol', type: 'concept', book_count: 3, total_mentions: 7, books: [] },
+    ]);
+
+    const created = await callRoute(createKey, '/api/account/api-keys', {
+      headers: await sessionHeaders(ANNA),
+      body: { name: 'Scripts', scopes: ['read'] },
+    });
+    key = (await created.json()).secret;
+  });
+
+  function get<P>(handler: Parameters<typeof callRoute<P>>[0], url: string, params?: P, search?: Record<string, string>, secret = key) {
+    return callRoute(handler, url, { params, search, headers: { authorization: `Bearer ${secret}` } });
+  }
+
+  it('requires an API key with the read scope and reports usage', async () => {
+    const anonymous = await callRoute(listBooks, '/api/v1/books');
+    assert.equal(anonymous.status, 401);
+    assert.equal(anonymous.headers.get('www-authenticate'), 'Bearer');
+
+    await memory.collection('users').updateOne({ _id: new ObjectId(ANNA) }, { $set: { role: 'contributor' } });
+    const contributeOnly = await callRoute(createKey, '/api/account/api-keys', {
+      headers: await sessionHeaders(ANNA),
+      body: { name: 'Writes', scopes: ['contribute'] },
+    });
+    const unscoped = await get(listBooks, '/api/v1/books', undefined, undefined, (await contributeOnly.json()).secret);
+    assert.equal(unscoped.status, 403);
+
+    const ok = await get(listBooks, '/api/v1/books');
+    assert.equal(ok.status, 200);
+    assert.equal(ok.headers.get('x-ratelimit-limit'), '60');
+    assert.equal(ok.headers.get('x-quota-limit'), '10000');
+    assert.equal(ok.headers.get('x-quota-remaining'), '9999');
+  });
+
+  it('turns a key away once its daily quota is used', async () => {
+    const created = await callRoute(createKey, '/api/account/api-keys', {
+      headers: await sessionHeaders(ANNA),
+      body: { name: 'Tiny', scopes: ['read'], daily_quota: 2 },
+    });
+    const tiny = (await created.json()).secret;
+    assert.equal((await get(listBooks, '/api/v1/books', undefined, undefined, tiny)).status, 200);
+    assert.equal((await get(listBooks, '/api/v1/books', undefined, undefined, tiny)).status, 200);
+    const over = await get(listBooks, '/api/v1/books', undefined, undefined, tiny);
+    assert.equal(over.status, 429);
+    assert.match((await over.json()).error, /Daily quota of 2/);
+    assert.ok(Number(over.headers.get('retry-after')) > 60);
+  });
+
+  it('pages through books with cursors and validates parameters', async () => {
+    const first = await (await get(listBooks, '/api/v1/books', undefined, { limit: '2' })).json();
+    assert.deepEqual(first.data.map((b: { id: string }) => b.id), ['b1', 'b2']);
+    assert.equal(first.data[1].display_title, null, 'missing fields are null, not absent');
+    assert.ok(first.next_cursor);
+
+    const second = await (await get(listBooks, '/api/v1/books', undefined, { limit: '2', cursor: first.next_cursor })).json();
+    assert.deepEqual(second.data.map((b: { id: string }) => b.id), ['b3']);
+    assert.equal(second.next_cursor, null);
+
+    const translated = await (await get(listBooks, '/api/v1/books', undefined, { has_translation: 'false' })).json();
+    assert.deepEqual(translated.data.map((b: { id: string }) => b.id), ['b2']);
+
+    const invalid = await get(listBooks, '/api/v1/books', undefined, { limit: '500' });
+    assert.equal(invalid.status, 400);
+    assert.ok((await invalid.json()).details.limit);
+    assert.equal((await get(listBooks, '/api/v1/books', undefined, { cursor: 'garbage' })).status, 400);
+
+    const book = await (await get(getBook, '/api/v1/books/b3', { id: 'b3' })).json();
+    assert.equal(book.summary, 'A dialogue of philosophers');
+    assert.equal(book.editions, undefined, 'only schema fields are returned');
+    assert.equal((await get(getBook, '/api/v1/books/nope', { id: 'nope' })).status, 404);
+  });
+
+  it('lists pages with text, editions, entities and illustrations', async () => {
+    const pages = await (await get(listPages, '/api/v1/books/b1/pages', { id: 'b1' }, { limit: '2', include_text: 'true' })).json();
+    assert.deepEqual(pages.data.map((p: { page_number: number }) => p.page_number), [1, 2]);
+    assert.deepEqual(pages.data[0].ocr, { text: 'Folio 1', language: 'Latin', model: 'gemini', updated_at: null });
+    assert.equal(pages.data[0].translation.model, null, 'hand-edited text names no model');
+    const rest = await (await get(listPages, '/api/v1/books/b1/pages', { id: 'b1' }, { cursor: pages.next_cursor })).json();
+    assert.deepEqual(rest.data.map((p: { page_number: number; has_translation: boolean; ocr?: unknown }) => [p.page_number, p.has_translation, p.ocr]), [[3, false, undefined]]);
+
+    const editions = await (await get(listEditions, '/api/v1/books/b3/editions', { id: 'b3' })).json();
+    assert.deepEqual(editions.data.map((e: { id: string }) => e.id), ['e2', 'e1']);
+    assert.equal(editions.data[0].contributors[0].orcid, null);
+
+    const entities = await (await get(listEntities, '/api/v1/entities', undefined, { limit: '2' })).json();
+    assert.deepEqual(entities.data.map((e: { name: string }) => e.name), ['Hermes', 'Mercurius']);
+    const more = await (await get(listEntities, '/api/v1/entities', undefined, { cursor: entities.next_cursor })).json();
+    assert.deepEqual(more.data.map((e: { name: string }) => e.name), ['Sol']);
+    const byAlias = await (await get(listEntities, '/api/v1/entities', undefined, { q: 'trismeg' })).json();
+    assert.deepEqual(byAlias.data.map((e: { name: string }) => e.name), ['Hermes']);
+
+    const gallery = await (await get(listGallery, '/api/v1/gallery', undefined, { limit: '1' })).json();
+    assert.deepEqual(gallery.data.map((i: { id: string; book_title: string }) => [i.id, i.book_title]), [['b1-p2:0', 'Aurora consurgens']]);
+    const next = await (await get(listGallery, '/api/v1/gallery', undefined, { cursor: gallery.next_cursor })).json();
+    assert.deepEqual(next.data.map((i: { id: string }) => i.id), ['b1-p2:2'], 'low-quality images are left out');
+    assert.equal(next.next_cursor, null);
+  });
+});
+
+describe('API v1 OpenAPI document', () => {
+  it('describes every operation with its parameters and response schema', async () => {
+    const document = await (await callRoute(openapi, '/api/v1/openapi.json')).json();
+    assert.equal(document.openapi, '3.1.0');
+    assert.equal(Object.values(document.paths).flatMap(p => Object.keys(p as object)).length, V1_OPERATIONS.length);
+
+    const pages = document.paths['/books/{id}/pages'].get;
+    assert.deepEqual(pages.parameters.map((p: { name: string; in: string }) => `${p.in}:${p.name}`), [
+      'path:id', 'query:cursor', 'query:limit', 'query:include_text',
+    ]);
+    assert.deepEqual(pages.parameters[3].schema, { type: 'boolean' });
+    assert.equal(pages.responses[200].content['application/json'].schema.$ref, '#/components/schemas/PageList');
+    assert.equal(document.components.schemas.PageList.properties.data.items.$ref, '#/components/schemas/Page');
+    assert.equal(document.components.schemas.Page.$schema, undefined);
+  });
+
+  it('matches the committed api-client', () => {
+    const generated = generateApiClient(buildOpenApiDocument() as unknown as OpenApiDocument);
+    const read = (file: string) => readFileSync(path.join(__dirname, '..', file), 'utf8');
+    assert.equal(read('src/lib/api-client/types/v1.ts'), generated.types, 'run npm run generate:api-client');
+    assert.equal(read('src/lib/api-client/v1.ts'), generated.client, 'run npm run generate:api-client');
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { ObjectId } from 'mongodb';
+import { GET as bookBibliography } from '@/app/api/books/[id]/bibliography/route';
+import { GET as bulkBibliography } from '@/app/api/books/bibliography/route';
+import { GET as unapi } from '@/app/api/unapi/route';
+import { bookToCsl, cslToBibtex, cslToCoins, cslToRis, highwireTags, parseName, parseUnapiId, unapiId } from '@/lib/bibliographic';
+import { encodeShortlink } from '@/lib/shortlinks';
+import type { Book, TranslationEdition } from '@/lib/types';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+import { callRoute } from './helpers/route';
+
+const BOOK_ID = '6956956c8c9559f6c2db0f42';
+
+const edition: TranslationEdition = {
+  id: 'ed-1',
+  book_id: BOOK_ID,
+  version: '1.0.0',
+  status: 'published',
+  doi: '10.5281/zenodo.42',
+  created_at: new Date('2025-05-01T00:00:00Z'),
+  published_at: new Date('2025-05-02T00:00:00Z'),
+  page_ids: ['p1', 'p2'],
+  page_count: 2,
+  content_hash: 'abc',
+  contributors: [
+    { name: 'Gemini', role: 'translator', type: 'ai', model: 'gemini-2.5-pro' },
+    { name: 'Smith, Anna', role: 'editor', type: 'human', orcid: '0000-0002-1825-0097' },
+  ],
+  citation: {
+    title: 'The Chemical Wedding',
+    original_title: 'Chymische Hochzeit',
+    original_author: 'Andreae, Johann Valentin',
+    original_language: 'German',
+    original_published: '1616',
+    target_language: 'en',
+  },
+  license: 'CC-BY-4.0',
+};
+
+const book = {
+  id: BOOK_ID,
+  tenant_id: 'default',
+  title: 'Chymische Hochzeit',
+  display_title: 'The Chemical Wedding',
+  author: 'Andreae, Johann Valentin',
+  language: 'German',
+  published: '1616',
+  ustc_id: '2029384',
+  place_published: 'Strassburg',
+  publisher: 'Lazarus Zetzner',
+  format: 'octavo',
+  pages_count: 146,
+  categories: ['alchemy'],
+  editions: [edition],
+  current_edition_id: 'ed-1',
+} as Book;
+
+describe('bibliographic records', () => {
+  it('splits only comma-separated names', () => {
+    assert.deepEqual(parseName('Andreae, Johann Valentin'), { family: 'Andreae', given: 'Johann Valentin' });
+    assert.deepEqual(parseName('Thomas Aquinas'), { literal: 'Thomas Aquinas' });
+  });
+
+  it('cites the translation with its edition DOI and the original as original-date', () => {
+    const item = bookToCsl(book, { record: 'translation', edition });
+    assert.equal(item.title, 'The Chemical Wedding');
+    assert.equal(item['original-title'], 'Chymische Hochzeit');
+    assert.deepEqual(item['original-date'], { 'date-parts': [[1616]] });
+    assert.deepEqual(item.issued, { 'date-parts': [[2025, 5, 2]] });
+    assert.deepEqual(item.editor, [{ family: 'Smith', given: 'Anna' }]);
+    assert.deepEqual(item.translator, [{ literal: 'Source Library' }], 'AI translators are credited to the library');
+    assert.equal(item.DOI, '10.5281/zenodo.42');
+  });
+
+  it('derives BibTeX and RIS from the same item, with distinct keys', () => {
+    const items = [book, book].map(b => bookToCsl(b, { record: 'original' }));
+    const bibtex = cslToBibtex(items);
+    assert.match(bibtex, /@book\{andreae1616a,/);
+    assert.match(bibtex, /@book\{andreae1616b,/);
+    assert.match(bibtex, /author = \{Andreae, Johann Valentin\}/);
+    assert.match(bibtex, /address = \{Strassburg\}/);
+
+    const ris = cslToRis(items.slice(0, 1));
+    assert.match(ris, /^TY {2}- BOOK\r\n/);
+    assert.match(ris, /\r\nAU {2}- Andreae, Johann Valentin\r\n/);
+    assert.match(ris, /\r\nN1 {2}- USTC 2029384\r\n/);
+    assert.match(ris, /ER {2}- \r\n$/);
+  });
+});
+
+describe('bibliographic export API', () => {
+  let memory: MemoryDb;
+
+  beforeEach(async () => {
+    memory = installMemoryDb();
+    await memory.collection('books').insertMany([
+      { ...book, _id: new ObjectId(BOOK_ID) },
+      { id: 'book-2', title: 'Opus Majus', author: 'Roger Bacon', language: 'Latin', published: '1267', categories: ['alchemy'] },
+      { id: 'book-3', title: 'Principia', author: 'Newton, Isaac', language: 'Latin', published: '1687', categories: ['natural-philosophy'] },
+    ]);
+    await memory.collection('pages').insertOne({ id: 'p12', book_id: BOOK_ID, page_number: 12 });
+  });
+
+  async function get(search: Record<string, string>, id = BOOK_ID) {
+    const response = await callRoute(bookBibliography, `/api/books/${id}/bibliography`, { params: { id }, search });
+    return { response, text: await response.text() };
+  }
+
+  it('writes MARCXML for the printed work with USTC, place, printer and format', async () => {
+    const { response, text } = await get({ format: 'marcxml' });
+    assert.equal(response.headers.get('content-type'), 'application/marcxml+xml; charset=utf-8');
+    assert.match(text, /<collection xmlns="http:\/\/www.loc.gov\/MARC21\/slim"/);
+    assert.match(text, /<leader>.{24}<\/leader>/);
+    const field008 = text.match(/<controlfield tag="008">([^<]*)</)?.[1];
+    assert.equal(field008?.length, 40);
+    assert.equal(field008?.slice(6, 11), 's1616');
+    assert.equal(field008?.slice(35, 38), 'ger');
+    assert.match(text, /<datafield tag="100" ind1="1" ind2=" ">\s*<subfield code="a">Andreae, Johann Valentin<\/subfield>/);
+    assert.match(text, /<datafield tag="264" ind1=" " ind2="1">\s*<subfield code="a">Strassburg<\/subfield>\s*<subfield code="b">Lazarus Zetzner<\/subfield>\s*<subfield code="c">1616<\/subfield>/);
+    assert.match(text, /<subfield code="c">octavo<\/subfield>/);
+    assert.match(text, /<datafield tag="510" ind1="4" ind2=" ">\s*<subfield code="a">Universal Short Title Catalogue<\/subfield>\s*<subfield code="c">2029384<\/subfield>/);
+  });
+
+  it('writes MARCXML for the translation edition linked to the original', async () => {
+    const { text } = await get({ format: 'marcxml', record: 'translation' });
+    assert.match(text, /<controlfield tag="001">ed-1<\/controlfield>/);
+    assert.match(text, /<datafield tag="041" ind1="1" ind2=" ">\s*<subfield code="a">eng<\/subfield>\s*<subfield code="h">ger<\/subfield>/);
+    assert.match(text, /<datafield tag="240" ind1="1" ind2="0">\s*<subfield code="a">Chymische Hochzeit<\/subfield>/);
+    assert.match(text, /<subfield code="a">10.5281\/zenodo.42<\/subfield>\s*<subfield code="2">doi<\/subfield>/);
+    assert.match(text, /<datafield tag="700" ind1="1" ind2=" ">\s*<subfield code="a">Smith, Anna<\/subfield>\s*<subfield code="e">editor<\/subfield>/);
+
+    const { response } = await get({ format: 'marcxml', record: 'translation' }, 'book-2');
+    assert.equal(response.status, 404, 'no MARC record for an unpublished translation');
+  });
+
+  it('cites a single page through its shortlink', async () => {
+    const { text } = await get({ format: 'csl-json', page: '12' });
+    const [item] = JSON.parse(text);
+    assert.equal(item.page, '12');
+    assert.equal(item.URL, `https://sourcelibrary.org/q/${encodeShortlink(BOOK_ID, 12)}`);
+
+    assert.equal((await get({ format: 'marcxml', page: '12' })).response.status, 400);
+    assert.equal((await get({ format: 'ris', page: '99' })).response.status, 404);
+  });
+
+  it('exports a whole category or curated collection in one file', async () => {
+    const byCategory = await callRoute(bulkBibliography, '/api/books/bibliography', {
+      search: { category: 'alchemy', format: 'ris' },
+    });
+    const ris = await byCategory.text();
+    assert.equal(ris.match(/^TY {2}- BOOK/gm)?.length, 2);
+    assert.match(ris, /TI {2}- Opus Majus/);
+    assert.doesNotMatch(ris, /Principia/);
+
+    const byCollection = await callRoute(bulkBibliography, '/api/books/bibliography', {
+      search: { collection: 'ancient-virtue-ethics', format: 'csl-json' },
+    });
+    assert.deepEqual((await byCollection.json()).map((item: { id: string }) => item.id), [BOOK_ID]);
+
+    const neither = await callRoute(bulkBibliography, '/api/books/bibliography', { search: { format: 'ris' } });
+    assert.equal(neither.status, 400);
+  });
+});
+
+describe('embedded citation metadata', () => {
+  it('describes the translation of a page in Highwire tags, naming the original', () => {
+    const tags = highwireTags(book, { hasTranslation: true, page: { page_number: 12, id: 'p12' } });
+    assert.equal(tags.citation_title, 'The Chemical Wedding');
+    assert.deepEqual(tags.citation_author, ['Andreae, Johann Valentin']);
+    assert.equal(tags.citation_doi, '10.5281/zenodo.42');
+    assert.equal(tags.citation_publication_date, '2025/05/02');
+    assert.equal(tags.citation_firstpage, '12');
+    assert.equal(tags['DC.source'], 'Chymische Hochzeit, Strassburg: Lazarus Zetzner, 1616');
+    assert.equal(tags['DC.rights'], 'https://creativecommons.org/licenses/by/4.0/');
+  });
+
+  it('encodes a COinS context object for the original', () => {
+    const coins = new URLSearchParams(cslToCoins(bookToCsl(book, { record: 'original', page: { page_number: 3 } })));
+    assert.equal(coins.get('rft_val_fmt'), 'info:ofi/fmt:kev:mtx:book');
+    assert.equal(coins.get('rft.btitle'), 'Chymische Hochzeit');
+    assert.equal(coins.get('rft.aulast'), 'Andreae');
+    assert.equal(coins.get('rft.place'), 'Strassburg');
+    assert.equal(coins.get('rft.pages'), '3');
+  });
+
+  it('round-trips unAPI identifiers', () => {
+    const target = { bookId: BOOK_ID, record: 'translation' as const, pageNumber: 7 };
+    assert.equal(unapiId(target), `${BOOK_ID}:translation:p7`);
+    assert.deepEqual(parseUnapiId(unapiId(target)), target);
+    assert.deepEqual(parseUnapiId(BOOK_ID), { bookId: BOOK_ID, record: 'original' });
+    assert.equal(parseUnapiId('not an id'), null);
+  });
+});
+
+describe('unAPI server', () => {
+  beforeEach(async () => {
+    const memory = installMemoryDb();
+    await memory.collection('books').insertOne(book);
+  });
+
+  it('lists formats for an identifier and redirects to the record', async () => {
+    const pageId = unapiId({ bookId: BOOK_ID, record: 'original', pageNumber: 12 });
+    const formats = await callRoute(unapi, '/api/unapi', { search: { id: pageId } });
+    assert.equal(formats.status, 300);
+    const xml = await formats.text();
+    assert.match(xml, /<format name="ris" type="application\/x-research-info-systems"/);
+    assert.doesNotMatch(xml, /marcxml/, 'no MARC for pages');
+
+    const record = await callRoute(unapi, '/api/unapi', { search: { id: `${BOOK_ID}:translation`, format: 'marcxml' } });
+    assert.equal(record.status, 302);
+    assert.equal(
+      new URL(record.headers.get('location')!).pathname + new URL(record.headers.get('location')!).search,
+      `/api/books/${BOOK_ID}/bibliography?format=marcxml&record=translation`
+    );
+
+    const refused = await callRoute(unapi, '/api/unapi', { search: { id: pageId, format: 'marcxml' } });
+    assert.equal(refused.status, 406);
+    const unknown = await callRoute(unapi, '/api/unapi', { search: { id: 'missing-book' } });
+    assert.equal(unknown.status, 404);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { GET as getIndex } from '@/app/api/books/[id]/index/route';
+import { GET as listPages } from '@/app/api/books/[id]/pages/route';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+import { callRoute } from './helpers/route';
+
+describe('book pages listing', () => {
+  let memory: MemoryDb;
+
+  beforeEach(async () => {
+    memory = installMemoryDb();
+    await memory.collection('books').insertOne({ id: 'book-1', title: 'Liber', author: 'Anon.', language: 'Latin' });
+    await memory.collection('pages').insertMany([1, 2, 3, 4].map(n => ({
+      id: `p${n}`,
+      book_id: 'book-1',
+      page_number: n,
+      ocr: { data: n < 4 ? `Pagina ${n}` : '' },
+      translation: { data: n < 3 ? `Page ${n}` : '' },
+    })));
+  });
+
+  async function list(search: Record<string, string> = {}, id = 'book-1') {
+    const response = await callRoute(listPages, `/api/books/${id}/pages`, { params: { id }, search });
+    return { status: response.status, body: await response.json() };
+  }
+
+  it('lists every page with what has been done, without text by default', async () => {
+    const { body } = await list();
+    assert.equal(body.total, 4);
+    assert.equal(body.book.title, 'Liber');
+    assert.deepEqual(
+      body.pages.map((p: { page_number: number; has_ocr: boolean; has_translation: boolean }) => [p.page_number, p.has_ocr, p.has_translation]),
+      [[1, true, true], [2, true, true], [3, true, false], [4, false, false]]
+    );
+    assert.equal(body.pages[0].ocr, undefined);
+  });
+
+  it('returns the requested text for a page range', async () => {
+    const { body } = await list({ from: '2', to: '3', include: 'translation' });
+    assert.deepEqual(body.pages.map((p: { id: string }) => p.id), ['p2', 'p3']);
+    assert.equal(body.pages[0].translation, 'Page 2');
+    assert.equal(body.pages[1].translation, '');
+    assert.equal(body.pages[0].ocr, undefined);
+    assert.equal(body.truncated, false);
+
+    assert.equal((await list({}, 'missing')).status, 404);
+  });
+
+  it('returns only a stored concept index when asked for the cached one', async () => {
+    const missing = await callRoute(getIndex, '/api/books/book-1/index', { params: { id: 'book-1' }, search: { cached: 'true' } });
+    assert.equal(missing.status, 404);
+
+    const index = { vocabulary: [], keywords: [], people: [], places: [], concepts: [], generatedAt: new Date('2020-01-01') };
+    await memory.collection('books').updateOne({ id: 'book-1' }, { $set: { index } });
+    const stored = await callRoute(getIndex, '/api/books/book-1/index', { params: { id: 'book-1' }, search: { cached: 'true' } });
+    assert.equal(stored.status, 200);
+    assert.deepEqual((await stored.json()).concepts, [], 'returned even when older than a day');
+  });
+});
@@ -0,0 +1,335 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Db } from 'mongodb';
+import { POST as createBudget, GET as listBudgets } from '@/app/api/admin/budgets/route';
+import { PATCH as updateBudget } from '@/app/api/admin/budgets/[id]/route';
+import { POST as pipelineAction } from '@/app/api/books/[id]/pipeline/route';
+import { POST as runStep } from '@/app/api/books/[id]/pipeline/step/route';
+import { POST as processAll } from '@/app/api/batch-jobs/process-all/route';
+import { POST as submitOcr } from '@/app/api/cron/submit-ocr/route';
+import { POST as estimateJob } from '@/app/api/jobs/estimate/route';
+import { POST as createJob } from '@/app/api/jobs/route';
+import { createFakeProvider, registerAIProvider } from '@/lib/ai-providers';
+import { checkBudget, estimateCost, periodStart, SPEND_COLLECTION } from '@/lib/budgets';
+import { enqueueJob } from '@/lib/queue';
+import { runWorker } from '@/lib/queue/worker';
+import type { Budget, Job, SpendRecord } from '@/lib/types';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+import { callRoute } from './helpers/route';
+
+// Priced like Gemini 2.5 Flash: $0.15 in, $0.60 out per 1M tokens
+const MODEL = 'gemini:gemini-2.5-flash';
+const BOOK_ID = 'book-1';
+
+// 1x1 PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64'
+);
+
+describe('cost budgets', () => {
+  let memory: MemoryDb;
+  let db: Db;
+
+  beforeEach(() => {
+    memory = installMemoryDb();
+    db = memory as unknown as Db;
+  });
+
+  afterEach(() => {
+    registerAIProvider('fake', () => createFakeProvider());
+    mock.restoreAll();
+  });
+
+  async function addBudget(budget: Partial<Budget>) {
+    const response = await callRoute(createBudget, '/api/admin/budgets', {
+      system: true,
+      body: { scope: 'book', scope_id: BOOK_ID, ...budget },
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  function spend(cost_usd: number, extra: Partial<SpendRecord> = {}) {
+    return memory.collection(SPEND_COLLECTION).insertOne({
+      id: `s${Math.random()}`,
+      tenant_id: 'default',
+      book_id: BOOK_ID,
+      action: 'ocr',
+      model: MODEL,
+      input_tokens: 0,
+      output_tokens: 0,
+      cost_usd,
+      created_at: new Date(),
+      ...extra,
+    });
+  }
+
+  function jobRequest(extra: Record<string, unknown> = {}) {
+    return callRoute(createJob, '/api/jobs', {
+      system: true,
+      body: {
+        type: 'batch_translate',
+        book_id: BOOK_ID,
+        page_ids: Array.from({ length: 100 }, (_, i) => `p${i}`),
+        model: MODEL,
+        ...extra,
+      },
+    });
+  }
+
+  describe('estimates', () => {
+    it('prices pages with the default tokens per page and the Batch API discount', async () => {
+      const estimate = await estimateCost(db, { action: 'ocr', pages: 10, model: MODEL, language: 'Latin' });
+
+      assert.equal(estimate.basis, 'default');
+      assert.equal(estimate.input_tokens_per_page, 2200);
+      // 22,000 input tokens at $0.15/M + 9,000 output tokens at $0.60/M
+      assert.equal(estimate.cost_usd, 0.0087);
+
+      const batch = await estimateCost(db, { action: 'ocr', pages: 10, model: MODEL, language: 'Latin', batchApi: true });
+      assert.equal(batch.cost_usd, 0.00435);
+    });
+
+    it('averages tokens from pages already processed in the language', async () => {
+      await memory.collection('pages').insertMany(Array.from({ length: 6 }, (_, i) => ({
+        id: `g${i}`,
+        ocr: { language: 'Greek', data: 'λόγος', input_tokens: 1000 + i * 100, output_tokens: 400 },
+      })));
+
+      const greek = await estimateCost(db, { action: 'ocr', pages: 1, model: MODEL, language: 'Greek' });
+      assert.equal(greek.basis, 'history');
+      assert.equal(greek.sample_size, 6);
+      assert.equal(greek.input_tokens_per_page, 1250);
+      assert.equal(greek.output_tokens_per_page, 400);
+
+      const latin = await estimateCost(db, { action: 'ocr', pages: 1, model: MODEL, language: 'Latin' });
+      assert.equal(latin.basis, 'default');
+    });
+
+    it('reports where the budgets would stand', async () => {
+      await addBudget({ period: 'month', soft_limit_usd: 1 });
+      await spend(0.95);
+      // Last month's spend doesn't count
+      await spend(5, { created_at: new Date(periodStart('month')!.getTime() - 1) });
+
+      const response = await callRoute(estimateJob, '/api/jobs/estimate', {
+        system: true,
+        body: { type: 'translate', book_id: BOOK_ID, pages: 100, model: MODEL },
+      });
+      const { estimate, budget } = await response.json();
+
+      assert.equal(estimate.action, 'translation');
+      assert.equal(estimate.batch_api, false);
+      assert.equal(budget.allowed, true);
+      assert.equal(budget.needs_confirmation, true);
+      assert.equal(budget.standings[0].spent_usd, 0.95);
+      assert.match(budget.message, /soft limit of the monthly budget for book book-1/);
+    });
+  });
+
+  describe('job creation', () => {
+    it('refuses a job that would exceed a hard limit', async () => {
+      await addBudget({ scope: 'global', soft_limit_usd: 5, hard_limit_usd: 10 });
+      await spend(9.99, { book_id: 'another-book', tenant_id: 'partner' });
+
+      const response = await jobRequest();
+      const body = await response.json();
+
+      assert.equal(response.status, 402);
+      assert.equal(body.budget.allowed, false);
+      assert.match(body.error, /would exceed the monthly budget for the library/);
+      assert.equal(await memory.collection('jobs').countDocuments(), 0);
+    });
+
+    it('asks for confirmation past a soft limit', async () => {
+      await addBudget({ soft_limit_usd: 0.01 });
+
+      const refused = await jobRequest();
+      assert.equal(refused.status, 409);
+      assert.equal((await refused.json()).needs_confirmation, true);
+
+      const confirmed = await jobRequest({ confirm_budget: true });
+      const job = await confirmed.json() as Job;
+      assert.equal(confirmed.status, 200);
+      assert.equal(job.cost_estimate?.pages, 100);
+      assert.equal(job.cost_estimate?.batch_api, true);
+    });
+
+    it('counts the unfinished part of queued jobs as committed', async () => {
+      await addBudget({ hard_limit_usd: 100 });
+      const job = await (await jobRequest()).json() as Job;
+      await memory.collection('jobs').updateOne({ id: job.id }, { $set: { 'progress.completed': 75 } });
+
+      const check = await checkBudget({ tenant_id: 'default', book_id: BOOK_ID }, 0);
+      assert.equal(check.standings[0].committed_usd, Math.round(job.cost_estimate!.cost_usd * 0.25 * 100) / 100);
+    });
+
+    it('leaves jobs that call no paid model alone', async () => {
+      await addBudget({ hard_limit_usd: 0 });
+      const response = await jobRequest({ type: 'batch_split' });
+      assert.equal(response.status, 200);
+    });
+
+    it('skips books over budget when queueing jobs in bulk', async () => {
+      await addBudget({ hard_limit_usd: 1 });
+      await spend(1.5);
+      await memory.collection('books').insertMany([
+        { id: BOOK_ID, title: 'Liber', language: 'Latin' },
+        { id: 'book-2', title: 'Turba', language: 'Latin' },
+      ]);
+      await memory.collection('pages').insertMany([
+        { id: 'a1', book_id: BOOK_ID, page_number: 1 },
+        { id: 'b1', book_id: 'book-2', page_number: 1 },
+      ]);
+
+      const cron = await (await callRoute(submitOcr, '/api/cron/submit-ocr', { method: 'POST', system: true })).json();
+      assert.deepEqual(cron.jobs.map((j: { book_id: string }) => j.book_id), ['book-2']);
+      assert.deepEqual(cron.overBudget.map((b: { book_id: string }) => b.book_id), [BOOK_ID]);
+      assert.match(cron.overBudget[0].reason, /would exceed the monthly budget for book book-1/);
+
+      await memory.collection('jobs').deleteMany({});
+      const bulk = await (await callRoute(processAll, '/api/batch-jobs/process-all', {
+        method: 'POST',
+        system: true,
+        search: { type: 'ocr' },
+      })).json();
+      assert.deepEqual(bulk.ocr_jobs.map((j: { book_id: string }) => j.book_id), ['book-2']);
+      assert.match(bulk.skipped[0], /^Liber OCR: .*would exceed/);
+
+      const [queued] = await memory.collection('jobs').find().toArray() as unknown as Job[];
+      assert.equal(queued.cost_estimate?.pages, 1, 'counted as committed against later runs');
+    });
+  });
+
+  it('pauses a job once a budget it is charged to reaches its hard limit', async () => {
+    await memory.collection('pages').insertOne({ id: 'q1', book_id: BOOK_ID, page_number: 1, photo: 'https://images.example.org/q1.png' });
+    const job = await enqueueJob(db, { type: 'batch_ocr', book_id: BOOK_ID, config: { page_ids: ['q1'] } });
+    await addBudget({ period: 'day', hard_limit_usd: 1 });
+    await spend(1.2);
+
+    await runWorker(db, { workerId: 'test-worker', exitWhenIdle: true });
+
+    const paused = await memory.collection('jobs').findOne({ id: job.id }) as unknown as Job;
+    assert.equal(paused.status, 'paused');
+    assert.equal(paused.progress.completed, 0);
+    assert.match(paused.error ?? '', /daily budget for book book-1 has reached its hard limit: \$1\.20 of \$1\.00/);
+    assert.equal(await memory.collection(SPEND_COLLECTION).countDocuments({ job_id: job.id }), 0);
+  });
+
+  it('records the spend of queued jobs as pages are processed', async () => {
+    registerAIProvider('fake', () => ({ ...createFakeProvider(() => 'Transcriptio'), pricing: () => ({ input: 1, output: 2 }) }));
+    mock.method(globalThis, 'fetch', async () => new Response(PNG, { headers: { 'Content-Type': 'image/png' } }));
+    await memory.collection('pages').insertMany([1, 2].map(n => ({
+      id: `q${n}`, book_id: BOOK_ID, page_number: n, photo: `https://images.example.org/q${n}.png`,
+    })));
+    const job = await enqueueJob(db, { type: 'batch_ocr', book_id: BOOK_ID, config: { page_ids: ['q1', 'q2'] } });
+    await memory.collection('jobs').updateOne({ id: job.id }, { $set: { user_id: 'user-7' } });
+
+    await runWorker(db, { workerId: 'test-worker', exitWhenIdle: true });
+
+    const records = await memory.collection(SPEND_COLLECTION).find({ job_id: job.id }).toArray() as SpendRecord[];
+    assert.deepEqual(records.map(r => r.page_id).sort(), ['q1', 'q2']);
+    assert.ok(records.every(r => r.action === 'ocr' && r.user_id === 'user-7' && r.tenant_id === 'default'));
+    assert.ok(records.every(r => r.cost_usd > 0));
+
+    await addBudget({ scope: 'user', scope_id: 'user-7', period: 'day', soft_limit_usd: 1 });
+    const check = await checkBudget({ tenant_id: 'default', user_id: 'user-7' }, 0);
+    const spent = records.reduce((sum, r) => sum + r.cost_usd, 0);
+    assert.equal(check.standings[0].spent_usd, Math.round(spent * 100) / 100);
+  });
+
+  describe('pipeline', () => {
+    beforeEach(async () => {
+      await memory.collection('books').insertOne({ id: BOOK_ID, title: 'Turba Philosophorum', language: 'Latin' });
+      await memory.collection('pages').insertMany(Array.from({ length: 50 }, (_, i) => ({
+        id: `p${i}`, book_id: BOOK_ID, page_number: i + 1, photo: `https://images.example.org/p${i}.jpg`,
+      })));
+      await callRoute(pipelineAction, `/api/books/${BOOK_ID}/pipeline`, {
+        params: { id: BOOK_ID },
+        system: true,
+        body: { action: 'start', config: { model: MODEL, language: 'Latin' } },
+      });
+    });
+
+    async function step(extra: Record<string, unknown> = {}) {
+      const response = await callRoute(runStep, `/api/books/${BOOK_ID}/pipeline/step`, {
+        params: { id: BOOK_ID },
+        system: true,
+        body: { step: 'ocr', ...extra },
+      });
+      return response.json();
+    }
+
+    async function pipeline() {
+      return (await memory.collection('books').findOne({ id: BOOK_ID }))?.pipeline;
+    }
+
+    it('waits for confirmation past a soft limit', async () => {
+      await addBudget({ soft_limit_usd: 0.001 });
+
+      const waiting = await step();
+      assert.equal(waiting.status, 'needs_confirmation');
+      assert.equal(waiting.nextStep, null);
+      let state = await pipeline();
+      assert.equal(state.status, 'running');
+      assert.equal(state.steps.ocr.status, 'pending');
+      assert.equal(await memory.collection('jobs').countDocuments(), 0);
+
+      const confirmed = await step({ confirm_budget: true });
+      assert.equal(confirmed.status, 'job_created');
+      state = await pipeline();
+      assert.equal(state.steps.ocr.status, 'running');
+    });
+
+    it('fails the step past a hard limit', async () => {
+      await addBudget({ hard_limit_usd: 0.001 });
+
+      const failed = await step({ confirm_budget: true });
+      assert.equal(failed.status, 'failed');
+      const state = await pipeline();
+      assert.equal(state.status, 'failed');
+      assert.match(state.error, /would exceed the monthly budget for book book-1/);
+    });
+  });
+
+  describe('admin', () => {
+    it('validates limits', async () => {
+      assert.equal((await addBudget({})).status, 400);
+      assert.equal((await addBudget({ soft_limit_usd: 20, hard_limit_usd: 10 })).status, 400);
+      assert.equal((await addBudget({ scope: 'tenant', scope_id: 'Not A Tenant', hard_limit_usd: 1 })).status, 400);
+
+      const created = await addBudget({ hard_limit_usd: 10 });
+      assert.equal(created.status, 200);
+      assert.equal(created.body.budget.period, 'month');
+      assert.equal((await addBudget({ hard_limit_usd: 20 })).status, 409);
+    });
+
+    it('lists budgets with their standing and updates limits', async () => {
+      const { body } = await addBudget({ soft_limit_usd: 1, hard_limit_usd: 2 });
+      await spend(1.5);
+
+      const listed = await (await callRoute(listBudgets, '/api/admin/budgets', { system: true })).json();
+      assert.equal(listed.budgets[0].standing.spent_usd, 1.5);
+      assert.equal(listed.budgets[0].standing.exceeds, 'soft');
+
+      const cleared = await callRoute(updateBudget, `/api/admin/budgets/${body.budget.id}`, {
+        method: 'PATCH',
+        params: { id: body.budget.id },
+        system: true,
+        body: { soft_limit_usd: null, period: 'total' },
+      });
+      const { budget } = await cleared.json();
+      assert.equal(budget.soft_limit_usd, undefined);
+      assert.equal(budget.hard_limit_usd, 2);
+      assert.equal(budget.period, 'total');
+
+      const invalid = await callRoute(updateBudget, `/api/admin/budgets/${body.budget.id}`, {
+        method: 'PATCH',
+        params: { id: body.budget.id },
+        system: true,
+        body: { hard_limit_usd: null },
+      });
+      assert.equal(invalid.status, 400);
+    });
+  });
+});
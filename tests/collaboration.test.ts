@@ -0,0 +1,125 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { GET as getPresence, POST as heartbeat } from '@/app/api/pages/[id]/presence/route';
+import { PATCH as updatePage } from '@/app/api/pages/[id]/route';
+import { PRESENCE_COLLECTION } from '@/lib/collaboration';
+import { mergeTexts, resolveMerge } from '@/lib/diff';
+import { textVersion } from '@/lib/text-version';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+import { callRoute } from './helpers/route';
+
+const BASE = 'In the beginning\nwas the word\nand the word\nwas with God';
+
+describe('three-way merge', () => {
+  it('combines edits to different lines', () => {
+    const mine = 'In the beginning\nwas the Word\nand the word\nwas with God';
+    const theirs = 'In the beginning\nwas the word\nand the word\nwas with God.';
+    const result = mergeTexts(BASE, mine, theirs);
+
+    assert.equal(result.conflicts, 0);
+    assert.equal(resolveMerge(result.chunks), 'In the beginning\nwas the Word\nand the word\nwas with God.');
+  });
+
+  it('reports overlapping edits as conflicts, unless both sides agree', () => {
+    const mine = 'In the beginning\nwas the Word\nand the word\nwas with God';
+    const theirs = 'In the beginning\nwas the Logos\nand the word\nwas with God';
+    const result = mergeTexts(BASE, mine, theirs);
+
+    assert.equal(result.conflicts, 1);
+    const conflict = result.chunks.find(chunk => chunk.type === 'conflict');
+    assert.deepEqual(conflict, { type: 'conflict', index: 0, base: ['was the word'], mine: ['was the Word'], theirs: ['was the Logos'] });
+    assert.equal(resolveMerge(result.chunks, { 0: 'theirs' }), theirs);
+    assert.equal(resolveMerge(result.chunks, { 0: 'both' }).split('\n')[2], 'was the Logos');
+
+    assert.equal(mergeTexts(BASE, mine, mine).conflicts, 0);
+  });
+});
+
+describe('saving with version checks', () => {
+  let memory: MemoryDb;
+
+  beforeEach(async () => {
+    memory = installMemoryDb();
+    await memory.collection('pages').insertOne({
+      id: 'p1',
+      book_id: 'book-1',
+      page_number: 1,
+      translation: { data: BASE, language: 'English', source: 'ai' },
+    });
+  });
+
+  const save = async (data: string, base: string, editedBy: string) => callRoute(updatePage, '/api/pages/p1', {
+    system: true,
+    method: 'PATCH',
+    params: { id: 'p1' },
+    body: {
+      translation: { data, language: 'English' },
+      edited_by: editedBy,
+      base_versions: { translation: await textVersion(base) },
+    },
+  });
+
+  it('refuses a save based on text someone else has since changed', async () => {
+    const first = await save(BASE.replace('word', 'Word'), BASE, 'Anna');
+    assert.equal(first.status, 200);
+
+    const second = await save(BASE.replace('God', 'God.'), BASE, 'Ben');
+    assert.equal(second.status, 409);
+    const { conflicts } = await second.json();
+    assert.equal(conflicts.length, 1);
+    assert.equal(conflicts[0].field, 'translation');
+    assert.equal(conflicts[0].current, BASE.replace('word', 'Word'));
+    assert.equal(conflicts[0].edited_by, 'Anna');
+
+    const page = await memory.collection('pages').findOne({ id: 'p1' });
+    assert.equal(page?.translation.data, BASE.replace('word', 'Word'), 'the first save is kept');
+  });
+
+  it('accepts a save based on the current text, or one that matches it', async () => {
+    const edited = BASE.replace('word', 'Word');
+    assert.equal((await save(edited, BASE, 'Anna')).status, 200);
+    assert.equal((await save(edited, BASE, 'Ben')).status, 200, 'the same change twice is not a conflict');
+    assert.equal((await save(`${edited}.`, edited, 'Ben')).status, 200);
+  });
+
+  it('saves fields without a base version as before', async () => {
+    await save(BASE.replace('word', 'Word'), BASE, 'Anna');
+    const response = await callRoute(updatePage, '/api/pages/p1', {
+      system: true,
+      method: 'PATCH',
+      params: { id: 'p1' },
+      body: { translation: { data: 'Overwritten', language: 'English' } },
+    });
+    assert.equal(response.status, 200);
+  });
+});
+
+describe('editor presence', () => {
+  let memory: MemoryDb;
+
+  beforeEach(() => {
+    memory = installMemoryDb();
+  });
+
+  const beat = (name: string) => callRoute(heartbeat, '/api/pages/p1/presence', {
+    system: true,
+    params: { id: 'p1' },
+    body: { name, field: 'translation' },
+  });
+
+  it('lists the other editors of a page and leaves out stale ones', async () => {
+    await memory.collection(PRESENCE_COLLECTION).insertOne({
+      page_id: 'p1',
+      user_key: 'name:Carl',
+      name: 'Carl',
+      seen_at: new Date(Date.now() - 5 * 60_000),
+    });
+    await beat('Anna');
+
+    const { editors } = await (await beat('Ben')).json();
+    assert.deepEqual(editors.map((e: { name: string }) => e.name), ['Anna']);
+
+    const listed = await (await callRoute(getPresence, '/api/pages/p1/presence', { params: { id: 'p1' } })).json();
+    assert.deepEqual(listed.editors.map((e: { name: string }) => e.name).sort(), ['Anna', 'Ben']);
+  });
+});
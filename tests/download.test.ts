@@ -0,0 +1,169 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { GET as download } from '@/app/api/books/[id]/download/route';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+import { callRoute } from './helpers/route';
+import { readZip } from './helpers/zip';
+
+const photo = (pageId: string) => `https://images.example.org/${pageId}.jpg`;
+
+async function get(format: string, id = 'book-1') {
+  return callRoute(download, `/api/books/${id}/download`, { params: { id }, search: { format } });
+}
+
+async function epubEntries(format: string) {
+  const response = await get(format);
+  assert.equal(response.status, 200);
+  assert.equal(response.headers.get('content-type'), 'application/epub+zip');
+
+  const entries = readZip(Buffer.from(await response.arrayBuffer()));
+  return {
+    response,
+    names: entries.map(entry => entry.name),
+    entries,
+    text: (name: string) => entries.find(entry => entry.name === name)?.data.toString('utf8') ?? '',
+    allText: entries.map(entry => entry.data.toString('utf8')).join('\n'),
+  };
+}
+
+describe('GET /api/books/[id]/download', () => {
+  let db: MemoryDb;
+
+  beforeEach(async () => {
+    db = installMemoryDb();
+    await db.collection('books').insertOne({
+      id: 'book-1',
+      title: 'De Alchimia Opuscula',
+      display_title: 'Little Works on Alchemy',
+      author: 'Anonymous',
+      language: 'Latin',
+      published: '1550',
+    });
+    await db.collection('pages').insertMany([
+      // Stored out of order: downloads follow page_number
+      { id: 'p2', book_id: 'book-1', page_number: 2, photo: photo('p2'), ocr: { data: 'Secunda pagina' } },
+      {
+        id: 'p1', book_id: 'book-1', page_number: 1, photo: photo('p1'),
+        ocr: { data: 'Prima materia est **omnium** origo' },
+        translation: { data: 'The first matter is the **origin** of all things' },
+      },
+      { id: 'p3', book_id: 'book-1', page_number: 3, photo: photo('p3'), translation: { data: 'A translated page without OCR' } },
+      { id: 'other', book_id: 'book-2', page_number: 1, photo: photo('other'), translation: { data: 'From another book' } },
+    ]);
+  });
+
+  it('rejects unknown formats and missing books', async () => {
+    assert.equal((await get('pdf')).status, 400);
+    assert.equal((await get('epub-translation', 'missing')).status, 404);
+  });
+
+  describe('EPUB', () => {
+    it('starts with an uncompressed mimetype entry', async () => {
+      const { entries } = await epubEntries('epub-translation');
+
+      assert.equal(entries[0].name, 'mimetype');
+      assert.equal(entries[0].stored, true);
+      assert.equal(entries[0].data.toString(), 'application/epub+zip');
+      assert.ok(entries.some(entry => entry.name === 'META-INF/container.xml'));
+    });
+
+    it('builds a translation EPUB from translated pages', async () => {
+      const { response, names, text, allText } = await epubEntries('epub-translation');
+
+      assert.equal(
+        response.headers.get('content-disposition'),
+        'attachment; filename="little-works-on-alchemy-translation.epub"'
+      );
+      assert.deepEqual(names.filter(name => name.endsWith('.xhtml') && name.includes('Page-')), [
+        'OEBPS/1_Page-1.xhtml',
+        'OEBPS/2_Page-3.xhtml',
+      ]);
+      assert.match(text('OEBPS/1_Page-1.xhtml'), /The first matter is the <strong>origin<\/strong> of all things/);
+      assert.match(text('OEBPS/0_Title-Page.xhtml'), /Little Works on Alchemy/);
+      assert.match(text('OEBPS/content.opf'), /<dc:language>en<\/dc:language>/);
+      assert.doesNotMatch(allText, /Prima materia|From another book/);
+    });
+
+    it('builds an original-language EPUB from OCR text', async () => {
+      const { names, text, allText } = await epubEntries('epub-ocr');
+
+      assert.deepEqual(names.filter(name => name.includes('Page-')), ['OEBPS/1_Page-1.xhtml', 'OEBPS/2_Page-2.xhtml']);
+      assert.match(text('OEBPS/2_Page-2.xhtml'), /Secunda pagina/);
+      assert.match(text('OEBPS/content.opf'), /<dc:language>Latin<\/dc:language>/);
+      assert.doesNotMatch(allText, /The first matter/);
+    });
+
+    it('includes both texts of every page with either', async () => {
+      const { names, text } = await epubEntries('epub-both');
+
+      assert.equal(names.filter(name => name.includes('Page-')).length, 3);
+      const page1 = text('OEBPS/1_Page-1.xhtml');
+      assert.match(page1, /<h2>Translation<\/h2>/);
+      assert.match(page1, /<h2>Original \(Latin\)<\/h2>/);
+    });
+
+    it('pairs original and translation in the parallel EPUB', async () => {
+      const { response, names, text } = await epubEntries('epub-parallel');
+
+      assert.equal(
+        response.headers.get('content-disposition'),
+        'attachment; filename="little-works-on-alchemy-parallel.epub"'
+      );
+      // Only page 1 has both texts
+      assert.deepEqual(names.filter(name => name.startsWith('OEBPS/page-')), [
+        'OEBPS/page-1-orig.xhtml',
+        'OEBPS/page-1-trans.xhtml',
+      ]);
+      assert.match(text('OEBPS/page-1-orig.xhtml'), /Prima materia/);
+      assert.match(text('OEBPS/page-1-trans.xhtml'), /The first matter/);
+      assert.match(text('OEBPS/content.opf'), /page-1-orig\.xhtml/);
+    });
+  });
+
+  it('writes plain text in page order', async () => {
+    const response = await get('both');
+    assert.equal(response.headers.get('content-type'), 'text/plain; charset=utf-8');
+
+    const text = await response.text();
+    assert.match(text, /Title: Little Works on Alchemy/);
+    assert.match(text, /Original Title: De Alchimia Opuscula/);
+    assert.ok(text.indexOf('The first matter') < text.indexOf('Secunda pagina'));
+    assert.ok(text.indexOf('Secunda pagina') < text.indexOf('A translated page without OCR'));
+  });
+
+  it('exports TEI', async () => {
+    const response = await get('tei');
+    assert.equal(response.headers.get('content-type'), 'application/tei+xml; charset=utf-8');
+    assert.match(await response.text(), /<TEI xmlns="http:\/\/www.tei-c.org\/ns\/1.0"/);
+  });
+
+  it('needs word-level OCR for ALTO and hOCR', async () => {
+    assert.equal((await get('alto')).status, 404);
+
+    await db.collection('pages').updateOne({ id: 'p1' }, {
+      $set: {
+        'ocr.layout': {
+          model: 'fake-model',
+          width: 1000,
+          height: 1500,
+          created_at: new Date(),
+          lines: [{
+            text: 'Prima materia',
+            box: { xStart: 100, yStart: 100, xEnd: 600, yEnd: 150 },
+            words: [
+              { text: 'Prima', box: { xStart: 100, yStart: 100, xEnd: 300, yEnd: 150 } },
+              { text: 'materia', box: { xStart: 350, yStart: 100, xEnd: 600, yEnd: 150 } },
+            ],
+          }],
+        },
+      },
+    });
+
+    const alto = await (await get('alto')).text();
+    assert.match(alto, /CONTENT="Prima"/);
+    assert.match(alto, /CONTENT="materia"/);
+
+    const hocr = await (await get('hocr')).text();
+    assert.match(hocr, /class="ocrx_word"[^>]*>Prima</);
+  });
+});
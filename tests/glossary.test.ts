@@ -0,0 +1,264 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { POST as seed } from '@/app/api/glossary/seed/route';
+import { POST as createEntry } from '@/app/api/glossary/route';
+import { GET as bookGlossary } from '@/app/api/books/[id]/glossary/route';
+import { POST as approve } from '@/app/api/books/[id]/translation-memory/route';
+import { POST as processJob } from '@/app/api/jobs/[id]/process/route';
+import type { GenerateRequest } from '@/lib/ai-providers';
+import {
+  findGlossaryViolations,
+  formatTranslationGuidance,
+  matchTranslationMemory,
+  segmentPage,
+  selectGlossaryEntries,
+} from '@/lib/glossary/match';
+import type { GlossaryEntry, TranslationMemorySegment } from '@/lib/types';
+import { applyFix, validateTranslation } from '@/lib/validateTranslation';
+import { installFakeAI } from './helpers/fake-ai';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+import { callRoute } from './helpers/route';
+
+// A book of the "Adam Smith & Foundations of Political Economy" collection in curator-data
+const COLLECTION_BOOK = '69568c79be7c607c5f03d7bb';
+
+function entry(source: string, target: string, extra: Partial<GlossaryEntry> = {}): GlossaryEntry {
+  return {
+    id: source,
+    scope: 'book',
+    scope_id: 'book-1',
+    source_term: source,
+    target_language: 'English',
+    target_term: target,
+    origin: 'manual',
+    created_at: new Date(),
+    ...extra,
+  };
+}
+
+describe('glossary matching', () => {
+  const glossary = [
+    entry('quinta essentia', 'fifth essence', { allowed_renderings: ['quintessence'] }),
+    entry('Azoth', 'Azoth'),
+    entry('Mercurius philosophorum', "philosophers' mercury"),
+  ];
+
+  it('finds terms across spelling variants of the source', () => {
+    const selected = selectGlossaryEntries(glossary, 'De qvinta eſſentia et AZOTH', 'Latin');
+    assert.deepEqual(selected.map(e => e.source_term), ['quinta essentia', 'Azoth']);
+  });
+
+  it('matches whole words only', () => {
+    assert.deepEqual(selectGlossaryEntries(glossary, 'Azothum non est Mercurius', 'Latin'), []);
+  });
+
+  it('accepts the agreed rendering or an allowed alternative', () => {
+    const source = 'Quinta essentia et Azoth.';
+    assert.deepEqual(findGlossaryViolations(glossary, source, 'The Fifth Essence and Azoth.', 'Latin'), []);
+    assert.deepEqual(findGlossaryViolations(glossary, source, 'The quintessence and Azoth.', 'Latin'), []);
+  });
+
+  it('reports other renderings and terms left untranslated', () => {
+    const violations = findGlossaryViolations(
+      glossary,
+      'Quinta essentia. Mercurius philosophorum.',
+      'The fifth being. The mercurius philosophorum.',
+      'Latin'
+    );
+
+    assert.deepEqual(violations.map(v => v.entry.source_term), ['quinta essentia', 'Mercurius philosophorum']);
+    assert.equal(violations[0].untranslated, undefined);
+    assert.deepEqual(violations[1].untranslated, { start: 21, end: 44 });
+  });
+
+  it('flags violations in validateTranslation with a fix for untranslated terms', () => {
+    const options = { glossary, sourceText: 'Mercurius philosophorum', sourceLanguage: 'Latin' };
+    const text = 'Take the Mercurius Philosophorum.';
+    const result = validateTranslation(text, options);
+
+    assert.equal(result.valid, false);
+    const [issue] = result.issues;
+    assert.equal(issue.type, 'glossary_violation');
+    assert.equal(text.slice(issue.position, issue.position + issue.length), 'Mercurius Philosophorum');
+    assert.match(issue.message, /philosophers' mercury/);
+
+    const fixed = applyFix(text, issue.suggestedFix!);
+    assert.equal(fixed, "Take the philosophers' mercury.");
+    assert.equal(validateTranslation(fixed, options).valid, true);
+  });
+
+  it('leaves validation unchanged without a source text', () => {
+    assert.equal(validateTranslation('The fifth being.', { glossary }).valid, true);
+  });
+});
+
+describe('translation memory matching', () => {
+  function segment(source: string, target: string): TranslationMemorySegment {
+    return {
+      id: source, book_id: 'book-1', page_id: 'p1', source_language: 'Latin', target_language: 'English',
+      source_text: source, target_text: target, created_at: new Date(),
+    };
+  }
+
+  it('pairs paragraphs when both texts have the same number', () => {
+    assert.deepEqual(
+      segmentPage('<page-num>3</page-num>\nPrimum caput.\n\nSecundum caput.', 'First chapter.\n\nSecond chapter.'),
+      [{ source: 'Primum caput.', target: 'First chapter.' }, { source: 'Secundum caput.', target: 'Second chapter.' }]
+    );
+    assert.deepEqual(segmentPage('Unum.\n\nDuo.', 'One and two.'), [{ source: 'Unum.\n\nDuo.', target: 'One and two.' }]);
+  });
+
+  it('offers segments whose wording appears on the page', () => {
+    const segments = [
+      segment('Solve et coagula, dicunt philosophi', 'Dissolve and coagulate, say the philosophers'),
+      segment('Ignis et azoth tibi sufficiunt', 'Fire and azoth suffice for you'),
+      segment('Caput II', 'Chapter II'),
+    ];
+    const matches = matchTranslationMemory(segments, 'Ut dicunt philosophi: solve et coagula. Caput II.', 'Latin');
+
+    assert.deepEqual(matches.map(m => m.target_text), ['Dissolve and coagulate, say the philosophers']);
+    assert.equal(matches[0].score, 1);
+  });
+
+  it('formats guidance for the prompt', () => {
+    const text = formatTranslationGuidance({
+      glossary: [entry('quinta essentia', 'fifth essence', { allowed_renderings: ['quintessence'], note: 'Paracelsian sense' })],
+      memory: [{ source_text: 'Solve et coagula', target_text: 'Dissolve and coagulate', book_id: 'b', page_id: 'p', score: 1 }],
+    });
+
+    assert.match(text, /- quinta essentia → fifth essence \(also acceptable: quintessence\) - Paracelsian sense/);
+    assert.match(text, /Source: Solve et coagula\nTranslation: Dissolve and coagulate/);
+    assert.equal(formatTranslationGuidance({ glossary: [], memory: [] }), '');
+  });
+});
+
+describe('glossary routes', () => {
+  let db: MemoryDb;
+
+  beforeEach(async () => {
+    db = installMemoryDb();
+    await db.collection('books').insertMany([
+      { id: 'book-1', title: 'Archidoxa', language: 'Latin' },
+      { id: COLLECTION_BOOK, title: 'Theory of Moral Sentiments', language: 'English' },
+    ]);
+    await db.collection('pages').insertMany([
+      {
+        id: 'p1', book_id: 'book-1', page_number: 1,
+        ocr: { data: 'De quinta essentia.\n<vocab>quinta essentia, Azoth</vocab>' },
+        translation: { data: 'On the <term>quinta essentia → fifth essence (the purest part)</term>.' },
+      },
+      {
+        id: 'p2', book_id: 'book-1', page_number: 2,
+        ocr: { data: 'Azoth et Mercurius.\n<vocab>Azoth, Mercurius vitae, arcanum</vocab>' },
+        translation: { data: 'Azoth and <term>Mercurius vitae → mercury of life</term>.' },
+      },
+    ]);
+    await db.collection('encyclopedia').insertOne({
+      id: 'enc-azoth', slug: 'azoth', title: 'Azoth', aliases: ['Azoth of the Philosophers', 'Universal Medicine'],
+      primary_sources: [],
+    });
+  });
+
+  it('seeds a book glossary from vocabulary, glosses and the encyclopedia', async () => {
+    const dryRun = await callRoute(seed, '/api/glossary/seed', {
+      system: true,
+      body: { scope: 'book', scope_id: 'book-1' },
+    });
+    assert.equal((await dryRun.json()).created, 3);
+    assert.equal(await db.collection('glossary').countDocuments(), 0);
+
+    const response = await callRoute(seed, '/api/glossary/seed', {
+      system: true,
+      body: { scope: 'book', scope_id: 'book-1', dryRun: false },
+    });
+    const body = await response.json();
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(body.unresolved, ['arcanum']);
+
+    const entries = await db.collection('glossary').find({}).sort({ source_term: 1 }).toArray();
+    assert.deepEqual(
+      entries.map(e => [e.source_term, e.target_term, e.allowed_renderings, e.origin]),
+      [
+        ['Azoth', 'Azoth of the Philosophers', ['Universal Medicine'], 'encyclopedia'],
+        ['Mercurius vitae', 'mercury of life', undefined, 'vocabulary'],
+        ['quinta essentia', 'fifth essence', undefined, 'vocabulary'],
+      ]
+    );
+
+    // Seeding again keeps what is there
+    const again = await callRoute(seed, '/api/glossary/seed', {
+      system: true,
+      body: { scope: 'book', scope_id: 'book-1', dryRun: false },
+    });
+    assert.deepEqual([(await again.json()).created, await db.collection('glossary').countDocuments()], [0, 3]);
+  });
+
+  it('combines collection and book glossaries, book entries first', async () => {
+    const add = (body: Record<string, unknown>) => callRoute(createEntry, '/api/glossary', { system: true, body });
+
+    assert.equal((await add({ scope: 'collection', scope_id: 'adam-smith-foundations', source_term: 'sympathy', target_term: 'fellow-feeling' })).status, 200);
+    assert.equal((await add({ scope: 'collection', scope_id: 'adam-smith-foundations', source_term: 'spectator', target_term: 'onlooker' })).status, 200);
+    assert.equal((await add({ scope: 'book', scope_id: COLLECTION_BOOK, source_term: 'Sympathy', target_term: 'sympathy' })).status, 200);
+    assert.equal((await add({ scope: 'book', scope_id: COLLECTION_BOOK, source_term: 'sympathy', target_term: 'pity' })).status, 409);
+    assert.equal((await add({ scope: 'collection', scope_id: 'no-such-collection', source_term: 'a', target_term: 'b' })).status, 404);
+
+    const response = await callRoute(bookGlossary, `/api/books/${COLLECTION_BOOK}/glossary`, { params: { id: COLLECTION_BOOK } });
+    const body = await response.json();
+
+    assert.deepEqual(body.collections, ['adam-smith-foundations']);
+    assert.deepEqual(
+      body.entries.map((e: GlossaryEntry) => [e.scope, e.source_term, e.target_term]),
+      [['collection', 'spectator', 'onlooker'], ['book', 'Sympathy', 'sympathy']]
+    );
+  });
+
+  describe('in translation jobs', () => {
+    let calls: ReturnType<typeof installFakeAI>;
+
+    beforeEach(() => {
+      calls = installFakeAI(() => 'Translated');
+      mock.method(globalThis, 'fetch', async () => new Response(null, { status: 200 }));
+    });
+
+    afterEach(() => {
+      mock.restoreAll();
+    });
+
+    it('puts the relevant glossary entries and approved passages in the prompt', async () => {
+      await db.collection('glossary').insertMany([
+        entry('Azoth', 'Azoth', { id: 'g1' }),
+        entry('lapis', 'stone', { id: 'g2' }),
+      ]);
+      await db.collection('pages').insertOne({
+        id: 'p3', book_id: 'book-1', page_number: 3,
+        ocr: { data: 'Azoth et Mercurius lavant laton.' },
+        translation: { data: 'Azoth and Mercury wash the laton.' },
+      });
+      const approved = await callRoute(approve, '/api/books/book-1/translation-memory', {
+        params: { id: 'book-1' },
+        system: true,
+        body: { pageIds: ['p3', 'elsewhere'] },
+      });
+      assert.deepEqual(await approved.json(), { success: true, approvedPages: 1, segments: 1, skipped: 1 });
+
+      await db.collection('pages').updateOne({ id: 'p2' }, { $unset: { translation: '' } });
+      await db.collection('jobs').insertOne({
+        id: 'job-1', type: 'batch_translate', status: 'pending', book_id: 'book-1',
+        progress: { total: 1, completed: 0, failed: 0 }, results: [],
+        config: { model: 'gemini-2.5-flash', language: 'Latin', page_ids: ['p2'] },
+        created_at: new Date(), updated_at: new Date(),
+      });
+      await db.collection('pages').updateOne({ id: 'p2' }, { $set: { 'ocr.data': 'Azoth et Mercurius lavant laton. Finis.' } });
+
+      const response = await callRoute(processJob, '/api/jobs/job-1/process', { method: 'POST', params: { id: 'job-1' }, system: true });
+      assert.equal((await response.json()).job.status, 'completed');
+
+      const { prompt } = calls[0] as GenerateRequest;
+      assert.match(prompt, /\*\*Glossary[^\n]*\n- Azoth → Azoth\n\n/);
+      assert.doesNotMatch(prompt, /lapis/);
+      assert.match(prompt, /Source: Azoth et Mercurius lavant laton\.\nTranslation: Azoth and Mercury wash the laton\./);
+      assert.ok(prompt.indexOf('**Glossary') < prompt.indexOf('**Text to translate:**'));
+    });
+  });
+});
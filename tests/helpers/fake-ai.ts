@@ -0,0 +1,34 @@
+/**
+ * Scripted AI answers. Every provider call made by the code under test is
+ * recorded, and answered by the responder (by default the fake provider's
+ * deterministic placeholder text).
+ */
+
+import { createFakeProvider, registerAIProvider, type FakeResponder } from '@/lib/ai-providers';
+import type { ChatRequest, GenerateRequest } from '@/lib/ai-providers';
+
+/**
+ * Route all AI calls to the fake provider and return the list of requests it
+ * receives. Call it in beforeEach() to start with an empty list.
+ */
+export function installFakeAI(respond?: FakeResponder): Array<GenerateRequest | ChatRequest> {
+  const calls: Array<GenerateRequest | ChatRequest> = [];
+
+  registerAIProvider('fake', () => {
+    const provider = createFakeProvider(respond);
+    return {
+      ...provider,
+      generate: (request) => {
+        calls.push(request);
+        return provider.generate(request);
+      },
+      chat: (request) => {
+        calls.push(request);
+        return provider.chat(request);
+      },
+    };
+  });
+  process.env.AI_PROVIDER = 'fake';
+
+  return calls;
+}
@@ -0,0 +1,328 @@
+/**
+ * In-memory stand-in for the MongoDB driver's Db, for running route handlers
+ * without a server. Queries, projections, updates and aggregation pipelines
+ * are evaluated by mingo, which implements MongoDB's query language; the
+ * collection methods mirror the driver's so route code runs unchanged.
+ *
+ * Covers what the app's routes use. Sessions, change streams and Atlas
+ * search stages ($search, $vectorSearch) are not supported.
+ */
+
+import { Aggregator, Query, updateOne as applyUpdate } from 'mingo';
+import { ObjectId, type Db, type Document, type MongoClient } from 'mongodb';
+import { setUsersDatabase } from '@/lib/auth';
+import { setDatabase } from '@/lib/mongodb';
+
+type Filter = Document;
+type Sort = Record<string, 1 | -1>;
+
+interface FindOptions {
+  projection?: Document;
+  sort?: Sort;
+  skip?: number;
+  limit?: number;
+}
+
+interface UpdateOptions {
+  upsert?: boolean;
+  arrayFilters?: Document[];
+}
+
+// Dates and ObjectIds are kept by reference, everything else is copied so
+// callers can't change stored documents by mutating what they were given
+function clone<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(clone) as T;
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, clone(v)])) as T;
+  }
+  return value;
+}
+
+function matches(doc: Document, filter: Filter = {}): boolean {
+  return new Query(filter).test(doc);
+}
+
+function sortDocuments(docs: Document[], sort?: Sort): Document[] {
+  return sort && Object.keys(sort).length > 0
+    ? new Aggregator([{ $sort: sort }]).run(docs) as Document[]
+    : docs;
+}
+
+function projectDocuments(docs: Document[], projection?: Document): Document[] {
+  return projection && Object.keys(projection).length > 0
+    ? new Aggregator([{ $project: projection }]).run(docs) as Document[]
+    : docs;
+}
+
+// $setOnInsert only applies when an upsert inserts
+function withoutSetOnInsert(update: Document): Document {
+  return Object.fromEntries(Object.entries(update).filter(([operator]) => operator !== '$setOnInsert'));
+}
+
+/**
+ * The plain-equality part of a filter, which an upsert copies into the new
+ * document.
+ */
+function equalityFields(filter: Filter): Document {
+  const fields: Document = {};
+  for (const [key, value] of Object.entries(filter)) {
+    if (key.startsWith('$')) continue;
+    const isOperator = value && typeof value === 'object' && !Array.isArray(value) &&
+      Object.keys(value).some(k => k.startsWith('$'));
+    if (!isOperator) fields[key] = value;
+  }
+  return fields;
+}
+
+export class MemoryCursor {
+  private sortSpec?: Sort;
+  private skipCount = 0;
+  private limitCount = 0;
+  private projection?: Document;
+
+  constructor(private readonly source: () => Document[], options: FindOptions = {}) {
+    this.sortSpec = options.sort;
+    this.skipCount = options.skip || 0;
+    this.limitCount = options.limit || 0;
+    this.projection = options.projection;
+  }
+
+  sort(sort: Sort): this {
+    this.sortSpec = sort;
+    return this;
+  }
+
+  skip(count: number): this {
+    this.skipCount = count;
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  project(projection: Document): this {
+    this.projection = projection;
+    return this;
+  }
+
+  async toArray(): Promise<Document[]> {
+    let docs = sortDocuments(this.source(), this.sortSpec).slice(this.skipCount);
+    if (this.limitCount > 0) docs = docs.slice(0, this.limitCount);
+    return projectDocuments(docs, this.projection).map(clone);
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<Document> {
+    yield* await this.toArray();
+  }
+}
+
+export class MemoryCollection {
+  documents: Document[] = [];
+
+  constructor(readonly collectionName: string) {}
+
+  private matching(filter?: Filter): Document[] {
+    return this.documents.filter(doc => matches(doc, filter));
+  }
+
+  find(filter: Filter = {}, options?: FindOptions): MemoryCursor {
+    return new MemoryCursor(() => this.matching(filter), options);
+  }
+
+  async findOne(filter: Filter = {}, options: FindOptions = {}): Promise<Document | null> {
+    const [doc] = await this.find(filter, { ...options, limit: 1 }).toArray();
+    return doc ?? null;
+  }
+
+  async countDocuments(filter?: Filter): Promise<number> {
+    return this.matching(filter).length;
+  }
+
+  async estimatedDocumentCount(): Promise<number> {
+    return this.documents.length;
+  }
+
+  async distinct(key: string, filter?: Filter): Promise<unknown[]> {
+    const rows = new Aggregator([{ $group: { _id: `$${key}` } }]).run(this.matching(filter)) as Document[];
+    return rows.map(row => row._id).filter(value => value !== undefined && value !== null);
+  }
+
+  aggregate(pipeline: Document[] = []): { toArray(): Promise<Document[]> } {
+    return {
+      toArray: async () => (new Aggregator(pipeline).run(this.documents) as Document[]).map(clone),
+    };
+  }
+
+  async insertOne(doc: Document): Promise<{ acknowledged: true; insertedId: unknown }> {
+    // Like the driver, give the caller's document its _id
+    doc._id ??= new ObjectId();
+    this.documents.push(clone(doc));
+    return { acknowledged: true, insertedId: doc._id };
+  }
+
+  async insertMany(docs: Document[]): Promise<{ acknowledged: true; insertedCount: number }> {
+    for (const doc of docs) await this.insertOne(doc);
+    return { acknowledged: true, insertedCount: docs.length };
+  }
+
+  private upsert(filter: Filter, update: Document, options: UpdateOptions): unknown {
+    const { $setOnInsert, ...operators } = update;
+    const doc: Document = { _id: new ObjectId(), ...clone(equalityFields(filter)) };
+    applyUpdate([doc], {}, { ...operators, $set: { ...operators.$set, ...$setOnInsert } }, { arrayFilters: options.arrayFilters });
+    this.documents.push(doc);
+    return doc._id;
+  }
+
+  private update(filter: Filter, update: Document, options: UpdateOptions, many: boolean) {
+    const operators = withoutSetOnInsert(update);
+    const targets = many ? this.matching(filter) : this.matching(filter).slice(0, 1);
+
+    let modifiedCount = 0;
+    for (const doc of targets) {
+      const result = applyUpdate([doc], {}, operators, { arrayFilters: options.arrayFilters });
+      modifiedCount += result.modifiedCount;
+    }
+
+    if (targets.length === 0 && options.upsert) {
+      const upsertedId = this.upsert(filter, update, options);
+      return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedCount: 1, upsertedId };
+    }
+    return { acknowledged: true, matchedCount: targets.length, modifiedCount, upsertedCount: 0, upsertedId: null };
+  }
+
+  async updateOne(filter: Filter, update: Document, options: UpdateOptions = {}) {
+    return this.update(filter, update, options, false);
+  }
+
+  async updateMany(filter: Filter, update: Document, options: UpdateOptions = {}) {
+    return this.update(filter, update, options, true);
+  }
+
+  async replaceOne(filter: Filter, replacement: Document, options: UpdateOptions = {}) {
+    const index = this.documents.findIndex(doc => matches(doc, filter));
+    if (index === -1) {
+      if (!options.upsert) return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedCount: 0 };
+      await this.insertOne(replacement);
+      return { acknowledged: true, matchedCount: 0, modifiedCount: 0, upsertedCount: 1 };
+    }
+    this.documents[index] = { _id: this.documents[index]._id, ...clone(replacement) };
+    return { acknowledged: true, matchedCount: 1, modifiedCount: 1, upsertedCount: 0 };
+  }
+
+  async findOneAndUpdate(
+    filter: Filter,
+    update: Document,
+    options: UpdateOptions & { returnDocument?: 'before' | 'after'; sort?: Sort; projection?: Document } = {}
+  ): Promise<Document | null> {
+    const [target] = sortDocuments(this.matching(filter), options.sort);
+    const before = target ? clone(target) : null;
+
+    let after: Document | null = null;
+    if (target) {
+      applyUpdate([target], {}, withoutSetOnInsert(update), { arrayFilters: options.arrayFilters });
+      after = target;
+    } else if (options.upsert) {
+      const id = this.upsert(filter, update, options);
+      after = this.documents.find(doc => doc._id === id) ?? null;
+    }
+
+    const result = options.returnDocument === 'after' ? after : before;
+    return result ? projectDocuments([clone(result)], options.projection)[0] : null;
+  }
+
+  async findOneAndDelete(filter: Filter, options: { sort?: Sort } = {}): Promise<Document | null> {
+    const [target] = sortDocuments(this.matching(filter), options.sort);
+    if (!target) return null;
+    this.documents = this.documents.filter(doc => doc !== target);
+    return clone(target);
+  }
+
+  async deleteOne(filter: Filter) {
+    const index = this.documents.findIndex(doc => matches(doc, filter));
+    if (index !== -1) this.documents.splice(index, 1);
+    return { acknowledged: true, deletedCount: index === -1 ? 0 : 1 };
+  }
+
+  async deleteMany(filter: Filter = {}) {
+    const before = this.documents.length;
+    this.documents = this.documents.filter(doc => !matches(doc, filter));
+    return { acknowledged: true, deletedCount: before - this.documents.length };
+  }
+
+  async bulkWrite(operations: Document[]) {
+    let insertedCount = 0, matchedCount = 0, modifiedCount = 0, deletedCount = 0, upsertedCount = 0;
+    for (const op of operations) {
+      if (op.insertOne) {
+        await this.insertOne(op.insertOne.document);
+        insertedCount++;
+      } else if (op.updateOne || op.updateMany) {
+        const { filter, update, ...options } = op.updateOne || op.updateMany;
+        const result = this.update(filter, update, options, !!op.updateMany);
+        matchedCount += result.matchedCount;
+        modifiedCount += result.modifiedCount;
+        upsertedCount += result.upsertedCount;
+      } else if (op.replaceOne) {
+        const { filter, replacement, ...options } = op.replaceOne;
+        const result = await this.replaceOne(filter, replacement, options);
+        matchedCount += result.matchedCount;
+        modifiedCount += result.modifiedCount;
+        upsertedCount += result.upsertedCount;
+      } else if (op.deleteOne) {
+        deletedCount += (await this.deleteOne(op.deleteOne.filter)).deletedCount;
+      } else if (op.deleteMany) {
+        deletedCount += (await this.deleteMany(op.deleteMany.filter)).deletedCount;
+      }
+    }
+    return { ok: 1, insertedCount, matchedCount, modifiedCount, deletedCount, upsertedCount };
+  }
+
+  // Indexes are not needed to answer queries in memory
+  async createIndex(spec: Document): Promise<string> {
+    return Object.entries(spec).map(([key, value]) => `${key}_${value}`).join('_');
+  }
+
+  async createIndexes(specs: Array<{ key: Document }>): Promise<string[]> {
+    return Promise.all(specs.map(spec => this.createIndex(spec.key)));
+  }
+
+  async indexes(): Promise<Document[]> {
+    return [{ name: '_id_', key: { _id: 1 } }];
+  }
+}
+
+export class MemoryDb {
+  readonly databaseName = 'memory';
+  private readonly collections = new Map<string, MemoryCollection>();
+
+  collection(name: string): MemoryCollection {
+    let collection = this.collections.get(name);
+    if (!collection) {
+      collection = new MemoryCollection(name);
+      this.collections.set(name, collection);
+    }
+    return collection;
+  }
+
+  async listCollections() {
+    return { toArray: async () => [...this.collections.keys()].map(name => ({ name })) };
+  }
+
+  async dropDatabase(): Promise<boolean> {
+    this.collections.clear();
+    return true;
+  }
+}
+
+/**
+ * A fresh in-memory database that getDb(), connectToDatabase() and
+ * getUsersCollection() hand out from now on. Call it in beforeEach() so every test starts empty.
+ */
+export function installMemoryDb(): MemoryDb {
+  const db = new MemoryDb();
+  const client = { db: () => db, close: async () => {} };
+  setDatabase(client as unknown as MongoClient, db as unknown as Db);
+  setUsersDatabase(db as unknown as Db);
+  return db;
+}
@@ -0,0 +1,106 @@
+/**
+ * Call App Router route handlers from tests.
+ *
+ * Handlers read the request through next/headers (requireRole, getTenantId),
+ * which only works inside the request scope Next.js sets up. callRoute()
+ * recreates the parts of that scope those functions read, so a handler can
+ * be imported and called like any other function.
+ */
+
+import { workAsyncStorage, type WorkStore } from 'next/dist/server/app-render/work-async-storage.external';
+import { workUnitAsyncStorage, type RequestStore } from 'next/dist/server/app-render/work-unit-async-storage.external';
+import { RequestCookies } from 'next/dist/server/web/spec-extension/cookies';
+import { encode } from 'next-auth/jwt';
+import { NextRequest } from 'next/server';
+import { internalRequestHeaders } from '@/lib/auth-guard';
+
+const BASE_URL = 'http://localhost:3000';
+
+type RouteHandler<P> = (request: NextRequest, context: { params: Promise<P> }) => Promise<Response>;
+
+export interface RouteCall<P> {
+  method?: string;
+  params?: P;
+  body?: unknown;
+  search?: Record<string, string>;
+  headers?: Record<string, string>;
+  /** Call as a cron/system request (admin role), optionally within a tenant */
+  system?: boolean | { tenantId: string };
+}
+
+// NextAuth names the cookie, and salts the token with its name, by protocol;
+// without x-forwarded-proto it assumes https
+const SESSION_COOKIE = '__Secure-authjs.session-token';
+
+/**
+ * Request headers for a browser signed in as `userId`: a NextAuth session
+ * cookie, as the app's own sign-in would set it. The role and tenant are
+ * read from the `users` collection, as for a real session.
+ */
+export async function sessionHeaders(userId: string): Promise<Record<string, string>> {
+  const token = await encode({
+    token: { id: userId, sub: userId },
+    secret: process.env.AUTH_SECRET!,
+    salt: SESSION_COOKIE,
+  });
+  return { host: new URL(BASE_URL).host, cookie: `${SESSION_COOKIE}=${token}` };
+}
+
+/**
+ * Run `fn` inside a Next.js request scope with these request headers.
+ */
+export function withRequestScope<T>(url: URL, headers: Headers, fn: () => Promise<T>): Promise<T> {
+  // Only the fields headers() and cookies() read are filled in
+  const workStore = {
+    isStaticGeneration: false,
+    page: url.pathname,
+    route: url.pathname,
+    forceStatic: false,
+    dynamicShouldError: false,
+  } as unknown as WorkStore;
+
+  const requestStore = {
+    type: 'request',
+    phase: 'action',
+    url: { pathname: url.pathname, search: url.search },
+    headers,
+    cookies: new RequestCookies(headers),
+    rootParams: {},
+    renderResumeDataCache: null,
+  } as unknown as RequestStore;
+
+  return workAsyncStorage.run(workStore, () => workUnitAsyncStorage.run(requestStore, fn));
+}
+
+/**
+ * Call a route handler with a request built from `call` and return its
+ * response. `path` only names the request URL; the handler decides what
+ * runs.
+ */
+export async function callRoute<P = Record<string, string>>(
+  handler: RouteHandler<P>,
+  path: string,
+  call: RouteCall<P> = {}
+): Promise<Response> {
+  const url = new URL(path, BASE_URL);
+  for (const [key, value] of Object.entries(call.search || {})) {
+    url.searchParams.set(key, value);
+  }
+
+  const tenantId = typeof call.system === 'object' ? call.system.tenantId : undefined;
+  const headers = new Headers({
+    ...(call.body !== undefined && { 'Content-Type': 'application/json' }),
+    ...(call.system && internalRequestHeaders(tenantId)),
+    ...call.headers,
+  });
+
+  const request = new NextRequest(url, {
+    method: call.method || (call.body !== undefined ? 'POST' : 'GET'),
+    headers,
+    ...(call.body !== undefined && { body: JSON.stringify(call.body) }),
+  });
+
+  return withRequestScope(url, headers, () =>
+    handler(request, { params: Promise.resolve(call.params ?? ({} as P)) })
+  );
+}
@@ -0,0 +1,36 @@
+import { inflateRawSync } from 'node:zlib';
+
+/**
+ * Read the entries of a ZIP archive (EPUBs, image bundles) in archive order.
+ * Supports the stored and deflate methods, which is all archiver and
+ * epub-gen-memory write.
+ */
+export function readZip(archive: Buffer): Array<{ name: string; stored: boolean; data: Buffer }> {
+  // End of central directory record, at the end of the archive unless there
+  // is a comment
+  const end = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  if (end === -1) throw new Error('Not a ZIP archive');
+
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+
+  const entries: Array<{ name: string; stored: boolean; data: Buffer }> = [];
+  for (let i = 0; i < count; i++) {
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const localHeader = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    // The local header repeats the name and has its own extra field length
+    const dataStart = localHeader + 30 +
+      archive.readUInt16LE(localHeader + 26) + archive.readUInt16LE(localHeader + 28);
+    const raw = archive.subarray(dataStart, dataStart + compressedSize);
+
+    entries.push({ name, stored: method === 0, data: method === 0 ? raw : inflateRawSync(raw) });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
@@ -0,0 +1,94 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import { GET as getManifest } from '@/app/api/books/[id]/manifest/route';
+import { IIIF_CONTENT_TYPE, type IIIFManifest } from '@/lib/iiif';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+import { callRoute } from './helpers/route';
+
+const SPREAD = 'https://images.example.org/spread.png';
+
+describe('GET /api/books/[id]/manifest', () => {
+  let db: MemoryDb;
+
+  beforeEach(async () => {
+    db = installMemoryDb();
+    await db.collection('books').insertOne({ id: 'book-1', title: 'De Alchimia', author: 'Anonymous', language: 'Latin' });
+    await db.collection('pages').insertMany([
+      {
+        id: 'p1', book_id: 'book-1', page_number: 1,
+        photo: 'https://images.example.org/p1.jpg',
+        original_dimensions: { width: 1200, height: 1800 },
+        ocr: { data: 'Prima materia' },
+        translation: { data: 'The first matter' },
+      },
+      // The two halves of one scanned spread
+      { id: 'p2', book_id: 'book-1', page_number: 2, photo: 'https://images.example.org/p2.jpg', photo_original: SPREAD, crop: { xStart: 0, xEnd: 500 } },
+      { id: 'p3', book_id: 'book-1', page_number: 3, photo: 'https://images.example.org/p3.jpg', photo_original: SPREAD, crop: { xStart: 500, xEnd: 1000 } },
+    ]);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  async function manifest() {
+    const response = await callRoute(getManifest, '/api/books/book-1/manifest', { params: { id: 'book-1' } });
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('content-type'), IIIF_CONTENT_TYPE);
+    return await response.json() as IIIFManifest;
+  }
+
+  it('reads only the header of scans it has no size for, and saves nothing', async () => {
+    const png = await sharp({ create: { width: 2400, height: 1600, channels: 3, background: '#fff' } }).png().toBuffer();
+    // A server that ignores the Range header and sends the whole image
+    const fetchMock = mock.method(globalThis, 'fetch', async () => new Response(new Uint8Array(png)));
+
+    const { items } = await manifest();
+
+    assert.equal(fetchMock.mock.callCount(), 1, 'each scan once, and none with a known size');
+    const [url, init] = fetchMock.mock.calls[0].arguments as [string, RequestInit];
+    assert.equal(url, SPREAD);
+    assert.equal((init.headers as Record<string, string>).Range, 'bytes=0-65535');
+
+    assert.deepEqual(items.map(canvas => [canvas.width, canvas.height]), [[1200, 1800], [1200, 1600], [1200, 1600]]);
+    const painting = items[2].items[0].items[0].body as { source: { width: number }; selector: { value: string } };
+    assert.equal(painting.source.width, 2400);
+    assert.equal(painting.selector.value, 'xywh=1200,0,1200,1600');
+    assert.equal(items[0].annotations?.[0].items.length, 2, 'transcription and translation');
+
+    assert.equal(await db.collection('pages').countDocuments({ original_dimensions: { $exists: true } }), 1);
+  });
+
+  it('falls back to the split-detection proportions when a scan cannot be read', async () => {
+    await db.collection('pages').updateMany({ photo_original: SPREAD }, { $set: { 'split_detection.metrics.aspectRatio': 1.5 } });
+    mock.method(globalThis, 'fetch', async () => new Response('gone', { status: 404 }));
+
+    const { items } = await manifest();
+    assert.deepEqual(items.slice(1).map(canvas => [canvas.width, canvas.height]), [[1125, 1500], [1125, 1500]]);
+  });
+
+  it('tags only the detected illustrations that have a description', async () => {
+    await db.collection('pages').updateOne({ id: 'p1' }, {
+      $set: {
+        detected_images: [
+          { id: 'img-1', description: 'An alembic', type: 'woodcut', bbox: { x: 0.1, y: 0.1, width: 0.5, height: 0.25 } },
+          { id: 'img-2', bbox: { x: 0.5, y: 0.5, width: 0.2, height: 0.2 } },
+          { id: 'img-3', description: '', museum_description: '', bbox: { x: 0, y: 0, width: 1, height: 1 } },
+        ],
+      },
+    });
+    mock.method(globalThis, 'fetch', async () => new Response('gone', { status: 404 }));
+
+    const { items } = await manifest();
+    const tags = items[0].annotations![0].items.filter(annotation => annotation.motivation === 'tagging');
+    assert.deepEqual(tags.map(tag => [tag.id.split('/').pop(), (tag.body as { value: string }).value]), [['image-img-1', 'An alembic']]);
+    assert.equal(tags[0].target, `${items[0].id}#xywh=120,180,600,450`);
+  });
+
+  it('reports missing books', async () => {
+    const response = await callRoute(getManifest, '/api/books/missing/manifest', { params: { id: 'missing' } });
+    assert.equal(response.status, 404);
+    assert.equal(response.headers.get('access-control-allow-origin'), '*');
+  });
+});
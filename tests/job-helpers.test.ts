@@ -0,0 +1,141 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { canTransitionTo } from '@/lib/job-helpers';
+import type { JobStatus } from '@/lib/types';
+import { POST as cancelJob } from '@/app/api/jobs/[id]/cancel/route';
+import { POST as pauseJob } from '@/app/api/jobs/[id]/pause/route';
+import { POST as resumeJob } from '@/app/api/jobs/[id]/resume/route';
+import { POST as retryJob } from '@/app/api/jobs/[id]/retry/route';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+import { callRoute } from './helpers/route';
+
+const STATUSES: JobStatus[] = ['pending', 'processing', 'paused', 'completed', 'failed', 'cancelled', 'dead'];
+
+// Which statuses each action may start from
+const ALLOWED: Record<'cancel' | 'pause' | 'resume' | 'retry', JobStatus[]> = {
+  cancel: ['pending', 'processing', 'paused', 'failed'],
+  pause: ['pending', 'processing'],
+  resume: ['paused'],
+  retry: ['failed', 'cancelled', 'dead'],
+};
+
+describe('canTransitionTo', () => {
+  for (const [action, allowed] of Object.entries(ALLOWED) as Array<[keyof typeof ALLOWED, JobStatus[]]>) {
+    for (const status of STATUSES) {
+      const expected = allowed.includes(status);
+      it(`${expected ? 'allows' : 'refuses'} ${action} from ${status}`, () => {
+        const result = canTransitionTo(status, action);
+        assert.equal(result.valid, expected);
+        assert.equal(result.error === undefined, expected);
+      });
+    }
+  }
+
+  it('refuses unknown actions', () => {
+    const result = canTransitionTo('pending', 'restart' as 'retry');
+    assert.deepEqual(result, { valid: false, error: 'Invalid action' });
+  });
+});
+
+describe('job control routes', () => {
+  let db: MemoryDb;
+
+  beforeEach(() => {
+    db = installMemoryDb();
+  });
+
+  async function insertJob(status: JobStatus, extra: Record<string, unknown> = {}) {
+    await db.collection('jobs').insertOne({
+      id: 'job-1',
+      type: 'ocr',
+      status,
+      progress: { total: 3, completed: 1, failed: 2 },
+      results: [
+        { page_id: 'p1', success: true },
+        { page_id: 'p2', success: false, error: 'timeout' },
+        { page_id: 'p3', success: false, error: 'timeout' },
+      ],
+      ...extra,
+    });
+  }
+
+  const call = { method: 'POST', params: { id: 'job-1' }, system: true };
+
+  it('cancels a processing job', async () => {
+    await insertJob('processing');
+
+    const response = await callRoute(cancelJob, '/api/jobs/job-1/cancel', call);
+
+    assert.equal(response.status, 200);
+    const job = await db.collection('jobs').findOne({ id: 'job-1' });
+    assert.equal(job?.status, 'cancelled');
+    assert.ok(job?.completed_at instanceof Date);
+  });
+
+  it('rejects cancelling a completed job', async () => {
+    await insertJob('completed');
+
+    const response = await callRoute(cancelJob, '/api/jobs/job-1/cancel', call);
+
+    assert.equal(response.status, 400);
+    assert.deepEqual(await response.json(), { error: 'Job already finished' });
+    assert.equal((await db.collection('jobs').findOne({ id: 'job-1' }))?.status, 'completed');
+  });
+
+  it('pauses and resumes a job', async () => {
+    await insertJob('processing');
+
+    assert.equal((await callRoute(pauseJob, '/api/jobs/job-1/pause', call)).status, 200);
+    assert.equal((await db.collection('jobs').findOne({ id: 'job-1' }))?.status, 'paused');
+
+    assert.equal((await callRoute(resumeJob, '/api/jobs/job-1/resume', call)).status, 200);
+    assert.equal((await db.collection('jobs').findOne({ id: 'job-1' }))?.status, 'pending');
+  });
+
+  it('retries only the failed pages', async () => {
+    await insertJob('failed');
+
+    assert.equal((await callRoute(retryJob, '/api/jobs/job-1/retry', call)).status, 200);
+
+    const job = await db.collection('jobs').findOne({ id: 'job-1' });
+    assert.equal(job?.status, 'pending');
+    assert.deepEqual(job?.progress, { total: 3, completed: 1, failed: 0 });
+    assert.deepEqual(job?.results.map((r: { page_id: string }) => r.page_id), ['p1']);
+  });
+
+  it('puts a dead-lettered job back on the queue', async () => {
+    await insertJob('dead', { attempts: 5, error: 'Lease expired', lease: { owner: 'w1', expires_at: new Date(0) } });
+
+    assert.equal((await callRoute(retryJob, '/api/jobs/job-1/retry', call)).status, 200);
+
+    const job = await db.collection('jobs').findOne({ id: 'job-1' });
+    assert.equal(job?.status, 'pending');
+    assert.equal(job?.attempts, 0);
+    assert.equal(job?.lease, null);
+    assert.equal(job?.error, null);
+  });
+
+  it('returns 404 for a missing job', async () => {
+    const response = await callRoute(cancelJob, '/api/jobs/job-1/cancel', call);
+    assert.equal(response.status, 404);
+  });
+
+  it('requires a signed-in editor', async () => {
+    await insertJob('processing');
+
+    const response = await callRoute(cancelJob, '/api/jobs/job-1/cancel', { ...call, system: false });
+
+    assert.equal(response.status, 401);
+    assert.equal((await db.collection('jobs').findOne({ id: 'job-1' }))?.status, 'processing');
+  });
+
+  it('only sees jobs of the calling tenant', async () => {
+    await insertJob('processing', { tenant_id: 'partner' });
+
+    const other = await callRoute(cancelJob, '/api/jobs/job-1/cancel', { ...call, system: { tenantId: 'elsewhere' } });
+    assert.equal(other.status, 404);
+
+    const own = await callRoute(cancelJob, '/api/jobs/job-1/cancel', { ...call, system: { tenantId: 'partner' } });
+    assert.equal(own.status, 200);
+  });
+});
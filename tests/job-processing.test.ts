@@ -0,0 +1,265 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { POST as batchOcrAsync } from '@/app/api/books/[id]/batch-ocr-async/route';
+import { POST as submitOcr } from '@/app/api/cron/submit-ocr/route';
+import { POST as processJob } from '@/app/api/jobs/[id]/process/route';
+import { POST as createJob } from '@/app/api/jobs/route';
+import type { GenerateRequest } from '@/lib/ai-providers';
+import { installFakeAI } from './helpers/fake-ai';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+import { callRoute } from './helpers/route';
+
+// 1x1 PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64'
+);
+
+/**
+ * Answer image requests with a tiny PNG, and anything else (such as the
+ * job re-triggering itself) with an empty 200.
+ */
+function mockImageFetch() {
+  return mock.method(globalThis, 'fetch', async (input: string | URL | Request) => {
+    const url = String(input instanceof Request ? input.url : input);
+    return url.startsWith('https://images.example.org/')
+      ? new Response(PNG, { headers: { 'Content-Type': 'image/png' } })
+      : new Response(null, { status: 200 });
+  });
+}
+
+describe('POST /api/jobs/[id]/process', () => {
+  let db: MemoryDb;
+  let calls: ReturnType<typeof installFakeAI>;
+
+  beforeEach(async () => {
+    db = installMemoryDb();
+    // OCR requests carry the page image, translations are text only
+    calls = installFakeAI(request => 'images' in request && request.images?.length
+      ? `Transcription #${calls.length}`
+      : `Translation #${calls.length}`);
+    mockImageFetch();
+
+    await db.collection('books').insertOne({ id: 'book-1', title: 'Rosarium', language: 'Latin' });
+    await db.collection('pages').insertMany([1, 2, 3].map(n => ({
+      id: `p${n}`,
+      book_id: 'book-1',
+      page_number: n,
+      photo: `https://images.example.org/p${n}.png`,
+    })));
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  async function insertJob(type: string, pageIds: string[], extra: Record<string, unknown> = {}) {
+    await db.collection('jobs').insertOne({
+      id: 'job-1',
+      type,
+      status: 'pending',
+      progress: { total: pageIds.length, completed: 0, failed: 0 },
+      book_id: 'book-1',
+      results: [],
+      created_at: new Date(),
+      updated_at: new Date(),
+      config: { model: 'gemini-2.5-flash', language: 'Latin', page_ids: pageIds },
+      ...extra,
+    });
+  }
+
+  async function process() {
+    const response = await callRoute(processJob, '/api/jobs/job-1/process', {
+      method: 'POST',
+      params: { id: 'job-1' },
+      system: true,
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  it('OCRs each page with the page image and the previous page as context', async () => {
+    await insertJob('batch_ocr', ['p1', 'p2']);
+
+    const { status, body } = await process();
+
+    assert.equal(status, 200);
+    assert.equal(body.done, true);
+    assert.equal(body.job.status, 'completed');
+    assert.deepEqual(body.job.progress.completed, 2);
+
+    const requests = calls as GenerateRequest[];
+    assert.equal(requests.length, 2);
+    assert.deepEqual(requests[0].images, [{ mimeType: 'image/png', data: PNG.toString('base64') }]);
+    assert.match(requests[0].prompt, /Latin/);
+    assert.match(requests[1].prompt, /Previous page transcription for context:\*\*\nTranscription #1/);
+
+    const page = await db.collection('pages').findOne({ id: 'p2' });
+    assert.equal(page?.ocr.data, 'Transcription #2');
+    assert.equal(page?.ocr.source, 'ai');
+    assert.equal(page?.ocr.image_url, 'https://images.example.org/p2.png');
+    assert.ok(page?.ocr.input_tokens > 258, 'usage is recorded');
+
+    // The search index picks up the new text
+    assert.equal(await db.collection('search_documents').countDocuments({ page_id: 'p2' }), 1);
+  });
+
+  it('snapshots manual edits before overwriting them', async () => {
+    await db.collection('pages').updateOne({ id: 'p1' }, { $set: { ocr: { data: 'Corrected by hand', source: 'manual' } } });
+    await insertJob('batch_ocr', ['p1']);
+
+    await process();
+
+    const snapshot = await db.collection('page_snapshots').findOne({ page_id: 'p1' });
+    assert.equal(snapshot?.snapshot_type, 'pre_ocr');
+    assert.equal(snapshot?.triggered_by_job_id, 'job-1');
+    assert.equal((await db.collection('pages').findOne({ id: 'p1' }))?.ocr.data, 'Transcription #1');
+  });
+
+  it('translates pages that have OCR and fails the rest', async () => {
+    await db.collection('pages').updateOne({ id: 'p1' }, { $set: { ocr: { data: 'In principio' } } });
+    await insertJob('batch_translate', ['p1', 'p2']);
+
+    const { body } = await process();
+
+    assert.equal(body.job.status, 'completed');
+    assert.deepEqual(body.job.progress, { total: 2, completed: 1, failed: 1, currentItem: null });
+    assert.deepEqual(
+      body.job.results.map((r: { pageId: string; success: boolean; error?: string }) => [r.pageId, r.success, r.error]),
+      [['p1', true, undefined], ['p2', false, 'No OCR data to translate']]
+    );
+
+    const page = await db.collection('pages').findOne({ id: 'p1' });
+    assert.equal(page?.translation.data, 'Translation #1');
+    assert.equal(page?.translation.source_language, 'Latin');
+    assert.match((calls[0] as GenerateRequest).prompt, /In principio/);
+  });
+
+  it('records AI errors per page and fails a job with no successes', async () => {
+    installFakeAI(() => {
+      throw new Error('429 RESOURCE_EXHAUSTED');
+    });
+    await insertJob('batch_ocr', ['p1']);
+
+    const { body } = await process();
+
+    assert.equal(body.job.status, 'failed');
+    assert.equal(body.job.results[0].success, false);
+    assert.match(body.job.results[0].error, /AI provider error: 429 RESOURCE_EXHAUSTED/);
+    assert.equal((await db.collection('pages').findOne({ id: 'p1' }))?.ocr, undefined);
+  });
+
+  it('works through long jobs a chunk at a time', async () => {
+    const pageIds = Array.from({ length: 7 }, (_, i) => `q${i}`);
+    await db.collection('pages').insertMany(pageIds.map((id, i) => ({
+      id, book_id: 'book-1', page_number: 10 + i, photo: `https://images.example.org/${id}.png`,
+    })));
+    await insertJob('batch_ocr', pageIds);
+
+    const first = await process();
+    assert.equal(first.body.processed, 5);
+    assert.equal(first.body.remaining, 2);
+    assert.equal(first.body.job.status, 'processing');
+
+    const second = await process();
+    assert.equal(second.body.processed, 2);
+    assert.equal(second.body.job.status, 'completed');
+    assert.equal(calls.length, 7);
+  });
+
+  it('leaves paused and finished jobs alone', async () => {
+    await insertJob('batch_ocr', ['p1'], { status: 'paused' });
+    assert.equal((await process()).body.paused, true);
+
+    await db.collection('jobs').updateOne({ id: 'job-1' }, { $set: { status: 'cancelled' } });
+    assert.equal((await process()).body.message, 'Job already finished');
+    assert.equal(calls.length, 0);
+  });
+
+  it('runs a realtime job from the book page with its edited prompt, leaving pages done already', async () => {
+    await db.collection('pages').updateOne({ id: 'p1' }, { $set: { ocr: { data: 'Read by hand', source: 'manual' } } });
+    const created = await callRoute(createJob, '/api/jobs', {
+      method: 'POST',
+      system: true,
+      body: {
+        type: 'batch_ocr',
+        book_id: 'book-1',
+        page_ids: ['p1', 'p2'],
+        use_batch_api: false,
+        overwrite: false,
+        custom_prompt: 'Transcribe this {language} page, keeping abbreviations',
+      },
+    });
+    const { id, config } = await created.json();
+    assert.equal(config.use_batch_api, false);
+
+    const response = await callRoute(processJob, `/api/jobs/${id}/process`, { method: 'POST', params: { id }, system: true });
+    const { job } = await response.json();
+
+    assert.equal(job.status, 'completed');
+    assert.equal(job.progress.completed, 2);
+    assert.equal(calls.length, 1);
+    assert.match((calls[0] as GenerateRequest).prompt, /Transcribe this Latin page, keeping abbreviations/);
+    assert.equal((await db.collection('pages').findOne({ id: 'p1' }))?.ocr.data, 'Read by hand');
+    assert.equal((await db.collection('pages').findOne({ id: 'p2' }))?.ocr.prompt.name, 'Custom Prompt');
+  });
+
+  it('stores extracted images, leaving pages that already have some', async () => {
+    installFakeAI(() => JSON.stringify([
+      { description: 'Green lion devouring the sun', type: 'woodcut', bbox: { x: 0.1, y: 0.2, width: 0.5, height: 0.4 }, gallery_quality: 0.9 },
+      { description: 'Border', type: 'flourish' },
+    ]));
+    await db.collection('pages').updateOne({ id: 'p2' }, {
+      $set: { detected_images: [{ description: 'Initial letter', type: 'decorative', detection_source: 'ocr_tag' }] },
+    });
+    await insertJob('batch_extract_images', ['p1', 'p2']);
+
+    const { body } = await process();
+
+    assert.equal(body.job.status, 'completed');
+    const detections = async (id: string) => (await db.collection('pages').findOne({ id }))?.detected_images
+      .map((image: { description: string; type: string; model?: string }) => [image.description, image.type, image.model]);
+    assert.deepEqual(await detections('p1'), [
+      ['Green lion devouring the sun', 'woodcut', 'gemini-2.5-flash'],
+      ['Border', 'unknown', 'gemini-2.5-flash'],
+    ]);
+    assert.deepEqual(await detections('p2'), [['Initial letter', 'decorative', undefined]]);
+  });
+
+  it('queues a Batch API OCR job per book that needs OCR', async () => {
+    await db.collection('books').insertMany([
+      { id: 'book-2', title: 'Turba', language: 'Greek' },
+      { id: 'book-3', title: 'Picatrix', language: 'Arabic' },
+    ]);
+    await db.collection('pages').insertMany([
+      { id: 'q1', book_id: 'book-2', page_number: 1, ocr: { data: 'Done' } },
+      { id: 'q2', book_id: 'book-2', page_number: 2 },
+      { id: 'r1', book_id: 'book-3', page_number: 1 },
+    ]);
+    // Picatrix is already being read
+    await insertJob('batch_ocr', ['r1'], { book_id: 'book-3', status: 'processing' });
+
+    const response = await callRoute(submitOcr, '/api/cron/submit-ocr', { method: 'POST', system: true });
+    const body = await response.json();
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(body.jobs.map((j: { book_id: string; pages: number }) => [j.book_id, j.pages]), [['book-1', 3], ['book-2', 1]]);
+    const queued = await db.collection('jobs').find({ initiated_by: 'cron' }).toArray();
+    assert.deepEqual(queued.map(job => [job.type, job.config.use_batch_api, job.config.language]), [
+      ['batch_ocr', true, 'Latin'],
+      ['batch_ocr', true, 'Greek'],
+    ]);
+    assert.equal(calls.length, 0);
+  });
+
+  it('leaves books to the job queue when the model is not Gemini', async () => {
+    const response = await callRoute(batchOcrAsync, '/api/books/book-1/batch-ocr-async', {
+      system: true,
+      params: { id: 'book-1' },
+      body: { model: 'fake:ocr' },
+    });
+
+    assert.equal(response.status, 400);
+    assert.match((await response.json()).error, /only runs Gemini models, not fake/);
+    assert.equal(await db.collection('batch_jobs').countDocuments({}), 0);
+  });
+});
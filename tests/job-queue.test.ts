@@ -0,0 +1,248 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Db } from 'mongodb';
+import { POST as processJob } from '@/app/api/jobs/[id]/process/route';
+import { POST as resumeJob } from '@/app/api/jobs/[id]/resume/route';
+import { POST as retryJob } from '@/app/api/jobs/[id]/retry/route';
+import { POST as createJob } from '@/app/api/jobs/route';
+import {
+  claimJob,
+  claimNextJob,
+  enqueueJob,
+  getQueueStats,
+  heartbeat,
+  recoverExpiredLeases,
+  releaseJob,
+} from '@/lib/queue';
+import { runWorker } from '@/lib/queue/worker';
+import type { Job, JobType } from '@/lib/types';
+import { installFakeAI } from './helpers/fake-ai';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+import { callRoute } from './helpers/route';
+
+// 1x1 PNG
+const PNG = Buffer.from(
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+  'base64'
+);
+
+describe('job queue', () => {
+  let memory: MemoryDb;
+  let db: Db;
+
+  beforeEach(() => {
+    memory = installMemoryDb();
+    db = memory as unknown as Db;
+  });
+
+  afterEach(() => {
+    delete process.env.QUEUE_CONCURRENCY;
+    delete process.env.QUEUE_MODE;
+    mock.restoreAll();
+  });
+
+  function enqueue(type: JobType, extra: { priority?: number; max_attempts?: number; page_ids?: string[] } = {}) {
+    return enqueueJob(db, {
+      type,
+      priority: extra.priority,
+      max_attempts: extra.max_attempts,
+      config: { page_ids: extra.page_ids ?? ['p1'] },
+    });
+  }
+
+  async function getJob(id: string): Promise<Job> {
+    return (await memory.collection('jobs').findOne({ id })) as Job;
+  }
+
+  it('hands out the highest priority job first, then the oldest', async () => {
+    const low = await enqueue('batch_ocr');
+    const high = await enqueue('batch_translate', { priority: 10 });
+    const later = await enqueue('batch_ocr');
+    // Browser-driven jobs are never claimed
+    await enqueue('ocr', { priority: 100 });
+
+    const claimed = [];
+    for (let job; (job = await claimNextJob(db, 'w1'));) claimed.push(job.id);
+
+    assert.deepEqual(claimed, [high.id, low.id, later.id]);
+    const job = await getJob(high.id);
+    assert.equal(job.status, 'processing');
+    assert.equal(job.lease?.owner, 'w1');
+    assert.ok(job.started_at instanceof Date);
+  });
+
+  it('keeps each job type within its concurrency limit', async () => {
+    process.env.QUEUE_CONCURRENCY = 'batch_split=1';
+    const first = await enqueue('batch_split');
+    await enqueue('batch_split');
+    const crops = await enqueue('generate_cropped_images');
+
+    assert.equal((await claimNextJob(db, 'w1'))?.id, first.id);
+    assert.equal((await claimNextJob(db, 'w2'))?.id, crops.id);
+    assert.equal(await claimNextJob(db, 'w3'), null);
+
+    await releaseJob(db, first.id, 'w1');
+    assert.equal((await claimNextJob(db, 'w3', { types: ['batch_split'] }))?.type, 'batch_split');
+  });
+
+  it('loses the lease when a job is paused', async () => {
+    const { id } = await enqueue('batch_ocr');
+    await claimJob(db, id, 'w1');
+    const expiresAt = (await getJob(id)).lease!.expires_at;
+
+    await new Promise(resolve => setTimeout(resolve, 5));
+    assert.equal(await heartbeat(db, id, 'w1'), true);
+    assert.ok((await getJob(id)).lease!.expires_at > expiresAt);
+    assert.equal(await heartbeat(db, id, 'w2'), false);
+
+    await memory.collection('jobs').updateOne({ id }, { $set: { status: 'paused', lease: null } });
+    assert.equal(await heartbeat(db, id, 'w1'), false);
+  });
+
+  it('resumes and retries only jobs still in the status they were read in, then starts them', async () => {
+    const fetchMock = mock.method(globalThis, 'fetch', async () => new Response('{}'));
+    const jobs = memory.collection('jobs');
+    const { id } = await enqueue('batch_ocr');
+    await jobs.updateOne({ id }, { $set: { status: 'completed' } });
+    const act = (handler: typeof resumeJob, action: string) =>
+      callRoute(handler, `/api/jobs/${id}/${action}`, { method: 'POST', params: { id }, system: true });
+
+    // Read while still paused or failed, finished before the update
+    const stale = (status: string) => mock.method(jobs, 'findOne', async () => ({ ...(await getJob(id)), status }), { times: 1 });
+    stale('paused');
+    assert.equal((await act(resumeJob, 'resume')).status, 409);
+    stale('failed');
+    assert.equal((await act(retryJob, 'retry')).status, 409);
+    assert.equal((await getJob(id)).status, 'completed');
+    assert.equal(fetchMock.mock.callCount(), 0, 'nothing started');
+
+    await jobs.updateOne({ id }, { $set: { status: 'paused' } });
+    assert.equal((await act(resumeJob, 'resume')).status, 200);
+    assert.equal((await getJob(id)).status, 'pending');
+    assert.match(String(fetchMock.mock.calls[0].arguments[0]), new RegExp(`/api/jobs/${id}/process$`));
+  });
+
+  it('backs off after a failed slice and dead-letters after max_attempts', async () => {
+    const { id } = await enqueue('batch_ocr', { max_attempts: 2 });
+
+    await claimJob(db, id, 'w1');
+    assert.equal(await releaseJob(db, id, 'w1', { error: 'socket hang up' }), 'processing');
+
+    let job = await getJob(id);
+    assert.equal(job.attempts, 1);
+    assert.equal(job.error, 'socket hang up');
+    assert.equal(job.lease, null);
+    const wait = job.run_after!.getTime() - Date.now();
+    assert.ok(wait > 25_000 && wait <= 30_000, `waits ~30s, got ${wait}ms`);
+    assert.equal(await claimJob(db, id, 'w1'), null);
+    assert.equal((await getQueueStats(db)).waiting, 1);
+
+    await memory.collection('jobs').updateOne({ id }, { $set: { run_after: new Date() } });
+    await claimJob(db, id, 'w1');
+    assert.equal(await releaseJob(db, id, 'w1', { error: 'socket hang up' }), 'dead');
+
+    job = await getJob(id);
+    assert.equal(job.status, 'dead');
+    assert.equal(job.attempts, 2);
+    assert.equal((await getQueueStats(db)).dead, 1);
+  });
+
+  it('recovers jobs whose worker stopped heartbeating', async () => {
+    const { id } = await enqueue('batch_ocr');
+    await claimJob(db, id, 'crashed');
+    await memory.collection('jobs').updateOne({ id }, { $set: { 'lease.expires_at': new Date(Date.now() - 1000) } });
+
+    assert.equal(await recoverExpiredLeases(db), 1);
+
+    const job = await getJob(id);
+    assert.equal(job.status, 'processing');
+    assert.equal(job.attempts, 1);
+    assert.match(job.error!, /Lease held by crashed expired/);
+    assert.equal(job.lease, null);
+  });
+
+  describe('worker', () => {
+    let calls: ReturnType<typeof installFakeAI>;
+
+    beforeEach(async () => {
+      calls = installFakeAI(() => `Transcription #${calls.length}`);
+      mock.method(globalThis, 'fetch', async () => new Response(PNG, { headers: { 'Content-Type': 'image/png' } }));
+
+      const pageIds = Array.from({ length: 7 }, (_, i) => `q${i}`);
+      await memory.collection('pages').insertMany(pageIds.map((id, i) => ({
+        id, tenant_id: 'partner', book_id: 'book-1', page_number: i + 1, photo: `https://images.example.org/${id}.png`,
+      })));
+    });
+
+    it('drains a job slice by slice as its tenant', async () => {
+      const job = await enqueue('batch_ocr', { page_ids: Array.from({ length: 7 }, (_, i) => `q${i}`) });
+      await memory.collection('jobs').updateOne({ id: job.id }, { $set: { tenant_id: 'partner' } });
+
+      const slices = await runWorker(db, { workerId: 'test-worker', exitWhenIdle: true });
+
+      assert.equal(slices, 2);
+      const done = await getJob(job.id);
+      assert.equal(done.status, 'completed');
+      assert.equal(done.progress.completed, 7);
+      assert.equal(done.lease, null);
+      assert.equal(calls.length, 7);
+      // The search index was updated within the job's tenant
+      assert.equal(await memory.collection('search_documents').countDocuments({ page_id: 'q6', tenant_id: 'partner' }), 1);
+    });
+
+    it('retries a slice that throws instead of failing the job', async () => {
+      const job = await enqueue('batch_ocr');
+      mock.method(memory.collection('pages'), 'find', () => {
+        throw new Error('connection reset');
+      });
+
+      const response = await callRoute(processJob, `/api/jobs/${job.id}/process`, {
+        method: 'POST',
+        params: { id: job.id },
+        system: true,
+      });
+
+      assert.equal(response.status, 500);
+      const retried = await getJob(job.id);
+      assert.equal(retried.status, 'processing');
+      assert.equal(retried.attempts, 1);
+      assert.equal(retried.error, 'connection reset');
+    });
+
+    it('leaves jobs to the worker in worker mode', async () => {
+      process.env.QUEUE_MODE = 'worker';
+      const created = await callRoute(createJob, '/api/jobs', {
+        method: 'POST',
+        body: { type: 'batch_ocr', page_ids: ['q0'], priority: 5 },
+        system: true,
+      });
+      const { id, priority } = await created.json();
+      assert.equal(priority, 5);
+
+      const response = await callRoute(processJob, `/api/jobs/${id}/process`, {
+        method: 'POST',
+        params: { id },
+        system: true,
+      });
+      const body = await response.json();
+
+      assert.equal(body.queued, true);
+      assert.equal(body.message, 'Job is queued');
+      assert.equal(calls.length, 0);
+    });
+
+    it('refuses job types nothing would run', async () => {
+      const create = (body: Record<string, unknown>) =>
+        callRoute(createJob, '/api/jobs', { method: 'POST', body: { page_ids: ['q0'], ...body }, system: true });
+
+      const refused = await create({ type: 'ocr' });
+      assert.equal(refused.status, 400);
+      assert.match((await refused.json()).error, /Unknown job type: ocr/);
+      assert.equal((await create({ type: 'batch_summary', use_batch_api: true })).status, 400);
+      assert.equal(await memory.collection('jobs').countDocuments({}), 0);
+
+      // A summary run in the browser keeps its progress in a job record
+      assert.equal((await create({ type: 'batch_summary' })).status, 200);
+    });
+  });
+});
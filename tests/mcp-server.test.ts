@@ -0,0 +1,196 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn, type ChildProcess } from 'node:child_process';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { ObjectId } from 'mongodb';
+import { POST as createKey } from '@/app/api/account/api-keys/route';
+import { POST as createAnnotation } from '@/app/api/annotations/route';
+import { GET as listPages } from '@/app/api/books/[id]/pages/route';
+import { POST as createHighlight } from '@/app/api/highlights/route';
+import { GET as getJob } from '@/app/api/jobs/[id]/route';
+import { POST as createJob } from '@/app/api/jobs/route';
+import { POST as addComment } from '@/app/api/pages/[id]/comments/route';
+import { claimNextJob } from '@/lib/queue';
+import { REVIEW_COMMENTS_COLLECTION } from '@/lib/review';
+import type { Db } from 'mongodb';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+import { callRoute, sessionHeaders } from './helpers/route';
+
+const EDITOR = new ObjectId().toHexString();
+
+type Handler = Parameters<typeof callRoute<{ id: string }>>[0];
+
+// The API routes the write tools call, by method and path pattern (capturing the id)
+const ROUTES: Array<[string, RegExp, Handler]> = [
+  ['GET', /^\/api\/books\/([^/]+)\/pages$/, listPages],
+  ['POST', /^\/api\/annotations$/, createAnnotation],
+  ['POST', /^\/api\/highlights$/, createHighlight],
+  ['POST', /^\/api\/pages\/([^/]+)\/comments$/, addComment],
+  ['POST', /^\/api\/jobs$/, createJob],
+  ['GET', /^\/api\/jobs\/([^/]+)$/, getJob],
+];
+
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : undefined;
+}
+
+/** Serves the app's API routes to the MCP server from the in-memory database */
+function startApi(): Promise<Server> {
+  const server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const route = ROUTES.find(([method, pattern]) => method === req.method && pattern.test(url.pathname));
+    if (!route) {
+      res.writeHead(404, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: 'Not found' }));
+      return;
+    }
+    const [, pattern, handler] = route;
+    const response = await callRoute(handler, url.pathname, {
+      method: req.method,
+      params: { id: pattern.exec(url.pathname)![1] },
+      search: Object.fromEntries(url.searchParams),
+      body: await readBody(req),
+      headers: req.headers.authorization ? { authorization: req.headers.authorization } : {},
+    });
+    res.writeHead(response.status, { 'Content-Type': 'application/json' }).end(await response.text());
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+async function freePort(): Promise<number> {
+  const server = createServer();
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise(resolve => server.close(resolve));
+  return port;
+}
+
+/** Runs the MCP server over Streamable HTTP, as it is hosted next to the app */
+async function startMcp(apiBase: string): Promise<{ child: ChildProcess; url: string }> {
+  const port = await freePort();
+  const child = spawn(process.execPath, ['--import', 'tsx', 'mcp-server/src/index.ts', '--http'], {
+    env: { ...process.env, PORT: String(port), SOURCE_LIBRARY_API: apiBase },
+    stdio: ['ignore', 'ignore', 'pipe'],
+  });
+  await new Promise<void>((resolve, reject) => {
+    let output = '';
+    child.stderr!.on('data', (chunk: Buffer) => {
+      output += chunk.toString();
+      if (output.includes('listening')) resolve();
+    });
+    child.on('exit', code => reject(new Error(`MCP server exited (${code}): ${output}`)));
+  });
+  return { child, url: `http://127.0.0.1:${port}/mcp` };
+}
+
+describe('MCP write tools', () => {
+  let memory: MemoryDb;
+  let api: Server;
+  let mcp: { child: ChildProcess; url: string };
+  let key: string;
+
+  before(async () => {
+    api = await startApi();
+    mcp = await startMcp(`http://127.0.0.1:${(api.address() as AddressInfo).port}/api`);
+  });
+
+  after(async () => {
+    mcp.child.kill();
+    await new Promise(resolve => api.close(resolve));
+  });
+
+  beforeEach(async () => {
+    memory = installMemoryDb();
+    await memory.collection('users').insertOne({ _id: new ObjectId(EDITOR), name: 'Anna', email: 'anna@example.org', role: 'editor' });
+    await memory.collection('books').insertOne({ id: 'book-1', title: 'Liber', author: 'Anon.', language: 'Latin' });
+    await memory.collection('pages').insertMany([
+      { id: 'p1', book_id: 'book-1', page_number: 1, ocr: { data: 'Prima materia est origo' } },
+      { id: 'p2', book_id: 'book-1', page_number: 2 },
+    ]);
+    const created = await callRoute(createKey, '/api/account/api-keys', {
+      headers: await sessionHeaders(EDITOR),
+      body: { name: 'MCP', scopes: ['read', 'contribute', 'edit'] },
+    });
+    key = (await created.json()).secret;
+  });
+
+  async function callTool(name: string, args: Record<string, unknown>, secret: string | null = key) {
+    const response = await fetch(mcp.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...(secret && { Authorization: `Bearer ${secret}` }),
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args } }),
+    });
+    // A single event carries the JSON-RPC response
+    const data = (await response.text()).split('\n').find(line => line.startsWith('data: '));
+    const { result } = JSON.parse(data!.slice('data: '.length));
+    const text = result.content[0].text as string;
+    return { isError: result.isError === true, text, json: () => JSON.parse(text) };
+  }
+
+  it('queues start_job as a job the queue runs', async () => {
+    const result = await callTool('start_job', { book_id: 'book-1', type: 'ocr' });
+    assert.equal(result.isError, false, result.text);
+    const { job_id, type, pages } = result.json();
+    assert.equal(type, 'batch_ocr');
+    assert.equal(pages, 1);
+    const stored = await memory.collection('jobs').findOne({ id: job_id });
+    assert.deepEqual(stored?.config.page_ids, ['p2']);
+    assert.equal(stored?.initiated_by, 'mcp');
+
+    const claimed = await claimNextJob(memory as unknown as Db, 'test-worker');
+    assert.equal(claimed?.id, job_id);
+
+    const status = await callTool('get_job', { job_id });
+    assert.equal(status.json().status, 'processing');
+  });
+
+  it('translates only pages that have OCR', async () => {
+    const { job_id, type } = (await callTool('start_job', { book_id: 'book-1', type: 'translate' })).json();
+    assert.equal(type, 'batch_translate');
+    assert.deepEqual((await memory.collection('jobs').findOne({ id: job_id }))?.config.page_ids, ['p1']);
+
+    await memory.collection('pages').updateOne({ id: 'p1' }, { $set: { translation: { data: 'First matter' } } });
+    const nothing = await callTool('start_job', { book_id: 'book-1', type: 'translate' });
+    assert.equal(nothing.isError, true);
+    assert.match(nothing.text, /No pages to translate/);
+  });
+
+  it('annotates, highlights and proposes corrections on a page by number', async () => {
+    const annotation = await callTool('create_annotation', {
+      book_id: 'book-1', page: 1, text: 'Prima materia', content: 'The alchemical first matter',
+    });
+    assert.equal(annotation.isError, false, annotation.text);
+    const [stored] = await memory.collection('annotations').find({}).toArray();
+    assert.equal(stored.page_id, 'p1');
+    assert.equal(stored.anchor.text, 'Prima materia');
+
+    const highlight = await callTool('create_highlight', { book_id: 'book-1', page: 1, text: 'origo' });
+    assert.equal(highlight.isError, false, highlight.text);
+    assert.equal((await memory.collection('highlights').findOne({}))?.book_title, 'Liber');
+
+    const correction = await callTool('propose_correction', {
+      book_id: 'book-1', page: 1, field: 'ocr', original: 'origo', replacement: 'origō', reason: 'Macron in the print',
+    });
+    assert.equal(correction.isError, false, correction.text);
+    const [comment] = await memory.collection(REVIEW_COMMENTS_COLLECTION).find({}).toArray();
+    assert.deepEqual(comment.suggestion, { original: 'origo', replacement: 'origō' });
+    assert.equal(comment.author, 'Anna');
+
+    const missing = await callTool('create_highlight', { book_id: 'book-1', page: 9, text: 'x' });
+    assert.equal(missing.isError, true);
+    assert.match(missing.text, /Page 9 not found/);
+  });
+
+  it('refuses writes without a key that may make them', async () => {
+    const anonymous = await callTool('start_job', { book_id: 'book-1', type: 'ocr' }, null);
+    assert.equal(anonymous.isError, true);
+    assert.match(anonymous.text, /required role and scope/);
+    assert.equal(await memory.collection('jobs').countDocuments({}), 0);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { GET as oai } from '@/app/api/oai/route';
+import { handleOaiRequest, oaiIdentifier } from '@/lib/oai-pmh';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+import { callRoute } from './helpers/route';
+
+async function request(search: Record<string, string>) {
+  const response = await callRoute(oai, '/api/oai', { search });
+  assert.equal(response.headers.get('content-type'), 'text/xml; charset=utf-8');
+  return response.text();
+}
+
+const errorCode = (xml: string) => xml.match(/<error code="(\w+)"/)?.[1];
+const identifiers = (xml: string) => [...xml.matchAll(/<identifier>([^<]+)<\/identifier>/g)].map(m => m[1]);
+const token = (xml: string) => xml.match(/<resumptionToken[^>]*>([^<]*)<\/resumptionToken>/)?.[1];
+
+describe('OAI-PMH endpoint', () => {
+  let memory: MemoryDb;
+
+  beforeEach(async () => {
+    memory = installMemoryDb();
+    await memory.collection('books').insertMany([
+      {
+        id: 'book-1',
+        title: 'De Alchimia Opuscula',
+        display_title: 'Little Works on Alchemy',
+        author: 'Anonymous',
+        language: 'Latin',
+        published: '1550',
+        place_published: 'Frankfurt',
+        categories: ['alchemy'],
+        doi: '10.5281/zenodo.1',
+        license: 'CC-BY-4.0',
+        dublin_core: { dc_subject: ['Transmutation & metals'] },
+        created_at: new Date('2025-01-01T00:00:00Z'),
+        updated_at: new Date('2025-03-01T00:00:00Z'),
+      },
+      {
+        id: 'book-2',
+        title: 'Corpus Hermeticum',
+        author: 'Hermes Trismegistus',
+        language: 'Greek',
+        published: '1471',
+        categories: ['hermeticism'],
+        created_at: new Date('2025-02-01T00:00:00Z'),
+        last_processed: new Date('2025-06-01T00:00:00Z'),
+      },
+      {
+        id: 'book-3',
+        title: 'Opus Majus',
+        author: 'Roger Bacon',
+        language: 'Latin',
+        published: '1267',
+        created_at: new Date('2025-04-01T00:00:00Z'),
+      },
+    ]);
+    await memory.collection('deleted_books').insertOne({
+      id: 'book-0',
+      title: 'Withdrawn',
+      categories: ['alchemy'],
+      deleted_at: new Date('2025-05-01T00:00:00Z'),
+    });
+  });
+
+  it('identifies the repository', async () => {
+    const xml = await request({ verb: 'Identify' });
+    assert.match(xml, /<protocolVersion>2\.0<\/protocolVersion>/);
+    assert.match(xml, /<earliestDatestamp>2025-03-01T00:00:00Z<\/earliestDatestamp>/);
+    assert.match(xml, /<deletedRecord>transient<\/deletedRecord>/);
+  });
+
+  it('reports protocol errors inside the response', async () => {
+    assert.equal(errorCode(await request({ verb: 'Harvest' })), 'badVerb');
+    assert.equal(errorCode(await request({ verb: 'ListRecords' })), 'badArgument');
+    assert.equal(errorCode(await request({ verb: 'ListRecords', metadataPrefix: 'marc21' })), 'cannotDisseminateFormat');
+    assert.equal(errorCode(await request({ verb: 'ListRecords', metadataPrefix: 'oai_dc', from: '2025-01-01', until: '2025-02-01T00:00:00Z' })), 'badArgument');
+    assert.equal(errorCode(await request({ verb: 'ListIdentifiers', resumptionToken: 'nonsense' })), 'badResumptionToken');
+    assert.equal(errorCode(await request({ verb: 'GetRecord', metadataPrefix: 'oai_dc', identifier: 'oai:elsewhere:1' })), 'idDoesNotExist');
+  });
+
+  it('harvests incrementally by datestamp, including deletions', async () => {
+    const xml = await request({ verb: 'ListIdentifiers', metadataPrefix: 'oai_dc', from: '2025-03-15' });
+    assert.deepEqual(identifiers(xml), [oaiIdentifier('book-3'), oaiIdentifier('book-0'), oaiIdentifier('book-2')]);
+    assert.match(xml, /<header status="deleted">\s*<identifier>oai:[^:]+:book-0</);
+
+    const none = await request({ verb: 'ListIdentifiers', metadataPrefix: 'oai_dc', from: '2026-01-01' });
+    assert.equal(errorCode(none), 'noRecordsMatch');
+  });
+
+  it('selects records by set', async () => {
+    const xml = await request({ verb: 'ListIdentifiers', metadataPrefix: 'oai_dc', set: 'category:alchemy' });
+    assert.deepEqual(identifiers(xml), [oaiIdentifier('book-1'), oaiIdentifier('book-0')]);
+    assert.match(xml, /<setSpec>category:alchemy<\/setSpec>/);
+
+    const sets = await request({ verb: 'ListSets' });
+    assert.match(sets, /<setSpec>category:hermeticism<\/setSpec>/);
+    assert.match(sets, /<setSpec>collection:[\w-]+<\/setSpec>/);
+  });
+
+  it('pages through long lists with resumption tokens', async () => {
+    const first = await handleOaiRequest(new URLSearchParams({ verb: 'ListRecords', metadataPrefix: 'oai_dc' }), { pageSize: 3 });
+    assert.equal(identifiers(first).length, 3);
+    assert.match(first, /completeListSize="4" cursor="0"/);
+
+    const rest = await handleOaiRequest(new URLSearchParams({ verb: 'ListRecords', resumptionToken: token(first)! }), { pageSize: 3 });
+    assert.deepEqual(identifiers(rest), [oaiIdentifier('book-2')]);
+    assert.match(rest, /cursor="3"><\/resumptionToken>/, 'the last page has an empty token');
+  });
+
+  it('describes books in Dublin Core and MODS', async () => {
+    const dc = await request({ verb: 'GetRecord', metadataPrefix: 'oai_dc', identifier: oaiIdentifier('book-1') });
+    assert.match(dc, /<dc:title>De Alchimia Opuscula<\/dc:title>/);
+    assert.match(dc, /<dc:title xml:lang="en">Little Works on Alchemy<\/dc:title>/);
+    assert.match(dc, /<dc:subject>Transmutation &amp; metals<\/dc:subject>/);
+    assert.match(dc, /<dc:subject>Alchemy<\/dc:subject>/);
+    assert.match(dc, /<dc:identifier>https:\/\/doi\.org\/10\.5281\/zenodo\.1<\/dc:identifier>/);
+    assert.match(dc, /<dc:language>la<\/dc:language>/);
+
+    const mods = await request({ verb: 'GetRecord', metadataPrefix: 'mods', identifier: oaiIdentifier('book-1') });
+    assert.match(mods, /<mods xmlns="http:\/\/www\.loc\.gov\/mods\/v3"/);
+    assert.match(mods, /<placeTerm type="text">Frankfurt<\/placeTerm>/);
+    assert.match(mods, /<languageTerm type="code" authority="iso639-2b">lat<\/languageTerm>/);
+    assert.match(mods, /<identifier type="doi">10\.5281\/zenodo\.1<\/identifier>/);
+
+    const deleted = await request({ verb: 'GetRecord', metadataPrefix: 'mods', identifier: oaiIdentifier('book-0') });
+    assert.match(deleted, /<header status="deleted">/);
+    assert.doesNotMatch(deleted, /<metadata>/);
+  });
+});
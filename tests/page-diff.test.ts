@@ -0,0 +1,170 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { POST as createEdition } from '@/app/api/books/[id]/editions/route';
+import { GET as getDiff, POST as applyDiffReview } from '@/app/api/pages/[id]/diff/route';
+import { applyReview, diffTexts } from '@/lib/diff';
+import { createSnapshotIfNeeded } from '@/lib/snapshots';
+import type { PageDiff } from '@/lib/types';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+import { callRoute } from './helpers/route';
+
+const OLD_OCR = [
+  '<page-num>12</page-num>',
+  'De natura rerum liber primus.',
+  '<margin>Nota bene</margin>',
+  'Omnia mutantur, nihil interit.',
+].join('\n');
+
+describe('text diffs', () => {
+  it('ignores markup tags but not the text inside them', () => {
+    const { hunks, lines } = diffTexts(OLD_OCR, [
+      '<page-num>12</page-num>',
+      '<header>De natura rerum liber primus.</header>',
+      'Omnia mutantur, nihil interit.',
+    ].join('\n'));
+
+    assert.equal(lines[1].op, 'equal', 'a line that only gained a tag is unchanged');
+    assert.equal(hunks.length, 1);
+    assert.deepEqual(hunks[0].from_lines, ['<margin>Nota bene</margin>']);
+    assert.deepEqual(hunks[0].to_lines, []);
+    assert.deepEqual(hunks[0].words, [{ op: 'delete', text: 'Nota' }, { op: 'delete', text: 'bene' }]);
+  });
+
+  it('diffs changed lines word by word', () => {
+    const { hunks, stats } = diffTexts('The king rode north.\nEnd.', 'The queen rode north.\nEnd.');
+
+    assert.deepEqual(hunks[0].words.filter(w => w.op !== 'equal'), [
+      { op: 'delete', text: 'king' },
+      { op: 'insert', text: 'queen' },
+    ]);
+    assert.deepEqual(stats, { lines_added: 1, lines_removed: 1, words_added: 1, words_removed: 1 });
+  });
+
+  it('reverts rejected hunks and keeps accepted ones', () => {
+    const from = 'one\ntwo\nthree\nfour';
+    const to = 'one\n2\nthree\n4\nfive';
+
+    assert.equal(diffTexts(from, to).hunks.length, 2);
+    assert.equal(applyReview(from, to, []), to);
+    assert.equal(applyReview(from, to, [0]), 'one\ntwo\nthree\n4\nfive');
+    assert.equal(applyReview(from, to, [0, 1]), from);
+  });
+});
+
+describe('page diff API', () => {
+  let memory: MemoryDb;
+
+  beforeEach(async () => {
+    memory = installMemoryDb();
+    await memory.collection('books').insertOne({
+      id: 'book-1',
+      title: 'De natura rerum',
+      author: 'Anon.',
+      language: 'Latin',
+    });
+    await memory.collection('pages').insertOne({
+      id: 'p1',
+      book_id: 'book-1',
+      page_number: 1,
+      ocr: { data: OLD_OCR, language: 'Latin', model: 'gemini-2.5-flash', source: 'ai' },
+      translation: { data: 'On the nature of things.', language: 'English', model: 'gemini-2.5-flash', source: 'ai' },
+    });
+  });
+
+  async function diff(search: Record<string, string>) {
+    const response = await callRoute(getDiff, '/api/pages/p1/diff', { params: { id: 'p1' }, search });
+    return { status: response.status, body: await response.json() };
+  }
+
+  async function rerunOcr(text: string) {
+    await createSnapshotIfNeeded('p1', 'pre_ocr', 'job-1');
+    await memory.collection('pages').updateOne({ id: 'p1' }, { $set: { 'ocr.data': text } });
+  }
+
+  it('snapshots AI output before it is overwritten and diffs against it', async () => {
+    await rerunOcr('<page-num>12</page-num>\nDe natura rerum liber primus.\nOmnia mutantur, nihil interit.');
+
+    const { status, body } = await diff({ field: 'ocr' });
+
+    assert.equal(status, 200);
+    assert.match(body.from.ref, /^snapshot:/);
+    assert.match(body.from.label, /^Before OCR/);
+    assert.equal(body.to.ref, 'current');
+    assert.equal(body.hunks.length, 1);
+    assert.deepEqual(body.hunks[0].from_lines, ['<margin>Nota bene</margin>']);
+    assert.equal(body.stats.words_removed, 2);
+  });
+
+  it('compares the current text with an edition frozen when it was published', async () => {
+    const created = await callRoute(createEdition, '/api/books/book-1/editions', {
+      system: { tenantId: 'default' },
+      params: { id: 'book-1' },
+      body: { license: 'CC0-1.0' },
+    });
+    const { edition } = await created.json();
+    const frozen = await memory.collection('edition_pages').findOne({ edition_id: edition.id });
+    assert.equal(frozen?.tenant_id, 'default', 'frozen text belongs to the book\'s tenant');
+    await memory.collection('pages').updateOne(
+      { id: 'p1' },
+      { $set: { 'translation.data': 'Concerning the nature of things.' } }
+    );
+
+    const { status, body } = await diff({ field: 'translation', from: `edition:${edition.id}` });
+
+    assert.equal(status, 200);
+    assert.equal(body.from.label, 'Edition 1.0.0');
+    assert.deepEqual(body.hunks[0].words.filter((w: { op: string }) => w.op !== 'equal'), [
+      { op: 'delete', text: 'On' },
+      { op: 'insert', text: 'Concerning' },
+    ]);
+  });
+
+  it('reports a missing earlier version', async () => {
+    assert.equal((await diff({ field: 'ocr' })).status, 404);
+    assert.equal((await diff({ field: 'ocr', from: 'edition:nope' })).status, 404);
+    assert.equal((await diff({ field: 'ocr', from: 'yesterday' })).status, 400);
+    assert.equal((await diff({ field: 'summary' })).status, 400);
+  });
+
+  it('applies a review, snapshotting the text it replaces', async () => {
+    await rerunOcr('<page-num>13</page-num>\nDe natura rerum liber primus.\nOmnia mutantur, nihil interit.');
+    const reviewed = (await diff({ field: 'ocr' })).body as PageDiff;
+    assert.equal(reviewed.hunks.length, 2, 'a new page number and the lost marginal note');
+
+    const response = await callRoute(applyDiffReview, '/api/pages/p1/diff', {
+      system: true,
+      params: { id: 'p1' },
+      body: { field: 'ocr', from: reviewed.from.ref, hash: reviewed.hash, rejected: [1] },
+    });
+    const body = await response.json();
+
+    assert.equal(response.status, 200);
+    assert.equal(body.changed, true);
+    const page = await memory.collection('pages').findOne({ id: 'p1' });
+    assert.equal(page?.ocr.data, [
+      '<page-num>13</page-num>',
+      'De natura rerum liber primus.',
+      '<margin>Nota bene</margin>',
+      'Omnia mutantur, nihil interit.',
+    ].join('\n'));
+    assert.equal(page?.ocr.source, 'manual');
+
+    const backup = await memory.collection('page_snapshots').findOne({ snapshot_type: 'pre_review' });
+    assert.match(backup?.ocr_data, /^<page-num>13/);
+  });
+
+  it('refuses a review of text that has changed since', async () => {
+    await rerunOcr('Something else entirely');
+    const reviewed = (await diff({ field: 'ocr' })).body as PageDiff;
+    await memory.collection('pages').updateOne({ id: 'p1' }, { $set: { 'ocr.data': 'Edited meanwhile' } });
+
+    const response = await callRoute(applyDiffReview, '/api/pages/p1/diff', {
+      system: true,
+      params: { id: 'p1' },
+      body: { field: 'ocr', from: reviewed.from.ref, hash: reviewed.hash, rejected: [0] },
+    });
+
+    assert.equal(response.status, 409);
+    assert.equal((await memory.collection('pages').findOne({ id: 'p1' }))?.ocr.data, 'Edited meanwhile');
+  });
+});
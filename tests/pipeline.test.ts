@@ -0,0 +1,172 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { POST as pipelineAction } from '@/app/api/books/[id]/pipeline/route';
+import { POST as runStep } from '@/app/api/books/[id]/pipeline/step/route';
+import type { PipelineState, PipelineStep } from '@/lib/types';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+import { callRoute } from './helpers/route';
+
+const BOOK_ID = 'book-1';
+const params = { id: BOOK_ID };
+
+describe('pipeline step runner', () => {
+  let db: MemoryDb;
+
+  beforeEach(async () => {
+    db = installMemoryDb();
+    await db.collection('books').insertOne({ id: BOOK_ID, title: 'Turba Philosophorum', language: 'Latin', license: 'CC-BY-4.0' });
+    await db.collection('pages').insertMany([
+      { id: 'p3', book_id: BOOK_ID, page_number: 3, photo: 'https://images.example.org/p3.jpg' },
+      { id: 'p1', book_id: BOOK_ID, page_number: 1, photo: 'https://images.example.org/p1.jpg', ocr: { data: 'Incipit' }, translation: { data: 'Here begins' } },
+      { id: 'p2', book_id: BOOK_ID, page_number: 2, photo: 'https://images.example.org/p2.jpg', ocr: { data: 'Secunda' }, crop: { xStart: 0, xEnd: 500 } },
+    ]);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  async function start() {
+    const response = await callRoute(pipelineAction, `/api/books/${BOOK_ID}/pipeline`, {
+      params,
+      system: true,
+      body: { action: 'start', config: { model: 'gemini-2.5-flash', language: 'Latin' } },
+    });
+    assert.equal(response.status, 200);
+  }
+
+  async function step(name: PipelineStep) {
+    const response = await callRoute(runStep, `/api/books/${BOOK_ID}/pipeline/step`, {
+      params,
+      system: true,
+      body: { step: name },
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  async function pipeline(): Promise<PipelineState> {
+    return (await db.collection('books').findOne({ id: BOOK_ID }))?.pipeline;
+  }
+
+  it('refuses to run steps until the pipeline is started', async () => {
+    const { status, body } = await step('ocr');
+    assert.equal(status, 400);
+    assert.equal(body.error, 'Pipeline not initialized');
+  });
+
+  it('starts with every step pending and the book license', async () => {
+    await start();
+
+    const state = await pipeline();
+    assert.equal(state.status, 'running');
+    assert.equal(state.config.license, 'CC-BY-4.0');
+    assert.ok(Object.values(state.steps).every(s => s.status === 'pending'));
+  });
+
+  it('creates a crop job for pages with crop data but no cropped image', async () => {
+    await start();
+
+    const { body } = await step('crop');
+
+    assert.equal(body.status, 'job_created');
+    assert.equal(body.nextStep, null);
+    const job = await db.collection('jobs').findOne({ id: body.jobId });
+    assert.equal(job?.type, 'generate_cropped_images');
+    assert.deepEqual(job?.config.page_ids, ['p2']);
+    // The step stays running until the job finishes
+    const state = await pipeline();
+    assert.equal(state.steps.crop.status, 'running');
+    assert.equal((state.steps.crop as { jobId?: string }).jobId, body.jobId);
+  });
+
+  it('creates a batch OCR job for the pages without OCR', async () => {
+    await start();
+
+    const { body } = await step('ocr');
+
+    assert.equal(body.status, 'job_created');
+    const job = await db.collection('jobs').findOne({ id: body.jobId });
+    assert.equal(job?.type, 'batch_ocr');
+    assert.equal(job?.status, 'pending');
+    assert.deepEqual(job?.progress, { total: 1, completed: 0, failed: 0 });
+    assert.deepEqual(job?.config, { model: 'gemini-2.5-flash', language: 'Latin', page_ids: ['p3'], use_batch_api: true });
+  });
+
+  it('moves on when a step has nothing to do', async () => {
+    await start();
+    await db.collection('pages').updateMany({}, { $set: { ocr: { data: 'text' }, translation: { data: 'text' } } });
+
+    const ocr = await step('ocr');
+    assert.equal(ocr.body.status, 'completed');
+    assert.equal(ocr.body.nextStep, 'translate');
+
+    const translate = await step('translate');
+    assert.equal(translate.body.status, 'completed');
+    assert.equal(translate.body.nextStep, 'summarize');
+    assert.equal((await db.collection('jobs').countDocuments()), 0);
+
+    const state = await pipeline();
+    assert.equal(state.steps.ocr.status, 'completed');
+    assert.ok(state.steps.ocr.completed_at instanceof Date);
+  });
+
+  it('summarizes through the index endpoint', async () => {
+    await start();
+    const fetchMock = mock.method(globalThis, 'fetch', async () => Response.json({
+      pagesCovered: 1,
+      totalPages: 3,
+      bookSummary: { brief: 'A dialogue of philosophers.' },
+      sectionSummaries: [{}, {}],
+    }));
+
+    const { body } = await step('summarize');
+
+    assert.equal(body.status, 'completed');
+    assert.equal(body.nextStep, 'edition');
+    assert.deepEqual(body.result, {
+      pagesCovered: 1,
+      totalPages: 3,
+      hasSummary: true,
+      sectionsCount: 2,
+      message: 'Index generated with 1 page summaries',
+    });
+    assert.equal(fetchMock.mock.callCount(), 1);
+    assert.match(String(fetchMock.mock.calls[0].arguments[0]), /\/api\/books\/book-1\/index$/);
+  });
+
+  it('fails the pipeline when a step fails', async () => {
+    await start();
+    await db.collection('pages').updateMany({}, { $unset: { translation: '' } });
+
+    const { body } = await step('summarize');
+
+    assert.equal(body.status, 'failed');
+    assert.equal(body.error, 'No translated pages to summarize');
+    assert.equal(body.nextStep, null);
+
+    const state = await pipeline();
+    assert.equal(state.status, 'failed');
+    assert.equal(state.currentStep, null);
+    assert.equal(state.error, 'No translated pages to summarize');
+    assert.equal((await step('edition')).status, 400);
+  });
+
+  it('finishes with a draft edition', async () => {
+    await start();
+
+    const { body } = await step('edition');
+
+    assert.equal(body.status, 'completed');
+    assert.equal(body.nextStep, null);
+    assert.equal(body.result.version, '1.0');
+
+    const book = await db.collection('books').findOne({ id: BOOK_ID });
+    assert.equal(book?.current_edition_id, body.result.editionId);
+    assert.deepEqual(
+      book?.editions.map((e: { status: string; license: string; pages_count: number }) => [e.status, e.license, e.pages_count]),
+      [['draft', 'CC-BY-4.0', 1]]
+    );
+    assert.equal(book?.pipeline.status, 'completed');
+    assert.ok(book?.pipeline.completed_at instanceof Date);
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { POST as createEdition } from '@/app/api/books/[id]/editions/route';
+import { GET as getBookReview, PUT as setReviewPolicy } from '@/app/api/books/[id]/review-status/route';
+import { GET as getComments, POST as addComment } from '@/app/api/pages/[id]/comments/route';
+import { PATCH as resolveComment } from '@/app/api/pages/[id]/comments/[commentId]/route';
+import { POST as reviewAction } from '@/app/api/pages/[id]/review-status/route';
+import { PATCH as updatePage } from '@/app/api/pages/[id]/route';
+import { applyReviewAction, DEFAULT_REVIEW_POLICY } from '@/lib/review';
+import { recordRevisions } from '@/lib/revisions';
+import type { FieldReview } from '@/lib/types';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+import { callRoute } from './helpers/route';
+
+describe('review state transitions', () => {
+  const anna = { user_id: 'u1', name: 'Anna' };
+  const ben = { user_id: 'u2', name: 'Ben' };
+  const policy = DEFAULT_REVIEW_POLICY;
+
+  function act(review: FieldReview | undefined, action: Parameters<typeof applyReviewAction>[1], actor = anna) {
+    const result = applyReviewAction(review, action, { actor, policy });
+    if ('error' in result) throw Object.assign(new Error(result.error), { status: result.status });
+    return result.review;
+  }
+
+  it('claims the field when a review starts', () => {
+    const review = act(undefined, 'start');
+    assert.equal(review.state, 'in_review');
+    assert.deepEqual(review.assignee, anna);
+  });
+
+  it('needs two different reviewers to approve', () => {
+    const once = act(act(undefined, 'start'), 'approve');
+    assert.equal(once.state, 'in_review');
+    assert.throws(() => act(once, 'approve'), /already signed off/);
+
+    const twice = act(once, 'approve', ben);
+    assert.equal(twice.state, 'approved');
+    assert.deepEqual(twice.approvals.map(a => a.name), ['Anna', 'Ben']);
+  });
+
+  it('drops sign-offs when changes are requested', () => {
+    const review = act(act(act(undefined, 'start'), 'approve'), 'request_changes', ben);
+    assert.equal(review.state, 'needs_changes');
+    assert.deepEqual(review.approvals, []);
+    assert.throws(() => act(undefined, 'request_changes'), /Start the review/);
+  });
+});
+
+describe('proofreading API', () => {
+  let memory: MemoryDb;
+
+  beforeEach(async () => {
+    memory = installMemoryDb();
+    await memory.collection('books').insertOne({ id: 'book-1', title: 'Liber', author: 'Anon.', language: 'Latin' });
+    await memory.collection('pages').insertMany([1, 2].map(n => ({
+      id: `p${n}`,
+      book_id: 'book-1',
+      page_number: n,
+      ocr: { data: `Pagina ${n}`, language: 'Latin', model: 'gemini-2.5-flash', source: 'ai' },
+      translation: { data: `Page ${n}`, language: 'English', model: 'gemini-2.5-flash', source: 'ai' },
+    })));
+  });
+
+  async function act(pageId: string, action: string, reviewer: string, extra: Record<string, unknown> = {}) {
+    const response = await callRoute(reviewAction, `/api/pages/${pageId}/review-status`, {
+      system: true,
+      params: { id: pageId },
+      body: { field: 'translation', action, reviewer, ...extra },
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  async function approve(pageId: string) {
+    await act(pageId, 'start', 'Anna');
+    await act(pageId, 'approve', 'Anna');
+    return act(pageId, 'approve', 'Ben');
+  }
+
+  it('approves a page after two sign-offs and reports progress for the book', async () => {
+    const { status, body } = await approve('p1');
+    assert.equal(status, 200);
+    assert.equal(body.review.state, 'approved');
+
+    const response = await callRoute(getBookReview, '/api/books/book-1/review-status', { params: { id: 'book-1' } });
+    const summary = await response.json();
+    assert.equal(summary.approved_percent, 50);
+    assert.deepEqual(summary.translation, { unreviewed: 1, in_review: 0, needs_changes: 0, approved: 1 });
+    assert.equal(summary.ocr.unreviewed, 2);
+  });
+
+  it('sends approved text back into review when it is edited', async () => {
+    await recordRevisions(['p1'], { via: 'job' });
+    await approve('p1');
+
+    await callRoute(updatePage, '/api/pages/p1', {
+      system: true,
+      method: 'PATCH',
+      params: { id: 'p1' },
+      body: { translation: { data: 'Page one', language: 'English' }, edited_by: 'Carl' },
+    });
+
+    const page = await memory.collection('pages').findOne({ id: 'p1' });
+    assert.equal(page?.review.translation.state, 'in_review');
+    assert.deepEqual(page?.review.translation.approvals, []);
+  });
+
+  it('keeps a change request note in the page thread, with replies and resolution', async () => {
+    await act('p1', 'start', 'Anna');
+    const requested = await act('p1', 'request_changes', 'Ben', { note: 'Line 2 drops a clause' });
+    assert.equal(requested.body.review.state, 'needs_changes');
+
+    const thread = await (await callRoute(getComments, '/api/pages/p1/comments', { params: { id: 'p1' } })).json();
+    assert.equal(thread.comments.length, 1);
+    assert.equal(thread.comments[0].author, 'Ben');
+    assert.equal(thread.comments[0].field, 'translation');
+
+    const reply = await callRoute(addComment, '/api/pages/p1/comments', {
+      system: true,
+      params: { id: 'p1' },
+      body: { content: 'Fixed', parent_id: thread.comments[0].id, author: 'Anna' },
+    });
+    assert.equal(reply.status, 201);
+    assert.equal((await reply.json()).comment.field, 'translation', 'replies stay on the thread\'s field');
+
+    await callRoute(resolveComment, `/api/pages/p1/comments/${thread.comments[0].id}`, {
+      system: true,
+      method: 'PATCH',
+      params: { id: 'p1', commentId: thread.comments[0].id },
+      body: { resolved: true },
+    });
+    const open = await (await callRoute(getComments, '/api/pages/p1/comments', {
+      params: { id: 'p1' },
+      search: { open: 'true' },
+    })).json();
+    assert.equal(open.comments.length, 0);
+  });
+
+  it('records a correction proposal only against text the page contains', async () => {
+    async function propose(suggestion: Record<string, string>, field = 'ocr') {
+      return callRoute(addComment, '/api/pages/p2/comments', {
+        system: true,
+        params: { id: 'p2' },
+        body: { content: 'Misread numeral', field, suggestion, author: 'Anna' },
+      });
+    }
+
+    const accepted = await propose({ original: 'Pagina 2', replacement: 'Pagina II' });
+    assert.equal(accepted.status, 201);
+    assert.deepEqual((await accepted.json()).comment.suggestion, { original: 'Pagina 2', replacement: 'Pagina II' });
+
+    assert.equal((await propose({ original: 'Folio 2', replacement: 'Folio II' })).status, 400);
+    assert.equal((await propose({ original: 'Pagina 2', replacement: 'Pagina 2' })).status, 400);
+    assert.equal((await propose({ original: 'Page 2', replacement: 'Page II' }, 'translation')).status, 201);
+  });
+
+  it('refuses to publish an edition until enough pages are approved', async () => {
+    const policy = await callRoute(setReviewPolicy, '/api/books/book-1/review-status', {
+      system: true,
+      method: 'PUT',
+      params: { id: 'book-1' },
+      body: { publish_min_approved_percent: 100 },
+    });
+    assert.equal(policy.status, 200);
+
+    const publish = (requireApprovedPercent?: number) => callRoute(createEdition, '/api/books/book-1/editions', {
+      system: true,
+      params: { id: 'book-1' },
+      body: { license: 'CC0-1.0', require_approved_percent: requireApprovedPercent },
+    });
+
+    await approve('p1');
+    const refused = await publish();
+    assert.equal(refused.status, 409);
+    assert.equal((await refused.json()).approved_percent, 50);
+    // A publisher can ask for more review than the book's policy, never less
+    const lowered = await publish(0);
+    assert.equal(lowered.status, 409);
+    assert.equal((await lowered.json()).required_percent, 100);
+
+    await approve('p2');
+    const published = await publish();
+    assert.equal(published.status, 200);
+    const { edition } = await published.json();
+    assert.deepEqual(
+      edition.contributors.filter((c: { role: string }) => c.role === 'reviewer').map((c: { name: string }) => c.name),
+      ['Anna', 'Ben']
+    );
+  });
+});
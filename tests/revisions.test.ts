@@ -0,0 +1,163 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { POST as backfillRevisions } from '@/app/api/admin/backfill-revisions/route';
+import { POST as createEdition } from '@/app/api/books/[id]/editions/route';
+import { GET as getBookRevisions } from '@/app/api/books/[id]/revisions/route';
+import { GET as getBlame } from '@/app/api/pages/[id]/blame/route';
+import { GET as getPageRevisions } from '@/app/api/pages/[id]/revisions/route';
+import { PATCH as updatePage } from '@/app/api/pages/[id]/route';
+import { recordRevisions } from '@/lib/revisions';
+import type { BlameLine, PageRevision } from '@/lib/types';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+import { callRoute } from './helpers/route';
+
+const AI_TRANSLATION = 'In the beginning was the Word.\nAnd the Word was with God.';
+
+describe('page revisions', () => {
+  let memory: MemoryDb;
+
+  beforeEach(async () => {
+    memory = installMemoryDb();
+    await memory.collection('books').insertOne({
+      id: 'book-1',
+      title: 'Evangelium',
+      author: 'Anon.',
+      language: 'Latin',
+    });
+    await memory.collection('pages').insertOne({
+      id: 'p1',
+      book_id: 'book-1',
+      page_number: 3,
+      ocr: { data: 'In principio erat Verbum.', language: 'Latin', model: 'gemini-2.5-flash', source: 'ai' },
+      translation: {
+        data: AI_TRANSLATION,
+        language: 'English',
+        model: 'gemini-2.5-flash',
+        prompt_name: 'Latin scholarly',
+        source: 'ai',
+      },
+    });
+  });
+
+  async function editTranslation(data: string, editedBy: string) {
+    return callRoute(updatePage, '/api/pages/p1', {
+      system: true,
+      method: 'PATCH',
+      params: { id: 'p1' },
+      body: { translation: { data, language: 'English' }, edited_by: editedBy },
+    });
+  }
+
+  async function revisions(): Promise<PageRevision[]> {
+    const response = await callRoute(getPageRevisions, '/api/pages/p1/revisions', {
+      params: { id: 'p1' },
+      search: { field: 'translation', include_text: 'true' },
+    });
+    return (await response.json()).revisions;
+  }
+
+  it('records AI output with its model and prompt, and skips saves that change nothing', async () => {
+    await recordRevisions(['p1'], { via: 'job', job_id: 'job-1' });
+    await recordRevisions(['p1'], { via: 'job', job_id: 'job-2' });
+
+    const [revision] = await revisions();
+    assert.equal((await revisions()).length, 1);
+    assert.equal(revision.revision, 1);
+    assert.equal(revision.source, 'ai');
+    assert.equal(revision.model, 'gemini-2.5-flash');
+    assert.equal(revision.prompt_name, 'Latin scholarly');
+    assert.equal(revision.job_id, 'job-1');
+    assert.equal(revision.diff.words_added, 12);
+    assert.equal(await memory.collection('page_revisions').countDocuments({ field: 'ocr' }), 1);
+  });
+
+  it('records a manual edit with its author and the size of the change', async () => {
+    await recordRevisions(['p1'], { via: 'job' });
+    const response = await editTranslation('In the beginning was the Word.\nAnd the Word was beside God.', 'Maria');
+
+    assert.equal(response.status, 200);
+    const [latest, first] = await revisions();
+    assert.equal(latest.revision, 2);
+    assert.equal(latest.parent_id, first.id);
+    assert.equal(latest.source, 'manual');
+    assert.equal(latest.via, 'editor');
+    assert.equal(latest.author, 'Maria');
+    assert.equal(latest.model, undefined, 'manual edits have no model');
+    assert.deepEqual(latest.diff, { lines_added: 1, lines_removed: 1, words_added: 1, words_removed: 1 });
+  });
+
+  it('attributes each line of the current translation to the revision that introduced it', async () => {
+    await recordRevisions(['p1'], { via: 'job' });
+    await editTranslation(`${AI_TRANSLATION}\nAnd the Word was God.`, 'Maria');
+    await memory.collection('pages').updateOne(
+      { id: 'p1' },
+      { $set: { 'translation.data': `<header>In the beginning was the Word.</header>\nAnd the Word was with God.\nAnd the Word was God.\nAmen.` } }
+    );
+
+    const response = await callRoute(getBlame, '/api/pages/p1/blame', { params: { id: 'p1' } });
+    const { lines } = await response.json() as { lines: BlameLine[] };
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(lines.map(l => [l.revision ?? null, l.author ?? l.model]), [
+      [1, 'gemini-2.5-flash'],
+      [1, 'gemini-2.5-flash'],
+      [2, 'Maria'],
+      [null, undefined],
+    ], 'a line that only gained markup keeps its author; unrecorded text has none');
+  });
+
+  it('lists saves across the book, newest first, with page numbers', async () => {
+    await recordRevisions(['p1'], { via: 'job', job_id: 'job-1' });
+    await editTranslation('Edited.', 'Maria');
+
+    const response = await callRoute(getBookRevisions, '/api/books/book-1/revisions', {
+      params: { id: 'book-1' },
+      search: { source: 'manual' },
+    });
+    const body = await response.json();
+
+    assert.equal(response.status, 200);
+    assert.equal(body.revisions.length, 1);
+    assert.equal(body.revisions[0].author, 'Maria');
+    assert.equal(body.revisions[0].page_number, 3);
+    assert.equal(body.revisions[0].text, undefined);
+    assert.equal(body.has_more, false);
+  });
+
+  it('credits the people who edited the translation in a new edition', async () => {
+    await recordRevisions(['p1'], { via: 'job' });
+    await editTranslation('Edited once.', 'Maria');
+    await editTranslation('Edited twice.', 'Unknown');
+
+    const response = await callRoute(createEdition, '/api/books/book-1/editions', {
+      system: true,
+      params: { id: 'book-1' },
+      body: { license: 'CC0-1.0' },
+    });
+    const { edition } = await response.json();
+
+    const humans = edition.contributors.filter((c: { type: string }) => c.type === 'human');
+    assert.deepEqual(humans, [{ name: 'Maria', role: 'editor', type: 'human' }]);
+  });
+
+  it('backfills a baseline for text saved before revision history', async () => {
+    const dryRun = await callRoute(backfillRevisions, '/api/admin/backfill-revisions', { system: true, body: {} });
+    assert.equal((await dryRun.json()).baselined, 1);
+    assert.equal(await memory.collection('page_revisions').countDocuments({}), 0);
+
+    const run = await callRoute(backfillRevisions, '/api/admin/backfill-revisions', {
+      system: true,
+      body: { dryRun: false },
+    });
+    assert.equal((await run.json()).baselined, 1);
+    const [baseline] = await revisions();
+    assert.equal(baseline.via, 'baseline');
+    assert.equal(baseline.source, 'ai');
+
+    const again = await callRoute(backfillRevisions, '/api/admin/backfill-revisions', {
+      system: true,
+      body: { dryRun: false },
+    });
+    assert.equal((await again.json()).baselined, 0);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { highlightText, searchIndex } from '@/lib/search/engine';
+import {
+  SEARCH_DOCUMENTS_COLLECTION,
+  getSearchStats,
+  indexBook,
+  indexPages,
+  recountSearchStats,
+} from '@/lib/search/indexer';
+import { parseQuery } from '@/lib/search/query';
+import { runAsTenant } from '@/lib/tenant.server';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+
+describe('search query parser', () => {
+  it('joins words with AND and reads phrases, OR, NOT and groups', () => {
+    assert.deepEqual(parseQuery('lapis philosophorum'), {
+      type: 'and',
+      children: [
+        { type: 'term', value: 'lapis', prefix: false },
+        { type: 'term', value: 'philosophorum', prefix: false },
+      ],
+    });
+    assert.deepEqual(parseQuery('"prima materia"'), { type: 'phrase', terms: ['prima', 'materia'] });
+    assert.deepEqual(parseQuery('(sol OR luna) -sal'), {
+      type: 'and',
+      children: [
+        {
+          type: 'or',
+          children: [
+            { type: 'term', value: 'sol', prefix: false },
+            { type: 'term', value: 'luna', prefix: false },
+          ],
+        },
+        { type: 'not', child: { type: 'term', value: 'sal', prefix: false } },
+      ],
+    });
+    assert.deepEqual(parseQuery('alchim*'), { type: 'term', value: 'alchim', prefix: true });
+  });
+
+  it('treats lower-case operators as words and closes what was left open', () => {
+    assert.deepEqual(parseQuery('sol and luna'), {
+      type: 'and',
+      children: ['sol', 'and', 'luna'].map(value => ({ type: 'term', value, prefix: false })),
+    });
+    assert.deepEqual(parseQuery('"aqua vitae'), { type: 'phrase', terms: ['aqua', 'vitae'] });
+    assert.deepEqual(parseQuery('(mercurius'), { type: 'term', value: 'mercurius', prefix: false });
+  });
+
+  it('refuses queries with nothing to look up', () => {
+    assert.equal(parseQuery(''), null);
+    assert.equal(parseQuery('NOT sal'), null);
+    assert.equal(parseQuery('-sal -sulphur'), null);
+  });
+});
+
+describe('search index', () => {
+  let db: MemoryDb;
+
+  beforeEach(async () => {
+    db = installMemoryDb();
+    await db.collection('books').insertMany([
+      { id: 'book-1', title: 'Rosarium philosophorum', author: 'Anonymous', language: 'Latin' },
+      { id: 'book-2', title: 'Turba philosophorum', author: 'Anonymous', language: 'Latin' },
+    ]);
+    await db.collection('pages').insertMany([
+      { id: 'p1', book_id: 'book-1', page_number: 1, ocr: { data: 'Prima materia lapidis est mercurius' } },
+      { id: 'p2', book_id: 'book-1', page_number: 2, ocr: { data: 'Sol et luna, sol et luna, sol rex' } },
+      { id: 'p3', book_id: 'book-2', page_number: 1, ocr: { data: 'Sal et sulphur et sol' }, translation: { data: 'Salt and sulphur and sun' } },
+    ]);
+    await indexPages(['p1', 'p2', 'p3']);
+    await indexBook('book-1');
+    await indexBook('book-2');
+  });
+
+  const ids = async (query: string, options: Parameters<typeof searchIndex>[1] = {}) =>
+    (await searchIndex(query, options)).hits.map(hit => hit.id);
+
+  it('stores term frequencies, bigrams and field lengths, and skips unchanged pages', async () => {
+    const doc = await db.collection(SEARCH_DOCUMENTS_COLLECTION).findOne({ id: 'page:p2' });
+    assert.equal(doc?.tf['o:sol'], 3);
+    assert.equal(doc?.tf['o:sol et'], 2);
+    assert.equal(doc?.lengths.o, 8);
+
+    assert.deepEqual(await getSearchStats(), { page_docs: 3, book_docs: 2, lengths: { o: 18, t: 5, m: 6 } });
+    assert.deepEqual(await indexPages(['p1']), { indexed: 0, unchanged: 1, removed: 0 });
+  });
+
+  it('drops pages that lost their text, keeping the totals in step', async () => {
+    await db.collection('pages').updateOne({ id: 'p1' }, { $unset: { ocr: '' } });
+    assert.deepEqual(await indexPages(['p1']), { indexed: 0, unchanged: 0, removed: 1 });
+    assert.equal(await db.collection(SEARCH_DOCUMENTS_COLLECTION).countDocuments({ id: 'page:p1' }), 0);
+
+    const stats = await getSearchStats();
+    assert.equal(stats.page_docs, 2);
+    assert.equal(stats.lengths.o, 13);
+    assert.deepEqual(await recountSearchStats(), stats);
+  });
+
+  it('ranks pages by how often they use the terms', async () => {
+    assert.deepEqual(await ids('sol'), ['page:p2', 'page:p3']);
+    assert.deepEqual(await ids('philosophorum', { types: ['book'] }), ['book:book-1', 'book:book-2']);
+  });
+
+  it('matches phrases, prefixes and exclusions', async () => {
+    assert.deepEqual(await ids('"prima materia"'), ['page:p1']);
+    assert.deepEqual(await ids('"materia prima"'), []);
+    assert.deepEqual(await ids('sulph*'), ['page:p3']);
+    assert.deepEqual(await ids('sol -sal'), ['page:p2']);
+    assert.deepEqual(await ids('sun', { fields: ['t'] }), ['page:p3']);
+    assert.deepEqual(await ids('sol', { bookIds: ['book-2'] }), ['page:p3']);
+  });
+
+  it('keeps the best matches when more documents match than it ranks', async () => {
+    await db.collection(SEARCH_DOCUMENTS_COLLECTION).deleteMany({});
+    const filler = Array.from({ length: 2050 }, (_, i) => ({
+      id: `page:f${i}`, type: 'page', book_id: 'book-1', page_id: `f${i}`, page_number: i + 1,
+      terms: ['o:azoth', 'o:aqua'], tf: { 'o:azoth': 1, 'o:aqua': 20 }, lengths: { o: 21 },
+    }));
+    await db.collection(SEARCH_DOCUMENTS_COLLECTION).insertMany([
+      ...filler,
+      { id: 'page:best', type: 'page', book_id: 'book-2', page_id: 'best', page_number: 1, terms: ['o:azoth'], tf: { 'o:azoth': 5 }, lengths: { o: 5 } },
+    ]);
+    await recountSearchStats();
+
+    const result = await searchIndex('azoth', { limit: 3 });
+    assert.equal(result.truncated, true);
+    assert.deepEqual(result.hits.map(hit => hit.id), ['page:best', 'page:f0', 'page:f1']);
+  });
+
+  it('counts each tenant\'s corpus separately', async () => {
+    await db.collection('pages').insertOne({ id: 'q1', tenant_id: 'partner', book_id: 'book-1', page_number: 9, ocr: { data: 'Azoth' } });
+    await runAsTenant('partner', () => indexPages(['q1']));
+
+    assert.deepEqual(await runAsTenant('partner', () => getSearchStats()), { page_docs: 1, book_docs: 0, lengths: { o: 1 } });
+    const shared = await runAsTenant('default', () => getSearchStats());
+    assert.equal(shared.page_docs, 3);
+    assert.equal(shared.lengths.o, 18);
+  });
+
+  it('keeps each tenant\'s corpus totals apart on an unscoped db', async () => {
+    await db.collection('pages').insertOne({ id: 'q1', tenant_id: 'partner', book_id: 'book-1', page_number: 9, ocr: { data: 'Azoth' } });
+    // A cron job or script indexing without a tenant
+    await runAsTenant(null, () => indexPages(['q1']));
+
+    assert.deepEqual(await runAsTenant('partner', () => getSearchStats()), { page_docs: 1, book_docs: 0, lengths: { o: 1 } });
+    const shared = await runAsTenant(null, () => getSearchStats());
+    assert.equal(shared.page_docs, 3);
+    assert.deepEqual(await runAsTenant(null, () => recountSearchStats()), shared);
+  });
+
+  it('highlights the matching words', () => {
+    assert.deepEqual(highlightText('Sol et luna <b>', 'sol'), [{ snippet: '<mark>Sol</mark> et luna &lt;b&gt;', position: 0 }]);
+    assert.deepEqual(highlightText('Sulphur et sal', 'sulph*').map(h => h.snippet), ['<mark>Sulphur</mark> et sal']);
+    assert.deepEqual(highlightText('Sulphur et sal', 'azoth'), []);
+  });
+});
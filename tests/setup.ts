@@ -0,0 +1,24 @@
+/**
+ * Environment for the test run, loaded before any test file (see the "test"
+ * script in package.json). The script also passes --conditions=import:
+ * next-auth's MongoDB adapter only has an ESM entry point, which the
+ * CommonJS-compiled sources can then load.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+// Nothing in the tests may reach a real database or AI API. Tests that touch
+// the database install an in-memory one (helpers/memory-db.ts), so one that
+// forgets to fails against this unreachable address instead.
+process.env.MONGODB_URI = 'mongodb://127.0.0.1:9/source-library-test?serverSelectionTimeoutMS=100';
+process.env.MONGODB_DB = 'source-library-test';
+process.env.AI_PROVIDER = 'fake';
+delete process.env.GEMINI_API_KEY;
+process.env.EMBEDDING_BACKEND = 'hashing';
+
+process.env.CRON_SECRET = 'test-cron-secret';
+process.env.AUTH_SECRET = 'test-auth-secret';
+
+// The Next.js server installs this global before loading route code; its
+// request scope (see helpers/route.ts) is built on it
+(globalThis as { AsyncLocalStorage?: typeof AsyncLocalStorage }).AsyncLocalStorage = AsyncLocalStorage;
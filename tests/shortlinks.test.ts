@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeShortlink, encodeShortlink, getShortUrl } from '@/lib/shortlinks';
+
+const BOOK_ID = '6909d4a1c7e2f3b8a1d0e5f2';
+
+describe('shortlinks', () => {
+  it('round-trips book ids and page numbers', () => {
+    const bookIds = [BOOK_ID, '000000000000000000000000', 'ffffffffffffffffffffffff', '0123456789abcdef01234567'];
+    for (const bookId of bookIds) {
+      for (const pageNumber of [1, 2, 255, 256, 1000, 65535]) {
+        const code = encodeShortlink(bookId, pageNumber);
+        assert.match(code, /^[0-9A-Za-z]+$/);
+        assert.ok(code.length <= 19, `${code} is longer than 19 characters`);
+        assert.deepEqual(decodeShortlink(code), { bookId, pageNumber });
+      }
+    }
+  });
+
+  it('decodes uppercase ids as lowercase', () => {
+    const code = encodeShortlink(BOOK_ID.toUpperCase(), 7);
+    assert.deepEqual(decodeShortlink(code), { bookId: BOOK_ID, pageNumber: 7 });
+  });
+
+  it('gives different pages of a book different codes', () => {
+    assert.notEqual(encodeShortlink(BOOK_ID, 1), encodeShortlink(BOOK_ID, 2));
+  });
+
+  it('rejects invalid input', () => {
+    assert.throws(() => encodeShortlink('not-an-object-id', 1), /Invalid book ID/);
+    assert.throws(() => encodeShortlink(BOOK_ID, 0), /Invalid page number/);
+    assert.throws(() => encodeShortlink(BOOK_ID, 65536), /Invalid page number/);
+    assert.throws(() => decodeShortlink('abc-def'), /Invalid base62 character/);
+    // Page 0 decodes from a code with only zero bytes at the end
+    assert.throws(() => decodeShortlink('0'), /page number must be >= 1/);
+  });
+
+  it('builds short URLs for ObjectIds and falls back for other ids', () => {
+    assert.equal(getShortUrl(BOOK_ID, 3), `https://sourcelibrary.org/q/${encodeShortlink(BOOK_ID, 3)}`);
+    assert.equal(getShortUrl('book-uuid', 3, 'page-uuid'), 'https://sourcelibrary.org/book/book-uuid/page/page-uuid');
+    assert.equal(getShortUrl('book-uuid', 3), 'https://sourcelibrary.org/book/book-uuid#page-3');
+  });
+});
@@ -0,0 +1,263 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import sharp from 'sharp';
+import {
+  analyzeColumns,
+  detectSplit,
+  detectSplitFromBuffer,
+  detectTextAtPosition,
+  findGutterPosition,
+} from '@/lib/page-split/splitDetection';
+import { extractFeatures, predictWithModel, trainModel, type SplitFeatures, type SplitModel, type TrainingExample } from '@/lib/page-split/splitDetectionML';
+import { detectSplit as detectSplitOnUpload } from '@/lib/page-split/split-processing';
+import { POST as detectSplitRoute } from '@/app/api/pages/[id]/detect-split/route';
+import { installFakeAI } from './helpers/fake-ai';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+import { callRoute } from './helpers/route';
+import type { Db } from 'mongodb';
+
+const PAPER = 235;
+const INK = 40;
+const GUTTER = 20;
+
+/**
+ * A grayscale scan: lines of "text" on light paper, with a dark binding
+ * gutter at `gutterAt` that the text stops short of. With `textAcross` the
+ * lines run across the middle, as on a single page printed landscape.
+ */
+function scan(width: number, height: number, options: { gutterAt?: number; textAcross?: boolean } = {}): Uint8Array {
+  const pixels = new Uint8Array(width * height).fill(PAPER);
+  const { gutterAt } = options;
+
+  for (let y = 0; y < height; y++) {
+    const isTextLine = Math.floor(y / 6) % 2 === 0 && y > height * 0.1 && y < height * 0.9;
+    for (let x = 0; x < width; x++) {
+      const inMargin = x < width * 0.05 || x > width * 0.95;
+      const nearGutter = gutterAt !== undefined && Math.abs(x - gutterAt) < width * 0.04;
+      if (isTextLine && !inMargin && (options.textAcross || !nearGutter)) {
+        pixels[y * width + x] = INK;
+      }
+    }
+    if (gutterAt !== undefined) {
+      for (let x = gutterAt - 3; x <= gutterAt + 3; x++) pixels[y * width + x] = GUTTER;
+    }
+  }
+  return pixels;
+}
+
+function toPng(pixels: Uint8Array, width: number, height: number): Promise<Buffer> {
+  return sharp(Buffer.from(pixels), { raw: { width, height, channels: 1 } }).png().toBuffer();
+}
+
+describe('heuristic split detection', () => {
+  const width = 600;
+  const height = 400;
+
+  it('finds a centered gutter with high confidence', () => {
+    const result = detectSplit(scan(width, height, { gutterAt: 300 }), width, height);
+
+    assert.equal(result.isTwoPageSpread, true);
+    assert.equal(result.confidence, 'high');
+    assert.ok(Math.abs(result.splitPosition - 500) <= 10, `split at ${result.splitPosition}`);
+    assert.equal(result.hasTextAtSplit, false);
+    assert.equal(result.textWarning, undefined);
+  });
+
+  it('follows an off-center gutter', () => {
+    const result = detectSplit(scan(width, height, { gutterAt: 330 }), width, height);
+    assert.ok(Math.abs(result.splitPosition - 550) <= 10, `split at ${result.splitPosition}`);
+  });
+
+  it('warns when text runs across the split line', () => {
+    const result = detectSplit(scan(width, height, { textAcross: true }), width, height);
+
+    assert.equal(result.hasTextAtSplit, true);
+    assert.equal(result.confidence, 'low');
+    assert.match(result.textWarning || '', /^Text at split/);
+  });
+
+  it('treats portrait images as single pages', () => {
+    const result = detectSplit(scan(300, 450), 300, 450);
+
+    assert.equal(result.isTwoPageSpread, false);
+    assert.equal(result.confidence, 'high');
+    assert.equal(result.splitPosition, 500);
+  });
+
+  it('scores the gutter column above text columns', () => {
+    const columns = analyzeColumns(scan(width, height, { gutterAt: 300 }), width, height);
+    assert.equal(columns.length, width);
+
+    const gutter = findGutterPosition(columns);
+    assert.ok(Math.abs(gutter.position - 300) <= 3);
+    assert.ok(gutter.stats.maxDarkRun > 90, 'the gutter is dark top to bottom');
+
+    assert.equal(detectTextAtPosition(columns, gutter.position).hasText, false);
+    assert.equal(detectTextAtPosition(columns, 150).hasText, true);
+  });
+
+  it('detects the split from an encoded image', async () => {
+    const png = await toPng(scan(width, height, { gutterAt: 300 }), width, height);
+    const result = await detectSplitFromBuffer(png);
+
+    assert.equal(result.isTwoPageSpread, true);
+    assert.ok(Math.abs(result.splitPosition - 500) <= 10, `split at ${result.splitPosition}`);
+  });
+});
+
+describe('ML split model', () => {
+  function features(overrides: Partial<SplitFeatures> = {}): SplitFeatures {
+    return {
+      aspectRatio: 1.5, width: 500, height: 333,
+      centerDarkestP10: 60, centerDarkestIdx: 50, centerBrightestP10: 230, centerBrightestIdx: 10,
+      centerAvgP10: 150, centerP10Variance: 20,
+      leftEdgeP10: 200, rightEdgeP10: 200, edgeCenterDiff: 0,
+      predictedDarkRun: 90, predictedTransitions: 2, predictedP10: 60,
+      hasInvertedGutter: false, gutterWidth: 4,
+      leftTextEndIdx: 230, rightTextStartIdx: 270, textGapWidth: 40, textGapCenter: 500,
+      ...overrides,
+    };
+  }
+
+  function example(position: number, overrides: Partial<SplitFeatures> = {}): TrainingExample {
+    return {
+      pageId: `page-${position}`, bookId: 'book', imageUrl: 'https://example.org/scan.jpg',
+      features: features(overrides), geminiPosition: position, geminiConfidence: 'high', timestamp: new Date(),
+    };
+  }
+
+  it('needs at least ten valid examples', () => {
+    const examples = [490, 500, 510].map(position => example(position));
+    examples.push({ ...example(500), features: features({ aspectRatio: NaN }) });
+    assert.throws(() => trainModel(examples), /Need at least 10 valid examples/);
+  });
+
+  it('trains around the median position and predicts within range', () => {
+    const positions = [480, 485, 490, 495, 500, 500, 505, 510, 515, 520];
+    const model = trainModel(positions.map(position => example(position)));
+
+    assert.equal(model.trainingSize, 8);
+    assert.ok(Math.abs(model.weights.bias - 500) < 1);
+    assert.ok(model.validationMSE >= 0);
+    assert.equal(predictWithModel(features(), model), 500);
+  });
+
+  it('clamps predictions to 200-800', () => {
+    const model: SplitModel = {
+      weights: {
+        bias: 500, centerDarkestIdx: 0, centerBrightestIdx: 0, edgeCenterDiff: 0,
+        invertedGutterOffset: 0, aspectRatioOffset: 0, pagePositionOffset: 0,
+        textGapCenterWeight: 400, bookSizeOffset: 0, idealSplitFromTextWeight: 0,
+        leftPageTextEndWeight: 0, rightPageTextStartWeight: 0, marginBalanceWeight: 0,
+      },
+      trainedAt: new Date(), trainingSize: 10, validationMSE: 0,
+    };
+
+    assert.equal(predictWithModel(features({ textGapCenter: 550 }), model), 700);
+    assert.equal(predictWithModel(features({ textGapCenter: 900 }), model), 800);
+    assert.equal(predictWithModel(features({ textGapCenter: 100 }), model), 200);
+  });
+
+  it('extracts gutter features from an image', async () => {
+    const png = await toPng(scan(600, 400, { gutterAt: 300 }), 600, 400);
+    const extracted = await extractFeatures(png);
+
+    assert.equal(extracted.width, 500);
+    assert.ok(Math.abs(extracted.aspectRatio - 1.5) < 0.01);
+    // The darkest center column is the gutter, halfway through the 40-60% region
+    assert.ok(Math.abs(extracted.centerDarkestIdx - 50) <= 3, `darkest at ${extracted.centerDarkestIdx}`);
+  });
+});
+
+describe('split detection on upload', () => {
+  const previousMethod = process.env.SPLIT_DETECTION_METHOD_ON_UPLOAD;
+  let db: MemoryDb;
+  let png: Buffer;
+
+  beforeEach(async () => {
+    db = installMemoryDb();
+    png = await toPng(scan(600, 400, { gutterAt: 300 }), 600, 400);
+  });
+
+  afterEach(() => {
+    if (previousMethod === undefined) delete process.env.SPLIT_DETECTION_METHOD_ON_UPLOAD;
+    else process.env.SPLIT_DETECTION_METHOD_ON_UPLOAD = previousMethod;
+  });
+
+  it('uses the heuristic when configured', async () => {
+    process.env.SPLIT_DETECTION_METHOD_ON_UPLOAD = 'heuristic';
+    const result = await detectSplitOnUpload(png);
+    assert.equal(result.confidence, 'high');
+    assert.ok(Math.abs(result.splitPosition - 500) <= 10);
+  });
+
+  it('uses the newest active ML model', async () => {
+    process.env.SPLIT_DETECTION_METHOD_ON_UPLOAD = 'ml';
+    const weights = {
+      bias: 0, centerDarkestIdx: 0, centerBrightestIdx: 0, edgeCenterDiff: 0,
+      invertedGutterOffset: 0, aspectRatioOffset: 0, pagePositionOffset: 0,
+      textGapCenterWeight: 0, bookSizeOffset: 0, idealSplitFromTextWeight: 0,
+      leftPageTextEndWeight: 0, rightPageTextStartWeight: 0, marginBalanceWeight: 0,
+    };
+    await db.collection('split_models').insertMany([
+      { version: 1, isActive: true, weights: { ...weights, bias: 450 } },
+      { version: 2, isActive: true, weights: { ...weights, bias: 520 } },
+      { version: 3, isActive: false, weights: { ...weights, bias: 600 } },
+    ]);
+
+    const result = await detectSplitOnUpload(png, undefined, db as unknown as Db);
+    assert.equal(result.splitPosition, 520);
+  });
+
+  it('explains what the ML and Gemini methods are missing', async () => {
+    process.env.SPLIT_DETECTION_METHOD_ON_UPLOAD = 'ml';
+    await assert.rejects(detectSplitOnUpload(png), /Database required/);
+    await assert.rejects(detectSplitOnUpload(png, undefined, db as unknown as Db), /No trained ML model/);
+
+    process.env.SPLIT_DETECTION_METHOD_ON_UPLOAD = 'gemini';
+    await assert.rejects(detectSplitOnUpload(png, 'https://example.org/scan.jpg'), /GEMINI_API_KEY required/);
+  });
+
+  it('falls back to the heuristic in cascade mode', async () => {
+    process.env.SPLIT_DETECTION_METHOD_ON_UPLOAD = 'cascade';
+    const result = await detectSplitOnUpload(png, undefined, db as unknown as Db);
+    assert.equal(result.confidence, 'high');
+  });
+});
+
+describe('POST /api/pages/[id]/detect-split', () => {
+  let db: MemoryDb;
+  let png: Buffer;
+
+  beforeEach(async () => {
+    db = installMemoryDb();
+    png = await toPng(scan(600, 400, { gutterAt: 300 }), 600, 400);
+    mock.method(globalThis, 'fetch', async () => new Response(new Uint8Array(png), { headers: { 'Content-Type': 'image/png' } }));
+    await db.collection('pages').insertOne({ id: 'p1', book_id: 'book-1', page_number: 1, photo: 'https://images.example.org/p1.png' });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('asks the configured AI provider and saves its answer on the page', async () => {
+    const detection = {
+      isTwoPageSpread: true,
+      confidence: 'high',
+      reasoning: 'Gutter in the middle',
+      leftPage: { xmin: 0, xmax: 505, ymin: 0, ymax: 1000 },
+      rightPage: { xmin: 495, xmax: 1000, ymin: 0, ymax: 1000 },
+    };
+    const calls = installFakeAI(() => JSON.stringify(detection));
+
+    const response = await callRoute(detectSplitRoute, '/api/pages/p1/detect-split', { system: true, params: { id: 'p1' } });
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), detection);
+
+    assert.equal(calls.length, 1);
+    const [request] = calls as Array<{ json?: boolean; images?: Array<{ data: string }> }>;
+    assert.equal(request.json, true);
+    assert.equal(request.images?.[0].data, png.toString('base64'));
+    assert.deepEqual((await db.collection('pages').findOne({ id: 'p1' }))?.split_detection, detection);
+  });
+});
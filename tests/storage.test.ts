@@ -0,0 +1,212 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import sharp from 'sharp';
+import type { Db } from 'mongodb';
+import { GET as serveStored } from '@/app/api/storage/[...key]/route';
+import { GET as proxyImage } from '@/app/api/image/route';
+import { cropAndUploadHalf } from '@/lib/page-split/split-processing';
+import {
+  ObjectExistsError,
+  getStorageDriver,
+  getStorageHosts,
+  registerStorageDriver,
+  resolveStoredObject,
+  type StorageDriver,
+} from '@/lib/storage';
+import { createLocalDriver } from '@/lib/storage/local';
+import { migrateStorage } from '@/lib/storage/migrate';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+import { callRoute } from './helpers/route';
+
+const LOCAL_URL = 'http://localhost:3000/api/storage';
+
+/**
+ * An object store kept in a Map, standing in for Vercel Blob or S3.
+ */
+function createMemoryDriver(objects: Map<string, Buffer>): StorageDriver {
+  const baseUrl = 'https://objects.example.org/bucket';
+  return {
+    id: 'memory',
+    async put(key, body) {
+      objects.set(key, body);
+      return { key, url: `${baseUrl}/${key}` };
+    },
+    async get(key) {
+      const body = objects.get(key);
+      if (!body) throw new Error(`No such object: ${key}`);
+      return body;
+    },
+    async delete(key) {
+      objects.delete(key);
+    },
+    keyFromUrl(url) {
+      return url.startsWith(`${baseUrl}/`) ? url.slice(baseUrl.length + 1) : null;
+    },
+    hosts() {
+      return ['objects.example.org'];
+    },
+  };
+}
+
+function jpeg(width = 40, height = 20): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: { r: 200, g: 180, b: 150 } } }).jpeg().toBuffer();
+}
+
+describe('storage', () => {
+  let dir: string;
+  const memoryObjects = new Map<string, Buffer>();
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-test-'));
+    process.env.STORAGE_LOCAL_DIR = dir;
+    process.env.STORAGE_BACKEND = 'local';
+    registerStorageDriver('local', createLocalDriver);
+    registerStorageDriver('memory', () => createMemoryDriver(memoryObjects));
+  });
+
+  after(async () => {
+    delete process.env.STORAGE_LOCAL_DIR;
+    delete process.env.STORAGE_BACKEND;
+    registerStorageDriver('local', createLocalDriver);
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('local driver', () => {
+    it('writes files under the storage directory and reads them back', async () => {
+      const local = getStorageDriver('local');
+      const stored = await local.put('archived/book-1/1.jpg', Buffer.from('scan'), { contentType: 'image/jpeg' });
+
+      assert.deepEqual(stored, { key: 'archived/book-1/1.jpg', url: `${LOCAL_URL}/archived/book-1/1.jpg` });
+      assert.equal(await fs.readFile(path.join(dir, 'archived/book-1/1.jpg'), 'utf-8'), 'scan');
+      assert.equal((await local.get('archived/book-1/1.jpg')).toString(), 'scan');
+      assert.equal(local.keyFromUrl(stored.url), 'archived/book-1/1.jpg');
+      assert.equal(local.keyFromUrl('https://archive.org/download/x/1.jpg'), null);
+    });
+
+    it('only replaces an object when asked to', async () => {
+      const local = getStorageDriver('local');
+      await local.put('cropped/book-1/p1.jpg', Buffer.from('first'), { contentType: 'image/jpeg' });
+
+      await assert.rejects(
+        local.put('cropped/book-1/p1.jpg', Buffer.from('second'), { contentType: 'image/jpeg' }),
+        (error: Error) => error instanceof ObjectExistsError && /already exists/.test(error.message)
+      );
+      await local.put('cropped/book-1/p1.jpg', Buffer.from('second'), { contentType: 'image/jpeg', overwrite: true });
+      assert.equal((await local.get('cropped/book-1/p1.jpg')).toString(), 'second');
+    });
+
+    it('refuses keys outside the storage directory', async () => {
+      await assert.rejects(
+        getStorageDriver('local').put('../escape.jpg', Buffer.from('x'), { contentType: 'image/jpeg' }),
+        /Invalid storage key/
+      );
+    });
+
+    it('serves stored files from /api/storage', async () => {
+      await getStorageDriver('local').put('uploads/book-1/scan.png', Buffer.from('png'), { contentType: 'image/png' });
+
+      const response = await callRoute(serveStored, '/api/storage/uploads/book-1/scan.png', {
+        params: { key: ['uploads', 'book-1', 'scan.png'] },
+      });
+      assert.equal(response.status, 200);
+      assert.equal(response.headers.get('content-type'), 'image/png');
+      assert.equal(await response.text(), 'png');
+
+      const missing = await callRoute(serveStored, '/api/storage/uploads/none.jpg', { params: { key: ['uploads', 'none.jpg'] } });
+      assert.equal(missing.status, 404);
+    });
+  });
+
+  it('stores split crops with the configured backend', async () => {
+    const { url } = await cropAndUploadHalf(await jpeg(), { xStart: 0, xEnd: 500 }, 'book-2', 'left');
+
+    assert.equal(url, `${LOCAL_URL}/cropped/book-2/left.jpg`);
+    const metadata = await sharp(await fs.readFile(path.join(dir, 'cropped/book-2/left.jpg'))).metadata();
+    assert.deepEqual([metadata.width, metadata.height], [20, 20]);
+  });
+
+  it('lets the image proxy read local files and fetch from configured hosts', async () => {
+    const { url } = await getStorageDriver('local').put('archived/book-3/1.jpg', await jpeg(), { contentType: 'image/jpeg' });
+
+    const response = await callRoute(proxyImage, '/api/image', { search: { url, w: '10' } });
+    assert.equal(response.status, 200);
+    assert.equal((await sharp(Buffer.from(await response.arrayBuffer())).metadata()).width, 10);
+
+    assert.ok(getStorageHosts().includes('objects.example.org'));
+    assert.equal(resolveStoredObject('https://objects.example.org/bucket/a/b.jpg')?.driver.id, 'memory');
+  });
+
+  describe('migration', () => {
+    let db: MemoryDb;
+    const memoryUrl = (key: string) => `https://objects.example.org/bucket/${key}`;
+
+    beforeEach(async () => {
+      db = installMemoryDb();
+      memoryObjects.clear();
+      memoryObjects.set('archived/book-4/1.jpg', Buffer.from('archived'));
+      memoryObjects.set('cropped/book-4/p1.jpg', Buffer.from('cropped'));
+      memoryObjects.set('uploads/book-4/spread.jpg', Buffer.from('spread'));
+
+      await db.collection('pages').insertMany([
+        {
+          id: 'p1', book_id: 'book-4', page_number: 1,
+          photo: 'https://archive.org/download/book/page/n0.jpg',
+          archived_photo: memoryUrl('archived/book-4/1.jpg'),
+          cropped_photo: memoryUrl('cropped/book-4/p1.jpg'),
+          photo_original: memoryUrl('uploads/book-4/spread.jpg'),
+        },
+        {
+          id: 'p2', book_id: 'book-4', page_number: 2,
+          photo_original: memoryUrl('uploads/book-4/spread.jpg'),
+        },
+      ]);
+    });
+
+    it('reports what it would move without touching anything on a dry run', async () => {
+      const result = await migrateStorage(db as unknown as Db, { to: 'local', dryRun: true });
+
+      assert.deepEqual([result.pagesScanned, result.pagesUpdated, result.copied], [1, 1, 2]);
+      assert.equal((await db.collection('pages').findOne({ id: 'p1' }))?.archived_photo, memoryUrl('archived/book-4/1.jpg'));
+      await assert.rejects(fs.access(path.join(dir, 'archived/book-4/1.jpg')));
+    });
+
+    it('copies archived and cropped images and points the pages at them', async () => {
+      const result = await migrateStorage(db as unknown as Db, { to: 'local', from: 'memory', deleteSource: true });
+
+      assert.deepEqual(result, { pagesScanned: 1, pagesUpdated: 1, copied: 2, deleted: 2, failed: [] });
+      const page = await db.collection('pages').findOne({ id: 'p1' });
+      assert.equal(page?.archived_photo, `${LOCAL_URL}/archived/book-4/1.jpg`);
+      assert.equal(page?.cropped_photo, `${LOCAL_URL}/cropped/book-4/p1.jpg`);
+      assert.equal(page?.photo, 'https://archive.org/download/book/page/n0.jpg');
+      assert.equal(await fs.readFile(path.join(dir, 'cropped/book-4/p1.jpg'), 'utf-8'), 'cropped');
+      assert.deepEqual([...memoryObjects.keys()], ['uploads/book-4/spread.jpg']);
+
+      // Nothing left to move
+      assert.equal((await migrateStorage(db as unknown as Db, { to: 'local' })).copied, 0);
+    });
+
+    it('keeps source objects that pages outside the run still use', async () => {
+      const result = await migrateStorage(db as unknown as Db, { to: 'local', fields: ['photo_original'], limit: 1, deleteSource: true });
+
+      assert.deepEqual([result.pagesUpdated, result.copied, result.deleted], [1, 1, 0]);
+      assert.ok(memoryObjects.has('uploads/book-4/spread.jpg'));
+
+      const second = await migrateStorage(db as unknown as Db, { to: 'local', fields: ['photo_original'], deleteSource: true });
+      assert.deepEqual([second.pagesUpdated, second.deleted], [1, 1]);
+      assert.ok(!memoryObjects.has('uploads/book-4/spread.jpg'));
+    });
+
+    it('records failed copies and leaves those pages alone', async () => {
+      memoryObjects.delete('cropped/book-4/p1.jpg');
+      const result = await migrateStorage(db as unknown as Db, { to: 'local' });
+
+      assert.deepEqual(result.failed.map(f => [f.pageId, f.field]), [['p1', 'cropped_photo']]);
+      const page = await db.collection('pages').findOne({ id: 'p1' });
+      assert.equal(page?.archived_photo, `${LOCAL_URL}/archived/book-4/1.jpg`);
+      assert.equal(page?.cropped_photo, memoryUrl('cropped/book-4/p1.jpg'));
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { GET as download } from '@/app/api/books/[id]/download/route';
+import { POST as createEdition } from '@/app/api/books/[id]/editions/route';
+import { annotatedTextToTei, escapeXml, generateTeiDocument } from '@/lib/tei';
+import type { Book, Page, TranslationEdition } from '@/lib/types';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+import { callRoute } from './helpers/route';
+
+const book = {
+  id: 'book-1',
+  title: 'De Alchimia',
+  author: 'Anonymous',
+  language: 'Latin',
+  published: '1550',
+} as Book;
+
+const pages = [
+  { id: 'p1', book_id: 'book-1', page_number: 1, photo: 'https://images.example.org/p1.jpg', ocr: { data: 'Prima materia' }, translation: { data: 'The first matter' } },
+  { id: 'p2', book_id: 'book-1', page_number: 2, photo: 'https://images.example.org/p2.jpg', ocr: { data: 'Lapis & sal' }, translation: { data: 'Stone & salt' } },
+] as Page[];
+
+describe('TEI text', () => {
+  it('turns Markdown and annotation tags into TEI blocks', () => {
+    assert.deepEqual(annotatedTextToTei('Prima materia est **omnium** origo\n\n<margin>Nota bene</margin>\n\n# Caput I'), [
+      '<p>Prima materia est <hi rend="bold">omnium</hi> origo</p>',
+      '<note place="margin">Nota bene</note>',
+      '<ab type="head" rend="h1">Caput I</ab>',
+    ]);
+    assert.equal(escapeXml('Sal & "sulphur" <b>'), 'Sal &amp; &quot;sulphur&quot; &lt;b&gt;');
+  });
+
+  it('pairs the transcription and translation of every page', () => {
+    const xml = generateTeiDocument(book, pages);
+
+    assert.match(xml, /<div type="edition" xml:lang="la">/);
+    assert.match(xml, /<div type="translation" xml:lang="en">/);
+    assert.match(xml, /<pb n="2" xml:id="tr-p2" facs="[^"]+" corresp="#ed-p2"\/>/);
+    assert.match(xml, /<p>Stone &amp; salt<\/p>/);
+    assert.doesNotMatch(xml, /<editionStmt>/);
+  });
+
+  it('includes only an edition\'s pages, with the text frozen when it was published', () => {
+    const edition = {
+      id: 'edition-1',
+      book_id: 'book-1',
+      version: '1.0.0',
+      status: 'published',
+      page_ids: ['p2'],
+      content_hash: 'abc123',
+      citation: { title: 'English Translation of De Alchimia', target_language: 'en' },
+      license: 'CC-BY-4.0',
+    } as unknown as TranslationEdition;
+    const frozen = [{ edition_id: 'edition-1', book_id: 'book-1', page_id: 'p2', page_number: 2, translation: 'The stone and the salt', frozen_at: new Date() }];
+
+    const xml = generateTeiDocument(book, pages, edition, undefined, frozen);
+    assert.match(xml, /<edition n="1.0.0">/);
+    assert.match(xml, /<idno type="SHA-256">abc123<\/idno>/);
+    assert.match(xml, /<p>The stone and the salt<\/p>/);
+    assert.doesNotMatch(xml, /Prima materia|Stone &amp; salt/);
+    // No OCR was frozen, so the transcription has only the page break
+    assert.doesNotMatch(xml, /Lapis/);
+
+    // Published before texts were frozen: the current text stands in
+    assert.match(generateTeiDocument(book, pages, edition), /<p>Stone &amp; salt<\/p>/);
+  });
+});
+
+describe('GET /api/books/[id]/download?format=tei', () => {
+  let db: MemoryDb;
+
+  beforeEach(async () => {
+    db = installMemoryDb();
+    await db.collection('books').insertOne({ ...book });
+    await db.collection('pages').insertMany(pages.map(page => ({ ...page })));
+  });
+
+  const tei = async (search: Record<string, string> = {}) => {
+    const response = await callRoute(download, '/api/books/book-1/download', {
+      params: { id: 'book-1' },
+      search: { format: 'tei', ...search },
+    });
+    return { response, xml: await response.text() };
+  };
+
+  it('exports a published edition as it was published, not as it has been edited since', async () => {
+    const created = await callRoute(createEdition, '/api/books/book-1/editions', {
+      system: true,
+      params: { id: 'book-1' },
+      body: { license: 'CC0-1.0' },
+    });
+    const { edition } = await created.json();
+    await db.collection('pages').updateOne({ id: 'p1' }, {
+      $set: { 'ocr.data': 'Materia prima', 'translation.data': 'The prime matter' },
+    });
+
+    const published = await tei({ edition_id: edition.id });
+    assert.equal(published.response.status, 200);
+    assert.match(published.response.headers.get('content-disposition') ?? '', /-v1\.0\.0-tei\.xml/);
+    assert.match(published.xml, /<p>Prima materia<\/p>/);
+    assert.match(published.xml, /<p>The first matter<\/p>/);
+    assert.doesNotMatch(published.xml, /Materia prima|The prime matter/);
+
+    const current = await tei();
+    assert.match(current.xml, /<p>The prime matter<\/p>/);
+  });
+
+  it('refuses editions the book does not have', async () => {
+    assert.equal((await tei({ edition_id: 'missing' })).response.status, 404);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { getTenantId, runAsTenant } from '@/lib/tenant.server';
+import { installMemoryDb } from './helpers/memory-db';
+import { withRequestScope } from './helpers/route';
+
+function tenantFor(path: string, headers: Record<string, string>) {
+  return withRequestScope(new URL(path, 'https://library.partner.edu'), new Headers(headers), () => getTenantId());
+}
+
+describe('getTenantId', () => {
+  const nodeEnv = process.env.NODE_ENV;
+
+  before(() => {
+    process.env.TENANT_HOSTS = 'library.partner.edu=partner';
+  });
+
+  after(() => {
+    delete process.env.TENANT_HOSTS;
+    Object.assign(process.env, { NODE_ENV: nodeEnv });
+  });
+
+  beforeEach(() => {
+    installMemoryDb();
+    Object.assign(process.env, { NODE_ENV: 'production' });
+  });
+
+  it('maps partner domains to their tenant', async () => {
+    assert.equal(await tenantFor('/api/books', { host: 'library.partner.edu' }), 'partner');
+    assert.equal(await tenantFor('/api/books', { host: 'Library.Partner.edu:443' }), 'partner');
+    assert.equal(await tenantFor('/api/books', { host: 'sourcelibrary.org' }), 'default');
+  });
+
+  it('ignores an x-tenant-id sent by the client, which the proxy may not have replaced', async () => {
+    assert.equal(await tenantFor('/api/books/book-1.json', { host: 'sourcelibrary.org', 'x-tenant-id': 'partner' }), 'default');
+    assert.equal(await tenantFor('/sitemap.xml', { host: 'library.partner.edu', 'x-tenant-id': 'default' }), 'partner');
+  });
+
+  it('takes the proxy\'s ?tenant= override in development', async () => {
+    Object.assign(process.env, { NODE_ENV: 'development' });
+    assert.equal(await tenantFor('/api/books', { host: 'localhost:3000', 'x-tenant-id': 'partner' }), 'partner');
+  });
+
+  it('is whatever runAsTenant says, outside requests', async () => {
+    assert.equal(await runAsTenant('partner', () => getTenantId()), 'partner');
+    assert.equal(await runAsTenant(null, () => getTenantId()), null);
+  });
+});
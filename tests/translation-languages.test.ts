@@ -0,0 +1,269 @@
+import { describe, it, before, after, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { ObjectId, type Db } from 'mongodb';
+import { POST as createWebhook } from '@/app/api/admin/webhooks/route';
+import { GET as download } from '@/app/api/books/[id]/download/route';
+import { POST as createEdition } from '@/app/api/books/[id]/editions/route';
+import { GET as getBookReview } from '@/app/api/books/[id]/review-status/route';
+import { GET as getBlame } from '@/app/api/pages/[id]/blame/route';
+import { POST as reviewPage } from '@/app/api/pages/[id]/review-status/route';
+import { PATCH as updatePage } from '@/app/api/pages/[id]/route';
+import { GET as search } from '@/app/api/search/route';
+import { getTranslationPrompt } from '@/lib/prompts';
+import { recordRevisions, REVISIONS_COLLECTION } from '@/lib/revisions';
+import { indexPages } from '@/lib/search/indexer';
+import { createSnapshotIfNeeded, restoreSnapshot } from '@/lib/snapshots';
+import { resolveTargetLanguage, updateTranslationProgress, withTranslation } from '@/lib/translation-languages';
+import type { BlameLine, Page } from '@/lib/types';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+import { callRoute, sessionHeaders } from './helpers/route';
+import { readZip } from './helpers/zip';
+
+const ADMIN = new ObjectId().toHexString();
+
+describe('target languages', () => {
+  let db: MemoryDb;
+
+  // Webhook deliveries wait for the cron instead of being sent
+  before(() => {
+    process.env.WEBHOOK_DELIVERY = 'cron';
+  });
+
+  after(() => {
+    delete process.env.WEBHOOK_DELIVERY;
+  });
+
+  beforeEach(async () => {
+    db = installMemoryDb();
+    await db.collection('books').insertOne({
+      id: 'book-1',
+      title: 'De Alchimia',
+      author: 'Anonymous',
+      language: 'Latin',
+      published: '1550',
+      pages_translated: 2,
+      translation_percent: 100,
+    });
+    await db.collection('pages').insertMany([
+      {
+        id: 'p1', book_id: 'book-1', page_number: 1,
+        ocr: { data: 'Prima materia' },
+        translation: { data: 'The first matter', language: 'English' },
+        translations: { it: { data: 'La prima sostanza', language: 'Italian' } },
+      },
+      {
+        id: 'p2', book_id: 'book-1', page_number: 2,
+        ocr: { data: 'Lapis philosophorum' },
+        translation: { data: 'The stone of the philosophers', language: 'English' },
+      },
+    ]);
+  });
+
+  it('resolves codes and names, and rejects languages it cannot translate into', () => {
+    assert.equal(resolveTargetLanguage(undefined), 'en');
+    assert.equal(resolveTargetLanguage('it'), 'it');
+    assert.equal(resolveTargetLanguage('Italian'), 'it');
+    assert.equal(resolveTargetLanguage('Klingon'), null);
+  });
+
+  it('stores an edited translation under its language and keeps the English one', async () => {
+    const response = await callRoute(updatePage, '/api/pages/p2', {
+      system: true,
+      method: 'PATCH',
+      params: { id: 'p2' },
+      body: { translation: { data: 'La pietra dei filosofi', language: 'Italian' }, edited_by: 'Giulia' },
+    });
+    assert.equal(response.status, 200);
+
+    const page = await db.collection('pages').findOne({ id: 'p2' }) as unknown as Page;
+    assert.equal(page.translation?.data, 'The stone of the philosophers');
+    assert.equal(page.translations?.it?.data, 'La pietra dei filosofi');
+    assert.equal(page.translations?.it?.edited_by, 'Giulia');
+    assert.equal(withTranslation(page, 'it').translation?.data, 'La pietra dei filosofi');
+
+    const refused = await callRoute(updatePage, '/api/pages/p2', {
+      system: true,
+      method: 'PATCH',
+      params: { id: 'p2' },
+      body: { translation: { data: 'tlhIngan', language: 'Klingon' } },
+    });
+    assert.equal(refused.status, 400);
+  });
+
+  it('keeps revision history for each language, and sends its edits to webhooks', async () => {
+    await db.collection('users').insertOne({ _id: new ObjectId(ADMIN), name: 'Ada', email: 'ada@example.org', role: 'admin' });
+    await callRoute(createWebhook, '/api/admin/webhooks', {
+      headers: await sessionHeaders(ADMIN),
+      body: { url: 'https://partner.example.org/hook', events: ['page.translated'] },
+    });
+    await recordRevisions(['p1'], { via: 'job' });
+
+    await callRoute(updatePage, '/api/pages/p1', {
+      system: true,
+      method: 'PATCH',
+      params: { id: 'p1' },
+      body: { translation: { data: 'La sostanza prima', language: 'Italian' }, edited_by: 'Giulia' },
+    });
+
+    const revisions = db.collection(REVISIONS_COLLECTION);
+    const italian = await revisions.find({ page_id: 'p1', target_language: 'it' }).sort({ revision: 1 }).toArray();
+    assert.deepEqual(italian.map(r => [r.revision, r.text, r.author]), [
+      [1, 'La prima sostanza', undefined],
+      [2, 'La sostanza prima', 'Giulia'],
+    ]);
+    assert.equal(await revisions.countDocuments({ field: 'translation', target_language: { $exists: false } }), 1);
+
+    const blame = await callRoute(getBlame, '/api/pages/p1/blame', { params: { id: 'p1' }, search: { target_language: 'it' } });
+    const { lines } = await blame.json() as { lines: BlameLine[] };
+    assert.deepEqual(lines.map(line => [line.text, line.author]), [['La sostanza prima', 'Giulia']]);
+
+    const events = (await db.collection('webhook_deliveries').find({}).toArray()).map(d => d.event.data);
+    assert.deepEqual(events.map(e => [e.target_language, e.revision]), [['en', 1], ['it', 1], ['it', 2]]);
+  });
+
+  it('snapshots and restores the translation in the language being overwritten', async () => {
+    await db.collection('pages').updateOne({ id: 'p1' }, {
+      $set: { 'translations.it.source': 'manual', 'translations.it.edited_by': 'Giulia' },
+    });
+
+    const snapshot = await createSnapshotIfNeeded('p1', 'pre_translate', 'job-1', undefined, 'it');
+    assert.equal(snapshot?.translation_data, 'La prima sostanza');
+    assert.equal(snapshot?.target_language, 'it');
+    assert.equal(await createSnapshotIfNeeded('p2', 'pre_translate', 'job-1', undefined, 'it'), undefined);
+
+    await db.collection('pages').updateOne({ id: 'p1' }, { $set: { 'translations.it': { data: 'Materia prima', source: 'ai' } } });
+    assert.deepEqual(await restoreSnapshot(snapshot!.id, 'Ada'), { success: true });
+
+    const page = await db.collection('pages').findOne({ id: 'p1' }) as unknown as Page;
+    assert.equal(page.translations?.it?.data, 'La prima sostanza');
+    assert.equal(page.translations?.it?.edited_by, 'Giulia');
+    assert.equal(page.translation?.data, 'The first matter');
+  });
+
+  it('counts progress for each language separately', async () => {
+    await updateTranslationProgress(db as unknown as Db, 'book-1', 'it');
+
+    const book = await db.collection('books').findOne({ id: 'book-1' });
+    assert.equal(book?.translation_progress.it.pages_translated, 1);
+    assert.equal(book?.translation_progress.it.translation_percent, 50);
+    assert.equal(book?.pages_translated, 2);
+    assert.equal(book?.translation_percent, 100);
+  });
+
+  it('searches the translation in the requested language', async () => {
+    await indexPages(['p1', 'p2']);
+    const find = async (q: string, targetLanguage?: string) => {
+      const response = await callRoute(search, '/api/search', {
+        search: { q, ...(targetLanguage && { target_language: targetLanguage }) },
+      });
+      const body = await response.json();
+      return (body.results as Array<{ page_number?: number; snippet?: string }>)
+        .map(result => `${result.page_number}: ${result.snippet}`);
+    };
+
+    assert.deepEqual(await find('sostanza', 'it'), ['1: La prima <mark>sostanza</mark>']);
+    assert.deepEqual(await find('sostanza'), []);
+    assert.deepEqual(await find('stone'), ['2: The <mark>stone</mark> of the philosophers']);
+    assert.deepEqual(await find('stone', 'it'), []);
+
+    const refused = await callRoute(search, '/api/search', { search: { q: 'stone', target_language: 'xx' } });
+    assert.equal(refused.status, 400);
+  });
+
+  it('publishes an edition per language without replacing the current English edition', async () => {
+    await db.collection('books').updateOne({ id: 'book-1' }, { $set: { current_edition_id: 'english-1' } });
+
+    const response = await callRoute(createEdition, '/api/books/book-1/editions', {
+      system: true,
+      params: { id: 'book-1' },
+      body: { license: 'CC-BY-4.0', target_language: 'it' },
+    });
+    assert.equal(response.status, 200);
+    const { edition } = await response.json();
+    assert.equal(edition.version, '1.0.0');
+    assert.equal(edition.citation.target_language, 'it');
+    assert.match(edition.citation.title, /^Italian Translation of/);
+
+    const book = await db.collection('books').findOne({ id: 'book-1' });
+    assert.equal(book?.current_edition_id, 'english-1');
+  });
+
+  it('proofreads each language separately, and publishes on that language\'s approvals', async () => {
+    await db.collection('books').updateOne({ id: 'book-1' }, {
+      $set: { review_policy: { required_approvals: 1, publish_min_approved_percent: 100 } },
+    });
+    const publish = (targetLanguage: string) => callRoute(createEdition, '/api/books/book-1/editions', {
+      system: true,
+      params: { id: 'book-1' },
+      body: { license: 'CC-BY-4.0', target_language: targetLanguage },
+    });
+    assert.equal((await publish('it')).status, 409);
+
+    const approved = await callRoute(reviewPage, '/api/pages/p1/review-status', {
+      system: true,
+      params: { id: 'p1' },
+      body: { field: 'translation', target_language: 'it', action: 'approve', reviewer: 'Giulia' },
+    });
+    assert.equal(approved.status, 200);
+    const page = await db.collection('pages').findOne({ id: 'p1' }) as unknown as Page;
+    assert.equal(page.review?.translations?.it?.state, 'approved');
+    assert.equal(page.review?.translation, undefined);
+
+    const summary = await callRoute(getBookReview, '/api/books/book-1/review-status', {
+      params: { id: 'book-1' },
+      search: { target_language: 'it' },
+    });
+    const { translated_pages, approved_percent } = await summary.json();
+    assert.deepEqual([translated_pages, approved_percent], [1, 100]);
+
+    // Only the Italian translation was approved
+    assert.equal((await publish('en')).status, 409);
+    const response = await publish('it');
+    assert.equal(response.status, 200);
+    const { edition } = await response.json();
+    assert.deepEqual(edition.contributors.filter((c: { type: string }) => c.type === 'human'), [
+      { name: 'Giulia', role: 'reviewer', type: 'human' },
+    ]);
+
+    // A page without an Italian translation has nothing to review in Italian
+    const missing = await callRoute(reviewPage, '/api/pages/p2/review-status', {
+      system: true,
+      params: { id: 'p2' },
+      body: { field: 'translation', target_language: 'it', action: 'start' },
+    });
+    assert.equal(missing.status, 400);
+  });
+
+  it('downloads the translation in the requested language', async () => {
+    const response = await callRoute(download, '/api/books/book-1/download', {
+      params: { id: 'book-1' },
+      search: { format: 'epub-translation', target_language: 'it' },
+    });
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get('content-disposition') ?? '', /-it-translation\.epub/);
+
+    const text = readZip(Buffer.from(await response.arrayBuffer())).map(entry => entry.data.toString('utf8')).join('\n');
+    assert.match(text, /La prima sostanza/);
+    assert.doesNotMatch(text, /The first matter/);
+    assert.match(text, /<dc:language>it<\/dc:language>/);
+  });
+
+  it('uses the default prompt written for the target language', async () => {
+    await db.collection('prompts').insertMany([
+      { name: 'Standard Translation', type: 'translation', version: 1, content: 'Translate {language} into English.', is_default: true },
+      { name: 'Traduzione', type: 'translation', version: 1, content: 'Traduci dal {language} in {targetLanguage}.', is_default: true, target_language: 'it' },
+    ]);
+
+    const italian = await getTranslationPrompt('Latin', 'Italian');
+    assert.equal(italian.text, 'Traduci dal Latin in Italian.');
+    assert.equal(italian.reference.name, 'Traduzione');
+
+    const english = await getTranslationPrompt('Latin', 'English');
+    assert.equal(english.text, 'Translate Latin into English.');
+
+    // Without a French prompt the English default is told to write French
+    const french = await getTranslationPrompt('Latin', 'French');
+    assert.equal(french.reference.name, 'Standard Translation');
+    assert.match(french.text, /Write the translation, notes and keywords in French/);
+  });
+});
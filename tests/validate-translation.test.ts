@@ -0,0 +1,120 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyFix, cleanupEmptyTags, validateTranslation, type ValidationIssue } from '@/lib/validateTranslation';
+
+function issueTypes(text: string): ValidationIssue['type'][] {
+  return validateTranslation(text).issues.map(issue => issue.type);
+}
+
+// Apply each issue's suggested fix, last position first so earlier fixes
+// don't shift the positions of later ones
+function applyAllFixes(text: string): string {
+  const fixes = validateTranslation(text).issues
+    .flatMap(issue => issue.suggestedFix ? [issue.suggestedFix] : [])
+    .sort((a, b) => b.position - a.position);
+  return fixes.reduce(applyFix, text);
+}
+
+describe('validateTranslation', () => {
+  it('accepts empty text', () => {
+    assert.deepEqual(validateTranslation(''), { valid: true, issues: [] });
+  });
+
+  it('accepts well-formed bracket and XML tags', () => {
+    const text = [
+      '[[header: CHAPTER I]]',
+      '->On the Philosophers\' Stone<-',
+      'The work begins [[note: in the 1618 edition]] with <term>prima materia</term>.',
+      '<margin>Hermes</margin> <page-num>12</page-num>',
+    ].join('\n');
+
+    assert.deepEqual(validateTranslation(text), { valid: true, issues: [] });
+  });
+
+  it('reports an unclosed [[ and suggests closing it at the paragraph end', () => {
+    const text = 'Before [[note: unfinished\n\nNext paragraph';
+    const result = validateTranslation(text);
+
+    assert.equal(result.valid, false);
+    assert.equal(result.issues.length, 1);
+    const [issue] = result.issues;
+    assert.equal(issue.type, 'unclosed_open');
+    assert.equal(issue.position, text.indexOf('[['));
+    assert.deepEqual(issue.suggestedFix, { type: 'insert', position: text.indexOf('\n\n'), text: ']]' });
+  });
+
+  it('reports a stray ]]', () => {
+    const result = validateTranslation('No tag here]] at all');
+    assert.deepEqual(result.issues.map(i => [i.type, i.position]), [['unclosed_close', 11]]);
+  });
+
+  it('reports nested brackets', () => {
+    assert.ok(issueTypes('[[note: outer [[gloss: inner]] ]]').includes('nested_bracket'));
+  });
+
+  it('reports unknown and empty bracket tags', () => {
+    assert.deepEqual(issueTypes('[[footnote: text]]'), ['unknown_tag']);
+    assert.deepEqual(issueTypes('[[note: ]]'), ['empty_tag']);
+  });
+
+  it('reports unbalanced centering markers', () => {
+    assert.deepEqual(issueTypes('->Title'), ['unbalanced_center']);
+    assert.deepEqual(issueTypes('Title<-'), ['unbalanced_center']);
+  });
+
+  it('reports unknown, unclosed and empty XML tags', () => {
+    assert.deepEqual(issueTypes('<foo>text</foo>'), ['unknown_xml_tag']);
+    assert.deepEqual(issueTypes('<note>never closed'), ['unclosed_xml']);
+    assert.deepEqual(issueTypes('stray</note>'), ['unclosed_xml']);
+    assert.deepEqual(issueTypes('<note> </note>'), ['empty_xml_tag']);
+  });
+
+  it('returns issues in text order with context', () => {
+    const text = 'a]] b <note>c';
+    const { issues } = validateTranslation(text);
+
+    assert.deepEqual(issues.map(i => i.position), [1, 6]);
+    assert.ok(issues.every(i => text.includes(i.context.replace(/\.\.\./g, ''))));
+  });
+});
+
+describe('applyFix', () => {
+  it('inserts, deletes and replaces', () => {
+    assert.equal(applyFix('abcdef', { type: 'insert', position: 3, text: 'X' }), 'abcXdef');
+    assert.equal(applyFix('abcdef', { type: 'delete', position: 1, length: 2 }), 'adef');
+    assert.equal(applyFix('abcdef', { type: 'replace', position: 2, length: 3, text: 'Y' }), 'abYf');
+  });
+
+  it('leaves the text alone for unknown fix types', () => {
+    assert.equal(applyFix('abc', { type: 'swap' as 'insert', position: 0 }), 'abc');
+  });
+
+  it('suggested fixes make the text valid', () => {
+    const broken = [
+      'Stray]] closing',
+      '[[note: never closed',
+      '',
+      '->Heading',
+      '<gloss></gloss> and <note>open',
+    ].join('\n');
+
+    const fixed = applyAllFixes(broken);
+
+    assert.equal(validateTranslation(broken).valid, false);
+    assert.deepEqual(validateTranslation(fixed).issues, []);
+    assert.ok(fixed.includes('[[note: never closed]]'));
+    assert.ok(fixed.includes('<note>open</note>'));
+  });
+});
+
+describe('cleanupEmptyTags', () => {
+  it('removes empty bracket and XML tags and the spaces they leave', () => {
+    const result = cleanupEmptyTags('Text [[unclear: ]] more <note></note> end\n [[margin:]]line');
+    assert.deepEqual(result, { cleaned: 'Text more end\nline', removedCount: 3 });
+  });
+
+  it('keeps tags with content', () => {
+    const text = 'Keep [[note: this]] and <term>that</term>';
+    assert.deepEqual(cleanupEmptyTags(text), { cleaned: text, removedCount: 0 });
+  });
+});
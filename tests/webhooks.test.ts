@@ -0,0 +1,172 @@
+import { describe, it, before, after, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { ObjectId } from 'mongodb';
+import { GET as listWebhooks, POST as createWebhook } from '@/app/api/admin/webhooks/route';
+import { POST as replay } from '@/app/api/admin/webhooks/deliveries/[id]/replay/route';
+import { POST as deliverWebhooks } from '@/app/api/cron/deliver-webhooks/route';
+import { POST as createAnnotation } from '@/app/api/annotations/route';
+import { recordRevisions, REVISIONS_COLLECTION } from '@/lib/revisions';
+import { verifyWebhookSignature, webhookBackoffMs } from '@/lib/webhooks.server';
+import { installMemoryDb, type MemoryDb } from './helpers/memory-db';
+import { callRoute, sessionHeaders } from './helpers/route';
+
+const ADMIN = new ObjectId().toHexString();
+const EDITOR = new ObjectId().toHexString();
+
+describe('webhooks', () => {
+  let memory: MemoryDb;
+
+  // Deliveries are only sent when the tests run the cron
+  before(() => {
+    process.env.WEBHOOK_DELIVERY = 'cron';
+  });
+
+  after(() => {
+    delete process.env.WEBHOOK_DELIVERY;
+  });
+
+  beforeEach(async () => {
+    memory = installMemoryDb();
+    await memory.collection('users').insertMany([
+      { _id: new ObjectId(ADMIN), name: 'Ada', email: 'ada@example.org', role: 'admin' },
+      { _id: new ObjectId(EDITOR), name: 'Eli', email: 'eli@example.org', role: 'editor' },
+    ]);
+    await memory.collection('books').insertOne({ id: 'book-1', title: 'Pimander' });
+    await memory.collection('pages').insertOne({ id: 'p1', book_id: 'book-1', page_number: 1, ocr: { data: 'Pagina' } });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  async function subscribe(body: Record<string, unknown>, userId = ADMIN) {
+    const response = await callRoute(createWebhook, '/api/admin/webhooks', { headers: await sessionHeaders(userId), body });
+    return { status: response.status, body: await response.json() };
+  }
+
+  function annotate() {
+    return callRoute(createAnnotation, '/api/annotations', {
+      body: { book_id: 'book-1', page_id: 'p1', page_number: 1, anchor: { text: 'Pagina' }, content: 'See Ficino', type: 'comment' },
+    });
+  }
+
+  async function runCron() {
+    return await (await callRoute(deliverWebhooks, '/api/cron/deliver-webhooks', { system: true, method: 'POST' })).json();
+  }
+
+  it('lets admins subscribe, showing the secret only once', async () => {
+    const denied = await subscribe({ url: 'https://partner.example.org/hook', events: ['book.imported'] }, EDITOR);
+    assert.equal(denied.status, 403);
+
+    const invalid = await subscribe({ url: 'ftp://partner.example.org/hook', events: ['book.imported'] });
+    assert.equal(invalid.status, 400);
+    assert.equal((await subscribe({ url: 'https://partner.example.org/hook', events: ['book.burned'] })).status, 400);
+
+    const created = await subscribe({ url: 'https://partner.example.org/hook', events: ['annotation.created', 'book.imported'] });
+    assert.equal(created.status, 200);
+    assert.match(created.body.secret, /^whsec_/);
+    assert.equal(created.body.webhook.secret, undefined);
+    assert.deepEqual(created.body.webhook.events, ['book.imported', 'annotation.created'], 'kept in catalogue order');
+
+    const listed = await (await callRoute(listWebhooks, '/api/admin/webhooks', { headers: await sessionHeaders(ADMIN) })).json();
+    assert.equal(listed.webhooks.length, 1);
+    assert.equal(listed.webhooks[0].secret, undefined);
+    assert.equal(listed.webhooks[0].secret_hint, `whsec_…${created.body.secret.slice(-4)}`);
+    assert.deepEqual(listed.webhooks[0].deliveries, { pending: 0, delivered: 0, failed: 0 });
+  });
+
+  it('sends subscribed events as signed POSTs', async () => {
+    const { body: { secret } } = await subscribe({ url: 'https://partner.example.org/hook', events: ['annotation.created'] });
+    await subscribe({ url: 'https://other.example.org/hook', events: ['book.imported'] });
+
+    assert.equal((await annotate()).status, 201);
+    const [pending, ...others] = await memory.collection('webhook_deliveries').find().toArray();
+    assert.equal(others.length, 0, 'only the subscription that wants the event gets it');
+    assert.equal(pending.status, 'pending');
+
+    const fetchMock = mock.method(globalThis, 'fetch', async () => new Response('ok'));
+    const result = await runCron();
+    assert.equal(result.delivered, 1);
+
+    const [url, init] = fetchMock.mock.calls[0].arguments as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    assert.equal(url, 'https://partner.example.org/hook');
+    assert.equal(headers['X-SourceLibrary-Event'], 'annotation.created');
+    assert.ok(verifyWebhookSignature(secret, headers['X-SourceLibrary-Signature'], init.body as string));
+    assert.ok(!verifyWebhookSignature('whsec_wrong', headers['X-SourceLibrary-Signature'], init.body as string));
+
+    const event = JSON.parse(init.body as string);
+    assert.equal(event.type, 'annotation.created');
+    assert.equal(event.data.book_id, 'book-1');
+    assert.equal(event.data.content, 'See Ficino');
+
+    const delivered = await memory.collection('webhook_deliveries').findOne({ id: pending.id });
+    assert.equal(delivered?.status, 'delivered');
+    assert.equal(delivered?.response_status, 200);
+    assert.equal((await runCron()).attempted, 0, 'nothing left to send');
+  });
+
+  it('retries failed deliveries with backoff, then gives up', async () => {
+    await subscribe({ url: 'https://partner.example.org/hook', events: ['annotation.created'] });
+    await annotate();
+    await memory.collection('webhook_deliveries').updateOne({}, { $set: { max_attempts: 2 } });
+
+    mock.method(globalThis, 'fetch', async () => new Response('down for maintenance', { status: 503 }));
+    assert.equal((await runCron()).retrying, 1);
+
+    let delivery = await memory.collection('webhook_deliveries').findOne({});
+    assert.equal(delivery?.status, 'pending');
+    assert.equal(delivery?.response_status, 503);
+    assert.equal(delivery?.response_body, 'down for maintenance');
+    const wait = delivery?.next_attempt_at.getTime() - delivery?.last_attempt_at.getTime();
+    assert.ok(Math.abs(wait - webhookBackoffMs(1)) < 1000);
+    assert.equal((await runCron()).attempted, 0, 'not due yet');
+
+    await memory.collection('webhook_deliveries').updateOne({}, { $set: { next_attempt_at: new Date() } });
+    assert.equal((await runCron()).failed, 1);
+    delivery = await memory.collection('webhook_deliveries').findOne({});
+    assert.equal(delivery?.status, 'failed');
+    assert.equal(delivery?.attempts, 2);
+    assert.equal(delivery?.next_attempt_at, null);
+    assert.deepEqual(
+      delivery?.attempt_history.map((a: { attempt: number; response_status: number; error: string }) => [a.attempt, a.response_status, a.error]),
+      [[1, 503, 'HTTP 503'], [2, 503, 'HTTP 503']]
+    );
+  });
+
+  it('reports OCR when it is run, not when its text is edited', async () => {
+    await subscribe({ url: 'https://partner.example.org/hook', events: ['page.ocr_completed'] });
+    const pages = memory.collection('pages');
+    const events = async () => (await memory.collection('webhook_deliveries').find({}).toArray()).map(d => d.event.data.via);
+
+    await pages.updateOne({ id: 'p1' }, { $set: { ocr: { data: 'Pagina prima', source: 'ai', model: 'fake-model' } } });
+    await recordRevisions(['p1'], { via: 'job', job_id: 'job-1' });
+    assert.deepEqual(await events(), ['job']);
+
+    await pages.updateOne({ id: 'p1' }, { $set: { ocr: { data: 'Pagina secunda', source: 'manual', edited_by: 'Eli' } } });
+    await recordRevisions(['p1'], { via: 'editor' });
+    assert.deepEqual(await events(), ['job']);
+    assert.equal(await memory.collection(REVISIONS_COLLECTION).countDocuments({ page_id: 'p1' }), 2, 'the edit is still kept');
+  });
+
+  it('replays a delivery as a new one with the same event', async () => {
+    await subscribe({ url: 'https://partner.example.org/hook', events: ['annotation.created'] });
+    await annotate();
+    const original = await memory.collection('webhook_deliveries').findOne({});
+
+    const fetchMock = mock.method(globalThis, 'fetch', async () => new Response(null, { status: 204 }));
+    const response = await callRoute(replay, `/api/admin/webhooks/deliveries/${original?.id}/replay`, {
+      params: { id: original!.id },
+      headers: await sessionHeaders(ADMIN),
+      method: 'POST',
+    });
+    assert.equal(response.status, 200);
+    const { delivery } = await response.json();
+
+    assert.notEqual(delivery.id, original?.id);
+    assert.equal(delivery.replay_of, original?.id);
+    assert.equal(delivery.event.id, original?.event.id);
+    assert.equal(delivery.status, 'delivered');
+    assert.equal(fetchMock.mock.callCount(), 1, 'sent before responding');
+  });
+});